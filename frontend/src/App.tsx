@@ -13,6 +13,7 @@ import UserLayout from './layouts/UserLayout';
 import AdminLayout from './layouts/AdminLayout';
 import { AdminAuthProvider } from './contexts/AdminAuthContext';
 import { ThemeProvider } from './contexts/ThemeContext';
+import { CurrencyProvider } from './contexts/CurrencyContext';
 import DarkModeToggle from './components/DarkModeToggle';
 import ScrollManager from './components/ScrollManager';
 import SessionMonitorWrapper from './components/SessionMonitorWrapper';
@@ -46,7 +47,12 @@ import AdminBundleViewPage from './pages/AdminBundleViewPage';
 import AdminBundleEditPage from './pages/AdminBundleEditPage';
 import AdminAnnouncementsPage from './pages/AdminAnnouncementsPage';
 import AdminReviewsPage from './pages/AdminReviewsPage';
+import AdminCouponsPage from './pages/AdminCouponsPage';
+import AdminInstructorProfilePage from './pages/AdminInstructorProfilePage';
+import AdminAuditLogPage from './pages/AdminAuditLogPage';
+import AdminCertificatesPage from './pages/AdminCertificatesPage';
 import CheckoutSuccessPage from './pages/CheckoutSuccessPage';
+import RedeemGiftPage from './pages/RedeemGiftPage';
 import CheckoutCancelPage from './pages/CheckoutCancelPage';
 import PaymentFailurePage from './pages/PaymentFailurePage';
 import AboutPage from './pages/AboutPage';
@@ -90,6 +96,7 @@ function App() {
   return (
     <QueryClientProvider client={queryClient}>
       <ThemeProvider>
+      <CurrencyProvider>
         <Router>
           <MetaTagsUpdater />
           <SessionMonitorWrapper>
@@ -117,6 +124,7 @@ function App() {
           <Route path="/checkout/success" element={<CheckoutSuccessPage />} />
           <Route path="/checkout/cancel" element={<CheckoutCancelPage />} />
           <Route path="/checkout/failure" element={<PaymentFailurePage />} />
+          <Route path="/redeem" element={<RedeemGiftPage />} />
           <Route path="/about" element={<AboutPage />} />
           <Route path="/contact" element={<ContactPage />} />
           <Route path="/help-center" element={<HelpCenterPage />} />
@@ -149,6 +157,10 @@ function App() {
           <Route path="bundles/:bundleId/edit" element={<AdminBundleEditPage />} />
           <Route path="announcements" element={<AdminAnnouncementsPage />} />
           <Route path="reviews" element={<AdminReviewsPage />} />
+          <Route path="coupons" element={<AdminCouponsPage />} />
+          <Route path="profile" element={<AdminInstructorProfilePage />} />
+          <Route path="audit" element={<AdminAuditLogPage />} />
+          <Route path="certificates" element={<AdminCertificatesPage />} />
         </Route>
             </Routes>
           </ScrollManager>
@@ -160,6 +172,7 @@ function App() {
           retryAfter={rateLimit.retryAfter}
         />
       </Router>
+    </CurrencyProvider>
     </ThemeProvider>
   </QueryClientProvider>
   );
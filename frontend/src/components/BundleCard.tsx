@@ -3,6 +3,8 @@ import { Link } from 'react-router-dom';
 import { useTranslation } from 'react-i18next';
 import { BookOpen, ShoppingCart, Tag, Eye, CheckCircle, Play } from 'lucide-react';
 import { getLocalizedText } from '../utils/bilingualHelper';
+import { useCurrency } from '../hooks/useCurrency';
+import { LocalPrices } from '../utils/currency';
 
 interface BundleCardProps {
   bundle: {
@@ -11,6 +13,7 @@ interface BundleCardProps {
     description: string | { en: string; tg: string };
     longDescription?: string | { en: string; tg: string };
     price: number;
+    prices?: LocalPrices;
     originalValue?: number;
     courseIds: string[];
     thumbnailURL?: string;
@@ -27,6 +30,10 @@ interface BundleCardProps {
 const BundleCard: React.FC<BundleCardProps> = ({ bundle, className = '' }) => {
   const { t, i18n } = useTranslation();
   const [imgError, setImgError] = useState(false);
+  const { priceFor, formatPrice } = useCurrency();
+  const displayPrice = priceFor(bundle);
+  // originalValue is the USD sum of the course prices, so the amount saved is only shown in USD
+  const showOriginalValue = !!bundle.originalValue && displayPrice.currency === 'usd';
   const currentLanguage = (i18n.language || 'en') as 'en' | 'tg';
   
   // Get localized text based on current language
@@ -147,15 +154,15 @@ const BundleCard: React.FC<BundleCardProps> = ({ bundle, className = '' }) => {
             <div className="flex-1 min-w-0">
               <div className="flex items-baseline gap-2 sm:gap-3 flex-wrap">
                 <span className="text-2xl sm:text-3xl md:text-4xl font-bold text-gray-900 dark:text-white">
-                  ${bundle.price.toFixed(2)}
+                  {formatPrice(displayPrice.amount, displayPrice.currency)}
                 </span>
-                {bundle.originalValue && (
+                {showOriginalValue && bundle.originalValue && (
                   <span className="text-base sm:text-lg text-gray-500 dark:text-gray-400 line-through">
-                    ${bundle.originalValue.toFixed(2)}
+                    {formatPrice(bundle.originalValue, 'usd')}
                   </span>
                 )}
               </div>
-              {savingsPercentage && bundle.originalValue && !bundle.isPurchased && (
+              {savingsPercentage && showOriginalValue && bundle.originalValue && !bundle.isPurchased && (
                 <p className="text-xs sm:text-sm text-green-600 dark:text-green-400 mt-1 font-medium">
                   {t('bundle_card.save_amount', `Save $${(bundle.originalValue - bundle.price).toFixed(2)}`, { amount: (bundle.originalValue - bundle.price).toFixed(2) })}
                 </p>
@@ -1,7 +1,9 @@
 import React, { useState, useEffect } from 'react';
 import { buildApiUrl } from '../config/environment';
 
-import { Download, CheckCircle, Calendar, Award, Eye, Share2, FileText, Sparkles } from 'lucide-react';
+import { Download, CheckCircle, Calendar, Award, Eye, Share2, FileText, Sparkles, BadgeCheck, Linkedin } from 'lucide-react';
+import { downloadOpenBadge, buildLinkedInAddUrl } from '../utils/openBadge';
+import { authFetch, getAccessToken } from '../utils/api';
 
 interface CertificateDownloadProps {
   courseId: string;
@@ -26,6 +28,7 @@ const CertificateDownload: React.FC<CertificateDownloadProps> = ({
   const [certificate, setCertificate] = useState<Certificate | null>(null);
   const [loading, setLoading] = useState(false);
   const [downloading, setDownloading] = useState(false);
+  const [downloadingBadge, setDownloadingBadge] = useState(false);
   const [generating, setGenerating] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [showSuccess, setShowSuccess] = useState(false);
@@ -40,18 +43,14 @@ const CertificateDownload: React.FC<CertificateDownloadProps> = ({
     try {
       setLoading(true);
       setError(null);
-      const token = localStorage.getItem('token');
+      const token = getAccessToken();
       
       if (!token) {
         setError('Authentication required');
         return;
       }
 
-      const response = await fetch(buildApiUrl(`/api/certificates/course/${courseId}`), {
-        headers: {
-          'Authorization': `Bearer ${token}`
-        }
-      });
+      const response = await authFetch(`/api/certificates/course/${courseId}`);
 
       if (response.ok) {
         const result = await response.json();
@@ -76,18 +75,14 @@ const CertificateDownload: React.FC<CertificateDownloadProps> = ({
     try {
       setDownloading(true);
       setError(null);
-      const token = localStorage.getItem('token');
+      const token = getAccessToken();
       
       if (!token) {
         setError('Authentication required');
         return;
       }
 
-      const response = await fetch(buildApiUrl(`/api/certificates/download/${certificate.certificateId}`), {
-        headers: {
-          'Authorization': `Bearer ${token}`
-        }
-      });
+      const response = await authFetch(`/api/certificates/download/${certificate.certificateId}`);
 
       if (!response.ok) {
         throw new Error('Failed to download certificate');
@@ -120,18 +115,17 @@ const CertificateDownload: React.FC<CertificateDownloadProps> = ({
     try {
       setGenerating(true);
       setError(null);
-      const token = localStorage.getItem('token');
+      const token = getAccessToken();
       
       if (!token) {
         setError('Authentication required');
         return;
       }
 
-      const response = await fetch(buildApiUrl('/api/certificates/generate'), {
+      const response = await authFetch('/api/certificates/generate', {
         method: 'POST',
         headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`
+          'Content-Type': 'application/json'
         },
         body: JSON.stringify({
           courseId: courseId
@@ -158,6 +152,21 @@ const CertificateDownload: React.FC<CertificateDownloadProps> = ({
     }
   };
 
+  const downloadBadge = async () => {
+    if (!certificate) return;
+
+    try {
+      setDownloadingBadge(true);
+      setError(null);
+      await downloadOpenBadge(certificate.certificateId);
+    } catch (error) {
+      console.error('Error downloading Open Badge credential:', error);
+      setError('Failed to download credential');
+    } finally {
+      setDownloadingBadge(false);
+    }
+  };
+
   const previewCertificate = () => {
     if (!certificate) return;
     
@@ -282,6 +291,37 @@ const CertificateDownload: React.FC<CertificateDownloadProps> = ({
               <span>Share</span>
             </button>
           </div>
+
+          {/* Portable credentials */}
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <button
+              onClick={downloadBadge}
+              disabled={downloadingBadge}
+              title="Download as an Open Badges 3.0 verifiable credential (JSON)"
+              className="flex items-center justify-center space-x-2 bg-white hover:bg-gray-50 disabled:bg-gray-100 border border-gray-300 text-gray-700 px-4 py-3 rounded-lg transition-all duration-200 font-medium shadow-sm hover:shadow-md"
+            >
+              {downloadingBadge ? (
+                <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-gray-700"></div>
+              ) : (
+                <BadgeCheck className="w-4 h-4" />
+              )}
+              <span>Open Badge</span>
+            </button>
+
+            <a
+              href={buildLinkedInAddUrl({
+                certificateId: certificate.certificateId,
+                courseTitle,
+                dateIssued: certificate.dateIssued
+              })}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="flex items-center justify-center space-x-2 bg-[#0A66C2] hover:bg-[#004182] text-white px-4 py-3 rounded-lg transition-all duration-200 font-medium shadow-sm hover:shadow-md"
+            >
+              <Linkedin className="w-4 h-4" />
+              <span>Add to LinkedIn</span>
+            </a>
+          </div>
         </div>
       ) : (
         <div className="space-y-4">
@@ -0,0 +1,636 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { buildApiUrl } from '../config/environment';
+import { Plus, Edit, Trash2, Upload, X, Save, RefreshCw } from 'lucide-react';
+import {
+  CertificateTemplate,
+  ImagePlacement,
+  TemplateAsset,
+  TemplateFontFace,
+  TemplateSignature,
+  TemplateTextField,
+  TextPlacement
+} from '../types/certificateTemplate';
+
+interface CertificateTemplateSettingsProps {
+  courseId: string;
+  value: string | null; // Selected template id, null for the classic design
+  onChange: (templateId: string | null) => void;
+  canManage: boolean; // Content managers design templates; instructors only pick one
+}
+
+const FIELD_LABELS: Record<TemplateTextField, string> = {
+  heading: 'Platform name',
+  title: 'Title',
+  intro: 'Intro line',
+  studentName: 'Student name',
+  completionText: 'Completion line',
+  courseTitle: 'Course title',
+  completionDate: 'Completion date',
+  instructorName: 'Instructor',
+  certificateId: 'Certificate ID',
+  verifyUrl: 'Verification URL'
+};
+
+const TEXT_LABELS: Record<keyof CertificateTemplate['texts'], string> = {
+  heading: 'Platform name',
+  title: 'Title',
+  intro: 'Intro line',
+  completionText: 'Completion line',
+  datePrefix: 'Before the date',
+  instructorPrefix: 'Before the instructor'
+};
+
+const FONT_FACES = [
+  { value: 'serif', label: 'Serif (Times)' },
+  { value: 'serif-bold', label: 'Serif bold' },
+  { value: 'sans', label: 'Sans (Helvetica)' },
+  { value: 'sans-bold', label: 'Sans bold' }
+];
+
+const MAX_SIGNATURES = 3;
+const PREVIEW_DELAY_MS = 600;
+
+const authHeaders = (json = true): Record<string, string> => {
+  const adminToken = localStorage.getItem('adminToken');
+  if (!adminToken) {
+    throw new Error('Admin token not found');
+  }
+  return json
+    ? { 'Authorization': `Bearer ${adminToken}`, 'Content-Type': 'application/json' }
+    : { 'Authorization': `Bearer ${adminToken}` };
+};
+
+const inputClass = 'w-full px-2 py-1.5 bg-gray-900 border border-gray-600 rounded text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+const labelClass = 'block text-xs font-medium text-gray-400 mb-1';
+
+const NumberInput: React.FC<{ value: number; onChange: (value: number) => void; min: number; max: number; step?: number; label: string }> = ({ value, onChange, min, max, step = 1, label }) => (
+  <label className="block">
+    <span className={labelClass}>{label}</span>
+    <input
+      type="number"
+      value={value}
+      min={min}
+      max={max}
+      step={step}
+      onChange={(e) => onChange(Math.min(max, Math.max(min, Number(e.target.value) || 0)))}
+      className={inputClass}
+    />
+  </label>
+);
+
+const PlacementInputs: React.FC<{ placement: ImagePlacement; onChange: (placement: ImagePlacement) => void }> = ({ placement, onChange }) => (
+  <div className="grid grid-cols-3 gap-2">
+    <NumberInput label="X (%)" value={placement.x} min={0} max={100} onChange={(x) => onChange({ ...placement, x })} />
+    <NumberInput label="Y (%)" value={placement.y} min={0} max={100} onChange={(y) => onChange({ ...placement, y })} />
+    <NumberInput label="Width (pt)" value={placement.width} min={10} max={600} onChange={(width) => onChange({ ...placement, width })} />
+  </div>
+);
+
+/**
+ * Per-course certificate template picker with a live PDF preview.
+ * Content managers can also create and edit templates here.
+ */
+const CertificateTemplateSettings: React.FC<CertificateTemplateSettingsProps> = ({ courseId, value, onChange, canManage }) => {
+  const [templates, setTemplates] = useState<CertificateTemplate[]>([]);
+  const [draft, setDraft] = useState<CertificateTemplate | null>(null);
+  const [sampleName, setSampleName] = useState('');
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [previewing, setPreviewing] = useState(false);
+  const [uploading, setUploading] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const selectedTemplate = templates.find(template => template._id === value) || null;
+  // The editor previews the draft; otherwise the selected template is shown
+  const previewTemplate = draft || selectedTemplate;
+
+  const fetchTemplates = useCallback(async () => {
+    try {
+      const response = await fetch(buildApiUrl('/api/admin/certificate-templates'), { headers: authHeaders() });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to load certificate templates');
+      }
+      setTemplates(data.data.templates || []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load certificate templates');
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchTemplates();
+  }, [fetchTemplates]);
+
+  // Re-render the preview shortly after the last change
+  useEffect(() => {
+    if (!previewTemplate) {
+      setPreviewUrl(null);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        setPreviewing(true);
+        const response = await fetch(buildApiUrl('/api/admin/certificate-templates/preview'), {
+          method: 'POST',
+          headers: authHeaders(),
+          body: JSON.stringify({
+            template: previewTemplate,
+            courseId,
+            sample: sampleName.trim() ? { studentName: sampleName.trim() } : undefined
+          })
+        });
+        if (!response.ok) {
+          const data = await response.json().catch(() => ({}));
+          throw new Error(data.message || 'Failed to render preview');
+        }
+        const url = URL.createObjectURL(await response.blob());
+        if (cancelled) {
+          URL.revokeObjectURL(url);
+          return;
+        }
+        setPreviewUrl(url);
+        setError(null);
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to render preview');
+      } finally {
+        if (!cancelled) setPreviewing(false);
+      }
+    }, PREVIEW_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [previewTemplate, courseId, sampleName]);
+
+  // Release the previous preview's blob URL
+  useEffect(() => () => {
+    if (previewUrl) URL.revokeObjectURL(previewUrl);
+  }, [previewUrl]);
+
+  const startNewTemplate = async () => {
+    try {
+      const response = await fetch(buildApiUrl('/api/admin/certificate-templates/defaults'), { headers: authHeaders() });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to load template defaults');
+      }
+      setDraft({ ...data.data.template, name: 'New template' });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load template defaults');
+    }
+  };
+
+  const uploadAsset = async (file: File, kind: 'image' | 'font', slot: string): Promise<TemplateAsset | null> => {
+    try {
+      setUploading(slot);
+      const formData = new FormData();
+      formData.append('file', file);
+      formData.append('kind', kind);
+
+      const response = await fetch(buildApiUrl('/api/admin/certificate-templates/assets'), {
+        method: 'POST',
+        headers: authHeaders(false),
+        body: formData
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to upload file');
+      }
+      return data.data.asset;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to upload file');
+      return null;
+    } finally {
+      setUploading(null);
+    }
+  };
+
+  const updateDraft = (patch: Partial<CertificateTemplate>) => {
+    setDraft(prev => (prev ? { ...prev, ...patch } : prev));
+  };
+
+  const updateField = (field: TemplateTextField, patch: Partial<TextPlacement>) => {
+    setDraft(prev => (prev ? { ...prev, fields: { ...prev.fields, [field]: { ...prev.fields[field], ...patch } } } : prev));
+  };
+
+  const updateSignature = (index: number, patch: Partial<TemplateSignature>) => {
+    setDraft(prev => (prev
+      ? { ...prev, signatures: prev.signatures.map((signature, i) => (i === index ? { ...signature, ...patch } : signature)) }
+      : prev));
+  };
+
+  const addSignature = () => {
+    if (!draft || draft.signatures.length >= MAX_SIGNATURES) return;
+    // Spread signatures across the bottom of the page
+    const x = [25, 75, 50][draft.signatures.length];
+    updateDraft({
+      signatures: [...draft.signatures, { name: '', title: '', placement: { x, y: 82, width: 120, visible: true } }]
+    });
+  };
+
+  const handleAssetInput = (kind: 'image' | 'font', slot: string, apply: (asset: TemplateAsset) => void) =>
+    async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = '';
+      if (!file) return;
+      const asset = await uploadAsset(file, kind, slot);
+      if (asset) apply(asset);
+    };
+
+  const saveDraft = async () => {
+    if (!draft) return;
+    try {
+      setSaving(true);
+      const response = await fetch(buildApiUrl(`/api/admin/certificate-templates${draft._id ? `/${draft._id}` : ''}`), {
+        method: draft._id ? 'PUT' : 'POST',
+        headers: authHeaders(),
+        body: JSON.stringify(draft)
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to save template');
+      }
+
+      await fetchTemplates();
+      onChange(data.data.template._id);
+      setDraft(null);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save template');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const deleteTemplate = async (template: CertificateTemplate) => {
+    if (!template._id || !window.confirm(`Delete the certificate template "${template.name}"?`)) return;
+    try {
+      const response = await fetch(buildApiUrl(`/api/admin/certificate-templates/${template._id}`), {
+        method: 'DELETE',
+        headers: authHeaders()
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to delete template');
+      }
+
+      if (value === template._id) onChange(null);
+      setDraft(null);
+      await fetchTemplates();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete template');
+    }
+  };
+
+  const renderAssetInput = (label: string, slot: string, kind: 'image' | 'font', asset: TemplateAsset | undefined, apply: (asset: TemplateAsset | undefined) => void) => (
+    <div>
+      <span className={labelClass}>{label}</span>
+      <div className="flex items-center gap-2">
+        <input
+          type="file"
+          accept={kind === 'image' ? 'image/png,image/jpeg' : '.ttf,.otf'}
+          onChange={handleAssetInput(kind, slot, apply)}
+          className="hidden"
+          id={`template-asset-${slot}`}
+        />
+        <label
+          htmlFor={`template-asset-${slot}`}
+          className="inline-flex items-center px-2 py-1.5 border border-gray-600 text-xs rounded text-gray-300 bg-gray-800 hover:bg-gray-700 cursor-pointer"
+        >
+          <Upload className="h-3 w-3 mr-1" />
+          {uploading === slot ? 'Uploading...' : asset ? 'Replace' : 'Upload'}
+        </label>
+        {asset && (
+          <>
+            <span className="text-xs text-gray-400 truncate max-w-[10rem]">{asset.name || 'Uploaded file'}</span>
+            <button type="button" onClick={() => apply(undefined)} className="text-gray-500 hover:text-red-400" title="Remove">
+              <X className="h-3 w-3" />
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <div className="p-3 bg-red-900/20 border border-red-700 rounded-lg text-sm text-red-300">{error}</div>
+      )}
+
+      {/* Template selection */}
+      <div className="flex flex-col sm:flex-row sm:items-end gap-3">
+        <label className="block flex-1">
+          <span className="block text-sm font-medium text-gray-300 mb-2">Certificate template</span>
+          <select
+            value={value || ''}
+            onChange={(e) => onChange(e.target.value || null)}
+            disabled={Boolean(draft)}
+            className="w-full px-3 py-2 bg-gray-800 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+          >
+            <option value="">Classic design (built-in)</option>
+            {templates.map(template => (
+              <option key={template._id} value={template._id}>
+                {template.name}{template.courseCount ? ` (${template.courseCount} course${template.courseCount === 1 ? '' : 's'})` : ''}
+              </option>
+            ))}
+          </select>
+        </label>
+        {canManage && !draft && (
+          <div className="flex gap-2">
+            {selectedTemplate && (
+              <button
+                type="button"
+                onClick={() => setDraft(JSON.parse(JSON.stringify(selectedTemplate)))}
+                className="inline-flex items-center px-3 py-2 border border-gray-600 text-sm rounded-lg text-gray-300 bg-gray-800 hover:bg-gray-700"
+              >
+                <Edit className="h-4 w-4 mr-1" />
+                Edit
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={startNewTemplate}
+              className="inline-flex items-center px-3 py-2 border border-transparent text-sm rounded-lg text-white bg-blue-600 hover:bg-blue-700"
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              New template
+            </button>
+          </div>
+        )}
+      </div>
+      <p className="text-xs text-gray-400">
+        The template is saved with the course. Certificates already issued keep their PDF until they are reissued.
+      </p>
+
+      {/* Live preview */}
+      {previewTemplate ? (
+        <div>
+          <div className="flex items-end gap-3 mb-2">
+            <label className="block flex-1">
+              <span className={labelClass}>Preview student name (try a Tigrinya name to check the Ge'ez font)</span>
+              <input
+                type="text"
+                value={sampleName}
+                onChange={(e) => setSampleName(e.target.value)}
+                placeholder="Student Name"
+                className={inputClass}
+              />
+            </label>
+            {previewing && <RefreshCw className="h-4 w-4 mb-2 text-gray-400 animate-spin" />}
+          </div>
+          {previewUrl ? (
+            <iframe
+              src={`${previewUrl}#toolbar=0&navpanes=0`}
+              title="Certificate preview"
+              className="w-full aspect-[297/210] rounded-lg border border-gray-600 bg-white"
+            />
+          ) : (
+            <div className="w-full aspect-[297/210] rounded-lg border border-gray-600 flex items-center justify-center text-sm text-gray-400">
+              Rendering preview...
+            </div>
+          )}
+        </div>
+      ) : (
+        <p className="text-sm text-gray-400">This course uses the built-in classic certificate design.</p>
+      )}
+
+      {/* Template editor */}
+      {draft && (
+        <div className="space-y-6 border border-gray-700 rounded-lg p-4">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <label className="block">
+              <span className={labelClass}>Template name</span>
+              <input type="text" value={draft.name} onChange={(e) => updateDraft({ name: e.target.value })} className={inputClass} />
+            </label>
+            <label className="block">
+              <span className={labelClass}>Description (internal)</span>
+              <input type="text" value={draft.description} onChange={(e) => updateDraft({ description: e.target.value })} className={inputClass} />
+            </label>
+          </div>
+
+          {/* Artwork */}
+          <div className="space-y-3">
+            <h3 className="text-sm font-semibold text-white">Artwork</h3>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              {renderAssetInput('Background (fills the A4 landscape page)', 'background', 'image', draft.background, (asset) => updateDraft({ background: asset }))}
+              <label className="flex items-center gap-2 text-sm text-gray-300 self-end">
+                <input type="checkbox" checked={draft.showBorder} onChange={(e) => updateDraft({ showBorder: e.target.checked })} />
+                Draw a double border
+              </label>
+              {renderAssetInput('Logo', 'logo', 'image', draft.logo, (asset) => updateDraft({ logo: asset }))}
+              {draft.logo && (
+                <PlacementInputs placement={draft.logoPlacement} onChange={(logoPlacement) => updateDraft({ logoPlacement })} />
+              )}
+            </div>
+          </div>
+
+          {/* Colours and fonts */}
+          <div className="space-y-3">
+            <h3 className="text-sm font-semibold text-white">Colours and fonts</h3>
+            <div className="grid grid-cols-2 sm:grid-cols-5 gap-3">
+              {(Object.keys(draft.colors) as (keyof CertificateTemplate['colors'])[]).map(color => (
+                <label key={color} className="block">
+                  <span className={`${labelClass} capitalize`}>{color}</span>
+                  <input
+                    type="color"
+                    value={draft.colors[color]}
+                    onChange={(e) => updateDraft({ colors: { ...draft.colors, [color]: e.target.value.toUpperCase() } })}
+                    className="w-full h-9 bg-gray-900 border border-gray-600 rounded cursor-pointer"
+                  />
+                </label>
+              ))}
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+              {(['heading', 'body'] as const).map(role => (
+                <label key={role} className="block">
+                  <span className={`${labelClass} capitalize`}>{role} font</span>
+                  <select
+                    value={draft.fonts[role]}
+                    onChange={(e) => updateDraft({ fonts: { ...draft.fonts, [role]: e.target.value as TemplateFontFace } })}
+                    className={inputClass}
+                  >
+                    {FONT_FACES.map(face => <option key={face.value} value={face.value}>{face.label}</option>)}
+                  </select>
+                </label>
+              ))}
+              {renderAssetInput("Ge'ez font (TTF/OTF, e.g. Noto Sans Ethiopic)", 'geez', 'font', draft.fonts.geez, (asset) => updateDraft({ fonts: { ...draft.fonts, geez: asset } }))}
+            </div>
+          </div>
+
+          {/* Wording */}
+          <div className="space-y-3">
+            <h3 className="text-sm font-semibold text-white">Wording</h3>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              {(Object.keys(TEXT_LABELS) as (keyof CertificateTemplate['texts'])[]).map(key => (
+                <label key={key} className="block">
+                  <span className={labelClass}>{TEXT_LABELS[key]}</span>
+                  <input
+                    type="text"
+                    value={draft.texts[key]}
+                    onChange={(e) => updateDraft({ texts: { ...draft.texts, [key]: e.target.value } })}
+                    className={inputClass}
+                  />
+                </label>
+              ))}
+            </div>
+          </div>
+
+          {/* Placeholder positions */}
+          <div className="space-y-3">
+            <h3 className="text-sm font-semibold text-white">Placeholder positions</h3>
+            <p className="text-xs text-gray-400">X and Y are percentages of the page, measured from the top left. Y is the text baseline.</p>
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="text-xs text-gray-400 text-left">
+                    <th className="py-1 pr-2">Show</th>
+                    <th className="py-1 pr-2">Placeholder</th>
+                    <th className="py-1 pr-2">X (%)</th>
+                    <th className="py-1 pr-2">Y (%)</th>
+                    <th className="py-1 pr-2">Size</th>
+                    <th className="py-1 pr-2">Align</th>
+                    <th className="py-1 pr-2">Font</th>
+                    <th className="py-1">Colour</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {(Object.keys(FIELD_LABELS) as TemplateTextField[]).map(field => {
+                    const placement = draft.fields[field];
+                    return (
+                      <tr key={field}>
+                        <td className="py-1 pr-2">
+                          <input type="checkbox" checked={placement.visible} onChange={(e) => updateField(field, { visible: e.target.checked })} />
+                        </td>
+                        <td className="py-1 pr-2 text-gray-300 whitespace-nowrap">{FIELD_LABELS[field]}</td>
+                        <td className="py-1 pr-2 w-20">
+                          <input type="number" min={0} max={100} value={placement.x} onChange={(e) => updateField(field, { x: Number(e.target.value) || 0 })} className={inputClass} />
+                        </td>
+                        <td className="py-1 pr-2 w-20">
+                          <input type="number" min={0} max={100} value={placement.y} onChange={(e) => updateField(field, { y: Number(e.target.value) || 0 })} className={inputClass} />
+                        </td>
+                        <td className="py-1 pr-2 w-20">
+                          <input type="number" min={4} max={96} value={placement.size} onChange={(e) => updateField(field, { size: Number(e.target.value) || 4 })} className={inputClass} />
+                        </td>
+                        <td className="py-1 pr-2">
+                          <select value={placement.align} onChange={(e) => updateField(field, { align: e.target.value as TextPlacement['align'] })} className={inputClass}>
+                            <option value="left">Left</option>
+                            <option value="center">Center</option>
+                            <option value="right">Right</option>
+                          </select>
+                        </td>
+                        <td className="py-1 pr-2">
+                          <select value={placement.font} onChange={(e) => updateField(field, { font: e.target.value as TextPlacement['font'] })} className={inputClass}>
+                            <option value="heading">Heading</option>
+                            <option value="body">Body</option>
+                          </select>
+                        </td>
+                        <td className="py-1">
+                          <select value={placement.color} onChange={(e) => updateField(field, { color: e.target.value as TextPlacement['color'] })} className={inputClass}>
+                            <option value="primary">Primary</option>
+                            <option value="accent">Accent</option>
+                            <option value="text">Text</option>
+                            <option value="muted">Muted</option>
+                          </select>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+            <div>
+              <label className="flex items-center gap-2 text-sm text-gray-300 mb-2">
+                <input
+                  type="checkbox"
+                  checked={draft.qrCode.visible}
+                  onChange={(e) => updateDraft({ qrCode: { ...draft.qrCode, visible: e.target.checked } })}
+                />
+                Verification QR code
+              </label>
+              {draft.qrCode.visible && (
+                <PlacementInputs placement={draft.qrCode} onChange={(qrCode) => updateDraft({ qrCode })} />
+              )}
+            </div>
+          </div>
+
+          {/* Signatures */}
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <h3 className="text-sm font-semibold text-white">Signatures</h3>
+              {draft.signatures.length < MAX_SIGNATURES && (
+                <button type="button" onClick={addSignature} className="inline-flex items-center text-xs text-blue-400 hover:text-blue-300">
+                  <Plus className="h-3 w-3 mr-1" />
+                  Add signature
+                </button>
+              )}
+            </div>
+            {draft.signatures.map((signature, index) => (
+              <div key={index} className="grid grid-cols-1 sm:grid-cols-2 gap-3 p-3 bg-gray-900/50 rounded-lg">
+                {renderAssetInput('Signature image', `signature-${index}`, 'image', signature.image, (image) => updateSignature(index, { image }))}
+                <div className="flex justify-end">
+                  <button
+                    type="button"
+                    onClick={() => updateDraft({ signatures: draft.signatures.filter((_, i) => i !== index) })}
+                    className="inline-flex items-center text-xs text-red-400 hover:text-red-300"
+                  >
+                    <Trash2 className="h-3 w-3 mr-1" />
+                    Remove
+                  </button>
+                </div>
+                <label className="block">
+                  <span className={labelClass}>Name</span>
+                  <input type="text" value={signature.name} onChange={(e) => updateSignature(index, { name: e.target.value })} className={inputClass} />
+                </label>
+                <label className="block">
+                  <span className={labelClass}>Title</span>
+                  <input type="text" value={signature.title} onChange={(e) => updateSignature(index, { title: e.target.value })} placeholder="e.g. Lead Instructor" className={inputClass} />
+                </label>
+                <div className="sm:col-span-2">
+                  <PlacementInputs placement={signature.placement} onChange={(placement) => updateSignature(index, { placement })} />
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {/* Editor actions */}
+          <div className="flex flex-wrap justify-between gap-2 pt-2 border-t border-gray-700">
+            <div className="flex gap-2">
+              <button
+                type="button"
+                onClick={saveDraft}
+                disabled={saving || !draft.name.trim()}
+                className="inline-flex items-center px-4 py-2 text-sm font-medium rounded-lg text-white bg-green-600 hover:bg-green-700 disabled:opacity-50"
+              >
+                <Save className="h-4 w-4 mr-1" />
+                {saving ? 'Saving...' : draft._id ? 'Save template' : 'Create template'}
+              </button>
+              <button
+                type="button"
+                onClick={() => setDraft(null)}
+                className="px-4 py-2 text-sm text-gray-400 hover:text-white"
+              >
+                Cancel
+              </button>
+            </div>
+            {draft._id && (
+              <button
+                type="button"
+                onClick={() => deleteTemplate(draft)}
+                className="inline-flex items-center px-3 py-2 text-sm rounded-lg text-red-400 hover:bg-red-900/20"
+              >
+                <Trash2 className="h-4 w-4 mr-1" />
+                Delete template
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CertificateTemplateSettings;
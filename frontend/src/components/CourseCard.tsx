@@ -1,5 +1,4 @@
 import React, { useState, useMemo, useEffect } from 'react';
-import { buildApiUrl } from '../config/environment';
 import { useCourseProgress } from '../hooks/useCourseProgress';
 import { useTranslation } from 'react-i18next';
 
@@ -7,6 +6,9 @@ import { Link, useNavigate } from 'react-router-dom';
 import { Clock, Star, Play, ShoppingCart, CheckCircle, Loader, Trophy, BookOpen } from 'lucide-react';
 import { formatDuration } from '../utils/durationFormatter';
 import { getLocalizedText } from '../utils/bilingualHelper';
+import { useCurrency } from '../hooks/useCurrency';
+import { LocalPrices } from '../utils/currency';
+import { authFetch, getAccessToken } from '../utils/api';
 
 interface CourseCardProps {
   id: string;
@@ -14,6 +16,7 @@ interface CourseCardProps {
   description: string | { en: string; tg: string };
   thumbnail: string;
   price: number;
+  prices?: LocalPrices;
   duration: string;
   students: number;
   lessons: number;
@@ -37,6 +40,7 @@ const CourseCard: React.FC<CourseCardProps> = ({
   description,
   thumbnail,
   price,
+  prices,
   duration,
   students,
   lessons,
@@ -74,6 +78,8 @@ const CourseCard: React.FC<CourseCardProps> = ({
   
   const { t, i18n } = useTranslation();
   const navigate = useNavigate();
+  const { priceFor, formatPrice } = useCurrency();
+  const displayPrice = priceFor({ price, prices });
   const currentLanguage = (i18n.language || 'en') as 'en' | 'tg';
   
   // Get localized text based on current language
@@ -176,7 +182,7 @@ const CourseCard: React.FC<CourseCardProps> = ({
       console.log(`🔧 Initiating purchase for course: ${localizedTitle} (${id})`);
 
       // Check if user is authenticated
-      const token = localStorage.getItem('token');
+      const token = getAccessToken();
       if (!token) {
         console.log('❌ No authentication token found');
         navigate('/login');
@@ -184,14 +190,14 @@ const CourseCard: React.FC<CourseCardProps> = ({
       }
 
       // Create checkout session
-      const response = await fetch(buildApiUrl('/api/payment/create-checkout-session'), {
+      const response = await authFetch('/api/payment/create-checkout-session', {
         method: 'POST',
         headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`
+          'Content-Type': 'application/json'
         },
         body: JSON.stringify({
-          courseId: id
+          courseId: id,
+          currency: displayPrice.currency
         })
       });
 
@@ -448,7 +454,14 @@ const CourseCard: React.FC<CourseCardProps> = ({
             <Clock className="h-3 w-3 xxs:h-4 xxs:w-4" />
             <span>{isPurchased ? (courseProgress?.totalVideos || totalLessons || lessons || 0) : (lessons || 0)} {t('course_card.lessons')}</span>
           </div>
-          <span className="text-xs xxs:text-sm text-gray-400">{formattedDuration}</span>
+          <div className="flex items-center space-x-2 xxs:space-x-3">
+            <span className="text-xs xxs:text-sm text-gray-400">{formattedDuration}</span>
+            {!isPurchased && (
+              <span className="text-sm xxs:text-base font-bold text-cyan-400">
+                {formatPrice(displayPrice.amount, displayPrice.currency)}
+              </span>
+            )}
+          </div>
         </div>
         
       </div>
@@ -1,11 +1,11 @@
 import React, { useState, useEffect } from 'react';
 import { useTranslation } from 'react-i18next';
-import { buildApiUrl } from '../config/environment';
 
 import { Link } from 'react-router-dom';
 import { Play, Clock, CheckCircle, BookOpen, Trophy, Award, Sparkles, Eye } from 'lucide-react';
 import CourseProgressBar from './CourseProgressBar';
 import { getLocalizedText } from '../utils/bilingualHelper';
+import { authFetch, getAccessToken } from '../utils/api';
 
 interface DashboardCardProps {
   _id: string;
@@ -54,14 +54,10 @@ const DashboardCard: React.FC<DashboardCardProps> = ({
 
   const checkCertificateExists = async () => {
     try {
-      const token = localStorage.getItem('token');
+      const token = getAccessToken();
       if (!token) return;
 
-      const response = await fetch(buildApiUrl(`/api/certificates/course/${_id}`), {
-        headers: {
-          'Authorization': `Bearer ${token}`
-        }
-      });
+      const response = await authFetch(`/api/certificates/course/${_id}`);
 
       if (response.ok) {
         const result = await response.json();
@@ -87,18 +83,17 @@ const DashboardCard: React.FC<DashboardCardProps> = ({
   const generateCertificate = async () => {
     try {
       setGenerating(true);
-      const token = localStorage.getItem('token');
+      const token = getAccessToken();
       
       if (!token) {
         console.error('No authentication token found');
         return;
       }
 
-      const response = await fetch(buildApiUrl('/api/certificates/generate'), {
+      const response = await authFetch('/api/certificates/generate', {
         method: 'POST',
         headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`
+          'Content-Type': 'application/json'
         },
         body: JSON.stringify({
           courseId: _id
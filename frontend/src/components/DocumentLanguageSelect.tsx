@@ -0,0 +1,34 @@
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import { Languages } from 'lucide-react';
+
+// Language of downloaded certificate and receipt PDFs, sent to the server as ?lang=
+export type DocumentLanguage = 'en' | 'tg' | 'bilingual';
+
+interface DocumentLanguageSelectProps {
+  value: DocumentLanguage;
+  onChange: (language: DocumentLanguage) => void;
+  className?: string;
+}
+
+const DocumentLanguageSelect: React.FC<DocumentLanguageSelectProps> = ({ value, onChange, className = '' }) => {
+  const { t } = useTranslation();
+
+  return (
+    <label className={`inline-flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300 ${className}`}>
+      <Languages className="h-4 w-4 text-cyan-600 dark:text-cyan-400" />
+      <span>{t('language.document_language')}</span>
+      <select
+        value={value}
+        onChange={(e) => onChange(e.target.value as DocumentLanguage)}
+        className="rounded-lg border border-blue-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-900 dark:text-white px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-cyan-500"
+      >
+        <option value="en">{t('language.english')}</option>
+        <option value="tg">{t('language.tigrinya')}</option>
+        <option value="bilingual">{t('language.bilingual')}</option>
+      </select>
+    </label>
+  );
+};
+
+export default DocumentLanguageSelect;
@@ -0,0 +1,93 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { Download, ChevronDown } from 'lucide-react';
+import { downloadAdminFile } from '../utils/download';
+
+export interface ExportOption {
+  label: string;
+  path: string; // Report endpoint, e.g. /api/admin/reports/users
+  fileName: string; // Fallback file name without extension
+  params?: Record<string, string>;
+}
+
+interface ExportMenuProps {
+  options: ExportOption[];
+  onError: (message: string) => void;
+  label?: string;
+}
+
+const FORMATS = [
+  { format: 'csv', label: 'CSV' },
+  { format: 'xlsx', label: 'Excel' }
+] as const;
+
+/**
+ * Admin "Export" dropdown: each report can be downloaded as CSV or Excel
+ */
+const ExportMenu: React.FC<ExportMenuProps> = ({ options, onError, label = 'Export' }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  const handleExport = async (option: ExportOption, format: string) => {
+    setIsOpen(false);
+    try {
+      setIsExporting(true);
+      const params = new URLSearchParams({ ...option.params, format });
+      await downloadAdminFile(`${option.path}?${params}`, `${option.fileName}.${format}`);
+    } catch (err) {
+      console.error('Error exporting report:', err);
+      onError(err instanceof Error ? err.message : 'Export failed');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={isExporting}
+        className="inline-flex items-center px-3 xxs:px-4 py-2 border border-gray-700 text-xs xxs:text-sm font-medium rounded-lg text-gray-300 bg-gray-800 hover:bg-gray-700 disabled:opacity-50"
+      >
+        <Download className="h-3 w-3 xxs:h-4 xxs:w-4 mr-1 xxs:mr-2" />
+        {isExporting ? 'Exporting...' : label}
+        <ChevronDown className="h-3 w-3 xxs:h-4 xxs:w-4 ml-1" />
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-56 bg-gray-800 border border-gray-700 rounded-lg shadow-lg z-30 py-1">
+          {options.map(option => (
+            <div key={option.path} className="px-3 py-2">
+              <p className="text-xs text-gray-400 mb-1">{option.label}</p>
+              <div className="flex gap-2">
+                {FORMATS.map(({ format, label: formatLabel }) => (
+                  <button
+                    key={format}
+                    type="button"
+                    onClick={() => handleExport(option, format)}
+                    className="flex-1 px-2 py-1 text-xs rounded bg-gray-700 text-white hover:bg-cyan-600"
+                  >
+                    {formatLabel}
+                  </button>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExportMenu;
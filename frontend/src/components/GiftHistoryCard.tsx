@@ -0,0 +1,160 @@
+import React, { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Link, useSearchParams } from 'react-router-dom';
+import { Gift, CheckCircle, Loader, Copy } from 'lucide-react';
+import { getLocalizedText } from '../utils/bilingualHelper';
+import { formatPrice } from '../utils/currency';
+import { authFetch } from '../utils/api';
+
+interface PurchasedGift {
+  _id: string;
+  code: string | null;
+  itemType: 'course' | 'bundle';
+  itemTitle: string | { en: string; tg: string } | null;
+  recipientEmail: string;
+  recipientName?: string;
+  status: 'available' | 'redeemed' | 'revoked';
+  amount: number | null;
+  currency: string;
+  emailSentAt?: string | null;
+  redeemedAt?: string | null;
+  redeemedByName?: string | null;
+  createdAt: string;
+}
+
+const statusStyles: Record<PurchasedGift['status'], string> = {
+  available: 'bg-cyan-100 text-cyan-700 dark:bg-cyan-500/20 dark:text-cyan-300',
+  redeemed: 'bg-green-100 text-green-700 dark:bg-green-500/20 dark:text-green-300',
+  revoked: 'bg-gray-200 text-gray-600 dark:bg-gray-600/30 dark:text-gray-400'
+};
+
+const GiftHistoryCard: React.FC = () => {
+  const { t, i18n } = useTranslation();
+  const [searchParams] = useSearchParams();
+  const [gifts, setGifts] = useState<PurchasedGift[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+  const checkoutResult = searchParams.get('gift');
+  const currentLanguage = (i18n.language || 'en') as 'en' | 'tg';
+
+  useEffect(() => {
+    const fetchGifts = async () => {
+      try {
+        const response = await authFetch('/api/gifts/mine');
+        if (!response.ok) {
+          throw new Error(t('gift.load_failed'));
+        }
+        const data = await response.json();
+        setGifts(data.data?.gifts || []);
+      } catch (error) {
+        console.error('❌ [Gift] Error fetching gifts:', error);
+        setError(error instanceof Error ? error.message : t('gift.load_failed'));
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchGifts();
+  }, [t]);
+
+  const copyCode = async (gift: PurchasedGift) => {
+    if (!gift.code) return;
+    try {
+      await navigator.clipboard.writeText(gift.code);
+      setCopiedId(gift._id);
+      setTimeout(() => setCopiedId(null), 2000);
+    } catch (error) {
+      console.error('❌ [Gift] Error copying code:', error);
+    }
+  };
+
+  const formatDate = (date?: string | null) =>
+    date ? new Date(date).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' }) : '';
+
+  return (
+    <div className="bg-gradient-to-br from-blue-50 via-cyan-50 to-purple-50 dark:from-gray-800 dark:via-gray-800/95 dark:to-gray-900 rounded-2xl tiny:rounded-3xl shadow-2xl border border-blue-200 dark:border-gray-700/50 hover:border-cyan-500/30 transition-all duration-300 overflow-hidden">
+      <div className="bg-gradient-to-r from-cyan-500/10 via-blue-500/10 to-purple-500/10 px-3 tiny:px-4 xxs:px-5 sm:px-6 lg:px-8 xl:px-10 py-3 tiny:py-4 xxs:py-5 sm:py-6 md:py-7 border-b border-blue-200 dark:border-gray-700/50">
+        <h3 className="text-base tiny:text-lg xxs:text-xl sm:text-2xl md:text-3xl font-bold text-blue-900 dark:text-white flex items-center space-x-2 tiny:space-x-3 xxs:space-x-4 mb-1.5 tiny:mb-2">
+          <div className="p-1.5 tiny:p-2 xxs:p-2.5 sm:p-3 bg-gradient-to-br from-cyan-500 to-blue-500 rounded-xl tiny:rounded-2xl shadow-lg flex-shrink-0">
+            <Gift className="h-4 w-4 tiny:h-5 tiny:w-5 xxs:h-6 xxs:w-6 sm:h-7 sm:w-7 text-white" />
+          </div>
+          <span className="break-words">{t('gift.history_title')}</span>
+        </h3>
+        <p className="text-blue-700 dark:text-gray-400 text-[10px] tiny:text-xs xxs:text-sm sm:text-base md:text-lg ml-10 tiny:ml-12 xxs:ml-14 sm:ml-16 md:ml-18">{t('gift.history_description')}</p>
+      </div>
+
+      <div className="p-3 tiny:p-4 xxs:p-5 sm:p-6 lg:p-8 xl:p-10 space-y-3 tiny:space-y-4">
+        {checkoutResult === 'success' && (
+          <p className="flex items-center gap-2 text-xs xxs:text-sm text-green-700 dark:text-green-400">
+            <CheckCircle className="h-4 w-4 flex-shrink-0" />
+            {t('gift.checkout_success')}
+          </p>
+        )}
+
+        {loading ? (
+          <div className="flex justify-center py-4">
+            <Loader className="h-6 w-6 animate-spin text-cyan-500" />
+          </div>
+        ) : (
+          <ul className="space-y-3">
+            {gifts.map(gift => (
+              <li key={gift._id} className="rounded-xl border border-blue-200 dark:border-gray-700 bg-white/60 dark:bg-gray-900/40 p-3 xxs:p-4 space-y-1.5">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="text-sm xxs:text-base font-semibold text-blue-900 dark:text-white">
+                    {getLocalizedText(gift.itemTitle, currentLanguage)}
+                  </span>
+                  <span className={`px-2.5 py-0.5 rounded-full text-xs font-medium ${statusStyles[gift.status]}`}>
+                    {t(`gift.status_${gift.status}`)}
+                  </span>
+                </div>
+                <p className="text-xs xxs:text-sm text-blue-700 dark:text-gray-400">
+                  {t('gift.sent_to', { recipient: gift.recipientName ? `${gift.recipientName} (${gift.recipientEmail})` : gift.recipientEmail })}
+                  {' · '}{formatDate(gift.createdAt)}
+                  {gift.amount !== null && <>{' · '}{formatPrice(gift.amount, gift.currency)}</>}
+                </p>
+                {gift.status === 'redeemed' && (
+                  <p className="text-xs xxs:text-sm text-green-700 dark:text-green-400">
+                    {gift.redeemedByName
+                      ? t('gift.redeemed_by', { name: gift.redeemedByName, date: formatDate(gift.redeemedAt) })
+                      : t('gift.redeemed_on', { date: formatDate(gift.redeemedAt) })}
+                  </p>
+                )}
+                {gift.status === 'available' && gift.code && (
+                  <div className="flex flex-wrap items-center gap-2">
+                    <code className="px-2 py-1 rounded bg-gray-100 dark:bg-gray-800 text-xs xxs:text-sm font-mono text-gray-900 dark:text-white">{gift.code}</code>
+                    <button
+                      onClick={() => copyCode(gift)}
+                      className="inline-flex items-center gap-1 text-xs text-cyan-700 dark:text-cyan-400 hover:underline"
+                    >
+                      <Copy className="h-3.5 w-3.5" />
+                      {copiedId === gift._id ? t('gift.copied') : t('gift.copy_code')}
+                    </button>
+                    {!gift.emailSentAt && (
+                      <span className="text-xs text-orange-700 dark:text-orange-300">{t('gift.email_not_sent')}</span>
+                    )}
+                  </div>
+                )}
+              </li>
+            ))}
+            {gifts.length === 0 && (
+              <li className="text-xs xxs:text-sm text-blue-700 dark:text-gray-400">
+                {/* The webhook may not have confirmed the payment yet */}
+                {checkoutResult === 'success' ? t('gift.processing') : t('gift.no_gifts')}
+              </li>
+            )}
+          </ul>
+        )}
+
+        <Link to="/redeem" className="inline-flex items-center gap-1.5 text-xs xxs:text-sm text-cyan-700 dark:text-cyan-400 hover:underline">
+          <Gift className="h-4 w-4" />
+          {t('gift.have_code')}
+        </Link>
+
+        {error && <p className="text-xs xxs:text-sm text-red-600 dark:text-red-400">{error}</p>}
+      </div>
+    </div>
+  );
+};
+
+export default GiftHistoryCard;
@@ -0,0 +1,86 @@
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import { Gift, X } from 'lucide-react';
+
+export interface GiftDetails {
+  recipientEmail: string;
+  recipientName: string;
+  message: string;
+}
+
+const EMPTY_GIFT: GiftDetails = { recipientEmail: '', recipientName: '', message: '' };
+
+interface GiftOptionsProps {
+  gift: GiftDetails | null;
+  onChange: (gift: GiftDetails | null) => void;
+}
+
+const inputClassName = 'w-full px-3 py-2 text-sm bg-white dark:bg-gray-800 text-gray-900 dark:text-white border border-gray-300 dark:border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-cyan-500';
+
+/**
+ * "Buy as a gift" toggle with the recipient fields sent to checkout
+ */
+const GiftOptions: React.FC<GiftOptionsProps> = ({ gift, onChange }) => {
+  const { t } = useTranslation();
+
+  if (!gift) {
+    return (
+      <button
+        onClick={() => onChange(EMPTY_GIFT)}
+        className="inline-flex items-center gap-1.5 text-xs xxs:text-sm text-cyan-700 dark:text-cyan-400 hover:underline"
+      >
+        <Gift className="h-4 w-4" />
+        {t('gift.buy_as_gift')}
+      </button>
+    );
+  }
+
+  const update = (field: keyof GiftDetails) =>
+    (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => onChange({ ...gift, [field]: e.target.value });
+
+  return (
+    <div className="space-y-2 p-3 rounded-lg border border-cyan-200 dark:border-cyan-800 bg-cyan-50/50 dark:bg-cyan-900/10">
+      <div className="flex items-center justify-between gap-2">
+        <span className="flex items-center gap-1.5 text-sm font-medium text-gray-900 dark:text-white">
+          <Gift className="h-4 w-4 text-cyan-600 dark:text-cyan-400" />
+          {t('gift.title')}
+        </span>
+        <button
+          onClick={() => onChange(null)}
+          className="p-0.5 text-gray-500 hover:text-gray-900 dark:hover:text-white"
+          aria-label={t('gift.cancel')}
+          title={t('gift.cancel')}
+        >
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+      <input
+        type="email"
+        value={gift.recipientEmail}
+        onChange={update('recipientEmail')}
+        placeholder={t('gift.recipient_email')}
+        className={inputClassName}
+        required
+      />
+      <input
+        type="text"
+        value={gift.recipientName}
+        onChange={update('recipientName')}
+        placeholder={t('gift.recipient_name')}
+        maxLength={100}
+        className={inputClassName}
+      />
+      <textarea
+        value={gift.message}
+        onChange={update('message')}
+        placeholder={t('gift.message')}
+        maxLength={500}
+        rows={2}
+        className={inputClassName}
+      />
+      <p className="text-xs text-gray-600 dark:text-gray-400">{t('gift.hint')}</p>
+    </div>
+  );
+};
+
+export default GiftOptions;
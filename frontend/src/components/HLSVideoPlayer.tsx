@@ -1,8 +1,14 @@
 import React from 'react';
 import SecureVideoPlayer from './SecureVideoPlayer';
+import { CaptionTrackData } from '../services/drmVideoService';
 
 interface HLSVideoPlayerProps {
-  src: string;
+  /** Signed HLS master playlist URL (adaptive bitrate) */
+  hlsSrc?: string;
+  /** Progressive MP4 URL used when the video has no HLS renditions yet */
+  src?: string;
+  /** WebVTT caption tracks (one per language) */
+  captions?: CaptionTrackData[];
   title?: string;
   userId?: string;
   videoId?: string;
@@ -10,18 +16,27 @@ interface HLSVideoPlayerProps {
   onPlay?: () => void;
   onPause?: () => void;
   onEnded?: () => void;
-  onError?: (error: any) => void;
+  onError?: (error: MediaError | null) => void;
   onReady?: () => void;
+  onTimeUpdate?: (currentTime: number, duration: number) => void;
+  onProgress?: (watchedDuration: number, totalDuration: number) => void;
   playing?: boolean;
   playbackRate?: number;
+  onPlaybackRateChange?: (rate: number) => void;
   className?: string;
+  initialTime?: number;
+  seekRequest?: { time: number; requestId: number };
+  showControls?: boolean;
+  onControlsToggle?: (visible: boolean) => void;
   drmEnabled?: boolean;
   watermarkData?: string;
   forensicWatermark?: any;
 }
 
 const HLSVideoPlayer: React.FC<HLSVideoPlayerProps> = ({
-  src,
+  hlsSrc,
+  src = '',
+  captions,
   title,
   userId,
   videoId,
@@ -31,17 +46,27 @@ const HLSVideoPlayer: React.FC<HLSVideoPlayerProps> = ({
   onEnded,
   onError,
   onReady,
+  onTimeUpdate,
+  onProgress,
   playing = false,
   playbackRate = 1,
+  onPlaybackRateChange,
   className = '',
+  initialTime = 0,
+  seekRequest,
+  showControls = true,
+  onControlsToggle,
   drmEnabled = true,
   watermarkData,
   forensicWatermark
 }) => {
-  // Use SecureVideoPlayer for enhanced security
+  // SecureVideoPlayer attaches the HLS stream (bandwidth-based switching + quality picker)
+  // and keeps all watermarking / recording protection in place
   return (
     <SecureVideoPlayer
       src={src}
+      hlsSrc={hlsSrc}
+      captions={captions}
       title={title}
       userId={userId}
       videoId={videoId}
@@ -51,9 +76,16 @@ const HLSVideoPlayer: React.FC<HLSVideoPlayerProps> = ({
       onEnded={onEnded}
       onError={onError}
       onReady={onReady}
+      onTimeUpdate={onTimeUpdate}
+      onProgress={onProgress}
       playing={playing}
       playbackRate={playbackRate}
+      onPlaybackRateChange={onPlaybackRateChange}
       className={className}
+      initialTime={initialTime}
+      seekRequest={seekRequest}
+      showControls={showControls}
+      onControlsToggle={onControlsToggle}
       drmEnabled={drmEnabled}
       watermarkData={watermarkData}
       forensicWatermark={forensicWatermark}
@@ -61,4 +93,4 @@ const HLSVideoPlayer: React.FC<HLSVideoPlayerProps> = ({
   );
 };
 
-export default HLSVideoPlayer;
\ No newline at end of file
+export default HLSVideoPlayer;
@@ -0,0 +1,69 @@
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import { Globe, Linkedin, Twitter, Youtube, UserCircle } from 'lucide-react';
+import { getLocalizedText } from '../utils/bilingualHelper';
+import { CourseInstructor } from '../hooks/useCourses';
+
+interface InstructorCardProps {
+  instructor: CourseInstructor;
+}
+
+const SOCIAL_LINKS = [
+  { field: 'website', label: 'Website', Icon: Globe },
+  { field: 'linkedin', label: 'LinkedIn', Icon: Linkedin },
+  { field: 'twitter', label: 'X / Twitter', Icon: Twitter },
+  { field: 'youtube', label: 'YouTube', Icon: Youtube }
+] as const;
+
+/**
+ * Instructor photo, headline, bio and social links on the course page
+ */
+const InstructorCard: React.FC<InstructorCardProps> = ({ instructor }) => {
+  const { i18n } = useTranslation();
+  const currentLanguage = (i18n.language || 'en') as 'en' | 'tg';
+  const profile = instructor.instructorProfile;
+  const bio = profile?.bio ? getLocalizedText({ en: profile.bio.en || '', tg: profile.bio.tg || '' }, currentLanguage) : '';
+  const links = SOCIAL_LINKS.filter(link => profile?.socialLinks?.[link.field]);
+
+  return (
+    <div className="flex gap-3 tiny:gap-4">
+      {profile?.photoUrl ? (
+        <img
+          src={profile.photoUrl}
+          alt={instructor.name}
+          className="h-14 w-14 xxs:h-16 xxs:w-16 rounded-full object-cover flex-shrink-0 border border-gray-200 dark:border-gray-700"
+        />
+      ) : (
+        <UserCircle className="h-14 w-14 xxs:h-16 xxs:w-16 text-gray-400 dark:text-gray-500 flex-shrink-0" />
+      )}
+      <div className="min-w-0">
+        <h4 className="text-sm tiny:text-base font-semibold text-gray-900 dark:text-white">{instructor.name}</h4>
+        {profile?.headline && (
+          <p className="text-xs tiny:text-sm text-cyan-700 dark:text-cyan-400">{profile.headline}</p>
+        )}
+        {bio && (
+          <p className="mt-1.5 text-xs tiny:text-sm text-gray-700 dark:text-gray-300 leading-relaxed whitespace-pre-line">{bio}</p>
+        )}
+        {links.length > 0 && (
+          <div className="mt-2 flex items-center gap-3">
+            {links.map(({ field, label, Icon }) => (
+              <a
+                key={field}
+                href={profile?.socialLinks?.[field]}
+                target="_blank"
+                rel="noopener noreferrer"
+                aria-label={label}
+                title={label}
+                className="text-gray-500 dark:text-gray-400 hover:text-cyan-600 dark:hover:text-cyan-400 transition-colors"
+              >
+                <Icon className="h-4 w-4" />
+              </a>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default InstructorCard;
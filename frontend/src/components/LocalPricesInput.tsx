@@ -0,0 +1,41 @@
+import React from 'react';
+import { LOCAL_PRICE_CURRENCIES, LocalPriceInputs } from '../utils/currency';
+
+interface LocalPricesInputProps {
+  prices: LocalPriceInputs;
+  onChange: (prices: LocalPriceInputs) => void;
+}
+
+/**
+ * Admin inputs for the optional CAD / EUR / ETB prices next to the USD base price
+ */
+const LocalPricesInput: React.FC<LocalPricesInputProps> = ({ prices, onChange }) => (
+  <div>
+    <label className="block text-sm font-medium text-gray-300 mb-2">
+      Local Prices (optional)
+    </label>
+    <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+      {LOCAL_PRICE_CURRENCIES.map(code => (
+        <div key={code} className="relative">
+          <span className="absolute inset-y-0 left-0 pl-3 flex items-center text-xs font-semibold text-gray-400 pointer-events-none">
+            {code.toUpperCase()}
+          </span>
+          <input
+            type="number"
+            min="0"
+            step="0.01"
+            value={prices[code]}
+            onChange={(e) => onChange({ ...prices, [code]: e.target.value })}
+            className="block w-full pl-12 pr-3 py-2 bg-gray-700 text-white border border-gray-600 rounded-lg focus:ring-cyan-500 focus:border-cyan-500 placeholder-gray-400"
+            placeholder="Not set"
+          />
+        </div>
+      ))}
+    </div>
+    <p className="mt-1 text-xs text-gray-400">
+      Students who choose a currency without a price here are charged the USD price.
+    </p>
+  </div>
+);
+
+export default LocalPricesInput;
@@ -0,0 +1,204 @@
+import React, { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useSearchParams } from 'react-router-dom';
+import { Crown, CreditCard, AlertTriangle, CheckCircle, Loader } from 'lucide-react';
+import { buildApiUrl } from '../config/environment';
+import { authFetch } from '../utils/api';
+
+interface MembershipPlan {
+  id: 'monthly' | 'yearly';
+  name: { en: string; tg: string };
+  interval: 'month' | 'year';
+  price: number;
+}
+
+interface Membership {
+  _id: string;
+  plan: 'monthly' | 'yearly';
+  status: string;
+  isActive: boolean;
+  currentPeriodEnd?: string;
+  cancelAtPeriodEnd: boolean;
+  canceledAt?: string | null;
+  lastPaymentFailedAt?: string | null;
+  managedByStripe: boolean;
+}
+
+const MembershipCard: React.FC = () => {
+  const { t, i18n } = useTranslation();
+  const [searchParams] = useSearchParams();
+  const [membership, setMembership] = useState<Membership | null>(null);
+  const [plans, setPlans] = useState<MembershipPlan[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [pendingAction, setPendingAction] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const checkoutResult = searchParams.get('membership');
+
+  useEffect(() => {
+    const fetchMembership = async () => {
+      try {
+        const [plansResponse, membershipResponse] = await Promise.all([
+          fetch(buildApiUrl('/api/subscriptions/plans')),
+          authFetch('/api/subscriptions/me')
+        ]);
+        if (!plansResponse.ok || !membershipResponse.ok) {
+          throw new Error(t('membership.load_failed'));
+        }
+        const plansData = await plansResponse.json();
+        const membershipData = await membershipResponse.json();
+        setPlans(plansData.data?.plans || []);
+        setMembership(membershipData.data?.membership || null);
+      } catch (error) {
+        console.error('❌ [Membership] Error fetching membership:', error);
+        setError(error instanceof Error ? error.message : t('membership.load_failed'));
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchMembership();
+  }, [t]);
+
+  const redirectTo = async (path: string, body?: object) => {
+    const response = await authFetch(path, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify(body || {})
+    });
+    const data = await response.json();
+    if (!response.ok || !data.data?.url) {
+      throw new Error(data.message || t('membership.action_failed'));
+    }
+    window.location.href = data.data.url;
+  };
+
+  const handleSubscribe = async (planId: MembershipPlan['id']) => {
+    try {
+      setPendingAction(planId);
+      setError(null);
+      await redirectTo('/api/subscriptions/checkout', { plan: planId });
+    } catch (error) {
+      console.error('❌ [Membership] Error starting checkout:', error);
+      setError(error instanceof Error ? error.message : t('membership.action_failed'));
+      setPendingAction(null);
+    }
+  };
+
+  const handleManageBilling = async () => {
+    try {
+      setPendingAction('portal');
+      setError(null);
+      await redirectTo('/api/subscriptions/portal');
+    } catch (error) {
+      console.error('❌ [Membership] Error opening billing portal:', error);
+      setError(error instanceof Error ? error.message : t('membership.action_failed'));
+      setPendingAction(null);
+    }
+  };
+
+  const formatDate = (date?: string | null) =>
+    date ? new Date(date).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' }) : '';
+
+  const isActive = membership?.isActive;
+  const isPastDue = isActive && membership?.status === 'past_due';
+
+  return (
+    <div className="bg-gradient-to-br from-blue-50 via-cyan-50 to-purple-50 dark:from-gray-800 dark:via-gray-800/95 dark:to-gray-900 rounded-2xl tiny:rounded-3xl shadow-2xl border border-blue-200 dark:border-gray-700/50 hover:border-amber-500/30 transition-all duration-300 overflow-hidden">
+      <div className="bg-gradient-to-r from-amber-500/10 via-orange-500/10 to-cyan-500/10 px-3 tiny:px-4 xxs:px-5 sm:px-6 lg:px-8 xl:px-10 py-3 tiny:py-4 xxs:py-5 sm:py-6 md:py-7 border-b border-blue-200 dark:border-gray-700/50">
+        <h3 className="text-base tiny:text-lg xxs:text-xl sm:text-2xl md:text-3xl font-bold text-blue-900 dark:text-white flex items-center space-x-2 tiny:space-x-3 xxs:space-x-4 mb-1.5 tiny:mb-2">
+          <div className="p-1.5 tiny:p-2 xxs:p-2.5 sm:p-3 bg-gradient-to-br from-amber-500 to-orange-500 rounded-xl tiny:rounded-2xl shadow-lg flex-shrink-0">
+            <Crown className="h-4 w-4 tiny:h-5 tiny:w-5 xxs:h-6 xxs:w-6 sm:h-7 sm:w-7 text-white" />
+          </div>
+          <span className="break-words">{t('membership.title')}</span>
+        </h3>
+        <p className="text-blue-700 dark:text-gray-400 text-[10px] tiny:text-xs xxs:text-sm sm:text-base md:text-lg ml-10 tiny:ml-12 xxs:ml-14 sm:ml-16 md:ml-18">{t('membership.description')}</p>
+      </div>
+
+      <div className="p-3 tiny:p-4 xxs:p-5 sm:p-6 lg:p-8 xl:p-10 space-y-3 tiny:space-y-4">
+        {checkoutResult === 'success' && (
+          <p className="flex items-center gap-2 text-xs xxs:text-sm text-green-700 dark:text-green-400">
+            <CheckCircle className="h-4 w-4 flex-shrink-0" />
+            {t('membership.checkout_success')}
+          </p>
+        )}
+
+        {loading ? (
+          <div className="flex justify-center py-4">
+            <Loader className="h-6 w-6 animate-spin text-cyan-500" />
+          </div>
+        ) : isActive && membership ? (
+          <div className="space-y-3">
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="text-sm xxs:text-base font-semibold text-blue-900 dark:text-white">
+                {t(`membership.plan_${membership.plan}`)}
+              </span>
+              <span className={`px-2.5 py-0.5 rounded-full text-xs font-medium ${
+                isPastDue
+                  ? 'bg-orange-100 text-orange-700 dark:bg-orange-500/20 dark:text-orange-300'
+                  : 'bg-green-100 text-green-700 dark:bg-green-500/20 dark:text-green-300'
+              }`}>
+                {t(`membership.status_${isPastDue ? 'past_due' : 'active'}`)}
+              </span>
+            </div>
+            <p className="text-xs xxs:text-sm text-blue-700 dark:text-gray-400">
+              {membership.cancelAtPeriodEnd
+                ? t('membership.ends_on', { date: formatDate(membership.currentPeriodEnd) })
+                : t('membership.renews_on', { date: formatDate(membership.currentPeriodEnd) })}
+            </p>
+            {isPastDue && (
+              <p className="flex items-start gap-2 text-xs xxs:text-sm text-orange-700 dark:text-orange-300">
+                <AlertTriangle className="h-4 w-4 flex-shrink-0 mt-0.5" />
+                {t('membership.payment_failed')}
+              </p>
+            )}
+            {membership.managedByStripe && (
+              <button
+                onClick={handleManageBilling}
+                disabled={pendingAction !== null}
+                className="flex items-center justify-center space-x-1.5 tiny:space-x-2 bg-gradient-to-r from-cyan-600 to-blue-600 hover:from-cyan-500 hover:to-blue-500 text-white px-3 tiny:px-4 xxs:px-5 sm:px-6 md:px-8 py-2 tiny:py-2.5 xxs:py-3 rounded-xl tiny:rounded-2xl font-semibold transition-all duration-200 shadow-lg text-xs tiny:text-sm xxs:text-base disabled:opacity-50"
+              >
+                {pendingAction === 'portal' ? <Loader className="h-4 w-4 animate-spin" /> : <CreditCard className="h-4 w-4" />}
+                <span>{t('membership.manage_billing')}</span>
+              </button>
+            )}
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {membership && (
+              <p className="text-xs xxs:text-sm text-blue-700 dark:text-gray-400">
+                {t('membership.expired', { date: formatDate(membership.currentPeriodEnd) })}
+              </p>
+            )}
+            <div className="grid grid-cols-1 xxs:grid-cols-2 gap-3">
+              {plans.map(plan => (
+                <div key={plan.id} className="rounded-xl border border-blue-200 dark:border-gray-700 bg-white/60 dark:bg-gray-900/40 p-3 xxs:p-4 flex flex-col gap-2">
+                  <span className="text-sm font-semibold text-blue-900 dark:text-white">
+                    {plan.name[i18n.language === 'tg' ? 'tg' : 'en']}
+                  </span>
+                  <span className="text-lg xxs:text-xl font-bold text-blue-900 dark:text-white">
+                    ${plan.price}
+                    <span className="text-xs font-normal text-blue-600 dark:text-gray-400"> / {t(`membership.per_${plan.interval}`)}</span>
+                  </span>
+                  <button
+                    onClick={() => handleSubscribe(plan.id)}
+                    disabled={pendingAction !== null}
+                    className="mt-auto flex items-center justify-center gap-1.5 bg-gradient-to-r from-amber-500 to-orange-500 hover:from-amber-400 hover:to-orange-400 text-white px-3 py-2 rounded-lg font-semibold text-xs xxs:text-sm transition-all duration-200 disabled:opacity-50"
+                  >
+                    {pendingAction === plan.id && <Loader className="h-4 w-4 animate-spin" />}
+                    <span>{t('membership.subscribe')}</span>
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {error && <p className="text-xs xxs:text-sm text-red-600 dark:text-red-400">{error}</p>}
+      </div>
+    </div>
+  );
+};
+
+export default MembershipCard;
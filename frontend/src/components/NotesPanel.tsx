@@ -0,0 +1,312 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Bold, Italic, List, Pencil, Trash2, StickyNote } from 'lucide-react';
+import { formatDuration } from '../utils/durationFormatter';
+import { authFetch, getAccessToken } from '../utils/api';
+
+interface Note {
+  _id: string;
+  videoId: string;
+  timestamp: number;
+  content: string;
+  updatedAt: string;
+}
+
+interface NotesPanelProps {
+  videoId: string;
+  currentTime: number;
+  onSeek: (time: number) => void;
+}
+
+const MAX_NOTE_LENGTH = 5000;
+
+/**
+ * Render **bold** and *italic* spans as React elements (no raw HTML)
+ */
+const renderInline = (text: string) => {
+  const parts = text.split(/(\*\*[^*]+\*\*|\*[^*]+\*)/g);
+  return parts.map((part, index) => {
+    if (part.startsWith('**') && part.endsWith('**') && part.length > 4) {
+      return <strong key={index}>{part.slice(2, -2)}</strong>;
+    }
+    if (part.startsWith('*') && part.endsWith('*') && part.length > 2) {
+      return <em key={index}>{part.slice(1, -1)}</em>;
+    }
+    return <React.Fragment key={index}>{part}</React.Fragment>;
+  });
+};
+
+/**
+ * Render the Markdown subset the toolbar produces: paragraphs, bullet lists, bold, italic
+ */
+const renderNoteContent = (content: string) => {
+  const blocks: React.ReactNode[] = [];
+  let listItems: string[] = [];
+
+  const flushList = () => {
+    if (listItems.length > 0) {
+      blocks.push(
+        <ul key={`list-${blocks.length}`} className="list-disc pl-4">
+          {listItems.map((item, index) => <li key={index}>{renderInline(item)}</li>)}
+        </ul>
+      );
+      listItems = [];
+    }
+  };
+
+  content.split('\n').forEach(line => {
+    const listMatch = line.match(/^\s*[-*]\s+(.*)$/);
+    if (listMatch) {
+      listItems.push(listMatch[1]);
+      return;
+    }
+    flushList();
+    if (line.trim()) {
+      blocks.push(<p key={`p-${blocks.length}`}>{renderInline(line)}</p>);
+    }
+  });
+  flushList();
+
+  return blocks;
+};
+
+const NotesPanel: React.FC<NotesPanelProps> = ({ videoId, currentTime, onSeek }) => {
+  const { t } = useTranslation();
+  const [notes, setNotes] = useState<Note[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [draft, setDraft] = useState('');
+  const [draftTime, setDraftTime] = useState<number | null>(null); // captured when typing starts
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  const resetComposer = () => {
+    setDraft('');
+    setDraftTime(null);
+    setEditingId(null);
+    setError(null);
+  };
+
+  // Load notes for the current lesson
+  useEffect(() => {
+    const fetchNotes = async () => {
+      const token = getAccessToken();
+      if (!token || !videoId) return;
+
+      try {
+        setLoading(true);
+        const response = await authFetch(`/api/notes?videoId=${videoId}`);
+        if (!response.ok) {
+          throw new Error('Failed to load notes');
+        }
+        const result = await response.json();
+        setNotes(result.data.notes || []);
+      } catch (error) {
+        console.error('❌ [Notes] Error loading notes:', error);
+        setNotes([]);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    // A half-written note belongs to the lesson it was started in
+    setDraft('');
+    setDraftTime(null);
+    setEditingId(null);
+    fetchNotes();
+  }, [videoId]);
+
+  const handleDraftChange = (value: string) => {
+    // Pin the note to the moment the student started writing it
+    if (draftTime === null && !editingId) {
+      setDraftTime(currentTime);
+    }
+    setDraft(value);
+  };
+
+  // Wrap the selection (or insert markers) for the formatting toolbar
+  const applyFormat = (format: 'bold' | 'italic' | 'list') => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+
+    const { selectionStart, selectionEnd } = textarea;
+    if (format === 'list') {
+      const lineStart = draft.lastIndexOf('\n', selectionStart - 1) + 1;
+      handleDraftChange(`${draft.slice(0, lineStart)}- ${draft.slice(lineStart)}`);
+      textarea.focus();
+      return;
+    }
+
+    const selected = draft.slice(selectionStart, selectionEnd);
+    const marker = format === 'bold' ? '**' : '*';
+    const replacement = `${marker}${selected || t('notes.sample_text')}${marker}`;
+    handleDraftChange(draft.slice(0, selectionStart) + replacement + draft.slice(selectionEnd));
+    textarea.focus();
+  };
+
+  const saveNote = async () => {
+    const token = getAccessToken();
+    const content = draft.trim();
+    if (!token || !content) return;
+
+    try {
+      setSaving(true);
+      setError(null);
+      const response = await authFetch(editingId ? `/api/notes/${editingId}` : '/api/notes', {
+        method: editingId ? 'PUT' : 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify(editingId ? { content } : {
+          videoId,
+          timestamp: draftTime ?? currentTime,
+          content
+        })
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.message || 'Failed to save note');
+      }
+
+      const saved: Note = result.data.note;
+      setNotes(prev => [...prev.filter(note => note._id !== saved._id), saved]
+        .sort((a, b) => a.timestamp - b.timestamp));
+      resetComposer();
+    } catch (error) {
+      console.error('❌ [Notes] Error saving note:', error);
+      setError(t('notes.save_failed'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const startEditing = (note: Note) => {
+    setEditingId(note._id);
+    setDraft(note.content);
+    setDraftTime(note.timestamp);
+    textareaRef.current?.focus();
+  };
+
+  const deleteNote = async (noteId: string) => {
+    const token = getAccessToken();
+    if (!token || !window.confirm(t('notes.delete_confirm'))) return;
+
+    try {
+      const response = await authFetch(`/api/notes/${noteId}`, {
+        method: 'DELETE'
+      });
+      if (!response.ok) {
+        throw new Error('Failed to delete note');
+      }
+      setNotes(prev => prev.filter(note => note._id !== noteId));
+      if (editingId === noteId) {
+        resetComposer();
+      }
+    } catch (error) {
+      console.error('❌ [Notes] Error deleting note:', error);
+    }
+  };
+
+  return (
+    <div className="flex flex-col h-full min-h-0">
+      {/* Composer */}
+      <div className="p-3 border-b border-gray-700 space-y-2">
+        <div className="flex items-center justify-between">
+          <span className="text-xs text-gray-400">
+            {editingId ? t('notes.editing') : t('notes.at_time', { time: formatDuration(draftTime ?? currentTime) })}
+          </span>
+          <div className="flex space-x-1">
+            <button onClick={() => applyFormat('bold')} className="p-1 text-gray-400 hover:text-white" title={t('notes.bold')}>
+              <Bold className="h-4 w-4" />
+            </button>
+            <button onClick={() => applyFormat('italic')} className="p-1 text-gray-400 hover:text-white" title={t('notes.italic')}>
+              <Italic className="h-4 w-4" />
+            </button>
+            <button onClick={() => applyFormat('list')} className="p-1 text-gray-400 hover:text-white" title={t('notes.list')}>
+              <List className="h-4 w-4" />
+            </button>
+          </div>
+        </div>
+        <textarea
+          ref={textareaRef}
+          value={draft}
+          onChange={(e) => handleDraftChange(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) saveNote();
+          }}
+          maxLength={MAX_NOTE_LENGTH}
+          rows={3}
+          placeholder={t('notes.placeholder')}
+          className="w-full px-3 py-2 text-sm bg-gray-700 text-white border border-gray-600 rounded-lg focus:ring-cyan-500 focus:border-cyan-500 placeholder-gray-400 resize-none"
+        />
+        {error && <p className="text-xs text-red-400">{error}</p>}
+        <div className="flex justify-end space-x-2">
+          {(draft || editingId) && (
+            <button onClick={resetComposer} className="px-3 py-1 text-xs text-gray-400 hover:text-white">
+              {t('notes.cancel')}
+            </button>
+          )}
+          <button
+            onClick={saveNote}
+            disabled={saving || !draft.trim()}
+            className="px-3 py-1 text-xs text-white bg-gradient-to-r from-cyan-600 to-blue-600 rounded disabled:opacity-50"
+          >
+            {saving ? t('notes.saving') : editingId ? t('notes.update') : t('notes.save')}
+          </button>
+        </div>
+      </div>
+
+      {/* Notes for this lesson */}
+      <div className="flex-1 overflow-y-auto">
+        {loading ? (
+          <div className="p-4 space-y-2">
+            {Array.from({ length: 4 }).map((_, i) => (
+              <div key={i} className="animate-pulse h-10 bg-gray-700 rounded" />
+            ))}
+          </div>
+        ) : notes.length === 0 ? (
+          <div className="p-6 text-center">
+            <StickyNote className="h-10 w-10 text-gray-600 mx-auto mb-2" />
+            <p className="text-sm text-gray-400">{t('notes.empty')}</p>
+          </div>
+        ) : (
+          <div className="p-2 space-y-2">
+            {notes.map(note => (
+              <div
+                key={note._id}
+                className={`group rounded-lg p-2 ${editingId === note._id ? 'bg-cyan-500/20' : 'bg-gray-700/50 hover:bg-gray-700'}`}
+              >
+                <div className="flex items-center justify-between mb-1">
+                  <button
+                    onClick={() => onSeek(note.timestamp)}
+                    className="text-xs text-cyan-400 hover:text-cyan-300 font-mono"
+                    title={t('notes.jump_to')}
+                  >
+                    {formatDuration(note.timestamp)}
+                  </button>
+                  <div className="flex space-x-1 opacity-0 group-hover:opacity-100 transition-opacity duration-150">
+                    <button onClick={() => startEditing(note)} className="p-1 text-gray-400 hover:text-white" title={t('notes.edit')}>
+                      <Pencil className="h-3 w-3" />
+                    </button>
+                    <button onClick={() => deleteNote(note._id)} className="p-1 text-gray-400 hover:text-red-400" title={t('notes.delete')}>
+                      <Trash2 className="h-3 w-3" />
+                    </button>
+                  </div>
+                </div>
+                <div
+                  onClick={() => onSeek(note.timestamp)}
+                  className="text-sm text-gray-200 space-y-1 break-words cursor-pointer"
+                >
+                  {renderNoteContent(note.content)}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default NotesPanel;
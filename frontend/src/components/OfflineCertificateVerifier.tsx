@@ -0,0 +1,201 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import { CheckCircle, XCircle, FileText, Upload, KeyRound } from 'lucide-react';
+import { extractCredentialFromPdf, verifyCredential, CredentialCheck } from '../utils/certificateSignature';
+
+/**
+ * Checks a certificate PDF or pasted signed credential against the platform's public key,
+ * entirely in the browser
+ */
+const OfflineCertificateVerifier: React.FC = () => {
+  const { t } = useTranslation();
+  const [credential, setCredential] = useState('');
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [checking, setChecking] = useState(false);
+  const [result, setResult] = useState<CredentialCheck | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const checkCredential = async (value: string) => {
+    if (!value.trim()) {
+      setError(t('certificate_verification.offline_enter_credential') || 'Upload a certificate PDF or paste a signed credential');
+      return;
+    }
+
+    try {
+      setChecking(true);
+      setError(null);
+      setResult(null);
+      setResult(await verifyCredential(value));
+    } catch (err) {
+      console.error('Error checking certificate signature:', err);
+      setError(err instanceof TypeError
+        ? t('certificate_verification.network_error') || 'Network error'
+        : t('certificate_verification.offline_unsupported') || 'Your browser cannot check digital signatures');
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setFileName(file.name);
+    setResult(null);
+    const extracted = await extractCredentialFromPdf(file);
+    if (!extracted) {
+      setCredential('');
+      setError(t('certificate_verification.offline_no_credential') || 'This PDF has no signed credential');
+      return;
+    }
+    setCredential(extracted);
+    await checkCredential(extracted);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    checkCredential(credential);
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric'
+    });
+  };
+
+  return (
+    <div className="bg-gradient-to-br from-blue-50 via-cyan-50 to-purple-50 dark:from-gray-800 dark:via-gray-800/95 dark:to-gray-900 rounded-3xl shadow-lg border border-blue-200 dark:border-gray-700 p-6 sm:p-8 mb-8">
+      <div className="text-center mb-6">
+        <div className="inline-flex items-center justify-center w-14 h-14 bg-gradient-to-br from-cyan-500 to-blue-500 rounded-full mb-4 shadow-lg">
+          <KeyRound className="w-7 h-7 text-white" />
+        </div>
+        <h2 className="text-xl sm:text-2xl font-bold text-gray-900 dark:text-white mb-2">
+          {t('certificate_verification.offline_title') || 'Verify a Certificate File'}
+        </h2>
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          {t('certificate_verification.offline_subtitle') || 'Check the digital signature of a certificate PDF or signed credential directly in your browser'}
+        </p>
+      </div>
+
+      <form onSubmit={handleSubmit} className="max-w-lg mx-auto space-y-4">
+        <div className="space-y-2">
+          <span className="block text-sm font-semibold text-gray-700 dark:text-gray-300 text-left">
+            {t('certificate_verification.offline_upload_label') || 'Certificate PDF'}
+          </span>
+          <label className="flex items-center justify-center w-full px-4 py-3 border-2 border-dashed border-gray-300 dark:border-gray-600 rounded-xl cursor-pointer hover:border-cyan-500 transition-colors bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300">
+            {fileName ? <FileText className="w-5 h-5 mr-2" /> : <Upload className="w-5 h-5 mr-2" />}
+            <span className="text-sm truncate">{fileName || 'PDF'}</span>
+            <input type="file" accept="application/pdf,.pdf" onChange={handleFileChange} className="hidden" />
+          </label>
+        </div>
+
+        <div className="space-y-2">
+          <label htmlFor="signedCredential" className="block text-sm font-semibold text-gray-700 dark:text-gray-300 text-left">
+            {t('certificate_verification.offline_payload_label') || 'Or paste the signed credential'}
+          </label>
+          <textarea
+            id="signedCredential"
+            value={credential}
+            onChange={(e) => {
+              setCredential(e.target.value);
+              setFileName(null);
+              if (error) setError(null);
+            }}
+            rows={3}
+            placeholder={t('certificate_verification.offline_payload_placeholder') || 'eyJhbGciOiJFZERTQSIs...'}
+            className="w-full px-4 py-3 text-xs font-mono border-2 border-gray-300 dark:border-gray-600 rounded-xl focus:ring-4 focus:ring-cyan-500/20 focus:border-cyan-500 transition-all duration-300 bg-white dark:bg-gray-800 text-gray-900 dark:text-white placeholder-gray-500 dark:placeholder-gray-400 break-all"
+          />
+        </div>
+
+        <button
+          type="submit"
+          disabled={checking}
+          className="w-full bg-gradient-to-r from-cyan-600 to-blue-600 hover:from-cyan-500 hover:to-blue-500 disabled:from-gray-400 disabled:to-gray-500 text-white px-6 py-3 rounded-xl transition-all duration-300 flex items-center justify-center space-x-2 shadow-lg text-base font-semibold"
+        >
+          {checking ? (
+            <>
+              <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white"></div>
+              <span>{t('certificate_verification.offline_checking') || 'Checking signature...'}</span>
+            </>
+          ) : (
+            <>
+              <KeyRound className="w-5 h-5" />
+              <span>{t('certificate_verification.offline_verify') || 'Check Signature'}</span>
+            </>
+          )}
+        </button>
+      </form>
+
+      {error && (
+        <div className="max-w-lg mx-auto mt-4 flex items-start p-4 rounded-xl bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-700/50">
+          <XCircle className="w-5 h-5 text-red-500 dark:text-red-400 mr-3 flex-shrink-0" />
+          <p className="text-sm text-red-700 dark:text-red-300">{error}</p>
+        </div>
+      )}
+
+      {result && (
+        <div className={`max-w-lg mx-auto mt-4 p-4 rounded-xl border ${
+          result.isValid
+            ? 'bg-green-50 dark:bg-green-900/20 border-green-200 dark:border-green-700/50'
+            : 'bg-red-50 dark:bg-red-900/20 border-red-200 dark:border-red-700/50'
+        }`}>
+          <div className="flex items-start">
+            {result.isValid ? (
+              <CheckCircle className="w-5 h-5 text-green-500 dark:text-green-400 mr-3 flex-shrink-0" />
+            ) : (
+              <XCircle className="w-5 h-5 text-red-500 dark:text-red-400 mr-3 flex-shrink-0" />
+            )}
+            <div className="min-w-0">
+              <p className={`text-sm font-semibold ${result.isValid ? 'text-green-700 dark:text-green-300' : 'text-red-700 dark:text-red-300'}`}>
+                {result.isValid
+                  ? t('certificate_verification.offline_signature_valid') || 'Valid signature'
+                  : t('certificate_verification.offline_signature_invalid') || 'Invalid signature'}
+              </p>
+              <p className="text-xs text-gray-600 dark:text-gray-400 mt-1">
+                {result.isValid
+                  ? t('certificate_verification.offline_signature_valid_desc') || 'This certificate was signed by IBYET-INVESTING and has not been altered.'
+                  : t('certificate_verification.offline_signature_invalid_desc') || 'This certificate was not signed by IBYET-INVESTING or has been altered.'}
+              </p>
+            </div>
+          </div>
+
+          {result.isValid && result.payload && (
+            <dl className="mt-4 grid grid-cols-1 sm:grid-cols-2 gap-3 text-sm">
+              <div>
+                <dt className="text-xs text-gray-500 dark:text-gray-400">{t('certificate_verification.student_name') || 'Student Name'}</dt>
+                <dd className="font-semibold text-gray-900 dark:text-white break-words">{result.payload.studentName}</dd>
+              </div>
+              <div>
+                <dt className="text-xs text-gray-500 dark:text-gray-400">{t('certificate_verification.course_title') || 'Course Title'}</dt>
+                <dd className="font-semibold text-gray-900 dark:text-white break-words">{result.payload.courseTitle}</dd>
+              </div>
+              <div>
+                <dt className="text-xs text-gray-500 dark:text-gray-400">{t('certificate_verification.completion_date') || 'Completion Date'}</dt>
+                <dd className="font-semibold text-gray-900 dark:text-white">{formatDate(result.payload.completionDate)}</dd>
+              </div>
+              <div>
+                <dt className="text-xs text-gray-500 dark:text-gray-400">{t('certificate_verification.certificate_id_label') || 'Certificate ID'}</dt>
+                <dd className="font-mono text-xs text-gray-900 dark:text-white break-all">{result.payload.certificateId}</dd>
+              </div>
+            </dl>
+          )}
+
+          {result.isValid && result.payload && (
+            <Link
+              to={`/verify/${result.payload.certificateId}`}
+              className="inline-block mt-4 text-sm font-medium text-cyan-600 dark:text-cyan-400 hover:underline"
+            >
+              {t('certificate_verification.offline_check_online') || 'Check current status online'}
+            </Link>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default OfflineCertificateVerifier;
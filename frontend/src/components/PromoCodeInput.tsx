@@ -0,0 +1,130 @@
+import React, { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Tag, X, Loader } from 'lucide-react';
+import { useCurrency } from '../hooks/useCurrency';
+import { CurrencyCode } from '../utils/currency';
+import { authFetch, getAccessToken } from '../utils/api';
+
+export interface CouponPreview {
+  code: string;
+  discountType: 'percentage' | 'fixed';
+  discountValue: number;
+  originalAmount: number;
+  discountAmount: number;
+  finalAmount: number;
+  currency: CurrencyCode;
+}
+
+interface PromoCodeInputProps {
+  courseId?: string;
+  bundleId?: string;
+  currency: CurrencyCode;
+  appliedCoupon: CouponPreview | null;
+  onChange: (coupon: CouponPreview | null) => void;
+}
+
+const PromoCodeInput: React.FC<PromoCodeInputProps> = ({ courseId, bundleId, currency, appliedCoupon, onChange }) => {
+  const { t } = useTranslation();
+  const { formatPrice } = useCurrency();
+  const [isOpen, setIsOpen] = useState(false);
+  const [code, setCode] = useState('');
+  const [isChecking, setIsChecking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // A preview priced in another currency no longer matches what checkout will charge
+  useEffect(() => {
+    if (appliedCoupon && appliedCoupon.currency !== currency) {
+      onChange(null);
+    }
+  }, [appliedCoupon, currency, onChange]);
+
+  const applyCode = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!code.trim()) return;
+
+    const token = getAccessToken();
+    if (!token) {
+      setError(t('coupon.login_required'));
+      return;
+    }
+
+    try {
+      setIsChecking(true);
+      setError(null);
+      const response = await authFetch('/api/coupons/validate', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify(bundleId ? { code: code.trim(), bundleId, currency } : { code: code.trim(), courseId, currency })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || t('coupon.invalid'));
+      }
+      onChange(data.data);
+      setCode('');
+    } catch (error) {
+      console.error('❌ [Coupon] Error applying promo code:', error);
+      setError(error instanceof Error ? error.message : t('coupon.invalid'));
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  if (appliedCoupon) {
+    return (
+      <div className="flex items-center justify-between gap-2 px-3 py-2 rounded-lg bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-700 text-sm text-green-700 dark:text-green-400">
+        <span className="flex items-center gap-1.5">
+          <Tag className="h-4 w-4" />
+          {t('coupon.applied', { code: appliedCoupon.code, amount: formatPrice(appliedCoupon.discountAmount, appliedCoupon.currency) })}
+        </span>
+        <button
+          onClick={() => onChange(null)}
+          className="p-0.5 hover:text-green-900 dark:hover:text-green-200"
+          aria-label={t('coupon.remove')}
+          title={t('coupon.remove')}
+        >
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+    );
+  }
+
+  if (!isOpen) {
+    return (
+      <button
+        onClick={() => setIsOpen(true)}
+        className="inline-flex items-center gap-1.5 text-xs xxs:text-sm text-cyan-700 dark:text-cyan-400 hover:underline"
+      >
+        <Tag className="h-4 w-4" />
+        {t('coupon.have_code')}
+      </button>
+    );
+  }
+
+  return (
+    <form onSubmit={applyCode} className="space-y-1">
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={code}
+          onChange={(e) => setCode(e.target.value.toUpperCase())}
+          placeholder={t('coupon.placeholder')}
+          className="flex-1 min-w-0 px-3 py-2 text-sm font-mono bg-white dark:bg-gray-800 text-gray-900 dark:text-white border border-gray-300 dark:border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-cyan-500"
+          autoFocus
+        />
+        <button
+          type="submit"
+          disabled={isChecking || !code.trim()}
+          className="px-3 py-2 text-sm font-medium text-white bg-gradient-to-r from-cyan-600 to-blue-600 rounded-lg disabled:opacity-50 inline-flex items-center"
+        >
+          {isChecking ? <Loader className="h-4 w-4 animate-spin" /> : t('coupon.apply')}
+        </button>
+      </div>
+      {error && <p className="text-xs text-red-600 dark:text-red-400">{error}</p>}
+    </form>
+  );
+};
+
+export default PromoCodeInput;
@@ -0,0 +1,597 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Plus, Edit, Trash2, Save, X, ClipboardCheck, AlertCircle } from 'lucide-react';
+import { buildApiUrl } from '../config/environment';
+import { getEnglishText } from '../utils/bilingualHelper';
+
+type BilingualValue = string | { en: string; tg: string };
+type QuestionType = 'multiple_choice' | 'true_false' | 'numeric';
+
+interface AdminQuizQuestion {
+  _id?: string;
+  type: QuestionType;
+  prompt: BilingualValue;
+  options?: Array<{ text: BilingualValue }>;
+  correctOption?: number;
+  correctBoolean?: boolean;
+  correctNumber?: number;
+  tolerance?: number;
+  points: number;
+  explanation?: BilingualValue;
+}
+
+interface AdminQuiz {
+  _id: string;
+  videoId: string | null;
+  currentVideoId: string | null;
+  orphaned: boolean;
+  title: BilingualValue;
+  description?: BilingualValue;
+  questions: AdminQuizQuestion[];
+  passingScore: number;
+  requiredForCertificate: boolean;
+  maxAttempts: number;
+  stats: {
+    attempts: number;
+    students: number;
+    passRate: number;
+    averagePercentage: number;
+  };
+}
+
+interface QuestionForm {
+  _id?: string;
+  type: QuestionType;
+  prompt: { en: string; tg: string };
+  options: Array<{ en: string; tg: string }>;
+  correctOption: number;
+  correctBoolean: boolean;
+  correctNumber: string;
+  tolerance: string;
+  points: number;
+  explanation: { en: string; tg: string };
+}
+
+interface QuizForm {
+  videoId: string;
+  title: { en: string; tg: string };
+  description: { en: string; tg: string };
+  passingScore: number;
+  requiredForCertificate: boolean;
+  maxAttempts: number;
+  questions: QuestionForm[];
+}
+
+interface QuizManagerProps {
+  courseId: string;
+  videos: Array<{ _id: string; title: string | { en: string; tg: string } }>;
+  onError: (message: string) => void;
+  onSuccess: (message: string) => void;
+}
+
+const toPair = (value?: BilingualValue) => {
+  if (!value) return { en: '', tg: '' };
+  if (typeof value === 'string') return { en: value, tg: value };
+  return { en: value.en || '', tg: value.tg || '' };
+};
+
+// Optional bilingual fields are sent as '' when both languages are blank
+const optionalPair = (pair: { en: string; tg: string }) => (pair.en.trim() || pair.tg.trim() ? pair : '');
+
+const emptyQuestion = (): QuestionForm => ({
+  type: 'multiple_choice',
+  prompt: { en: '', tg: '' },
+  options: [{ en: '', tg: '' }, { en: '', tg: '' }],
+  correctOption: 0,
+  correctBoolean: true,
+  correctNumber: '',
+  tolerance: '0',
+  points: 1,
+  explanation: { en: '', tg: '' }
+});
+
+const emptyQuiz = (): QuizForm => ({
+  videoId: '',
+  title: { en: '', tg: '' },
+  description: { en: '', tg: '' },
+  passingScore: 70,
+  requiredForCertificate: true,
+  maxAttempts: 0,
+  questions: [emptyQuestion()]
+});
+
+const quizToForm = (quiz: AdminQuiz): QuizForm => ({
+  videoId: quiz.currentVideoId || '',
+  title: toPair(quiz.title),
+  description: toPair(quiz.description),
+  passingScore: quiz.passingScore,
+  requiredForCertificate: quiz.requiredForCertificate,
+  maxAttempts: quiz.maxAttempts,
+  questions: quiz.questions.map(question => ({
+    _id: question._id,
+    type: question.type,
+    prompt: toPair(question.prompt),
+    options: (question.options || []).map(option => toPair(option.text)),
+    correctOption: question.correctOption ?? 0,
+    correctBoolean: question.correctBoolean ?? true,
+    correctNumber: question.correctNumber !== undefined ? String(question.correctNumber) : '',
+    tolerance: String(question.tolerance ?? 0),
+    points: question.points,
+    explanation: toPair(question.explanation)
+  }))
+});
+
+/**
+ * Returns the first problem with the form, or null when it can be saved
+ */
+const validateForm = (form: QuizForm): string | null => {
+  if (!form.title.en.trim() || !form.title.tg.trim()) return 'Quiz title is required in English and Tigrinya';
+  if (form.questions.length === 0) return 'Add at least one question';
+
+  for (let i = 0; i < form.questions.length; i++) {
+    const question = form.questions[i];
+    const label = `Question ${i + 1}`;
+    if (!question.prompt.en.trim() || !question.prompt.tg.trim()) return `${label}: text is required in English and Tigrinya`;
+    if (question.type === 'multiple_choice') {
+      if (question.options.length < 2) return `${label}: add at least two options`;
+      if (question.options.some(option => !option.en.trim() || !option.tg.trim())) return `${label}: every option needs English and Tigrinya text`;
+    }
+    if (question.type === 'numeric' && (question.correctNumber.trim() === '' || Number.isNaN(Number(question.correctNumber)))) {
+      return `${label}: enter the correct number`;
+    }
+  }
+  return null;
+};
+
+const inputClass = 'w-full px-3 py-2 text-sm bg-gray-700 text-white border border-gray-600 rounded-lg focus:ring-cyan-500 focus:border-cyan-500';
+
+/**
+ * Admin panel for authoring the quizzes of a course.
+ * A quiz belongs to one lesson, or to the end of the course when no lesson is chosen.
+ */
+const QuizManager: React.FC<QuizManagerProps> = ({ courseId, videos, onError, onSuccess }) => {
+  const [quizzes, setQuizzes] = useState<AdminQuiz[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editingId, setEditingId] = useState<string | 'new' | null>(null);
+  const [form, setForm] = useState<QuizForm>(emptyQuiz());
+  const [formError, setFormError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const fetchQuizzes = useCallback(async () => {
+    try {
+      setLoading(true);
+      const adminToken = localStorage.getItem('adminToken');
+      if (!adminToken) {
+        throw new Error('Admin token not found');
+      }
+
+      const response = await fetch(buildApiUrl(`/api/quizzes/admin/course/${courseId}`), {
+        headers: {
+          'Authorization': `Bearer ${adminToken}`,
+        },
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.message || 'Failed to load quizzes');
+      }
+      setQuizzes(result.data.quizzes);
+    } catch (error) {
+      console.error('Fetch quizzes error:', error);
+      onError(error instanceof Error ? error.message : 'Failed to load quizzes');
+    } finally {
+      setLoading(false);
+    }
+  }, [courseId, onError]);
+
+  useEffect(() => {
+    fetchQuizzes();
+  }, [fetchQuizzes]);
+
+  const startEditing = (quiz?: AdminQuiz) => {
+    setEditingId(quiz ? quiz._id : 'new');
+    setForm(quiz ? quizToForm(quiz) : emptyQuiz());
+    setFormError(null);
+  };
+
+  const updateQuestion = (index: number, changes: Partial<QuestionForm>) => {
+    setForm(prev => ({
+      ...prev,
+      questions: prev.questions.map((question, i) => (i === index ? { ...question, ...changes } : question))
+    }));
+  };
+
+  const saveQuiz = async () => {
+    const problem = validateForm(form);
+    if (problem) {
+      setFormError(problem);
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setFormError(null);
+      const adminToken = localStorage.getItem('adminToken');
+      if (!adminToken) {
+        throw new Error('Admin token not found');
+      }
+
+      const payload = {
+        courseId,
+        videoId: form.videoId || null,
+        title: form.title,
+        description: optionalPair(form.description),
+        passingScore: form.passingScore,
+        requiredForCertificate: form.requiredForCertificate,
+        maxAttempts: form.maxAttempts,
+        questions: form.questions.map(question => ({
+          _id: question._id,
+          type: question.type,
+          prompt: question.prompt,
+          points: question.points,
+          explanation: optionalPair(question.explanation),
+          options: question.options.map(option => ({ text: option })),
+          correctOption: question.correctOption,
+          correctBoolean: question.correctBoolean,
+          correctNumber: question.correctNumber,
+          tolerance: question.tolerance
+        }))
+      };
+
+      const isNew = editingId === 'new';
+      const response = await fetch(buildApiUrl(isNew ? '/api/quizzes/admin' : `/api/quizzes/admin/${editingId}`), {
+        method: isNew ? 'POST' : 'PUT',
+        headers: {
+          'Authorization': `Bearer ${adminToken}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(payload),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.message || 'Failed to save quiz');
+      }
+
+      onSuccess(result.message || 'Quiz saved successfully');
+      setEditingId(null);
+      fetchQuizzes();
+    } catch (error) {
+      console.error('Save quiz error:', error);
+      setFormError(error instanceof Error ? error.message : 'Failed to save quiz');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const deleteQuiz = async (quiz: AdminQuiz) => {
+    const message = quiz.stats.attempts > 0
+      ? 'This quiz has attempts. It will be archived and no longer count towards certificates. Continue?'
+      : 'Delete this quiz?';
+    if (!window.confirm(message)) {
+      return;
+    }
+
+    try {
+      const adminToken = localStorage.getItem('adminToken');
+      if (!adminToken) {
+        throw new Error('Admin token not found');
+      }
+
+      const response = await fetch(buildApiUrl(`/api/quizzes/admin/${quiz._id}`), {
+        method: 'DELETE',
+        headers: {
+          'Authorization': `Bearer ${adminToken}`,
+        },
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.message || 'Failed to delete quiz');
+      }
+
+      setQuizzes(prev => prev.filter(q => q._id !== quiz._id));
+      onSuccess(result.message || 'Quiz deleted');
+    } catch (error) {
+      console.error('Delete quiz error:', error);
+      onError(error instanceof Error ? error.message : 'Failed to delete quiz');
+    }
+  };
+
+  const lessonTitle = (videoId: string | null) => {
+    if (!videoId) return 'End of course';
+    const video = videos.find(v => v._id === videoId);
+    return video ? getEnglishText(video.title) : 'Lesson';
+  };
+
+  const renderBilingualInputs = (
+    value: { en: string; tg: string },
+    onChange: (value: { en: string; tg: string }) => void,
+    placeholder: string
+  ) => (
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+      <input
+        type="text"
+        value={value.en}
+        onChange={(e) => onChange({ ...value, en: e.target.value })}
+        placeholder={`${placeholder} (English)`}
+        className={inputClass}
+      />
+      <input
+        type="text"
+        value={value.tg}
+        onChange={(e) => onChange({ ...value, tg: e.target.value })}
+        placeholder={`${placeholder} (Tigrinya)`}
+        className={inputClass}
+      />
+    </div>
+  );
+
+  return (
+    <div className="mb-6 bg-gray-800 rounded-lg border border-gray-700 p-4 sm:p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h2 className="text-lg font-semibold text-white flex items-center">
+            <ClipboardCheck className="h-5 w-5 mr-2 text-cyan-400" />
+            Quizzes
+          </h2>
+          <p className="text-xs text-gray-400">Quizzes marked "required" must be passed before a certificate is issued.</p>
+        </div>
+        {editingId === null && (
+          <button
+            onClick={() => startEditing()}
+            className="inline-flex items-center px-3 py-2 text-sm font-medium rounded-lg text-white bg-gradient-to-r from-cyan-600 to-blue-600 hover:from-cyan-500 hover:to-blue-500"
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            New Quiz
+          </button>
+        )}
+      </div>
+
+      {editingId !== null ? (
+        <div className="space-y-4">
+          {renderBilingualInputs(form.title, (title) => setForm(prev => ({ ...prev, title })), 'Quiz title')}
+          {renderBilingualInputs(form.description, (description) => setForm(prev => ({ ...prev, description })), 'Description')}
+
+          <div className="grid grid-cols-1 sm:grid-cols-4 gap-3">
+            <label className="text-xs text-gray-400 sm:col-span-2">
+              Attached to
+              <select
+                value={form.videoId}
+                onChange={(e) => setForm(prev => ({ ...prev, videoId: e.target.value }))}
+                className={`${inputClass} mt-1`}
+              >
+                <option value="">End of course</option>
+                {videos.map(video => (
+                  <option key={video._id} value={video._id}>{getEnglishText(video.title)}</option>
+                ))}
+              </select>
+            </label>
+            <label className="text-xs text-gray-400">
+              Passing score (%)
+              <input
+                type="number"
+                min={0}
+                max={100}
+                value={form.passingScore}
+                onChange={(e) => setForm(prev => ({ ...prev, passingScore: Number(e.target.value) }))}
+                className={`${inputClass} mt-1`}
+              />
+            </label>
+            <label className="text-xs text-gray-400">
+              Max attempts (0 = unlimited)
+              <input
+                type="number"
+                min={0}
+                value={form.maxAttempts}
+                onChange={(e) => setForm(prev => ({ ...prev, maxAttempts: Number(e.target.value) }))}
+                className={`${inputClass} mt-1`}
+              />
+            </label>
+          </div>
+          <label className="flex items-center space-x-2 text-sm text-gray-300">
+            <input
+              type="checkbox"
+              checked={form.requiredForCertificate}
+              onChange={(e) => setForm(prev => ({ ...prev, requiredForCertificate: e.target.checked }))}
+              className="rounded border-gray-600 text-cyan-600 focus:ring-cyan-500"
+            />
+            <span>Required for certificate</span>
+          </label>
+
+          {form.questions.map((question, index) => (
+            <div key={index} className="bg-gray-700/50 rounded-lg p-3 space-y-2">
+              <div className="flex items-center justify-between">
+                <span className="text-sm font-medium text-white">Question {index + 1}</span>
+                <div className="flex items-center space-x-2">
+                  <select
+                    value={question.type}
+                    onChange={(e) => updateQuestion(index, { type: e.target.value as QuestionType })}
+                    className="px-2 py-1 text-xs bg-gray-700 text-white border border-gray-600 rounded"
+                  >
+                    <option value="multiple_choice">Multiple choice</option>
+                    <option value="true_false">True / False</option>
+                    <option value="numeric">Numeric</option>
+                  </select>
+                  <input
+                    type="number"
+                    min={0}
+                    value={question.points}
+                    onChange={(e) => updateQuestion(index, { points: Number(e.target.value) })}
+                    className="w-16 px-2 py-1 text-xs bg-gray-700 text-white border border-gray-600 rounded"
+                    title="Points"
+                  />
+                  <button
+                    onClick={() => setForm(prev => ({ ...prev, questions: prev.questions.filter((_, i) => i !== index) }))}
+                    className="p-1 text-gray-400 hover:text-red-400"
+                    title="Remove question"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              </div>
+
+              {renderBilingualInputs(question.prompt, (prompt) => updateQuestion(index, { prompt }), 'Question')}
+
+              {question.type === 'multiple_choice' && (
+                <div className="space-y-2">
+                  {question.options.map((option, optionIndex) => (
+                    <div key={optionIndex} className="flex items-start space-x-2">
+                      <input
+                        type="radio"
+                        checked={question.correctOption === optionIndex}
+                        onChange={() => updateQuestion(index, { correctOption: optionIndex })}
+                        className="mt-3 text-cyan-600 focus:ring-cyan-500"
+                        title="Correct answer"
+                      />
+                      <div className="flex-1">
+                        {renderBilingualInputs(option, (value) => updateQuestion(index, {
+                          options: question.options.map((o, i) => (i === optionIndex ? value : o))
+                        }), `Option ${optionIndex + 1}`)}
+                      </div>
+                      {question.options.length > 2 && (
+                        <button
+                          onClick={() => updateQuestion(index, {
+                            options: question.options.filter((_, i) => i !== optionIndex),
+                            correctOption: question.correctOption >= optionIndex && question.correctOption > 0
+                              ? question.correctOption - 1
+                              : question.correctOption
+                          })}
+                          className="mt-2 p-1 text-gray-400 hover:text-red-400"
+                          title="Remove option"
+                        >
+                          <X className="h-4 w-4" />
+                        </button>
+                      )}
+                    </div>
+                  ))}
+                  <button
+                    onClick={() => updateQuestion(index, { options: [...question.options, { en: '', tg: '' }] })}
+                    className="text-xs text-cyan-400 hover:text-cyan-300"
+                  >
+                    + Add option
+                  </button>
+                </div>
+              )}
+
+              {question.type === 'true_false' && (
+                <div className="flex space-x-4 text-sm text-gray-300">
+                  {[true, false].map(value => (
+                    <label key={String(value)} className="flex items-center space-x-1">
+                      <input
+                        type="radio"
+                        checked={question.correctBoolean === value}
+                        onChange={() => updateQuestion(index, { correctBoolean: value })}
+                        className="text-cyan-600 focus:ring-cyan-500"
+                      />
+                      <span>{value ? 'True' : 'False'}</span>
+                    </label>
+                  ))}
+                </div>
+              )}
+
+              {question.type === 'numeric' && (
+                <div className="grid grid-cols-2 gap-2">
+                  <input
+                    type="number"
+                    step="any"
+                    value={question.correctNumber}
+                    onChange={(e) => updateQuestion(index, { correctNumber: e.target.value })}
+                    placeholder="Correct value"
+                    className={inputClass}
+                  />
+                  <input
+                    type="number"
+                    step="any"
+                    min={0}
+                    value={question.tolerance}
+                    onChange={(e) => updateQuestion(index, { tolerance: e.target.value })}
+                    placeholder="Tolerance (±)"
+                    className={inputClass}
+                  />
+                </div>
+              )}
+
+              {renderBilingualInputs(question.explanation, (explanation) => updateQuestion(index, { explanation }), 'Explanation shown after submitting (optional)')}
+            </div>
+          ))}
+
+          <button
+            onClick={() => setForm(prev => ({ ...prev, questions: [...prev.questions, emptyQuestion()] }))}
+            className="inline-flex items-center text-sm text-cyan-400 hover:text-cyan-300"
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Add question
+          </button>
+
+          {formError && (
+            <div className="flex items-center text-sm text-orange-300">
+              <AlertCircle className="h-4 w-4 mr-1" />
+              {formError}
+            </div>
+          )}
+
+          <div className="flex justify-end space-x-2">
+            <button
+              onClick={() => setEditingId(null)}
+              className="inline-flex items-center px-3 py-2 text-sm text-gray-300 hover:text-white"
+            >
+              <X className="h-4 w-4 mr-1" />
+              Cancel
+            </button>
+            <button
+              onClick={saveQuiz}
+              disabled={saving}
+              className="inline-flex items-center px-3 py-2 text-sm font-medium rounded-lg text-white bg-gradient-to-r from-cyan-600 to-blue-600 hover:from-cyan-500 hover:to-blue-500 disabled:opacity-50"
+            >
+              <Save className="h-4 w-4 mr-1" />
+              {saving ? 'Saving...' : 'Save Quiz'}
+            </button>
+          </div>
+        </div>
+      ) : loading ? (
+        <div className="space-y-2">
+          {Array.from({ length: 2 }).map((_, i) => (
+            <div key={i} className="animate-pulse h-12 bg-gray-700 rounded" />
+          ))}
+        </div>
+      ) : quizzes.length === 0 ? (
+        <p className="text-sm text-gray-400">No quizzes yet.</p>
+      ) : (
+        <div className="space-y-2">
+          {quizzes.map(quiz => (
+            <div key={quiz._id} className="flex items-center justify-between bg-gray-700/50 rounded-lg p-3">
+              <div className="min-w-0">
+                <div className="text-sm font-medium text-white truncate">{getEnglishText(quiz.title)}</div>
+                <div className="text-xs text-gray-400">
+                  {quiz.orphaned ? (
+                    <span className="text-orange-400">Lesson removed from course</span>
+                  ) : lessonTitle(quiz.currentVideoId)}
+                  {' · '}{quiz.questions.length} questions · pass {quiz.passingScore}%
+                  {quiz.requiredForCertificate && ' · required'}
+                </div>
+                <div className="text-xs text-gray-500">
+                  {quiz.stats.attempts} attempts by {quiz.stats.students} students · {quiz.stats.passRate}% pass rate · avg {quiz.stats.averagePercentage}%
+                </div>
+              </div>
+              <div className="flex items-center space-x-1 flex-shrink-0">
+                <button
+                  onClick={() => startEditing(quiz)}
+                  className="p-2 text-gray-400 hover:text-white"
+                  title="Edit quiz"
+                >
+                  <Edit className="h-4 w-4" />
+                </button>
+                <button
+                  onClick={() => deleteQuiz(quiz)}
+                  className="p-2 text-gray-400 hover:text-red-400"
+                  title="Delete quiz"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default QuizManager;
@@ -0,0 +1,319 @@
+import React, { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { X, CheckCircle, XCircle, Award, RotateCcw } from 'lucide-react';
+import { getLocalizedText } from '../utils/bilingualHelper';
+import { authFetch, getAccessToken } from '../utils/api';
+
+type BilingualText = string | { en: string; tg: string };
+type AnswerValue = number | boolean | string;
+
+interface QuizQuestion {
+  _id: string;
+  type: 'multiple_choice' | 'true_false' | 'numeric';
+  prompt: BilingualText;
+  options: Array<{ _id: string; text: BilingualText }>;
+  points: number;
+}
+
+interface QuizData {
+  _id: string;
+  title: BilingualText;
+  description?: BilingualText;
+  passingScore: number;
+  maxAttempts: number;
+  totalPoints: number;
+  questions: QuizQuestion[];
+}
+
+interface QuestionReview {
+  questionId: string;
+  isCorrect: boolean;
+  // Only sent once the student passed or has no attempts left
+  correctAnswer?: AnswerValue;
+  explanation?: BilingualText;
+}
+
+interface AttemptResult {
+  score: number;
+  maxScore: number;
+  percentage: number;
+  passed: boolean;
+  passingScore: number;
+}
+
+interface QuizModalProps {
+  quizId: string;
+  onClose: () => void;
+  onSubmitted: (passed: boolean) => void;
+}
+
+const QuizModal: React.FC<QuizModalProps> = ({ quizId, onClose, onSubmitted }) => {
+  const { t, i18n } = useTranslation();
+  const currentLanguage = (i18n.language || 'en') as 'en' | 'tg';
+  const [quiz, setQuiz] = useState<QuizData | null>(null);
+  const [attemptsUsed, setAttemptsUsed] = useState(0);
+  const [answers, setAnswers] = useState<Record<string, AnswerValue>>({});
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<AttemptResult | null>(null);
+  const [review, setReview] = useState<Record<string, QuestionReview>>({});
+  const [certificateIssued, setCertificateIssued] = useState(false);
+
+  useEffect(() => {
+    const fetchQuiz = async () => {
+      const token = getAccessToken();
+      if (!token) return;
+
+      try {
+        setLoading(true);
+        const response = await authFetch(`/api/quizzes/${quizId}`);
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.message || 'Failed to load quiz');
+        }
+        setQuiz(data.data.quiz);
+        setAttemptsUsed(data.data.attemptsUsed || 0);
+      } catch (error) {
+        console.error('❌ [Quiz] Error loading quiz:', error);
+        setError(t('quiz.load_failed'));
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchQuiz();
+  }, [quizId, t]);
+
+  const attemptsLeft = quiz && quiz.maxAttempts > 0 ? quiz.maxAttempts - attemptsUsed : null;
+  const allAnswered = !!quiz && quiz.questions.every(q => answers[q._id] !== undefined && answers[q._id] !== '');
+
+  const submitQuiz = async () => {
+    const token = getAccessToken();
+    if (!token || !quiz) return;
+
+    try {
+      setSubmitting(true);
+      setError(null);
+      const response = await authFetch(`/api/quizzes/${quizId}/attempts`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          answers: quiz.questions.map(q => ({ questionId: q._id, answer: answers[q._id] }))
+        })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to submit quiz');
+      }
+
+      setResult(data.data.attempt);
+      setReview(Object.fromEntries((data.data.review as QuestionReview[]).map(r => [r.questionId, r])));
+      setCertificateIssued(!!data.data.certificateIssued);
+      setAttemptsUsed(prev => prev + 1);
+      onSubmitted(data.data.attempt.passed);
+    } catch (error) {
+      console.error('❌ [Quiz] Error submitting quiz:', error);
+      setError(error instanceof Error ? error.message : t('quiz.submit_failed'));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const retry = () => {
+    setAnswers({});
+    setResult(null);
+    setReview({});
+    setError(null);
+  };
+
+  const formatAnswer = (question: QuizQuestion, value: AnswerValue) => {
+    if (question.type === 'multiple_choice') {
+      const option = question.options[Number(value)];
+      return option ? getLocalizedText(option.text, currentLanguage) : '';
+    }
+    if (question.type === 'true_false') {
+      return value === true || value === 'true' ? t('quiz.true') : t('quiz.false');
+    }
+    return String(value);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 flex items-center justify-center p-3">
+      <div className="bg-gray-800 rounded-xl shadow-2xl w-full max-w-2xl max-h-[90vh] flex flex-col border border-gray-700">
+        <div className="flex items-start justify-between p-4 border-b border-gray-700">
+          <div>
+            <h2 className="text-lg font-semibold text-white">
+              {quiz ? getLocalizedText(quiz.title, currentLanguage) : t('quiz.title')}
+            </h2>
+            {quiz && (
+              <p className="text-xs text-gray-400 mt-1">
+                {t('quiz.passing_score', { score: quiz.passingScore })}
+                {attemptsLeft !== null && ` · ${t('quiz.attempts_left', { count: Math.max(0, attemptsLeft) })}`}
+              </p>
+            )}
+          </div>
+          <button onClick={onClose} className="p-1 text-gray-400 hover:text-white" aria-label={t('quiz.close')}>
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-4">
+          {loading ? (
+            Array.from({ length: 3 }).map((_, i) => (
+              <div key={i} className="animate-pulse h-20 bg-gray-700 rounded" />
+            ))
+          ) : !quiz ? (
+            <p className="text-sm text-orange-300">{error}</p>
+          ) : (
+            <>
+              {result && (
+                <div className={`rounded-lg p-4 border ${result.passed ? 'bg-green-500/10 border-green-500/30' : 'bg-orange-500/10 border-orange-500/30'}`}>
+                  <div className="flex items-center space-x-2">
+                    {result.passed ? <CheckCircle className="h-5 w-5 text-green-400" /> : <XCircle className="h-5 w-5 text-orange-400" />}
+                    <span className={`font-semibold ${result.passed ? 'text-green-300' : 'text-orange-300'}`}>
+                      {result.passed ? t('quiz.passed') : t('quiz.failed')}
+                    </span>
+                  </div>
+                  <p className="text-sm text-gray-300 mt-1">
+                    {t('quiz.your_score', { percentage: result.percentage, score: result.score, max: result.maxScore })}
+                  </p>
+                  {Object.values(review).some(r => r.correctAnswer === undefined) && (
+                    <p className="text-xs text-gray-400 mt-1">{t('quiz.answers_hidden')}</p>
+                  )}
+                  {certificateIssued && (
+                    <p className="flex items-center text-sm text-cyan-300 mt-2">
+                      <Award className="h-4 w-4 mr-1" />
+                      {t('quiz.certificate_issued')}
+                    </p>
+                  )}
+                </div>
+              )}
+
+              {quiz.description && getLocalizedText(quiz.description, currentLanguage) && !result && (
+                <p className="text-sm text-gray-300">{getLocalizedText(quiz.description, currentLanguage)}</p>
+              )}
+
+              {quiz.questions.map((question, index) => {
+                const questionReview = review[question._id];
+                return (
+                  <div
+                    key={question._id}
+                    className={`rounded-lg p-3 border ${
+                      questionReview ? (questionReview.isCorrect ? 'border-green-500/40' : 'border-orange-500/40') : 'border-gray-700'
+                    } bg-gray-700/40`}
+                  >
+                    <p className="text-sm font-medium text-white mb-2">
+                      {index + 1}. {getLocalizedText(question.prompt, currentLanguage)}
+                      <span className="ml-2 text-xs text-gray-400">({t('quiz.points', { count: question.points })})</span>
+                    </p>
+
+                    {question.type === 'multiple_choice' && (
+                      <div className="space-y-1">
+                        {question.options.map((option, optionIndex) => (
+                          <label key={option._id} className="flex items-center space-x-2 text-sm text-gray-300 cursor-pointer">
+                            <input
+                              type="radio"
+                              name={question._id}
+                              disabled={!!result}
+                              checked={answers[question._id] === optionIndex}
+                              onChange={() => setAnswers(prev => ({ ...prev, [question._id]: optionIndex }))}
+                              className="text-cyan-600 focus:ring-cyan-500"
+                            />
+                            <span>{getLocalizedText(option.text, currentLanguage)}</span>
+                          </label>
+                        ))}
+                      </div>
+                    )}
+
+                    {question.type === 'true_false' && (
+                      <div className="flex space-x-4">
+                        {[true, false].map(value => (
+                          <label key={String(value)} className="flex items-center space-x-2 text-sm text-gray-300 cursor-pointer">
+                            <input
+                              type="radio"
+                              name={question._id}
+                              disabled={!!result}
+                              checked={answers[question._id] === value}
+                              onChange={() => setAnswers(prev => ({ ...prev, [question._id]: value }))}
+                              className="text-cyan-600 focus:ring-cyan-500"
+                            />
+                            <span>{value ? t('quiz.true') : t('quiz.false')}</span>
+                          </label>
+                        ))}
+                      </div>
+                    )}
+
+                    {question.type === 'numeric' && (
+                      <input
+                        type="number"
+                        step="any"
+                        disabled={!!result}
+                        value={answers[question._id] === undefined ? '' : String(answers[question._id])}
+                        onChange={(e) => setAnswers(prev => ({ ...prev, [question._id]: e.target.value }))}
+                        placeholder={t('quiz.numeric_placeholder')}
+                        className="w-40 px-3 py-2 text-sm bg-gray-700 text-white border border-gray-600 rounded-lg focus:ring-cyan-500 focus:border-cyan-500"
+                      />
+                    )}
+
+                    {questionReview && (
+                      <div className="mt-2 text-xs space-y-1">
+                        {!questionReview.isCorrect && (
+                          <p className="text-orange-300">
+                            {questionReview.correctAnswer === undefined
+                              ? t('quiz.incorrect')
+                              : t('quiz.correct_answer', { answer: formatAnswer(question, questionReview.correctAnswer) })}
+                          </p>
+                        )}
+                        {questionReview.explanation && getLocalizedText(questionReview.explanation, currentLanguage) && (
+                          <p className="text-gray-400">{getLocalizedText(questionReview.explanation, currentLanguage)}</p>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </>
+          )}
+        </div>
+
+        {quiz && (
+          <div className="flex items-center justify-between p-4 border-t border-gray-700">
+            <span className="text-xs text-orange-300">{error}</span>
+            {result ? (
+              <div className="flex space-x-2">
+                {!result.passed && (attemptsLeft === null || attemptsLeft > 0) && (
+                  <button
+                    onClick={retry}
+                    className="inline-flex items-center px-4 py-2 text-sm text-gray-300 hover:text-white"
+                  >
+                    <RotateCcw className="h-4 w-4 mr-1" />
+                    {t('quiz.try_again')}
+                  </button>
+                )}
+                <button
+                  onClick={onClose}
+                  className="px-4 py-2 text-sm text-white bg-gradient-to-r from-cyan-600 to-blue-600 rounded-lg"
+                >
+                  {t('quiz.close')}
+                </button>
+              </div>
+            ) : (
+              <button
+                onClick={submitQuiz}
+                disabled={submitting || !allAnswered || (attemptsLeft !== null && attemptsLeft <= 0)}
+                className="px-4 py-2 text-sm text-white bg-gradient-to-r from-cyan-600 to-blue-600 rounded-lg disabled:opacity-50"
+              >
+                {submitting ? t('quiz.submitting') : attemptsLeft !== null && attemptsLeft <= 0 ? t('quiz.no_attempts_left') : t('quiz.submit')}
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default QuizModal;
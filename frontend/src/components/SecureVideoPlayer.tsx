@@ -10,13 +10,19 @@ import {
   Shield,
   AlertTriangle,
   Eye,
-  EyeOff
+  EyeOff,
+  Captions
 } from 'lucide-react';
 import { formatDuration } from '../utils/durationFormatter';
 import DRMSecurityService from '../services/drmSecurityService';
+import { useHlsPlayback, AUTO_QUALITY } from '../hooks/useHlsPlayback';
+import { CaptionTrackData } from '../services/drmVideoService';
+import { authFetch } from '../utils/api';
 
 interface SecureVideoPlayerProps {
   src: string;
+  hlsSrc?: string;
+  captions?: CaptionTrackData[];
   title?: string;
   userId?: string;
   videoId?: string;
@@ -33,6 +39,7 @@ interface SecureVideoPlayerProps {
   onPlaybackRateChange?: (rate: number) => void;
   className?: string;
   initialTime?: number;
+  seekRequest?: { time: number; requestId: number };
   showControls?: boolean;
   onControlsToggle?: (visible: boolean) => void;
   drmEnabled?: boolean;
@@ -42,6 +49,8 @@ interface SecureVideoPlayerProps {
 
 const SecureVideoPlayer: React.FC<SecureVideoPlayerProps> = ({
   src,
+  hlsSrc,
+  captions = [],
   title,
   userId,
   videoId,
@@ -58,6 +67,7 @@ const SecureVideoPlayer: React.FC<SecureVideoPlayerProps> = ({
   onPlaybackRateChange,
   className = '',
   initialTime = 0,
+  seekRequest,
   showControls = true,
   onControlsToggle,
   drmEnabled = true,
@@ -111,6 +121,39 @@ const SecureVideoPlayer: React.FC<SecureVideoPlayerProps> = ({
   const [antiRecordingActive, setAntiRecordingActive] = useState(false);
   const [contentObfuscation, setContentObfuscation] = useState(false);
 
+  // Adaptive streaming (HLS) with manual quality override
+  const handleHlsFatalError = useCallback((message: string) => {
+    setError(message);
+    setIsLoading(false);
+  }, []);
+  // New playback token for long sessions; the one in hlsSrc expires after a couple of hours
+  const refreshHlsSrc = useCallback(async (): Promise<string | null> => {
+    if (!videoId) return null;
+    const response = await authFetch(`/api/videos/${videoId}/hls/playback`);
+    if (!response.ok) return null;
+    const result = await response.json();
+    return result.data?.hls?.masterUrl || null;
+  }, [videoId]);
+  const hls = useHlsPlayback(videoRef, hlsSrc, handleHlsFatalError, refreshHlsSrc);
+
+  // Captions: default to the track matching the UI language, if there is one
+  const [activeCaption, setActiveCaption] = useState<string | null>(null);
+  const [showCaptionMenu, setShowCaptionMenu] = useState(false);
+  const captionLanguages = captions.map(track => track.language).join(',');
+
+  useEffect(() => {
+    setActiveCaption(captionLanguages.split(',').includes(i18n.language) ? i18n.language : null);
+  }, [captionLanguages, i18n.language]);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    Array.from(video.textTracks).forEach(track => {
+      track.mode = track.language === activeCaption ? 'showing' : 'disabled';
+    });
+  }, [activeCaption, captionLanguages]);
+
   // Progress tracking
   const lastProgressUpdate = useRef(0);
   const PROGRESS_UPDATE_INTERVAL = 30000; // 30 seconds
@@ -1034,6 +1077,17 @@ const SecureVideoPlayer: React.FC<SecureVideoPlayerProps> = ({
     }
   }, [initialTime, isReady]);
 
+  // Seek requested by the parent (e.g. clicking a transcript line), applied once per request
+  const appliedSeekRequest = useRef<number | null>(null);
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video || !isReady || !seekRequest || appliedSeekRequest.current === seekRequest.requestId) return;
+
+    appliedSeekRequest.current = seekRequest.requestId;
+    video.currentTime = seekRequest.time;
+    setCurrentTime(seekRequest.time);
+  }, [seekRequest, isReady]);
+
   // Add event listeners
   useEffect(() => {
     const video = videoRef.current;
@@ -1182,7 +1236,7 @@ const SecureVideoPlayer: React.FC<SecureVideoPlayerProps> = ({
       {/* Video Element */}
       <video
         ref={videoRef}
-        src={src}
+        src={hlsSrc ? undefined : src}
         className="w-full h-full object-contain"
         preload="metadata"
         crossOrigin="anonymous"
@@ -1204,7 +1258,17 @@ const SecureVideoPlayer: React.FC<SecureVideoPlayerProps> = ({
         controlsList="nodownload nofullscreen noremoteplayback"
         disablePictureInPicture
         disableRemotePlayback
-      />
+      >
+        {captions.map(track => (
+          <track
+            key={track.language}
+            kind="captions"
+            src={track.url}
+            srcLang={track.language}
+            label={track.label}
+          />
+        ))}
+      </video>
 
       {/* Center Play/Pause Button */}
       {(showCenterPlayButton || !isPlaying) && !isLoading && !error && (
@@ -1311,8 +1375,51 @@ const SecureVideoPlayer: React.FC<SecureVideoPlayerProps> = ({
               />
             </div>
 
-            {/* Playback Rate - Hidden on very small screens */}
-            <div className="hidden md:block relative flex-shrink-0">
+            {/* Captions - kept visible on mobile, where many learners watch without sound */}
+            {captions.length > 0 && (
+              <div className="relative flex-shrink-0">
+                <button
+                  onClick={() => setShowCaptionMenu(!showCaptionMenu)}
+                  className={`transition-colors ${activeCaption ? 'text-cyan-400 hover:text-cyan-300' : 'text-white hover:text-gray-300'}`}
+                  title={t('video_player.captions')}
+                >
+                  <Captions className="w-5 h-5" />
+                </button>
+                {showCaptionMenu && (
+                  <div className="absolute bottom-8 right-0 bg-black bg-opacity-90 rounded p-2 min-w-32">
+                    <div className="text-xs text-gray-400 mb-2">{t('video_player.captions')}</div>
+                    <button
+                      onClick={() => {
+                        setActiveCaption(null);
+                        setShowCaptionMenu(false);
+                      }}
+                      className={`block w-full text-left px-2 py-1 text-sm rounded hover:bg-gray-700 ${
+                        activeCaption === null ? 'bg-gradient-to-r from-cyan-600 to-blue-600 text-white' : 'text-white'
+                      }`}
+                    >
+                      {t('video_player.captions_off')}
+                    </button>
+                    {captions.map(track => (
+                      <button
+                        key={track.language}
+                        onClick={() => {
+                          setActiveCaption(track.language);
+                          setShowCaptionMenu(false);
+                        }}
+                        className={`block w-full text-left px-2 py-1 text-sm rounded hover:bg-gray-700 ${
+                          activeCaption === track.language ? 'bg-gradient-to-r from-cyan-600 to-blue-600 text-white' : 'text-white'
+                        }`}
+                      >
+                        {track.label}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+
+            {/* Playback Rate & Quality - Hidden on very small screens unless quality can be picked */}
+            <div className={`${hls.levels.length > 1 ? 'block' : 'hidden md:block'} relative flex-shrink-0`}>
               <button
                 onClick={() => setShowSettings(!showSettings)}
                 className="text-white hover:text-gray-300 transition-colors"
@@ -1320,7 +1427,43 @@ const SecureVideoPlayer: React.FC<SecureVideoPlayerProps> = ({
                 <Settings className="w-5 h-5" />
               </button>
               {showSettings && (
-                <div className="absolute bottom-8 right-0 bg-black bg-opacity-90 rounded p-2 min-w-32">
+                <div className="absolute bottom-8 right-0 bg-black bg-opacity-90 rounded p-2 min-w-32 max-h-72 overflow-y-auto">
+                  {hls.levels.length > 1 && (
+                    <>
+                      <div className="text-xs text-gray-400 mb-2">{t('video_player.quality')}</div>
+                      <button
+                        onClick={() => {
+                          hls.selectLevel(AUTO_QUALITY);
+                          setShowSettings(false);
+                        }}
+                        className={`block w-full text-left px-2 py-1 text-sm rounded hover:bg-gray-700 ${
+                          hls.selectedLevel === AUTO_QUALITY ? 'bg-gradient-to-r from-cyan-600 to-blue-600 text-white' : 'text-white'
+                        }`}
+                      >
+                        {t('video_player.quality_auto')}
+                        {hls.selectedLevel === AUTO_QUALITY && hls.activeLevel !== AUTO_QUALITY && (
+                          <span className="ml-1 text-xs text-gray-200">
+                            ({hls.levels.find(level => level.index === hls.activeLevel)?.label})
+                          </span>
+                        )}
+                      </button>
+                      {hls.levels.map(level => (
+                        <button
+                          key={level.index}
+                          onClick={() => {
+                            hls.selectLevel(level.index);
+                            setShowSettings(false);
+                          }}
+                          className={`block w-full text-left px-2 py-1 text-sm rounded hover:bg-gray-700 ${
+                            hls.selectedLevel === level.index ? 'bg-gradient-to-r from-cyan-600 to-blue-600 text-white' : 'text-white'
+                          }`}
+                        >
+                          {level.label}
+                        </button>
+                      ))}
+                      <div className="border-t border-gray-700 my-2" />
+                    </>
+                  )}
                   <div className="text-xs text-gray-400 mb-2">Playback Speed</div>
                   {playbackRates.map(rate => (
                     <button
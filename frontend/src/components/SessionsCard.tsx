@@ -0,0 +1,161 @@
+import React, { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { MonitorSmartphone, Monitor, Smartphone, Tablet, LogOut, Loader } from 'lucide-react';
+import { config } from '../config/environment';
+import { authFetch } from '../utils/api';
+
+interface DeviceSession {
+  _id: string;
+  browser: string;
+  os: string;
+  deviceType: 'desktop' | 'mobile' | 'tablet' | 'unknown';
+  ipAddress?: string | null;
+  lastSeenAt: string;
+  createdAt: string;
+  isCurrent: boolean;
+}
+
+const deviceIcons = {
+  desktop: Monitor,
+  mobile: Smartphone,
+  tablet: Tablet,
+  unknown: MonitorSmartphone
+};
+
+const SessionsCard: React.FC = () => {
+  const { t } = useTranslation();
+  const [sessions, setSessions] = useState<DeviceSession[]>([]);
+  const [maxSessions, setMaxSessions] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [pendingId, setPendingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const sessionsUrl = config.API_ENDPOINTS.AUTH.SESSIONS;
+
+  useEffect(() => {
+    const fetchSessions = async () => {
+      try {
+        const response = await authFetch(sessionsUrl);
+        if (!response.ok) {
+          throw new Error(t('sessions.load_failed'));
+        }
+        const data = await response.json();
+        setSessions(data.data?.sessions || []);
+        setMaxSessions(data.data?.maxSessions || 0);
+      } catch (error) {
+        console.error('❌ [Sessions] Error fetching sessions:', error);
+        setError(error instanceof Error ? error.message : t('sessions.load_failed'));
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchSessions();
+  }, [sessionsUrl, t]);
+
+  const signOut = async (sessionId: string | 'others') => {
+    try {
+      setPendingId(sessionId);
+      setError(null);
+      const response = await authFetch(
+        sessionId === 'others' ? `${sessionsUrl}/revoke-others` : `${sessionsUrl}/${sessionId}`,
+        { method: sessionId === 'others' ? 'POST' : 'DELETE' }
+      );
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.message || t('sessions.sign_out_failed'));
+      }
+      setSessions(prev => prev.filter(session => sessionId === 'others' ? session.isCurrent : session._id !== sessionId));
+    } catch (error) {
+      console.error('❌ [Sessions] Error signing out:', error);
+      setError(error instanceof Error ? error.message : t('sessions.sign_out_failed'));
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  const formatDate = (date: string) =>
+    new Date(date).toLocaleString('en-US', { year: 'numeric', month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+
+  const hasOtherSessions = sessions.some(session => !session.isCurrent);
+
+  return (
+    <div className="bg-gradient-to-br from-blue-50 via-cyan-50 to-purple-50 dark:from-gray-800 dark:via-gray-800/95 dark:to-gray-900 rounded-2xl tiny:rounded-3xl shadow-2xl border border-blue-200 dark:border-gray-700/50 hover:border-cyan-500/30 transition-all duration-300 overflow-hidden">
+      <div className="bg-gradient-to-r from-cyan-500/10 via-blue-500/10 to-purple-500/10 px-3 tiny:px-4 xxs:px-5 sm:px-6 lg:px-8 xl:px-10 py-3 tiny:py-4 xxs:py-5 sm:py-6 md:py-7 border-b border-blue-200 dark:border-gray-700/50">
+        <h3 className="text-base tiny:text-lg xxs:text-xl sm:text-2xl md:text-3xl font-bold text-blue-900 dark:text-white flex items-center space-x-2 tiny:space-x-3 xxs:space-x-4 mb-1.5 tiny:mb-2">
+          <div className="p-1.5 tiny:p-2 xxs:p-2.5 sm:p-3 bg-gradient-to-br from-blue-500 to-purple-500 rounded-xl tiny:rounded-2xl shadow-lg flex-shrink-0">
+            <MonitorSmartphone className="h-4 w-4 tiny:h-5 tiny:w-5 xxs:h-6 xxs:w-6 sm:h-7 sm:w-7 text-white" />
+          </div>
+          <span className="break-words">{t('sessions.title')}</span>
+        </h3>
+        <p className="text-blue-700 dark:text-gray-400 text-[10px] tiny:text-xs xxs:text-sm sm:text-base md:text-lg ml-10 tiny:ml-12 xxs:ml-14 sm:ml-16 md:ml-18">{t('sessions.description')}</p>
+      </div>
+
+      <div className="p-3 tiny:p-4 xxs:p-5 sm:p-6 lg:p-8 xl:p-10 space-y-3 tiny:space-y-4">
+        {maxSessions > 0 && (
+          <p className="text-xs xxs:text-sm text-blue-700 dark:text-gray-400">{t('sessions.device_limit', { count: maxSessions })}</p>
+        )}
+
+        {loading ? (
+          <div className="flex justify-center py-4">
+            <Loader className="h-6 w-6 animate-spin text-cyan-500" />
+          </div>
+        ) : (
+          <ul className="space-y-3">
+            {sessions.map(session => {
+              const DeviceIcon = deviceIcons[session.deviceType] || MonitorSmartphone;
+              return (
+                <li key={session._id} className="flex items-center gap-3 rounded-xl border border-blue-200 dark:border-gray-700 bg-white/60 dark:bg-gray-900/40 p-3 xxs:p-4">
+                  <DeviceIcon className="h-6 w-6 flex-shrink-0 text-cyan-600 dark:text-cyan-400" />
+                  <div className="flex-1 min-w-0">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="text-sm xxs:text-base font-semibold text-blue-900 dark:text-white">
+                        {t('sessions.browser_on_os', { browser: session.browser, os: session.os })}
+                      </span>
+                      {session.isCurrent && (
+                        <span className="px-2.5 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-700 dark:bg-green-500/20 dark:text-green-300">
+                          {t('sessions.this_device')}
+                        </span>
+                      )}
+                    </div>
+                    <p className="text-xs xxs:text-sm text-blue-700 dark:text-gray-400">
+                      {session.ipAddress && <>{session.ipAddress}{' · '}</>}
+                      {t('sessions.last_active', { date: formatDate(session.lastSeenAt) })}
+                    </p>
+                  </div>
+                  {!session.isCurrent && (
+                    <button
+                      onClick={() => signOut(session._id)}
+                      disabled={pendingId !== null}
+                      className="inline-flex items-center gap-1 text-xs xxs:text-sm text-red-600 dark:text-red-400 hover:underline disabled:opacity-50"
+                    >
+                      {pendingId === session._id ? <Loader className="h-3.5 w-3.5 animate-spin" /> : <LogOut className="h-3.5 w-3.5" />}
+                      {t('sessions.sign_out')}
+                    </button>
+                  )}
+                </li>
+              );
+            })}
+            {sessions.length === 0 && (
+              <li className="text-xs xxs:text-sm text-blue-700 dark:text-gray-400">{t('sessions.no_sessions')}</li>
+            )}
+          </ul>
+        )}
+
+        {hasOtherSessions && (
+          <button
+            onClick={() => signOut('others')}
+            disabled={pendingId !== null}
+            className="inline-flex items-center gap-2 border-2 border-red-300 dark:border-red-500/40 text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-500/10 px-4 py-2 rounded-xl font-semibold transition-all duration-200 text-xs xxs:text-sm disabled:opacity-50"
+          >
+            {pendingId === 'others' ? <Loader className="h-4 w-4 animate-spin" /> : <LogOut className="h-4 w-4" />}
+            {t('sessions.sign_out_others')}
+          </button>
+        )}
+
+        {error && <p className="text-xs xxs:text-sm text-red-600 dark:text-red-400">{error}</p>}
+      </div>
+    </div>
+  );
+};
+
+export default SessionsCard;
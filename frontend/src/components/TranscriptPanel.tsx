@@ -0,0 +1,281 @@
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Search, X, FileText } from 'lucide-react';
+import { formatDuration } from '../utils/durationFormatter';
+import { getLocalizedText } from '../utils/bilingualHelper';
+import { authFetch, getAccessToken } from '../utils/api';
+
+interface TranscriptCue {
+  start: number;
+  end: number;
+  text: string;
+}
+
+interface TranscriptSearchResult {
+  videoId: string;
+  title: string | { en: string; tg: string };
+  order: number;
+  language: string;
+  totalMatches: number;
+  matches: TranscriptCue[];
+}
+
+interface TranscriptPanelProps {
+  videoId: string;
+  courseId: string;
+  currentTime: number;
+  onSeek: (time: number) => void;
+  onJumpToLesson: (videoId: string, time: number) => void;
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Render text with every occurrence of the query wrapped in <mark>
+ */
+const highlightMatches = (text: string, query: string) => {
+  if (!query) return text;
+  const parts = text.split(new RegExp(`(${escapeRegExp(query)})`, 'gi'));
+  return parts.map((part, index) =>
+    part.toLowerCase() === query.toLowerCase() ? (
+      <mark key={index} className="bg-yellow-400/80 text-gray-900 rounded px-0.5">{part}</mark>
+    ) : (
+      <React.Fragment key={index}>{part}</React.Fragment>
+    )
+  );
+};
+
+const TranscriptPanel: React.FC<TranscriptPanelProps> = ({
+  videoId,
+  courseId,
+  currentTime,
+  onSeek,
+  onJumpToLesson
+}) => {
+  const { t, i18n } = useTranslation();
+  const currentLanguage = (i18n.language || 'en') as 'en' | 'tg';
+  const [language, setLanguage] = useState<string>(currentLanguage);
+  const [shownLanguage, setShownLanguage] = useState<string | null>(null); // may differ when falling back
+  const [cues, setCues] = useState<TranscriptCue[]>([]);
+  const [availableLanguages, setAvailableLanguages] = useState<string[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [query, setQuery] = useState('');
+  const [courseResults, setCourseResults] = useState<TranscriptSearchResult[] | null>(null);
+  const [searchingCourse, setSearchingCourse] = useState(false);
+  const listRef = useRef<HTMLDivElement>(null);
+  const activeCueRef = useRef<HTMLButtonElement>(null);
+
+  useEffect(() => {
+    setLanguage(currentLanguage);
+  }, [currentLanguage]);
+
+  // Load the transcript for the current lesson
+  useEffect(() => {
+    const fetchTranscript = async () => {
+      const token = getAccessToken();
+      if (!token || !videoId) return;
+
+      try {
+        setLoading(true);
+        const response = await authFetch(`/api/videos/${videoId}/transcript?language=${encodeURIComponent(language)}`);
+        if (!response.ok) {
+          throw new Error('Failed to load transcript');
+        }
+        const result = await response.json();
+        setCues(result.data.cues || []);
+        setShownLanguage(result.data.language);
+        setAvailableLanguages(result.data.availableLanguages || []);
+      } catch (error) {
+        console.error('❌ [Transcript] Error loading transcript:', error);
+        setCues([]);
+        setAvailableLanguages([]);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchTranscript();
+  }, [videoId, language]);
+
+  // Course-wide results belong to the query that produced them
+  useEffect(() => {
+    setCourseResults(null);
+  }, [query]);
+
+  const activeIndex = useMemo(() => {
+    for (let i = cues.length - 1; i >= 0; i--) {
+      // Between cues the last spoken line stays highlighted
+      if (cues[i].start <= currentTime) return i;
+    }
+    return -1;
+  }, [cues, currentTime]);
+
+  // Keep the current line in view while the video plays (but not while searching)
+  useEffect(() => {
+    const list = listRef.current;
+    const activeCue = activeCueRef.current;
+    if (!list || !activeCue || query) return;
+
+    const cueTop = activeCue.offsetTop;
+    if (cueTop < list.scrollTop || cueTop + activeCue.offsetHeight > list.scrollTop + list.clientHeight) {
+      list.scrollTo({ top: cueTop - list.clientHeight / 3, behavior: 'smooth' });
+    }
+  }, [activeIndex, query]);
+
+  const trimmedQuery = query.trim();
+  const visibleCues = useMemo(() => {
+    const indexed = cues.map((cue, index) => ({ cue, index }));
+    if (!trimmedQuery) return indexed;
+    const lowerQuery = trimmedQuery.toLowerCase();
+    return indexed.filter(({ cue }) => cue.text.toLowerCase().includes(lowerQuery));
+  }, [cues, trimmedQuery]);
+
+  const searchCourse = async () => {
+    const token = getAccessToken();
+    if (!token || trimmedQuery.length < 2) return;
+
+    try {
+      setSearchingCourse(true);
+      const response = await authFetch(`/api/videos/course/${courseId}/transcripts/search?q=${encodeURIComponent(trimmedQuery)}`);
+      if (!response.ok) {
+        throw new Error('Transcript search failed');
+      }
+      const result = await response.json();
+      setCourseResults(result.data.results || []);
+    } catch (error) {
+      console.error('❌ [Transcript] Course search error:', error);
+      setCourseResults([]);
+    } finally {
+      setSearchingCourse(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col h-full min-h-0">
+      {/* Search */}
+      <div className="p-3 border-b border-gray-700 space-y-2">
+        <div className="relative">
+          <Search className="absolute left-2 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') searchCourse();
+            }}
+            placeholder={t('transcript.search_placeholder')}
+            className="w-full pl-8 pr-8 py-2 text-sm bg-gray-700 text-white border border-gray-600 rounded-lg focus:ring-cyan-500 focus:border-cyan-500 placeholder-gray-400"
+          />
+          {query && (
+            <button
+              onClick={() => setQuery('')}
+              className="absolute right-2 top-1/2 -translate-y-1/2 text-gray-400 hover:text-white"
+              aria-label={t('transcript.clear_search')}
+            >
+              <X className="h-4 w-4" />
+            </button>
+          )}
+        </div>
+        <div className="flex items-center justify-between">
+          {availableLanguages.length > 1 ? (
+            <div className="flex space-x-1">
+              {availableLanguages.map(code => (
+                <button
+                  key={code}
+                  onClick={() => setLanguage(code)}
+                  className={`px-2 py-0.5 text-xs rounded ${
+                    shownLanguage === code ? 'bg-gradient-to-r from-cyan-600 to-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:text-white'
+                  }`}
+                >
+                  {code.toUpperCase()}
+                </button>
+              ))}
+            </div>
+          ) : <span />}
+          {trimmedQuery.length >= 2 && (
+            <button
+              onClick={searchCourse}
+              disabled={searchingCourse}
+              className="text-xs text-cyan-400 hover:text-cyan-300 disabled:opacity-50"
+            >
+              {searchingCourse ? t('transcript.searching') : t('transcript.search_all_lessons')}
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div ref={listRef} className="flex-1 overflow-y-auto relative">
+        {courseResults ? (
+          // Course-wide results
+          <div className="p-3 space-y-3">
+            <div className="flex items-center justify-between">
+              <span className="text-xs text-gray-400">
+                {t('transcript.course_results', { count: courseResults.reduce((sum, r) => sum + r.totalMatches, 0) })}
+              </span>
+              <button
+                onClick={() => setCourseResults(null)}
+                className="text-xs text-cyan-400 hover:text-cyan-300"
+              >
+                {t('transcript.back_to_lesson')}
+              </button>
+            </div>
+            {courseResults.length === 0 ? (
+              <p className="text-sm text-gray-400">{t('transcript.no_matches')}</p>
+            ) : (
+              courseResults.map(result => (
+                <div key={`${result.videoId}-${result.language}`} className="bg-gray-700/50 rounded-lg p-2">
+                  <div className="text-sm font-medium text-white mb-1 line-clamp-2">
+                    {getLocalizedText(result.title, currentLanguage)}
+                  </div>
+                  {result.matches.map((match, index) => (
+                    <button
+                      key={index}
+                      onClick={() => onJumpToLesson(result.videoId, match.start)}
+                      className="flex w-full text-left space-x-2 px-1 py-1 rounded hover:bg-gray-600"
+                    >
+                      <span className="text-xs text-cyan-400 font-mono flex-shrink-0 pt-0.5">{formatDuration(match.start)}</span>
+                      <span className="text-xs text-gray-300">{highlightMatches(match.text, trimmedQuery)}</span>
+                    </button>
+                  ))}
+                </div>
+              ))
+            )}
+          </div>
+        ) : loading ? (
+          <div className="p-4 space-y-2">
+            {Array.from({ length: 6 }).map((_, i) => (
+              <div key={i} className="animate-pulse h-4 bg-gray-700 rounded" />
+            ))}
+          </div>
+        ) : cues.length === 0 ? (
+          <div className="p-6 text-center">
+            <FileText className="h-10 w-10 text-gray-600 mx-auto mb-2" />
+            <p className="text-sm text-gray-400">{t('transcript.not_available')}</p>
+          </div>
+        ) : visibleCues.length === 0 ? (
+          <p className="p-4 text-sm text-gray-400">{t('transcript.no_matches_in_lesson')}</p>
+        ) : (
+          <div className="py-2">
+            {visibleCues.map(({ cue, index }) => (
+              <button
+                key={index}
+                ref={index === activeIndex ? activeCueRef : undefined}
+                onClick={() => onSeek(cue.start)}
+                className={`flex w-full text-left space-x-3 px-3 py-1.5 transition-colors duration-150 ${
+                  index === activeIndex ? 'bg-cyan-500/20 border-l-2 border-cyan-400' : 'hover:bg-gray-700 border-l-2 border-transparent'
+                }`}
+              >
+                <span className="text-xs text-cyan-400 font-mono flex-shrink-0 pt-0.5">{formatDuration(cue.start)}</span>
+                <span className={`text-sm ${index === activeIndex ? 'text-white' : 'text-gray-300'}`}>
+                  {highlightMatches(cue.text, trimmedQuery)}
+                </span>
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TranscriptPanel;
@@ -0,0 +1,237 @@
+import React, { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { ShieldCheck, ShieldAlert, Loader, KeyRound } from 'lucide-react';
+import { authFetch } from '../utils/api';
+import TwoFactorSetup, { RecoveryCodes, TwoFactorSetupData } from './TwoFactorSetup';
+
+interface TwoFactorStatus {
+  enabled: boolean;
+  required: boolean;
+  enabledAt?: string | null;
+  recoveryCodesRemaining: number;
+}
+
+type CodeAction = 'disable' | 'recovery-codes';
+
+const TwoFactorCard: React.FC = () => {
+  const { t } = useTranslation();
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [setup, setSetup] = useState<TwoFactorSetupData | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [codeAction, setCodeAction] = useState<CodeAction | null>(null);
+  const [code, setCode] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const request = async (path: string, options: RequestInit = {}) => {
+    const response = await authFetch(`/api/auth/2fa/${path}`, {
+      ...options,
+      headers: { 'Content-Type': 'application/json' }
+    });
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.message || t('two_factor.request_failed'));
+    }
+    return data.data;
+  };
+
+  useEffect(() => {
+    const fetchStatus = async () => {
+      try {
+        const response = await authFetch('/api/auth/2fa/status');
+        if (!response.ok) {
+          throw new Error(t('two_factor.load_failed'));
+        }
+        const data = await response.json();
+        setStatus(data.data);
+      } catch (error) {
+        console.error('❌ [2FA] Error fetching status:', error);
+        setError(error instanceof Error ? error.message : t('two_factor.load_failed'));
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchStatus();
+  }, [t]);
+
+  const startSetup = async () => {
+    try {
+      setIsSubmitting(true);
+      setError(null);
+      setRecoveryCodes(null);
+      setSetup(await request('setup', { method: 'POST' }));
+    } catch (error) {
+      console.error('❌ [2FA] Error starting setup:', error);
+      setError(error instanceof Error ? error.message : t('two_factor.request_failed'));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const confirmSetup = async (setupCode: string) => {
+    try {
+      setIsSubmitting(true);
+      setError(null);
+      const data = await request('enable', { method: 'POST', body: JSON.stringify({ code: setupCode }) });
+      setStatus(data.status);
+      setRecoveryCodes(data.recoveryCodes);
+      setSetup(null);
+    } catch (error) {
+      console.error('❌ [2FA] Error enabling two-factor:', error);
+      setError(error instanceof Error ? error.message : t('two_factor.request_failed'));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const submitCodeAction = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!codeAction || !code.trim()) return;
+
+    try {
+      setIsSubmitting(true);
+      setError(null);
+      const data = await request(codeAction, { method: 'POST', body: JSON.stringify({ code: code.trim() }) });
+      setStatus(data.status);
+      setRecoveryCodes(data.recoveryCodes || null);
+      setCodeAction(null);
+      setCode('');
+    } catch (error) {
+      console.error(`❌ [2FA] Error with ${codeAction}:`, error);
+      setError(error instanceof Error ? error.message : t('two_factor.request_failed'));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const openCodeAction = (action: CodeAction) => {
+    setCodeAction(action);
+    setCode('');
+    setError(null);
+    setRecoveryCodes(null);
+  };
+
+  return (
+    <div className="bg-gradient-to-br from-blue-50 via-cyan-50 to-purple-50 dark:from-gray-800 dark:via-gray-800/95 dark:to-gray-900 rounded-2xl tiny:rounded-3xl shadow-2xl border border-blue-200 dark:border-gray-700/50 hover:border-cyan-500/30 transition-all duration-300 overflow-hidden">
+      <div className="bg-gradient-to-r from-cyan-500/10 via-blue-500/10 to-purple-500/10 px-3 tiny:px-4 xxs:px-5 sm:px-6 lg:px-8 xl:px-10 py-3 tiny:py-4 xxs:py-5 sm:py-6 md:py-7 border-b border-blue-200 dark:border-gray-700/50">
+        <h3 className="text-base tiny:text-lg xxs:text-xl sm:text-2xl md:text-3xl font-bold text-blue-900 dark:text-white flex items-center space-x-2 tiny:space-x-3 xxs:space-x-4 mb-1.5 tiny:mb-2">
+          <div className="p-1.5 tiny:p-2 xxs:p-2.5 sm:p-3 bg-gradient-to-br from-green-500 to-cyan-500 rounded-xl tiny:rounded-2xl shadow-lg flex-shrink-0">
+            <ShieldCheck className="h-4 w-4 tiny:h-5 tiny:w-5 xxs:h-6 xxs:w-6 sm:h-7 sm:w-7 text-white" />
+          </div>
+          <span className="break-words">{t('two_factor.title')}</span>
+        </h3>
+        <p className="text-blue-700 dark:text-gray-400 text-[10px] tiny:text-xs xxs:text-sm sm:text-base md:text-lg ml-10 tiny:ml-12 xxs:ml-14 sm:ml-16 md:ml-18">{t('two_factor.description')}</p>
+      </div>
+
+      <div className="p-3 tiny:p-4 xxs:p-5 sm:p-6 lg:p-8 xl:p-10 space-y-4">
+        {loading ? (
+          <div className="flex justify-center py-4">
+            <Loader className="h-6 w-6 animate-spin text-cyan-500" />
+          </div>
+        ) : status && (
+          <>
+            <div className="flex flex-wrap items-center gap-2">
+              {status.enabled ? (
+                <span className="inline-flex items-center gap-1.5 px-2.5 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-700 dark:bg-green-500/20 dark:text-green-300">
+                  <ShieldCheck className="h-3.5 w-3.5" />
+                  {t('two_factor.status_enabled')}
+                </span>
+              ) : (
+                <span className="inline-flex items-center gap-1.5 px-2.5 py-0.5 rounded-full text-xs font-medium bg-orange-100 text-orange-700 dark:bg-orange-500/20 dark:text-orange-300">
+                  <ShieldAlert className="h-3.5 w-3.5" />
+                  {t('two_factor.status_disabled')}
+                </span>
+              )}
+              {status.enabled && (
+                <span className="text-xs xxs:text-sm text-blue-700 dark:text-gray-400">
+                  {t('two_factor.recovery_codes_remaining', { count: status.recoveryCodesRemaining })}
+                </span>
+              )}
+            </div>
+
+            {status.required && (
+              <p className="text-xs xxs:text-sm text-blue-700 dark:text-gray-400">{t('two_factor.required_for_admins')}</p>
+            )}
+
+            {recoveryCodes && <RecoveryCodes codes={recoveryCodes} />}
+
+            {!status.enabled && (setup ? (
+              <TwoFactorSetup setup={setup} onConfirm={confirmSetup} isSubmitting={isSubmitting} error={error} />
+            ) : (
+              <button
+                onClick={startSetup}
+                disabled={isSubmitting}
+                className="inline-flex items-center gap-2 bg-gradient-to-r from-cyan-600 to-blue-600 hover:from-cyan-500 hover:to-blue-500 text-white font-semibold py-2.5 px-5 rounded-xl transition-all duration-200 shadow-lg disabled:opacity-50 text-sm"
+              >
+                {isSubmitting ? <Loader className="h-4 w-4 animate-spin" /> : <ShieldCheck className="h-4 w-4" />}
+                {t('two_factor.set_up')}
+              </button>
+            ))}
+
+            {status.enabled && (codeAction ? (
+              <form onSubmit={submitCodeAction} className="space-y-3">
+                <label htmlFor="two-factor-code" className="block text-sm font-medium text-gray-900 dark:text-white">
+                  {codeAction === 'disable' ? t('two_factor.confirm_disable') : t('two_factor.confirm_regenerate')}
+                </label>
+                <input
+                  id="two-factor-code"
+                  type="text"
+                  autoComplete="one-time-code"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  placeholder={t('two_factor.code_placeholder')}
+                  className="w-full px-4 py-2.5 font-mono bg-white dark:bg-gray-800 text-gray-900 dark:text-white border border-gray-300 dark:border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                  autoFocus
+                />
+                <div className="flex flex-wrap gap-3">
+                  <button
+                    type="submit"
+                    disabled={isSubmitting || !code.trim()}
+                    className={`inline-flex items-center gap-2 text-white font-semibold py-2 px-4 rounded-xl transition-all duration-200 disabled:opacity-50 text-sm ${
+                      codeAction === 'disable' ? 'bg-red-600 hover:bg-red-500' : 'bg-cyan-600 hover:bg-cyan-500'
+                    }`}
+                  >
+                    {isSubmitting && <Loader className="h-4 w-4 animate-spin" />}
+                    {codeAction === 'disable' ? t('two_factor.disable') : t('two_factor.regenerate_codes')}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setCodeAction(null)}
+                    className="py-2 px-4 rounded-xl border border-blue-300 dark:border-gray-600 text-blue-700 dark:text-gray-300 text-sm"
+                  >
+                    {t('profile.cancel')}
+                  </button>
+                </div>
+              </form>
+            ) : (
+              <div className="flex flex-wrap gap-3">
+                <button
+                  onClick={() => openCodeAction('recovery-codes')}
+                  className="inline-flex items-center gap-1.5 text-sm text-cyan-700 dark:text-cyan-400 hover:underline"
+                >
+                  <KeyRound className="h-4 w-4" />
+                  {t('two_factor.regenerate_codes')}
+                </button>
+                {!status.required && (
+                  <button
+                    onClick={() => openCodeAction('disable')}
+                    className="inline-flex items-center gap-1.5 text-sm text-red-600 dark:text-red-400 hover:underline"
+                  >
+                    <ShieldAlert className="h-4 w-4" />
+                    {t('two_factor.disable')}
+                  </button>
+                )}
+              </div>
+            ))}
+          </>
+        )}
+
+        {error && !setup && <p className="text-xs xxs:text-sm text-red-600 dark:text-red-400">{error}</p>}
+      </div>
+    </div>
+  );
+};
+
+export default TwoFactorCard;
@@ -0,0 +1,199 @@
+import React, { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { ShieldCheck, Loader, ArrowLeft } from 'lucide-react';
+import { buildApiUrl } from '../config/environment';
+import TwoFactorSetup, { RecoveryCodes, TwoFactorSetupData } from './TwoFactorSetup';
+
+interface TwoFactorLoginStepProps {
+  twoFactorToken: string;
+  setupRequired: boolean;
+  onComplete: (token: string) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Second login step: enter an authenticator/recovery code, or enroll first when the account requires 2FA
+ */
+const TwoFactorLoginStep: React.FC<TwoFactorLoginStepProps> = ({ twoFactorToken, setupRequired, onComplete, onCancel }) => {
+  const { t } = useTranslation();
+  const [code, setCode] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [setup, setSetup] = useState<TwoFactorSetupData | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [sessionToken, setSessionToken] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const post = async (path: string, body: Record<string, string>) => {
+    const response = await fetch(buildApiUrl(`/api/auth/2fa/login/${path}`), {
+      method: 'POST',
+      credentials: 'include', // Receives the refresh token cookie
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ twoFactorToken, ...body })
+    });
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.message || t('two_factor.request_failed'));
+    }
+    return data.data;
+  };
+
+  useEffect(() => {
+    if (!setupRequired) return;
+
+    const startSetup = async () => {
+      try {
+        setIsSubmitting(true);
+        const response = await fetch(buildApiUrl('/api/auth/2fa/login/setup'), {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ twoFactorToken })
+        });
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.message || t('two_factor.request_failed'));
+        }
+        setSetup(data.data);
+      } catch (error) {
+        console.error('❌ [2FA] Error starting login setup:', error);
+        setError(error instanceof Error ? error.message : t('two_factor.request_failed'));
+      } finally {
+        setIsSubmitting(false);
+      }
+    };
+
+    startSetup();
+  }, [setupRequired, twoFactorToken, t]);
+
+  const confirmSetup = async (setupCode: string) => {
+    try {
+      setIsSubmitting(true);
+      setError(null);
+      const data = await post('enable', { code: setupCode });
+      // Show the recovery codes before entering the app
+      setRecoveryCodes(data.recoveryCodes);
+      setSessionToken(data.token);
+    } catch (error) {
+      console.error('❌ [2FA] Error enabling two-factor at login:', error);
+      setError(error instanceof Error ? error.message : t('two_factor.request_failed'));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleVerify = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!code.trim()) return;
+
+    try {
+      setIsSubmitting(true);
+      setError(null);
+      const data = await post('verify', { code: code.trim() });
+      onComplete(data.token);
+    } catch (error) {
+      console.error('❌ [2FA] Error verifying login code:', error);
+      setError(error instanceof Error ? error.message : t('two_factor.request_failed'));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const renderBody = () => {
+    if (recoveryCodes && sessionToken) {
+      return (
+        <div className="space-y-6">
+          <RecoveryCodes codes={recoveryCodes} />
+          <button
+            onClick={() => onComplete(sessionToken)}
+            className="w-full bg-gradient-to-r from-cyan-600 to-blue-600 hover:from-cyan-500 hover:to-blue-500 text-white font-semibold py-3 px-6 rounded-lg transition-all duration-200 shadow-lg"
+          >
+            {t('two_factor.saved_continue')}
+          </button>
+        </div>
+      );
+    }
+
+    if (setupRequired) {
+      return setup ? (
+        <TwoFactorSetup setup={setup} onConfirm={confirmSetup} isSubmitting={isSubmitting} error={error} />
+      ) : (
+        <div className="flex justify-center py-4">
+          {error ? <p className="text-sm text-red-600 dark:text-red-400">{error}</p> : <Loader className="h-6 w-6 animate-spin text-cyan-500" />}
+        </div>
+      );
+    }
+
+    return (
+      <form onSubmit={handleVerify} className="space-y-4">
+        <label htmlFor="two-factor-login-code" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+          {useRecoveryCode ? t('two_factor.recovery_code_label') : t('two_factor.code_label')}
+        </label>
+        <input
+          id="two-factor-login-code"
+          type="text"
+          inputMode={useRecoveryCode ? 'text' : 'numeric'}
+          autoComplete="one-time-code"
+          value={code}
+          onChange={(e) => setCode(useRecoveryCode ? e.target.value.toUpperCase() : e.target.value.replace(/[^\d]/g, '').slice(0, 6))}
+          placeholder={useRecoveryCode ? 'XXXX-XXXX' : '000000'}
+          className="w-full px-4 py-3 text-center text-lg font-mono tracking-widest bg-white dark:bg-gray-900/80 text-gray-900 dark:text-white border border-gray-300 dark:border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-cyan-500"
+          autoFocus
+        />
+        {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+        <button
+          type="submit"
+          disabled={isSubmitting || !code.trim()}
+          className="w-full flex items-center justify-center gap-2 bg-gradient-to-r from-cyan-600 to-blue-600 hover:from-cyan-500 hover:to-blue-500 text-white font-semibold py-3 px-6 rounded-lg transition-all duration-200 shadow-lg disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isSubmitting ? <Loader className="h-5 w-5 animate-spin" /> : <ShieldCheck className="h-5 w-5" />}
+          <span>{t('two_factor.verify')}</span>
+        </button>
+        <button
+          type="button"
+          onClick={() => {
+            setUseRecoveryCode(!useRecoveryCode);
+            setCode('');
+            setError(null);
+          }}
+          className="w-full text-sm text-cyan-700 dark:text-cyan-400 hover:underline"
+        >
+          {useRecoveryCode ? t('two_factor.use_authenticator') : t('two_factor.use_recovery_code')}
+        </button>
+      </form>
+    );
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 dark:bg-gray-900 pt-24 pb-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8">
+        <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-2xl border border-gray-200 dark:border-gray-700 p-8">
+          <div className="text-center mb-8">
+            <div className="mx-auto flex items-center justify-center h-12 w-12 rounded-full bg-gradient-to-br from-cyan-500/20 to-blue-500/20 border border-cyan-500/30 mb-4">
+              <ShieldCheck className="h-6 w-6 text-cyan-500" />
+            </div>
+            <h2 className="text-3xl font-bold bg-gradient-to-r from-cyan-400 via-blue-500 to-purple-500 bg-clip-text text-transparent">
+              {setupRequired ? t('two_factor.setup_required_title') : t('two_factor.login_title')}
+            </h2>
+            <p className="mt-2 text-gray-600 dark:text-gray-300">
+              {setupRequired ? t('two_factor.setup_required_description') : t('two_factor.login_description')}
+            </p>
+          </div>
+
+          {renderBody()}
+
+          {!sessionToken && (
+            <button
+              onClick={onCancel}
+              className="mt-6 inline-flex items-center gap-1.5 text-sm text-gray-600 dark:text-gray-400 hover:text-cyan-600"
+            >
+              <ArrowLeft className="h-4 w-4" />
+              {t('two_factor.back_to_login')}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TwoFactorLoginStep;
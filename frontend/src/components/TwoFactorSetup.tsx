@@ -0,0 +1,128 @@
+import React, { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Copy, Download, Loader, ShieldCheck } from 'lucide-react';
+
+export interface TwoFactorSetupData {
+  qrCode: string;
+  secret: string;
+}
+
+interface TwoFactorSetupProps {
+  setup: TwoFactorSetupData;
+  onConfirm: (code: string) => void;
+  isSubmitting: boolean;
+  error?: string | null;
+}
+
+const codeInputClassName = 'w-full px-4 py-3 text-center text-lg font-mono tracking-[0.4em] bg-white dark:bg-gray-800 text-gray-900 dark:text-white border border-gray-300 dark:border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-cyan-500';
+
+/**
+ * Scan-the-QR-code step followed by confirming the first code from the authenticator app
+ */
+const TwoFactorSetup: React.FC<TwoFactorSetupProps> = ({ setup, onConfirm, isSubmitting, error }) => {
+  const { t } = useTranslation();
+  const [code, setCode] = useState('');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (code.trim()) {
+      onConfirm(code.trim());
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <ol className="list-decimal list-inside space-y-1 text-sm text-gray-700 dark:text-gray-300">
+        <li>{t('two_factor.setup_step_install')}</li>
+        <li>{t('two_factor.setup_step_scan')}</li>
+        <li>{t('two_factor.setup_step_confirm')}</li>
+      </ol>
+      <div className="flex justify-center">
+        <img src={setup.qrCode} alt={t('two_factor.qr_alt')} className="w-48 h-48 rounded-lg bg-white p-2 border border-gray-200" />
+      </div>
+      <div className="text-center space-y-1">
+        <p className="text-xs text-gray-600 dark:text-gray-400">{t('two_factor.manual_key')}</p>
+        <code className="block px-2 py-1 rounded bg-gray-100 dark:bg-gray-800 text-xs font-mono break-all text-gray-900 dark:text-white">{setup.secret}</code>
+      </div>
+      <input
+        type="text"
+        inputMode="numeric"
+        autoComplete="one-time-code"
+        value={code}
+        onChange={(e) => setCode(e.target.value.replace(/[^\d]/g, '').slice(0, 6))}
+        placeholder="000000"
+        className={codeInputClassName}
+        aria-label={t('two_factor.code_label')}
+        autoFocus
+      />
+      {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+      <button
+        type="submit"
+        disabled={isSubmitting || code.length !== 6}
+        className="w-full flex items-center justify-center gap-2 bg-gradient-to-r from-cyan-600 to-blue-600 hover:from-cyan-500 hover:to-blue-500 text-white font-semibold py-3 px-6 rounded-lg transition-all duration-200 shadow-lg disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {isSubmitting ? <Loader className="h-5 w-5 animate-spin" /> : <ShieldCheck className="h-5 w-5" />}
+        <span>{t('two_factor.enable')}</span>
+      </button>
+    </form>
+  );
+};
+
+/**
+ * One-time display of fresh recovery codes with copy and download
+ */
+export const RecoveryCodes: React.FC<{ codes: string[] }> = ({ codes }) => {
+  const { t } = useTranslation();
+  const [copied, setCopied] = useState(false);
+
+  const copyCodes = async () => {
+    try {
+      await navigator.clipboard.writeText(codes.join('\n'));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error('❌ [2FA] Error copying recovery codes:', error);
+    }
+  };
+
+  const downloadCodes = () => {
+    const blob = new Blob([`${codes.join('\n')}\n`], { type: 'text/plain' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'recovery-codes.txt';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-orange-700 dark:text-orange-300">{t('two_factor.recovery_codes_warning')}</p>
+      <ul className="grid grid-cols-2 gap-2 p-3 rounded-lg bg-gray-100 dark:bg-gray-800">
+        {codes.map(code => (
+          <li key={code} className="font-mono text-sm text-center text-gray-900 dark:text-white">{code}</li>
+        ))}
+      </ul>
+      <div className="flex flex-wrap gap-3">
+        <button
+          type="button"
+          onClick={copyCodes}
+          className="inline-flex items-center gap-1.5 text-sm text-cyan-700 dark:text-cyan-400 hover:underline"
+        >
+          <Copy className="h-4 w-4" />
+          {copied ? t('two_factor.copied') : t('two_factor.copy_codes')}
+        </button>
+        <button
+          type="button"
+          onClick={downloadCodes}
+          className="inline-flex items-center gap-1.5 text-sm text-cyan-700 dark:text-cyan-400 hover:underline"
+        >
+          <Download className="h-4 w-4" />
+          {t('two_factor.download_codes')}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default TwoFactorSetup;
@@ -0,0 +1,314 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { X, Loader, CreditCard, RotateCcw, AlertTriangle } from 'lucide-react';
+import { buildApiUrl } from '../config/environment';
+import { formatPrice } from '../utils/currency';
+import { useAdminAuth } from '../contexts/AdminAuthContext';
+import { ADMIN_PERMISSIONS } from '../config/adminPermissions';
+
+interface PaymentRefund {
+  _id: string;
+  stripeRefundId?: string;
+  amount: number;
+  reason?: string;
+  refundedBy?: string;
+  createdAt: string;
+}
+
+interface UserPayment {
+  _id: string;
+  itemType: 'course' | 'bundle';
+  itemTitle: string;
+  amount: number;
+  currency: string;
+  status: 'pending' | 'completed' | 'failed' | 'cancelled' | 'refunded' | 'partially_refunded' | 'disputed';
+  paymentMethod: string;
+  refundedAmount: number;
+  refunds: PaymentRefund[];
+  dispute: { stripeDisputeId: string; reason?: string; status?: string; openedAt?: string; closedAt?: string } | null;
+  coupon: { code: string; discountAmount: number } | null;
+  isGift: boolean;
+  accessRevokedAt?: string | null;
+  createdAt: string;
+}
+
+interface UserPaymentsModalProps {
+  user: { _id: string; name: string; email: string };
+  onClose: () => void;
+  onToast: (toast: { message: string; type: 'success' | 'error' }) => void;
+  onRefunded?: () => void;
+}
+
+const statusStyles: Record<UserPayment['status'], string> = {
+  pending: 'bg-yellow-500/20 text-yellow-300',
+  completed: 'bg-green-500/20 text-green-300',
+  failed: 'bg-red-500/20 text-red-300',
+  cancelled: 'bg-gray-500/20 text-gray-300',
+  refunded: 'bg-purple-500/20 text-purple-300',
+  partially_refunded: 'bg-blue-500/20 text-blue-300',
+  disputed: 'bg-orange-500/20 text-orange-300'
+};
+
+const UserPaymentsModal: React.FC<UserPaymentsModalProps> = ({ user, onClose, onToast, onRefunded }) => {
+  const [payments, setPayments] = useState<UserPayment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refundingId, setRefundingId] = useState<string | null>(null);
+  const [refundAmount, setRefundAmount] = useState('');
+  const [refundReason, setRefundReason] = useState('');
+  const [revokeCertificates, setRevokeCertificates] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { hasPermission } = useAdminAuth();
+  const mayRefund = hasPermission(ADMIN_PERMISSIONS.PAYMENTS_REFUND);
+
+  const fetchPayments = useCallback(async () => {
+    try {
+      setLoading(true);
+      const adminToken = localStorage.getItem('adminToken');
+      if (!adminToken) {
+        throw new Error('Admin token not found');
+      }
+
+      const response = await fetch(buildApiUrl(`/api/payment/admin/users/${user._id}/payments`), {
+        headers: {
+          'Authorization': `Bearer ${adminToken}`,
+          'Content-Type': 'application/json',
+        },
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch payments');
+      }
+
+      const data = await response.json();
+      setPayments(data.data?.payments || []);
+    } catch (err) {
+      onToast({
+        message: err instanceof Error ? err.message : 'Failed to fetch payments',
+        type: 'error'
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [user._id, onToast]);
+
+  useEffect(() => {
+    fetchPayments();
+  }, [fetchPayments]);
+
+  const openRefundForm = (payment: UserPayment) => {
+    setRefundingId(payment._id);
+    setRefundAmount((payment.amount - payment.refundedAmount).toFixed(2));
+    setRefundReason('');
+    setRevokeCertificates(false);
+  };
+
+  const handleRefund = async (payment: UserPayment) => {
+    const remaining = payment.amount - payment.refundedAmount;
+    const isFull = Number(refundAmount) >= remaining;
+    const consequence = payment.isGift
+      ? `The gift code for "${payment.itemTitle}" will stop working.`
+      : `${user.name} will lose access to "${payment.itemTitle}".`;
+    if (isFull && !window.confirm(`Refund the full remaining ${formatPrice(remaining, payment.currency)}? ${consequence}`)) {
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      const adminToken = localStorage.getItem('adminToken');
+      if (!adminToken) {
+        throw new Error('Admin token not found');
+      }
+
+      const response = await fetch(buildApiUrl(`/api/payment/admin/${payment._id}/refund`), {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${adminToken}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ amount: refundAmount, reason: refundReason, revokeCertificates })
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to refund payment');
+      }
+
+      onToast({ message: data.message || 'Payment refunded', type: 'success' });
+      setRefundingId(null);
+      await fetchPayments();
+      onRefunded?.();
+    } catch (err) {
+      onToast({
+        message: err instanceof Error ? err.message : 'Failed to refund payment',
+        type: 'error'
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-gray-800 rounded-xl shadow-2xl max-w-4xl w-full max-h-[90vh] overflow-hidden flex flex-col">
+        {/* Modal Header */}
+        <div className="bg-gradient-to-r from-gray-800 to-gray-900 px-6 py-4 border-b border-gray-700 flex items-center justify-between">
+          <div>
+            <h2 className="text-xl font-bold text-white">Payments & Refunds</h2>
+            <p className="text-sm text-gray-400 mt-1">
+              {user.name} ({user.email})
+            </p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-white transition-colors">
+            <X className="h-6 w-6" />
+          </button>
+        </div>
+
+        {/* Modal Content */}
+        <div className="flex-1 overflow-y-auto p-6">
+          {loading ? (
+            <div className="flex items-center justify-center py-12">
+              <Loader className="h-8 w-8 animate-spin text-cyan-500" />
+            </div>
+          ) : payments.length === 0 ? (
+            <div className="text-center py-12">
+              <CreditCard className="h-12 w-12 text-gray-600 mx-auto mb-4" />
+              <p className="text-gray-400">No payments found</p>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {payments.map((payment) => {
+                const remaining = payment.amount - payment.refundedAmount;
+                const canRefund = mayRefund && (payment.status === 'completed' || payment.status === 'partially_refunded') && remaining > 0;
+                return (
+                  <div key={payment._id} className="bg-gray-700 rounded-lg p-4 border border-gray-600">
+                    <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-3">
+                      <div className="flex-1 min-w-0">
+                        <div className="flex flex-wrap items-center gap-2">
+                          <h3 className="text-white font-medium truncate">{payment.itemTitle}</h3>
+                          <span className="text-xs text-gray-400 capitalize">{payment.itemType}</span>
+                          {payment.isGift && (
+                            <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-cyan-500/20 text-cyan-300">gift</span>
+                          )}
+                          <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${statusStyles[payment.status]}`}>
+                            {payment.status.replace('_', ' ')}
+                          </span>
+                        </div>
+                        <div className="flex flex-wrap gap-x-4 gap-y-1 mt-2 text-xs text-gray-400">
+                          <span>{formatPrice(payment.amount, payment.currency)} {payment.currency.toUpperCase()}</span>
+                          <span>{new Date(payment.createdAt).toLocaleDateString()}</span>
+                          <span>{payment.paymentMethod}</span>
+                          {payment.coupon && <span>Promo {payment.coupon.code} (-{formatPrice(payment.coupon.discountAmount, payment.currency)})</span>}
+                          {payment.refundedAmount > 0 && (
+                            <span className="text-purple-300">Refunded {formatPrice(payment.refundedAmount, payment.currency)}</span>
+                          )}
+                          {payment.accessRevokedAt && (
+                            <span className="text-red-300">Access removed {new Date(payment.accessRevokedAt).toLocaleDateString()}</span>
+                          )}
+                        </div>
+                        {payment.dispute && (
+                          <p className="flex items-center mt-2 text-xs text-orange-300">
+                            <AlertTriangle className="h-3 w-3 mr-1" />
+                            Dispute {payment.dispute.status?.replace(/_/g, ' ')}{payment.dispute.reason ? ` · ${payment.dispute.reason.replace(/_/g, ' ')}` : ''}
+                          </p>
+                        )}
+                        {payment.refunds.length > 0 && (
+                          <ul className="mt-2 space-y-0.5 text-xs text-gray-500">
+                            {payment.refunds.map(refund => (
+                              <li key={refund._id}>
+                                -{formatPrice(refund.amount, payment.currency)} on {new Date(refund.createdAt).toLocaleDateString()}
+                                {refund.refundedBy ? ` by ${refund.refundedBy}` : ''}
+                                {refund.reason ? ` — ${refund.reason}` : ''}
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </div>
+                      {canRefund && refundingId !== payment._id && (
+                        <button
+                          onClick={() => openRefundForm(payment)}
+                          className="px-4 py-2 bg-purple-600 hover:bg-purple-700 text-white rounded-lg text-sm font-medium transition-colors flex items-center space-x-2 self-start"
+                        >
+                          <RotateCcw className="h-4 w-4" />
+                          <span>Refund</span>
+                        </button>
+                      )}
+                    </div>
+
+                    {refundingId === payment._id && (
+                      <div className="mt-4 pt-4 border-t border-gray-600 grid grid-cols-1 sm:grid-cols-[8rem_1fr_auto] gap-2 items-end">
+                        <div>
+                          <label className="block text-xs text-gray-400 mb-1">Amount ({payment.currency.toUpperCase()})</label>
+                          <input
+                            type="number"
+                            min="0.01"
+                            max={remaining.toFixed(2)}
+                            step="0.01"
+                            value={refundAmount}
+                            onChange={(e) => setRefundAmount(e.target.value)}
+                            className="w-full px-3 py-2 bg-gray-800 border border-gray-600 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                          />
+                        </div>
+                        <div>
+                          <label className="block text-xs text-gray-400 mb-1">Reason (internal)</label>
+                          <input
+                            type="text"
+                            value={refundReason}
+                            onChange={(e) => setRefundReason(e.target.value)}
+                            placeholder="e.g., Requested within 14 days"
+                            className="w-full px-3 py-2 bg-gray-800 border border-gray-600 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                          />
+                        </div>
+                        <div className="flex space-x-2">
+                          <button
+                            onClick={() => setRefundingId(null)}
+                            className="px-3 py-2 text-sm text-gray-300 hover:text-white"
+                          >
+                            Cancel
+                          </button>
+                          <button
+                            onClick={() => handleRefund(payment)}
+                            disabled={isSubmitting || !(Number(refundAmount) > 0)}
+                            className="px-4 py-2 bg-purple-600 hover:bg-purple-700 text-white rounded-lg text-sm font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center space-x-2"
+                          >
+                            {isSubmitting ? <Loader className="h-4 w-4 animate-spin" /> : <RotateCcw className="h-4 w-4" />}
+                            <span>{isSubmitting ? 'Refunding...' : 'Confirm Refund'}</span>
+                          </button>
+                        </div>
+                        <label className="sm:col-span-3 flex items-center space-x-2 text-xs text-gray-300">
+                          <input
+                            type="checkbox"
+                            checked={revokeCertificates}
+                            onChange={(e) => setRevokeCertificates(e.target.checked)}
+                            className="rounded border-gray-600 bg-gray-800 text-purple-600 focus:ring-purple-500"
+                          />
+                          <span>On a full refund, also revoke certificates for the courses that lose access</span>
+                        </label>
+                        <p className="sm:col-span-3 text-xs text-gray-500">
+                          {payment.isGift
+                            ? `A full refund cancels the gift code, and removes the ${payment.itemType} from the recipient if it was already redeemed.`
+                            : <>A full refund removes access to the {payment.itemType}
+                              {payment.itemType === 'bundle' ? ' and its courses (except courses the student owns another way)' : ''}.</>}
+                        </p>
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+
+        {/* Modal Footer */}
+        <div className="bg-gray-900 px-6 py-4 border-t border-gray-700 flex justify-end">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded-lg text-sm font-medium transition-colors"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default UserPaymentsModal;
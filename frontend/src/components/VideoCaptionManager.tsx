@@ -0,0 +1,179 @@
+import React, { useState } from 'react';
+import { Upload, Trash2, Captions } from 'lucide-react';
+import { buildApiUrl } from '../config/environment';
+
+export interface VideoCaption {
+  language: 'en' | 'tg';
+  label?: string;
+  originalName?: string;
+  uploadedAt?: string;
+}
+
+interface VideoCaptionManagerProps {
+  videoId: string;
+  captions: VideoCaption[];
+  onCaptionsChange: (captions: VideoCaption[]) => void;
+  onError: (message: string) => void;
+  onSuccess: (message: string) => void;
+}
+
+const CAPTION_LANGUAGES: Array<{ code: 'en' | 'tg'; name: string }> = [
+  { code: 'en', name: 'English' },
+  { code: 'tg', name: 'Tigrinya' }
+];
+
+/**
+ * Admin panel for uploading/removing the per-language caption files of a video.
+ * Accepts WebVTT or SRT; the server converts SRT to WebVTT.
+ */
+const VideoCaptionManager: React.FC<VideoCaptionManagerProps> = ({
+  videoId,
+  captions,
+  onCaptionsChange,
+  onError,
+  onSuccess
+}) => {
+  const [busyLanguage, setBusyLanguage] = useState<string | null>(null);
+
+  const uploadCaption = async (language: 'en' | 'tg', file: File) => {
+    try {
+      setBusyLanguage(language);
+      const adminToken = localStorage.getItem('adminToken');
+      if (!adminToken) {
+        throw new Error('Admin token not found');
+      }
+
+      const formData = new FormData();
+      formData.append('language', language);
+      formData.append('caption', file);
+
+      const response = await fetch(buildApiUrl(`/api/videos/${videoId}/captions`), {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${adminToken}`,
+        },
+        body: formData,
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.message || 'Failed to upload captions');
+      }
+
+      onCaptionsChange(result.data.captions);
+      onSuccess(result.message || 'Captions uploaded successfully');
+    } catch (error) {
+      console.error('Upload captions error:', error);
+      onError(error instanceof Error ? error.message : 'Failed to upload captions');
+    } finally {
+      setBusyLanguage(null);
+    }
+  };
+
+  const deleteCaption = async (language: 'en' | 'tg') => {
+    if (!window.confirm('Remove these captions?')) {
+      return;
+    }
+
+    try {
+      setBusyLanguage(language);
+      const adminToken = localStorage.getItem('adminToken');
+      if (!adminToken) {
+        throw new Error('Admin token not found');
+      }
+
+      const response = await fetch(buildApiUrl(`/api/videos/${videoId}/captions/${language}`), {
+        method: 'DELETE',
+        headers: {
+          'Authorization': `Bearer ${adminToken}`,
+        },
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.message || 'Failed to remove captions');
+      }
+
+      onCaptionsChange(result.data.captions);
+      onSuccess(result.message || 'Captions removed successfully');
+    } catch (error) {
+      console.error('Delete captions error:', error);
+      onError(error instanceof Error ? error.message : 'Failed to remove captions');
+    } finally {
+      setBusyLanguage(null);
+    }
+  };
+
+  return (
+    <div className="mt-2 p-3 sm:p-4 bg-gray-800 border border-gray-600 rounded-lg">
+      <div className="flex items-center space-x-2 mb-3">
+        <Captions className="h-4 w-4 text-cyan-400" />
+        <h4 className="text-sm font-medium text-white">Captions</h4>
+        <span className="text-xs text-gray-400">WebVTT (.vtt) or SRT (.srt), max 2MB</span>
+      </div>
+      <div className="space-y-2">
+        {CAPTION_LANGUAGES.map(({ code, name }) => {
+          const caption = captions.find(c => c.language === code);
+          const isBusy = busyLanguage === code;
+
+          return (
+            <div
+              key={code}
+              className="flex flex-col sm:flex-row sm:items-center sm:justify-between p-2 bg-gray-700/50 rounded space-y-2 sm:space-y-0"
+            >
+              <div className="min-w-0">
+                <p className="text-sm text-white">{name}</p>
+                <p className="text-xs text-gray-400 truncate">
+                  {caption
+                    ? `${caption.originalName || `${code}.vtt`}${caption.uploadedAt ? ` · ${new Date(caption.uploadedAt).toLocaleDateString()}` : ''}`
+                    : 'No captions uploaded'}
+                </p>
+              </div>
+              <div className="flex items-center space-x-2">
+                <label
+                  className={`inline-flex items-center px-2 py-1 text-xs rounded border transition-colors duration-200 ${
+                    isBusy
+                      ? 'opacity-50 cursor-not-allowed border-gray-600 text-gray-400'
+                      : 'cursor-pointer bg-cyan-500/20 text-cyan-400 hover:bg-cyan-500/30 border-cyan-500/30'
+                  }`}
+                >
+                  {isBusy ? (
+                    <div className="h-3 w-3 mr-1 animate-spin rounded-full border-2 border-current border-t-transparent" />
+                  ) : (
+                    <Upload className="h-3 w-3 mr-1" />
+                  )}
+                  {caption ? 'Replace' : 'Upload'}
+                  <input
+                    type="file"
+                    accept=".vtt,.srt,text/vtt"
+                    className="hidden"
+                    disabled={isBusy}
+                    onChange={(e) => {
+                      const file = e.target.files?.[0];
+                      e.target.value = '';
+                      if (file) {
+                        uploadCaption(code, file);
+                      }
+                    }}
+                  />
+                </label>
+                {caption && (
+                  <button
+                    onClick={() => deleteCaption(code)}
+                    disabled={isBusy}
+                    className="p-1 bg-red-500/20 text-red-400 hover:bg-red-500/30 rounded border border-red-500/30 transition-colors duration-200 disabled:opacity-50"
+                    title="Remove captions"
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </button>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default VideoCaptionManager;
@@ -2,6 +2,7 @@ import React, { useState } from 'react';
 import { useTranslation } from 'react-i18next';
 import { MessageCircle, ExternalLink, Loader2 } from 'lucide-react';
 import { config } from '../config/environment';
+import { authFetch, getAccessToken } from '../utils/api';
 
 interface WhatsAppGroupButtonProps {
   courseId: string;
@@ -38,7 +39,7 @@ const WhatsAppGroupButton: React.FC<WhatsAppGroupButtonProps> = ({
 
     try {
       // Check if user is authenticated
-      const token = localStorage.getItem('token');
+      const token = getAccessToken();
       if (!token) {
         throw new Error('Please log in to access the WhatsApp group');
       }
@@ -47,10 +48,9 @@ const WhatsAppGroupButton: React.FC<WhatsAppGroupButtonProps> = ({
       console.log('🔍 [WhatsApp] Token exists:', !!token);
 
       // Get the token from the backend
-      const response = await fetch(`${config.API_BASE_URL}/api/courses/${courseId}/group-token`, {
+      const response = await authFetch(`${config.API_BASE_URL}/api/courses/${courseId}/group-token`, {
         method: 'GET',
         headers: {
-          'Authorization': `Bearer ${token}`,
           'Content-Type': 'application/json'
         }
       });
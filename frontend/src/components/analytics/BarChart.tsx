@@ -0,0 +1,59 @@
+import React from 'react';
+
+export interface BarChartPoint {
+  label: string;
+  value: number;
+}
+
+interface BarChartProps {
+  data: BarChartPoint[];
+  formatValue?: (value: number) => string;
+  barClassName?: string;
+  height?: number;
+}
+
+/**
+ * Lightweight vertical bar chart for the admin analytics (hover a bar for its value)
+ */
+const BarChart: React.FC<BarChartProps> = ({
+  data,
+  formatValue = (value) => value.toLocaleString(),
+  barClassName = 'bg-gradient-to-t from-cyan-600 to-blue-500',
+  height = 180
+}) => {
+  const max = Math.max(...data.map(point => point.value), 0);
+  // Label roughly 8 bars so long ranges stay readable
+  const labelEvery = Math.max(1, Math.ceil(data.length / 8));
+
+  if (data.length === 0) {
+    return <div className="text-center text-sm text-gray-500 py-8">No data for this period</div>;
+  }
+
+  return (
+    <div>
+      <div className="flex items-end gap-px sm:gap-0.5" style={{ height }}>
+        {data.map(point => (
+          <div
+            key={point.label}
+            className="group relative flex-1 h-full flex items-end"
+            title={`${point.label}: ${formatValue(point.value)}`}
+          >
+            <div
+              className={`w-full rounded-t-sm ${barClassName} group-hover:opacity-80`}
+              style={{ height: max > 0 ? `${(point.value / max) * 100}%` : 0, minHeight: point.value > 0 ? 2 : 0 }}
+            />
+          </div>
+        ))}
+      </div>
+      <div className="flex gap-px sm:gap-0.5 mt-1 border-t border-gray-700 pt-1">
+        {data.map((point, index) => (
+          <div key={point.label} className="flex-1 min-w-0 text-[10px] text-gray-500 text-center overflow-visible whitespace-nowrap">
+            {index % labelEvery === 0 ? point.label : ''}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default BarChart;
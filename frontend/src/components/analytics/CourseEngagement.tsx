@@ -0,0 +1,211 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Users, PlayCircle, Award, Clock } from 'lucide-react';
+import { buildApiUrl } from '../../config/environment';
+
+interface FunnelStep {
+  videoId: string;
+  title: string;
+  order?: number;
+  started: number;
+  completed: number;
+  averageHoursToComplete: number | null;
+}
+
+interface InactiveStudent {
+  userId: string;
+  name: string;
+  email: string | null;
+  enrolledAt: string;
+  lastActivityAt: string | null;
+  completedLessons: number;
+  totalLessons: number;
+}
+
+interface CourseEngagementData {
+  enrolled: number;
+  startedStudents: number;
+  funnel: FunnelStep[];
+  completion: {
+    completedStudents: number;
+    averageDaysToComplete: number | null;
+    medianDaysToComplete: number | null;
+  };
+  inactiveDays: number;
+  inactiveTotal: number;
+  inactiveStudents: InactiveStudent[];
+}
+
+interface CourseEngagementProps {
+  courseId: string;
+}
+
+const INACTIVE_OPTIONS = [7, 14, 30, 60, 90];
+
+const formatDays = (days: number | null) => (days === null ? '—' : `${days} day${days === 1 ? '' : 's'}`);
+
+const formatHours = (hours: number | null) => {
+  if (hours === null) return '—';
+  return hours < 48 ? `${hours}h` : `${Math.round(hours / 24 * 10) / 10}d`;
+};
+
+const formatDate = (date: string | null) => (date ? new Date(date).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' }) : 'Never');
+
+/**
+ * Lesson completion funnel, time to complete and inactive students of a course
+ */
+const CourseEngagement: React.FC<CourseEngagementProps> = ({ courseId }) => {
+  const [inactiveDays, setInactiveDays] = useState(14);
+  const [engagement, setEngagement] = useState<CourseEngagementData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchEngagement = useCallback(async () => {
+    try {
+      setLoading(true);
+      const adminToken = localStorage.getItem('adminToken');
+      const response = await fetch(buildApiUrl(`/api/admin/analytics/courses/${courseId}/engagement?inactiveDays=${inactiveDays}`), {
+        headers: { 'Authorization': `Bearer ${adminToken}` }
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to load engagement');
+      }
+      setEngagement(data.data);
+      setError(null);
+    } catch (err) {
+      console.error('Error loading course engagement:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load engagement');
+    } finally {
+      setLoading(false);
+    }
+  }, [courseId, inactiveDays]);
+
+  useEffect(() => {
+    fetchEngagement();
+  }, [fetchEngagement]);
+
+  if (loading && !engagement) {
+    return <div className="text-center py-12 text-gray-400">Loading engagement...</div>;
+  }
+
+  if (error || !engagement) {
+    return (
+      <div className="p-4 bg-red-500/20 border border-red-500/30 rounded-lg text-red-300">
+        {error || 'Failed to load engagement'}
+      </div>
+    );
+  }
+
+  const funnelBase = Math.max(engagement.enrolled, engagement.startedStudents, 1);
+  const summaryCards = [
+    { title: 'Enrolled', value: engagement.enrolled.toLocaleString(), icon: Users, color: 'bg-blue-500' },
+    { title: 'Started', value: engagement.startedStudents.toLocaleString(), icon: PlayCircle, color: 'bg-cyan-500' },
+    { title: 'Completed', value: engagement.completion.completedStudents.toLocaleString(), icon: Award, color: 'bg-green-500' },
+    { title: 'Avg. Time to Complete', value: formatDays(engagement.completion.averageDaysToComplete), hint: `median ${formatDays(engagement.completion.medianDaysToComplete)}`, icon: Clock, color: 'bg-purple-500' }
+  ];
+
+  return (
+    <div className={`space-y-6 ${loading ? 'opacity-60' : ''}`}>
+      {/* Summary */}
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+        {summaryCards.map(card => (
+          <div key={card.title} className="bg-gray-800 rounded-xl border border-gray-700 p-4 flex items-center">
+            <div className={`flex-shrink-0 p-2 rounded-lg ${card.color}`}>
+              <card.icon className="h-5 w-5 text-white" />
+            </div>
+            <div className="ml-3">
+              <p className="text-sm text-gray-400">{card.title}</p>
+              <p className="text-xl font-semibold text-white">{card.value}</p>
+              {card.hint && <p className="text-xs text-gray-500">{card.hint}</p>}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {/* Completion funnel */}
+      <div className="bg-gray-800 rounded-xl border border-gray-700 p-6">
+        <h2 className="text-lg font-semibold text-white mb-1">Completion Funnel</h2>
+        <p className="text-sm text-gray-400 mb-4">Students who started and completed each lesson, as a share of enrolled students</p>
+        {engagement.funnel.length === 0 ? (
+          <p className="text-sm text-gray-500">This course has no lessons yet</p>
+        ) : (
+          <div className="space-y-3">
+            {engagement.funnel.map((step, index) => (
+              <div key={step.videoId}>
+                <div className="flex items-center justify-between text-sm mb-1">
+                  <span className="text-gray-300 truncate mr-4">{index + 1}. {step.title}</span>
+                  <span className="text-gray-400 whitespace-nowrap">
+                    {step.completed} / {step.started} completed · {formatHours(step.averageHoursToComplete)}
+                  </span>
+                </div>
+                <div className="relative h-3 bg-gray-700 rounded-full overflow-hidden">
+                  <div className="absolute inset-y-0 left-0 bg-cyan-500/40" style={{ width: `${(step.started / funnelBase) * 100}%` }} />
+                  <div className="absolute inset-y-0 left-0 bg-cyan-500" style={{ width: `${(step.completed / funnelBase) * 100}%` }} />
+                </div>
+              </div>
+            ))}
+            <div className="flex items-center gap-4 pt-2 text-xs text-gray-500">
+              <span className="flex items-center"><span className="inline-block h-2 w-3 mr-1 bg-cyan-500/40 rounded-sm" />Started</span>
+              <span className="flex items-center"><span className="inline-block h-2 w-3 mr-1 bg-cyan-500 rounded-sm" />Completed</span>
+              <span>Times show the average from first view to completion</span>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Inactive students */}
+      <div className="bg-gray-800 rounded-xl border border-gray-700 p-6">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 mb-4">
+          <div>
+            <h2 className="text-lg font-semibold text-white">Inactive Students</h2>
+            <p className="text-sm text-gray-400">
+              {engagement.inactiveTotal} enrolled student{engagement.inactiveTotal === 1 ? '' : 's'} with no activity for {engagement.inactiveDays} days who haven't finished
+            </p>
+          </div>
+          <select
+            value={inactiveDays}
+            onChange={(e) => setInactiveDays(Number(e.target.value))}
+            className="px-3 py-1.5 bg-gray-700 border border-gray-600 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-cyan-500"
+            aria-label="Inactive for"
+          >
+            {INACTIVE_OPTIONS.map(days => <option key={days} value={days}>{days} days</option>)}
+          </select>
+        </div>
+        {engagement.inactiveStudents.length === 0 ? (
+          <p className="text-sm text-gray-500">Everyone enrolled is active or has finished</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500">
+                  <th className="py-2 pr-4 font-medium">Student</th>
+                  <th className="py-2 px-4 font-medium">Enrolled</th>
+                  <th className="py-2 px-4 font-medium">Last activity</th>
+                  <th className="py-2 pl-4 font-medium text-right">Lessons done</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-700">
+                {engagement.inactiveStudents.map(student => (
+                  <tr key={student.userId} className="text-gray-300">
+                    <td className="py-2 pr-4">
+                      <div>{student.name}</div>
+                      {student.email && <div className="text-xs text-gray-500">{student.email}</div>}
+                    </td>
+                    <td className="py-2 px-4 whitespace-nowrap">{formatDate(student.enrolledAt)}</td>
+                    <td className="py-2 px-4 whitespace-nowrap">{formatDate(student.lastActivityAt)}</td>
+                    <td className="py-2 pl-4 text-right">{student.completedLessons} / {student.totalLessons}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {engagement.inactiveTotal > engagement.inactiveStudents.length && (
+              <p className="mt-2 text-xs text-gray-500">Showing the {engagement.inactiveStudents.length} longest inactive</p>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CourseEngagement;
@@ -0,0 +1,250 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { DollarSign, ShoppingCart, TrendingUp, RotateCcw, Eye } from 'lucide-react';
+import { buildApiUrl } from '../../config/environment';
+import { formatPrice, SUPPORTED_CURRENCIES } from '../../utils/currency';
+import BarChart from './BarChart';
+import ExportMenu from '../ExportMenu';
+
+type Interval = 'day' | 'week' | 'month';
+
+interface RevenueFigures {
+  grossRevenue: number;
+  refundedAmount: number;
+  netRevenue: number;
+  orders: number;
+}
+
+interface RevenueAnalyticsData {
+  currencies: { currency: string; orders: number }[];
+  summary: RevenueFigures & {
+    averageOrderValue: number;
+    refundedOrders: number;
+    refundRate: number;
+    courseViews: number;
+    coursePurchases: number;
+    conversionRate: number;
+  };
+  timeline: (RevenueFigures & { period: string })[];
+  courses: (RevenueFigures & { courseId: string; title: string; purchases: number; views: number; conversionRate: number })[];
+  bundles: (RevenueFigures & { bundleId: string; title: string; purchases: number })[];
+}
+
+const toDateInput = (date: Date) => date.toISOString().slice(0, 10);
+
+const daysAgo = (days: number) => {
+  const date = new Date();
+  date.setDate(date.getDate() - days);
+  return date;
+};
+
+const RANGE_PRESETS: { label: string; days: number; interval: Interval }[] = [
+  { label: '7 days', days: 7, interval: 'day' },
+  { label: '30 days', days: 30, interval: 'day' },
+  { label: '90 days', days: 90, interval: 'week' },
+  { label: '12 months', days: 365, interval: 'month' }
+];
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+// "2026-10-19" -> "Oct 19" (or "Oct 2026" for monthly buckets)
+const formatPeriod = (period: string, interval: Interval) => new Date(`${period}T00:00:00Z`).toLocaleDateString('en-US', interval === 'month'
+  ? { month: 'short', year: 'numeric', timeZone: 'UTC' }
+  : { month: 'short', day: 'numeric', timeZone: 'UTC' });
+
+/**
+ * Revenue and sales analytics for the admin dashboard (needs the payments permission)
+ */
+const RevenueAnalytics: React.FC = () => {
+  const [from, setFrom] = useState(toDateInput(daysAgo(29)));
+  const [to, setTo] = useState(toDateInput(new Date()));
+  const [interval, setGroupInterval] = useState<Interval>('day');
+  const [currency, setCurrency] = useState('usd');
+  const [analytics, setAnalytics] = useState<RevenueAnalyticsData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchAnalytics = useCallback(async () => {
+    try {
+      setLoading(true);
+      const adminToken = localStorage.getItem('adminToken');
+      const params = new URLSearchParams({ from, to, interval, currency });
+      const response = await fetch(buildApiUrl(`/api/admin/analytics/revenue?${params}`), {
+        headers: { 'Authorization': `Bearer ${adminToken}` }
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to load revenue analytics');
+      }
+      setAnalytics(data.data);
+      setError(null);
+    } catch (err) {
+      console.error('Error loading revenue analytics:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load revenue analytics');
+    } finally {
+      setLoading(false);
+    }
+  }, [from, to, interval, currency]);
+
+  useEffect(() => {
+    fetchAnalytics();
+  }, [fetchAnalytics]);
+
+  const applyPreset = (preset: typeof RANGE_PRESETS[number]) => {
+    setFrom(toDateInput(daysAgo(preset.days - 1)));
+    setTo(toDateInput(new Date()));
+    setGroupInterval(preset.interval);
+  };
+
+  const money = (amount: number) => formatPrice(amount, currency);
+  const summary = analytics?.summary;
+
+  const summaryCards = [
+    { title: 'Net Revenue', value: summary ? money(summary.netRevenue) : '...', hint: summary ? `${money(summary.grossRevenue)} gross` : '', icon: DollarSign, color: 'bg-green-500' },
+    { title: 'Orders', value: summary ? summary.orders.toLocaleString() : '...', hint: summary ? `${money(summary.averageOrderValue)} average` : '', icon: ShoppingCart, color: 'bg-blue-500' },
+    { title: 'Refund Rate', value: summary ? formatPercent(summary.refundRate) : '...', hint: summary ? `${summary.refundedOrders} orders, ${money(summary.refundedAmount)}` : '', icon: RotateCcw, color: 'bg-red-500' },
+    { title: 'View to Purchase', value: summary ? formatPercent(summary.conversionRate) : '...', hint: summary ? `${summary.coursePurchases} of ${summary.courseViews.toLocaleString()} course views` : '', icon: Eye, color: 'bg-gradient-to-br from-purple-500 to-pink-500' }
+  ];
+
+  const inputClass = 'px-2 py-1.5 bg-gray-800 border border-gray-700 rounded-md text-white text-xs xxs:text-sm focus:outline-none focus:ring-2 focus:ring-cyan-500';
+
+  return (
+    <section className="space-y-4">
+      <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-3">
+        <h2 className="text-base xxs:text-lg font-semibold text-white flex items-center">
+          <TrendingUp className="h-5 w-5 mr-2 text-cyan-400" />
+          Revenue & Sales
+        </h2>
+        <div className="flex flex-wrap items-center gap-2">
+          {RANGE_PRESETS.map(preset => (
+            <button
+              key={preset.label}
+              onClick={() => applyPreset(preset)}
+              className="px-2 py-1.5 text-xs rounded-md border border-gray-700 text-gray-300 bg-gray-800 hover:bg-gray-700"
+            >
+              {preset.label}
+            </button>
+          ))}
+          <input type="date" value={from} max={to} onChange={(e) => setFrom(e.target.value)} className={inputClass} aria-label="From date" />
+          <span className="text-gray-500 text-sm">to</span>
+          <input type="date" value={to} min={from} onChange={(e) => setTo(e.target.value)} className={inputClass} aria-label="To date" />
+          <select value={interval} onChange={(e) => setGroupInterval(e.target.value as Interval)} className={inputClass} aria-label="Group by">
+            <option value="day">Daily</option>
+            <option value="week">Weekly</option>
+            <option value="month">Monthly</option>
+          </select>
+          <select value={currency} onChange={(e) => setCurrency(e.target.value)} className={inputClass} aria-label="Currency">
+            {SUPPORTED_CURRENCIES.map(option => {
+              const orders = analytics?.currencies.find(c => c.currency === option.code)?.orders;
+              return (
+                <option key={option.code} value={option.code}>
+                  {option.label}{orders ? ` (${orders})` : ''}
+                </option>
+              );
+            })}
+          </select>
+          <ExportMenu
+            label="Payments"
+            options={[{ label: 'Payments in this range', path: '/api/admin/reports/payments', fileName: 'payments', params: { from, to } }]}
+            onError={setError}
+          />
+        </div>
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-500/20 border border-red-500/30 rounded-lg text-red-300 text-sm">
+          {error}
+        </div>
+      )}
+
+      <div className={`space-y-4 ${loading ? 'opacity-60' : ''}`}>
+        {/* Summary */}
+        <div className="grid grid-cols-1 xxs:grid-cols-2 xl:grid-cols-4 gap-3 xxs:gap-4">
+          {summaryCards.map(card => (
+            <div key={card.title} className="bg-gray-800 rounded-lg border border-gray-700 p-3 xxs:p-4">
+              <div className="flex items-center">
+                <div className={`flex-shrink-0 p-2 rounded-lg ${card.color}`}>
+                  <card.icon className="h-4 w-4 xxs:h-5 xxs:w-5 text-white" />
+                </div>
+                <div className="ml-3 min-w-0">
+                  <p className="text-xs xxs:text-sm font-medium text-gray-400">{card.title}</p>
+                  <p className="text-lg xxs:text-xl font-semibold text-white">{card.value}</p>
+                  <p className="text-xs text-gray-500 truncate">{card.hint}</p>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {/* Revenue over time */}
+        <div className="bg-gray-800 rounded-lg border border-gray-700 p-3 xxs:p-4">
+          <h3 className="text-sm font-medium text-gray-300 mb-3">Net revenue by {interval}</h3>
+          <BarChart
+            data={(analytics?.timeline || []).map(point => ({ label: formatPeriod(point.period, interval), value: point.netRevenue }))}
+            formatValue={money}
+          />
+        </div>
+
+        {/* Per course and per bundle */}
+        <div className="grid grid-cols-1 xl:grid-cols-3 gap-4">
+          <div className="xl:col-span-2 bg-gray-800 rounded-lg border border-gray-700 p-3 xxs:p-4 overflow-x-auto">
+            <h3 className="text-sm font-medium text-gray-300 mb-3">Courses</h3>
+            {analytics && analytics.courses.length > 0 ? (
+              <table className="min-w-full text-xs xxs:text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500">
+                    <th className="py-1 pr-3 font-medium">Course</th>
+                    <th className="py-1 px-3 font-medium text-right">Views</th>
+                    <th className="py-1 px-3 font-medium text-right">Purchases</th>
+                    <th className="py-1 px-3 font-medium text-right">Conversion</th>
+                    <th className="py-1 pl-3 font-medium text-right">Net revenue</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-700">
+                  {analytics.courses.map(course => (
+                    <tr key={course.courseId} className="text-gray-300">
+                      <td className="py-1.5 pr-3">{course.title}</td>
+                      <td className="py-1.5 px-3 text-right">{course.views.toLocaleString()}</td>
+                      <td className="py-1.5 px-3 text-right">{course.purchases}</td>
+                      <td className="py-1.5 px-3 text-right">{course.views > 0 ? formatPercent(course.conversionRate) : '—'}</td>
+                      <td className="py-1.5 pl-3 text-right text-white">{money(course.netRevenue)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            ) : (
+              <p className="text-sm text-gray-500">No course views or sales in this period</p>
+            )}
+          </div>
+
+          <div className="bg-gray-800 rounded-lg border border-gray-700 p-3 xxs:p-4 overflow-x-auto">
+            <h3 className="text-sm font-medium text-gray-300 mb-3">Bundles</h3>
+            {analytics && analytics.bundles.length > 0 ? (
+              <table className="min-w-full text-xs xxs:text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500">
+                    <th className="py-1 pr-3 font-medium">Bundle</th>
+                    <th className="py-1 px-3 font-medium text-right">Sold</th>
+                    <th className="py-1 pl-3 font-medium text-right">Net revenue</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-700">
+                  {analytics.bundles.map(bundle => (
+                    <tr key={bundle.bundleId} className="text-gray-300">
+                      <td className="py-1.5 pr-3">{bundle.title}</td>
+                      <td className="py-1.5 px-3 text-right">{bundle.purchases}</td>
+                      <td className="py-1.5 pl-3 text-right text-white">{money(bundle.netRevenue)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            ) : (
+              <p className="text-sm text-gray-500">No bundle sales in this period</p>
+            )}
+          </div>
+        </div>
+      </div>
+    </section>
+  );
+};
+
+export default RevenueAnalytics;
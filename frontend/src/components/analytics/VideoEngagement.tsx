@@ -0,0 +1,127 @@
+import React, { useState, useEffect } from 'react';
+import { BarChart3 } from 'lucide-react';
+import { buildApiUrl } from '../../config/environment';
+import { formatDuration } from '../../utils/durationFormatter';
+import BarChart from './BarChart';
+
+interface VideoEngagementData {
+  viewers: number;
+  completed: number;
+  averageReachedPercent: number | null;
+  averageWatchCount: number | null;
+  averageHoursToComplete: number | null;
+  dropOff: { percent: number; viewers: number; share: number }[];
+  rewatchedSegments: { start: number; end: number; rewinds: number }[];
+}
+
+interface VideoEngagementProps {
+  videoId: string;
+}
+
+const TOP_SEGMENTS = 3;
+
+/**
+ * Drop-off curve and most re-watched segments of a lesson, shown under the admin player
+ */
+const VideoEngagement: React.FC<VideoEngagementProps> = ({ videoId }) => {
+  const [engagement, setEngagement] = useState<VideoEngagementData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchEngagement = async () => {
+      try {
+        setLoading(true);
+        const adminToken = localStorage.getItem('adminToken');
+        const response = await fetch(buildApiUrl(`/api/admin/analytics/videos/${videoId}/engagement`), {
+          headers: { 'Authorization': `Bearer ${adminToken}` }
+        });
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.message || 'Failed to load engagement');
+        }
+        setEngagement(data.data);
+        setError(null);
+      } catch (err) {
+        console.error('Error loading video engagement:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load engagement');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    if (videoId) {
+      fetchEngagement();
+    }
+  }, [videoId]);
+
+  const topSegments = (engagement?.rewatchedSegments || [])
+    .filter(segment => segment.rewinds > 0)
+    .sort((a, b) => b.rewinds - a.rewinds)
+    .slice(0, TOP_SEGMENTS);
+
+  return (
+    <div className="mt-6 border-t border-gray-700 pt-4">
+      <h3 className="text-base sm:text-lg font-semibold mb-3 flex items-center">
+        <BarChart3 className="h-4 w-4 sm:h-5 sm:w-5 mr-2 text-cyan-400" />
+        Viewer Engagement
+      </h3>
+
+      {loading ? (
+        <p className="text-sm text-gray-400">Loading engagement...</p>
+      ) : error || !engagement ? (
+        <p className="text-sm text-red-300">{error || 'Failed to load engagement'}</p>
+      ) : engagement.viewers === 0 ? (
+        <p className="text-sm text-gray-400">No students have watched this lesson yet</p>
+      ) : (
+        <div className="space-y-5">
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 text-sm">
+            <div className="bg-gray-700/50 rounded-lg p-3">
+              <p className="text-gray-400">Viewers</p>
+              <p className="text-lg font-semibold">{engagement.viewers}</p>
+            </div>
+            <div className="bg-gray-700/50 rounded-lg p-3">
+              <p className="text-gray-400">Completed</p>
+              <p className="text-lg font-semibold">{Math.round((engagement.completed / engagement.viewers) * 100)}%</p>
+            </div>
+            <div className="bg-gray-700/50 rounded-lg p-3">
+              <p className="text-gray-400">Avg. reached</p>
+              <p className="text-lg font-semibold">{engagement.averageReachedPercent ?? 0}%</p>
+            </div>
+            <div className="bg-gray-700/50 rounded-lg p-3">
+              <p className="text-gray-400">Avg. sessions</p>
+              <p className="text-lg font-semibold">{engagement.averageWatchCount ?? 0}</p>
+            </div>
+          </div>
+
+          <div>
+            <p className="text-sm text-gray-300 mb-2">Drop-off: share of viewers still watching at each point of the video</p>
+            <BarChart
+              data={engagement.dropOff.map(point => ({ label: `${point.percent}%`, value: Math.round(point.share * 100) }))}
+              formatValue={(value) => `${value}% of viewers`}
+              height={120}
+            />
+          </div>
+
+          <div>
+            <p className="text-sm text-gray-300 mb-2">Most re-watched segments (from recent playback positions)</p>
+            {topSegments.length === 0 ? (
+              <p className="text-sm text-gray-500">No re-watches recorded yet</p>
+            ) : (
+              <ul className="space-y-1 text-sm">
+                {topSegments.map(segment => (
+                  <li key={segment.start} className="flex justify-between bg-gray-700/50 rounded px-3 py-1.5">
+                    <span className="font-mono">{formatDuration(segment.start)} – {formatDuration(segment.end)}</span>
+                    <span className="text-gray-400">{segment.rewinds} re-watch{segment.rewinds === 1 ? '' : 'es'}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default VideoEngagement;
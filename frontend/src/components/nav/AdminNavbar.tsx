@@ -12,7 +12,7 @@ const AdminNavbar: React.FC = () => {
   const [isOpen, setIsOpen] = useState(false);
   const { isVisible } = useNavbarAutoHide(100);
   const location = useLocation();
-  const { isAuthenticated } = useAdminAuth();
+  const { isAuthenticated, canAccessSection } = useAdminAuth();
 
   // Close mobile menu on scroll
   useEffect(() => {
@@ -32,7 +32,11 @@ const AdminNavbar: React.FC = () => {
     { name: 'Bundles', href: '/admin/bundles' },
     { name: 'Users', href: '/admin/users' },
     { name: 'Reviews', href: '/admin/reviews' },
-  ]), []);
+    { name: 'Coupons', href: '/admin/coupons' },
+    { name: 'Certificates', href: '/admin/certificates' },
+    { name: 'Audit Log', href: '/admin/audit' },
+    { name: 'My Profile', href: '/admin/profile' },
+  ].filter(item => canAccessSection(item.href))), [canAccessSection]);
 
   const isActive = (path: string) => location.pathname === path;
 
@@ -151,16 +155,18 @@ const AdminNavbar: React.FC = () => {
                <div className="px-4 py-2">
                  <div className="text-xs text-cyan-300 mb-3 font-medium">ADMIN ACCOUNT</div>
                  <div className="space-y-2">
-                   <Link
-                     to="/admin/upload"
-                     className="flex items-center px-4 py-3 text-sm sm:text-base font-medium text-gray-300 hover:text-cyan-400 transition-all duration-300 ease-in-out rounded-lg hover:bg-gray-800/50"
-                     onClick={() => setIsOpen(false)}
-                   >
-                     <svg className="h-4 w-4 mr-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M15 13l-3-3m0 0l-3 3m3-3v12" />
-                     </svg>
-                     Upload Course
-                   </Link>
+                   {canAccessSection('/admin/upload') && (
+                     <Link
+                       to="/admin/upload"
+                       className="flex items-center px-4 py-3 text-sm sm:text-base font-medium text-gray-300 hover:text-cyan-400 transition-all duration-300 ease-in-out rounded-lg hover:bg-gray-800/50"
+                       onClick={() => setIsOpen(false)}
+                     >
+                       <svg className="h-4 w-4 mr-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M15 13l-3-3m0 0l-3 3m3-3v12" />
+                       </svg>
+                       Upload Course
+                     </Link>
+                   )}
                    <div className="border-t border-gray-700/50 my-2"></div>
                    <button
                      onClick={() => {
@@ -3,6 +3,7 @@ import { Link } from 'react-router-dom';
 import { User, LogOut, LayoutDashboard, Upload, Award } from 'lucide-react';
 import { useTranslation } from 'react-i18next';
 import { useAdminAuth } from '../../contexts/AdminAuthContext';
+import { logoutUser } from '../../utils/api';
 
 interface AvatarMenuProps {
   variant: 'user' | 'admin';
@@ -37,11 +38,11 @@ const AvatarMenu: React.FC<AvatarMenuProps> = ({ variant, profileImageUrl }) =>
     };
   }, []);
 
-  const handleLogout = () => {
+  const handleLogout = async () => {
     if (variant === 'admin' && adminAuth) {
       adminAuth.logout();
     } else {
-      localStorage.removeItem('token');
+      await logoutUser();
     }
     window.location.href = variant === 'admin' ? '/admin/login' : '/login';
   };
@@ -1,22 +1,26 @@
 import React, { useState, useMemo, useEffect } from 'react';
-import { buildApiUrl } from '../../config/environment';
 import { useTranslation } from 'react-i18next';
 import { Link, useLocation, useNavigate } from 'react-router-dom';
 import { Menu, X, Shield, Globe, ChevronDown, Sun, Moon } from 'lucide-react';
 import AvatarMenu from './AvatarMenu';
+import { logoutUser, authFetch, getAccessToken } from '../../utils/api';
 import { getCurrentLanguage, changeLanguage } from '../../i18n';
 import { useTheme } from '../../contexts/ThemeContext';
+import { useCurrency } from '../../hooks/useCurrency';
+import { SUPPORTED_CURRENCIES } from '../../utils/currency';
 
 
 const UserNavbar: React.FC = () => {
   const { t, i18n } = useTranslation();
   const { theme, toggleTheme } = useTheme();
+  const { currency, setCurrency } = useCurrency();
   const [isMenuOpen, setIsMenuOpen] = useState(false);
   const [profileImageUrl, setProfileImageUrl] = useState<string | null>(null);
   const [isLangMenuOpen, setIsLangMenuOpen] = useState(false);
+  const [isCurrencyMenuOpen, setIsCurrencyMenuOpen] = useState(false);
   const location = useLocation();
   const navigate = useNavigate();
-  const isAuthenticated = !!localStorage.getItem('token');
+  const isAuthenticated = !!getAccessToken();
 
 
   // Prevent body scroll when menu is open
@@ -35,6 +39,7 @@ const UserNavbar: React.FC = () => {
   useEffect(() => {
     setIsMenuOpen(false);
     setIsLangMenuOpen(false);
+    setIsCurrencyMenuOpen(false);
   }, [location.pathname]);
 
   // Close language menu when navbar menu closes
@@ -90,24 +95,16 @@ const UserNavbar: React.FC = () => {
       }
 
       try {
-        const token = localStorage.getItem('token');
+        const token = getAccessToken();
         if (!token) return;
 
-        const userResponse = await fetch(buildApiUrl('/api/auth/me'), {
-          headers: {
-            'Authorization': `Bearer ${token}`
-          }
-        });
+        const userResponse = await authFetch('/api/auth/me');
 
         if (userResponse.ok) {
           const userResult = await userResponse.json();
           
           if (userResult.data.profilePhotoKey) {
-            const photoResponse = await fetch(buildApiUrl('/api/auth/users/me/photo'), {
-          headers: {
-            'Authorization': `Bearer ${token}`
-          }
-        });
+            const photoResponse = await authFetch('/api/auth/users/me/photo');
 
             if (photoResponse.ok) {
               const photoResult = await photoResponse.json();
@@ -224,6 +221,47 @@ const UserNavbar: React.FC = () => {
                 )}
               </div>
 
+              {/* Currency Selector */}
+              <div className="relative">
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    setIsCurrencyMenuOpen(!isCurrencyMenuOpen);
+                  }}
+                  className="flex items-center space-x-0.5 xs:space-x-1 px-1.5 xs:px-2 sm:px-2.5 md:px-3 py-1 xs:py-1.5 sm:py-2 text-[10px] xs:text-xs sm:text-sm font-semibold text-gray-700 dark:text-white hover:text-cyan-600 dark:hover:text-cyan-300 hover:bg-gray-100 dark:hover:bg-white/10 backdrop-blur-sm rounded-full transition-all border border-gray-300 dark:border-white/20 hover:border-cyan-500 dark:hover:border-cyan-500/50 min-w-[28px] xs:min-w-[32px] sm:min-w-[auto] justify-center"
+                  aria-label={t('currency.select')}
+                >
+                  <span>{currency.toUpperCase()}</span>
+                  <ChevronDown className={`w-2 h-2 xs:w-2.5 xs:h-2.5 sm:w-3 sm:h-3 transition-transform duration-200 flex-shrink-0 text-gray-700 dark:text-white ${isCurrencyMenuOpen ? 'rotate-180' : ''}`} />
+                </button>
+
+                {/* Currency Dropdown */}
+                {isCurrencyMenuOpen && (
+                  <>
+                    <div
+                      className="fixed inset-0 z-[102]"
+                      onClick={() => setIsCurrencyMenuOpen(false)}
+                    />
+                    <div className="absolute right-0 mt-2 w-28 xs:w-32 sm:w-36 bg-white/95 backdrop-blur-sm rounded-lg shadow-xl ring-1 ring-white/20 z-[103] overflow-hidden">
+                      {SUPPORTED_CURRENCIES.map(option => (
+                        <button
+                          key={option.code}
+                          onClick={() => {
+                            setCurrency(option.code);
+                            setIsCurrencyMenuOpen(false);
+                          }}
+                          className={`block w-full text-left px-3 xs:px-3.5 sm:px-4 py-1.5 xs:py-2 sm:py-2.5 text-xs xs:text-sm hover:bg-white/20 transition-colors duration-200 ${
+                            currency === option.code ? 'bg-cyan-50/50 text-cyan-700 font-semibold' : 'text-gray-700 font-semibold'
+                          }`}
+                        >
+                          {t(`currency.${option.code}`)}
+                        </button>
+                      ))}
+                    </div>
+                  </>
+                )}
+              </div>
+
               {/* Auth Buttons - Desktop */}
               {!isAuthenticated && (
                 <>
@@ -349,9 +387,9 @@ const UserNavbar: React.FC = () => {
                 {t('navbar.my_certificates')}
               </Link>
               <button
-                onClick={() => {
-                  localStorage.removeItem('token');
+                onClick={async () => {
                   handleLinkClick();
+                  await logoutUser();
                   navigate('/login');
                 }}
                 className="block text-left text-base xs:text-lg sm:text-xl font-semibold text-white/90 hover:text-white transition-colors py-2 mt-3 xs:mt-4"
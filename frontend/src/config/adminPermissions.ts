@@ -0,0 +1,45 @@
+// Admin panel permissions, mirroring server/config/adminRoles.js
+export const ADMIN_PERMISSIONS = {
+  CONTENT_MANAGE: 'content:manage',
+  COURSES_OWN: 'courses:own',
+  USERS_VIEW: 'users:view',
+  USERS_MANAGE: 'users:manage',
+  USERS_DELETE: 'users:delete',
+  PAYMENTS_VIEW: 'payments:view',
+  PAYMENTS_REFUND: 'payments:refund',
+  COUPONS_MANAGE: 'coupons:manage',
+  ROLES_MANAGE: 'roles:manage',
+  AUDIT_VIEW: 'audit:view'
+} as const;
+
+export type AdminPermission = typeof ADMIN_PERMISSIONS[keyof typeof ADMIN_PERMISSIONS];
+
+export type AdminRole = 'super_admin' | 'content_editor' | 'support' | 'finance' | 'instructor';
+
+export const ADMIN_ROLE_LABELS: Record<AdminRole, string> = {
+  super_admin: 'Super Admin',
+  content_editor: 'Content Editor',
+  support: 'Support Agent',
+  finance: 'Finance',
+  instructor: 'Instructor'
+};
+
+// Admin sections and the permissions that open them, any one is enough (the dashboard is open to every role)
+const SECTION_PERMISSIONS: { prefix: string; permissions: AdminPermission[] }[] = [
+  { prefix: '/admin/upload', permissions: [ADMIN_PERMISSIONS.CONTENT_MANAGE, ADMIN_PERMISSIONS.COURSES_OWN] },
+  { prefix: '/admin/courses', permissions: [ADMIN_PERMISSIONS.CONTENT_MANAGE, ADMIN_PERMISSIONS.COURSES_OWN] },
+  { prefix: '/admin/bundles', permissions: [ADMIN_PERMISSIONS.CONTENT_MANAGE] },
+  { prefix: '/admin/reviews', permissions: [ADMIN_PERMISSIONS.CONTENT_MANAGE] },
+  { prefix: '/admin/announcements', permissions: [ADMIN_PERMISSIONS.CONTENT_MANAGE] },
+  { prefix: '/admin/users', permissions: [ADMIN_PERMISSIONS.USERS_VIEW] },
+  { prefix: '/admin/coupons', permissions: [ADMIN_PERMISSIONS.COUPONS_MANAGE] },
+  { prefix: '/admin/profile', permissions: [ADMIN_PERMISSIONS.COURSES_OWN] },
+  { prefix: '/admin/audit', permissions: [ADMIN_PERMISSIONS.AUDIT_VIEW] },
+  { prefix: '/admin/certificates', permissions: [ADMIN_PERMISSIONS.USERS_VIEW] }
+];
+
+/**
+ * Permissions that open an admin page, or null when any admin may open it
+ */
+export const getSectionPermissions = (pathname: string): AdminPermission[] | null =>
+  SECTION_PERMISSIONS.find(section => pathname.startsWith(section.prefix))?.permissions || null;
@@ -52,6 +52,8 @@ export const config = {
       LOGIN: '/api/auth/login',
       REGISTER: '/api/auth/register',
       LOGOUT: '/api/auth/logout',
+      REFRESH: '/api/auth/refresh',
+      SESSIONS: '/api/auth/sessions',
       ME: '/api/auth/me',
       VERIFY_EMAIL: '/api/auth/verify-email',
       RESEND_VERIFICATION: '/api/auth/resend-verification',
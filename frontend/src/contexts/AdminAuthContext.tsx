@@ -1,12 +1,16 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
 import { useLocation } from 'react-router-dom';
 import { buildApiUrl } from '../config/environment';
+import { AdminPermission, AdminRole, getSectionPermissions } from '../config/adminPermissions';
 
 
 interface AdminUser {
   email: string;
   role: string;
   type: string;
+  adminRole?: AdminRole;
+  permissions?: AdminPermission[];
+  userId?: string | null; // Staff account id (unset for the environment admin)
 }
 
 interface AdminAuthContextType {
@@ -16,6 +20,8 @@ interface AdminAuthContextType {
   login: (token: string, user: AdminUser) => void;
   logout: () => void;
   validateToken: () => Promise<boolean>;
+  hasPermission: (permission: AdminPermission) => boolean;
+  canAccessSection: (pathname: string) => boolean;
 }
 
 const AdminAuthContext = createContext<AdminAuthContextType | undefined>(undefined);
@@ -124,6 +130,13 @@ export const AdminAuthProvider: React.FC<AdminAuthProviderProps> = ({ children }
     initializeAuth();
   }, [location.pathname]);
 
+  const hasPermission = (permission: AdminPermission) => !!adminUser?.permissions?.includes(permission);
+
+  const canAccessSection = (pathname: string) => {
+    const permissions = getSectionPermissions(pathname);
+    return !permissions || permissions.some(hasPermission);
+  };
+
   const value: AdminAuthContextType = {
     adminUser,
     isLoading,
@@ -131,6 +144,8 @@ export const AdminAuthProvider: React.FC<AdminAuthProviderProps> = ({ children }
     login,
     logout,
     validateToken,
+    hasPermission,
+    canAccessSection,
   };
 
   return (
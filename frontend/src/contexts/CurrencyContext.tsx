@@ -0,0 +1,40 @@
+import React, { useState, useEffect, useCallback, ReactNode } from 'react';
+import { useTranslation } from 'react-i18next';
+import { CurrencyContext } from '../hooks/useCurrency';
+import {
+  CurrencyCode,
+  PricedItem,
+  detectCurrency,
+  formatPrice as formatCurrencyAmount,
+  getItemPrice,
+  isSupportedCurrency
+} from '../utils/currency';
+
+interface CurrencyProviderProps {
+  children: ReactNode;
+}
+
+export const CurrencyProvider: React.FC<CurrencyProviderProps> = ({ children }) => {
+  const { i18n } = useTranslation();
+  const [currency, setCurrency] = useState<CurrencyCode>(() => {
+    const savedCurrency = localStorage.getItem('currency');
+    return isSupportedCurrency(savedCurrency) ? savedCurrency : detectCurrency();
+  });
+
+  useEffect(() => {
+    localStorage.setItem('currency', currency);
+  }, [currency]);
+
+  const priceFor = useCallback((item: PricedItem) => getItemPrice(item, currency), [currency]);
+
+  const formatPrice = useCallback(
+    (amount: number, amountCurrency: string = currency) => formatCurrencyAmount(amount, amountCurrency, i18n.language),
+    [currency, i18n.language]
+  );
+
+  return (
+    <CurrencyContext.Provider value={{ currency, setCurrency, priceFor, formatPrice }}>
+      {children}
+    </CurrencyContext.Provider>
+  );
+};
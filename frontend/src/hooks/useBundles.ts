@@ -1,6 +1,8 @@
 import { useQuery, UseQueryResult, useQueryClient } from '@tanstack/react-query';
 import { buildApiUrl } from '../config/environment';
 import { queryKeys, cachePersister } from '../lib/queryClient';
+import { LocalPrices } from '../utils/currency';
+import { authFetch, getAccessToken } from '../utils/api';
 
 export interface ApiBundle {
   _id: string;
@@ -8,6 +10,7 @@ export interface ApiBundle {
   description: string | { en: string; tg: string };
   longDescription?: string | { en: string; tg: string };
   price: number;
+  prices?: LocalPrices;
   originalValue?: number;
   courseIds: Array<{
     _id: string;
@@ -57,13 +60,6 @@ export const useBundles = (filters: BundleFilters = {}): UseQueryResult<BundlesR
   return useQuery({
     queryKey: ['bundles', 'list', filters],
     queryFn: async (): Promise<BundlesResponse> => {
-      const token = localStorage.getItem('token');
-      const headers: HeadersInit = {};
-      
-      if (token) {
-        headers['Authorization'] = `Bearer ${token}`;
-      }
-
       // Build query parameters
       const queryParams = new URLSearchParams();
       
@@ -74,7 +70,7 @@ export const useBundles = (filters: BundleFilters = {}): UseQueryResult<BundlesR
       if (filters.featured) queryParams.append('featured', 'true');
 
       const url = buildApiUrl(`/api/bundles?${queryParams.toString()}`);
-      const response = await fetch(url, { headers });
+      const response = await authFetch(url);
 
       if (!response.ok) {
         const errorData = await response.json().catch(() => ({}));
@@ -124,14 +120,7 @@ export const useFeaturedBundles = (): UseQueryResult<ApiBundle[]> => {
   return useQuery({
     queryKey: ['bundles', 'featured'],
     queryFn: async (): Promise<ApiBundle[]> => {
-      const token = localStorage.getItem('token');
-      const headers: HeadersInit = {};
-      
-      if (token) {
-        headers['Authorization'] = `Bearer ${token}`;
-      }
-
-      const response = await fetch(buildApiUrl('/api/bundles/featured'), { headers });
+      const response = await authFetch('/api/bundles/featured');
 
       if (!response.ok) {
         const errorData = await response.json().catch(() => ({}));
@@ -174,14 +163,7 @@ export const useBundle = (bundleId: string): UseQueryResult<ApiBundle & { userHa
   return useQuery({
     queryKey: ['bundles', 'detail', bundleId],
     queryFn: async (): Promise<ApiBundle & { userHasPurchased?: boolean }> => {
-      const token = localStorage.getItem('token');
-      const headers: HeadersInit = {};
-      
-      if (token) {
-        headers['Authorization'] = `Bearer ${token}`;
-      }
-
-      const response = await fetch(buildApiUrl(`/api/bundles/${bundleId}`), { headers });
+      const response = await authFetch(`/api/bundles/${bundleId}`);
       
       if (!response.ok) {
         const errorData = await response.json().catch(() => ({}));
@@ -232,16 +214,12 @@ export const useMyBundles = (filters: BundleFilters = {}): UseQueryResult<Bundle
   return useQuery({
     queryKey: ['bundles', 'my-bundles', filters],
     queryFn: async (): Promise<BundlesResponse> => {
-      const token = localStorage.getItem('token');
+      const token = getAccessToken();
       
       if (!token) {
         throw new Error('Authentication required');
       }
 
-      const headers: HeadersInit = {
-        'Authorization': `Bearer ${token}`
-      };
-
       // Build query parameters
       const queryParams = new URLSearchParams();
       
@@ -249,7 +227,7 @@ export const useMyBundles = (filters: BundleFilters = {}): UseQueryResult<Bundle
       if (filters.limit) queryParams.append('limit', filters.limit.toString());
 
       const url = buildApiUrl(`/api/bundles/my-bundles?${queryParams.toString()}`);
-      const response = await fetch(url, { headers });
+      const response = await authFetch(url);
 
       if (!response.ok) {
         const errorData = await response.json().catch(() => ({}));
@@ -278,7 +256,7 @@ export const useMyBundles = (filters: BundleFilters = {}): UseQueryResult<Bundle
 
       return result;
     },
-    enabled: !!localStorage.getItem('token'), // Only fetch if user is authenticated
+    enabled: !!getAccessToken(), // Only fetch if user is authenticated
     staleTime: 10 * 60 * 1000, // 10 minutes
     gcTime: 30 * 60 * 1000, // 30 minutes
     refetchOnWindowFocus: true,
@@ -1,6 +1,7 @@
 import { useQuery, UseQueryResult } from '@tanstack/react-query';
 import { buildApiUrl } from '../config/environment';
 import { queryKeys, cachePersister } from '../lib/queryClient';
+import { authFetch, getAccessToken } from '../utils/api';
 
 export interface Certificate {
   _id: string;
@@ -43,14 +44,13 @@ export const useCertificates = (): UseQueryResult<CertificatesResponse> => {
   return useQuery({
     queryKey: queryKeys.certificates.list(),
     queryFn: async (): Promise<CertificatesResponse> => {
-      const token = localStorage.getItem('token');
+      const token = getAccessToken();
       if (!token) {
         throw new Error('Authentication required');
       }
 
-      const response = await fetch(buildApiUrl('/api/certificates/user'), {
+      const response = await authFetch('/api/certificates/user', {
         headers: {
-          'Authorization': `Bearer ${token}`,
           'Content-Type': 'application/json',
         },
       });
@@ -1,5 +1,5 @@
 import { useState, useEffect } from 'react';
-import { buildApiUrl } from '../config/environment';
+import { authFetch, getAccessToken } from '../utils/api';
 
 interface CourseProgress {
   totalVideos?: number;
@@ -25,17 +25,13 @@ export const useCourseProgress = (courseId: string | undefined) => {
 
     const fetchProgress = async () => {
       try {
-        const token = localStorage.getItem('token');
+        const token = getAccessToken();
         if (!token) {
           setProgress(null);
           return;
         }
 
-        const response = await fetch(buildApiUrl(`/api/progress/course/${courseId}`), {
-          headers: {
-            'Authorization': `Bearer ${token}`
-          }
-        });
+        const response = await authFetch(`/api/progress/course/${courseId}`);
 
         if (response.ok) {
           const result = await response.json();
@@ -1,6 +1,19 @@
 import { useQuery, UseQueryResult, useQueryClient } from '@tanstack/react-query';
 import { buildApiUrl } from '../config/environment';
 import { queryKeys, cachePersister } from '../lib/queryClient';
+import { LocalPrices } from '../utils/currency';
+import { authFetch } from '../utils/api';
+
+export interface CourseInstructor {
+  _id: string;
+  name: string;
+  instructorProfile?: {
+    headline?: string;
+    bio?: { en?: string; tg?: string };
+    photoUrl?: string | null;
+    socialLinks?: { website?: string; linkedin?: string; twitter?: string; youtube?: string };
+  };
+}
 
 export interface ApiCourse {
   _id: string;
@@ -8,11 +21,13 @@ export interface ApiCourse {
   description: string;
   thumbnailURL?: string;
   price: number;
+  prices?: LocalPrices;
   category?: string;
   level?: string;
   totalEnrollments?: number;
   tags?: string[];
   videos?: Array<{ _id: string; duration?: string }>;
+  instructors?: CourseInstructor[]; // Populated on the course detail endpoint
   isPurchased?: boolean;
   // Progress fields for enrolled students
   progress?: number;
@@ -49,13 +64,6 @@ export const useCourses = (filters: CourseFilters = {}): UseQueryResult<CoursesR
   return useQuery({
     queryKey: queryKeys.courses.list(filters),
     queryFn: async (): Promise<CoursesResponse> => {
-      const token = localStorage.getItem('token');
-      const headers: HeadersInit = {};
-      
-      if (token) {
-        headers['Authorization'] = `Bearer ${token}`;
-      }
-
       // Build query parameters
       const queryParams = new URLSearchParams();
       
@@ -68,7 +76,7 @@ export const useCourses = (filters: CourseFilters = {}): UseQueryResult<CoursesR
       if (filters.priceRange) queryParams.append('priceRange', filters.priceRange);
 
       const url = buildApiUrl(`/api/courses?${queryParams.toString()}`);
-      const response = await fetch(url, { headers });
+      const response = await authFetch(url);
 
       if (!response.ok) {
         const errorData = await response.json().catch(() => ({}));
@@ -126,14 +134,7 @@ export const useFeaturedCourses = (): UseQueryResult<ApiCourse[]> => {
   return useQuery({
     queryKey: queryKeys.courses.featured(),
     queryFn: async (): Promise<ApiCourse[]> => {
-      const token = localStorage.getItem('token');
-      const headers: HeadersInit = {};
-      
-      if (token) {
-        headers['Authorization'] = `Bearer ${token}`;
-      }
-
-      const response = await fetch(buildApiUrl('/api/courses/featured'), { headers });
+      const response = await authFetch('/api/courses/featured');
 
       if (!response.ok) {
         const errorData = await response.json().catch(() => ({}));
@@ -184,14 +185,7 @@ export const useCourse = (courseId: string): UseQueryResult<ApiCourse> => {
   return useQuery({
     queryKey: queryKeys.courses.detail(courseId),
     queryFn: async (): Promise<ApiCourse> => {
-      const token = localStorage.getItem('token');
-      const headers: HeadersInit = {};
-      
-      if (token) {
-        headers['Authorization'] = `Bearer ${token}`;
-      }
-
-      const response = await fetch(buildApiUrl(`/api/courses/${courseId}`), { headers });
+      const response = await authFetch(`/api/courses/${courseId}`);
       
       if (!response.ok) {
         const errorData = await response.json().catch(() => ({}));
@@ -0,0 +1,20 @@
+import { createContext, useContext } from 'react';
+import { CurrencyCode, ItemPrice, PricedItem } from '../utils/currency';
+
+export interface CurrencyContextType {
+  currency: CurrencyCode;
+  setCurrency: (currency: CurrencyCode) => void;
+  priceFor: (item: PricedItem) => ItemPrice;
+  formatPrice: (amount: number, currency?: string) => string;
+}
+
+// Provided by CurrencyProvider (contexts/CurrencyContext)
+export const CurrencyContext = createContext<CurrencyContextType | undefined>(undefined);
+
+export const useCurrency = () => {
+  const context = useContext(CurrencyContext);
+  if (!context) {
+    throw new Error('useCurrency must be used within a CurrencyProvider');
+  }
+  return context;
+};
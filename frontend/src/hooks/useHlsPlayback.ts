@@ -0,0 +1,197 @@
+import { useState, useEffect, useRef, useCallback, RefObject } from 'react';
+import Hls from 'hls.js';
+
+export interface HlsQualityLevel {
+  index: number;
+  height: number;
+  bitrate: number;
+  label: string;
+}
+
+/** Level index meaning "let the player pick based on bandwidth" */
+export const AUTO_QUALITY = -1;
+
+// Don't ask for a fresh playback URL more than once in this window, so a broken stream can't loop
+const SOURCE_REFRESH_COOLDOWN_MS = 30 * 1000;
+
+/**
+ * Attach an HLS master playlist to a <video> element.
+ * Uses hls.js where Media Source Extensions are available and falls back to
+ * native HLS (Safari/iOS). When no hlsSrc is given the element is left alone
+ * so the progressive MP4 `src` keeps working.
+ * The playback token in the URL expires; when a load is rejected, refreshSrc is
+ * asked for a fresh master URL and playback resumes where it stopped.
+ */
+export const useHlsPlayback = (
+  videoRef: RefObject<HTMLVideoElement>,
+  hlsSrc?: string,
+  onFatalError?: (message: string) => void,
+  refreshSrc?: () => Promise<string | null>
+) => {
+  const hlsRef = useRef<Hls | null>(null);
+  // Latest callback in a ref, so a new function identity doesn't rebuild the player
+  const refreshSrcRef = useRef(refreshSrc);
+  const [levels, setLevels] = useState<HlsQualityLevel[]>([]);
+  const [selectedLevel, setSelectedLevel] = useState<number>(AUTO_QUALITY);
+  const [activeLevel, setActiveLevel] = useState<number>(AUTO_QUALITY);
+  const [isNative, setIsNative] = useState(false);
+
+  useEffect(() => {
+    refreshSrcRef.current = refreshSrc;
+  }, [refreshSrc]);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video || !hlsSrc) return;
+
+    let disposed = false;
+    let lastRefreshAt = 0;
+
+    // Fresh master URL, or null when there is no refresher, one was tried just now, or it failed
+    const fetchFreshSrc = async (): Promise<string | null> => {
+      const refresh = refreshSrcRef.current;
+      if (!refresh || Date.now() - lastRefreshAt < SOURCE_REFRESH_COOLDOWN_MS) return null;
+      lastRefreshAt = Date.now();
+      try {
+        const freshSrc = await refresh();
+        return disposed ? null : freshSrc;
+      } catch (error) {
+        console.error('❌ [HLS] Failed to refresh playback URL:', error);
+        return null;
+      }
+    };
+
+    // Resume at the same position (and play state) once the fresh source is loaded
+    const resumeAfterReload = (resumeAt: number, wasPlaying: boolean) => () => {
+      video.currentTime = resumeAt;
+      if (wasPlaying) {
+        video.play().catch(() => undefined);
+      }
+    };
+
+    setLevels([]);
+    setSelectedLevel(AUTO_QUALITY);
+    setActiveLevel(AUTO_QUALITY);
+
+    if (Hls.isSupported()) {
+      const hls = new Hls({
+        // Start conservatively; slow mobile connections are the common case
+        startLevel: 0,
+        capLevelToPlayerSize: true,
+        maxBufferLength: 30
+      });
+      hlsRef.current = hls;
+      setIsNative(false);
+
+      hls.on(Hls.Events.MANIFEST_PARSED, (_event, data) => {
+        setLevels(
+          data.levels
+            .map((level, index) => ({
+              index,
+              height: level.height,
+              bitrate: level.bitrate,
+              label: level.height ? `${level.height}p` : `${Math.round(level.bitrate / 1000)} kbps`
+            }))
+            .sort((a, b) => b.height - a.height)
+        );
+      });
+
+      hls.on(Hls.Events.LEVEL_SWITCHED, (_event, data) => {
+        setActiveLevel(data.level);
+      });
+
+      hls.on(Hls.Events.ERROR, (_event, data) => {
+        if (!data.fatal) return;
+
+        switch (data.type) {
+          case Hls.ErrorTypes.NETWORK_ERROR: {
+            const status = data.response?.code;
+            if (status !== 401 && status !== 403) {
+              console.warn('⚠️ [HLS] Network error, retrying load');
+              hls.startLoad();
+              break;
+            }
+
+            // Expired playback token (401) or presigned segment URL (403)
+            console.warn('⚠️ [HLS] Playback authorization expired, refreshing stream URL');
+            const resume = resumeAfterReload(video.currentTime, !video.paused);
+            fetchFreshSrc().then((freshSrc) => {
+              if (disposed) return;
+              if (!freshSrc) {
+                onFatalError?.('Playback session expired. Reload the page to continue.');
+                return;
+              }
+              hls.once(Hls.Events.MANIFEST_PARSED, resume);
+              hls.loadSource(freshSrc);
+            });
+            break;
+          }
+          case Hls.ErrorTypes.MEDIA_ERROR:
+            console.warn('⚠️ [HLS] Media error, attempting recovery');
+            hls.recoverMediaError();
+            break;
+          default:
+            console.error('❌ [HLS] Fatal error:', data.details);
+            onFatalError?.(`Stream error: ${data.details}`);
+            hls.destroy();
+            hlsRef.current = null;
+            break;
+        }
+      });
+
+      hls.loadSource(hlsSrc);
+      hls.attachMedia(video);
+
+      return () => {
+        disposed = true;
+        hls.destroy();
+        hlsRef.current = null;
+      };
+    }
+
+    if (video.canPlayType('application/vnd.apple.mpegurl')) {
+      // Native HLS picks renditions itself; no manual quality selection
+      setIsNative(true);
+      video.src = hlsSrc;
+
+      // Native playback doesn't expose the HTTP status, so any network error gets one fresh URL
+      const handleNativeError = () => {
+        if (video.error?.code !== MediaError.MEDIA_ERR_NETWORK) return;
+        const resume = resumeAfterReload(video.currentTime, !video.paused);
+        fetchFreshSrc().then((freshSrc) => {
+          if (!freshSrc) return;
+          video.addEventListener('loadedmetadata', resume, { once: true });
+          video.src = freshSrc;
+        });
+      };
+      video.addEventListener('error', handleNativeError);
+
+      return () => {
+        disposed = true;
+        video.removeEventListener('error', handleNativeError);
+        video.removeAttribute('src');
+        video.load();
+      };
+    }
+
+    onFatalError?.('Adaptive streaming is not supported in this browser');
+  }, [videoRef, hlsSrc, onFatalError]);
+
+  const selectLevel = useCallback((levelIndex: number) => {
+    const hls = hlsRef.current;
+    if (!hls) return;
+
+    // currentLevel switches immediately (flushing the buffer) so the change is visible
+    hls.currentLevel = levelIndex;
+    setSelectedLevel(levelIndex);
+  }, []);
+
+  return {
+    isHls: !!hlsSrc,
+    isNative,
+    levels,
+    selectedLevel,
+    activeLevel,
+    selectLevel
+  };
+};
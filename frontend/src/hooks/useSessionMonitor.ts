@@ -1,6 +1,7 @@
 import { useEffect, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { buildApiUrl } from '../config/environment';
+import { config } from '../config/environment';
+import { authFetch, clearAccessToken, getAccessToken } from '../utils/api';
 
 interface SessionStatus {
   isValid: boolean;
@@ -15,7 +16,7 @@ export const useSessionMonitor = () => {
   const navigate = useNavigate();
 
   const checkSessionStatus = async () => {
-    const token = localStorage.getItem('token');
+    const token = getAccessToken();
     
     if (!token) {
       setSessionStatus({ isValid: false, isDeactivated: false });
@@ -25,13 +26,8 @@ export const useSessionMonitor = () => {
     // Only check session status if user has a token (is logged in)
 
     try {
-      const response = await fetch(buildApiUrl('/api/auth/me'), {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-      });
+      // authFetch renews an expired access token from the refresh cookie before giving up
+      const response = await authFetch(config.API_ENDPOINTS.AUTH.ME, { method: 'GET' });
 
       const result = await response.json();
 
@@ -44,7 +40,7 @@ export const useSessionMonitor = () => {
         });
       } else {
         // Check if it's a deactivation error
-        if (result.message && (
+        if (result.code === 'ACCOUNT_INACTIVE' || result.code === 'TOKEN_INVALIDATED' || result.message && (
           result.message.includes('Account is not active') || 
           result.message.includes('account is not active') ||
           result.message.includes('Token has been invalidated') ||
@@ -54,7 +50,6 @@ export const useSessionMonitor = () => {
           // Try to get user email from token if available
           let userEmail = undefined;
           try {
-            const token = localStorage.getItem('token');
             if (token) {
               const decoded = JSON.parse(atob(token.split('.')[1]));
               userEmail = decoded.email;
@@ -75,7 +70,7 @@ export const useSessionMonitor = () => {
           setShowSuspendedModal(true);
           
           // Clear the invalid token
-          localStorage.removeItem('token');
+          clearAccessToken();
           localStorage.removeItem('user');
           
         } else {
@@ -87,7 +82,7 @@ export const useSessionMonitor = () => {
           });
           
           // Clear invalid token and redirect to login
-          localStorage.removeItem('token');
+          clearAccessToken();
           localStorage.removeItem('user');
           navigate('/login');
         }
@@ -1,6 +1,6 @@
 import { useQuery, UseQueryResult } from '@tanstack/react-query';
-import { buildApiUrl } from '../config/environment';
 import { queryKeys, cachePersister } from '../lib/queryClient';
+import { authFetch, getAccessToken } from '../utils/api';
 
 export interface User {
   _id: string;
@@ -51,18 +51,14 @@ export const useUserProfile = (): UseQueryResult<UserProfile> => {
   return useQuery({
     queryKey: queryKeys.user.profile(),
     queryFn: async (): Promise<UserProfile> => {
-      const token = localStorage.getItem('token');
+      const token = getAccessToken();
       
       if (!token) {
         throw new Error('Authentication required');
       }
 
       // Fetch user data
-      const userResponse = await fetch(buildApiUrl('/api/auth/me'), {
-        headers: {
-          'Authorization': `Bearer ${token}`
-        }
-      });
+      const userResponse = await authFetch('/api/auth/me');
 
       if (!userResponse.ok) {
         const errorData = await userResponse.json().catch(() => ({}));
@@ -76,11 +72,7 @@ export const useUserProfile = (): UseQueryResult<UserProfile> => {
       let photoUrl: string | undefined;
       if (user.profilePhotoKey) {
         try {
-          const photoResponse = await fetch(buildApiUrl('/api/users/me/photo'), {
-            headers: {
-              'Authorization': `Bearer ${token}`
-            }
-          });
+          const photoResponse = await authFetch('/api/users/me/photo');
           
           if (photoResponse.ok) {
             const photoResult = await photoResponse.json();
@@ -118,18 +110,14 @@ export const useUserDashboard = (): UseQueryResult<DashboardData> => {
   return useQuery({
     queryKey: queryKeys.user.dashboard(),
     queryFn: async (): Promise<DashboardData> => {
-      const token = localStorage.getItem('token');
+      const token = getAccessToken();
       
       if (!token) {
         throw new Error('Authentication required');
       }
 
       // Fetch user data
-      const userResponse = await fetch(buildApiUrl('/api/auth/me'), {
-        headers: {
-          'Authorization': `Bearer ${token}`
-        }
-      });
+      const userResponse = await authFetch('/api/auth/me');
 
       if (!userResponse.ok) {
         const errorData = await userResponse.json().catch(() => ({}));
@@ -140,11 +128,7 @@ export const useUserDashboard = (): UseQueryResult<DashboardData> => {
       const user = userResult?.data?.user || userResult?.data || userResult;
 
       // Fetch dashboard progress data
-      const progressResponse = await fetch(buildApiUrl('/api/progress/dashboard'), {
-        headers: {
-          'Authorization': `Bearer ${token}`
-        }
-      });
+      const progressResponse = await authFetch('/api/progress/dashboard');
       
       if (!progressResponse.ok) {
         const errorData = await progressResponse.json().catch(() => ({}));
@@ -1,6 +1,6 @@
 import { useQuery, useMutation, useQueryClient, UseQueryResult, UseMutationResult } from '@tanstack/react-query';
-import { buildApiUrl } from '../config/environment';
 import { queryKeys, cachePersister } from '../lib/queryClient';
+import { authFetch, getAccessToken } from '../utils/api';
 
 export interface VideoProgress {
   watchedDuration: number;
@@ -53,14 +53,13 @@ export const useCourseProgress = (courseId: string): UseQueryResult<CourseProgre
   return useQuery({
     queryKey: queryKeys.user.progress(courseId),
     queryFn: async (): Promise<CourseProgress> => {
-      const token = localStorage.getItem('token');
+      const token = getAccessToken();
       if (!token) {
         throw new Error('Authentication required');
       }
 
-      const response = await fetch(buildApiUrl(`/api/progress/course/${courseId}`), {
+      const response = await authFetch(`/api/progress/course/${courseId}`, {
         headers: {
-          'Authorization': `Bearer ${token}`,
           'Content-Type': 'application/json',
         },
       });
@@ -107,15 +106,14 @@ export const useUpdateVideoProgress = (): UseMutationResult<any, Error, Progress
   
   return useMutation({
     mutationFn: async (data: ProgressUpdateData): Promise<any> => {
-      const token = localStorage.getItem('token');
+      const token = getAccessToken();
       if (!token) {
         throw new Error('Authentication required');
       }
 
-      const response = await fetch(buildApiUrl('/api/progress/update'), {
+      const response = await authFetch('/api/progress/update', {
         method: 'POST',
         headers: {
-          'Authorization': `Bearer ${token}`,
           'Content-Type': 'application/json',
         },
         body: JSON.stringify(data),
@@ -187,14 +185,13 @@ export const useDashboardProgress = (): UseQueryResult<any> => {
   return useQuery({
     queryKey: queryKeys.user.dashboard(),
     queryFn: async () => {
-      const token = localStorage.getItem('token');
+      const token = getAccessToken();
       if (!token) {
         throw new Error('Authentication required');
       }
 
-      const response = await fetch(buildApiUrl('/api/progress/dashboard'), {
+      const response = await authFetch('/api/progress/dashboard', {
         headers: {
-          'Authorization': `Bearer ${token}`,
           'Content-Type': 'application/json',
         },
       });
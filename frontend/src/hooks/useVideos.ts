@@ -2,6 +2,7 @@ import { useQuery, UseQueryResult } from '@tanstack/react-query';
 import { buildApiUrl } from '../config/environment';
 import { queryKeys } from '../lib/queryClient';
 import { DRMVideoService } from '../services/drmVideoService';
+import { getAccessToken } from '../utils/api';
 
 export interface Video {
   id: string;
@@ -29,7 +30,7 @@ export const useCourseVideos = (
   return useQuery({
     queryKey: queryKeys.videos.course(courseId, version),
     queryFn: async (): Promise<CourseVideosResponse> => {
-      const token = localStorage.getItem('token');
+      const token = getAccessToken();
       
       if (!token) {
         throw new Error('Authentication required');
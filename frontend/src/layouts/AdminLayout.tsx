@@ -6,7 +6,7 @@ import ScrollToTop from '../components/ScrollToTop';
 
 const AdminLayout: React.FC = () => {
   const location = useLocation();
-  const { isAuthenticated, isLoading } = useAdminAuth();
+  const { isAuthenticated, isLoading, canAccessSection } = useAdminAuth();
   const isLoginRoute = location.pathname === '/admin/login';
 
   // Show loading spinner while checking authentication
@@ -31,6 +31,11 @@ const AdminLayout: React.FC = () => {
     return <Navigate to="/admin/dashboard" replace />;
   }
 
+  // Sections outside the admin's role go back to the dashboard (the API rejects them anyway)
+  if (isAuthenticated && !canAccessSection(location.pathname)) {
+    return <Navigate to="/admin/dashboard" replace />;
+  }
+
   return (
     <div className="min-h-screen bg-gray-50 flex flex-col">
       <AdminNavbar />
@@ -0,0 +1,389 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { buildApiUrl } from '../config/environment';
+import { Download, ChevronDown, ChevronRight, X } from 'lucide-react';
+import Toast from '../components/Toast';
+import { downloadAdminFile } from '../utils/download';
+
+interface AuditChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+interface AuditLogEntry {
+  _id: string;
+  action: string;
+  entityType: string;
+  entityId: string;
+  entityTitle: string;
+  performedBy: string;
+  details?: Record<string, unknown>;
+  changes?: AuditChange[];
+  timestamp: string;
+  ipAddress?: string;
+}
+
+interface AuditFilters {
+  actor: string;
+  entityType: string;
+  entityId: string;
+  action: string;
+  from: string;
+  to: string;
+}
+
+interface FilterOptions {
+  actions: string[];
+  entityTypes: string[];
+  actors: string[];
+}
+
+const emptyFilters: AuditFilters = {
+  actor: '',
+  entityType: '',
+  entityId: '',
+  action: '',
+  from: '',
+  to: ''
+};
+
+const PAGE_SIZE = 25;
+
+const authHeaders = () => {
+  const adminToken = localStorage.getItem('adminToken');
+  if (!adminToken) {
+    throw new Error('Admin token not found');
+  }
+  return { 'Authorization': `Bearer ${adminToken}` };
+};
+
+// "course_access_granted" -> "Course access granted"
+const formatAction = (action: string) => {
+  const text = action.replace(/_/g, ' ');
+  return text.charAt(0).toUpperCase() + text.slice(1);
+};
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+const toQuery = (filters: AuditFilters, extra: Record<string, string> = {}) => {
+  const params = new URLSearchParams(extra);
+  (Object.keys(filters) as (keyof AuditFilters)[]).forEach(key => {
+    if (filters[key].trim()) params.set(key, filters[key].trim());
+  });
+  return params.toString();
+};
+
+const AdminAuditLogPage: React.FC = () => {
+  // Admin pages are in English only
+  const [logs, setLogs] = useState<AuditLogEntry[]>([]);
+  const [filterOptions, setFilterOptions] = useState<FilterOptions>({ actions: [], entityTypes: [], actors: [] });
+  const [filters, setFilters] = useState<AuditFilters>(emptyFilters);
+  const [appliedFilters, setAppliedFilters] = useState<AuditFilters>(emptyFilters);
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [total, setTotal] = useState(0);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [toast, setToast] = useState<{ message: string; type: 'success' | 'error' } | null>(null);
+
+  const fetchLogs = useCallback(async () => {
+    try {
+      setLoading(true);
+      const query = toQuery(appliedFilters, { page: page.toString(), limit: PAGE_SIZE.toString() });
+      const response = await fetch(buildApiUrl(`/api/admin/audit-logs?${query}`), { headers: authHeaders() });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to load audit log');
+      }
+
+      setLogs(data.data.logs || []);
+      setTotalPages(data.data.pagination.pages || 1);
+      setTotal(data.data.pagination.total || 0);
+      setError(null);
+    } catch (err) {
+      console.error('Error fetching audit logs:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load audit log');
+      setLogs([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [appliedFilters, page]);
+
+  useEffect(() => {
+    fetchLogs();
+  }, [fetchLogs]);
+
+  useEffect(() => {
+    const fetchFilterOptions = async () => {
+      try {
+        const response = await fetch(buildApiUrl('/api/admin/audit-logs/filters'), { headers: authHeaders() });
+        if (response.ok) {
+          const data = await response.json();
+          setFilterOptions(data.data);
+        }
+      } catch (err) {
+        console.error('Error fetching audit log filters:', err);
+      }
+    };
+
+    fetchFilterOptions();
+  }, []);
+
+  const handleApply = (e: React.FormEvent) => {
+    e.preventDefault();
+    setPage(1);
+    setAppliedFilters(filters);
+  };
+
+  const handleClear = () => {
+    setFilters(emptyFilters);
+    setAppliedFilters(emptyFilters);
+    setPage(1);
+  };
+
+  const handleExport = async () => {
+    try {
+      setIsExporting(true);
+      await downloadAdminFile(`/api/admin/audit-logs/export?${toQuery(appliedFilters)}`, `audit-log-${new Date().toISOString().slice(0, 10)}.csv`);
+    } catch (err) {
+      console.error('Error exporting audit logs:', err);
+      setToast({ message: err instanceof Error ? err.message : 'Failed to export audit log', type: 'error' });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const inputClass = 'w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white text-sm placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-cyan-500';
+
+  return (
+    <div className="min-h-screen bg-gray-900 pt-16">
+      {/* Header */}
+      <div className="bg-gray-900/80 shadow-sm border-b border-gray-800">
+        <div className="max-w-7xl mx-auto px-3 xxs:px-4 sm:px-6 lg:px-8 py-4 xxs:py-6">
+          <div className="flex flex-col xxs:flex-row xxs:items-center xxs:justify-between space-y-4 xxs:space-y-0">
+            <div>
+              <h1 className="text-2xl xxs:text-3xl font-bold text-white">Audit Log</h1>
+              <p className="mt-2 text-gray-400 text-sm xxs:text-base">Every admin action on courses, users, content and payments</p>
+            </div>
+            <button
+              onClick={handleExport}
+              disabled={isExporting}
+              className="inline-flex items-center px-3 xxs:px-4 py-2 border border-transparent text-xs xxs:text-sm font-medium rounded-lg text-white bg-gradient-to-r from-cyan-600 to-blue-600 hover:from-cyan-500 hover:to-blue-500 disabled:opacity-50"
+            >
+              <Download className="h-3 w-3 xxs:h-4 xxs:w-4 mr-1 xxs:mr-2" />
+              {isExporting ? 'Exporting...' : 'Export CSV'}
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {/* Filters */}
+      <div className="max-w-7xl mx-auto px-3 xxs:px-4 sm:px-6 lg:px-8 py-4 xxs:py-6">
+        <form onSubmit={handleApply} className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-6 gap-3">
+          <div>
+            <input
+              type="text"
+              list="audit-actors"
+              value={filters.actor}
+              onChange={(e) => setFilters({ ...filters, actor: e.target.value })}
+              placeholder="Actor email"
+              className={inputClass}
+            />
+            <datalist id="audit-actors">
+              {filterOptions.actors.map(actor => <option key={actor} value={actor} />)}
+            </datalist>
+          </div>
+          <select
+            value={filters.entityType}
+            onChange={(e) => setFilters({ ...filters, entityType: e.target.value })}
+            className={inputClass}
+          >
+            <option value="">All entities</option>
+            {filterOptions.entityTypes.map(type => (
+              <option key={type} value={type}>{formatAction(type)}</option>
+            ))}
+          </select>
+          <select
+            value={filters.action}
+            onChange={(e) => setFilters({ ...filters, action: e.target.value })}
+            className={inputClass}
+          >
+            <option value="">All actions</option>
+            {filterOptions.actions.map(action => (
+              <option key={action} value={action}>{formatAction(action)}</option>
+            ))}
+          </select>
+          <input
+            type="text"
+            value={filters.entityId}
+            onChange={(e) => setFilters({ ...filters, entityId: e.target.value })}
+            placeholder="Entity ID"
+            className={`${inputClass} font-mono`}
+          />
+          <input
+            type="date"
+            value={filters.from}
+            onChange={(e) => setFilters({ ...filters, from: e.target.value })}
+            className={inputClass}
+            aria-label="From date"
+          />
+          <input
+            type="date"
+            value={filters.to}
+            onChange={(e) => setFilters({ ...filters, to: e.target.value })}
+            className={inputClass}
+            aria-label="To date"
+          />
+          <div className="sm:col-span-2 lg:col-span-6 flex items-center gap-2">
+            <button
+              type="submit"
+              className="px-4 py-2 text-sm font-medium rounded-lg text-white bg-cyan-600 hover:bg-cyan-500"
+            >
+              Apply filters
+            </button>
+            <button
+              type="button"
+              onClick={handleClear}
+              className="inline-flex items-center px-3 py-2 text-sm text-gray-400 hover:text-white"
+            >
+              <X className="h-4 w-4 mr-1" />
+              Clear
+            </button>
+            <span className="ml-auto text-sm text-gray-400">{total} entries</span>
+          </div>
+        </form>
+      </div>
+
+      {/* Entries */}
+      <div className="max-w-7xl mx-auto px-3 xxs:px-4 sm:px-6 lg:px-8 pb-8">
+        {error && (
+          <div className="mb-4 p-4 bg-red-500/20 border border-red-500/30 rounded-lg text-red-300">
+            {error}
+          </div>
+        )}
+
+        {loading ? (
+          <div className="text-center py-12 text-gray-400">Loading audit log...</div>
+        ) : logs.length === 0 ? (
+          <div className="text-center py-12">
+            <p className="text-gray-400 text-lg">No audit entries found</p>
+          </div>
+        ) : (
+          <div className="bg-gray-800 rounded-lg border border-gray-700 overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-700 text-sm">
+              <thead className="bg-gray-900/50">
+                <tr>
+                  <th className="w-8" />
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">When</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">Actor</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">Action</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">Entity</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-700">
+                {logs.map(log => {
+                  const isExpanded = expandedId === log._id;
+                  const hasDetails = (log.changes && log.changes.length > 0) || (log.details && Object.keys(log.details).length > 0);
+                  return (
+                    <React.Fragment key={log._id}>
+                      <tr
+                        onClick={() => hasDetails && setExpandedId(isExpanded ? null : log._id)}
+                        className={hasDetails ? 'cursor-pointer hover:bg-gray-700/40' : ''}
+                      >
+                        <td className="pl-3 text-gray-500">
+                          {hasDetails && (isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />)}
+                        </td>
+                        <td className="px-4 py-3 whitespace-nowrap text-gray-300">{new Date(log.timestamp).toLocaleString()}</td>
+                        <td className="px-4 py-3 whitespace-nowrap text-gray-300">{log.performedBy}</td>
+                        <td className="px-4 py-3 whitespace-nowrap">
+                          <span className="px-2 py-1 text-xs bg-cyan-500/20 text-cyan-300 rounded">{formatAction(log.action)}</span>
+                        </td>
+                        <td className="px-4 py-3 text-gray-300">
+                          <span className="text-gray-500 capitalize mr-1">{log.entityType}:</span>
+                          {log.entityTitle}
+                        </td>
+                      </tr>
+                      {isExpanded && (
+                        <tr className="bg-gray-900/40">
+                          <td />
+                          <td colSpan={4} className="px-4 py-3 space-y-3">
+                            {log.changes && log.changes.length > 0 && (
+                              <table className="text-xs">
+                                <thead>
+                                  <tr className="text-gray-500">
+                                    <th className="pr-6 text-left font-medium">Field</th>
+                                    <th className="pr-6 text-left font-medium">Before</th>
+                                    <th className="text-left font-medium">After</th>
+                                  </tr>
+                                </thead>
+                                <tbody>
+                                  {log.changes.map(change => (
+                                    <tr key={change.field} className="align-top">
+                                      <td className="pr-6 py-1 text-gray-400 font-mono">{change.field}</td>
+                                      <td className="pr-6 py-1 text-red-300 break-all">{formatValue(change.before)}</td>
+                                      <td className="py-1 text-green-300 break-all">{formatValue(change.after)}</td>
+                                    </tr>
+                                  ))}
+                                </tbody>
+                              </table>
+                            )}
+                            {log.details && Object.keys(log.details).length > 0 && (
+                              <pre className="text-xs text-gray-400 whitespace-pre-wrap break-all">{JSON.stringify(log.details, null, 2)}</pre>
+                            )}
+                            <p className="text-xs text-gray-500 font-mono">
+                              {log.entityType} {log.entityId}{log.ipAddress ? ` · ${log.ipAddress}` : ''}
+                            </p>
+                          </td>
+                        </tr>
+                      )}
+                    </React.Fragment>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {/* Pagination */}
+        {totalPages > 1 && (
+          <div className="mt-4 flex items-center justify-between text-sm text-gray-400">
+            <span>Page {page} of {totalPages}</span>
+            <div className="flex gap-2">
+              <button
+                onClick={() => setPage(page - 1)}
+                disabled={page <= 1}
+                className="px-3 py-1 rounded-lg bg-gray-800 border border-gray-700 hover:bg-gray-700 disabled:opacity-50"
+              >
+                Previous
+              </button>
+              <button
+                onClick={() => setPage(page + 1)}
+                disabled={page >= totalPages}
+                className="px-3 py-1 rounded-lg bg-gray-800 border border-gray-700 hover:bg-gray-700 disabled:opacity-50"
+              >
+                Next
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Toast */}
+      {toast && (
+        <Toast
+          message={toast.message}
+          type={toast.type}
+          onClose={() => setToast(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default AdminAuditLogPage;
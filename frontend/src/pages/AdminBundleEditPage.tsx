@@ -4,7 +4,9 @@ import { useParams, Link, useNavigate } from 'react-router-dom';
 import { Save, X, Upload, CheckCircle, AlertCircle, BookOpen } from 'lucide-react';
 import ProgressOverlay from '../components/ProgressOverlay';
 import Toast from '../components/Toast';
+import LocalPricesInput from '../components/LocalPricesInput';
 import { getEnglishText, getTigrinyaText } from '../utils/bilingualHelper';
+import { LocalPrices, toLocalPriceInputs } from '../utils/currency';
 
 interface Course {
   _id: string;
@@ -20,6 +22,7 @@ interface Bundle {
   description: string;
   longDescription?: string;
   price: number;
+  prices?: LocalPrices;
   originalValue?: number;
   status: 'active' | 'inactive' | 'archived';
   category?: string;
@@ -49,6 +52,7 @@ const AdminBundleEditPage: React.FC = () => {
     longDescriptionEn: '',
     longDescriptionTg: '',
     price: 0,
+    prices: toLocalPriceInputs(),
     originalValue: 0,
     courseIds: [] as string[],
     category: '',
@@ -146,6 +150,7 @@ const AdminBundleEditPage: React.FC = () => {
           longDescriptionEn: longDescriptionData.en,
           longDescriptionTg: longDescriptionData.tg,
           price: bundleInfo.price || 0,
+          prices: toLocalPriceInputs(bundleInfo.prices),
           originalValue: bundleInfo.originalValue || 0,
           courseIds: bundleInfo.courseIds.map((c: any) => c._id || c),
           category: bundleInfo.category || '',
@@ -243,6 +248,7 @@ const AdminBundleEditPage: React.FC = () => {
         description: JSON.stringify({ en: formData.descriptionEn, tg: formData.descriptionTg }),
         longDescription: JSON.stringify({ en: formData.longDescriptionEn || formData.descriptionEn, tg: formData.longDescriptionTg || formData.descriptionTg }),
         price: formData.price,
+        prices: formData.prices,
         originalValue: formData.originalValue || undefined,
         courseIds: formData.courseIds,
         category: formData.category || undefined,
@@ -480,6 +486,11 @@ const AdminBundleEditPage: React.FC = () => {
                   />
                 </div>
               </div>
+
+              <LocalPricesInput
+                prices={formData.prices}
+                onChange={(prices) => setFormData(prev => ({ ...prev, prices }))}
+              />
             </div>
           </div>
 
@@ -4,7 +4,9 @@ import { useNavigate, Link } from 'react-router-dom';
 import { Upload, X, CheckCircle, AlertCircle } from 'lucide-react';
 import ProgressOverlay from '../components/ProgressOverlay';
 import Toast from '../components/Toast';
+import LocalPricesInput from '../components/LocalPricesInput';
 import { getEnglishText } from '../utils/bilingualHelper';
+import { toLocalPriceInputs } from '../utils/currency';
 
 interface Course {
   _id: string;
@@ -22,6 +24,7 @@ const AdminBundleUploadPage: React.FC = () => {
     description: { en: '', tg: '' },
     longDescription: { en: '', tg: '' },
     price: 0,
+    prices: toLocalPriceInputs(),
     originalValue: 0,
     courseIds: [] as string[],
     category: '',
@@ -166,6 +169,7 @@ const AdminBundleUploadPage: React.FC = () => {
         description: JSON.stringify(bundle.description),
         longDescription: JSON.stringify(bundle.longDescription.en || bundle.longDescription.tg ? bundle.longDescription : bundle.description),
         price: bundle.price,
+        prices: bundle.prices,
         originalValue: bundle.originalValue || undefined,
         courseIds: bundle.courseIds,
         category: bundle.category || undefined,
@@ -402,6 +406,11 @@ const AdminBundleUploadPage: React.FC = () => {
                   <p className="text-xs text-gray-500 mt-1">Auto-calculated from selected courses</p>
                 </div>
               </div>
+
+              <LocalPricesInput
+                prices={bundle.prices}
+                onChange={(prices) => setBundle(prev => ({ ...prev, prices }))}
+              />
             </div>
           </div>
 
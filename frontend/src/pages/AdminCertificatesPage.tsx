@@ -0,0 +1,438 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { buildApiUrl } from '../config/environment';
+import { ChevronDown, ChevronRight, Search, Ban, RefreshCw, ExternalLink } from 'lucide-react';
+import Toast from '../components/Toast';
+import { useAdminAuth } from '../contexts/AdminAuthContext';
+import { ADMIN_PERMISSIONS } from '../config/adminPermissions';
+
+type CertificateStatus = 'active' | 'revoked' | 'superseded';
+
+interface HistoryEntry {
+  action: 'issued' | 'revoked' | 'reissued' | 'superseded';
+  at: string;
+  by?: string;
+  reason?: string;
+  certificateId?: string;
+  relatedCertificateId?: string;
+  changes?: { field: string; before?: string; after?: string }[];
+}
+
+interface AdminCertificate {
+  _id: string;
+  certificateId: string;
+  studentId?: { _id: string; name: string; email: string } | null;
+  studentName: string;
+  courseTitle: string;
+  dateIssued: string;
+  completionDate: string;
+  status: CertificateStatus;
+  revokedAt?: string;
+  revokedBy?: string;
+  revocationReason?: string;
+  supersedes?: string;
+  supersededBy?: string;
+  history: HistoryEntry[];
+}
+
+// Inline action form open on one certificate
+type ActionForm =
+  | { type: 'revoke'; certificateId: string; reason: string }
+  | { type: 'reissue'; certificateId: string; studentName: string; courseTitle: string; reason: string };
+
+const PAGE_SIZE = 25;
+
+const STATUS_STYLES: Record<CertificateStatus, string> = {
+  active: 'bg-green-500/20 text-green-300',
+  revoked: 'bg-red-500/20 text-red-300',
+  superseded: 'bg-yellow-500/20 text-yellow-300'
+};
+
+const HISTORY_LABELS: Record<HistoryEntry['action'], string> = {
+  issued: 'Issued',
+  revoked: 'Revoked',
+  reissued: 'Reissued',
+  superseded: 'Replaced'
+};
+
+const authHeaders = () => {
+  const adminToken = localStorage.getItem('adminToken');
+  if (!adminToken) {
+    throw new Error('Admin token not found');
+  }
+  return { 'Authorization': `Bearer ${adminToken}`, 'Content-Type': 'application/json' };
+};
+
+const AdminCertificatesPage: React.FC = () => {
+  // Admin pages are in English only
+  const { hasPermission } = useAdminAuth();
+  const canManage = hasPermission(ADMIN_PERMISSIONS.USERS_MANAGE);
+
+  const [certificates, setCertificates] = useState<AdminCertificate[]>([]);
+  const [search, setSearch] = useState('');
+  const [appliedSearch, setAppliedSearch] = useState('');
+  const [status, setStatus] = useState('');
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [total, setTotal] = useState(0);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [actionForm, setActionForm] = useState<ActionForm | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [toast, setToast] = useState<{ message: string; type: 'success' | 'error' } | null>(null);
+
+  const fetchCertificates = useCallback(async () => {
+    try {
+      setLoading(true);
+      const params = new URLSearchParams({ page: page.toString(), limit: PAGE_SIZE.toString() });
+      if (appliedSearch.trim()) params.set('search', appliedSearch.trim());
+      if (status) params.set('status', status);
+
+      const response = await fetch(buildApiUrl(`/api/certificates/admin?${params}`), { headers: authHeaders() });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to load certificates');
+      }
+
+      setCertificates(data.data.certificates || []);
+      setTotalPages(data.data.pagination.pages || 1);
+      setTotal(data.data.pagination.total || 0);
+      setError(null);
+    } catch (err) {
+      console.error('Error fetching certificates:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load certificates');
+      setCertificates([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [appliedSearch, status, page]);
+
+  useEffect(() => {
+    fetchCertificates();
+  }, [fetchCertificates]);
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setPage(1);
+    setAppliedSearch(search);
+  };
+
+  const submitAction = async () => {
+    if (!actionForm) return;
+    const { type, certificateId } = actionForm;
+    const body = type === 'revoke'
+      ? { reason: actionForm.reason }
+      : { studentName: actionForm.studentName, courseTitle: actionForm.courseTitle, reason: actionForm.reason };
+
+    try {
+      setIsSubmitting(true);
+      const response = await fetch(buildApiUrl(`/api/certificates/admin/${certificateId}/${type}`), {
+        method: 'POST',
+        headers: authHeaders(),
+        body: JSON.stringify(body)
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || `Failed to ${type} certificate`);
+      }
+
+      setToast({ message: data.message, type: 'success' });
+      setActionForm(null);
+      await fetchCertificates();
+    } catch (err) {
+      setToast({ message: err instanceof Error ? err.message : `Failed to ${type} certificate`, type: 'error' });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const inputClass = 'w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white text-sm placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-cyan-500';
+
+  const renderActionForm = (certificate: AdminCertificate) => {
+    if (!actionForm || actionForm.certificateId !== certificate.certificateId) return null;
+
+    return (
+      <div className="space-y-2 max-w-xl">
+        {actionForm.type === 'reissue' && (
+          <>
+            <input
+              type="text"
+              value={actionForm.studentName}
+              onChange={(e) => setActionForm({ ...actionForm, studentName: e.target.value })}
+              placeholder="Student name"
+              className={inputClass}
+            />
+            <input
+              type="text"
+              value={actionForm.courseTitle}
+              onChange={(e) => setActionForm({ ...actionForm, courseTitle: e.target.value })}
+              placeholder="Course title"
+              className={inputClass}
+            />
+          </>
+        )}
+        <input
+          type="text"
+          value={actionForm.reason}
+          onChange={(e) => setActionForm({ ...actionForm, reason: e.target.value })}
+          placeholder={actionForm.type === 'revoke' ? 'Reason (required, shown on the verification page)' : 'Reason (internal)'}
+          className={inputClass}
+        />
+        <p className="text-xs text-gray-500">
+          {actionForm.type === 'revoke'
+            ? 'The certificate will show as revoked on the public verification page.'
+            : 'A new certificate ID and PDF are issued; the current one will show as replaced.'}
+        </p>
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={submitAction}
+            disabled={isSubmitting || (actionForm.type === 'revoke' && !actionForm.reason.trim())}
+            className={`px-4 py-2 text-sm font-medium rounded-lg text-white disabled:opacity-50 ${
+              actionForm.type === 'revoke' ? 'bg-red-600 hover:bg-red-500' : 'bg-cyan-600 hover:bg-cyan-500'
+            }`}
+          >
+            {isSubmitting ? 'Saving...' : actionForm.type === 'revoke' ? 'Revoke certificate' : 'Reissue certificate'}
+          </button>
+          <button
+            type="button"
+            onClick={() => setActionForm(null)}
+            className="px-3 py-2 text-sm text-gray-400 hover:text-white"
+          >
+            Cancel
+          </button>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-900 pt-16">
+      {/* Header */}
+      <div className="bg-gray-900/80 shadow-sm border-b border-gray-800">
+        <div className="max-w-7xl mx-auto px-3 xxs:px-4 sm:px-6 lg:px-8 py-4 xxs:py-6">
+          <h1 className="text-2xl xxs:text-3xl font-bold text-white">Certificates</h1>
+          <p className="mt-2 text-gray-400 text-sm xxs:text-base">Revoke certificates or reissue them with corrected details</p>
+        </div>
+      </div>
+
+      {/* Filters */}
+      <div className="max-w-7xl mx-auto px-3 xxs:px-4 sm:px-6 lg:px-8 py-4 xxs:py-6">
+        <form onSubmit={handleSearch} className="flex flex-col sm:flex-row gap-3">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-500" />
+            <input
+              type="text"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Certificate ID, student name or course title"
+              className={`${inputClass} pl-9`}
+            />
+          </div>
+          <select
+            value={status}
+            onChange={(e) => { setStatus(e.target.value); setPage(1); }}
+            className={`${inputClass} sm:w-48`}
+          >
+            <option value="">All statuses</option>
+            <option value="active">Active</option>
+            <option value="revoked">Revoked</option>
+            <option value="superseded">Replaced</option>
+          </select>
+          <button
+            type="submit"
+            className="px-4 py-2 text-sm font-medium rounded-lg text-white bg-cyan-600 hover:bg-cyan-500"
+          >
+            Search
+          </button>
+        </form>
+        <p className="mt-3 text-sm text-gray-400">{total} certificates</p>
+      </div>
+
+      {/* Certificates */}
+      <div className="max-w-7xl mx-auto px-3 xxs:px-4 sm:px-6 lg:px-8 pb-8">
+        {error && (
+          <div className="mb-4 p-4 bg-red-500/20 border border-red-500/30 rounded-lg text-red-300">
+            {error}
+          </div>
+        )}
+
+        {loading ? (
+          <div className="text-center py-12 text-gray-400">Loading certificates...</div>
+        ) : certificates.length === 0 ? (
+          <div className="text-center py-12">
+            <p className="text-gray-400 text-lg">No certificates found</p>
+          </div>
+        ) : (
+          <div className="bg-gray-800 rounded-lg border border-gray-700 overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-700 text-sm">
+              <thead className="bg-gray-900/50">
+                <tr>
+                  <th className="w-8" />
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">Certificate</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">Student</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">Course</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">Issued</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">Status</th>
+                  {canManage && <th className="px-4 py-3 text-right text-xs font-medium text-gray-400 uppercase tracking-wider">Actions</th>}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-700">
+                {certificates.map(certificate => {
+                  const isExpanded = expandedId === certificate._id;
+                  const hasForm = actionForm?.certificateId === certificate.certificateId;
+                  return (
+                    <React.Fragment key={certificate._id}>
+                      <tr
+                        onClick={() => setExpandedId(isExpanded ? null : certificate._id)}
+                        className="cursor-pointer hover:bg-gray-700/40"
+                      >
+                        <td className="pl-3 text-gray-500">
+                          {isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                        </td>
+                        <td className="px-4 py-3 whitespace-nowrap font-mono text-xs text-gray-300">{certificate.certificateId}</td>
+                        <td className="px-4 py-3 text-gray-300">
+                          <div>{certificate.studentName}</div>
+                          {certificate.studentId?.email && <div className="text-xs text-gray-500">{certificate.studentId.email}</div>}
+                        </td>
+                        <td className="px-4 py-3 text-gray-300">{certificate.courseTitle}</td>
+                        <td className="px-4 py-3 whitespace-nowrap text-gray-300">{new Date(certificate.dateIssued).toLocaleDateString()}</td>
+                        <td className="px-4 py-3 whitespace-nowrap">
+                          <span className={`px-2 py-1 text-xs rounded ${STATUS_STYLES[certificate.status]}`}>
+                            {certificate.status === 'superseded' ? 'Replaced' : certificate.status.charAt(0).toUpperCase() + certificate.status.slice(1)}
+                          </span>
+                        </td>
+                        {canManage && (
+                          <td className="px-4 py-3 whitespace-nowrap text-right" onClick={(e) => e.stopPropagation()}>
+                            {certificate.status !== 'superseded' && (
+                              <div className="inline-flex gap-2">
+                                {certificate.status === 'active' && (
+                                  <button
+                                    onClick={() => {
+                                      setExpandedId(certificate._id);
+                                      setActionForm({ type: 'revoke', certificateId: certificate.certificateId, reason: '' });
+                                    }}
+                                    className="inline-flex items-center px-2 py-1 text-xs rounded bg-red-600/20 text-red-300 hover:bg-red-600/40"
+                                  >
+                                    <Ban className="h-3 w-3 mr-1" />
+                                    Revoke
+                                  </button>
+                                )}
+                                <button
+                                  onClick={() => {
+                                    setExpandedId(certificate._id);
+                                    setActionForm({
+                                      type: 'reissue',
+                                      certificateId: certificate.certificateId,
+                                      studentName: certificate.studentName,
+                                      courseTitle: certificate.courseTitle,
+                                      reason: ''
+                                    });
+                                  }}
+                                  className="inline-flex items-center px-2 py-1 text-xs rounded bg-cyan-600/20 text-cyan-300 hover:bg-cyan-600/40"
+                                >
+                                  <RefreshCw className="h-3 w-3 mr-1" />
+                                  Reissue
+                                </button>
+                              </div>
+                            )}
+                          </td>
+                        )}
+                      </tr>
+                      {isExpanded && (
+                        <tr className="bg-gray-900/40">
+                          <td />
+                          <td colSpan={canManage ? 6 : 5} className="px-4 py-3 space-y-4">
+                            {hasForm && renderActionForm(certificate)}
+
+                            {certificate.status === 'revoked' && (
+                              <p className="text-xs text-red-300">
+                                Revoked {certificate.revokedAt ? new Date(certificate.revokedAt).toLocaleString() : ''}
+                                {certificate.revokedBy ? ` by ${certificate.revokedBy}` : ''}
+                                {certificate.revocationReason ? ` — ${certificate.revocationReason}` : ''}
+                              </p>
+                            )}
+
+                            <ol className="space-y-2 text-xs">
+                              {certificate.history.map((entry, index) => (
+                                <li key={index} className="text-gray-400">
+                                  <span className="text-gray-500">{new Date(entry.at).toLocaleString()}</span>
+                                  {' · '}
+                                  <span className="text-white">{HISTORY_LABELS[entry.action]}</span>
+                                  {entry.certificateId && <span className="font-mono"> {entry.certificateId}</span>}
+                                  {entry.relatedCertificateId && (
+                                    <span>{entry.action === 'superseded' ? ' by ' : ' from '}<span className="font-mono">{entry.relatedCertificateId}</span></span>
+                                  )}
+                                  {entry.by && <span> · {entry.by}</span>}
+                                  {entry.reason && <span> — {entry.reason}</span>}
+                                  {entry.changes && entry.changes.length > 0 && (
+                                    <ul className="ml-4 mt-1">
+                                      {entry.changes.map(change => (
+                                        <li key={change.field}>
+                                          <span className="font-mono text-gray-500">{change.field}</span>:{' '}
+                                          <span className="text-red-300">{change.before}</span> → <span className="text-green-300">{change.after}</span>
+                                        </li>
+                                      ))}
+                                    </ul>
+                                  )}
+                                </li>
+                              ))}
+                            </ol>
+
+                            <a
+                              href={`/verify/${certificate.certificateId}`}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="inline-flex items-center text-xs text-cyan-400 hover:text-cyan-300"
+                            >
+                              <ExternalLink className="h-3 w-3 mr-1" />
+                              Open verification page
+                            </a>
+                          </td>
+                        </tr>
+                      )}
+                    </React.Fragment>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {/* Pagination */}
+        {totalPages > 1 && (
+          <div className="mt-4 flex items-center justify-between text-sm text-gray-400">
+            <span>Page {page} of {totalPages}</span>
+            <div className="flex gap-2">
+              <button
+                onClick={() => setPage(page - 1)}
+                disabled={page <= 1}
+                className="px-3 py-1 rounded-lg bg-gray-800 border border-gray-700 hover:bg-gray-700 disabled:opacity-50"
+              >
+                Previous
+              </button>
+              <button
+                onClick={() => setPage(page + 1)}
+                disabled={page >= totalPages}
+                className="px-3 py-1 rounded-lg bg-gray-800 border border-gray-700 hover:bg-gray-700 disabled:opacity-50"
+              >
+                Next
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Toast */}
+      {toast && (
+        <Toast
+          message={toast.message}
+          type={toast.type}
+          onClose={() => setToast(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default AdminCertificatesPage;
@@ -0,0 +1,664 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { buildApiUrl } from '../config/environment';
+import { Plus, Edit, Trash2, Search, X, Eye, EyeOff, Tag } from 'lucide-react';
+import DeleteConfirmationModal from '../components/DeleteConfirmationModal';
+import Toast from '../components/Toast';
+import { getEnglishText } from '../utils/bilingualHelper';
+
+type BilingualText = string | { en: string; tg: string };
+type CouponScope = 'site' | 'course' | 'bundle';
+
+interface CouponTarget {
+  _id: string;
+  title: BilingualText;
+}
+
+interface Coupon {
+  _id: string;
+  code: string;
+  description: string;
+  discountType: 'percentage' | 'fixed';
+  discountValue: number;
+  scope: CouponScope;
+  courseIds: CouponTarget[];
+  bundleIds: CouponTarget[];
+  startsAt?: string;
+  expiresAt?: string;
+  maxRedemptions: number;
+  perUserLimit: number;
+  redemptionCount: number;
+  isActive: boolean;
+  createdAt: string;
+}
+
+interface CouponForm {
+  code: string;
+  description: string;
+  discountType: 'percentage' | 'fixed';
+  discountValue: string;
+  scope: CouponScope;
+  courseIds: string[];
+  bundleIds: string[];
+  startsAt: string;
+  expiresAt: string;
+  maxRedemptions: string;
+  perUserLimit: string;
+  isActive: boolean;
+}
+
+const emptyForm: CouponForm = {
+  code: '',
+  description: '',
+  discountType: 'percentage',
+  discountValue: '',
+  scope: 'site',
+  courseIds: [],
+  bundleIds: [],
+  startsAt: '',
+  expiresAt: '',
+  maxRedemptions: '0',
+  perUserLimit: '1',
+  isActive: true
+};
+
+// <input type="date"> works with YYYY-MM-DD
+const toDateInput = (value?: string) => (value ? value.slice(0, 10) : '');
+
+const authHeaders = () => {
+  const adminToken = localStorage.getItem('adminToken');
+  if (!adminToken) {
+    throw new Error('Admin token not found');
+  }
+  return {
+    'Authorization': `Bearer ${adminToken}`,
+    'Content-Type': 'application/json',
+  };
+};
+
+const formatDiscount = (coupon: Coupon) =>
+  coupon.discountType === 'percentage' ? `${coupon.discountValue}% off` : `$${coupon.discountValue.toFixed(2)} off`;
+
+const AdminCouponsPage: React.FC = () => {
+  // Admin pages are in English only
+  const [coupons, setCoupons] = useState<Coupon[]>([]);
+  const [courses, setCourses] = useState<CouponTarget[]>([]);
+  const [bundles, setBundles] = useState<CouponTarget[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [showModal, setShowModal] = useState(false);
+  const [editingCoupon, setEditingCoupon] = useState<Coupon | null>(null);
+  const [deleteTarget, setDeleteTarget] = useState<Coupon | null>(null);
+  const [isDeleting, setIsDeleting] = useState(false);
+  const [toast, setToast] = useState<{ message: string; type: 'success' | 'error' } | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [formData, setFormData] = useState<CouponForm>(emptyForm);
+
+  // Fetch coupons
+  const fetchCoupons = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await fetch(buildApiUrl('/api/coupons/admin'), { headers: authHeaders() });
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch coupons');
+      }
+
+      const data = await response.json();
+      setCoupons(data.data?.coupons || []);
+      setError(null);
+    } catch (err) {
+      console.error('Error fetching coupons:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load coupons');
+      setCoupons([]);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchCoupons();
+  }, [fetchCoupons]);
+
+  // Fetch the courses and bundles a coupon can be limited to
+  useEffect(() => {
+    const fetchTargets = async () => {
+      try {
+        const headers = authHeaders();
+        const [coursesResponse, bundlesResponse] = await Promise.all([
+          fetch(buildApiUrl('/api/courses?status=active&limit=1000'), { headers }),
+          fetch(buildApiUrl('/api/bundles?status=all&limit=1000'), { headers })
+        ]);
+
+        if (coursesResponse.ok) {
+          const data = await coursesResponse.json();
+          setCourses(data.data?.courses || data.courses || []);
+        }
+        if (bundlesResponse.ok) {
+          const data = await bundlesResponse.json();
+          setBundles(data.data?.bundles || []);
+        }
+      } catch (err) {
+        console.error('Error fetching courses and bundles:', err);
+      }
+    };
+
+    fetchTargets();
+  }, []);
+
+  // Handle create/edit
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!/^[A-Za-z0-9_-]{3,32}$/.test(formData.code.trim())) {
+      setToast({ message: 'Code must be 3-32 letters, numbers, dashes or underscores', type: 'error' });
+      return;
+    }
+
+    const discountValue = Number(formData.discountValue);
+    if (!discountValue || discountValue <= 0 || (formData.discountType === 'percentage' && discountValue > 100)) {
+      setToast({ message: 'Enter a valid discount value', type: 'error' });
+      return;
+    }
+
+    if (formData.scope === 'course' && formData.courseIds.length === 0) {
+      setToast({ message: 'Select at least one course', type: 'error' });
+      return;
+    }
+
+    if (formData.scope === 'bundle' && formData.bundleIds.length === 0) {
+      setToast({ message: 'Select at least one bundle', type: 'error' });
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+
+      const url = editingCoupon
+        ? buildApiUrl(`/api/coupons/admin/${editingCoupon._id}`)
+        : buildApiUrl('/api/coupons/admin');
+
+      const response = await fetch(url, {
+        method: editingCoupon ? 'PUT' : 'POST',
+        headers: authHeaders(),
+        body: JSON.stringify({
+          ...formData,
+          code: formData.code.trim().toUpperCase(),
+          discountValue,
+          maxRedemptions: Number(formData.maxRedemptions) || 0,
+          perUserLimit: Number(formData.perUserLimit) || 0,
+          startsAt: formData.startsAt || null,
+          expiresAt: formData.expiresAt ? `${formData.expiresAt}T23:59:59` : null
+        }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.message || 'Failed to save coupon');
+      }
+
+      setToast({
+        message: editingCoupon ? 'Coupon updated successfully' : 'Coupon created successfully',
+        type: 'success'
+      });
+
+      setShowModal(false);
+      setFormData(emptyForm);
+      fetchCoupons();
+    } catch (err) {
+      setToast({
+        message: err instanceof Error ? err.message : 'Failed to save coupon',
+        type: 'error'
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Handle delete
+  const handleDelete = async () => {
+    if (!deleteTarget) return;
+
+    try {
+      setIsDeleting(true);
+      const response = await fetch(buildApiUrl(`/api/coupons/admin/${deleteTarget._id}`), {
+        method: 'DELETE',
+        headers: authHeaders(),
+      });
+
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to delete coupon');
+      }
+
+      setToast({ message: data.message || 'Coupon deleted successfully', type: 'success' });
+      setDeleteTarget(null);
+      fetchCoupons();
+    } catch (err) {
+      setToast({
+        message: err instanceof Error ? err.message : 'Failed to delete coupon',
+        type: 'error'
+      });
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  // Toggle active status
+  const handleToggleActive = async (coupon: Coupon) => {
+    try {
+      const response = await fetch(buildApiUrl(`/api/coupons/admin/${coupon._id}`), {
+        method: 'PUT',
+        headers: authHeaders(),
+        body: JSON.stringify({ isActive: !coupon.isActive }),
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to update coupon');
+      }
+
+      fetchCoupons();
+    } catch (err) {
+      setToast({
+        message: err instanceof Error ? err.message : 'Failed to update coupon',
+        type: 'error'
+      });
+    }
+  };
+
+  // Open edit modal
+  const handleEdit = (coupon: Coupon) => {
+    setEditingCoupon(coupon);
+    setFormData({
+      code: coupon.code,
+      description: coupon.description || '',
+      discountType: coupon.discountType,
+      discountValue: String(coupon.discountValue),
+      scope: coupon.scope,
+      courseIds: coupon.courseIds.map(c => c._id),
+      bundleIds: coupon.bundleIds.map(b => b._id),
+      startsAt: toDateInput(coupon.startsAt),
+      expiresAt: toDateInput(coupon.expiresAt),
+      maxRedemptions: String(coupon.maxRedemptions),
+      perUserLimit: String(coupon.perUserLimit),
+      isActive: coupon.isActive
+    });
+    setShowModal(true);
+  };
+
+  // Open create modal
+  const handleCreate = () => {
+    setEditingCoupon(null);
+    setFormData(emptyForm);
+    setShowModal(true);
+  };
+
+  const toggleTarget = (key: 'courseIds' | 'bundleIds', id: string) => {
+    setFormData(prev => ({
+      ...prev,
+      [key]: prev[key].includes(id) ? prev[key].filter(existing => existing !== id) : [...prev[key], id]
+    }));
+  };
+
+  const describeScope = (coupon: Coupon) => {
+    if (coupon.scope === 'course') {
+      return `Courses: ${coupon.courseIds.map(c => getEnglishText(c.title)).join(', ')}`;
+    }
+    if (coupon.scope === 'bundle') {
+      return `Bundles: ${coupon.bundleIds.map(b => getEnglishText(b.title)).join(', ')}`;
+    }
+    return 'Site-wide';
+  };
+
+  const isExpired = (coupon: Coupon) => !!coupon.expiresAt && new Date(coupon.expiresAt) < new Date();
+
+  // Filter coupons
+  const filteredCoupons = coupons.filter(coupon => {
+    const searchLower = searchTerm.toLowerCase();
+    return (
+      coupon.code.toLowerCase().includes(searchLower) ||
+      (coupon.description || '').toLowerCase().includes(searchLower)
+    );
+  });
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-900 pt-16 flex items-center justify-center">
+        <div className="text-white text-lg">Loading coupons...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-900 pt-16">
+      {/* Header */}
+      <div className="bg-gray-900/80 shadow-sm border-b border-gray-800">
+        <div className="max-w-7xl mx-auto px-3 xxs:px-4 sm:px-6 lg:px-8 py-4 xxs:py-6">
+          <div className="flex flex-col xxs:flex-row xxs:items-center xxs:justify-between space-y-4 xxs:space-y-0">
+            <div>
+              <h1 className="text-2xl xxs:text-3xl font-bold text-white">Coupon Management</h1>
+              <p className="mt-2 text-gray-400 text-sm xxs:text-base">Create promo codes for courses, bundles or the whole site</p>
+            </div>
+            <button
+              onClick={handleCreate}
+              className="inline-flex items-center px-3 xxs:px-4 py-2 border border-transparent text-xs xxs:text-sm font-medium rounded-lg text-white bg-gradient-to-r from-cyan-600 to-blue-600 hover:from-cyan-500 hover:to-blue-500 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-cyan-500"
+            >
+              <Plus className="h-3 w-3 xxs:h-4 xxs:w-4 mr-1 xxs:mr-2" />
+              Add Coupon
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {/* Search */}
+      <div className="max-w-7xl mx-auto px-3 xxs:px-4 sm:px-6 lg:px-8 py-4 xxs:py-6">
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+          <input
+            type="text"
+            placeholder="Search coupons..."
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            className="w-full pl-10 pr-4 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-cyan-500"
+          />
+        </div>
+      </div>
+
+      {/* Coupons List */}
+      <div className="max-w-7xl mx-auto px-3 xxs:px-4 sm:px-6 lg:px-8 pb-8">
+        {error && (
+          <div className="mb-4 p-4 bg-red-500/20 border border-red-500/30 rounded-lg text-red-300">
+            {error}
+          </div>
+        )}
+
+        {filteredCoupons.length === 0 ? (
+          <div className="text-center py-12">
+            <p className="text-gray-400 text-lg">No coupons found</p>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 gap-4">
+            {filteredCoupons.map((coupon) => (
+              <div
+                key={coupon._id}
+                className={`bg-gray-800 rounded-lg border ${
+                  coupon.isActive && !isExpired(coupon) ? 'border-cyan-500/50' : 'border-gray-700'
+                } p-4 xxs:p-6`}
+              >
+                <div className="flex flex-col xxs:flex-row xxs:items-start xxs:justify-between gap-4">
+                  <div className="flex-1">
+                    <div className="flex flex-wrap items-center gap-2 mb-2">
+                      <Tag className="h-4 w-4 text-cyan-400" />
+                      <h3 className="text-lg xxs:text-xl font-mono font-semibold text-white">{coupon.code}</h3>
+                      <span className="px-2 py-1 text-xs bg-cyan-500/20 text-cyan-300 rounded">{formatDiscount(coupon)}</span>
+                      {!coupon.isActive ? (
+                        <span className="px-2 py-1 text-xs bg-gray-500/20 text-gray-400 rounded">Inactive</span>
+                      ) : isExpired(coupon) ? (
+                        <span className="px-2 py-1 text-xs bg-orange-500/20 text-orange-300 rounded">Expired</span>
+                      ) : (
+                        <span className="px-2 py-1 text-xs bg-green-500/20 text-green-400 rounded">Active</span>
+                      )}
+                    </div>
+                    {coupon.description && (
+                      <p className="text-gray-300 text-sm mb-2">{coupon.description}</p>
+                    )}
+                    <p className="text-sm text-gray-400">{describeScope(coupon)}</p>
+                    <div className="mt-2 flex flex-wrap gap-x-4 gap-y-1 text-xs text-gray-500">
+                      <span>
+                        Redemptions: {coupon.redemptionCount}{coupon.maxRedemptions > 0 ? ` / ${coupon.maxRedemptions}` : ''}
+                      </span>
+                      <span>Per user: {coupon.perUserLimit > 0 ? coupon.perUserLimit : 'Unlimited'}</span>
+                      {coupon.startsAt && <span>Starts: {new Date(coupon.startsAt).toLocaleDateString()}</span>}
+                      <span>Expires: {coupon.expiresAt ? new Date(coupon.expiresAt).toLocaleDateString() : 'Never'}</span>
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <button
+                      onClick={() => handleToggleActive(coupon)}
+                      className="p-2 text-gray-400 hover:text-white transition-colors"
+                      title={coupon.isActive ? 'Deactivate' : 'Activate'}
+                    >
+                      {coupon.isActive ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+                    </button>
+                    <button
+                      onClick={() => handleEdit(coupon)}
+                      className="p-2 text-blue-400 hover:text-blue-300 transition-colors"
+                      title="Edit"
+                    >
+                      <Edit className="h-4 w-4" />
+                    </button>
+                    <button
+                      onClick={() => setDeleteTarget(coupon)}
+                      className="p-2 text-red-400 hover:text-red-300 transition-colors"
+                      title="Delete"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Create/Edit Modal */}
+      {showModal && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+          <div className="bg-gray-800 rounded-lg max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+            <div className="sticky top-0 bg-gray-800 border-b border-gray-700 px-4 xxs:px-6 py-4 flex items-center justify-between">
+              <h2 className="text-xl font-bold text-white">
+                {editingCoupon ? 'Edit Coupon' : 'Create Coupon'}
+              </h2>
+              <button
+                onClick={() => setShowModal(false)}
+                className="text-gray-400 hover:text-white"
+              >
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+
+            <form onSubmit={handleSubmit} className="p-4 xxs:p-6 space-y-4">
+              {/* Code */}
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-2">Code *</label>
+                <input
+                  type="text"
+                  value={formData.code}
+                  onChange={(e) => setFormData({ ...formData, code: e.target.value.toUpperCase() })}
+                  placeholder="e.g., LAUNCH20"
+                  className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white font-mono focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                  required
+                />
+              </div>
+
+              {/* Description */}
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-2">Internal note</label>
+                <input
+                  type="text"
+                  value={formData.description}
+                  onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                  placeholder="e.g., Newsletter launch campaign"
+                  className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                />
+              </div>
+
+              {/* Discount */}
+              <div className="grid grid-cols-1 xxs:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">Discount type</label>
+                  <select
+                    value={formData.discountType}
+                    onChange={(e) => setFormData({ ...formData, discountType: e.target.value as CouponForm['discountType'] })}
+                    className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                  >
+                    <option value="percentage">Percentage (%)</option>
+                    <option value="fixed">Fixed amount ($)</option>
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">
+                    {formData.discountType === 'percentage' ? 'Percent off *' : 'Amount off (USD) *'}
+                  </label>
+                  <input
+                    type="number"
+                    min="0"
+                    max={formData.discountType === 'percentage' ? 100 : undefined}
+                    step="0.01"
+                    value={formData.discountValue}
+                    onChange={(e) => setFormData({ ...formData, discountValue: e.target.value })}
+                    className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                    required
+                  />
+                  {formData.discountType === 'fixed' && (
+                    <p className="mt-1 text-xs text-gray-400">Scaled by the item's local price in other currencies</p>
+                  )}
+                </div>
+              </div>
+
+              {/* Scope */}
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-2">Applies to</label>
+                <select
+                  value={formData.scope}
+                  onChange={(e) => setFormData({ ...formData, scope: e.target.value as CouponScope })}
+                  className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                >
+                  <option value="site">All courses and bundles</option>
+                  <option value="course">Selected courses</option>
+                  <option value="bundle">Selected bundles</option>
+                </select>
+              </div>
+
+              {formData.scope !== 'site' && (
+                <div className="max-h-48 overflow-y-auto bg-gray-700/50 border border-gray-600 rounded-lg p-3 space-y-2">
+                  {(formData.scope === 'course' ? courses : bundles).map(target => {
+                    const key = formData.scope === 'course' ? 'courseIds' : 'bundleIds';
+                    return (
+                      <label key={target._id} className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={formData[key].includes(target._id)}
+                          onChange={() => toggleTarget(key, target._id)}
+                          className="w-4 h-4 text-cyan-600 bg-gray-700 border-gray-600 rounded focus:ring-cyan-500"
+                        />
+                        <span>{getEnglishText(target.title)}</span>
+                      </label>
+                    );
+                  })}
+                  {(formData.scope === 'course' ? courses : bundles).length === 0 && (
+                    <p className="text-sm text-gray-400">No {formData.scope === 'course' ? 'courses' : 'bundles'} available</p>
+                  )}
+                </div>
+              )}
+
+              {/* Validity */}
+              <div className="grid grid-cols-1 xxs:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">Starts on</label>
+                  <input
+                    type="date"
+                    value={formData.startsAt}
+                    onChange={(e) => setFormData({ ...formData, startsAt: e.target.value })}
+                    className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">Expires on</label>
+                  <input
+                    type="date"
+                    value={formData.expiresAt}
+                    onChange={(e) => setFormData({ ...formData, expiresAt: e.target.value })}
+                    className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                  />
+                </div>
+              </div>
+
+              {/* Limits */}
+              <div className="grid grid-cols-1 xxs:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">Max redemptions</label>
+                  <input
+                    type="number"
+                    min="0"
+                    value={formData.maxRedemptions}
+                    onChange={(e) => setFormData({ ...formData, maxRedemptions: e.target.value })}
+                    className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                  />
+                  <p className="mt-1 text-xs text-gray-400">0 = unlimited</p>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">Uses per student</label>
+                  <input
+                    type="number"
+                    min="0"
+                    value={formData.perUserLimit}
+                    onChange={(e) => setFormData({ ...formData, perUserLimit: e.target.value })}
+                    className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                  />
+                  <p className="mt-1 text-xs text-gray-400">0 = unlimited</p>
+                </div>
+              </div>
+
+              {/* Active Status */}
+              <div className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  id="couponActive"
+                  checked={formData.isActive}
+                  onChange={(e) => setFormData({ ...formData, isActive: e.target.checked })}
+                  className="w-4 h-4 text-cyan-600 bg-gray-700 border-gray-600 rounded focus:ring-cyan-500"
+                />
+                <label htmlFor="couponActive" className="text-sm text-gray-300">Active</label>
+              </div>
+
+              {/* Form Actions */}
+              <div className="flex justify-end gap-3 pt-4 border-t border-gray-700">
+                <button
+                  type="button"
+                  onClick={() => setShowModal(false)}
+                  className="px-4 py-2 text-gray-300 hover:text-white transition-colors"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={isSaving}
+                  className="px-4 py-2 bg-gradient-to-r from-cyan-600 to-blue-600 hover:from-cyan-500 hover:to-blue-500 text-white rounded-lg disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {isSaving ? 'Saving...' : editingCoupon ? 'Update' : 'Create'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {/* Delete Confirmation Modal */}
+      <DeleteConfirmationModal
+        isOpen={!!deleteTarget}
+        onClose={() => setDeleteTarget(null)}
+        onConfirm={handleDelete}
+        isLoading={isDeleting}
+        itemName={deleteTarget ? deleteTarget.code : ''}
+        itemType="Coupon"
+        message={deleteTarget && deleteTarget.redemptionCount > 0
+          ? `"${deleteTarget.code}" has been redeemed, so it will be deactivated instead of deleted to keep receipts intact.`
+          : undefined}
+        confirmText={deleteTarget && deleteTarget.redemptionCount > 0 ? 'Deactivate' : 'Delete'}
+      />
+
+      {/* Toast */}
+      {toast && (
+        <Toast
+          message={toast.message}
+          type={toast.type}
+          onClose={() => setToast(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default AdminCouponsPage;
@@ -4,7 +4,12 @@ import { buildApiUrl } from '../config/environment';
 import { useParams, Link, useNavigate } from 'react-router-dom';
 import { Save, X, Upload, Image, Video, Plus, Trash2, Eye, Edit, Check, AlertCircle, FileText, Download, Power, PowerOff, ExternalLink } from 'lucide-react';
 import ProgressOverlay from '../components/ProgressOverlay';
+import LocalPricesInput from '../components/LocalPricesInput';
+import CertificateTemplateSettings from '../components/CertificateTemplateSettings';
 import { getEnglishText, getTigrinyaText } from '../utils/bilingualHelper';
+import { LocalPrices, toLocalPriceInputs } from '../utils/currency';
+import { useAdminAuth } from '../contexts/AdminAuthContext';
+import { ADMIN_PERMISSIONS } from '../config/adminPermissions';
 
 interface Video {
   _id: string;
@@ -26,11 +31,18 @@ interface Enrollment {
   progress?: number;
 }
 
+interface Instructor {
+  _id: string;
+  name: string;
+  email?: string;
+}
+
 interface Course {
   _id: string;
   title: string;
   description: string;
   price: number;
+  prices?: LocalPrices;
   status: 'active' | 'inactive' | 'archived';
   category?: string;
   level?: string;
@@ -47,6 +59,8 @@ interface Course {
   updatedAt: string;
   hasWhatsappGroup?: boolean;
   whatsappGroupLink?: string;
+  instructors?: Instructor[];
+  certificateTemplate?: string | null;
   deactivatedAt?: string;
   archiveGracePeriod?: string;
 }
@@ -54,6 +68,9 @@ interface Course {
 const AdminCourseEditPage: React.FC = () => {
   const { courseId } = useParams<{ courseId: string }>();
   const navigate = useNavigate();
+  const { hasPermission } = useAdminAuth();
+  // Only content managers assign instructors; instructors can't change who teaches a course
+  const canAssignInstructors = hasPermission(ADMIN_PERMISSIONS.CONTENT_MANAGE);
   const [course, setCourse] = useState<Course | null>(null);
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
@@ -79,17 +96,23 @@ const AdminCourseEditPage: React.FC = () => {
     descriptionEn: '',
     descriptionTg: '',
     price: 0,
+    prices: toLocalPriceInputs(),
     status: 'active' as 'active' | 'inactive' | 'archived',
     category: '',
     level: '',
     tags: [] as string[],
     hasWhatsappGroup: false,
     whatsappGroupLink: '',
+    certificateTemplate: null as string | null,
   });
 
   // Tags input state
   const [tagsInput, setTagsInput] = useState<string>('');
 
+  // Instructors state
+  const [instructorIds, setInstructorIds] = useState<string[]>([]);
+  const [availableInstructors, setAvailableInstructors] = useState<Instructor[]>([]);
+
   // Thumbnail state
   const [thumbnailFile, setThumbnailFile] = useState<File | null>(null);
   const [thumbnailPreview, setThumbnailPreview] = useState<string | null>(null);
@@ -191,16 +214,19 @@ const AdminCourseEditPage: React.FC = () => {
         descriptionEn,
         descriptionTg,
         price: courseData.price || 0,
+        prices: toLocalPriceInputs(courseData.prices),
         status: courseData.status || 'active',
         category: courseData.category || '',
         level: courseData.level || '',
         tags: courseData.tags || [],
         hasWhatsappGroup: Boolean(courseData.hasWhatsappGroup),
         whatsappGroupLink: courseData.whatsappGroupLink || '',
+        certificateTemplate: courseData.certificateTemplate || null,
       });
       
       // Initialize tags input
       setTagsInput(courseData.tags ? courseData.tags.join(', ') : '');
+      setInstructorIds((courseData.instructors || []).map((instructor: Instructor) => instructor._id));
 
       // Set thumbnail preview
       if (courseData.thumbnailURL) {
@@ -603,6 +629,7 @@ const AdminCourseEditPage: React.FC = () => {
         ...restFormData,
         title: JSON.stringify({ en: titleEn, tg: titleTg }),
         description: JSON.stringify({ en: descriptionEn, tg: descriptionTg }),
+        ...(canAssignInstructors ? { instructors: instructorIds } : {}),
       };
 
       const response = await fetch(buildApiUrl(`/api/courses/${courseId}`), {
@@ -819,6 +846,36 @@ const AdminCourseEditPage: React.FC = () => {
     }
   }, [courseId]);
 
+  // Fetch the instructor accounts that can be assigned to the course
+  useEffect(() => {
+    if (!canAssignInstructors) return;
+
+    const fetchInstructors = async () => {
+      try {
+        const adminToken = localStorage.getItem('adminToken');
+        if (!adminToken) return;
+
+        const response = await fetch(buildApiUrl('/api/instructors'), {
+          headers: { 'Authorization': `Bearer ${adminToken}` }
+        });
+        if (response.ok) {
+          const data = await response.json();
+          setAvailableInstructors(data.data?.instructors || []);
+        }
+      } catch (err) {
+        console.error('Error fetching instructors:', err);
+      }
+    };
+
+    fetchInstructors();
+  }, [canAssignInstructors]);
+
+  const toggleInstructor = (instructorId: string) => {
+    setInstructorIds(prev => prev.includes(instructorId)
+      ? prev.filter(id => id !== instructorId)
+      : [...prev, instructorId]);
+  };
+
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
     const { name, value, type } = e.target;
     setFormData(prev => ({
@@ -1076,6 +1133,12 @@ const AdminCourseEditPage: React.FC = () => {
                     </div>
                   </div>
 
+                  {/* Local Prices */}
+                  <LocalPricesInput
+                    prices={formData.prices}
+                    onChange={(prices) => setFormData(prev => ({ ...prev, prices }))}
+                  />
+
                   {/* Category */}
                   <div>
                     <label htmlFor="category" className="block text-sm font-medium text-gray-300 mb-2">
@@ -1157,6 +1220,44 @@ const AdminCourseEditPage: React.FC = () => {
                     )}
                   </div>
 
+                  {/* Instructors */}
+                  {canAssignInstructors && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-300 mb-2">
+                        Instructors
+                      </label>
+                      {availableInstructors.length === 0 ? (
+                        <p className="text-sm text-gray-400">
+                          No instructor accounts yet. Give a user the Instructor role on the Users page first.
+                        </p>
+                      ) : (
+                        <div className="flex flex-wrap gap-2">
+                          {availableInstructors.map(instructor => {
+                            const selected = instructorIds.includes(instructor._id);
+                            return (
+                              <button
+                                key={instructor._id}
+                                type="button"
+                                onClick={() => toggleInstructor(instructor._id)}
+                                className={`inline-flex items-center px-3 py-1 rounded-full text-sm border transition-colors ${
+                                  selected
+                                    ? 'bg-cyan-500/20 text-cyan-300 border-cyan-500/50'
+                                    : 'bg-gray-700 text-gray-300 border-gray-600 hover:border-gray-500'
+                                }`}
+                              >
+                                {selected && <Check className="h-3 w-3 mr-1" />}
+                                {instructor.name}
+                              </button>
+                            );
+                          })}
+                        </div>
+                      )}
+                      <p className="mt-1 text-sm text-gray-400">
+                        Assigned instructors can edit this course and are named on its page and certificates
+                      </p>
+                    </div>
+                  )}
+
                   {/* WhatsApp Group Settings */}
                   <div className="border-t border-gray-700 pt-6">
                     <h3 className="text-lg font-medium text-white mb-4">WhatsApp Group Settings</h3>
@@ -1304,6 +1405,21 @@ const AdminCourseEditPage: React.FC = () => {
               </div>
             </div>
 
+            {/* Certificate Template */}
+            {courseId && (
+              <div className="bg-gray-800 rounded-lg shadow-sm border border-gray-700">
+                <div className="p-4 sm:p-6">
+                  <h2 className="text-base sm:text-lg font-semibold text-white mb-4 sm:mb-6">Certificate</h2>
+                  <CertificateTemplateSettings
+                    courseId={courseId}
+                    value={formData.certificateTemplate}
+                    onChange={(certificateTemplate) => setFormData(prev => ({ ...prev, certificateTemplate }))}
+                    canManage={hasPermission(ADMIN_PERMISSIONS.CONTENT_MANAGE)}
+                  />
+                </div>
+              </div>
+            )}
+
             {/* Materials Management */}
             <div className="bg-gray-800 rounded-lg shadow-sm border border-gray-700 overflow-hidden">
               <div className="p-4 sm:p-6 overflow-hidden">
@@ -4,8 +4,10 @@ import { useQueryClient } from '@tanstack/react-query';
 import { queryKeys } from '../lib/queryClient';
 
 import { useParams, Link } from 'react-router-dom';
-import { Video, Edit, Trash2, Clock, User, Save, X, GripVertical, Check, AlertCircle, Plus, Lock, Unlock } from 'lucide-react';
+import { Video, Edit, Trash2, Clock, User, Save, X, GripVertical, Check, AlertCircle, Plus, Lock, Unlock, Captions, ClipboardCheck } from 'lucide-react';
 import ProgressOverlay from '../components/ProgressOverlay';
+import VideoCaptionManager, { VideoCaption } from '../components/VideoCaptionManager';
+import QuizManager from '../components/QuizManager';
 import { formatDuration } from '../utils/durationFormatter';
 import { getEnglishText } from '../utils/bilingualHelper';
 
@@ -41,6 +43,7 @@ interface Video {
   courseId: string;
   description?: string | { en: string; tg: string };
   isFreePreview?: boolean;
+  captions?: VideoCaption[];
 }
 
 interface Course {
@@ -65,6 +68,8 @@ const SortableVideoItem: React.FC<{
   onDeleteVideo: (id: string) => void;
   onTogglePreview: (id: string, currentStatus: boolean) => void;
   togglingPreview: string | null;
+  captionsOpen: boolean;
+  onToggleCaptions: (id: string) => void;
   getEnglishText: (title: any) => string;
   getStatusColor: (status: string) => string;
   formatDuration: (duration: any) => string;
@@ -84,6 +89,8 @@ const SortableVideoItem: React.FC<{
   onDeleteVideo,
   onTogglePreview,
   togglingPreview,
+  captionsOpen,
+  onToggleCaptions,
   getEnglishText,
   getStatusColor,
   formatDuration,
@@ -217,6 +224,14 @@ const SortableVideoItem: React.FC<{
                     Free Preview
                   </span>
                 )}
+                {(video.captions || []).map(caption => (
+                  <span
+                    key={caption.language}
+                    className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-cyan-500/20 text-cyan-300"
+                  >
+                    CC {caption.language.toUpperCase()}
+                  </span>
+                ))}
               </div>
               <p className="text-xs text-gray-400 mt-1">
                 {getEnglishText(video.description)}
@@ -249,6 +264,17 @@ const SortableVideoItem: React.FC<{
             >
               <Edit className="h-4 w-4" />
             </button>
+            <button
+              onClick={() => onToggleCaptions(video._id)}
+              className={`p-1.5 sm:p-2 rounded-lg transition-all duration-200 border ${
+                captionsOpen
+                  ? 'bg-cyan-500/40 text-cyan-200 border-cyan-500/50'
+                  : 'bg-cyan-500/20 text-cyan-400 hover:bg-cyan-500/30 hover:text-cyan-300 border-cyan-500/30 hover:border-cyan-500/50'
+              }`}
+              title="Manage captions"
+            >
+              <Captions className="h-4 w-4" />
+            </button>
             <button
               onClick={() => onDeleteVideo(video._id)}
               className="p-1.5 sm:p-2 bg-red-500/20 text-red-400 hover:bg-red-500/30 hover:text-red-300 rounded-lg transition-all duration-200 border border-red-500/30 hover:border-red-500/50"
@@ -309,6 +335,12 @@ const AdminCourseVideosPage: React.FC = () => {
   // Free preview toggle state
   const [togglingPreview, setTogglingPreview] = useState<string | null>(null);
 
+  // Video whose caption panel is open
+  const [captionsVideo, setCaptionsVideo] = useState<string | null>(null);
+
+  // Quiz authoring panel
+  const [showQuizzes, setShowQuizzes] = useState(false);
+
   // Progress overlay state
   const [progressOverlay, setProgressOverlay] = useState({
     isVisible: false,
@@ -959,6 +991,15 @@ const AdminCourseVideosPage: React.FC = () => {
               </div>
             </div>
             <div className="flex flex-col sm:flex-row space-y-2 sm:space-y-0 sm:space-x-3 flex-shrink-0">
+              <button
+                onClick={() => setShowQuizzes(!showQuizzes)}
+                className={`inline-flex items-center justify-center px-3 sm:px-4 py-2 border text-sm font-medium rounded-lg w-full sm:w-auto transition-colors duration-200 ${
+                  showQuizzes ? 'border-cyan-500 text-cyan-300 bg-cyan-500/10' : 'border-gray-600 text-gray-300 hover:text-white hover:border-gray-500'
+                }`}
+              >
+                <ClipboardCheck className="h-4 w-4 mr-1 sm:mr-2" />
+                Quizzes
+              </button>
               <Link
                 to={`/admin/courses/${courseId}/videos/upload`}
                 className="inline-flex items-center justify-center px-3 sm:px-4 py-2 border border-transparent text-sm font-medium rounded-lg text-white bg-gradient-to-r from-cyan-600 to-blue-600 hover:from-cyan-500 hover:to-blue-500 w-full sm:w-auto transition-colors duration-200"
@@ -992,6 +1033,15 @@ const AdminCourseVideosPage: React.FC = () => {
           </div>
         )}
 
+        {showQuizzes && courseId && (
+          <QuizManager
+            courseId={courseId}
+            videos={videos}
+            onError={setError}
+            onSuccess={setSuccess}
+          />
+        )}
+
         {/* Bulk Actions - Commented Out */}
         {/* {videos.length > 0 && (
           <div className={`mb-4 sm:mb-6 bg-gray-800 rounded-lg shadow-sm border p-3 sm:p-4 ${progressOverlay.isVisible ? 'pointer-events-none' : ''}`}>
@@ -1102,27 +1152,41 @@ const AdminCourseVideosPage: React.FC = () => {
                 >
                   <div className="space-y-3 sm:space-y-4">
                     {videos.map((video, index) => (
-                      <SortableVideoItem
-                        key={video._id || `video-${index}-${getEnglishText(video.title)}`}
-                        video={video}
-                        index={index}
-                        editingVideo={editingVideo}
-                        editForm={editForm}
-                        selectedVideos={selectedVideos}
-                        onToggleSelection={toggleVideoSelection}
-                        onStartEdit={startEditing}
-                        onSaveEdit={saveEdit}
-                        onCancelEdit={cancelEditing}
-                        onEditFormChange={setEditForm}
-                        onDeleteVideo={deleteVideo}
-                        onTogglePreview={toggleFreePreview}
-                        togglingPreview={togglingPreview}
-                        getEnglishText={getEnglishText}
-                        getStatusColor={getStatusColor}
-                        formatDuration={formatDuration}
-                        formatDurationForInput={formatDurationForInput}
-                        parseDurationToSeconds={parseDurationToSeconds}
-                      />
+                      <div key={video._id || `video-${index}-${getEnglishText(video.title)}`}>
+                        <SortableVideoItem
+                          video={video}
+                          index={index}
+                          editingVideo={editingVideo}
+                          editForm={editForm}
+                          selectedVideos={selectedVideos}
+                          onToggleSelection={toggleVideoSelection}
+                          onStartEdit={startEditing}
+                          onSaveEdit={saveEdit}
+                          onCancelEdit={cancelEditing}
+                          onEditFormChange={setEditForm}
+                          onDeleteVideo={deleteVideo}
+                          onTogglePreview={toggleFreePreview}
+                          togglingPreview={togglingPreview}
+                          captionsOpen={captionsVideo === video._id}
+                          onToggleCaptions={(id) => setCaptionsVideo(prev => (prev === id ? null : id))}
+                          getEnglishText={getEnglishText}
+                          getStatusColor={getStatusColor}
+                          formatDuration={formatDuration}
+                          formatDurationForInput={formatDurationForInput}
+                          parseDurationToSeconds={parseDurationToSeconds}
+                        />
+                        {captionsVideo === video._id && (
+                          <VideoCaptionManager
+                            videoId={video._id}
+                            captions={video.captions || []}
+                            onCaptionsChange={(captions) => setVideos(prev => prev.map(v =>
+                              v._id === video._id ? { ...v, captions } : v
+                            ))}
+                            onError={setError}
+                            onSuccess={setSuccess}
+                          />
+                        )}
+                      </div>
                     ))}
                   </div>
                 </SortableContext>
@@ -2,8 +2,9 @@ import React, { useState, useEffect } from 'react';
 import { buildApiUrl } from '../config/environment';
 
 import { useParams, Link } from 'react-router-dom';
-import { Users, Calendar, DollarSign, Eye, Play, Plus, Settings, BookOpen, FileText, Download, ExternalLink } from 'lucide-react';
+import { Users, Calendar, DollarSign, Eye, Play, Plus, Settings, BookOpen, FileText, Download, ExternalLink, BarChart3 } from 'lucide-react';
 import { getEnglishText } from '../utils/bilingualHelper';
+import CourseEngagement from '../components/analytics/CourseEngagement';
 
 interface Course {
   _id: string;
@@ -30,7 +31,7 @@ const AdminCourseViewPage: React.FC = () => {
   const [course, setCourse] = useState<Course | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [activeTab, setActiveTab] = useState<'overview' | 'videos' | 'materials'>('overview');
+  const [activeTab, setActiveTab] = useState<'overview' | 'videos' | 'materials' | 'engagement'>('overview');
   const [materials, setMaterials] = useState<any[]>([]);
   const [loadingMaterials, setLoadingMaterials] = useState(false);
 
@@ -232,7 +233,8 @@ const AdminCourseViewPage: React.FC = () => {
             {[
               { id: 'overview', label: 'Overview', icon: Eye },
               { id: 'videos', label: 'Videos', icon: Play },
-              { id: 'materials', label: 'Materials', icon: FileText }
+              { id: 'materials', label: 'Materials', icon: FileText },
+              { id: 'engagement', label: 'Engagement', icon: BarChart3 }
             ].map((tab) => (
               <button
                 key={tab.id}
@@ -623,6 +625,10 @@ const AdminCourseViewPage: React.FC = () => {
           </div>
         )}
 
+        {activeTab === 'engagement' && courseId && (
+          <CourseEngagement courseId={courseId} />
+        )}
+
       </div>
     </div>
   );
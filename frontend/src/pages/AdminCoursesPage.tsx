@@ -5,8 +5,11 @@ import { Link } from 'react-router-dom';
 import { Plus, Eye, Edit, Trash2, Upload, Filter, BookOpen, X } from 'lucide-react';
 import DeleteConfirmationModal from '../components/DeleteConfirmationModal';
 import Toast from '../components/Toast';
+import ExportMenu from '../components/ExportMenu';
 import useCourseDeletion from '../hooks/useCourseDeletion';
 import { getEnglishText } from '../utils/bilingualHelper';
+import { useAdminAuth } from '../contexts/AdminAuthContext';
+import { ADMIN_PERMISSIONS } from '../config/adminPermissions';
 
 interface Course {
   _id: string;
@@ -22,6 +25,9 @@ interface Course {
 }
 
 const AdminCoursesPage: React.FC = () => {
+  const { adminUser, hasPermission } = useAdminAuth();
+  // Instructors only see and manage the courses they teach
+  const canManageAllCourses = hasPermission(ADMIN_PERMISSIONS.CONTENT_MANAGE);
   const [courses, setCourses] = useState<Course[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -159,7 +165,9 @@ const AdminCoursesPage: React.FC = () => {
         sortBy: sortBy,
         sortOrder: sortOrder
       });
-
+      if (!canManageAllCourses && adminUser?.userId) {
+        queryParams.set('instructorId', adminUser.userId);
+      }
 
       const response = await fetch(buildApiUrl(`/api/courses?${queryParams.toString()}`), {
         headers: {
@@ -279,6 +287,12 @@ const AdminCoursesPage: React.FC = () => {
               <p className="mt-2 text-gray-400 text-sm xxs:text-base">Manage all your courses, upload new content, and track performance</p>
             </div>
             <div className="flex space-x-2 xxs:space-x-3">
+              {(hasPermission(ADMIN_PERMISSIONS.USERS_VIEW) || hasPermission(ADMIN_PERMISSIONS.COURSES_OWN)) && (
+                <ExportMenu
+                  options={[{ label: 'Enrollments with progress', path: '/api/admin/reports/enrollments', fileName: 'enrollments' }]}
+                  onError={(message) => setToast({ message, type: 'error' })}
+                />
+              )}
               <Link
                 to="/admin/upload"
                 className="inline-flex items-center px-3 xxs:px-4 py-2 border border-transparent text-xs xxs:text-sm font-medium rounded-lg text-white bg-gradient-to-r from-cyan-600 to-blue-600 hover:from-cyan-500 hover:to-blue-500 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-cyan-500"
@@ -512,13 +526,15 @@ const AdminCoursesPage: React.FC = () => {
                     <Edit className="h-3 w-3 xxs:h-4 xxs:w-4 mr-1" />
                     Edit
                   </Link>
-                  <button
-                    onClick={() => handleDeleteClick(course)}
-                    className="flex-1 inline-flex items-center justify-center px-2 xxs:px-3 py-2 border border-transparent text-xs xxs:text-sm font-medium rounded-lg text-white bg-gradient-to-r from-red-600 to-red-700 hover:from-red-500 hover:to-red-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500"
-                  >
-                    <Trash2 className="h-3 w-3 xxs:h-4 xxs:w-4 mr-1" />
-                    Delete
-                  </button>
+                  {canManageAllCourses && (
+                    <button
+                      onClick={() => handleDeleteClick(course)}
+                      className="flex-1 inline-flex items-center justify-center px-2 xxs:px-3 py-2 border border-transparent text-xs xxs:text-sm font-medium rounded-lg text-white bg-gradient-to-r from-red-600 to-red-700 hover:from-red-500 hover:to-red-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500"
+                    >
+                      <Trash2 className="h-3 w-3 xxs:h-4 xxs:w-4 mr-1" />
+                      Delete
+                    </button>
+                  )}
                 </div>
 
                 {/* Created Date */}
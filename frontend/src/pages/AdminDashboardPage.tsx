@@ -3,8 +3,10 @@ import { buildApiUrl } from '../config/environment';
 
 import { useNavigate } from 'react-router-dom';
 import { useAdminAuth } from '../contexts/AdminAuthContext';
-import { BookOpen, Users, Play, Plus, ArrowRight, Package, Megaphone } from 'lucide-react';
+import { BookOpen, Users, Play, Plus, ArrowRight, Package, Megaphone, Tag, ScrollText, Award } from 'lucide-react';
 import { Link } from 'react-router-dom';
+import RevenueAnalytics from '../components/analytics/RevenueAnalytics';
+import { ADMIN_PERMISSIONS } from '../config/adminPermissions';
 
 interface AdminUser {
   email: string;
@@ -20,7 +22,7 @@ interface AdminStats {
 
 const AdminDashboardPage = () => {
   const navigate = useNavigate();
-  const { adminUser, isAuthenticated, isLoading } = useAdminAuth();
+  const { adminUser, isAuthenticated, isLoading, canAccessSection, hasPermission } = useAdminAuth();
   const [stats, setStats] = useState<AdminStats | null>(null);
   const [statsLoading, setStatsLoading] = useState(true);
 
@@ -111,20 +113,24 @@ const AdminDashboardPage = () => {
           
           {/* Quick Actions */}
           <div className="flex flex-col xxs:flex-row space-y-2 xxs:space-y-0 xxs:space-x-2 sm:space-x-4">
-            <Link
-              to="/admin/upload"
-              className="inline-flex items-center justify-center px-3 xxs:px-4 py-2 text-xs xxs:text-sm font-medium rounded-md text-white bg-gradient-to-r from-cyan-600 to-blue-600 hover:from-cyan-500 hover:to-blue-500 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-cyan-500 focus:ring-offset-gray-900"
-            >
-              <Plus className="h-3 w-3 xxs:h-4 xxs:w-4 mr-1 xxs:mr-2" />
-              Upload Course
-            </Link>
-            <Link
-              to="/admin/courses"
-              className="inline-flex items-center justify-center px-3 xxs:px-4 py-2 border border-gray-700 text-xs xxs:text-sm font-medium rounded-md text-gray-300 bg-gray-800 hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-cyan-500 focus:ring-offset-gray-900"
-            >
-              View All Courses
-              <ArrowRight className="h-3 w-3 xxs:h-4 xxs:w-4 ml-1 xxs:ml-2" />
-            </Link>
+            {canAccessSection('/admin/upload') && (
+              <Link
+                to="/admin/upload"
+                className="inline-flex items-center justify-center px-3 xxs:px-4 py-2 text-xs xxs:text-sm font-medium rounded-md text-white bg-gradient-to-r from-cyan-600 to-blue-600 hover:from-cyan-500 hover:to-blue-500 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-cyan-500 focus:ring-offset-gray-900"
+              >
+                <Plus className="h-3 w-3 xxs:h-4 xxs:w-4 mr-1 xxs:mr-2" />
+                Upload Course
+              </Link>
+            )}
+            {canAccessSection('/admin/courses') && (
+              <Link
+                to="/admin/courses"
+                className="inline-flex items-center justify-center px-3 xxs:px-4 py-2 border border-gray-700 text-xs xxs:text-sm font-medium rounded-md text-gray-300 bg-gray-800 hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-cyan-500 focus:ring-offset-gray-900"
+              >
+                View All Courses
+                <ArrowRight className="h-3 w-3 xxs:h-4 xxs:w-4 ml-1 xxs:ml-2" />
+              </Link>
+            )}
           </div>
         </div>
 
@@ -147,99 +153,165 @@ const AdminDashboardPage = () => {
           </div>
         </section>
 
+        {/* Revenue analytics */}
+        {hasPermission(ADMIN_PERMISSIONS.PAYMENTS_VIEW) && <RevenueAnalytics />}
+
         {/* Quick Actions Grid */}
         <section>
           <h2 className="text-base xxs:text-lg font-semibold text-white mb-3 xxs:mb-4">Quick Actions</h2>
           <div className="grid grid-cols-1 xxs:grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3 xxs:gap-4 sm:gap-6">
-            <Link
-              to="/admin/upload"
-              className="bg-gray-800 rounded-lg shadow-sm border border-gray-700 p-3 xxs:p-4 sm:p-6 hover:shadow-md hover:border-cyan-500/50 transition-all duration-200"
-            >
-              <div className="flex items-center">
-                <div className="flex-shrink-0 p-2 xxs:p-3 rounded-lg bg-gradient-to-br from-cyan-500/20 to-blue-500/20 border border-cyan-500/30">
-                  <Plus className="h-4 w-4 xxs:h-5 xxs:w-5 sm:h-6 sm:w-6 text-cyan-400" />
-                </div>
-                <div className="ml-2 xxs:ml-3 sm:ml-4">
-                  <h3 className="text-sm xxs:text-base sm:text-lg font-medium text-white">Upload Course</h3>
-                  <p className="text-xs xxs:text-sm text-gray-400">Add a new course to the platform</p>
-                </div>
-              </div>
-            </Link>
-
-            <Link
-              to="/admin/courses"
-              className="bg-gray-800 rounded-lg shadow-sm border border-gray-700 p-3 xxs:p-4 sm:p-6 hover:shadow-md hover:border-cyan-500/50 transition-all duration-200"
-            >
-              <div className="flex items-center">
-                <div className="flex-shrink-0 p-2 xxs:p-3 rounded-lg bg-gradient-to-br from-blue-500/20 to-purple-500/20 border border-blue-500/30">
-                  <BookOpen className="h-4 w-4 xxs:h-5 xxs:w-5 sm:h-6 sm:w-6 text-blue-400" />
-                </div>
-                <div className="ml-2 xxs:ml-3 sm:ml-4">
-                  <h3 className="text-sm xxs:text-base sm:text-lg font-medium text-white">Manage Courses</h3>
-                  <p className="text-xs xxs:text-sm text-gray-400">View and edit existing courses</p>
+            {canAccessSection('/admin/upload') && (
+              <Link
+                to="/admin/upload"
+                className="bg-gray-800 rounded-lg shadow-sm border border-gray-700 p-3 xxs:p-4 sm:p-6 hover:shadow-md hover:border-cyan-500/50 transition-all duration-200"
+              >
+                <div className="flex items-center">
+                  <div className="flex-shrink-0 p-2 xxs:p-3 rounded-lg bg-gradient-to-br from-cyan-500/20 to-blue-500/20 border border-cyan-500/30">
+                    <Plus className="h-4 w-4 xxs:h-5 xxs:w-5 sm:h-6 sm:w-6 text-cyan-400" />
+                  </div>
+                  <div className="ml-2 xxs:ml-3 sm:ml-4">
+                    <h3 className="text-sm xxs:text-base sm:text-lg font-medium text-white">Upload Course</h3>
+                    <p className="text-xs xxs:text-sm text-gray-400">Add a new course to the platform</p>
+                  </div>
                 </div>
-              </div>
-            </Link>
-
-            <Link
-              to="/admin/reviews"
-              className="bg-gray-800 rounded-lg shadow-sm border border-gray-700 p-3 xxs:p-4 sm:p-6 hover:shadow-md hover:border-cyan-500/50 transition-all duration-200"
-            >
-              <div className="flex items-center">
-                <div className="flex-shrink-0 p-2 xxs:p-3 rounded-lg bg-gradient-to-br from-purple-500/20 to-pink-500/20 border border-purple-500/30">
-                  <Megaphone className="h-4 w-4 xxs:h-5 xxs:w-5 sm:h-6 sm:w-6 text-purple-400" />
+              </Link>
+            )}
+
+            {canAccessSection('/admin/courses') && (
+              <Link
+                to="/admin/courses"
+                className="bg-gray-800 rounded-lg shadow-sm border border-gray-700 p-3 xxs:p-4 sm:p-6 hover:shadow-md hover:border-cyan-500/50 transition-all duration-200"
+              >
+                <div className="flex items-center">
+                  <div className="flex-shrink-0 p-2 xxs:p-3 rounded-lg bg-gradient-to-br from-blue-500/20 to-purple-500/20 border border-blue-500/30">
+                    <BookOpen className="h-4 w-4 xxs:h-5 xxs:w-5 sm:h-6 sm:w-6 text-blue-400" />
+                  </div>
+                  <div className="ml-2 xxs:ml-3 sm:ml-4">
+                    <h3 className="text-sm xxs:text-base sm:text-lg font-medium text-white">Manage Courses</h3>
+                    <p className="text-xs xxs:text-sm text-gray-400">View and edit existing courses</p>
+                  </div>
                 </div>
-                <div className="ml-2 xxs:ml-3 sm:ml-4">
-                  <h3 className="text-sm xxs:text-base sm:text-lg font-medium text-white">Manage Reviews</h3>
-                  <p className="text-xs xxs:text-sm text-gray-400">Review and moderate student reviews</p>
+              </Link>
+            )}
+
+            {canAccessSection('/admin/reviews') && (
+              <Link
+                to="/admin/reviews"
+                className="bg-gray-800 rounded-lg shadow-sm border border-gray-700 p-3 xxs:p-4 sm:p-6 hover:shadow-md hover:border-cyan-500/50 transition-all duration-200"
+              >
+                <div className="flex items-center">
+                  <div className="flex-shrink-0 p-2 xxs:p-3 rounded-lg bg-gradient-to-br from-purple-500/20 to-pink-500/20 border border-purple-500/30">
+                    <Megaphone className="h-4 w-4 xxs:h-5 xxs:w-5 sm:h-6 sm:w-6 text-purple-400" />
+                  </div>
+                  <div className="ml-2 xxs:ml-3 sm:ml-4">
+                    <h3 className="text-sm xxs:text-base sm:text-lg font-medium text-white">Manage Reviews</h3>
+                    <p className="text-xs xxs:text-sm text-gray-400">Review and moderate student reviews</p>
+                  </div>
                 </div>
-              </div>
-            </Link>
-
-            <Link
-              to="/admin/bundles"
-              className="bg-gray-800 rounded-lg shadow-sm border border-gray-700 p-3 xxs:p-4 sm:p-6 hover:shadow-md hover:border-cyan-500/50 transition-all duration-200"
-            >
-              <div className="flex items-center">
-                <div className="flex-shrink-0 p-2 xxs:p-3 rounded-lg bg-gradient-to-br from-cyan-500/20 to-blue-500/20 border border-cyan-500/30">
-                  <Package className="h-4 w-4 xxs:h-5 xxs:w-5 sm:h-6 sm:w-6 text-cyan-400" />
+              </Link>
+            )}
+
+            {canAccessSection('/admin/bundles') && (
+              <Link
+                to="/admin/bundles"
+                className="bg-gray-800 rounded-lg shadow-sm border border-gray-700 p-3 xxs:p-4 sm:p-6 hover:shadow-md hover:border-cyan-500/50 transition-all duration-200"
+              >
+                <div className="flex items-center">
+                  <div className="flex-shrink-0 p-2 xxs:p-3 rounded-lg bg-gradient-to-br from-cyan-500/20 to-blue-500/20 border border-cyan-500/30">
+                    <Package className="h-4 w-4 xxs:h-5 xxs:w-5 sm:h-6 sm:w-6 text-cyan-400" />
+                  </div>
+                  <div className="ml-2 xxs:ml-3 sm:ml-4">
+                    <h3 className="text-sm xxs:text-base sm:text-lg font-medium text-white">Manage Bundles</h3>
+                    <p className="text-xs xxs:text-sm text-gray-400">Create and manage course bundles</p>
+                  </div>
                 </div>
-                <div className="ml-2 xxs:ml-3 sm:ml-4">
-                  <h3 className="text-sm xxs:text-base sm:text-lg font-medium text-white">Manage Bundles</h3>
-                  <p className="text-xs xxs:text-sm text-gray-400">Create and manage course bundles</p>
+              </Link>
+            )}
+
+            {canAccessSection('/admin/users') && (
+              <Link
+                to="/admin/users"
+                className="bg-gray-800 rounded-lg shadow-sm border border-gray-700 p-3 xxs:p-4 sm:p-6 hover:shadow-md hover:border-cyan-500/50 transition-all duration-200"
+              >
+                <div className="flex items-center">
+                  <div className="flex-shrink-0 p-2 xxs:p-3 rounded-lg bg-gradient-to-br from-purple-500/20 to-pink-500/20 border border-purple-500/30">
+                    <Users className="h-4 w-4 xxs:h-5 xxs:w-5 sm:h-6 sm:w-6 text-purple-400" />
+                  </div>
+                  <div className="ml-2 xxs:ml-3 sm:ml-4">
+                    <h3 className="text-sm xxs:text-base sm:text-lg font-medium text-white">User Management</h3>
+                    <p className="text-xs xxs:text-sm text-gray-400">Manage user accounts and permissions</p>
+                  </div>
                 </div>
-              </div>
-            </Link>
-
-            <Link
-              to="/admin/users"
-              className="bg-gray-800 rounded-lg shadow-sm border border-gray-700 p-3 xxs:p-4 sm:p-6 hover:shadow-md hover:border-cyan-500/50 transition-all duration-200"
-            >
-              <div className="flex items-center">
-                <div className="flex-shrink-0 p-2 xxs:p-3 rounded-lg bg-gradient-to-br from-purple-500/20 to-pink-500/20 border border-purple-500/30">
-                  <Users className="h-4 w-4 xxs:h-5 xxs:w-5 sm:h-6 sm:w-6 text-purple-400" />
+              </Link>
+            )}
+
+            {canAccessSection('/admin/announcements') && (
+              <Link
+                to="/admin/announcements"
+                className="bg-gray-800 rounded-lg shadow-sm border border-gray-700 p-3 xxs:p-4 sm:p-6 hover:shadow-md hover:border-cyan-500/50 transition-all duration-200"
+              >
+                <div className="flex items-center">
+                  <div className="flex-shrink-0 p-2 xxs:p-3 rounded-lg bg-gradient-to-br from-yellow-500/20 to-orange-500/20 border border-yellow-500/30">
+                    <Megaphone className="h-4 w-4 xxs:h-5 xxs:w-5 sm:h-6 sm:w-6 text-yellow-400" />
+                  </div>
+                  <div className="ml-2 xxs:ml-3 sm:ml-4">
+                    <h3 className="text-sm xxs:text-base sm:text-lg font-medium text-white">Announcements</h3>
+                    <p className="text-xs xxs:text-sm text-gray-400">Manage home page announcements</p>
+                  </div>
                 </div>
-                <div className="ml-2 xxs:ml-3 sm:ml-4">
-                  <h3 className="text-sm xxs:text-base sm:text-lg font-medium text-white">User Management</h3>
-                  <p className="text-xs xxs:text-sm text-gray-400">Manage user accounts and permissions</p>
+              </Link>
+            )}
+
+            {canAccessSection('/admin/coupons') && (
+              <Link
+                to="/admin/coupons"
+                className="bg-gray-800 rounded-lg shadow-sm border border-gray-700 p-3 xxs:p-4 sm:p-6 hover:shadow-md hover:border-cyan-500/50 transition-all duration-200"
+              >
+                <div className="flex items-center">
+                  <div className="flex-shrink-0 p-2 xxs:p-3 rounded-lg bg-gradient-to-br from-green-500/20 to-emerald-500/20 border border-green-500/30">
+                    <Tag className="h-4 w-4 xxs:h-5 xxs:w-5 sm:h-6 sm:w-6 text-green-400" />
+                  </div>
+                  <div className="ml-2 xxs:ml-3 sm:ml-4">
+                    <h3 className="text-sm xxs:text-base sm:text-lg font-medium text-white">Coupons</h3>
+                    <p className="text-xs xxs:text-sm text-gray-400">Manage promo codes and discounts</p>
+                  </div>
                 </div>
-              </div>
-            </Link>
-
-            <Link
-              to="/admin/announcements"
-              className="bg-gray-800 rounded-lg shadow-sm border border-gray-700 p-3 xxs:p-4 sm:p-6 hover:shadow-md hover:border-cyan-500/50 transition-all duration-200"
-            >
-              <div className="flex items-center">
-                <div className="flex-shrink-0 p-2 xxs:p-3 rounded-lg bg-gradient-to-br from-yellow-500/20 to-orange-500/20 border border-yellow-500/30">
-                  <Megaphone className="h-4 w-4 xxs:h-5 xxs:w-5 sm:h-6 sm:w-6 text-yellow-400" />
+              </Link>
+            )}
+
+            {canAccessSection('/admin/certificates') && (
+              <Link
+                to="/admin/certificates"
+                className="bg-gray-800 rounded-lg shadow-sm border border-gray-700 p-3 xxs:p-4 sm:p-6 hover:shadow-md hover:border-cyan-500/50 transition-all duration-200"
+              >
+                <div className="flex items-center">
+                  <div className="flex-shrink-0 p-2 xxs:p-3 rounded-lg bg-gradient-to-br from-amber-500/20 to-yellow-500/20 border border-amber-500/30">
+                    <Award className="h-4 w-4 xxs:h-5 xxs:w-5 sm:h-6 sm:w-6 text-amber-300" />
+                  </div>
+                  <div className="ml-2 xxs:ml-3 sm:ml-4">
+                    <h3 className="text-sm xxs:text-base sm:text-lg font-medium text-white">Certificates</h3>
+                    <p className="text-xs xxs:text-sm text-gray-400">Revoke or reissue student certificates</p>
+                  </div>
                 </div>
-                <div className="ml-2 xxs:ml-3 sm:ml-4">
-                  <h3 className="text-sm xxs:text-base sm:text-lg font-medium text-white">Announcements</h3>
-                  <p className="text-xs xxs:text-sm text-gray-400">Manage home page announcements</p>
+              </Link>
+            )}
+
+            {canAccessSection('/admin/audit') && (
+              <Link
+                to="/admin/audit"
+                className="bg-gray-800 rounded-lg shadow-sm border border-gray-700 p-3 xxs:p-4 sm:p-6 hover:shadow-md hover:border-cyan-500/50 transition-all duration-200"
+              >
+                <div className="flex items-center">
+                  <div className="flex-shrink-0 p-2 xxs:p-3 rounded-lg bg-gradient-to-br from-slate-500/20 to-gray-500/20 border border-slate-500/30">
+                    <ScrollText className="h-4 w-4 xxs:h-5 xxs:w-5 sm:h-6 sm:w-6 text-slate-300" />
+                  </div>
+                  <div className="ml-2 xxs:ml-3 sm:ml-4">
+                    <h3 className="text-sm xxs:text-base sm:text-lg font-medium text-white">Audit Log</h3>
+                    <p className="text-xs xxs:text-sm text-gray-400">Review every admin action and export it</p>
+                  </div>
                 </div>
-              </div>
-            </Link>
+              </Link>
+            )}
 
           </div>
         </section>
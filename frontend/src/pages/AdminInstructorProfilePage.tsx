@@ -0,0 +1,296 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { buildApiUrl } from '../config/environment';
+import { Camera, Save, UserCircle } from 'lucide-react';
+import Toast from '../components/Toast';
+
+type SocialLinkField = 'website' | 'linkedin' | 'twitter' | 'youtube';
+
+interface InstructorProfileForm {
+  name: string;
+  headline: string;
+  bio: { en: string; tg: string };
+  socialLinks: Record<SocialLinkField, string>;
+}
+
+interface InstructorResponse {
+  name: string;
+  email: string;
+  instructorProfile?: {
+    headline?: string;
+    bio?: { en?: string; tg?: string };
+    photoUrl?: string | null;
+    socialLinks?: Partial<Record<SocialLinkField, string>>;
+  };
+}
+
+const SOCIAL_LINK_LABELS: Record<SocialLinkField, string> = {
+  website: 'Website',
+  linkedin: 'LinkedIn',
+  twitter: 'X / Twitter',
+  youtube: 'YouTube'
+};
+
+const emptyForm: InstructorProfileForm = {
+  name: '',
+  headline: '',
+  bio: { en: '', tg: '' },
+  socialLinks: { website: '', linkedin: '', twitter: '', youtube: '' }
+};
+
+const adminToken = () => {
+  const token = localStorage.getItem('adminToken');
+  if (!token) {
+    throw new Error('Admin token not found');
+  }
+  return token;
+};
+
+const toForm = (instructor: InstructorResponse): InstructorProfileForm => ({
+  name: instructor.name || '',
+  headline: instructor.instructorProfile?.headline || '',
+  bio: {
+    en: instructor.instructorProfile?.bio?.en || '',
+    tg: instructor.instructorProfile?.bio?.tg || ''
+  },
+  socialLinks: { ...emptyForm.socialLinks, ...instructor.instructorProfile?.socialLinks }
+});
+
+/**
+ * Instructors edit the profile shown on the pages of the courses they teach
+ */
+const AdminInstructorProfilePage: React.FC = () => {
+  // Admin pages are in English only
+  const [formData, setFormData] = useState<InstructorProfileForm>(emptyForm);
+  const [email, setEmail] = useState('');
+  const [photoUrl, setPhotoUrl] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isUploading, setIsUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [toast, setToast] = useState<{ message: string; type: 'success' | 'error' } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const applyInstructor = (instructor: InstructorResponse) => {
+    setFormData(toForm(instructor));
+    setEmail(instructor.email);
+    setPhotoUrl(instructor.instructorProfile?.photoUrl || null);
+  };
+
+  useEffect(() => {
+    const fetchProfile = async () => {
+      try {
+        const response = await fetch(buildApiUrl('/api/instructors/me'), {
+          headers: { 'Authorization': `Bearer ${adminToken()}` }
+        });
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.message || 'Failed to load profile');
+        }
+        applyInstructor(data.data.instructor);
+        setError(null);
+      } catch (err) {
+        console.error('Error fetching instructor profile:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load profile');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchProfile();
+  }, []);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setIsSaving(true);
+      const response = await fetch(buildApiUrl('/api/instructors/me'), {
+        method: 'PUT',
+        headers: {
+          'Authorization': `Bearer ${adminToken()}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify(formData)
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to save profile');
+      }
+      applyInstructor(data.data.instructor);
+      setToast({ message: 'Profile saved', type: 'success' });
+    } catch (err) {
+      console.error('Error saving instructor profile:', err);
+      setToast({ message: err instanceof Error ? err.message : 'Failed to save profile', type: 'error' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handlePhotoChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      setIsUploading(true);
+      const body = new FormData();
+      body.append('photo', file);
+      const response = await fetch(buildApiUrl('/api/instructors/me/photo'), {
+        method: 'POST',
+        headers: { 'Authorization': `Bearer ${adminToken()}` },
+        body
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to upload photo');
+      }
+      setPhotoUrl(data.data.instructor.instructorProfile?.photoUrl || null);
+      setToast({ message: 'Photo updated', type: 'success' });
+    } catch (err) {
+      console.error('Error uploading instructor photo:', err);
+      setToast({ message: err instanceof Error ? err.message : 'Failed to upload photo', type: 'error' });
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-900 pt-16 flex items-center justify-center">
+        <div className="text-white text-lg">Loading profile...</div>
+      </div>
+    );
+  }
+
+  const inputClass = 'w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-cyan-500';
+
+  return (
+    <div className="min-h-screen bg-gray-900 pt-16">
+      {/* Header */}
+      <div className="bg-gray-900/80 shadow-sm border-b border-gray-800">
+        <div className="max-w-3xl mx-auto px-3 xxs:px-4 sm:px-6 lg:px-8 py-4 xxs:py-6">
+          <h1 className="text-2xl xxs:text-3xl font-bold text-white">My Instructor Profile</h1>
+          <p className="mt-2 text-gray-400 text-sm xxs:text-base">Shown to students on the pages of the courses you teach</p>
+        </div>
+      </div>
+
+      <div className="max-w-3xl mx-auto px-3 xxs:px-4 sm:px-6 lg:px-8 py-6">
+        {error ? (
+          <div className="p-4 bg-red-500/20 border border-red-500/30 rounded-lg text-red-300">
+            {error}
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="bg-gray-800 rounded-lg border border-gray-700 p-4 xxs:p-6 space-y-5">
+            {/* Photo */}
+            <div className="flex items-center gap-4">
+              {photoUrl ? (
+                <img src={photoUrl} alt={formData.name} className="h-20 w-20 rounded-full object-cover border border-gray-600" />
+              ) : (
+                <UserCircle className="h-20 w-20 text-gray-500" />
+              )}
+              <div>
+                <button
+                  type="button"
+                  onClick={() => fileInputRef.current?.click()}
+                  disabled={isUploading}
+                  className="inline-flex items-center px-3 py-2 text-sm font-medium rounded-lg text-white bg-gray-700 hover:bg-gray-600 disabled:opacity-50"
+                >
+                  <Camera className="h-4 w-4 mr-2" />
+                  {isUploading ? 'Uploading...' : 'Change photo'}
+                </button>
+                <p className="mt-1 text-xs text-gray-500">JPG or PNG, up to 5MB</p>
+                <input ref={fileInputRef} type="file" accept="image/*" onChange={handlePhotoChange} className="hidden" />
+              </div>
+            </div>
+
+            {/* Name */}
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">Display name *</label>
+              <input
+                type="text"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                className={inputClass}
+                required
+              />
+              <p className="mt-1 text-xs text-gray-500">Also printed on the certificates of your courses. Signed in as {email}.</p>
+            </div>
+
+            {/* Headline */}
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">Headline</label>
+              <input
+                type="text"
+                value={formData.headline}
+                maxLength={120}
+                onChange={(e) => setFormData({ ...formData, headline: e.target.value })}
+                placeholder="e.g., Portfolio manager and options trader"
+                className={inputClass}
+              />
+            </div>
+
+            {/* Bio */}
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">Bio (English)</label>
+              <textarea
+                value={formData.bio.en}
+                maxLength={2000}
+                rows={5}
+                onChange={(e) => setFormData({ ...formData, bio: { ...formData.bio, en: e.target.value } })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">Bio (Tigrinya)</label>
+              <textarea
+                value={formData.bio.tg}
+                maxLength={2000}
+                rows={5}
+                onChange={(e) => setFormData({ ...formData, bio: { ...formData.bio, tg: e.target.value } })}
+                className={inputClass}
+              />
+            </div>
+
+            {/* Social links */}
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              {(Object.keys(SOCIAL_LINK_LABELS) as SocialLinkField[]).map(field => (
+                <div key={field}>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">{SOCIAL_LINK_LABELS[field]}</label>
+                  <input
+                    type="url"
+                    value={formData.socialLinks[field]}
+                    onChange={(e) => setFormData({ ...formData, socialLinks: { ...formData.socialLinks, [field]: e.target.value } })}
+                    placeholder="https://"
+                    className={inputClass}
+                  />
+                </div>
+              ))}
+            </div>
+
+            <div className="flex justify-end">
+              <button
+                type="submit"
+                disabled={isSaving}
+                className="inline-flex items-center px-4 py-2 text-sm font-medium rounded-lg text-white bg-gradient-to-r from-cyan-600 to-blue-600 hover:from-cyan-500 hover:to-blue-500 disabled:opacity-50"
+              >
+                <Save className="h-4 w-4 mr-2" />
+                {isSaving ? 'Saving...' : 'Save profile'}
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+
+      {/* Toast */}
+      {toast && (
+        <Toast
+          message={toast.message}
+          type={toast.type}
+          onClose={() => setToast(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default AdminInstructorProfilePage;
@@ -1,9 +1,19 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { buildApiUrl } from '../config/environment';
 
 import { useNavigate } from 'react-router-dom';
 import { useAdminAuth } from '../contexts/AdminAuthContext';
-import { Eye, EyeOff, Shield, AlertCircle, X } from 'lucide-react';
+import { Eye, EyeOff, Shield, AlertCircle, X, ArrowLeft, Copy } from 'lucide-react';
+
+interface TwoFactorChallenge {
+  token: string;
+  setupRequired: boolean;
+}
+
+interface AdminSession {
+  token: string;
+  user: { email: string; role: string; type: string };
+}
 
 const AdminLoginPage = () => {
   const navigate = useNavigate();
@@ -15,6 +25,37 @@ const AdminLoginPage = () => {
   const [showPassword, setShowPassword] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState('');
+  const [challenge, setChallenge] = useState<TwoFactorChallenge | null>(null);
+  const [setup, setSetup] = useState<{ qrCode: string; secret: string } | null>(null);
+  const [code, setCode] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [pendingSession, setPendingSession] = useState<AdminSession | null>(null);
+
+  // First admin login: fetch the QR code to enroll an authenticator app
+  useEffect(() => {
+    if (!challenge?.setupRequired) return;
+
+    const startSetup = async () => {
+      try {
+        const response = await fetch(buildApiUrl('/api/admin/login/2fa/setup'), {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ twoFactorToken: challenge.token }),
+        });
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.message || 'Failed to start two-factor setup');
+        }
+        setSetup({ qrCode: data.qrCode, secret: data.secret });
+      } catch (err) {
+        console.error('Admin two-factor setup error:', err);
+        setError(err instanceof Error ? err.message : 'Failed to start two-factor setup');
+      }
+    };
+
+    startSetup();
+  }, [challenge]);
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     setFormData(prev => ({
@@ -41,11 +82,9 @@ const AdminLoginPage = () => {
       const data = await response.json();
 
       if (response.ok) {
-        // Use the login function from context
-        login(data.token, data.user);
-        
-        // Redirect to admin dashboard
-        navigate('/admin/dashboard');
+        // Password accepted; the token is issued after the authenticator code
+        setChallenge({ token: data.twoFactorToken, setupRequired: !!data.setupRequired });
+        setFormData(prev => ({ ...prev, password: '' }));
       } else {
         // Enhanced error handling for different scenarios
         let errorMessage = 'Login failed';
@@ -74,6 +113,61 @@ const AdminLoginPage = () => {
     }
   };
 
+  const handleCodeSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!challenge || !code.trim()) return;
+    setIsLoading(true);
+    setError('');
+
+    try {
+      const endpoint = challenge.setupRequired ? 'enable' : 'verify';
+      const response = await fetch(buildApiUrl(`/api/admin/login/2fa/${endpoint}`), {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ twoFactorToken: challenge.token, code: code.trim() }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.message || 'Invalid verification code');
+        return;
+      }
+
+      if (data.recoveryCodes) {
+        // Show the recovery codes once before entering the dashboard
+        setRecoveryCodes(data.recoveryCodes);
+        setPendingSession({ token: data.token, user: data.user });
+        return;
+      }
+
+      completeLogin({ token: data.token, user: data.user });
+    } catch (err) {
+      setError('Network error. Please check your connection and try again.');
+      console.error('Admin two-factor error:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const completeLogin = (session: AdminSession) => {
+    // Use the login function from context
+    login(session.token, session.user);
+
+    // Redirect to admin dashboard
+    navigate('/admin/dashboard');
+  };
+
+  const resetChallenge = () => {
+    setChallenge(null);
+    setSetup(null);
+    setCode('');
+    setUseRecoveryCode(false);
+    setError('');
+  };
+
   const clearError = () => {
     setError('');
   };
@@ -86,8 +180,16 @@ const AdminLoginPage = () => {
             <div className="mx-auto flex items-center justify-center h-12 w-12 rounded-full bg-gradient-to-br from-cyan-500/20 to-blue-500/20 border border-cyan-500/30 mb-4">
               <Shield className="h-6 w-6 text-cyan-400" />
             </div>
-            <h2 className="text-3xl font-bold text-white">Admin Login</h2>
-            <p className="mt-2 text-gray-400">Access admin dashboard</p>
+            <h2 className="text-3xl font-bold text-white">
+              {!challenge ? 'Admin Login' : challenge.setupRequired ? 'Set Up Two-Factor' : 'Two-Factor Verification'}
+            </h2>
+            <p className="mt-2 text-gray-400">
+              {!challenge
+                ? 'Access admin dashboard'
+                : challenge.setupRequired
+                  ? 'Two-factor authentication is required for admin accounts'
+                  : 'Enter the code from your authenticator app'}
+            </p>
           </div>
 
           {error && (
@@ -103,9 +205,11 @@ const AdminLoginPage = () => {
                   <p className="text-sm text-orange-200 leading-relaxed">
                     {error}
                   </p>
-                  <div className="mt-2 text-xs text-orange-300">
-                    💡 Tip: Make sure you're using the correct admin email and password.
-                  </div>
+                  {!challenge && (
+                    <div className="mt-2 text-xs text-orange-300">
+                      💡 Tip: Make sure you're using the correct admin email and password.
+                    </div>
+                  )}
                 </div>
                 <button
                   onClick={clearError}
@@ -117,6 +221,117 @@ const AdminLoginPage = () => {
             </div>
           )}
 
+          {pendingSession && recoveryCodes ? (
+            <div className="space-y-6">
+              <p className="text-sm text-orange-300">
+                Save these recovery codes somewhere safe. Each one can be used once to sign in if you lose your authenticator app. They won't be shown again.
+              </p>
+              <ul className="grid grid-cols-2 gap-2 p-4 rounded-lg bg-gray-900/80 border border-gray-700">
+                {recoveryCodes.map(recoveryCode => (
+                  <li key={recoveryCode} className="font-mono text-sm text-center text-white">{recoveryCode}</li>
+                ))}
+              </ul>
+              <button
+                type="button"
+                onClick={() => navigator.clipboard.writeText(recoveryCodes.join('\n'))}
+                className="inline-flex items-center gap-1.5 text-sm text-cyan-400 hover:text-cyan-300"
+              >
+                <Copy className="h-4 w-4" />
+                Copy codes
+              </button>
+              <button
+                type="button"
+                onClick={() => completeLogin(pendingSession)}
+                className="w-full py-3 px-4 text-sm font-medium rounded-lg text-white bg-gradient-to-r from-cyan-600 to-blue-600 hover:from-cyan-500 hover:to-blue-500 transition-all duration-200 shadow-lg"
+              >
+                I've saved my codes, continue
+              </button>
+            </div>
+          ) : challenge ? (
+            <form className="space-y-6" onSubmit={handleCodeSubmit}>
+              {challenge.setupRequired && (
+                setup ? (
+                  <div className="space-y-4">
+                    <p className="text-sm text-gray-300">
+                      Scan this QR code with an authenticator app (Google Authenticator, Authy, 1Password), then enter the 6-digit code it shows.
+                    </p>
+                    <div className="flex justify-center">
+                      <img src={setup.qrCode} alt="Authenticator QR code" className="w-48 h-48 rounded-lg bg-white p-2" />
+                    </div>
+                    <div className="text-center">
+                      <p className="text-xs text-gray-400">Can't scan it? Enter this key instead:</p>
+                      <code className="block mt-1 text-xs font-mono text-cyan-300 break-all">{setup.secret}</code>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="flex justify-center py-4">
+                    <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-cyan-400"></div>
+                  </div>
+                )
+              )}
+
+              <div className="space-y-1">
+                <label htmlFor="code" className="text-sm font-medium text-gray-300">
+                  {useRecoveryCode ? 'Recovery Code' : 'Authentication Code'}
+                </label>
+                <input
+                  id="code"
+                  name="code"
+                  type="text"
+                  inputMode={useRecoveryCode ? 'text' : 'numeric'}
+                  autoComplete="one-time-code"
+                  required
+                  autoFocus
+                  className="appearance-none relative block w-full px-4 py-3 bg-gray-900/80 border-2 border-gray-700/50 placeholder-gray-500 text-white text-center font-mono tracking-widest rounded-lg focus:outline-none focus:ring-2 focus:ring-cyan-500/50 focus:border-cyan-500 transition-all duration-200"
+                  placeholder={useRecoveryCode ? 'XXXX-XXXX' : '000000'}
+                  value={code}
+                  onChange={(e) => {
+                    setCode(useRecoveryCode ? e.target.value.toUpperCase() : e.target.value.replace(/[^\d]/g, '').slice(0, 6));
+                    setError('');
+                  }}
+                />
+              </div>
+
+              <button
+                type="submit"
+                disabled={isLoading || !code.trim()}
+                className="group relative w-full flex justify-center py-3 px-4 border border-transparent text-sm font-medium rounded-lg text-white bg-gradient-to-r from-cyan-600 to-blue-600 hover:from-cyan-500 hover:to-blue-500 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-cyan-500 focus:ring-offset-gray-800 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 shadow-lg hover:shadow-xl hover:shadow-cyan-500/40"
+              >
+                {isLoading ? (
+                  <div className="flex items-center space-x-2">
+                    <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
+                    <span>Verifying...</span>
+                  </div>
+                ) : (
+                  challenge.setupRequired ? 'Enable Two-Factor & Sign In' : 'Verify'
+                )}
+              </button>
+
+              <div className="flex items-center justify-between text-sm">
+                <button
+                  type="button"
+                  onClick={resetChallenge}
+                  className="inline-flex items-center gap-1.5 text-gray-400 hover:text-cyan-400"
+                >
+                  <ArrowLeft className="h-4 w-4" />
+                  Back
+                </button>
+                {!challenge.setupRequired && (
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setUseRecoveryCode(!useRecoveryCode);
+                      setCode('');
+                      setError('');
+                    }}
+                    className="text-cyan-400 hover:text-cyan-300"
+                  >
+                    {useRecoveryCode ? 'Use authenticator app' : 'Use a recovery code'}
+                  </button>
+                )}
+              </div>
+            </form>
+          ) : (
           <form className="space-y-6" onSubmit={handleSubmit}>
             <div className="space-y-1">
               <label htmlFor="email" className="text-sm font-medium text-gray-300">
@@ -184,6 +399,7 @@ const AdminLoginPage = () => {
               </button>
             </div>
           </form>
+          )}
 
         </div>
       </div>
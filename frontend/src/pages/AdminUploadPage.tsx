@@ -3,6 +3,8 @@ import { buildApiUrl } from '../config/environment';
 
 import { Plus, Upload, X, FileText } from 'lucide-react';
 import ProgressOverlay from '../components/ProgressOverlay';
+import LocalPricesInput from '../components/LocalPricesInput';
+import { LocalPriceInputs, toLocalPriceInputs } from '../utils/currency';
 
 interface Video {
   id: string;
@@ -25,6 +27,7 @@ interface Course {
   title: { en: string; tg: string };
   description: { en: string; tg: string };
   price: number;
+  prices: LocalPriceInputs;
   category: string;
   level: string;
   tags: string[];
@@ -88,6 +91,7 @@ const AdminUploadPage = () => {
     title: { en: '', tg: '' },
     description: { en: '', tg: '' },
     price: 0,
+    prices: toLocalPriceInputs(),
     category: '',
     level: '',
     tags: [],
@@ -316,6 +320,7 @@ const AdminUploadPage = () => {
         title: course.title,
         description: course.description,
         price: course.price,
+        prices: course.prices,
         category: course.category,
         level: course.level,
         tags: course.tags,
@@ -573,6 +578,7 @@ const AdminUploadPage = () => {
         title: { en: '', tg: '' },
         description: { en: '', tg: '' },
         price: 0,
+        prices: toLocalPriceInputs(),
         category: '',
         level: '',
         tags: [],
@@ -722,6 +728,11 @@ const AdminUploadPage = () => {
                   />
                 </div>
 
+                <LocalPricesInput
+                  prices={course.prices}
+                  onChange={(prices) => setCourse(prev => ({ ...prev, prices }))}
+                />
+
                 <div>
                   <label className="block text-sm font-medium text-gray-300 mb-2">
                     Course Category *
@@ -17,12 +17,17 @@ import {
 } from 'lucide-react';
 import DeleteConfirmationModal from '../components/DeleteConfirmationModal';
 import Toast from '../components/Toast';
+import UserPaymentsModal from '../components/UserPaymentsModal';
+import ExportMenu from '../components/ExportMenu';
+import { useAdminAuth } from '../contexts/AdminAuthContext';
+import { ADMIN_PERMISSIONS, ADMIN_ROLE_LABELS, AdminRole } from '../config/adminPermissions';
 
 interface User {
   _id: string;
   name: string;
   email: string;
   role: 'user' | 'admin';
+  adminRole?: AdminRole | null;
   status: 'active' | 'inactive';
   profilePicture?: string;
   purchasedCourses: string[];
@@ -78,6 +83,16 @@ const AdminUsersPage: React.FC = () => {
   const [loadingEnrollments, setLoadingEnrollments] = useState(false);
   const [updatingCourseId, setUpdatingCourseId] = useState<string | null>(null);
 
+  // Payments & refunds state
+  const [paymentsUser, setPaymentsUser] = useState<User | null>(null);
+
+  // What the signed-in admin's role allows on this page
+  const { hasPermission } = useAdminAuth();
+  const canManageUsers = hasPermission(ADMIN_PERMISSIONS.USERS_MANAGE);
+  const canViewPayments = hasPermission(ADMIN_PERMISSIONS.PAYMENTS_VIEW);
+  const canManageRoles = hasPermission(ADMIN_PERMISSIONS.ROLES_MANAGE);
+  const [updatingRoleUserId, setUpdatingRoleUserId] = useState<string | null>(null);
+
   // Fetch users from API
   const fetchUsers = async (page = 1) => {
     try {
@@ -311,6 +326,9 @@ const AdminUsersPage: React.FC = () => {
   // Handle revoking course access
   const handleRevokeAccess = async (courseId: string) => {
     if (!selectedUser) return;
+    const revokeCertificate = window.confirm(
+      `Also revoke ${selectedUser.email}'s certificate for this course, if they have one?\n\nOK revokes it, Cancel keeps it.`
+    );
     
     try {
       setUpdatingCourseId(courseId);
@@ -320,7 +338,7 @@ const AdminUsersPage: React.FC = () => {
         throw new Error('Admin token not found');
       }
 
-      const response = await fetch(buildApiUrl(`/api/user/admin/${selectedUser._id}/courses/${courseId}/revoke`), {
+      const response = await fetch(buildApiUrl(`/api/user/admin/${selectedUser._id}/courses/${courseId}/revoke?revokeCertificate=${revokeCertificate}`), {
         method: 'DELETE',
         headers: {
           'Authorization': `Bearer ${adminToken}`,
@@ -349,6 +367,71 @@ const AdminUsersPage: React.FC = () => {
     }
   };
 
+  // Handle assigning or removing an admin role
+  const handleRoleChange = async (user: User, adminRole: AdminRole | null) => {
+    const confirmation = adminRole
+      ? `Give ${user.email} the ${ADMIN_ROLE_LABELS[adminRole]} role? They will be able to sign in to the admin panel.`
+      : `Remove admin panel access from ${user.email}?`;
+    if (!window.confirm(confirmation)) return;
+
+    try {
+      setUpdatingRoleUserId(user._id);
+      const adminToken = localStorage.getItem('adminToken');
+      
+      if (!adminToken) {
+        throw new Error('Admin token not found');
+      }
+
+      const response = await fetch(buildApiUrl(`/api/user/admin/${user._id}/role`), {
+        method: 'PUT',
+        headers: {
+          'Authorization': `Bearer ${adminToken}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ adminRole }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to update role');
+      }
+
+      setUsers(prev => prev.map(u => 
+        u._id === user._id ? { ...u, role: adminRole ? 'admin' : 'user', adminRole } : u
+      ));
+      setToast({
+        message: data.message || 'Role updated successfully',
+        type: 'success'
+      });
+    } catch (err) {
+      setToast({
+        message: err instanceof Error ? err.message : 'Failed to update role',
+        type: 'error'
+      });
+    } finally {
+      setUpdatingRoleUserId(null);
+    }
+  };
+
+  const renderRole = (user: User) => canManageRoles ? (
+    <select
+      value={user.adminRole || ''}
+      onChange={(e) => handleRoleChange(user, (e.target.value || null) as AdminRole | null)}
+      disabled={updatingRoleUserId === user._id}
+      className="bg-gray-700 border border-gray-600 text-white text-xs rounded-lg px-2 py-1 focus:outline-none focus:ring-2 focus:ring-cyan-500 disabled:opacity-50"
+      aria-label={`Admin role for ${user.email}`}
+    >
+      <option value="">Student</option>
+      {(Object.keys(ADMIN_ROLE_LABELS) as AdminRole[]).map(role => (
+        <option key={role} value={role}>{ADMIN_ROLE_LABELS[role]}</option>
+      ))}
+    </select>
+  ) : (
+    <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${user.adminRole ? 'bg-cyan-500/20 text-cyan-300' : 'bg-gray-500/20 text-gray-300'}`}>
+      {user.adminRole ? ADMIN_ROLE_LABELS[user.adminRole] : 'Student'}
+    </span>
+  );
+
   useEffect(() => {
     fetchUsers(currentPage);
   }, [currentPage]);
@@ -407,6 +490,19 @@ const AdminUsersPage: React.FC = () => {
               <h1 className="text-2xl xxs:text-3xl font-bold text-white">User Management</h1>
               <p className="mt-2 text-gray-400 text-sm xxs:text-base">Manage all registered users, view profiles, and control access</p>
             </div>
+            <ExportMenu
+              options={[
+                {
+                  label: 'Users (current filters)',
+                  path: '/api/admin/reports/users',
+                  fileName: 'users',
+                  params: { search: searchTerm, status: statusFilter !== 'all' ? statusFilter : '', sortBy, sortOrder }
+                },
+                { label: 'Enrollments with progress', path: '/api/admin/reports/enrollments', fileName: 'enrollments' },
+                { label: 'Certificates issued', path: '/api/admin/reports/certificates', fileName: 'certificates' }
+              ]}
+              onError={(message) => setToast({ message, type: 'error' })}
+            />
           </div>
         </div>
       </div>
@@ -588,6 +684,9 @@ const AdminUsersPage: React.FC = () => {
                       <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
                         Status
                       </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
+                        Role
+                      </th>
                       <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
                         Phone
                       </th>
@@ -634,6 +733,9 @@ const AdminUsersPage: React.FC = () => {
                             {user.status}
                           </span>
                         </td>
+                        <td className="px-6 py-4 whitespace-nowrap">
+                          {renderRole(user)}
+                        </td>
                         <td className="px-6 py-4 whitespace-nowrap text-sm text-white">
                           <div className="max-w-32 truncate" title={user.phoneNumber || 'N/A'}>
                             {user.phoneNumber || 'N/A'}
@@ -650,7 +752,7 @@ const AdminUsersPage: React.FC = () => {
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
                           <div className="flex items-center justify-end space-x-2">
-                            {user.role !== 'admin' && (
+                            {user.role !== 'admin' && canManageUsers && (
                               <button
                                 onClick={() => handleOpenCourseAccess(user)}
                                 className="text-cyan-600 hover:text-cyan-500 transition-colors duration-200 text-sm font-medium mr-2"
@@ -659,7 +761,16 @@ const AdminUsersPage: React.FC = () => {
                                 Manage Access
                               </button>
                             )}
-                            {user.role !== 'admin' && user.status === 'active' && (
+                            {user.role !== 'admin' && canViewPayments && (
+                              <button
+                                onClick={() => setPaymentsUser(user)}
+                                className="text-purple-400 hover:text-purple-300 transition-colors duration-200 text-sm font-medium mr-2"
+                                title="Payments & Refunds"
+                              >
+                                Payments
+                              </button>
+                            )}
+                            {user.role !== 'admin' && canManageUsers && user.status === 'active' && (
                               <button
                                 onClick={() => {
                                   setUserToDeactivate(user);
@@ -671,7 +782,7 @@ const AdminUsersPage: React.FC = () => {
                                 Deactivate
                               </button>
                             )}
-                            {user.role !== 'admin' && user.status === 'inactive' && (
+                            {user.role !== 'admin' && canManageUsers && user.status === 'inactive' && (
                               <button
                                 onClick={() => {
                                   setUserToReactivate(user);
@@ -714,7 +825,7 @@ const AdminUsersPage: React.FC = () => {
                         <div className="flex items-center justify-between mb-2">
                           <h3 className="text-sm xxs:text-base font-medium text-white truncate">{user.name}</h3>
                           <div className="flex items-center space-x-1 xxs:space-x-2">
-                            {user.role !== 'admin' && (
+                            {user.role !== 'admin' && canManageUsers && (
                               <button
                                 onClick={() => handleOpenCourseAccess(user)}
                                 className="text-cyan-600 hover:text-cyan-500 transition-colors duration-200 text-xs xxs:text-sm font-medium px-2 py-1 mr-1"
@@ -723,7 +834,16 @@ const AdminUsersPage: React.FC = () => {
                                 Access
                               </button>
                             )}
-                            {user.role !== 'admin' && user.status === 'active' && (
+                            {user.role !== 'admin' && canViewPayments && (
+                              <button
+                                onClick={() => setPaymentsUser(user)}
+                                className="text-purple-400 hover:text-purple-300 transition-colors duration-200 text-xs xxs:text-sm font-medium px-2 py-1 mr-1"
+                                title="Payments & Refunds"
+                              >
+                                Payments
+                              </button>
+                            )}
+                            {user.role !== 'admin' && canManageUsers && user.status === 'active' && (
                               <button
                                 onClick={() => {
                                   setUserToDeactivate(user);
@@ -735,7 +855,7 @@ const AdminUsersPage: React.FC = () => {
                                 Deactivate
                               </button>
                             )}
-                            {user.role !== 'admin' && user.status === 'inactive' && (
+                            {user.role !== 'admin' && canManageUsers && user.status === 'inactive' && (
                               <button
                                 onClick={() => {
                                   setUserToReactivate(user);
@@ -764,6 +884,7 @@ const AdminUsersPage: React.FC = () => {
                           <span className="text-xs xxs:text-sm text-gray-500">
                             {user.purchasedCourses?.length || 0} courses
                           </span>
+                          {renderRole(user)}
                         </div>
                         <div className="mt-2 xxs:mt-3 text-xs xxs:text-sm text-gray-500 flex items-center">
                           <Calendar className="h-3 w-3 mr-1" />
@@ -1032,6 +1153,16 @@ const AdminUsersPage: React.FC = () => {
         </div>
       )}
 
+      {/* Payments & Refunds Modal */}
+      {paymentsUser && (
+        <UserPaymentsModal
+          user={paymentsUser}
+          onClose={() => setPaymentsUser(null)}
+          onToast={setToast}
+          onRefunded={() => fetchUsers(currentPage)}
+        />
+      )}
+
       {/* Toast Notification */}
       {toast && (
         <Toast
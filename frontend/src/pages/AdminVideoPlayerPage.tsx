@@ -6,6 +6,7 @@ import { useParams, Link } from 'react-router-dom';
 import { BookOpen, Clock, Edit, Trash2, Play, Pause, Volume2, VolumeX, Maximize } from 'lucide-react';
 import { formatDuration } from '../utils/durationFormatter';
 import { getEnglishText } from '../utils/bilingualHelper';
+import VideoEngagement from '../components/analytics/VideoEngagement';
 
 interface Video {
   id: string;
@@ -873,6 +874,7 @@ const AdminVideoPlayerPage = () => {
                 </div>
               </div>
 
+              <VideoEngagement videoId={currentVideoId} />
             </div>
           </div>
         </div>
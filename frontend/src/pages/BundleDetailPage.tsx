@@ -3,17 +3,23 @@ import { useParams, Link, useNavigate } from 'react-router-dom';
 import { useTranslation } from 'react-i18next';
 import { BookOpen, ShoppingCart, Tag, CheckCircle, Clock, Play, X } from 'lucide-react';
 import LoadingMessage from '../components/LoadingMessage';
-import { buildApiUrl } from '../config/environment';
+import PromoCodeInput, { CouponPreview } from '../components/PromoCodeInput';
+import GiftOptions, { GiftDetails } from '../components/GiftOptions';
 import { useBundle, ApiBundle } from '../hooks/useBundles';
 import { getLocalizedText } from '../utils/bilingualHelper';
+import { useCurrency } from '../hooks/useCurrency';
+import { authFetch, getAccessToken } from '../utils/api';
 
 const BundleDetailPage: React.FC = () => {
   const { t, i18n } = useTranslation();
+  const { priceFor, formatPrice } = useCurrency();
   const currentLanguage = (i18n.language || 'en') as 'en' | 'tg';
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
   
   const [isPurchasing, setIsPurchasing] = useState(false);
+  const [appliedCoupon, setAppliedCoupon] = useState<CouponPreview | null>(null);
+  const [giftDetails, setGiftDetails] = useState<GiftDetails | null>(null);
 
   // Fetch bundle data from API
   const { 
@@ -56,11 +62,13 @@ const BundleDetailPage: React.FC = () => {
     return null;
   }, [apiError, loading, bundle, id, t]);
 
-  // Calculate savings
-  const savingsAmount = bundle && bundle.originalValue
+  // Calculate savings (originalValue is the USD sum of the course prices, so savings are only shown in USD)
+  const displayPrice = bundle ? priceFor(bundle) : null;
+  const showOriginalValue = !!bundle?.originalValue && displayPrice?.currency === 'usd';
+  const savingsAmount = bundle && bundle.originalValue && showOriginalValue
     ? bundle.originalValue - bundle.price
     : null;
-  const savingsPercentage = bundle && bundle.originalValue
+  const savingsPercentage = bundle && bundle.originalValue && showOriginalValue
     ? Math.round(((bundle.originalValue - bundle.price) / bundle.originalValue) * 100)
     : null;
 
@@ -71,21 +79,23 @@ const BundleDetailPage: React.FC = () => {
     try {
       setIsPurchasing(true);
 
-      const token = localStorage.getItem('token');
+      const token = getAccessToken();
       if (!token) {
         // Redirect to login if not authenticated
         navigate('/login', { state: { from: `/bundles/${id}` } });
         return;
       }
 
-      const response = await fetch(buildApiUrl('/api/payment/create-checkout-session'), {
+      const response = await authFetch('/api/payment/create-checkout-session', {
         method: 'POST',
         headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`
+          'Content-Type': 'application/json'
         },
         body: JSON.stringify({
-          bundleId: id
+          bundleId: id,
+          couponCode: appliedCoupon?.code,
+          currency: displayPrice?.currency,
+          gift: giftDetails || undefined
         })
       });
 
@@ -248,11 +258,17 @@ const BundleDetailPage: React.FC = () => {
               <div className="mb-6">
                 <div className="flex items-baseline gap-3 mb-2">
                   <span className="text-4xl sm:text-5xl font-bold text-gray-900 dark:text-white">
-                    ${bundle.price.toFixed(2)}
+                    {appliedCoupon
+                      ? formatPrice(appliedCoupon.finalAmount, appliedCoupon.currency)
+                      : formatPrice(priceFor(bundle).amount, priceFor(bundle).currency)}
                   </span>
-                  {bundle.originalValue && (
+                  {appliedCoupon ? (
                     <span className="text-xl text-gray-600 dark:text-gray-400 line-through">
-                      ${bundle.originalValue.toFixed(2)}
+                      {formatPrice(appliedCoupon.originalAmount, appliedCoupon.currency)}
+                    </span>
+                  ) : showOriginalValue && bundle.originalValue && (
+                    <span className="text-xl text-gray-600 dark:text-gray-400 line-through">
+                      {formatPrice(bundle.originalValue, 'usd')}
                     </span>
                   )}
                 </div>
@@ -274,7 +290,7 @@ const BundleDetailPage: React.FC = () => {
                     {courses.length} {courses.length === 1 ? t('bundle_detail.course', 'Course') : t('bundle_detail.courses', 'Courses')}
                   </span>
                 </div>
-                {bundle.originalValue && (
+                {showOriginalValue && bundle.originalValue && (
                   <div className="flex items-center gap-2 text-gray-800 dark:text-gray-300">
                     <Tag className="h-5 w-5 text-cyan-600 dark:text-cyan-400" />
                     <span>
@@ -312,8 +328,22 @@ const BundleDetailPage: React.FC = () => {
                 )}
               </div>
 
+              {/* Promo Code */}
+              {(!(bundle?.isPurchased || bundle?.userHasPurchased) || giftDetails) && !bundle.hasReachedMaxEnrollments && id && (
+                <div className="mb-4">
+                  <PromoCodeInput bundleId={id} currency={priceFor(bundle).currency} appliedCoupon={appliedCoupon} onChange={setAppliedCoupon} />
+                </div>
+              )}
+
+              {/* Gift (owners can still buy the bundle for someone else) */}
+              {!bundle.hasReachedMaxEnrollments && (
+                <div className="mb-4">
+                  <GiftOptions gift={giftDetails} onChange={setGiftDetails} />
+                </div>
+              )}
+
               {/* Purchase/Continue Button */}
-              {(bundle?.isPurchased || bundle?.userHasPurchased) ? (
+              {(bundle?.isPurchased || bundle?.userHasPurchased) && !giftDetails ? (
                 <Link to="/dashboard" className="block w-full">
                   <button
                     className="w-full bg-green-600 hover:bg-green-700 text-white font-semibold py-3 sm:py-4 px-6 rounded-lg transition-all duration-500 ease-in-out transform hover:scale-105 hover:-translate-y-1 shadow-xl hover:shadow-2xl flex items-center justify-center space-x-2 text-base sm:text-lg border border-green-500"
@@ -325,7 +355,7 @@ const BundleDetailPage: React.FC = () => {
               ) : (
                 <button
                   onClick={handlePurchase}
-                  disabled={isPurchasing || bundle.hasReachedMaxEnrollments}
+                  disabled={isPurchasing || bundle.hasReachedMaxEnrollments || (!!giftDetails && !giftDetails.recipientEmail.trim())}
                   className="w-full bg-gradient-to-r from-cyan-600 to-blue-600 hover:from-cyan-500 hover:to-blue-500 disabled:from-gray-400 disabled:to-gray-500 text-white font-semibold py-3 sm:py-4 px-6 rounded-lg transition-all duration-500 ease-in-out transform hover:scale-105 hover:-translate-y-1 shadow-xl hover:shadow-2xl flex items-center justify-center space-x-2 text-base sm:text-lg disabled:cursor-not-allowed disabled:transform-none"
                 >
                   {isPurchasing ? (
@@ -341,7 +371,7 @@ const BundleDetailPage: React.FC = () => {
                   ) : (
                     <>
                       <ShoppingCart className="h-5 w-5" />
-                      <span>{t('bundle_detail.buy_bundle', 'Buy Bundle')}</span>
+                      <span>{giftDetails ? t('gift.buy_gift') : t('bundle_detail.buy_bundle', 'Buy Bundle')}</span>
                     </>
                   )}
                 </button>
@@ -344,6 +344,7 @@ const BundlesPage: React.FC = () => {
                   description: bundle.description,
                   longDescription: bundle.longDescription,
                   price: bundle.price,
+                  prices: bundle.prices,
                   originalValue: bundle.originalValue,
                   courseIds: bundle.courseIds.map(c => c._id),
                   thumbnailURL: bundle.thumbnailURL,
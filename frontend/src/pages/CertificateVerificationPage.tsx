@@ -1,9 +1,10 @@
 import React, { useState, useEffect } from 'react';
 import { Helmet } from 'react-helmet-async';
-import { Search, CheckCircle, XCircle, FileText, Calendar, User, BookOpen, Shield, Award, Sparkles } from 'lucide-react';
+import { Search, CheckCircle, XCircle, FileText, Calendar, User, BookOpen, Shield, Award, Sparkles, KeyRound, Copy, Ban, RefreshCw } from 'lucide-react';
 import { useParams, Link } from 'react-router-dom';
 import { useTranslation } from 'react-i18next';
 import { buildApiUrl } from '../config/environment';
+import OfflineCertificateVerifier from '../components/OfflineCertificateVerifier';
 
 interface CertificateVerification {
   certificateId: string;
@@ -21,6 +22,15 @@ interface CertificateVerification {
 interface VerificationResult {
   isValid: boolean;
   verifiedAt: string;
+  status?: 'active' | 'revoked' | 'superseded';
+  revokedAt?: string | null;
+  revocationReason?: string | null;
+  supersededBy?: string | null;
+  signature?: {
+    isValid: boolean;
+    keyId: string;
+    credential: string;
+  } | null;
 }
 
 const CertificateVerificationPage = () => {
@@ -33,6 +43,7 @@ const CertificateVerificationPage = () => {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [showSuccess, setShowSuccess] = useState(false);
+  const [credentialCopied, setCredentialCopied] = useState(false);
 
   // Auto-verify if certificateId is in URL
   useEffect(() => {
@@ -115,6 +126,16 @@ const CertificateVerificationPage = () => {
     verifyCertificate(certificateId);
   };
 
+  const copyCredential = async (credential: string) => {
+    try {
+      await navigator.clipboard.writeText(credential);
+      setCredentialCopied(true);
+      setTimeout(() => setCredentialCopied(false), 2000);
+    } catch (err) {
+      console.error('Error copying credential:', err);
+    }
+  };
+
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString('en-US', {
       year: 'numeric',
@@ -218,6 +239,9 @@ const CertificateVerificationPage = () => {
           </form>
         </div>
 
+        {/* Offline signature check for a PDF or pasted credential */}
+        <OfflineCertificateVerifier />
+
         {/* Error Message */}
         {error && (
           <div className="bg-gradient-to-br from-red-50 to-red-100 dark:from-red-900/20 dark:to-red-800/10 border border-red-200 dark:border-red-700/50 rounded-3xl p-6 mb-8">
@@ -323,6 +347,84 @@ const CertificateVerificationPage = () => {
               </div>
             </div>
 
+            {/* Revoked or replaced certificates */}
+            {verification.status === 'revoked' && (
+              <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-3xl p-6 flex items-start">
+                <Ban className="w-6 h-6 text-red-500 dark:text-red-400 mr-3 flex-shrink-0 mt-0.5" />
+                <div>
+                  <h3 className="text-lg font-bold text-red-800 dark:text-red-300">
+                    {t('certificate_verification.status_revoked') || 'This certificate has been revoked'}
+                  </h3>
+                  {verification.revokedAt && (
+                    <p className="text-sm text-red-700 dark:text-red-400">
+                      {t('certificate_verification.revoked_on') || 'Revoked on'} {formatDate(verification.revokedAt)}
+                    </p>
+                  )}
+                  {verification.revocationReason && (
+                    <p className="text-sm text-red-700 dark:text-red-400">
+                      {t('certificate_verification.revocation_reason') || 'Reason'}: {verification.revocationReason}
+                    </p>
+                  )}
+                </div>
+              </div>
+            )}
+
+            {verification.status === 'superseded' && (
+              <div className="bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-3xl p-6 flex items-start">
+                <RefreshCw className="w-6 h-6 text-yellow-600 dark:text-yellow-400 mr-3 flex-shrink-0 mt-0.5" />
+                <div>
+                  <h3 className="text-lg font-bold text-yellow-800 dark:text-yellow-300">
+                    {t('certificate_verification.status_superseded') || 'This certificate has been replaced by a corrected one'}
+                  </h3>
+                  {verification.supersededBy && (
+                    <Link
+                      to={`/verify/${verification.supersededBy}`}
+                      className="text-sm font-medium text-yellow-700 dark:text-yellow-400 underline"
+                    >
+                      {t('certificate_verification.view_replacement') || 'View the current certificate'} ({verification.supersededBy})
+                    </Link>
+                  )}
+                </div>
+              </div>
+            )}
+
+            {/* Digital Signature */}
+            {verification.signature && (
+              <div className="bg-gradient-to-br from-blue-50 via-cyan-50 to-purple-50 dark:from-gray-800 dark:via-gray-800/95 dark:to-gray-900 rounded-3xl shadow-lg border border-blue-200 dark:border-gray-700 p-6">
+                <div className="flex items-center mb-4">
+                  <div className="w-10 h-10 bg-gradient-to-br from-cyan-500 to-blue-500 rounded-xl flex items-center justify-center mr-3 shadow-lg">
+                    <KeyRound className="w-5 h-5 text-white" />
+                  </div>
+                  <div>
+                    <h3 className="text-lg font-bold text-gray-900 dark:text-white">
+                      {t('certificate_verification.signature') || 'Digital Signature'}
+                    </h3>
+                    <p className={`text-sm ${verification.signature.isValid ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+                      {verification.signature.isValid
+                        ? t('certificate_verification.signature_valid') || 'Signature valid - this certificate has not been altered'
+                        : t('certificate_verification.signature_invalid') || 'Signature does not match this certificate'}
+                    </p>
+                  </div>
+                </div>
+                <div className="flex items-center justify-between mb-2">
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    {t('certificate_verification.signed_credential') || 'Signed credential'} · {verification.signature.keyId}
+                  </p>
+                  <button
+                    type="button"
+                    onClick={() => copyCredential(verification.signature!.credential)}
+                    className="inline-flex items-center text-xs px-3 py-1.5 rounded-lg bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300 border border-gray-300 dark:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
+                  >
+                    <Copy className="w-3 h-3 mr-1" />
+                    {credentialCopied ? (t('certificate_verification.copied') || 'Copied') : (t('certificate_verification.copy_credential') || 'Copy')}
+                  </button>
+                </div>
+                <p className="font-mono text-xs text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-800/60 border border-gray-200 dark:border-gray-700 rounded-xl p-3 break-all max-h-24 overflow-y-auto">
+                  {verification.signature.credential}
+                </p>
+              </div>
+            )}
+
             {/* Certificate Information Grid */}
             <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
               {/* Student Information */}
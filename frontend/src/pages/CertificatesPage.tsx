@@ -1,9 +1,12 @@
 import React, { useState, useEffect } from 'react';
 import { useTranslation } from 'react-i18next';
-import { Download, ExternalLink, CheckCircle, Calendar, BookOpen, Award, Share2, Sparkles } from 'lucide-react';
+import { Download, ExternalLink, CheckCircle, Calendar, BookOpen, Award, Share2, Sparkles, BadgeCheck, Linkedin } from 'lucide-react';
 import { Link } from 'react-router-dom';
-import { buildApiUrl, config } from '../config/environment';
+import { config } from '../config/environment';
 import { getLocalizedText } from '../utils/bilingualHelper';
+import { downloadOpenBadge, buildLinkedInAddUrl } from '../utils/openBadge';
+import DocumentLanguageSelect, { DocumentLanguage } from '../components/DocumentLanguageSelect';
+import { authFetch, getAccessToken } from '../utils/api';
 
 interface Certificate {
   certificateId: string;
@@ -11,6 +14,7 @@ interface Certificate {
   dateIssued: string;
   completionDate: string;
   pdfUrl: string;
+  status?: 'active' | 'revoked';
   course: {
     _id: string;
     title: string;
@@ -25,9 +29,11 @@ const CertificatesPage = () => {
   const [certificates, setCertificates] = useState<Certificate[]>([]);
   const [loading, setLoading] = useState(true);
   const [downloading, setDownloading] = useState<string | null>(null);
+  const [downloadingBadge, setDownloadingBadge] = useState<string | null>(null);
   const [sharing, setSharing] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [showSuccess, setShowSuccess] = useState<string | null>(null);
+  const [documentLanguage, setDocumentLanguage] = useState<DocumentLanguage>(currentLanguage === 'tg' ? 'tg' : 'en');
 
   // Clear error message after 5 seconds
   useEffect(() => {
@@ -47,18 +53,14 @@ const CertificatesPage = () => {
     try {
       setLoading(true);
       setError(null);
-      const token = localStorage.getItem('token');
+      const token = getAccessToken();
       
       if (!token) {
         setError(t('certificates.auth_required'));
         return;
       }
 
-              const response = await fetch(buildApiUrl('/api/certificates/user'), {
-        headers: {
-          'Authorization': `Bearer ${token}`
-        }
-      });
+              const response = await authFetch('/api/certificates/user');
 
       if (!response.ok) {
         throw new Error(t('certificates.failed_to_fetch'));
@@ -78,20 +80,21 @@ const CertificatesPage = () => {
     try {
       setDownloading(certificateId);
       setError(null);
-      const token = localStorage.getItem('token');
+      const token = getAccessToken();
       
       if (!token) {
         setError(t('certificates.auth_required'));
         return;
       }
 
-      const response = await fetch(buildApiUrl(`/api/certificates/download/${certificateId}`), {
-        headers: {
-          'Authorization': `Bearer ${token}`
-        }
-      });
+      const response = await authFetch(`/api/certificates/download/${certificateId}?lang=${documentLanguage}`);
 
       if (!response.ok) {
+        // 503: the server can't draw Tigrinya right now (no Ge'ez font)
+        if (response.status === 503) {
+          setError(t('certificates.language_unavailable'));
+          return;
+        }
         throw new Error(t('certificates.failed_to_download'));
       }
 
@@ -126,6 +129,18 @@ const CertificatesPage = () => {
   };
 
 
+  const downloadBadge = async (certificateId: string) => {
+    try {
+      setDownloadingBadge(certificateId);
+      setError(null);
+      await downloadOpenBadge(certificateId);
+    } catch (error) {
+      console.error('Error downloading Open Badge credential:', error);
+      setError(t('certificates.failed_to_download_badge'));
+    } finally {
+      setDownloadingBadge(null);
+    }
+  };
 
   const shareCertificate = (certificate: Certificate) => {
     console.log('🔧 Share button clicked!');
@@ -381,6 +396,10 @@ const CertificatesPage = () => {
               </div>
             </div>
 
+            <div className="flex justify-end mb-4">
+              <DocumentLanguageSelect value={documentLanguage} onChange={setDocumentLanguage} />
+            </div>
+
             {/* Certificates Grid */}
             <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-5 xxs:gap-6 sm:gap-8">
               {certificates.map((certificate) => (
@@ -389,7 +408,9 @@ const CertificatesPage = () => {
                   className="bg-gradient-to-br from-gray-800 via-gray-800/95 to-gray-900 rounded-3xl shadow-2xl border border-gray-700/50 hover:border-cyan-500/30 transition-all duration-300 overflow-hidden transform hover:scale-[1.02] hover:shadow-cyan-500/20 relative"
                 >
                   {/* Certificate Header */}
-                  <div className="bg-gradient-to-br from-green-500 via-emerald-500 to-teal-500 p-5 xxs:p-6 text-white relative overflow-hidden">
+                  <div className={`bg-gradient-to-br ${
+                    certificate.status === 'revoked' ? 'from-red-500 via-pink-500 to-rose-500' : 'from-green-500 via-emerald-500 to-teal-500'
+                  } p-5 xxs:p-6 text-white relative overflow-hidden`}>
                     <div className="absolute top-0 right-0 w-24 h-24 xxs:w-32 xxs:h-32 bg-white/10 rounded-full -mr-12 xxs:-mr-16 -mt-12 xxs:-mt-16"></div>
                     <div className="absolute bottom-0 left-0 w-20 h-20 xxs:w-24 xxs:h-24 bg-white/10 rounded-full -ml-10 xxs:-ml-12 -mb-10 xxs:-mb-12"></div>
                     <div className="relative z-10">
@@ -401,7 +422,7 @@ const CertificatesPage = () => {
                         <span className="text-xs xxs:text-sm opacity-90 bg-white/20 px-2 py-1 rounded-lg">#{certificate.certificateId.slice(-8)}</span>
                       </div>
                       <div className="text-xs xxs:text-sm opacity-90">
-                        {t('certificates.course_completed_successfully')}
+                        {certificate.status === 'revoked' ? t('certificates.revoked') : t('certificates.course_completed_successfully')}
                       </div>
                     </div>
                   </div>
@@ -455,6 +476,35 @@ const CertificatesPage = () => {
                           {sharing === certificate.certificateId ? t('certificates.sharing') : t('certificates.share')}
                         </span>
                       </button>
+
+                      <button
+                        onClick={() => downloadBadge(certificate.certificateId)}
+                        disabled={downloadingBadge === certificate.certificateId}
+                        className="flex items-center justify-center space-x-2 bg-gray-700 hover:bg-gray-600 disabled:bg-gray-600 text-white px-3 xxs:px-4 py-2.5 rounded-xl transition-all duration-200 text-xs xxs:text-sm font-medium shadow-lg hover:shadow-xl"
+                        title={t('certificates.open_badge_title')}
+                      >
+                        {downloadingBadge === certificate.certificateId ? (
+                          <div className="animate-spin rounded-full h-4 w-4 border-2 border-white border-t-transparent"></div>
+                        ) : (
+                          <BadgeCheck className="w-4 h-4" />
+                        )}
+                        <span className="hidden xxs:inline">{t('certificates.open_badge')}</span>
+                      </button>
+
+                      <a
+                        href={buildLinkedInAddUrl({
+                          certificateId: certificate.certificateId,
+                          courseTitle: getLocalizedText(certificate.courseTitle, 'en'),
+                          dateIssued: certificate.dateIssued
+                        })}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="flex items-center justify-center space-x-2 bg-[#0A66C2] hover:bg-[#004182] text-white px-3 xxs:px-4 py-2.5 rounded-xl transition-all duration-200 text-xs xxs:text-sm font-medium shadow-lg hover:shadow-xl"
+                        title={t('certificates.add_to_linkedin_title')}
+                      >
+                        <Linkedin className="w-4 h-4" />
+                        <span className="hidden xxs:inline">{t('certificates.add_to_linkedin')}</span>
+                      </a>
                     </div>
                   </div>
 
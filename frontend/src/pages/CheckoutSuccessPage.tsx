@@ -2,9 +2,12 @@ import React, { useEffect, useState } from 'react';
 import { useTranslation } from 'react-i18next';
 import { buildApiUrl } from '../config/environment';
 import { getLocalizedText } from '../utils/bilingualHelper';
+import { useCurrency } from '../hooks/useCurrency';
+import DocumentLanguageSelect, { DocumentLanguage } from '../components/DocumentLanguageSelect';
 
 import { Link, useSearchParams } from 'react-router-dom';
 import { CheckCircle, Play, Download, BookOpen, ArrowRight, Loader, AlertCircle } from 'lucide-react';
+import { authFetch, getAccessToken } from '../utils/api';
 
 interface CourseInfo {
   _id: string;
@@ -27,6 +30,7 @@ interface ReceiptInfo {
 
 const CheckoutSuccessPage = () => {
   const { t, i18n } = useTranslation();
+  const { formatPrice } = useCurrency();
   const [searchParams] = useSearchParams();
   const [courseInfo, setCourseInfo] = useState<CourseInfo | null>(null);
   const [bundleInfo, setBundleInfo] = useState<any | null>(null);
@@ -34,6 +38,7 @@ const CheckoutSuccessPage = () => {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [downloadingReceipt, setDownloadingReceipt] = useState(false);
+  const [receiptLanguage, setReceiptLanguage] = useState<DocumentLanguage>(i18n.language === 'tg' ? 'tg' : 'en');
   const [actualAmountPaid, setActualAmountPaid] = useState<number | null>(null);
   const [isWrongCourse, setIsWrongCourse] = useState(false);
   const [correctCourseTitle, setCorrectCourseTitle] = useState<string | null>(null);
@@ -60,15 +65,11 @@ const CheckoutSuccessPage = () => {
   // Function to fetch actual amount paid from user's purchase history
   const fetchActualAmountPaid = async () => {
     try {
-      const token = localStorage.getItem('token');
+      const token = getAccessToken();
       if (!token) return;
 
       // Get user's purchased courses to find the actual payment
-      const userResponse = await fetch(buildApiUrl('/api/auth/me'), {
-        headers: {
-          'Authorization': `Bearer ${token}`
-        }
-      });
+      const userResponse = await authFetch('/api/auth/me');
 
       if (userResponse.ok) {
         const userData = await userResponse.json();
@@ -176,7 +177,7 @@ const CheckoutSuccessPage = () => {
         }
 
         // Fetch receipt information
-        const token = localStorage.getItem('token');
+        const token = getAccessToken();
         if (token && effectiveId) {
           try {
             console.log(`🔧 Fetching receipt for ${bundleId ? 'bundleId' : 'courseId'}: ${effectiveId}`);
@@ -187,9 +188,8 @@ const CheckoutSuccessPage = () => {
             );
             console.log(`🔧 Receipt URL: ${receiptUrl}`);
             
-            const receiptResponse = await fetch(receiptUrl, {
+            const receiptResponse = await authFetch(receiptUrl, {
               headers: {
-                'Authorization': `Bearer ${token}`,
                 'Content-Type': 'application/json'
               }
             });
@@ -278,15 +278,11 @@ const CheckoutSuccessPage = () => {
       if (!effectiveId) return;
 
       try {
-        const token = localStorage.getItem('token');
+        const token = getAccessToken();
         if (!token) return;
 
         // Check if user has purchased the course or bundle
-        const purchaseResponse = await fetch(buildApiUrl(`/api/payment/check-purchase/${effectiveId}`), {
-          headers: {
-            'Authorization': `Bearer ${token}`
-          }
-        });
+        const purchaseResponse = await authFetch(`/api/payment/check-purchase/${effectiveId}`);
 
         if (purchaseResponse.ok) {
           const purchaseData = await purchaseResponse.json();
@@ -297,9 +293,8 @@ const CheckoutSuccessPage = () => {
             
             // Try to fetch receipt again
             try {
-              const receiptResponse = await fetch(buildApiUrl(`/api/payment/receipt/${effectiveId}`), {
+              const receiptResponse = await authFetch(`/api/payment/receipt/${effectiveId}`, {
                 headers: {
-                  'Authorization': `Bearer ${token}`,
                   'Content-Type': 'application/json'
                 }
               });
@@ -350,7 +345,7 @@ const CheckoutSuccessPage = () => {
 
     setDownloadingReceipt(true);
     try {
-      const token = localStorage.getItem('token');
+      const token = getAccessToken();
       if (!token) {
         throw new Error(t('checkout_success.authentication_required'));
       }
@@ -360,11 +355,7 @@ const CheckoutSuccessPage = () => {
         ? `/api/payment/download-bundle-receipt/${bundleId}`
         : `/api/payment/download-receipt/${effectiveCourseId}`;
 
-      const response = await fetch(buildApiUrl(receiptEndpoint), {
-        headers: {
-          'Authorization': `Bearer ${token}`,
-        }
-      });
+      const response = await authFetch(`${receiptEndpoint}?lang=${receiptLanguage}`);
 
       if (!response.ok) {
         const errorData = await response.json().catch(() => ({}));
@@ -496,7 +487,11 @@ const CheckoutSuccessPage = () => {
                 <div className="flex justify-between items-center">
                   <span className="text-gray-600 dark:text-gray-400">{t('checkout_success.amount_paid')}</span>
                   <span className="font-semibold text-green-600 dark:text-green-400">
-                    ${actualAmountPaid || receiptInfo?.amount || (bundleId ? bundleInfo?.price : courseInfo?.price) || t('checkout_success.processing')}
+                    {receiptInfo
+                      ? formatPrice(receiptInfo.amount, receiptInfo.currency)
+                      : (actualAmountPaid || (bundleId ? bundleInfo?.price : courseInfo?.price))
+                        ? formatPrice(actualAmountPaid || (bundleId ? bundleInfo?.price : courseInfo?.price), 'usd')
+                        : t('checkout_success.processing')}
                   </span>
                 </div>
                 <div className="flex justify-between items-center">
@@ -587,7 +582,8 @@ const CheckoutSuccessPage = () => {
               <p className="text-gray-700 dark:text-gray-300 mb-4">
                 {t('checkout_success.download_receipt_description')}
               </p>
-              <div className="flex flex-col sm:flex-row gap-3">
+              <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+                <DocumentLanguageSelect value={receiptLanguage} onChange={setReceiptLanguage} />
                 <button 
                   onClick={handleDownloadReceipt}
                   disabled={downloadingReceipt}
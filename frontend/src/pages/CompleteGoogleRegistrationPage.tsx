@@ -3,6 +3,7 @@ import { useNavigate, useSearchParams } from 'react-router-dom';
 import { useTranslation } from 'react-i18next';
 import { CheckCircle, XCircle, Loader } from 'lucide-react';
 import { config } from '../config/environment';
+import { setAccessToken } from '../utils/api';
 import ScrollToTop from '../components/ScrollToTop';
 
 const CompleteGoogleRegistrationPage: React.FC = () => {
@@ -34,6 +35,7 @@ const CompleteGoogleRegistrationPage: React.FC = () => {
       try {
         const response = await fetch(config.API_BASE_URL + '/api/auth/complete-google-registration', {
           method: 'POST',
+          credentials: 'include', // Receives the refresh token cookie
           headers: {
             'Content-Type': 'application/json',
           },
@@ -50,7 +52,7 @@ const CompleteGoogleRegistrationPage: React.FC = () => {
           
           // Store the token and redirect to dashboard
           if (result.data?.token) {
-            localStorage.setItem('token', result.data.token);
+            setAccessToken(result.data.token);
             setTimeout(() => {
               navigate('/dashboard');
             }, 2000);
@@ -7,11 +7,17 @@ import EnhancedVideoPlayer from '../components/EnhancedVideoPlayer';
 import WhatsAppGroupButton from '../components/WhatsAppGroupButton';
 import ReviewForm from '../components/ReviewForm';
 import ReviewList from '../components/ReviewList';
+import PromoCodeInput, { CouponPreview } from '../components/PromoCodeInput';
+import GiftOptions, { GiftDetails } from '../components/GiftOptions';
+import InstructorCard from '../components/InstructorCard';
 import { buildApiUrl } from '../config/environment';
 import DRMVideoService from '../services/drmVideoService';
 import { parseDurationToSeconds, formatDuration } from '../utils/durationFormatter';
-import { useCourse } from '../hooks/useCourses';
+import { useCourse, CourseInstructor } from '../hooks/useCourses';
 import { getLocalizedText } from '../utils/bilingualHelper';
+import { useCurrency } from '../hooks/useCurrency';
+import { LocalPrices } from '../utils/currency';
+import { authFetch, getAccessToken } from '../utils/api';
 
 
 interface Video {
@@ -60,6 +66,7 @@ interface Course {
   description: string;
   thumbnailURL?: string;
   price: number;
+  prices?: LocalPrices;
   category?: string;
   level?: string;
   tags?: string[];
@@ -73,6 +80,7 @@ interface Course {
     thumbnailURL?: string;
   }>;
   instructor?: string;
+  instructors?: CourseInstructor[];
   totalDuration?: number;
   totalVideos?: number;
 
@@ -88,6 +96,7 @@ interface PurchaseStatus {
 
 const CourseDetailPage = () => {
   const { t, i18n } = useTranslation();
+  const { priceFor, formatPrice } = useCurrency();
   const currentLanguage = (i18n.language || 'en') as 'en' | 'tg';
   const { id, videoId } = useParams<{ id: string; videoId?: string }>();
   const navigate = useNavigate();
@@ -96,6 +105,8 @@ const CourseDetailPage = () => {
   const [error, setError] = useState<string | null>(null);
   const [purchaseStatus, setPurchaseStatus] = useState<PurchaseStatus | null>(null);
   const [isPurchasing, setIsPurchasing] = useState(false);
+  const [appliedCoupon, setAppliedCoupon] = useState<CouponPreview | null>(null);
+  const [giftDetails, setGiftDetails] = useState<GiftDetails | null>(null);
   const [userToken, setUserToken] = useState<string | null>(null);
 
   // Course data state
@@ -155,7 +166,7 @@ const CourseDetailPage = () => {
 
   // Get current user ID from token
   useEffect(() => {
-    const token = userToken || localStorage.getItem('token');
+    const token = userToken || getAccessToken();
     if (token) {
       try {
         const decoded = JSON.parse(atob(token.split('.')[1]));
@@ -206,10 +217,9 @@ const CourseDetailPage = () => {
     
     try {
       setSubmittingReview(true);
-      const response = await fetch(buildApiUrl('/api/reviews'), {
+      const response = await authFetch('/api/reviews', {
         method: 'POST',
         headers: {
-          'Authorization': `Bearer ${userToken}`,
           'Content-Type': 'application/json'
         },
         body: JSON.stringify({ 
@@ -251,16 +261,7 @@ const CourseDetailPage = () => {
         
         // Always try to fetch materials, even if not authenticated
         // The API will return empty array for unauthenticated users
-        const headers: HeadersInit = {};
-        // Get token from localStorage as fallback if userToken state is not set
-        const token = userToken || localStorage.getItem('token');
-        if (token) {
-          headers['Authorization'] = `Bearer ${token}`;
-        }
-        
-        const response = await fetch(buildApiUrl(`/api/materials/course/${id}?version=${courseVersion}`), {
-          headers
-        }).catch((error) => {
+        const response = await authFetch(`/api/materials/course/${id}?version=${courseVersion}`).catch((error) => {
           console.error('❌ Network error fetching materials:', error);
           return {
             ok: false,
@@ -338,14 +339,10 @@ const CourseDetailPage = () => {
 
   const checkCertificateExists = async () => {
     try {
-      const token = localStorage.getItem('token');
+      const token = getAccessToken();
       if (!token) return;
 
-      const response = await fetch(buildApiUrl(`/api/certificates/course/${id}`), {
-        headers: {
-          'Authorization': `Bearer ${token}`
-        }
-      });
+      const response = await authFetch(`/api/certificates/course/${id}`);
 
       if (response.ok) {
         const result = await response.json();
@@ -382,7 +379,7 @@ const CourseDetailPage = () => {
       console.log('   - Is Mobile:', /Android|webOS|iPhone|iPad|iPod|BlackBerry|IEMobile|Opera Mini/i.test(navigator.userAgent));
       
       setGeneratingCertificate(true);
-      const token = localStorage.getItem('token');
+      const token = getAccessToken();
       
       if (!token) {
         console.error('❌ [Certificate] No authentication token found');
@@ -397,12 +394,11 @@ const CourseDetailPage = () => {
       const controller = new AbortController();
       const timeoutId = setTimeout(() => controller.abort(), 30000); // 30 second timeout for mobile
       
-      const response = await fetch(buildApiUrl('/api/certificates/generate'), {
+      const response = await authFetch('/api/certificates/generate', {
         method: 'POST',
         signal: controller.signal,
         headers: {
           'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`,
           'X-Mobile-Client': /Android|webOS|iPhone|iPad|iPod|BlackBerry|IEMobile|Opera Mini/i.test(navigator.userAgent) ? 'true' : 'false'
         },
         body: JSON.stringify({
@@ -472,10 +468,20 @@ const CourseDetailPage = () => {
 
   // Check if user is authenticated
   useEffect(() => {
-    const token = localStorage.getItem('token');
+    const token = getAccessToken();
     setUserToken(token);
   }, []);
 
+  // Count one page view per course per browser session (for the admin conversion analytics)
+  useEffect(() => {
+    if (!id) return;
+    const viewedKey = `course_viewed_${id}`;
+    if (sessionStorage.getItem(viewedKey)) return;
+    sessionStorage.setItem(viewedKey, '1');
+    fetch(buildApiUrl(`/api/courses/${id}/view`), { method: 'POST' })
+      .catch(error => console.error('Error recording course view:', error));
+  }, [id]);
+
 
   // Fetch course data - API first, fallback to sample
   useEffect(() => {
@@ -544,16 +550,14 @@ const CourseDetailPage = () => {
         console.log('🔧 [CourseDetail] Starting to fetch course data...');
         console.log('   - Course ID:', id);
         
-        const token = localStorage.getItem('token');
+        const token = getAccessToken();
         if (!token && !userToken) {
           console.log('⚠️ [CourseDetail] No authentication token, will fetch public data');
         }
         
         // Fetch course data first to get the proper title
         console.log('🔧 [CourseDetail] Fetching course data...');
-        const courseResponse = await fetch(buildApiUrl(`/api/courses/${id}`), {
-          headers: token ? { 'Authorization': `Bearer ${token}` } : {}
-        });
+        const courseResponse = await authFetch(`/api/courses/${id}`);
         
         let courseDataFromApi = null;
         if (courseResponse.ok) {
@@ -595,9 +599,7 @@ const CourseDetailPage = () => {
         console.log('🔧 [CourseDetail] Fetching course progress...');
         let progressResult = null;
         if (token && userHasPurchased) {
-          const progressResponse = await fetch(buildApiUrl(`/api/progress/course/${id}`), {
-            headers: { 'Authorization': `Bearer ${token}` }
-          });
+          const progressResponse = await authFetch(`/api/progress/course/${id}`);
           
           if (progressResponse.ok) {
             progressResult = await progressResponse.json();
@@ -787,9 +789,8 @@ const CourseDetailPage = () => {
       try {
         // Checking purchase status...
         
-        const response = await fetch(buildApiUrl(`/api/payment/check-purchase/${id}`), {
+        const response = await authFetch(`/api/payment/check-purchase/${id}`, {
           headers: {
-            'Authorization': `Bearer ${userToken}`,
             'Content-Type': 'application/json'
           }
         });
@@ -882,7 +883,7 @@ const CourseDetailPage = () => {
         return video.videoUrl;
       }
 
-      const token = localStorage.getItem('token');
+      const token = getAccessToken();
       if (!token) {
         console.error('❌ No authentication token for URL refresh');
         return null;
@@ -892,10 +893,7 @@ const CourseDetailPage = () => {
       const controller = new AbortController();
       const timeoutId = setTimeout(() => controller.abort(), 10000);
 
-      const response = await fetch(buildApiUrl(`/api/videos/${videoId}`), {
-        headers: {
-          'Authorization': `Bearer ${token}`
-        },
+      const response = await authFetch(`/api/videos/${videoId}`, {
         signal: controller.signal
       });
 
@@ -932,18 +930,17 @@ const CourseDetailPage = () => {
   // DRM URL decryption function (from VideoPlayerPage)
   const decryptVideoUrl = async (encryptedUrl: string, sessionId: string): Promise<string> => {
     try {
-      const token = localStorage.getItem('token');
+      const token = getAccessToken();
       if (!token) {
         throw new Error('No authentication token found');
       }
 
       console.log('🔓 [CourseDetail] Decrypting URL...');
 
-      const response = await fetch(buildApiUrl('/api/drm/decrypt-url'), {
+      const response = await authFetch('/api/drm/decrypt-url', {
         method: 'POST',
         headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`
+          'Content-Type': 'application/json'
         },
         body: JSON.stringify({
           encryptedUrl,
@@ -1105,7 +1102,7 @@ const CourseDetailPage = () => {
     }
 
     try {
-      const token = localStorage.getItem('token');
+      const token = getAccessToken();
       if (!token) return;
 
       const abortController = new AbortController();
@@ -1113,11 +1110,10 @@ const CourseDetailPage = () => {
 
       console.log(`🔧 [Udemy-Style] Sending progress update: ${watchedDuration}s / ${totalDuration}s`);
 
-      const response = await fetch(buildApiUrl('/api/progress/update'), {
+      const response = await authFetch('/api/progress/update', {
         method: 'POST',
         headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`
+          'Content-Type': 'application/json'
         },
         body: JSON.stringify({
           courseId: id,
@@ -1210,17 +1206,16 @@ const CourseDetailPage = () => {
     }
 
     try {
-      const token = localStorage.getItem('token');
+      const token = getAccessToken();
       if (!token) return;
 
       const abortController = new AbortController();
       pendingProgressRequest.current = abortController;
 
-      const response = await fetch(buildApiUrl('/api/progress/update'), {
+      const response = await authFetch('/api/progress/update', {
         method: 'POST',
         headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`
+          'Content-Type': 'application/json'
         },
         body: JSON.stringify({
           courseId: id,
@@ -1341,15 +1336,14 @@ const CourseDetailPage = () => {
     if (!id || !currentVideoId) return;
 
     try {
-      const token = localStorage.getItem('token');
+      const token = getAccessToken();
       if (!token) return;
 
       // Mark video as completed
-      await fetch(buildApiUrl('/api/progress/complete-video'), {
+      await authFetch('/api/progress/complete-video', {
         method: 'POST',
         headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`
+          'Content-Type': 'application/json'
         },
         body: JSON.stringify({
           courseId: id,
@@ -1592,14 +1586,10 @@ const CourseDetailPage = () => {
 
     const refreshProgress = async () => {
       try {
-        const token = localStorage.getItem('token');
+        const token = getAccessToken();
         if (!token) return;
 
-        const progressResponse = await fetch(buildApiUrl(`/api/progress/course/${id}`), {
-          headers: {
-            'Authorization': `Bearer ${token}`
-          }
-        }).catch(error => {
+        const progressResponse = await authFetch(`/api/progress/course/${id}`).catch(error => {
           console.warn('⚠️ [Progress Refresh] Network error:', error.message);
           return null;
         });
@@ -1728,14 +1718,10 @@ const CourseDetailPage = () => {
       if (!currentVideoId || !id) return;
 
       try {
-        const token = localStorage.getItem('token');
+        const token = getAccessToken();
         if (!token) return;
 
-        const resumeResponse = await fetch(buildApiUrl(`/api/progress/resume/${id}/${currentVideoId}`), {
-          headers: {
-            'Authorization': `Bearer ${token}`
-          }
-        });
+        const resumeResponse = await authFetch(`/api/progress/resume/${id}/${currentVideoId}`);
 
         if (resumeResponse.ok) {
           const resumeResult = await resumeResponse.json();
@@ -1953,7 +1939,8 @@ const CourseDetailPage = () => {
     return () => clearInterval(interval);
   }, [currentVideo?.id, currentVideo?.videoUrl]);
 
-  const handlePurchase = async () => {
+  // Gift details come only from the main buy button; the locked-lesson buttons always buy for the user
+  const handlePurchase = async (gift: GiftDetails | null = null) => {
     if (!userToken) {
       navigate('/login');
       return;
@@ -1971,14 +1958,16 @@ const CourseDetailPage = () => {
       // Store courseId in sessionStorage for fallback redirect
       sessionStorage.setItem('pendingCourseId', id);
 
-      const response = await fetch(buildApiUrl('/api/payment/create-checkout-session'), {
+      const response = await authFetch('/api/payment/create-checkout-session', {
         method: 'POST',
         headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${userToken}`
+          'Content-Type': 'application/json'
         },
         body: JSON.stringify({
-          courseId: id
+          courseId: id,
+          couponCode: appliedCoupon?.code,
+          currency: course ? priceFor(course).currency : undefined,
+          gift: gift || undefined
         })
       });
 
@@ -2142,25 +2131,45 @@ const CourseDetailPage = () => {
                     <CheckCircle className="h-5 w-5" />
                     <span className="text-sm font-semibold">{t('course_detail.purchased_course', 'Purchased Course')}</span>
                   </div>
+                  {!giftDetails && (
+                    <div className="mt-2">
+                      <GiftOptions gift={null} onChange={setGiftDetails} />
+                    </div>
+                  )}
                 </div>
               )}
 
-              {/* Buy Button */}
-              {!(purchaseStatus?.hasPurchased || courseData?.userHasPurchased) && (
+              {/* Buy Button (owners can still buy the course as a gift) */}
+              {(!(purchaseStatus?.hasPurchased || courseData?.userHasPurchased) || giftDetails) && (
                 <div className="flex flex-col sm:flex-row items-start sm:items-center gap-3 tiny:gap-4 pt-3 tiny:pt-4 border-t border-blue-300 dark:border-gray-700">
                   <div className="flex-1">
                     <div className="flex items-baseline gap-1.5 tiny:gap-2">
                       <span className="text-xl tiny:text-2xl xxs:text-3xl sm:text-4xl font-bold text-gray-900 dark:text-white">
-                        ${course.price?.toFixed(2) || '0.00'}
+                        {appliedCoupon
+                          ? formatPrice(appliedCoupon.finalAmount, appliedCoupon.currency)
+                          : formatPrice(priceFor(course).amount, priceFor(course).currency)}
                       </span>
+                      {appliedCoupon && (
+                        <span className="text-sm tiny:text-base xxs:text-lg text-gray-600 dark:text-gray-400 line-through">
+                          {formatPrice(appliedCoupon.originalAmount, appliedCoupon.currency)}
+                        </span>
+                      )}
                     </div>
                     <p className="text-[10px] tiny:text-xs xxs:text-sm text-gray-600 dark:text-gray-400 mt-0.5 tiny:mt-1">
                       {t('course_detail.lifetime_access', 'Lifetime access')}
                     </p>
+                    {id && (
+                      <div className="mt-2 max-w-sm">
+                        <PromoCodeInput courseId={id} currency={priceFor(course).currency} appliedCoupon={appliedCoupon} onChange={setAppliedCoupon} />
+                      </div>
+                    )}
+                    <div className="mt-2 max-w-sm">
+                      <GiftOptions gift={giftDetails} onChange={setGiftDetails} />
+                    </div>
                   </div>
                   <button
-                    onClick={handlePurchase}
-                    disabled={isPurchasing}
+                    onClick={() => handlePurchase(giftDetails)}
+                    disabled={isPurchasing || (!!giftDetails && !giftDetails.recipientEmail.trim())}
                     className="w-full sm:w-auto px-4 tiny:px-6 xxs:px-8 py-2 tiny:py-2.5 xxs:py-3 bg-gradient-to-r from-cyan-600 to-blue-600 hover:from-cyan-500 hover:to-blue-500 text-white font-semibold rounded-lg tiny:rounded-xl transition-all duration-200 shadow-lg hover:shadow-xl hover:shadow-cyan-500/40 hover:scale-105 transform disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:scale-100 flex items-center justify-center gap-1.5 tiny:gap-2 text-xs tiny:text-sm xxs:text-base"
                   >
                     {isPurchasing ? (
@@ -2171,7 +2180,7 @@ const CourseDetailPage = () => {
                     ) : (
                       <>
                         <ShoppingCart className="h-4 w-4 tiny:h-5 tiny:w-5" />
-                        <span>{t('course_detail.purchase_course')}</span>
+                        <span>{giftDetails ? t('gift.buy_gift') : t('course_detail.purchase_course')}</span>
                       </>
                     )}
                   </button>
@@ -2222,7 +2231,7 @@ const CourseDetailPage = () => {
                             title={courseData?.title ? getLocalizedText(courseData.title, currentLanguage) : undefined}
                             userId={(() => {
                               try {
-                                const token = localStorage.getItem('token');
+                                const token = getAccessToken();
                                 if (token) {
                                   const decoded = JSON.parse(atob(token.split('.')[1]));
                                   return decoded.userId || decoded._id || decoded.id;
@@ -2347,7 +2356,7 @@ const CourseDetailPage = () => {
                                     {t('course_detail.sign_in')}
                                   </button>
                                   <button
-                                    onClick={handlePurchase}
+                                    onClick={() => handlePurchase()}
                                     className="bg-gray-600 dark:bg-gray-700 hover:bg-gray-500 dark:hover:bg-gray-600 text-white px-3 tiny:px-4 xxs:px-5 sm:px-6 py-1.5 tiny:py-2 xxs:py-2.5 sm:py-3 rounded-lg transition-colors duration-200 font-semibold text-[10px] tiny:text-xs xxs:text-sm sm:text-base whitespace-nowrap"
                                   >
                                     {t('course_detail.purchase_course')}
@@ -2355,7 +2364,7 @@ const CourseDetailPage = () => {
                                 </div>
                               ) : (
                                 <button
-                                  onClick={handlePurchase}
+                                  onClick={() => handlePurchase()}
                                   className="bg-gradient-to-r from-cyan-600 to-blue-600 hover:from-cyan-500 hover:to-blue-500 text-white px-3 tiny:px-4 xxs:px-5 sm:px-6 py-1.5 tiny:py-2 xxs:py-2.5 sm:py-3 rounded-lg transition-all duration-200 font-semibold text-[10px] tiny:text-xs xxs:text-sm sm:text-base shadow-lg hover:shadow-xl hover:shadow-cyan-500/20 whitespace-nowrap"
                                 >
                                   {t('course_detail.purchase_course')}
@@ -2420,7 +2429,7 @@ const CourseDetailPage = () => {
                                     {t('course_detail.sign_in')}
                                   </button>
                                   <button
-                                    onClick={handlePurchase}
+                                    onClick={() => handlePurchase()}
                                     className="bg-gray-600 dark:bg-gray-700 hover:bg-gray-500 dark:hover:bg-gray-600 text-white px-3 tiny:px-4 xxs:px-5 sm:px-6 py-1.5 tiny:py-2 xxs:py-2.5 sm:py-3 rounded-lg transition-colors duration-200 font-semibold text-[10px] tiny:text-xs xxs:text-sm sm:text-base whitespace-nowrap"
                                   >
                                     {t('course_detail.purchase_course')}
@@ -2812,6 +2821,22 @@ const CourseDetailPage = () => {
                 </div>
               </div>
 
+              {/* Instructors Section */}
+              {course.instructors && course.instructors.length > 0 && (
+                <div className="bg-white dark:bg-gray-800 rounded-lg tiny:rounded-xl border border-gray-200 dark:border-gray-700 shadow-xl overflow-hidden">
+                  <div className="p-3 tiny:p-4 xxs:p-4 border-b border-gray-200 dark:border-gray-700 bg-gradient-to-br from-blue-50 via-cyan-50 to-purple-50 dark:from-gray-800 dark:via-gray-800/95 dark:to-gray-900">
+                    <h3 className="text-base tiny:text-lg font-semibold text-gray-900 dark:text-white">
+                      {course.instructors.length > 1 ? t('course_detail.instructors', 'Instructors') : t('course_detail.instructor', 'Instructor')}
+                    </h3>
+                  </div>
+                  <div className="p-3 tiny:p-4 xxs:p-4 sm:p-6 space-y-4 tiny:space-y-5">
+                    {course.instructors.map(instructor => (
+                      <InstructorCard key={instructor._id} instructor={instructor} />
+                    ))}
+                  </div>
+                </div>
+              )}
+
               {/* WhatsApp Group Section */}
               {course.hasWhatsappGroup && (
                 <div className="bg-white dark:bg-gray-800 rounded-lg tiny:rounded-xl border border-gray-200 dark:border-gray-700 shadow-xl overflow-hidden">
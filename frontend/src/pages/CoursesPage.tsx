@@ -5,6 +5,7 @@ import LoadingMessage from '../components/LoadingMessage';
 import { Search, Filter, X } from 'lucide-react';
 import { useCourses, CourseFilters, ApiCourse } from '../hooks/useCourses';
 import { parseDurationToSeconds } from '../utils/durationFormatter';
+import { getAccessToken } from '../utils/api';
 
 
 const CoursesPage: React.FC = () => {
@@ -64,7 +65,7 @@ const CoursesPage: React.FC = () => {
 
   // Check if user is authenticated - immediate check
   useEffect(() => {
-    const token = localStorage.getItem('token');
+    const token = getAccessToken();
     console.log('🔍 [CoursesPage] Authentication check:', {
       hasToken: !!token,
       tokenLength: token?.length || 0
@@ -286,6 +287,7 @@ const CoursesPage: React.FC = () => {
             description={c.description}
             thumbnail={c.thumbnailURL || ''}
             price={c.price}
+            prices={c.prices}
             duration={`${totalSeconds}`}
             students={c.totalEnrollments || 0}
             lessons={(c.videos || []).length}
@@ -1,10 +1,10 @@
 import { useState, useEffect, useMemo } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
 import { useTranslation } from 'react-i18next';
-import { BookOpen, Search, Trophy, TrendingUp, Clock, ChevronLeft, ChevronRight } from 'lucide-react';
+import { BookOpen, Search, Trophy, TrendingUp, Clock, ChevronLeft, ChevronRight, StickyNote, Download } from 'lucide-react';
 import CourseCard from '../components/CourseCard';
 import LoadingMessage from '../components/LoadingMessage';
-import { buildApiUrl } from '../config/environment';
+import { authFetch, getAccessToken } from '../utils/api';
 
 interface UserData {
   name: string;
@@ -45,6 +45,8 @@ const DashboardPage = () => {
   const [error, setError] = useState<string | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
   const [filterStatus, setFilterStatus] = useState<'all' | 'in-progress' | 'completed'>('all');
+  const [noteCounts, setNoteCounts] = useState<Record<string, number>>({});
+  const [exportingNotes, setExportingNotes] = useState<string | null>(null);
   
   // Pagination state
   const [currentPage, setCurrentPage] = useState(1);
@@ -64,7 +66,7 @@ const DashboardPage = () => {
     const fetchDashboardData = async () => {
       try {
         setLoading(true);
-        const token = localStorage.getItem('token');
+        const token = getAccessToken();
         
         if (!token) {
           navigate('/login');
@@ -72,11 +74,7 @@ const DashboardPage = () => {
         }
 
         // Fetch user data
-        const userResponse = await fetch(buildApiUrl('/api/auth/me'), {
-          headers: {
-            'Authorization': `Bearer ${token}`
-          }
-        });
+        const userResponse = await authFetch('/api/auth/me');
 
         if (!userResponse.ok) {
           throw new Error(t('dashboard.failed_fetch_user'));
@@ -87,11 +85,7 @@ const DashboardPage = () => {
         setUserData(me);
 
         // Fetch dashboard progress data
-        const progressResponse = await fetch(buildApiUrl('/api/progress/dashboard'), {
-              headers: {
-                'Authorization': `Bearer ${token}`
-              }
-            });
+        const progressResponse = await authFetch('/api/progress/dashboard');
             
         if (!progressResponse.ok) {
           throw new Error(t('dashboard.failed_fetch_progress'));
@@ -112,6 +106,21 @@ const DashboardPage = () => {
         
         setEnrolledCourses(courses);
 
+        // Notes are optional - don't fail the dashboard if they can't be loaded
+        try {
+          const notesResponse = await authFetch('/api/notes/summary');
+          if (notesResponse.ok) {
+            const notesResult = await notesResponse.json();
+            const counts: Record<string, number> = {};
+            (notesResult?.data?.courses || []).forEach((entry: { courseId: string; count: number }) => {
+              counts[entry.courseId] = entry.count;
+            });
+            setNoteCounts(counts);
+          }
+        } catch (notesError) {
+          console.error('Error fetching notes summary:', notesError);
+        }
+
           } catch (error) {
         console.error('Error fetching dashboard data:', error);
         setError(error instanceof Error ? error.message : t('dashboard.failed_load_dashboard'));
@@ -123,6 +132,36 @@ const DashboardPage = () => {
     fetchDashboardData();
   }, [navigate]);
 
+  // Download all notes for a course as Markdown or PDF
+  const handleExportNotes = async (courseId: string, format: 'md' | 'pdf') => {
+    const token = getAccessToken();
+    if (!token) return;
+
+    try {
+      setExportingNotes(`${courseId}-${format}`);
+      const response = await authFetch(`/api/notes/export/${courseId}?format=${format}`);
+
+      if (!response.ok) {
+        throw new Error(`Export failed: ${response.status}`);
+      }
+
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `notes-${courseId}.${format}`;
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(a);
+    } catch (error) {
+      console.error('❌ Error exporting notes:', error);
+      alert(t('notes.export_failed'));
+    } finally {
+      setExportingNotes(null);
+    }
+  };
+
   // Filter courses based on search term and status
   const filteredCourses = useMemo(() => {
     let filtered = enrolledCourses;
@@ -373,6 +412,27 @@ const DashboardPage = () => {
                           videos={course.videos}
                           isCompleted={course.isCompleted}
                         />
+                        {noteCounts[course._id] > 0 && (
+                          <div className="mt-2 flex items-center justify-between px-3 py-2 rounded-xl bg-white/70 dark:bg-gray-800/70 border border-blue-200 dark:border-gray-700/50">
+                            <span className="flex items-center text-xs text-blue-700 dark:text-gray-300">
+                              <StickyNote className="h-4 w-4 mr-1.5 text-blue-500 dark:text-cyan-400" />
+                              {t('notes.count', { count: noteCounts[course._id] })}
+                            </span>
+                            <div className="flex space-x-2">
+                              {(['md', 'pdf'] as const).map(format => (
+                                <button
+                                  key={format}
+                                  onClick={() => handleExportNotes(course._id, format)}
+                                  disabled={exportingNotes !== null}
+                                  className="flex items-center text-xs font-medium text-blue-600 dark:text-cyan-400 hover:text-blue-800 dark:hover:text-cyan-300 disabled:opacity-50"
+                                >
+                                  <Download className="h-3.5 w-3.5 mr-1" />
+                                  {format === 'md' ? t('notes.export_markdown') : t('notes.export_pdf')}
+                                </button>
+                              ))}
+                            </div>
+                          </div>
+                        )}
                       </div>
                     ))}
                   </div>
@@ -1,5 +1,6 @@
 import React, { useEffect, useState } from 'react';
 import { buildApiUrl } from '../config/environment';
+import { setAccessToken } from '../utils/api';
 import { useTranslation } from 'react-i18next';
 import { useNavigate, useSearchParams } from 'react-router-dom';
 import { Loader, CheckCircle, XCircle } from 'lucide-react';
@@ -38,7 +39,7 @@ const GoogleCallbackPage: React.FC = () => {
         }
 
         // Store the token in localStorage
-        localStorage.setItem('token', token);
+        setAccessToken(token);
 
         // Verify the token by making a request to the backend
         const response = await fetch(buildApiUrl('/api/auth/verify-token'), {
@@ -193,6 +193,7 @@ const HomePage = () => {
             description={c.description}
             thumbnail={c.thumbnailURL || ''}
             price={c.price}
+            prices={c.prices}
             duration={`${totalSeconds}`}
             students={c.totalEnrollments || 0}
             lessons={(c.videos || []).length}
@@ -616,6 +617,7 @@ const HomePage = () => {
                     description: bundle.description,
                     longDescription: bundle.longDescription,
                     price: bundle.price,
+                    prices: bundle.prices,
                     originalValue: bundle.originalValue,
                     courseIds: bundle.courseIds.map(c => typeof c === 'object' ? c._id : c),
                     thumbnailURL: bundle.thumbnailURL,
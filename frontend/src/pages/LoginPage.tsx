@@ -1,16 +1,24 @@
 import React, { useState, useEffect } from 'react';
-import { Link, useNavigate, useLocation } from 'react-router-dom';
+import { Link, useNavigate, useLocation, useSearchParams } from 'react-router-dom';
 import { useTranslation } from 'react-i18next';
 import { Eye, EyeOff, AlertCircle, CheckCircle } from 'lucide-react';
 import AuthForm from '../components/AuthForm';
 import AccountSuspendedModal from '../components/AccountSuspendedModal';
+import TwoFactorLoginStep from '../components/TwoFactorLoginStep';
 import { buildApiUrl } from '../config/environment';
+import { setAccessToken } from '../utils/api';
 
 const LoginPage = () => {
   const { t } = useTranslation();
   const navigate = useNavigate();
   const [showSuspendedModal, setShowSuspendedModal] = useState(false);
   const [suspendedUserEmail, setSuspendedUserEmail] = useState<string>('');
+  const [searchParams, setSearchParams] = useSearchParams();
+  // Google sign-in redirects here with a challenge when the account has two-factor enabled
+  const [twoFactorChallenge, setTwoFactorChallenge] = useState<{ token: string; setupRequired: boolean } | null>(() => {
+    const token = searchParams.get('twoFactorToken');
+    return token ? { token, setupRequired: searchParams.get('setup') === '1' } : null;
+  });
 
   const fields = [
     {
@@ -48,6 +56,7 @@ const LoginPage = () => {
     try {
       const response = await fetch(buildApiUrl('/api/auth/login'), {
         method: 'POST',
+        credentials: 'include', // Receives the refresh token cookie
         headers: {
           'Content-Type': 'application/json',
         },
@@ -59,10 +68,16 @@ const LoginPage = () => {
 
       const result = await response.json();
 
-      if (response.ok) {
+      if (response.ok && result.data?.twoFactorRequired) {
+        // Password accepted; ask for the authenticator code before signing in
+        setTwoFactorChallenge({
+          token: result.data.twoFactorToken,
+          setupRequired: !!result.data.setupRequired
+        });
+      } else if (response.ok) {
         // Store the auth token
         if (result.data?.token) {
-          localStorage.setItem('token', result.data.token);
+          setAccessToken(result.data.token);
         }
         
         // Redirect to dashboard
@@ -90,6 +105,27 @@ const LoginPage = () => {
     }
   };
 
+  const completeTwoFactorLogin = (token: string) => {
+    setAccessToken(token);
+    navigate('/dashboard');
+  };
+
+  const cancelTwoFactorLogin = () => {
+    setTwoFactorChallenge(null);
+    setSearchParams({}, { replace: true });
+  };
+
+  if (twoFactorChallenge) {
+    return (
+      <TwoFactorLoginStep
+        twoFactorToken={twoFactorChallenge.token}
+        setupRequired={twoFactorChallenge.setupRequired}
+        onComplete={completeTwoFactorLogin}
+        onCancel={cancelTwoFactorLogin}
+      />
+    );
+  }
+
   return (
     <>
       <AuthForm
@@ -2,6 +2,7 @@ import React, { useEffect, useState } from 'react';
 import { useTranslation } from 'react-i18next';
 import { Link, useSearchParams, useNavigate } from 'react-router-dom';
 import { XCircle, RefreshCw, AlertTriangle } from 'lucide-react';
+import { authFetch, getAccessToken } from '../utils/api';
 
 const PaymentFailurePage = () => {
   const { t } = useTranslation();
@@ -30,17 +31,13 @@ const PaymentFailurePage = () => {
     setCheckResult(null);
 
     try {
-      const token = localStorage.getItem('token');
+      const token = getAccessToken();
       if (!token) {
         setCheckResult(t('payment_failure.not_authenticated'));
         return;
       }
 
-      const response = await fetch(`/api/payment/check-purchase/${courseId}`, {
-        headers: {
-          'Authorization': `Bearer ${token}`
-        }
-      });
+      const response = await authFetch(`/api/payment/check-purchase/${courseId}`);
 
       if (response.ok) {
         const data = await response.json();
@@ -1,5 +1,4 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { buildApiUrl } from '../config/environment';
 import { useNavigate } from 'react-router-dom';
 import { useTranslation } from 'react-i18next';
 import { 
@@ -9,6 +8,11 @@ import {
 } from 'lucide-react';
 import { config } from '../config/environment';
 import { validatePassword } from '../utils/passwordValidation';
+import MembershipCard from '../components/MembershipCard';
+import GiftHistoryCard from '../components/GiftHistoryCard';
+import TwoFactorCard from '../components/TwoFactorCard';
+import SessionsCard from '../components/SessionsCard';
+import { authFetch, getAccessToken } from '../utils/api';
 
 interface UserData {
   _id: string;
@@ -98,17 +102,13 @@ const ProfilePage = () => {
   useEffect(() => {
     const fetchUserData = async () => {
       try {
-        const token = localStorage.getItem('token');
+        const token = getAccessToken();
         if (!token) {
           navigate('/login');
           return;
         }
 
-        const response = await fetch(buildApiUrl('/api/auth/me'), {
-          headers: {
-            'Authorization': `Bearer ${token}`
-          }
-        });
+        const response = await authFetch('/api/auth/me');
 
         if (!response.ok) {
           throw new Error(t('profile.failed_to_fetch_user'));
@@ -136,11 +136,7 @@ const ProfilePage = () => {
         // Fetch profile image if available
         if (result.data.profilePhotoKey) {
           try {
-            const photoResponse = await fetch(buildApiUrl('/api/users/me/photo'), {
-              headers: {
-                'Authorization': `Bearer ${token}`
-              }
-            });
+            const photoResponse = await authFetch('/api/users/me/photo');
             
             if (photoResponse.ok) {
               const photoResult = await photoResponse.json();
@@ -229,7 +225,7 @@ const ProfilePage = () => {
     setIsSaving(true);
     
     try {
-      const token = localStorage.getItem('token');
+      const token = getAccessToken();
       if (!token) {
         console.log('❌ [ProfilePage] No token found');
         showToastMessage(t('profile.failed_to_update'), 'error');
@@ -241,11 +237,8 @@ const ProfilePage = () => {
       formDataToSend.append('profilePhoto', file);
 
       console.log('🔧 [ProfilePage] Sending profile picture upload request to dedicated endpoint');
-      const response = await fetch(buildApiUrl('/api/users/me/photo'), {
+      const response = await authFetch('/api/users/me/photo', {
         method: 'PUT',
-        headers: {
-          'Authorization': `Bearer ${token}`
-        },
         body: formDataToSend
       });
 
@@ -263,11 +256,7 @@ const ProfilePage = () => {
         if (result.data.profilePhotoKey) {
           console.log('🔧 [ProfilePage] Fetching new profile photo URL');
           try {
-            const photoResponse = await fetch(buildApiUrl('/api/users/me/photo'), {
-              headers: {
-                'Authorization': `Bearer ${token}`
-              }
-            });
+            const photoResponse = await authFetch('/api/users/me/photo');
             
             if (photoResponse.ok) {
               const photoResult = await photoResponse.json();
@@ -356,7 +345,7 @@ const ProfilePage = () => {
 
     setIsSaving(true);
     try {
-      const token = localStorage.getItem('token');
+      const token = getAccessToken();
       if (!token) {
         console.log('❌ [ProfilePage] No token found');
         return;
@@ -379,11 +368,8 @@ const ProfilePage = () => {
       console.log('🔧 [ProfilePage] Profile picture uploads are handled immediately, skipping image upload in save');
 
       console.log('🔧 [ProfilePage] Sending API request to update profile');
-      const response = await fetch(buildApiUrl('/api/auth/profile'), {
+      const response = await authFetch('/api/auth/profile', {
         method: 'PUT',
-        headers: {
-          'Authorization': `Bearer ${token}`
-        },
         body: formDataToSend
       });
 
@@ -423,13 +409,12 @@ const ProfilePage = () => {
     }
 
     try {
-      const token = localStorage.getItem('token');
+      const token = getAccessToken();
       if (!token) return;
 
-      const response = await fetch(buildApiUrl('/api/auth/change-password'), {
+      const response = await authFetch('/api/auth/change-password', {
         method: 'PUT',
         headers: {
-          'Authorization': `Bearer ${token}`,
           'Content-Type': 'application/json'
         },
         body: JSON.stringify({
@@ -601,11 +586,10 @@ const ProfilePage = () => {
                         onClick={async () => {
                           if (isSaving) return;
                           try {
-                            const token = localStorage.getItem('token');
+                            const token = getAccessToken();
                             if (!token) return;
-                            const response = await fetch(buildApiUrl('/api/users/me/photo'), {
-                              method: 'DELETE',
-                              headers: { 'Authorization': `Bearer ${token}` }
+                            const response = await authFetch('/api/users/me/photo', {
+                              method: 'DELETE'
                             });
                             if (response.ok) {
                               setProfileImageFile(null);
@@ -1051,6 +1035,12 @@ const ProfilePage = () => {
               </div>
             </div>
           
+          {/* Membership Section */}
+          <MembershipCard />
+
+          {/* Gifts Section */}
+          <GiftHistoryCard />
+
           {/* Password Change Section */}
           <div className="bg-gradient-to-br from-blue-50 via-cyan-50 to-purple-50 dark:from-gray-800 dark:via-gray-800/95 dark:to-gray-900 rounded-2xl tiny:rounded-3xl shadow-2xl border border-blue-200 dark:border-gray-700/50 hover:border-purple-500/30 transition-all duration-300 overflow-hidden">
               <div className="bg-gradient-to-r from-purple-500/10 via-pink-500/10 to-cyan-500/10 px-3 tiny:px-4 xxs:px-5 sm:px-6 lg:px-8 xl:px-10 py-3 tiny:py-4 xxs:py-5 sm:py-6 md:py-7 border-b border-blue-200 dark:border-gray-700/50">
@@ -1226,6 +1216,12 @@ const ProfilePage = () => {
                 )}
               </div>
             </div>
+
+          {/* Two-Factor Authentication Section */}
+          <TwoFactorCard />
+
+          {/* Signed-in Devices Section */}
+          <SessionsCard />
           </div>
         </div>
       </div>
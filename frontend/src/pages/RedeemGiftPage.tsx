@@ -0,0 +1,132 @@
+import React, { useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import { Gift, CheckCircle, Loader, Play } from 'lucide-react';
+import { getLocalizedText } from '../utils/bilingualHelper';
+import { authFetch, getAccessToken } from '../utils/api';
+
+interface RedeemedGift {
+  itemType: 'course' | 'bundle';
+  itemId: string;
+  itemTitle: string | { en: string; tg: string } | null;
+}
+
+const RedeemGiftPage: React.FC = () => {
+  const { t, i18n } = useTranslation();
+  const [searchParams] = useSearchParams();
+  const [code, setCode] = useState((searchParams.get('code') || '').toUpperCase());
+  const [isRedeeming, setIsRedeeming] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [redeemed, setRedeemed] = useState<RedeemedGift | null>(null);
+  const token = getAccessToken();
+  const currentLanguage = (i18n.language || 'en') as 'en' | 'tg';
+
+  const handleRedeem = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!code.trim()) return;
+
+    try {
+      setIsRedeeming(true);
+      setError(null);
+      const response = await authFetch('/api/gifts/redeem', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ code: code.trim() })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || t('gift.redeem_failed'));
+      }
+      setRedeemed(data.data);
+    } catch (error) {
+      console.error('❌ [Gift] Error redeeming gift code:', error);
+      setError(error instanceof Error ? error.message : t('gift.redeem_failed'));
+    } finally {
+      setIsRedeeming(false);
+    }
+  };
+
+  const itemPath = redeemed
+    ? redeemed.itemType === 'bundle' ? `/bundles/${redeemed.itemId}` : `/course/${redeemed.itemId}`
+    : '/dashboard';
+
+  return (
+    <div className="min-h-screen bg-white dark:bg-gray-900 pt-24 pb-12">
+      <div className="max-w-xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="bg-gradient-to-br from-blue-50 via-cyan-50 to-purple-50 dark:from-gray-800 dark:via-gray-800/95 dark:to-gray-900 rounded-2xl shadow-2xl border border-blue-200 dark:border-gray-700 overflow-hidden">
+          <div className="bg-gradient-to-r from-cyan-600 to-blue-600 px-6 sm:px-8 py-10 text-center">
+            <div className="bg-white bg-opacity-20 w-20 h-20 rounded-full flex items-center justify-center mx-auto mb-5">
+              {redeemed ? <CheckCircle className="h-12 w-12 text-white" /> : <Gift className="h-12 w-12 text-white" />}
+            </div>
+            <h1 className="text-3xl font-bold text-white mb-3">
+              {redeemed ? t('gift.redeemed_title') : t('gift.redeem_title')}
+            </h1>
+            <p className="text-cyan-100">
+              {redeemed
+                ? t('gift.redeemed_description', { title: getLocalizedText(redeemed.itemTitle, currentLanguage) })
+                : t('gift.redeem_description')}
+            </p>
+          </div>
+
+          <div className="p-6 sm:p-8">
+            {redeemed ? (
+              <Link
+                to={itemPath}
+                className="w-full flex items-center justify-center gap-2 bg-gradient-to-r from-cyan-600 to-blue-600 hover:from-cyan-500 hover:to-blue-500 text-white font-semibold py-3 px-6 rounded-lg transition-all duration-200 shadow-lg"
+              >
+                <Play className="h-5 w-5" />
+                <span>{t('gift.start_learning')}</span>
+              </Link>
+            ) : !token ? (
+              <div className="space-y-4 text-center">
+                <p className="text-gray-700 dark:text-gray-300">{t('gift.login_required')}</p>
+                <div className="flex flex-col sm:flex-row gap-3 justify-center">
+                  <Link
+                    to="/login"
+                    className="px-6 py-2.5 bg-gradient-to-r from-cyan-600 to-blue-600 hover:from-cyan-500 hover:to-blue-500 text-white font-semibold rounded-lg transition-all duration-200"
+                  >
+                    {t('navbar.login')}
+                  </Link>
+                  <Link
+                    to="/register"
+                    className="px-6 py-2.5 border border-cyan-600 text-cyan-700 dark:text-cyan-400 font-semibold rounded-lg hover:bg-cyan-50 dark:hover:bg-gray-800 transition-all duration-200"
+                  >
+                    {t('navbar.register')}
+                  </Link>
+                </div>
+              </div>
+            ) : (
+              <form onSubmit={handleRedeem} className="space-y-4">
+                <label htmlFor="gift-code" className="block text-sm font-medium text-gray-900 dark:text-white">
+                  {t('gift.code_label')}
+                </label>
+                <input
+                  id="gift-code"
+                  type="text"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value.toUpperCase())}
+                  placeholder="GIFT-XXXX-XXXX-XXXX"
+                  className="w-full px-4 py-3 text-lg font-mono tracking-wider bg-white dark:bg-gray-800 text-gray-900 dark:text-white border border-gray-300 dark:border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                  autoFocus
+                />
+                {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+                <button
+                  type="submit"
+                  disabled={isRedeeming || !code.trim()}
+                  className="w-full flex items-center justify-center gap-2 bg-gradient-to-r from-cyan-600 to-blue-600 hover:from-cyan-500 hover:to-blue-500 text-white font-semibold py-3 px-6 rounded-lg transition-all duration-200 shadow-lg disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {isRedeeming ? <Loader className="h-5 w-5 animate-spin" /> : <Gift className="h-5 w-5" />}
+                  <span>{isRedeeming ? t('gift.redeeming') : t('gift.redeem')}</span>
+                </button>
+              </form>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RedeemGiftPage;
@@ -1,6 +1,7 @@
 import { useEffect, useState } from 'react';
 import { useTranslation } from 'react-i18next';
 import { buildApiUrl } from '../config/environment';
+import { setAccessToken } from '../utils/api';
 
 import { useNavigate, useSearchParams, Link } from 'react-router-dom';
 import { CheckCircle, XCircle, Loader2 } from 'lucide-react';
@@ -28,6 +29,7 @@ const VerifyEmailPage = () => {
       try {
         const response = await fetch(buildApiUrl('/api/auth/verify-email'), {
           method: 'POST',
+          credentials: 'include', // Receives the refresh token cookie
           headers: {
             'Content-Type': 'application/json',
           },
@@ -42,7 +44,7 @@ const VerifyEmailPage = () => {
           
           // Store the auth token if provided
           if (result.data?.token) {
-            localStorage.setItem('token', result.data.token);
+            setAccessToken(result.data.token);
           }
           
           // Redirect to dashboard after a short delay
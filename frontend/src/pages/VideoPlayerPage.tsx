@@ -1,19 +1,24 @@
 import { useState, useEffect, useRef, useCallback } from 'react';
 import { useParams, Link, useNavigate } from 'react-router-dom';
 import { useTranslation } from 'react-i18next';
-import { BookOpen, CheckCircle } from 'lucide-react';
+import { BookOpen, CheckCircle, ClipboardCheck } from 'lucide-react';
 import VideoPlaylist from '../components/VideoPlaylist';
-import EnhancedVideoPlayer from '../components/EnhancedVideoPlayer';
+import TranscriptPanel from '../components/TranscriptPanel';
+import NotesPanel from '../components/NotesPanel';
+import QuizModal from '../components/QuizModal';
+import HLSVideoPlayer from '../components/HLSVideoPlayer';
 import WhatsAppGroupButton from '../components/WhatsAppGroupButton';
-import { buildApiUrl } from '../config/environment';
-import DRMVideoService from '../services/drmVideoService';
+import DRMVideoService, { CaptionTrackData } from '../services/drmVideoService';
 import { getLocalizedText } from '../utils/bilingualHelper';
+import { authFetch, getAccessToken } from '../utils/api';
 
 interface Video {
   id: string;
   title: string | { en: string; tg: string };
   duration: string;
   videoUrl: string;
+  hlsUrl?: string; // Signed adaptive (HLS) master playlist, when the video has been packaged
+  captions?: CaptionTrackData[];
   completed?: boolean;
   locked?: boolean;
   hasAccess?: boolean;
@@ -49,6 +54,18 @@ interface CourseData {
   hasWhatsappGroup?: boolean;
 }
 
+interface CourseQuizSummary {
+  _id: string;
+  videoId: string | null; // null for the end-of-course assessment
+  title: string | { en: string; tg: string };
+  passingScore: number;
+  requiredForCertificate: boolean;
+  questionCount: number;
+  attempts: number;
+  bestPercentage: number;
+  passed: boolean;
+}
+
 const VideoPlayerPage = () => {
   const { t, i18n } = useTranslation();
   const currentLanguage = (i18n.language || 'en') as 'en' | 'tg';
@@ -61,6 +78,12 @@ const VideoPlayerPage = () => {
   // DRM and Security states
   const [forensicWatermark] = useState<any>(null);
   const [showPlaylist, setShowPlaylist] = useState(true); // Always show playlist by default
+  const [sidebarTab, setSidebarTab] = useState<'playlist' | 'transcript' | 'notes'>('playlist');
+  const [showMobileTranscript, setShowMobileTranscript] = useState(false);
+  const [showMobileNotes, setShowMobileNotes] = useState(false);
+  const [courseQuizzes, setCourseQuizzes] = useState<CourseQuizSummary[]>([]);
+  const [activeQuizId, setActiveQuizId] = useState<string | null>(null);
+  const [seekRequest, setSeekRequest] = useState<{ time: number; requestId: number } | undefined>(undefined);
   const [courseData, setCourseData] = useState<CourseData | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -88,7 +111,7 @@ const VideoPlayerPage = () => {
   const lastProgressUpdate = useRef(0);
   const PROGRESS_UPDATE_INTERVAL = 5000; // 5 seconds minimum between updates (reduced for testing)
   
-  // Note: videoRef is no longer needed as EnhancedVideoPlayer handles video element internally
+  // Note: videoRef is no longer needed as HLSVideoPlayer handles video element internally
 
   // Handle window resize for playlist visibility
   useEffect(() => {
@@ -113,7 +136,7 @@ const VideoPlayerPage = () => {
   // DRM URL decryption function
   const decryptVideoUrl = async (encryptedUrl: string, sessionId: string): Promise<string> => {
     try {
-      const token = localStorage.getItem('token');
+      const token = getAccessToken();
       if (!token) {
         throw new Error('No authentication token found');
       }
@@ -124,11 +147,10 @@ const VideoPlayerPage = () => {
         token: token ? 'Present' : 'Missing'
       });
 
-      const response = await fetch(buildApiUrl('/api/drm/decrypt-url'), {
+      const response = await authFetch('/api/drm/decrypt-url', {
         method: 'POST',
         headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`
+          'Content-Type': 'application/json'
         },
         body: JSON.stringify({
           encryptedUrl,
@@ -284,7 +306,7 @@ const VideoPlayerPage = () => {
   // Refresh presigned URL for a specific video
   const refreshVideoUrl = async (videoId: string): Promise<string | null> => {
     try {
-      const token = localStorage.getItem('token');
+      const token = getAccessToken();
       if (!token) {
         console.error('❌ [VideoPlayer] No authentication token for URL refresh');
         return null;
@@ -297,10 +319,7 @@ const VideoPlayerPage = () => {
       const controller = new AbortController();
       const timeoutId = setTimeout(() => controller.abort(), 10000); // 10 second timeout
 
-      const response = await fetch(buildApiUrl(`/api/videos/${videoId}`), {
-        headers: {
-          'Authorization': `Bearer ${token}`
-        },
+      const response = await authFetch(`/api/videos/${videoId}`, {
         signal: controller.signal
       });
 
@@ -495,7 +514,7 @@ const VideoPlayerPage = () => {
     }
 
     try {
-      const token = localStorage.getItem('token');
+      const token = getAccessToken();
       if (!token) return;
 
       // Create new abort controller for this request
@@ -504,11 +523,10 @@ const VideoPlayerPage = () => {
 
       console.log(`🔧 [Udemy-Style] Sending progress update: ${watchedDuration}s / ${totalDuration}s`);
 
-      const response = await fetch(buildApiUrl('/api/progress/update'), {
+      const response = await authFetch('/api/progress/update', {
         method: 'POST',
         headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`
+          'Content-Type': 'application/json'
         },
         body: JSON.stringify({
           courseId: id,
@@ -599,18 +617,17 @@ const VideoPlayerPage = () => {
     }
 
     try {
-      const token = localStorage.getItem('token');
+      const token = getAccessToken();
       if (!token) return;
 
       // Create new abort controller for immediate request
       const abortController = new AbortController();
       pendingProgressRequest.current = abortController;
 
-      const response = await fetch(buildApiUrl('/api/progress/update'), {
+      const response = await authFetch('/api/progress/update', {
         method: 'POST',
         headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`
+          'Content-Type': 'application/json'
         },
         body: JSON.stringify({
           courseId: id,
@@ -693,7 +710,7 @@ const VideoPlayerPage = () => {
         console.log('   - Course ID:', id);
         console.log('   - Video ID:', videoId);
         
-        const token = localStorage.getItem('token');
+        const token = getAccessToken();
         if (!token) {
           console.log('❌ [VideoPlayer] No authentication token found');
           setError('Authentication required');
@@ -706,11 +723,7 @@ const VideoPlayerPage = () => {
         
         // Fetch course data first to get the proper title
         console.log('🔧 [VideoPlayer] Fetching course data...');
-        const courseResponse = await fetch(buildApiUrl(`/api/courses/${id}`), {
-          headers: {
-            'Authorization': `Bearer ${token}`
-          }
-        });
+        const courseResponse = await authFetch(`/api/courses/${id}`);
         
         let courseData = null;
         if (courseResponse.ok) {
@@ -740,11 +753,7 @@ const VideoPlayerPage = () => {
         
         // Fetch course progress data
         console.log('🔧 [VideoPlayer] Fetching course progress...');
-        const progressResponse = await fetch(buildApiUrl(`/api/progress/course/${id}`), {
-          headers: {
-            'Authorization': `Bearer ${token}`
-          }
-        });
+        const progressResponse = await authFetch(`/api/progress/course/${id}`);
         
         let progressResult = null;
         if (progressResponse.ok) {
@@ -812,6 +821,8 @@ const VideoPlayerPage = () => {
             title: video.title,
             duration: video.duration ? `${Math.floor(video.duration / 60)}:${(video.duration % 60).toString().padStart(2, '0')}` : '00:00',
             videoUrl: videoUrl,
+            hlsUrl: video.hls?.masterUrl || undefined,
+            captions: video.captions || [],
             completed: progress.isCompleted,
             hasAccess: video.hasAccess,
             locked: !video.hasAccess,
@@ -914,13 +925,35 @@ const VideoPlayerPage = () => {
     }
   }, [id, videoId, currentVideoId]);
 
+  // Quizzes of this course with the student's best results
+  const fetchCourseQuizzes = useCallback(async () => {
+    const token = getAccessToken();
+    if (!token || !id) return;
+
+    try {
+      const response = await authFetch(`/api/quizzes/course/${id}`);
+      if (!response.ok) {
+        throw new Error('Failed to load quizzes');
+      }
+      const result = await response.json();
+      setCourseQuizzes(result.data.quizzes || []);
+    } catch (error) {
+      console.error('❌ [VideoPlayer] Error loading quizzes:', error);
+      setCourseQuizzes([]);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    fetchCourseQuizzes();
+  }, [fetchCourseQuizzes]);
+
   // Periodic progress refresh to update UI progress bars
   useEffect(() => {
     if (!id || !courseData) return;
 
     const refreshProgress = async () => {
       try {
-        const token = localStorage.getItem('token');
+        const token = getAccessToken();
         if (!token) return;
 
         // Only log progress refresh occasionally to reduce console spam
@@ -929,11 +962,7 @@ const VideoPlayerPage = () => {
         }
         
         // Fetch latest progress data with error handling
-        const progressResponse = await fetch(buildApiUrl(`/api/progress/course/${id}`), {
-          headers: {
-            'Authorization': `Bearer ${token}`
-          }
-        }).catch(error => {
+        const progressResponse = await authFetch(`/api/progress/course/${id}`).catch(error => {
           console.warn('⚠️ [Progress Refresh] Network error (likely browser extension conflict):', error.message);
           return null;
         });
@@ -1047,21 +1076,17 @@ const VideoPlayerPage = () => {
       if (!currentVideoId || !id) return;
 
       try {
-        const token = localStorage.getItem('token');
+        const token = getAccessToken();
         if (!token) return;
 
         // Fetch resume position
-        const resumeResponse = await fetch(buildApiUrl(`/api/progress/resume/${id}/${currentVideoId}`), {
-          headers: {
-            'Authorization': `Bearer ${token}`
-          }
-        });
+        const resumeResponse = await authFetch(`/api/progress/resume/${id}/${currentVideoId}`);
 
         if (resumeResponse.ok) {
           const resumeResult = await resumeResponse.json();
           const resumePosition = resumeResult.data.resumePosition;
 
-          // Note: Resume position is now handled by EnhancedVideoPlayer's initialTime prop
+          // Note: Resume position is now handled by HLSVideoPlayer's initialTime prop
           console.log(`✅ [VideoPlayer] Resume position set to ${resumePosition}s`);
         }
       } catch (error) {
@@ -1218,7 +1243,7 @@ const VideoPlayerPage = () => {
 
 
 
-  // Note: Time updates are now handled by EnhancedVideoPlayer's onTimeUpdate callback
+  // Note: Time updates are now handled by HLSVideoPlayer's onTimeUpdate callback
 
   // Handle video pause
   const handleVideoPause = () => {
@@ -1350,15 +1375,14 @@ const VideoPlayerPage = () => {
     if (!id || !currentVideoId) return;
 
     try {
-      const token = localStorage.getItem('token');
+      const token = getAccessToken();
       if (!token) return;
 
       // Mark video as completed
-      await fetch(buildApiUrl('/api/progress/complete-video'), {
+      await authFetch('/api/progress/complete-video', {
         method: 'POST',
         headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`
+          'Content-Type': 'application/json'
         },
         body: JSON.stringify({
           courseId: id,
@@ -1367,11 +1391,7 @@ const VideoPlayerPage = () => {
       });
 
       // Get next video
-      const nextVideoResponse = await fetch(buildApiUrl(`/api/progress/next-video/${id}/${currentVideoId}`), {
-        headers: {
-          'Authorization': `Bearer ${token}`
-        }
-      });
+      const nextVideoResponse = await authFetch(`/api/progress/next-video/${id}/${currentVideoId}`);
 
       if (nextVideoResponse.ok) {
         const nextVideoResult = await nextVideoResponse.json();
@@ -1393,6 +1413,19 @@ const VideoPlayerPage = () => {
 
 
   // Handle video selection
+  // Transcript and notes: seek within the current lesson
+  const handleTranscriptSeek = (time: number) => {
+    setSeekRequest({ time, requestId: Date.now() });
+  };
+
+  // Transcript search: open another lesson at the matching line
+  const handleTranscriptJump = async (targetVideoId: string, time: number) => {
+    if (targetVideoId !== currentVideoId) {
+      await handleVideoSelect(targetVideoId);
+    }
+    setSeekRequest({ time, requestId: Date.now() });
+  };
+
   const handleVideoSelect = async (newVideoId: string) => {
     // Prevent multiple rapid video switches
     if (isSwitchingVideo) {
@@ -1486,9 +1519,9 @@ const VideoPlayerPage = () => {
 
 
 
-  // Note: Progress seeking, play/pause, and manual play are now handled by EnhancedVideoPlayer
+  // Note: Progress seeking, play/pause, and manual play are now handled by HLSVideoPlayer
 
-  // Note: Controls visibility is now handled by EnhancedVideoPlayer
+  // Note: Controls visibility is now handled by HLSVideoPlayer
 
   // Cleanup timeout on unmount
   useEffect(() => {
@@ -1678,6 +1711,9 @@ const VideoPlayerPage = () => {
     });
   }
 
+  // Quizzes for this lesson, plus the end-of-course assessment
+  const visibleQuizzes = courseQuizzes.filter(quiz => quiz.videoId === currentVideoId || !quiz.videoId);
+
   return (
     <div className="min-h-screen bg-gray-900 flex flex-col pt-16">
       {/* Header */}
@@ -1726,14 +1762,16 @@ const VideoPlayerPage = () => {
                   </p>
                 </div>
               </div>
-            ) : currentVideo.videoUrl ? (
-              <EnhancedVideoPlayer
-                key={`${currentVideoId}-${currentVideo.videoUrl}`}
+            ) : currentVideo.hlsUrl || currentVideo.videoUrl ? (
+              <HLSVideoPlayer
+                key={`${currentVideoId}-${currentVideo.hlsUrl || currentVideo.videoUrl}`}
+                hlsSrc={currentVideo.hlsUrl}
                 src={currentVideo.videoUrl}
+                captions={currentVideo.captions}
               title={courseData?.title ? getLocalizedText(courseData.title, currentLanguage) : undefined}
               userId={(() => {
                 try {
-                  const token = localStorage.getItem('token');
+                  const token = getAccessToken();
                   if (token) {
                     const decoded = JSON.parse(atob(token.split('.')[1]));
                     return decoded.userId || decoded._id || decoded.id;
@@ -1778,6 +1816,7 @@ const VideoPlayerPage = () => {
               onControlsToggle={setControlsVisible}
               className="w-full h-full"
               initialTime={currentVideo?.progress?.lastPosition || 0}
+              seekRequest={seekRequest}
               drmEnabled={currentVideo?.drm?.enabled || false}
               watermarkData={currentVideo?.drm?.watermarkData}
               forensicWatermark={forensicWatermark}
@@ -1907,6 +1946,73 @@ const VideoPlayerPage = () => {
                 </div>
               )}
             </div>
+            {visibleQuizzes.length > 0 && (
+              <div className="mt-3 flex flex-wrap gap-2">
+                {visibleQuizzes.map(quiz => (
+                  <button
+                    key={quiz._id}
+                    onClick={() => setActiveQuizId(quiz._id)}
+                    className={`flex items-center space-x-2 px-3 py-2 rounded-lg text-xs xxs:text-sm border transition-colors duration-200 ${
+                      quiz.passed
+                        ? 'border-green-500/40 text-green-300 bg-green-500/10 hover:bg-green-500/20'
+                        : 'border-cyan-500/40 text-cyan-300 bg-cyan-500/10 hover:bg-cyan-500/20'
+                    }`}
+                  >
+                    {quiz.passed ? <CheckCircle className="h-4 w-4" /> : <ClipboardCheck className="h-4 w-4" />}
+                    <span>
+                      {quiz.videoId ? t('quiz.lesson_quiz') : t('quiz.final_assessment')}: {getLocalizedText(quiz.title, currentLanguage)}
+                    </span>
+                    <span className="text-gray-400">
+                      {quiz.passed
+                        ? t('quiz.best_score', { percentage: quiz.bestPercentage })
+                        : quiz.requiredForCertificate ? t('quiz.required') : ''}
+                    </span>
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Mobile Transcript - below the video so it can be followed while watching */}
+          <div className="md:hidden bg-gray-800 border-t border-gray-700">
+            <button
+              onClick={() => setShowMobileTranscript(!showMobileTranscript)}
+              className="w-full flex items-center justify-between px-3 xxs:px-4 py-3 text-sm text-gray-300 hover:text-white"
+            >
+              <span>{t('transcript.title')}</span>
+              <span className="text-xs">{showMobileTranscript ? t('transcript.hide') : t('transcript.show')}</span>
+            </button>
+            {showMobileTranscript && (
+              <div className="h-80 border-t border-gray-700">
+                <TranscriptPanel
+                  videoId={currentVideoId}
+                  courseId={id || ''}
+                  currentTime={currentTime}
+                  onSeek={handleTranscriptSeek}
+                  onJumpToLesson={handleTranscriptJump}
+                />
+              </div>
+            )}
+          </div>
+
+          {/* Mobile Notes */}
+          <div className="md:hidden bg-gray-800 border-t border-gray-700">
+            <button
+              onClick={() => setShowMobileNotes(!showMobileNotes)}
+              className="w-full flex items-center justify-between px-3 xxs:px-4 py-3 text-sm text-gray-300 hover:text-white"
+            >
+              <span>{t('notes.title')}</span>
+              <span className="text-xs">{showMobileNotes ? t('notes.hide') : t('notes.show')}</span>
+            </button>
+            {showMobileNotes && (
+              <div className="h-96 border-t border-gray-700">
+                <NotesPanel
+                  videoId={currentVideoId}
+                  currentTime={currentTime}
+                  onSeek={handleTranscriptSeek}
+                />
+              </div>
+            )}
           </div>
 
 
@@ -1929,7 +2035,53 @@ const VideoPlayerPage = () => {
 
         {/* Playlist Sidebar */}
           {showPlaylist && (
-          <div className="w-80 bg-gray-800 border-l border-gray-700 overflow-y-auto">
+          <div className="w-80 bg-gray-800 border-l border-gray-700 flex flex-col">
+            <div className="flex border-b border-gray-700">
+              <button
+                onClick={() => setSidebarTab('playlist')}
+                className={`flex-1 px-3 py-2 text-sm transition-colors duration-200 ${
+                  sidebarTab === 'playlist' ? 'text-white border-b-2 border-cyan-400' : 'text-gray-400 hover:text-white'
+                }`}
+              >
+                {t('video_player.course_content')}
+              </button>
+              <button
+                onClick={() => setSidebarTab('transcript')}
+                className={`flex-1 px-3 py-2 text-sm transition-colors duration-200 ${
+                  sidebarTab === 'transcript' ? 'text-white border-b-2 border-cyan-400' : 'text-gray-400 hover:text-white'
+                }`}
+              >
+                {t('transcript.title')}
+              </button>
+              <button
+                onClick={() => setSidebarTab('notes')}
+                className={`flex-1 px-3 py-2 text-sm transition-colors duration-200 ${
+                  sidebarTab === 'notes' ? 'text-white border-b-2 border-cyan-400' : 'text-gray-400 hover:text-white'
+                }`}
+              >
+                {t('notes.title')}
+              </button>
+            </div>
+            {sidebarTab === 'notes' ? (
+              <div className="flex-1 min-h-0">
+                <NotesPanel
+                  videoId={currentVideoId}
+                  currentTime={currentTime}
+                  onSeek={handleTranscriptSeek}
+                />
+              </div>
+            ) : sidebarTab === 'transcript' ? (
+              <div className="flex-1 min-h-0">
+                <TranscriptPanel
+                  videoId={currentVideoId}
+                  courseId={id || ''}
+                  currentTime={currentTime}
+                  onSeek={handleTranscriptSeek}
+                  onJumpToLesson={handleTranscriptJump}
+                />
+              </div>
+            ) : (
+            <div className="flex-1 overflow-y-auto">
             {courseData && courseData.videos ? (
               <VideoPlaylist
                 videos={courseData.videos}
@@ -1955,10 +2107,20 @@ const VideoPlayerPage = () => {
                 </div>
               </div>
             )}
+            </div>
+            )}
           </div>
           )}
       </div>
 
+      {activeQuizId && (
+        <QuizModal
+          quizId={activeQuizId}
+          onClose={() => setActiveQuizId(null)}
+          onSubmitted={() => fetchCourseQuizzes()}
+        />
+      )}
+
       {/* Mobile Playlist Overlay */}
       {showPlaylist && (
         <div className="md:hidden fixed inset-0 bg-black bg-opacity-50 z-50 flex">
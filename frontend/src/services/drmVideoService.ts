@@ -1,4 +1,20 @@
-import { buildApiUrl } from '../config/environment';
+import { authFetch, getAccessToken } from '../utils/api';
+
+export interface HLSPlaybackData {
+  masterUrl: string;
+  renditions: Array<{
+    name: string;
+    width?: number;
+    height: number;
+    bandwidth: number;
+  }>;
+}
+
+export interface CaptionTrackData {
+  language: string;
+  label: string;
+  url: string;
+}
 
 export interface DRMVideoData {
   video: {
@@ -15,6 +31,8 @@ export interface DRMVideoData {
     locked: boolean;
     hasAccess: boolean;
   };
+  hls: HLSPlaybackData | null;
+  captions: CaptionTrackData[];
   drm: {
     enabled: boolean;
     sessionId: string | null;
@@ -57,6 +75,8 @@ export interface DRMCourseVideosData {
       isFreePreview: boolean;
       locked: boolean;
       hasAccess: boolean;
+      hls: HLSPlaybackData | null;
+      captions: CaptionTrackData[];
       drm: {
         enabled: boolean;
         sessionId: string | null;
@@ -90,15 +110,14 @@ class DRMVideoService {
    */
   public async getVideoWithDRM(videoId: string): Promise<DRMVideoData> {
     try {
-      const token = localStorage.getItem('token');
+      const token = getAccessToken();
       if (!token) {
         throw new Error('Authentication required');
       }
 
-      const response = await fetch(buildApiUrl(`/api/drm/videos/${videoId}`), {
+      const response = await authFetch(`/api/drm/videos/${videoId}`, {
         method: 'GET',
         headers: {
-          'Authorization': `Bearer ${token}`,
           'Content-Type': 'application/json'
         }
       });
@@ -121,20 +140,12 @@ class DRMVideoService {
    */
   public async getCourseVideosWithDRM(courseId: string, version: number = 1): Promise<DRMCourseVideosData> {
     try {
-      const token = localStorage.getItem('token');
-      
-      // Build headers - include token if available, but don't require it
-      const headers: HeadersInit = {
-        'Content-Type': 'application/json'
-      };
-      
-      if (token) {
-        headers['Authorization'] = `Bearer ${token}`;
-      }
-
-      const response = await fetch(buildApiUrl(`/api/drm/courses/${courseId}/videos?version=${version}`), {
+      // authFetch sends the token if available, but doesn't require it
+      const response = await authFetch(`/api/drm/courses/${courseId}/videos?version=${version}`, {
         method: 'GET',
-        headers
+        headers: {
+          'Content-Type': 'application/json'
+        }
       });
 
       if (!response.ok) {
@@ -155,15 +166,14 @@ class DRMVideoService {
    */
   public async validateDRMSession(sessionId: string, videoId: string): Promise<boolean> {
     try {
-      const token = localStorage.getItem('token');
+      const token = getAccessToken();
       if (!token) {
         throw new Error('Authentication required');
       }
 
-      const response = await fetch(buildApiUrl(`/api/drm/sessions/${sessionId}/validate`), {
+      const response = await authFetch(`/api/drm/sessions/${sessionId}/validate`, {
         method: 'POST',
         headers: {
-          'Authorization': `Bearer ${token}`,
           'Content-Type': 'application/json'
         },
         body: JSON.stringify({ videoId })
@@ -187,15 +197,14 @@ class DRMVideoService {
    */
   public async revokeDRMSession(sessionId: string): Promise<boolean> {
     try {
-      const token = localStorage.getItem('token');
+      const token = getAccessToken();
       if (!token) {
         throw new Error('Authentication required');
       }
 
-      const response = await fetch(buildApiUrl(`/api/drm/sessions/${sessionId}`), {
+      const response = await authFetch(`/api/drm/sessions/${sessionId}`, {
         method: 'DELETE',
         headers: {
-          'Authorization': `Bearer ${token}`,
           'Content-Type': 'application/json'
         }
       });
@@ -217,15 +226,14 @@ class DRMVideoService {
    */
   public async getDRMStats(): Promise<any> {
     try {
-      const token = localStorage.getItem('token');
+      const token = getAccessToken();
       if (!token) {
         throw new Error('Authentication required');
       }
 
-      const response = await fetch(buildApiUrl('/api/drm/stats'), {
+      const response = await authFetch('/api/drm/stats', {
         method: 'GET',
         headers: {
-          'Authorization': `Bearer ${token}`,
           'Content-Type': 'application/json'
         }
       });
@@ -248,16 +256,15 @@ class DRMVideoService {
    */
   public async decryptVideoUrl(encryptedUrl: string, sessionId: string): Promise<string> {
     try {
-      const token = localStorage.getItem('token');
+      const token = getAccessToken();
       if (!token) {
         throw new Error('No authentication token found');
       }
 
-      const response = await fetch(`${this.baseUrl}/api/drm/decrypt-url`, {
+      const response = await authFetch(`${this.baseUrl}/api/drm/decrypt-url`, {
         method: 'POST',
         headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`
+          'Content-Type': 'application/json'
         },
         body: JSON.stringify({
           encryptedUrl,
@@ -1,4 +1,4 @@
-import { buildApiUrl } from '../config/environment';
+import { authFetch, getAccessToken } from '../utils/api';
 
 interface PaymentStatus {
   status: 'pending' | 'success' | 'failed' | 'cancelled' | 'unknown';
@@ -58,18 +58,14 @@ class PaymentStatusService {
    */
   private async checkPaymentStatus(courseId: string, sessionId?: string): Promise<PaymentStatus> {
     try {
-      const token = localStorage.getItem('token');
+      const token = getAccessToken();
       if (!token) {
         console.log('⚠️ No auth token found - cannot check payment status');
         return { status: 'unknown' };
       }
 
       // Check if user has purchased the course
-      const response = await fetch(buildApiUrl(`/api/payment/check-purchase/${courseId}`), {
-        headers: {
-          'Authorization': `Bearer ${token}`
-        }
-      });
+      const response = await authFetch(`/api/payment/check-purchase/${courseId}`);
 
       if (response.ok) {
         const data = await response.json();
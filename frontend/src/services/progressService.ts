@@ -8,26 +8,24 @@ import {
 } from '../types/progress';
 
 import { buildApiUrl } from '../config/environment';
+import { authFetch } from '../utils/api';
 
 const API_BASE_URL = buildApiUrl('/api/progress');
 
+const jsonHeaders: HeadersInit = {
+  'Content-Type': 'application/json'
+};
+
 class ProgressService {
-  private getAuthHeaders(): HeadersInit {
-    const token = localStorage.getItem('token');
-    return {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${token}`
-    };
-  }
 
   /**
    * Update video progress (real-time video-level tracking)
    */
   async updateProgress(data: ProgressUpdateRequest): Promise<ApiResponse<ProgressUpdateResponse>> {
     try {
-      const response = await fetch(`${API_BASE_URL}/update`, {
+      const response = await authFetch(`${API_BASE_URL}/update`, {
         method: 'POST',
-        headers: this.getAuthHeaders(),
+        headers: jsonHeaders,
         body: JSON.stringify(data)
       });
 
@@ -47,8 +45,8 @@ class ProgressService {
    */
   async getVideoProgress(courseId: string, videoId: string): Promise<ApiResponse<{ videoProgress: VideoProgress }>> {
     try {
-      const response = await fetch(`${API_BASE_URL}/video/${courseId}/${videoId}`, {
-        headers: this.getAuthHeaders()
+      const response = await authFetch(`${API_BASE_URL}/video/${courseId}/${videoId}`, {
+        headers: jsonHeaders
       });
 
       if (!response.ok) {
@@ -71,8 +69,8 @@ class ProgressService {
     overallProgress: CourseProgress 
   }>> {
     try {
-      const response = await fetch(`${API_BASE_URL}/course/${courseId}`, {
-        headers: this.getAuthHeaders()
+      const response = await authFetch(`${API_BASE_URL}/course/${courseId}`, {
+        headers: jsonHeaders
       });
 
       if (!response.ok) {
@@ -91,8 +89,8 @@ class ProgressService {
    */
   async getDashboardProgress(): Promise<ApiResponse<DashboardData>> {
     try {
-      const response = await fetch(`${API_BASE_URL}/dashboard`, {
-        headers: this.getAuthHeaders()
+      const response = await authFetch(`${API_BASE_URL}/dashboard`, {
+        headers: jsonHeaders
       });
 
       if (!response.ok) {
@@ -111,9 +109,9 @@ class ProgressService {
    */
   async completeVideo(courseId: string, videoId: string): Promise<ApiResponse<any>> {
     try {
-      const response = await fetch(`${API_BASE_URL}/complete-video`, {
+      const response = await authFetch(`${API_BASE_URL}/complete-video`, {
         method: 'POST',
-        headers: this.getAuthHeaders(),
+        headers: jsonHeaders,
         body: JSON.stringify({ courseId, videoId })
       });
 
@@ -133,8 +131,8 @@ class ProgressService {
    */
   async getResumePosition(courseId: string, videoId: string): Promise<ApiResponse<{ resumePosition: number }>> {
     try {
-      const response = await fetch(`${API_BASE_URL}/resume/${courseId}/${videoId}`, {
-        headers: this.getAuthHeaders()
+      const response = await authFetch(`${API_BASE_URL}/resume/${courseId}/${videoId}`, {
+        headers: jsonHeaders
       });
 
       if (!response.ok) {
@@ -153,8 +151,8 @@ class ProgressService {
    */
   async getNextVideo(courseId: string, currentVideoId: string): Promise<ApiResponse<{ nextVideo: any }>> {
     try {
-      const response = await fetch(`${API_BASE_URL}/next-video/${courseId}/${currentVideoId}`, {
-        headers: this.getAuthHeaders()
+      const response = await authFetch(`${API_BASE_URL}/next-video/${courseId}/${currentVideoId}`, {
+        headers: jsonHeaders
       });
 
       if (!response.ok) {
@@ -0,0 +1,67 @@
+// Uploaded artwork, signature image or font
+export interface TemplateAsset {
+  s3Key: string;
+  url?: string;
+  name?: string;
+}
+
+export type TemplateFontFace = 'serif' | 'serif-bold' | 'sans' | 'sans-bold';
+export type TemplateColor = 'primary' | 'accent' | 'text' | 'muted';
+
+// Text placeholder position; x/y are percentages of the page (y from the top)
+export interface TextPlacement {
+  x: number;
+  y: number;
+  size: number;
+  align: 'left' | 'center' | 'right';
+  font: 'heading' | 'body';
+  color: TemplateColor;
+  visible: boolean;
+}
+
+// Image position; x/y are percentages of the page for its centre, width is in points
+export interface ImagePlacement {
+  x: number;
+  y: number;
+  width: number;
+  visible: boolean;
+}
+
+export interface TemplateSignature {
+  image?: TemplateAsset;
+  name: string;
+  title: string;
+  placement: ImagePlacement;
+}
+
+export type TemplateTextField =
+  | 'heading' | 'title' | 'intro' | 'studentName' | 'completionText'
+  | 'courseTitle' | 'completionDate' | 'instructorName' | 'certificateId' | 'verifyUrl';
+
+export interface CertificateTemplate {
+  _id?: string;
+  name: string;
+  description: string;
+  background?: TemplateAsset;
+  showBorder: boolean;
+  logo?: TemplateAsset;
+  logoPlacement: ImagePlacement;
+  signatures: TemplateSignature[];
+  colors: Record<TemplateColor | 'background', string>;
+  fonts: {
+    heading: TemplateFontFace;
+    body: TemplateFontFace;
+    geez?: TemplateAsset;
+  };
+  texts: {
+    heading: string;
+    title: string;
+    intro: string;
+    completionText: string;
+    datePrefix: string;
+    instructorPrefix: string;
+  };
+  fields: Record<TemplateTextField, TextPlacement>;
+  qrCode: ImagePlacement;
+  courseCount?: number;
+}
@@ -1,27 +1,110 @@
 import { buildApiUrl, config } from '../config/environment';
 
+// Authentication uses a short-lived access token (localStorage 'token', sent as a Bearer header)
+// and a long-lived refresh token in an httpOnly cookie that only the /api/auth routes receive.
+// authFetch renews the access token shortly before it expires and on 401, then replays the request.
+// Authenticated requests go through authFetch; getAccessToken is only for checking whether someone is signed in.
+
+const TOKEN_STORAGE_KEY = 'token';
+// Renew this long before expiry so requests never go out with a token about to lapse
+const REFRESH_MARGIN_MS = 60 * 1000;
+
+export const getAccessToken = (): string | null => localStorage.getItem(TOKEN_STORAGE_KEY);
+
+export const setAccessToken = (token: string): void => {
+  localStorage.setItem(TOKEN_STORAGE_KEY, token);
+};
+
+export const clearAccessToken = (): void => {
+  localStorage.removeItem(TOKEN_STORAGE_KEY);
+};
+
+// Expiry (ms since epoch) from the JWT payload, or null when it can't be read
+const getTokenExpiry = (token: string): number | null => {
+  try {
+    const payload = JSON.parse(atob(token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/')));
+    return typeof payload.exp === 'number' ? payload.exp * 1000 : null;
+  } catch {
+    return null;
+  }
+};
+
+let refreshInFlight: Promise<string | null> | null = null;
+
+/**
+ * Get a new access token using the refresh token cookie.
+ * Concurrent callers share one request, since the server rotates the cookie on every refresh.
+ * Resolves to null when the session is over (the stored token is cleared) or the server is unreachable.
+ */
+export const refreshAccessToken = (): Promise<string | null> => {
+  if (!refreshInFlight) {
+    refreshInFlight = fetch(buildApiUrl(config.API_ENDPOINTS.AUTH.REFRESH), {
+      method: 'POST',
+      credentials: 'include'
+    })
+      .then(async (response) => {
+        if (!response.ok) {
+          clearAccessToken();
+          return null;
+        }
+        const data = await response.json();
+        setAccessToken(data.data.token);
+        return data.data.token as string;
+      })
+      .catch((error) => {
+        console.error('Token refresh failed:', error);
+        return null;
+      })
+      .finally(() => {
+        refreshInFlight = null;
+      });
+  }
+  return refreshInFlight;
+};
+
+/**
+ * fetch() with the access token attached, refreshing it when needed.
+ * Accepts an API path ('/api/...') or a full URL from buildApiUrl.
+ * If the refresh fails the original 401 response is returned so callers can read its error code.
+ */
+export const authFetch = async (endpoint: string, options: RequestInit = {}): Promise<Response> => {
+  const url = /^https?:\/\//.test(endpoint) ? endpoint : buildApiUrl(endpoint);
+  let token = getAccessToken();
+
+  const expiresAt = token ? getTokenExpiry(token) : null;
+  if (token && expiresAt !== null && expiresAt - Date.now() < REFRESH_MARGIN_MS) {
+    token = (await refreshAccessToken()) || getAccessToken();
+  }
+
+  const send = (accessToken: string | null) => {
+    const headers = new Headers(options.headers);
+    if (accessToken) {
+      headers.set('Authorization', `Bearer ${accessToken}`);
+    }
+    return fetch(url, { ...options, headers, credentials: 'include' });
+  };
+
+  const response = await send(token);
+  if (response.status !== 401 || !token) {
+    return response;
+  }
+
+  const refreshedToken = await refreshAccessToken();
+  return refreshedToken ? send(refreshedToken) : response;
+};
+
 // API utility class for making HTTP requests
 export class ApiClient {
   private static async request<T>(
     endpoint: string,
     options: RequestInit = {}
   ): Promise<T> {
-    const url = buildApiUrl(endpoint);
-    
-    const defaultHeaders = {
-      'Content-Type': 'application/json',
-      ...options.headers,
-    };
-
-    // Add auth token if available
-    const token = localStorage.getItem('token');
-    if (token) {
-      defaultHeaders['Authorization'] = `Bearer ${token}`;
-    }
-
-    const response = await fetch(url, {
+    const response = await authFetch(endpoint, {
       ...options,
-      headers: defaultHeaders,
+      headers: {
+        'Content-Type': 'application/json',
+        ...options.headers,
+      },
     });
 
     if (!response.ok) {
@@ -35,7 +118,7 @@ export class ApiClient {
   // GET request
   static async get<T>(endpoint: string, params?: Record<string, string | number>): Promise<T> {
     const url = buildApiUrl(endpoint, params);
-    return this.request<T>(endpoint, { method: 'GET' });
+    return this.request<T>(url, { method: 'GET' });
   }
 
   // POST request
@@ -69,18 +152,8 @@ export class ApiClient {
 
   // File upload request
   static async upload<T>(endpoint: string, formData: FormData): Promise<T> {
-    const url = buildApiUrl(endpoint);
-    
-    const token = localStorage.getItem('token');
-    const headers: Record<string, string> = {};
-    
-    if (token) {
-      headers['Authorization'] = `Bearer ${token}`;
-    }
-
-    const response = await fetch(url, {
+    const response = await authFetch(endpoint, {
       method: 'POST',
-      headers,
       body: formData,
     });
 
@@ -98,24 +171,26 @@ export const apiFetch = async (
   endpoint: string,
   options: RequestInit = {}
 ): Promise<Response> => {
-  const url = buildApiUrl(endpoint);
-  
-  const defaultHeaders = {
-    'Content-Type': 'application/json',
-    ...options.headers,
-  };
-
-  const token = localStorage.getItem('token');
-  if (token) {
-    defaultHeaders['Authorization'] = `Bearer ${token}`;
-  }
-
-  return fetch(url, {
+  return authFetch(endpoint, {
     ...options,
-    headers: defaultHeaders,
+    headers: {
+      'Content-Type': 'application/json',
+      ...options.headers,
+    },
   });
 };
 
+// Sign out this device: revoke the server session (and its refresh cookie), then forget the access token
+export const logoutUser = async (): Promise<void> => {
+  try {
+    await fetch(buildApiUrl(config.API_ENDPOINTS.AUTH.LOGOUT), { method: 'POST', credentials: 'include' });
+  } catch (error) {
+    // The token is removed either way; an unreachable server just leaves the session to expire
+    console.error('Logout request failed:', error);
+  }
+  clearAccessToken();
+};
+
 // Helper function for building URLs with query parameters
 export const buildUrl = (endpoint: string, params?: Record<string, string | number>): string => {
   return buildApiUrl(endpoint, params);
@@ -1,4 +1,5 @@
 import { queryClient, cachePersister, queryKeys } from '../lib/queryClient';
+import { getAccessToken } from './api';
 
 // Cache management utilities for enhanced performance
 export class CacheManager {
@@ -73,7 +74,7 @@ export class CacheManager {
   static async preloadCriticalData(): Promise<void> {
     try {
       // Preload user profile if authenticated
-      const token = localStorage.getItem('token');
+      const token = getAccessToken();
       if (token) {
         // Preload user profile
         await queryClient.prefetchQuery({
@@ -2,6 +2,7 @@
 import { queryClient } from '../lib/queryClient';
 import { useCourses, useFeaturedCourses, useUserProfile, useUserDashboard } from '../hooks/useCourses';
 import { useCertificates } from '../hooks/useCertificates';
+import { authFetch, getAccessToken } from './api';
 
 export class CacheTester {
   // Force populate cache with test data
@@ -45,16 +46,14 @@ export class CacheTester {
       }
 
       // Test user profile cache (if authenticated)
-      const token = localStorage.getItem('token');
+      const token = getAccessToken();
       if (token) {
         console.log('👤 Testing user profile cache...');
         try {
           const profileQuery = queryClient.fetchQuery({
             queryKey: ['user', 'profile'],
             queryFn: async () => {
-              const response = await fetch('/api/auth/me', {
-                headers: { 'Authorization': `Bearer ${token}` }
-              });
+              const response = await authFetch('/api/auth/me');
               if (!response.ok) throw new Error('Failed to fetch user profile');
               return response.json();
             },
@@ -71,9 +70,7 @@ export class CacheTester {
           const dashboardQuery = queryClient.fetchQuery({
             queryKey: ['user', 'dashboard'],
             queryFn: async () => {
-              const response = await fetch('/api/progress/dashboard', {
-                headers: { 'Authorization': `Bearer ${token}` }
-              });
+              const response = await authFetch('/api/progress/dashboard');
               if (!response.ok) throw new Error('Failed to fetch dashboard');
               return response.json();
             },
@@ -90,9 +87,7 @@ export class CacheTester {
           const certificatesQuery = queryClient.fetchQuery({
             queryKey: ['certificates', 'list'],
             queryFn: async () => {
-              const response = await fetch('/api/certificates', {
-                headers: { 'Authorization': `Bearer ${token}` }
-              });
+              const response = await authFetch('/api/certificates');
               if (!response.ok) throw new Error('Failed to fetch certificates');
               return response.json();
             },
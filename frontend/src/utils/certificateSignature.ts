@@ -0,0 +1,118 @@
+import { buildApiUrl } from '../config/environment';
+
+/**
+ * Fields the server signs into a certificate credential
+ */
+export interface SignedCertificatePayload {
+  iss: string;
+  certificateId: string;
+  studentId: string;
+  courseId: string;
+  studentName: string;
+  courseTitle: string;
+  instructorName: string;
+  completionDate: string;
+  dateIssued: string;
+  iat: number;
+}
+
+export interface CredentialCheck {
+  isValid: boolean;
+  payload: SignedCertificatePayload | null;
+  keyId: string | null;
+}
+
+interface SigningKey extends JsonWebKey {
+  kid: string;
+}
+
+// The PDF info entry the server writes the credential into
+const PDF_CREDENTIAL_PATTERN = /\/IbyetCredential\s*\(([\w-]+\.[\w-]+\.[\w-]+)\)/;
+
+let signingKeysPromise: Promise<SigningKey[]> | null = null;
+
+const fromBase64Url = (value: string) => {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+const decodeJson = <T,>(value: string): T => JSON.parse(new TextDecoder().decode(fromBase64Url(value)));
+
+// The key set (current plus retired keys) only changes on key rotation, so fetch it once per page load
+const fetchSigningKeys = (): Promise<SigningKey[]> => {
+  if (!signingKeysPromise) {
+    signingKeysPromise = fetch(buildApiUrl('/api/certificates/public-key'))
+      .then(response => {
+        if (!response.ok) throw new Error('Failed to load the certificate public key');
+        return response.json();
+      })
+      .then(result => result.data.keys as SigningKey[])
+      .catch(error => {
+        signingKeysPromise = null;
+        throw error;
+      });
+  }
+  return signingKeysPromise;
+};
+
+// Pick the key a credential names; a kid missing from the cached set may be newer than the page, so reload once
+const findSigningKey = async (kid: string | null): Promise<SigningKey | undefined> => {
+  const cached = (await fetchSigningKeys()).find(candidate => candidate.kid === kid);
+  if (cached || !kid) return cached;
+
+  signingKeysPromise = null;
+  return (await fetchSigningKeys()).find(candidate => candidate.kid === kid);
+};
+
+/**
+ * Read the signed credential embedded in a certificate PDF
+ * @returns The credential, or null when the file has none
+ */
+export const extractCredentialFromPdf = async (file: File): Promise<string | null> => {
+  const text = new TextDecoder('latin1').decode(await file.arrayBuffer());
+  return text.match(PDF_CREDENTIAL_PATTERN)?.[1] || null;
+};
+
+/**
+ * Check a credential's Ed25519 signature in the browser against the platform key it names (current or retired).
+ * Throws when the key can't be loaded or the browser lacks Ed25519 support.
+ */
+export const verifyCredential = async (credential: string): Promise<CredentialCheck> => {
+  const parts = credential.trim().split('.');
+  if (parts.length !== 3) {
+    return { isValid: false, payload: null, keyId: null };
+  }
+
+  const [header, payload, signature] = parts;
+  let alg: string | undefined;
+  let kid: string | null = null;
+  let decodedPayload: SignedCertificatePayload | null = null;
+  try {
+    const decodedHeader = decodeJson<{ alg?: string; kid?: string }>(header);
+    alg = decodedHeader.alg;
+    kid = decodedHeader.kid || null;
+    decodedPayload = decodeJson<SignedCertificatePayload>(payload);
+  } catch {
+    return { isValid: false, payload: null, keyId: null };
+  }
+
+  const key = alg === 'EdDSA' ? await findSigningKey(kid) : undefined;
+  if (!key) {
+    return { isValid: false, payload: decodedPayload, keyId: kid };
+  }
+
+  const publicKey = await crypto.subtle.importKey('jwk', key, { name: 'Ed25519' }, false, ['verify']);
+  const isValid = await crypto.subtle.verify(
+    { name: 'Ed25519' },
+    publicKey,
+    fromBase64Url(signature),
+    new TextEncoder().encode(`${header}.${payload}`)
+  );
+
+  return { isValid, payload: decodedPayload, keyId: kid };
+};
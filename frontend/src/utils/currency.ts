@@ -0,0 +1,90 @@
+/**
+ * Currency helpers for per-currency course and bundle pricing.
+ * `price` is the USD base price; `prices` holds optional admin-set local prices.
+ * Checkout falls back to USD when an item has no price in the chosen currency.
+ */
+
+export type CurrencyCode = 'usd' | 'cad' | 'eur' | 'etb';
+export type LocalPriceCurrency = Exclude<CurrencyCode, 'usd'>;
+export type LocalPrices = Partial<Record<LocalPriceCurrency, number | null>>;
+
+export interface PricedItem {
+  price: number;
+  prices?: LocalPrices;
+}
+
+export interface ItemPrice {
+  amount: number;
+  currency: CurrencyCode;
+}
+
+export const DEFAULT_CURRENCY: CurrencyCode = 'usd';
+
+// Nakfa (ERN) isn't offered because Stripe can't charge it
+export const SUPPORTED_CURRENCIES: { code: CurrencyCode; label: string }[] = [
+  { code: 'usd', label: 'USD' },
+  { code: 'cad', label: 'CAD' },
+  { code: 'eur', label: 'EUR' },
+  { code: 'etb', label: 'ETB' }
+];
+
+export const LOCAL_PRICE_CURRENCIES: LocalPriceCurrency[] = ['cad', 'eur', 'etb'];
+
+const EUROZONE_REGIONS = ['AT', 'BE', 'CY', 'DE', 'EE', 'ES', 'FI', 'FR', 'GR', 'HR', 'IE', 'IT', 'LT', 'LU', 'LV', 'MT', 'NL', 'PT', 'SI', 'SK'];
+const CANADIAN_TIME_ZONES = ['America/Toronto', 'America/Vancouver', 'America/Edmonton', 'America/Winnipeg', 'America/Halifax', 'America/St_Johns', 'America/Regina'];
+
+export const isSupportedCurrency = (code: string | null | undefined): code is CurrencyCode =>
+  SUPPORTED_CURRENCIES.some(currency => currency.code === code);
+
+/**
+ * Guess the visitor's currency from the browser region and time zone
+ */
+export const detectCurrency = (): CurrencyCode => {
+  const languages = navigator.languages?.length ? navigator.languages : [navigator.language];
+  for (const language of languages) {
+    const region = language?.split('-')[1]?.toUpperCase();
+    if (region === 'CA') return 'cad';
+    if (region === 'ET') return 'etb';
+    if (region && EUROZONE_REGIONS.includes(region)) return 'eur';
+  }
+
+  const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+  if (timeZone === 'Africa/Addis_Ababa') return 'etb';
+  if (CANADIAN_TIME_ZONES.includes(timeZone)) return 'cad';
+
+  return DEFAULT_CURRENCY;
+};
+
+/**
+ * What an item costs in the chosen currency (USD base price when no local price is set)
+ */
+export const getItemPrice = (item: PricedItem, currency: CurrencyCode): ItemPrice => {
+  const localPrice = currency !== DEFAULT_CURRENCY ? item.prices?.[currency] : null;
+  if (localPrice !== null && localPrice !== undefined) {
+    return { amount: localPrice, currency };
+  }
+  return { amount: item.price, currency: DEFAULT_CURRENCY };
+};
+
+/**
+ * Format an amount for display, e.g. "$49.00", "CA$65.00", "€45.00", "ETB 2,500.00"
+ */
+export const formatPrice = (amount: number, currency: string = DEFAULT_CURRENCY, language: string = 'en'): string => {
+  const normalized = currency.toLowerCase();
+  const code = (isSupportedCurrency(normalized) ? normalized : DEFAULT_CURRENCY).toUpperCase();
+  return new Intl.NumberFormat(language === 'tg' ? 'ti-ER' : 'en-US', {
+    style: 'currency',
+    currency: code
+  }).format(amount || 0);
+};
+
+export type LocalPriceInputs = Record<LocalPriceCurrency, string>;
+
+/**
+ * Admin form values for the local prices ('' = not set, checkout falls back to USD)
+ */
+export const toLocalPriceInputs = (prices?: LocalPrices): LocalPriceInputs => ({
+  cad: prices?.cad != null ? String(prices.cad) : '',
+  eur: prices?.eur != null ? String(prices.eur) : '',
+  etb: prices?.etb != null ? String(prices.etb) : ''
+});
@@ -0,0 +1,34 @@
+import { buildApiUrl } from '../config/environment';
+
+const FILENAME_PATTERN = /filename="?([^";]+)"?/;
+
+/**
+ * Download an admin file (export, report) with the admin token and save it under the server's file name
+ * @param path - API path including the query string
+ * @param fallbackFileName - Used when the response has no Content-Disposition file name
+ */
+export const downloadAdminFile = async (path: string, fallbackFileName: string): Promise<void> => {
+  const adminToken = localStorage.getItem('adminToken');
+  if (!adminToken) {
+    throw new Error('Admin token not found');
+  }
+
+  const response = await fetch(buildApiUrl(path), {
+    headers: { 'Authorization': `Bearer ${adminToken}` }
+  });
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.message || 'Download failed');
+  }
+
+  const fileName = response.headers.get('Content-Disposition')?.match(FILENAME_PATTERN)?.[1] || fallbackFileName;
+  const blob = await response.blob();
+  const url = window.URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  window.URL.revokeObjectURL(url);
+  document.body.removeChild(a);
+};
@@ -0,0 +1,47 @@
+import { buildApiUrl } from '../config/environment';
+
+interface LinkedInCertification {
+  certificateId: string;
+  courseTitle: string;
+  dateIssued: string;
+}
+
+const ORGANIZATION_NAME = 'IBYET-INVESTING';
+
+/**
+ * Download a certificate as an Open Badges 3.0 verifiable credential (JSON file)
+ */
+export const downloadOpenBadge = async (certificateId: string): Promise<void> => {
+  const response = await fetch(buildApiUrl(`/api/certificates/badge/${certificateId}`));
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.message || 'Failed to download credential');
+  }
+
+  const blob = await response.blob();
+  const url = window.URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `certificate-${certificateId}.json`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  window.URL.revokeObjectURL(url);
+};
+
+/**
+ * LinkedIn "Add licenses & certifications" deep link, pre-filled with the certificate
+ */
+export const buildLinkedInAddUrl = ({ certificateId, courseTitle, dateIssued }: LinkedInCertification): string => {
+  const issued = new Date(dateIssued);
+  const params = new URLSearchParams({
+    startTask: 'CERTIFICATION_NAME',
+    name: courseTitle,
+    organizationName: ORGANIZATION_NAME,
+    issueYear: String(issued.getFullYear()),
+    issueMonth: String(issued.getMonth() + 1),
+    certUrl: `${window.location.origin}/verify/${certificateId}`,
+    certId: certificateId
+  });
+  return `https://www.linkedin.com/profile/add?${params}`;
+};
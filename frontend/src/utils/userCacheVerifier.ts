@@ -2,6 +2,7 @@
 import { queryClient } from '../lib/queryClient';
 import { cachePersister } from '../lib/queryClient';
 import { queryKeys } from '../lib/queryClient';
+import { authFetch, getAccessToken } from './api';
 
 export class UserCacheVerifier {
   // Verify all user data is cached
@@ -21,7 +22,7 @@ export class UserCacheVerifier {
     recommendations: string[];
   } {
     try {
-      const token = localStorage.getItem('token');
+      const token = getAccessToken();
       const isAuthenticated = !!token;
 
       // Check React Query cache
@@ -83,7 +84,7 @@ export class UserCacheVerifier {
   // Force cache user data
   static async forceCacheUserData(): Promise<void> {
     try {
-      const token = localStorage.getItem('token');
+      const token = getAccessToken();
       if (!token) {
         console.warn('⚠️ No authentication token found. Please login first.');
         return;
@@ -96,9 +97,7 @@ export class UserCacheVerifier {
         await queryClient.fetchQuery({
           queryKey: queryKeys.user.profile(),
           queryFn: async () => {
-            const response = await fetch('/api/auth/me', {
-              headers: { 'Authorization': `Bearer ${token}` }
-            });
+            const response = await authFetch('/api/auth/me');
             if (!response.ok) throw new Error('Failed to fetch user profile');
             return response.json();
           },
@@ -114,9 +113,7 @@ export class UserCacheVerifier {
         await queryClient.fetchQuery({
           queryKey: queryKeys.user.dashboard(),
           queryFn: async () => {
-            const response = await fetch('/api/progress/dashboard', {
-              headers: { 'Authorization': `Bearer ${token}` }
-            });
+            const response = await authFetch('/api/progress/dashboard');
             if (!response.ok) throw new Error('Failed to fetch dashboard');
             return response.json();
           },
@@ -132,9 +129,7 @@ export class UserCacheVerifier {
         await queryClient.fetchQuery({
           queryKey: queryKeys.certificates.list(),
           queryFn: async () => {
-            const response = await fetch('/api/certificates/user', {
-              headers: { 'Authorization': `Bearer ${token}` }
-            });
+            const response = await authFetch('/api/certificates/user');
             if (!response.ok) throw new Error('Failed to fetch certificates');
             return response.json();
           },
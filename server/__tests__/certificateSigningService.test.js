@@ -0,0 +1,143 @@
+const crypto = require('crypto');
+
+const pemPair = () => {
+  const { privateKey, publicKey } = crypto.generateKeyPairSync('ed25519');
+  return {
+    privateKey: privateKey.export({ type: 'pkcs8', format: 'pem' }),
+    publicKey: publicKey.export({ type: 'spki', format: 'pem' })
+  };
+};
+
+// A fresh service instance reading the given environment
+const loadService = (env) => {
+  process.env.CERTIFICATE_SIGNING_PRIVATE_KEY = env.privateKey || '';
+  process.env.CERTIFICATE_SIGNING_RETIRED_PUBLIC_KEYS = env.retiredPublicKeys || '';
+  let service;
+  jest.isolateModules(() => {
+    service = require('../services/certificateSigningService');
+  });
+  return service;
+};
+
+const buildCertificate = () => ({
+  certificateId: 'CERT-2026-0001',
+  studentId: { _id: '64b7f0c2a1b2c3d4e5f60718' },
+  courseId: '64b7f0c2a1b2c3d4e5f60719',
+  studentName: 'Ada Lovelace',
+  courseTitle: 'Investing Basics',
+  instructorName: 'Grace Hopper',
+  completionDate: new Date('2026-03-01T10:00:00Z'),
+  dateIssued: new Date('2026-03-02T10:00:00Z')
+});
+
+describe('certificateSigningService', () => {
+  const originalEnv = { ...process.env };
+
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+    jest.restoreAllMocks();
+  });
+
+  it('signs a certificate that then verifies', () => {
+    const service = loadService({ privateKey: pemPair().privateKey });
+    const certificate = buildCertificate();
+
+    const credential = service.signCertificate(certificate);
+
+    expect(credential.split('.')).toHaveLength(3);
+    expect(certificate.signedCredential).toBe(credential);
+    expect(certificate.signingKeyId).toBe(service.getKeyId());
+    expect(service.verifyCertificate(certificate)).toBe(true);
+    expect(service.needsSigning(certificate)).toBe(false);
+  });
+
+  it('rejects a credential whose payload was changed', () => {
+    const service = loadService({ privateKey: pemPair().privateKey });
+    const [header, payload, signature] = service.signCertificate(buildCertificate()).split('.');
+
+    const forged = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    forged.studentName = 'Someone Else';
+    const tampered = `${header}.${Buffer.from(JSON.stringify(forged)).toString('base64url')}.${signature}`;
+
+    expect(service.verifyCredential(tampered).valid).toBe(false);
+  });
+
+  it('rejects a certificate whose record no longer matches the signed fields', () => {
+    const service = loadService({ privateKey: pemPair().privateKey });
+    const certificate = buildCertificate();
+    service.signCertificate(certificate);
+
+    certificate.courseTitle = 'Advanced Investing';
+
+    expect(service.verifyCredential(certificate.signedCredential).valid).toBe(true);
+    expect(service.verifyCertificate(certificate)).toBe(false);
+  });
+
+  it('rejects credentials signed with an unknown key', () => {
+    const certificate = buildCertificate();
+    loadService({ privateKey: pemPair().privateKey }).signCertificate(certificate);
+
+    const service = loadService({ privateKey: pemPair().privateKey });
+
+    expect(service.verifyCredential(certificate.signedCredential)).toEqual(
+      expect.objectContaining({ valid: false, keyId: certificate.signingKeyId })
+    );
+    expect(service.verifyCertificate(certificate)).toBe(false);
+    expect(service.needsSigning(certificate)).toBe(true);
+  });
+
+  it('rejects malformed credentials', () => {
+    const service = loadService({ privateKey: pemPair().privateKey });
+
+    expect(service.verifyCredential('not-a-credential')).toEqual({ valid: false, payload: null, keyId: null });
+    expect(service.verifyCredential('a.b.c')).toEqual({ valid: false, payload: null, keyId: null });
+    expect(service.verifyCertificate({ ...buildCertificate(), signedCredential: undefined })).toBe(false);
+  });
+
+  it('keeps verifying certificates signed with a retired key', () => {
+    const oldKeys = pemPair();
+    const certificate = buildCertificate();
+    loadService({ privateKey: oldKeys.privateKey }).signCertificate(certificate);
+
+    const service = loadService({ privateKey: pemPair().privateKey, retiredPublicKeys: oldKeys.publicKey });
+
+    expect(service.verifyCertificate(certificate)).toBe(true);
+    expect(service.needsSigning(certificate)).toBe(false);
+    expect(service.getKeyIds()).toEqual([service.getKeyId(), certificate.signingKeyId]);
+    expect(service.getPublicJwks().keys.map(key => key.kid)).toEqual(service.getKeyIds());
+  });
+
+  it('reads retired keys with escaped newlines from the environment', () => {
+    const oldKeys = pemPair();
+    const certificate = buildCertificate();
+    loadService({ privateKey: oldKeys.privateKey }).signCertificate(certificate);
+
+    const service = loadService({
+      privateKey: pemPair().privateKey.replace(/\n/g, '\\n'),
+      retiredPublicKeys: oldKeys.publicKey.replace(/\n/g, '\\n')
+    });
+
+    expect(service.verifyCertificate(certificate)).toBe(true);
+  });
+
+  it('refuses to sign without a configured key', () => {
+    const service = loadService({});
+
+    expect(service.isConfigured()).toBe(false);
+    expect(service.getPublicKeyPem()).toBeNull();
+    expect(() => service.signCertificate(buildCertificate())).toThrow(
+      'Certificate signing is not configured: set CERTIFICATE_SIGNING_PRIVATE_KEY'
+    );
+  });
+
+  it('rejects keys that are not Ed25519', () => {
+    const { privateKey } = crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' });
+    const service = loadService({ privateKey: privateKey.export({ type: 'pkcs8', format: 'pem' }) });
+
+    expect(() => service.isConfigured()).toThrow('CERTIFICATE_SIGNING_PRIVATE_KEY must hold Ed25519 keys');
+  });
+});
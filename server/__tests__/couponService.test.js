@@ -0,0 +1,122 @@
+const Coupon = require('../models/Coupon');
+const Payment = require('../models/Payment');
+const couponService = require('../services/couponService');
+
+const course = { _id: '64b7f0c2a1b2c3d4e5f60719', price: 49, prices: { etb: 2800 } };
+
+const buildCoupon = (fields) => new Coupon({
+  code: 'SAVE10',
+  discountType: 'percentage',
+  discountValue: 10,
+  createdBy: 'admin@example.com',
+  ...fields
+});
+
+describe('Coupon.calculateDiscount', () => {
+  it('takes a percentage of the price, rounded to cents', () => {
+    expect(buildCoupon({ discountValue: 15 }).calculateDiscount(19.99)).toBe(3);
+  });
+
+  it('uses the USD value for fixed discounts by default', () => {
+    expect(buildCoupon({ discountType: 'fixed', discountValue: 10 }).calculateDiscount(49)).toBe(10);
+  });
+
+  it('uses a converted amount for fixed discounts when given one', () => {
+    expect(buildCoupon({ discountType: 'fixed', discountValue: 10 }).calculateDiscount(2800, 571.43)).toBe(571.43);
+  });
+
+  it('never discounts more than the price', () => {
+    expect(buildCoupon({ discountType: 'fixed', discountValue: 60 }).calculateDiscount(49)).toBe(49);
+    expect(buildCoupon({ discountValue: 100 }).calculateDiscount(49)).toBe(49);
+  });
+});
+
+describe('couponService.applyCoupon', () => {
+  const apply = (coupon, price) => {
+    jest.spyOn(Coupon, 'findByCode').mockResolvedValue(coupon);
+    return couponService.applyCoupon({ code: coupon.code, userId: 'user-1', itemType: 'course', item: course, price });
+  };
+
+  beforeEach(() => {
+    jest.spyOn(Payment, 'countDocuments').mockResolvedValue(0);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('prices a percentage discount in USD by default', async () => {
+    const pricing = await apply(buildCoupon({ discountValue: 25 }));
+
+    expect(pricing).toEqual(expect.objectContaining({
+      originalAmount: 49,
+      discountAmount: 12.25,
+      finalAmount: 36.75,
+      currency: 'usd'
+    }));
+  });
+
+  it('converts fixed discounts to the checkout currency', async () => {
+    const pricing = await apply(buildCoupon({ discountType: 'fixed', discountValue: 10 }), { amount: 2800, currency: 'etb' });
+
+    expect(pricing).toEqual(expect.objectContaining({
+      originalAmount: 2800,
+      discountAmount: 571.43,
+      finalAmount: 2228.57,
+      currency: 'etb'
+    }));
+  });
+
+  it('lets a full discount make the purchase free', async () => {
+    const pricing = await apply(buildCoupon({ discountValue: 100 }));
+
+    expect(pricing.finalAmount).toBe(0);
+    expect(pricing.discountAmount).toBe(49);
+  });
+
+  it("raises a small remainder to Stripe's minimum charge", async () => {
+    const pricing = await apply(buildCoupon({ discountType: 'fixed', discountValue: 48.8 }));
+
+    expect(pricing.finalAmount).toBe(0.5);
+    expect(pricing.discountAmount).toBe(48.5);
+  });
+
+  it('uses the minimum charge of the checkout currency', async () => {
+    const pricing = await apply(buildCoupon({ discountValue: 99 }), { amount: 2800, currency: 'etb' });
+
+    expect(pricing.finalAmount).toBe(30);
+    expect(pricing.discountAmount).toBe(2770);
+  });
+
+  it('never charges more than the original price', async () => {
+    const pricing = await apply(buildCoupon({ discountValue: 50 }), { amount: 0.6, currency: 'usd' });
+
+    expect(pricing.finalAmount).toBe(0.5);
+    expect(pricing.discountAmount).toBe(0.1);
+  });
+
+  it('rejects codes that have expired', async () => {
+    await expect(apply(buildCoupon({ expiresAt: new Date(Date.now() - 1000) }))).rejects.toMatchObject({
+      name: 'CouponError',
+      message: 'This promo code has expired'
+    });
+  });
+
+  it('rejects codes for other courses', async () => {
+    const coupon = buildCoupon({ scope: 'course', courseIds: ['64b7f0c2a1b2c3d4e5f60720'] });
+
+    await expect(apply(coupon)).rejects.toMatchObject({
+      name: 'CouponError',
+      message: "This promo code can't be used for this course"
+    });
+  });
+
+  it('rejects codes the student has already used', async () => {
+    Payment.countDocuments.mockResolvedValue(1);
+
+    await expect(apply(buildCoupon())).rejects.toMatchObject({
+      name: 'CouponError',
+      message: 'You have already used this promo code'
+    });
+  });
+});
@@ -0,0 +1,88 @@
+const {
+  normalizeCurrency,
+  getItemPrice,
+  convertBaseAmount,
+  parseLocalPrices,
+  formatAmount
+} = require('../utils/currency');
+
+const course = { price: 49, prices: { cad: 67, eur: 45, etb: 2800 } };
+
+describe('currency', () => {
+  describe('normalizeCurrency', () => {
+    it('lower-cases supported codes', () => {
+      expect(normalizeCurrency(' EUR ')).toBe('eur');
+    });
+
+    it('returns null for unsupported codes', () => {
+      expect(normalizeCurrency('ern')).toBeNull();
+      expect(normalizeCurrency(undefined)).toBeNull();
+    });
+  });
+
+  describe('getItemPrice', () => {
+    it('uses the local price when one is set', () => {
+      expect(getItemPrice(course, 'ETB')).toEqual({ amount: 2800, currency: 'etb' });
+    });
+
+    it('keeps a local price of zero', () => {
+      expect(getItemPrice({ price: 49, prices: { cad: 0 } }, 'cad')).toEqual({ amount: 0, currency: 'cad' });
+    });
+
+    it('falls back to the USD base price', () => {
+      expect(getItemPrice({ price: 49, prices: { cad: null } }, 'cad')).toEqual({ amount: 49, currency: 'usd' });
+      expect(getItemPrice(course, 'gbp')).toEqual({ amount: 49, currency: 'usd' });
+    });
+  });
+
+  describe('convertBaseAmount', () => {
+    it('leaves USD amounts unchanged', () => {
+      expect(convertBaseAmount(10, course, { amount: 49, currency: 'usd' })).toBe(10);
+    });
+
+    it('scales by the rate implied by the local price', () => {
+      expect(convertBaseAmount(10, course, getItemPrice(course, 'etb'))).toBe(571.43);
+      expect(convertBaseAmount(10, course, getItemPrice(course, 'eur'))).toBe(9.18);
+    });
+
+    it('rounds to cents', () => {
+      const converted = convertBaseAmount(1, { price: 3 }, { amount: 10, currency: 'cad' });
+      expect(converted).toBe(3.33);
+    });
+
+    it('leaves the amount unchanged when the item has no base price', () => {
+      expect(convertBaseAmount(10, { price: 0 }, { amount: 500, currency: 'etb' })).toBe(10);
+    });
+  });
+
+  describe('parseLocalPrices', () => {
+    it('parses numbers and clears empty or invalid values', () => {
+      expect(parseLocalPrices({ cad: '25.5', eur: '', etb: -1 })).toEqual({ cad: 25.5, eur: null, etb: null });
+    });
+
+    it('accepts JSON from multipart forms', () => {
+      expect(parseLocalPrices('{"etb":1500}')).toEqual({ cad: null, eur: null, etb: 1500 });
+    });
+
+    it('returns undefined when nothing usable was sent', () => {
+      expect(parseLocalPrices(undefined)).toBeUndefined();
+      expect(parseLocalPrices('')).toBeUndefined();
+      expect(parseLocalPrices('{not json')).toBeUndefined();
+    });
+  });
+
+  describe('formatAmount', () => {
+    it('adds the code after currencies with a symbol', () => {
+      expect(formatAmount(49, 'usd')).toBe('$49.00 USD');
+      expect(formatAmount(45, 'eur')).toBe('€45.00 EUR');
+    });
+
+    it('rounds to two decimals', () => {
+      expect(formatAmount(571.428, 'cad')).toBe('CA$571.43 CAD');
+    });
+
+    it('does not repeat the code for currencies without a symbol', () => {
+      expect(formatAmount(2500, 'etb').replace(/\s/g, ' ')).toBe('ETB 2,500.00');
+    });
+  });
+});
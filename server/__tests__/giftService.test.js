@@ -0,0 +1,118 @@
+jest.mock('../utils/purchaseUtils', () => ({ grantItemAccess: jest.fn() }));
+jest.mock('../services/emailService', () => ({}));
+
+const { grantItemAccess } = require('../utils/purchaseUtils');
+const Gift = require('../models/Gift');
+const User = require('../models/User');
+const giftService = require('../services/giftService');
+
+const GIFT_ID = '64b7f0c2a1b2c3d4e5f60a01';
+const COURSE_ID = '64b7f0c2a1b2c3d4e5f60719';
+
+// One gift in an in-memory collection; findOneAndUpdate/updateOne apply like Mongo's atomic updates
+const createGiftStore = (fields = {}) => {
+  const stored = { _id: GIFT_ID, code: 'GIFT-ABCD-EFGH', status: 'available', courseId: COURSE_ID, bundleId: null, ...fields };
+  const toDocument = () => ({
+    ...stored,
+    save: jest.fn().mockResolvedValue(),
+    populate: jest.fn().mockImplementation(function() { return Promise.resolve(this); })
+  });
+
+  jest.spyOn(Gift, 'findByCode').mockImplementation(async () => toDocument());
+  jest.spyOn(Gift, 'findOneAndUpdate').mockImplementation(async (filter, update) => {
+    // Yield first so concurrent redemptions interleave as they would against the database
+    await new Promise(resolve => setImmediate(resolve));
+    if (stored.status !== filter.status) return null;
+    Object.assign(stored, update.$set);
+    return toDocument();
+  });
+  jest.spyOn(Gift, 'updateOne').mockImplementation(async (filter, update) => {
+    Object.assign(stored, update.$set);
+    return { modifiedCount: 1 };
+  });
+  return stored;
+};
+
+const mockUser = (fields = {}) => jest.spyOn(User, 'findById').mockReturnValue({
+  select: jest.fn().mockResolvedValue({ purchasedCourses: [], purchasedBundles: [], ...fields })
+});
+
+describe('giftService.redeemGift', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    grantItemAccess.mockResolvedValue({ course: { currentVersion: 3 }, bundle: null });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    grantItemAccess.mockReset();
+  });
+
+  it('grants the course and records who redeemed it', async () => {
+    const stored = createGiftStore();
+    mockUser();
+
+    const gift = await giftService.redeemGift('gift-abcd-efgh', 'user-1');
+
+    expect(grantItemAccess).toHaveBeenCalledWith('user-1', { courseId: COURSE_ID });
+    expect(stored).toEqual(expect.objectContaining({ status: 'redeemed', redeemedBy: 'user-1' }));
+    expect(gift.courseVersion).toBe(3);
+  });
+
+  it('lets only one of two simultaneous redemptions through', async () => {
+    const stored = createGiftStore();
+    mockUser();
+
+    const results = await Promise.allSettled([
+      giftService.redeemGift('GIFT-ABCD-EFGH', 'user-1'),
+      giftService.redeemGift('GIFT-ABCD-EFGH', 'user-2')
+    ]);
+
+    expect(results.map(result => result.status).sort()).toEqual(['fulfilled', 'rejected']);
+    expect(results.find(result => result.status === 'rejected').reason).toMatchObject({
+      name: 'GiftError',
+      message: 'This gift code has already been redeemed'
+    });
+    expect(grantItemAccess).toHaveBeenCalledTimes(1);
+    expect(stored.redeemedBy).toBe(grantItemAccess.mock.calls[0][0]);
+  });
+
+  it('frees the code again when granting access fails', async () => {
+    const stored = createGiftStore();
+    mockUser();
+    grantItemAccess.mockRejectedValue(new Error('Course not found'));
+
+    await expect(giftService.redeemGift('GIFT-ABCD-EFGH', 'user-1')).rejects.toThrow('Course not found');
+    expect(stored).toEqual(expect.objectContaining({ status: 'available', redeemedBy: null, redeemedAt: null }));
+  });
+
+  it('keeps the code unused when the student already owns the course', async () => {
+    const stored = createGiftStore();
+    mockUser({ purchasedCourses: [COURSE_ID] });
+
+    await expect(giftService.redeemGift('GIFT-ABCD-EFGH', 'user-1')).rejects.toMatchObject({
+      name: 'GiftError',
+      message: 'You already own this course'
+    });
+    expect(stored.status).toBe('available');
+    expect(grantItemAccess).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    ['pending', 'Invalid gift code'],
+    ['redeemed', 'This gift code has already been redeemed'],
+    ['revoked', 'This gift code is no longer valid']
+  ])('rejects a %s code', async (status, message) => {
+    createGiftStore({ status });
+    mockUser();
+
+    await expect(giftService.redeemGift('GIFT-ABCD-EFGH', 'user-1')).rejects.toMatchObject({ name: 'GiftError', message });
+    expect(grantItemAccess).not.toHaveBeenCalled();
+  });
+
+  it('rejects unknown codes', async () => {
+    jest.spyOn(Gift, 'findByCode').mockResolvedValue(null);
+
+    await expect(giftService.redeemGift('NOPE', 'user-1')).rejects.toThrow('Invalid gift code');
+  });
+});
@@ -0,0 +1,141 @@
+const quizService = require('../services/quizService');
+
+const buildQuiz = (fields = {}) => ({
+  passingScore: 70,
+  maxAttempts: 3,
+  questions: [
+    { _id: 'q1', type: 'multiple_choice', points: 2, correctOption: 1, options: [{ text: 'A' }, { text: 'B' }], explanation: 'B is right' },
+    { _id: 'q2', type: 'true_false', points: 1, correctBoolean: false, explanation: '' },
+    { _id: 'q3', type: 'numeric', points: 1, correctNumber: 3.5, tolerance: 0.1, explanation: { en: 'About 3.5', tg: '' } }
+  ],
+  ...fields
+});
+
+const ALL_CORRECT = [
+  { questionId: 'q1', answer: 1 },
+  { questionId: 'q2', answer: 'false' },
+  { questionId: 'q3', answer: '3.45' }
+];
+
+describe('quizService', () => {
+  describe('gradeAttempt', () => {
+    it('scores a fully correct submission', () => {
+      expect(quizService.gradeAttempt(buildQuiz(), ALL_CORRECT)).toEqual(expect.objectContaining({
+        score: 4,
+        maxScore: 4,
+        percentage: 100,
+        passed: true
+      }));
+    });
+
+    it('weights questions by their points', () => {
+      const graded = quizService.gradeAttempt(buildQuiz(), [
+        { questionId: 'q1', answer: 1 },
+        { questionId: 'q2', answer: true },
+        { questionId: 'q3', answer: 4 }
+      ]);
+
+      expect(graded.score).toBe(2);
+      expect(graded.percentage).toBe(50);
+      expect(graded.passed).toBe(false);
+      expect(graded.answers.map(answer => answer.pointsAwarded)).toEqual([2, 0, 0]);
+    });
+
+    it('passes at exactly the passing score', () => {
+      const graded = quizService.gradeAttempt(buildQuiz({ passingScore: 75 }), ALL_CORRECT.slice(0, 2));
+
+      expect(graded.percentage).toBe(75);
+      expect(graded.passed).toBe(true);
+    });
+
+    it('marks unanswered questions wrong and stores them as null', () => {
+      const graded = quizService.gradeAttempt(buildQuiz(), []);
+
+      expect(graded.score).toBe(0);
+      expect(graded.answers).toEqual([
+        { questionId: 'q1', answer: null, isCorrect: false, pointsAwarded: 0 },
+        { questionId: 'q2', answer: null, isCorrect: false, pointsAwarded: 0 },
+        { questionId: 'q3', answer: null, isCorrect: false, pointsAwarded: 0 }
+      ]);
+    });
+
+    it('ignores answers to questions that are not in the quiz', () => {
+      const graded = quizService.gradeAttempt(buildQuiz(), [{ questionId: 'other', answer: 1 }, null]);
+
+      expect(graded.score).toBe(0);
+    });
+
+    it('treats a quiz worth no points as passed', () => {
+      const quiz = buildQuiz({ questions: [{ _id: 'q1', type: 'true_false', points: 0, correctBoolean: true }] });
+
+      expect(quizService.gradeAttempt(quiz, [])).toEqual(expect.objectContaining({ percentage: 100, passed: true }));
+    });
+  });
+
+  describe('gradeQuestion', () => {
+    const numeric = { type: 'numeric', points: 1, correctNumber: 10, tolerance: 0.5 };
+
+    it('accepts numeric answers within the tolerance', () => {
+      expect(quizService.gradeQuestion(numeric, '10.5').isCorrect).toBe(true);
+      expect(quizService.gradeQuestion(numeric, 9.4).isCorrect).toBe(false);
+    });
+
+    it('does not count a blank numeric answer as zero', () => {
+      expect(quizService.gradeQuestion({ ...numeric, correctNumber: 0 }, '').isCorrect).toBe(false);
+      expect(quizService.gradeQuestion({ ...numeric, correctNumber: 0 }, 'abc').isCorrect).toBe(false);
+    });
+  });
+
+  describe('buildReview', () => {
+    const failed = (quiz) => ({ ...quizService.gradeAttempt(quiz, []), attemptNumber: 1 });
+
+    it('leaves out the answer key by default', () => {
+      const quiz = buildQuiz();
+      const review = quizService.buildReview(quiz, failed(quiz));
+
+      expect(review).toHaveLength(3);
+      review.forEach(item => {
+        expect(item).not.toHaveProperty('correctAnswer');
+        expect(item).not.toHaveProperty('explanation');
+      });
+    });
+
+    it('includes the answer key and explanations when revealed', () => {
+      const quiz = buildQuiz();
+      const review = quizService.buildReview(quiz, failed(quiz), { revealAnswers: true });
+
+      expect(review.map(item => item.correctAnswer)).toEqual([1, false, 3.5]);
+      expect(review[0].explanation).toBe('B is right');
+    });
+
+    it("reports the student's own answers either way", () => {
+      const quiz = buildQuiz();
+      const review = quizService.buildReview(quiz, quizService.gradeAttempt(quiz, ALL_CORRECT));
+
+      expect(review.map(item => [item.answer, item.isCorrect, item.pointsAwarded])).toEqual([
+        [1, true, 2],
+        ['false', true, 1],
+        ['3.45', true, 1]
+      ]);
+    });
+  });
+
+  describe('canRevealAnswers', () => {
+    it('hides answers after a failed attempt with attempts left', () => {
+      expect(quizService.canRevealAnswers(buildQuiz({ maxAttempts: 3 }), { passed: false, attemptNumber: 2 })).toBe(false);
+    });
+
+    it('hides answers after failed attempts when attempts are unlimited', () => {
+      expect(quizService.canRevealAnswers(buildQuiz({ maxAttempts: 0 }), { passed: false, attemptNumber: 25 })).toBe(false);
+    });
+
+    it('reveals answers after a pass', () => {
+      expect(quizService.canRevealAnswers(buildQuiz({ maxAttempts: 0 }), { passed: true, attemptNumber: 1 })).toBe(true);
+    });
+
+    it('reveals answers after the last attempt', () => {
+      expect(quizService.canRevealAnswers(buildQuiz({ maxAttempts: 3 }), { passed: false, attemptNumber: 3 })).toBe(true);
+      expect(quizService.canRevealAnswers(buildQuiz({ maxAttempts: 1 }), { passed: false, attemptNumber: 1 })).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,174 @@
+jest.mock('../utils/stripe', () => ({ stripe: null }));
+jest.mock('../services/giftService', () => ({}));
+jest.mock('../services/certificateService', () => ({}));
+
+const couponService = require('../services/couponService');
+const refundService = require('../services/refundService');
+
+// A development-mode (non-Stripe) payment with the fields the refund math reads
+const buildPayment = (fields = {}) => ({
+  _id: '64b7f0c2a1b2c3d4e5f60801',
+  status: 'completed',
+  amount: 49.99,
+  currency: 'usd',
+  refundedAmount: 0,
+  refunds: [],
+  stripeSessionId: 'dev_session_1',
+  save: jest.fn().mockResolvedValue(),
+  ...fields
+});
+
+describe('refundService', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(refundService, 'revokeAccess').mockResolvedValue({ revokedCourseIds: [], keptCourseIds: [] });
+    jest.spyOn(refundService, 'logPaymentAction').mockResolvedValue();
+    jest.spyOn(couponService, 'releaseRedemption').mockResolvedValue();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('refundPayment', () => {
+    it('refunds the whole amount when no amount is given', async () => {
+      const payment = await refundService.refundPayment(buildPayment(), { performedBy: 'admin@example.com' });
+
+      expect(payment.refunds).toEqual([expect.objectContaining({ amount: 49.99, refundedBy: 'admin@example.com' })]);
+      expect(payment.refundedAmount).toBe(49.99);
+      expect(payment.status).toBe('refunded');
+      expect(refundService.revokeAccess).toHaveBeenCalledTimes(1);
+    });
+
+    it('keeps access after a partial refund', async () => {
+      const payment = await refundService.refundPayment(buildPayment(), { amount: '20', performedBy: 'admin@example.com' });
+
+      expect(payment.refundedAmount).toBe(20);
+      expect(payment.status).toBe('partially_refunded');
+      expect(refundService.revokeAccess).not.toHaveBeenCalled();
+    });
+
+    it('rounds amounts to cents', async () => {
+      const payment = await refundService.refundPayment(buildPayment(), { amount: 10.004, performedBy: 'admin@example.com' });
+
+      expect(payment.refunds[0].amount).toBe(10);
+    });
+
+    it('sums refunds without floating point drift', async () => {
+      const payment = buildPayment({ amount: 0.3 });
+      await refundService.refundPayment(payment, { amount: 0.1, performedBy: 'admin@example.com' });
+      await refundService.refundPayment(payment, { amount: 0.2, performedBy: 'admin@example.com' });
+
+      expect(payment.refundedAmount).toBe(0.3);
+      expect(payment.status).toBe('refunded');
+    });
+
+    it('refunds only what is left after earlier refunds', async () => {
+      const payment = buildPayment({
+        status: 'partially_refunded',
+        refundedAmount: 20,
+        refunds: [{ amount: 20, refundedBy: 'admin@example.com' }]
+      });
+
+      await refundService.refundPayment(payment, { performedBy: 'admin@example.com' });
+
+      expect(payment.refunds[1].amount).toBe(29.99);
+      expect(payment.refundedAmount).toBe(49.99);
+      expect(payment.status).toBe('refunded');
+    });
+
+    it.each([0, -5, 50, 'abc'])('rejects a refund amount of %p', async (amount) => {
+      await expect(refundService.refundPayment(buildPayment(), { amount, performedBy: 'admin@example.com' }))
+        .rejects.toMatchObject({
+          name: 'RefundError',
+          message: 'Refund amount must be between $0.01 USD and $49.99 USD'
+        });
+    });
+
+    it('states the limits in the payment currency', async () => {
+      const payment = buildPayment({ amount: 2800, currency: 'eur' });
+
+      await expect(refundService.refundPayment(payment, { amount: 3000, performedBy: 'admin@example.com' }))
+        .rejects.toThrow('Refund amount must be between €0.01 EUR and €2,800.00 EUR');
+    });
+
+    it('gives back the promo code redemption on a full refund', async () => {
+      const payment = buildPayment({ userId: 'user-1', coupon: { couponId: 'coupon-1', code: 'SAVE10' } });
+
+      await refundService.refundPayment(payment, { amount: 20, performedBy: 'admin@example.com' });
+      expect(couponService.releaseRedemption).not.toHaveBeenCalled();
+
+      await refundService.refundPayment(payment, { performedBy: 'admin@example.com' });
+      expect(couponService.releaseRedemption).toHaveBeenCalledWith('coupon-1', 'user-1');
+    });
+
+    it('rejects payments that are not paid', async () => {
+      await expect(refundService.refundPayment(buildPayment({ status: 'refunded' }), { performedBy: 'admin@example.com' }))
+        .rejects.toThrow('A refunded payment cannot be refunded');
+    });
+  });
+
+  describe('handleChargeRefunded', () => {
+    const mockPayment = (payment) => jest.spyOn(refundService, 'findPaymentForCharge').mockResolvedValue(payment);
+
+    it('records each Stripe refund once', async () => {
+      const payment = buildPayment({
+        refundedAmount: 10,
+        refunds: [{ stripeRefundId: 're_1', amount: 10, refundedBy: 'admin@example.com' }]
+      });
+      mockPayment(payment);
+
+      await refundService.handleChargeRefunded({
+        id: 'ch_1',
+        amount_refunded: 2500,
+        refunds: { data: [{ id: 're_1', amount: 1000 }, { id: 're_2', amount: 1500, reason: 'duplicate' }] }
+      });
+
+      expect(payment.refunds).toHaveLength(2);
+      expect(payment.refunds[1]).toEqual(expect.objectContaining({ stripeRefundId: 're_2', amount: 15, refundedBy: 'stripe' }));
+      expect(payment.refundedAmount).toBe(25);
+      expect(payment.status).toBe('partially_refunded');
+    });
+
+    it('makes up the difference when the charge has no refund list', async () => {
+      const payment = buildPayment();
+      mockPayment(payment);
+
+      await refundService.handleChargeRefunded({ id: 'ch_1', amount_refunded: 4999 });
+
+      expect(payment.refunds).toEqual([{ amount: 49.99, refundedBy: 'stripe' }]);
+      expect(payment.refundedAmount).toBe(49.99);
+      expect(payment.status).toBe('refunded');
+    });
+
+    it('leaves refunds already recorded from the admin panel alone', async () => {
+      const payment = buildPayment({
+        status: 'partially_refunded',
+        refundedAmount: 10,
+        refunds: [{ stripeRefundId: 're_1', amount: 10, refundedBy: 'admin@example.com' }]
+      });
+      mockPayment(payment);
+
+      await refundService.handleChargeRefunded({ id: 'ch_1', amount_refunded: 1000, refunds: { data: [{ id: 're_1', amount: 1000 }] } });
+
+      expect(payment.save).not.toHaveBeenCalled();
+      expect(refundService.logPaymentAction).not.toHaveBeenCalled();
+    });
+
+    it('releases the promo code only once when Stripe reports more refunds', async () => {
+      const payment = buildPayment({
+        userId: 'user-1',
+        coupon: { couponId: 'coupon-1', code: 'SAVE10' },
+        status: 'refunded',
+        refundedAmount: 49.99,
+        refunds: [{ stripeRefundId: 're_1', amount: 49.99, refundedBy: 'admin@example.com' }]
+      });
+      mockPayment(payment);
+
+      await refundService.handleChargeRefunded({ id: 'ch_1', amount_refunded: 5000 });
+
+      expect(payment.status).toBe('refunded');
+      expect(couponService.releaseRedemption).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,130 @@
+const crypto = require('crypto');
+const Session = require('../models/Session');
+const sessionService = require('../services/sessionService');
+
+const hashToken = (token) => crypto.createHash('sha256').update(token).digest('hex');
+
+// In-memory stand-in for the sessions collection, supporting the queries rotateRefreshToken makes
+const createStore = () => {
+  const sessions = [];
+  const matches = (session, filter) => Object.entries(filter).every(([field, condition]) => {
+    if (condition && condition.$gt !== undefined) return session[field] > condition.$gt;
+    return String(session[field]) === String(condition);
+  });
+
+  jest.spyOn(Session, 'findOneAndUpdate').mockImplementation(async (filter, update) => {
+    const session = sessions.find(s => matches(s, filter));
+    if (!session) return null;
+    Object.assign(session, update.$set);
+    return session;
+  });
+  jest.spyOn(Session, 'findOne').mockImplementation(async (filter) => sessions.find(s => matches(s, filter)) || null);
+  jest.spyOn(Session, 'updateOne').mockImplementation(async (filter, update) => {
+    const session = sessions.find(s => matches(s, filter));
+    if (session) Object.assign(session, update.$set);
+    return { modifiedCount: session ? 1 : 0 };
+  });
+
+  return {
+    add: (refreshToken, fields = {}) => {
+      const session = {
+        _id: '64b7f0c2a1b2c3d4e5f60901',
+        userId: '64b7f0c2a1b2c3d4e5f60701',
+        refreshTokenHash: hashToken(refreshToken),
+        previousRefreshTokenHash: null,
+        refreshedAt: null,
+        revokedAt: null,
+        expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+        ...fields
+      };
+      sessions.push(session);
+      return session;
+    }
+  };
+};
+
+describe('sessionService.rotateRefreshToken', () => {
+  let store;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    store = createStore();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('swaps the token for a new one and extends the session', async () => {
+    const session = store.add('token-1', { expiresAt: new Date(Date.now() + 1000) });
+
+    const result = await sessionService.rotateRefreshToken('token-1');
+
+    expect(result.session).toBe(session);
+    expect(result.refreshToken).toEqual(expect.any(String));
+    expect(result.refreshToken).not.toBe('token-1');
+    expect(session.refreshTokenHash).toBe(hashToken(result.refreshToken));
+    expect(session.previousRefreshTokenHash).toBe(hashToken('token-1'));
+    expect(session.expiresAt.getTime()).toBeGreaterThan(Date.now() + 24 * 60 * 60 * 1000);
+  });
+
+  it('accepts the new token on the next refresh', async () => {
+    store.add('token-1');
+    const first = await sessionService.rotateRefreshToken('token-1');
+
+    const second = await sessionService.rotateRefreshToken(first.refreshToken);
+
+    expect(second.refreshToken).toEqual(expect.any(String));
+    expect(second.refreshToken).not.toBe(first.refreshToken);
+  });
+
+  it('lets a concurrent refresh with the old token through without a new token', async () => {
+    const session = store.add('token-1');
+    await sessionService.rotateRefreshToken('token-1');
+
+    const concurrent = await sessionService.rotateRefreshToken('token-1');
+
+    expect(concurrent).toEqual({ session, refreshToken: null });
+    expect(session.revokedAt).toBeNull();
+  });
+
+  it('revokes the session when an old token is reused after the grace period', async () => {
+    jest.useFakeTimers({ now: new Date('2026-05-01T10:00:00Z') });
+    const session = store.add('token-1');
+    await sessionService.rotateRefreshToken('token-1');
+
+    jest.setSystemTime(new Date('2026-05-01T10:01:00Z'));
+    const reused = await sessionService.rotateRefreshToken('token-1');
+
+    expect(reused).toBeNull();
+    expect(session.revokedAt).toEqual(expect.any(Date));
+    expect(session.revokedReason).toBe('security');
+  });
+
+  it('signs out the holder of the current token too once reuse is detected', async () => {
+    jest.useFakeTimers({ now: new Date('2026-05-01T10:00:00Z') });
+    store.add('token-1');
+    const { refreshToken } = await sessionService.rotateRefreshToken('token-1');
+
+    jest.setSystemTime(new Date('2026-05-01T10:01:00Z'));
+    await sessionService.rotateRefreshToken('token-1');
+
+    await expect(sessionService.rotateRefreshToken(refreshToken)).resolves.toBeNull();
+  });
+
+  it('rejects tokens of revoked or expired sessions', async () => {
+    store.add('revoked', { revokedAt: new Date() });
+    store.add('expired', { expiresAt: new Date(Date.now() - 1000) });
+
+    await expect(sessionService.rotateRefreshToken('revoked')).resolves.toBeNull();
+    await expect(sessionService.rotateRefreshToken('expired')).resolves.toBeNull();
+  });
+
+  it('rejects unknown and missing tokens', async () => {
+    store.add('token-1');
+
+    await expect(sessionService.rotateRefreshToken('someone-elses-guess')).resolves.toBeNull();
+    await expect(sessionService.rotateRefreshToken(undefined)).resolves.toBeNull();
+  });
+});
@@ -0,0 +1,78 @@
+const { Writable } = require('stream');
+const { createReportWriter, parseReportFormat } = require('../utils/spreadsheet');
+
+// A response whose client never reads, so the buffer fills after the first row
+const createStalledResponse = () => {
+  const res = new Writable({ highWaterMark: 16, write() {} });
+  res.setHeader = jest.fn();
+  return res;
+};
+
+const createCsvWriter = (res) => createReportWriter(res, {
+  format: 'csv',
+  fileName: 'users',
+  sheetName: 'Users',
+  columns: [{ header: 'Name', key: 'name' }]
+});
+
+describe('createReportWriter', () => {
+  it('stops waiting for the client when the download is closed', async () => {
+    const res = createStalledResponse();
+    const writer = createCsvWriter(res);
+
+    const pending = writer.addRow({ name: 'a name long enough to fill the buffer' });
+    res.destroy();
+
+    await expect(pending).rejects.toMatchObject({ name: 'ReportAbortedError' });
+    await expect(writer.addRow({ name: 'next' })).rejects.toMatchObject({ name: 'ReportAbortedError' });
+  });
+
+  it('passes on response errors while waiting', async () => {
+    const res = createStalledResponse();
+    const writer = createCsvWriter(res);
+
+    const pending = writer.addRow({ name: 'a name long enough to fill the buffer' });
+    res.destroy(new Error('socket hang up'));
+
+    await expect(pending).rejects.toThrow('socket hang up');
+  });
+
+  it('ends the cursor loop of an export when the download is closed', async () => {
+    const res = createStalledResponse();
+    const writer = createCsvWriter(res);
+    const closeCursor = jest.fn();
+    async function* cursor() {
+      try {
+        for (let i = 0; ; i++) yield { name: `student number ${i}` };
+      } finally {
+        closeCursor();
+      }
+    }
+
+    setImmediate(() => res.destroy());
+    const rows = (async () => {
+      for await (const row of cursor()) {
+        await writer.addRow(row);
+      }
+    })();
+
+    await expect(rows).rejects.toMatchObject({ name: 'ReportAbortedError' });
+    expect(closeCursor).toHaveBeenCalled();
+  });
+
+  it('sets the download headers for the format', () => {
+    const res = createStalledResponse();
+    createCsvWriter(res);
+
+    expect(res.setHeader).toHaveBeenCalledWith('Content-Type', 'text/csv; charset=utf-8');
+    expect(res.setHeader).toHaveBeenCalledWith('Content-Disposition', expect.stringMatching(/^attachment; filename="users-\d{4}-\d{2}-\d{2}\.csv"$/));
+  });
+});
+
+describe('parseReportFormat', () => {
+  it('defaults to csv and rejects unknown formats', () => {
+    expect(parseReportFormat(undefined)).toBe('csv');
+    expect(parseReportFormat('XLSX')).toBe('xlsx');
+    expect(parseReportFormat('pdf')).toBeNull();
+  });
+});
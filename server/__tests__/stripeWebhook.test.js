@@ -0,0 +1,75 @@
+// Stripe webhook verification with a configured key (the unsigned fallback path)
+const WEBHOOK_SECRET = 'whsec_test_secret';
+
+const loadStripeUtils = () => {
+  let utils;
+  jest.isolateModules(() => {
+    utils = require('../utils/stripe');
+  });
+  return utils;
+};
+
+const buildEvent = (type, object) => ({
+  id: 'evt_1',
+  object: 'event',
+  type,
+  data: { object }
+});
+
+describe('verifyWebhook', () => {
+  const originalEnv = { ...process.env };
+  let stripe;
+  let verifyWebhook;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    process.env.STRIPE_SECRET_KEY = 'sk_test_123';
+    process.env.STRIPE_WEBHOOK_SECRET = WEBHOOK_SECRET;
+    process.env.NODE_ENV = 'test';
+    ({ stripe, verifyWebhook } = loadStripeUtils());
+  });
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+    jest.restoreAllMocks();
+  });
+
+  const unsignedRequest = (event) => ({
+    headers: { 'stripe-signature': 't=1,v1=forged' },
+    body: Buffer.from(JSON.stringify(event))
+  });
+
+  it('accepts a correctly signed event', () => {
+    const payload = JSON.stringify(buildEvent('customer.subscription.updated', { id: 'sub_1', status: 'active' }));
+    const signature = stripe.webhooks.generateTestHeaderString({ payload, secret: WEBHOOK_SECRET });
+
+    const event = verifyWebhook({ headers: { 'stripe-signature': signature }, body: Buffer.from(payload) });
+
+    expect(event.type).toBe('customer.subscription.updated');
+  });
+
+  it.each([
+    'customer.subscription.created',
+    'customer.subscription.updated',
+    'customer.subscription.deleted',
+    'charge.refunded',
+    'charge.dispute.created',
+    'charge.dispute.closed'
+  ])('rejects an unsigned %s event', (type) => {
+    const event = buildEvent(type, {
+      id: 'obj_1',
+      status: 'active',
+      metadata: { userId: '64b7f0c2a1b2c3d4e5f60701' },
+      current_period_end: 4102444800
+    });
+
+    expect(() => verifyWebhook(unsignedRequest(event))).toThrow();
+  });
+
+  it('requires a signature header', () => {
+    const event = buildEvent('customer.subscription.updated', { id: 'sub_1' });
+
+    expect(() => verifyWebhook({ headers: {}, body: Buffer.from(JSON.stringify(event)) })).toThrow('No Stripe signature found');
+  });
+});
@@ -0,0 +1,143 @@
+jest.mock('../utils/stripe', () => ({ stripe: { subscriptions: { retrieve: jest.fn() } } }));
+
+const { stripe } = require('../utils/stripe');
+const Subscription = require('../models/Subscription');
+const User = require('../models/User');
+const subscriptionService = require('../services/subscriptionService');
+
+const USER_ID = '64b7f0c2a1b2c3d4e5f60701';
+const DAY_SECONDS = 24 * 60 * 60;
+const nowSeconds = () => Math.floor(Date.now() / 1000);
+
+// A Stripe subscription object as the API returns it
+const buildStripeSubscription = (fields = {}) => ({
+  id: 'sub_1',
+  customer: 'cus_1',
+  status: 'active',
+  metadata: { userId: USER_ID, plan: 'yearly' },
+  current_period_start: nowSeconds() - DAY_SECONDS,
+  current_period_end: nowSeconds() + 30 * DAY_SECONDS,
+  cancel_at_period_end: false,
+  canceled_at: null,
+  ended_at: null,
+  ...fields
+});
+
+describe('subscriptionService', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(Subscription, 'findOne').mockResolvedValue(null);
+    jest.spyOn(Subscription.prototype, 'save').mockImplementation(function() {
+      return Promise.resolve(this);
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    stripe.subscriptions.retrieve.mockReset();
+  });
+
+  describe('syncSubscription', () => {
+    it('creates a membership for the user named in the metadata', async () => {
+      const subscription = await subscriptionService.syncSubscription(buildStripeSubscription());
+
+      expect(subscription.userId.toString()).toBe(USER_ID);
+      expect(subscription.plan).toBe('yearly');
+      expect(subscription.stripeSubscriptionId).toBe('sub_1');
+      expect(subscription.stripeCustomerId).toBe('cus_1');
+      expect(subscription.grantsAccess()).toBe(true);
+    });
+
+    it('finds the user by Stripe customer when the metadata has none', async () => {
+      const select = jest.fn().mockResolvedValue({ _id: USER_ID });
+      jest.spyOn(User, 'findOne').mockReturnValue({ select });
+
+      const subscription = await subscriptionService.syncSubscription(buildStripeSubscription({ metadata: {} }));
+
+      expect(User.findOne).toHaveBeenCalledWith({ stripeCustomerId: 'cus_1' });
+      expect(subscription.userId.toString()).toBe(USER_ID);
+      expect(subscription.plan).toBe('monthly');
+    });
+
+    it('skips subscriptions that cannot be matched to a user', async () => {
+      jest.spyOn(User, 'findOne').mockReturnValue({ select: jest.fn().mockResolvedValue(null) });
+
+      await expect(subscriptionService.syncSubscription(buildStripeSubscription({ metadata: {} }))).resolves.toBeNull();
+      expect(Subscription.prototype.save).not.toHaveBeenCalled();
+    });
+
+    it('reads the billing period from the subscription item on newer API versions', async () => {
+      const end = nowSeconds() + 10 * DAY_SECONDS;
+      const subscription = await subscriptionService.syncSubscription(buildStripeSubscription({
+        current_period_start: undefined,
+        current_period_end: undefined,
+        items: { data: [{ current_period_start: nowSeconds(), current_period_end: end }] }
+      }));
+
+      expect(subscription.currentPeriodEnd).toEqual(new Date(end * 1000));
+    });
+
+    it.each([
+      ['active', true],
+      ['trialing', true],
+      ['past_due', true],
+      ['canceled', false],
+      ['unpaid', false],
+      ['incomplete', false],
+      ['paused', false]
+    ])('a %s subscription grants access: %p', async (status, grantsAccess) => {
+      const subscription = await subscriptionService.syncSubscription(buildStripeSubscription({ status }));
+
+      expect(subscription.grantsAccess()).toBe(grantsAccess);
+    });
+
+    it('stops granting access once the paid period has ended', async () => {
+      const subscription = await subscriptionService.syncSubscription(buildStripeSubscription({
+        current_period_end: nowSeconds() - 60
+      }));
+
+      expect(subscription.grantsAccess()).toBe(false);
+    });
+
+    it('keeps access until the period ends when cancelled at period end', async () => {
+      const subscription = await subscriptionService.syncSubscription(buildStripeSubscription({
+        cancel_at_period_end: true,
+        canceled_at: nowSeconds()
+      }));
+
+      expect(subscription.cancelAtPeriodEnd).toBe(true);
+      expect(subscription.grantsAccess()).toBe(true);
+    });
+
+    it('updates the existing membership instead of creating another', async () => {
+      const existing = new Subscription({ userId: USER_ID, plan: 'monthly', stripeSubscriptionId: 'sub_1', status: 'active' });
+      Subscription.findOne.mockResolvedValue(existing);
+
+      const subscription = await subscriptionService.syncSubscription(buildStripeSubscription({
+        status: 'canceled',
+        ended_at: nowSeconds(),
+        metadata: { userId: '64b7f0c2a1b2c3d4e5f60799', plan: 'yearly' }
+      }));
+
+      expect(subscription).toBe(existing);
+      expect(subscription.userId.toString()).toBe(USER_ID);
+      expect(subscription.plan).toBe('monthly');
+      expect(subscription.grantsAccess()).toBe(false);
+    });
+  });
+
+  describe('handleSubscriptionChanged', () => {
+    it("syncs Stripe's copy of the subscription, not the event body", async () => {
+      stripe.subscriptions.retrieve.mockResolvedValue(buildStripeSubscription({ status: 'canceled' }));
+
+      const subscription = await subscriptionService.handleSubscriptionChanged(buildStripeSubscription({
+        status: 'active',
+        current_period_end: nowSeconds() + 3650 * DAY_SECONDS
+      }));
+
+      expect(stripe.subscriptions.retrieve).toHaveBeenCalledWith('sub_1');
+      expect(subscription.status).toBe('canceled');
+      expect(subscription.grantsAccess()).toBe(false);
+    });
+  });
+});
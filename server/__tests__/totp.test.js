@@ -0,0 +1,98 @@
+const {
+  generateHotp,
+  verifyTotp,
+  getTimeStep,
+  generateSecret,
+  buildOtpauthUrl,
+  base32Encode,
+  base32Decode
+} = require('../utils/totp');
+
+// Shared secret from the RFC 4226 and RFC 6238 test vectors (SHA-1)
+const RFC_SECRET = base32Encode(Buffer.from('12345678901234567890', 'ascii'));
+
+describe('totp', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('base32', () => {
+    it('round-trips random bytes', () => {
+      const bytes = Buffer.from('0123456789abcdef0123', 'hex');
+      expect(base32Decode(base32Encode(bytes))).toEqual(bytes);
+    });
+
+    it('ignores case, spaces and padding', () => {
+      expect(base32Decode('mzxw 6ytb oi======')).toEqual(Buffer.from('foobar'));
+    });
+
+    it('rejects characters outside the alphabet', () => {
+      expect(() => base32Decode('ABC1')).toThrow('Invalid base32 character in secret');
+    });
+
+    it('generates 160-bit secrets', () => {
+      expect(base32Decode(generateSecret())).toHaveLength(20);
+    });
+  });
+
+  describe('generateHotp', () => {
+    it('matches the RFC 4226 test vectors', () => {
+      const expected = ['755224', '287082', '359152', '969429', '338314', '254676', '287922', '162583', '399871', '520489'];
+      expected.forEach((code, counter) => {
+        expect(generateHotp(RFC_SECRET, counter)).toBe(code);
+      });
+    });
+
+    // RFC 6238 lists 8-digit codes; 6-digit codes are their last six digits
+    it.each([
+      [59, '287082'],
+      [1111111109, '081804'],
+      [1111111111, '050471'],
+      [1234567890, '005924'],
+      [2000000000, '279037'],
+      [20000000000, '353130']
+    ])('matches the RFC 6238 test vector at %i seconds', (seconds, code) => {
+      expect(generateHotp(RFC_SECRET, getTimeStep(seconds * 1000))).toBe(code);
+    });
+  });
+
+  describe('verifyTotp', () => {
+    beforeEach(() => {
+      jest.useFakeTimers({ now: 1111111111 * 1000 });
+    });
+
+    it('returns the matching time step', () => {
+      expect(verifyTotp(RFC_SECRET, '050471')).toBe(getTimeStep());
+    });
+
+    it('accepts one step of clock drift either side', () => {
+      const step = getTimeStep();
+      expect(verifyTotp(RFC_SECRET, generateHotp(RFC_SECRET, step - 1))).toBe(step - 1);
+      expect(verifyTotp(RFC_SECRET, generateHotp(RFC_SECRET, step + 1))).toBe(step + 1);
+    });
+
+    it('rejects codes outside the window', () => {
+      expect(verifyTotp(RFC_SECRET, generateHotp(RFC_SECRET, getTimeStep() - 2))).toBeNull();
+    });
+
+    it('ignores spaces in the entered code', () => {
+      expect(verifyTotp(RFC_SECRET, '050 471')).toBe(getTimeStep());
+    });
+
+    it('rejects malformed codes', () => {
+      expect(verifyTotp(RFC_SECRET, '')).toBeNull();
+      expect(verifyTotp(RFC_SECRET, '05047')).toBeNull();
+      expect(verifyTotp(RFC_SECRET, 'abcdef')).toBeNull();
+    });
+  });
+
+  describe('buildOtpauthUrl', () => {
+    it('encodes the label and authenticator settings', () => {
+      const url = buildOtpauthUrl({ secret: 'JBSWY3DPEHPK3PXP', accountName: 'ada@example.com', issuer: 'Ibyet Investing' });
+      expect(url).toBe(
+        'otpauth://totp/Ibyet%20Investing%3Aada%40example.com'
+        + '?secret=JBSWY3DPEHPK3PXP&issuer=Ibyet+Investing&algorithm=SHA1&digits=6&period=30'
+      );
+    });
+  });
+});
@@ -0,0 +1,60 @@
+/**
+ * Admin panel roles. The environment admin (ADMIN_EMAIL) is always a super admin;
+ * staff accounts are regular users with `adminRole` set, which also makes their `role` 'admin'.
+ */
+const PERMISSIONS = {
+  CONTENT_MANAGE: 'content:manage', // Courses, bundles, videos, materials, quizzes, reviews, announcements
+  COURSES_OWN: 'courses:own', // Only the courses the admin is assigned to as an instructor
+  USERS_VIEW: 'users:view',
+  USERS_MANAGE: 'users:manage', // Edit profiles, suspend/activate, grant and revoke course access, revoke and reissue certificates
+  USERS_DELETE: 'users:delete',
+  PAYMENTS_VIEW: 'payments:view', // Payments and receipts
+  PAYMENTS_REFUND: 'payments:refund',
+  COUPONS_MANAGE: 'coupons:manage',
+  ROLES_MANAGE: 'roles:manage',
+  AUDIT_VIEW: 'audit:view' // Audit trail viewer and export
+};
+
+const ADMIN_ROLES = {
+  super_admin: {
+    id: 'super_admin',
+    name: 'Super Admin',
+    permissions: Object.values(PERMISSIONS)
+  },
+  content_editor: {
+    id: 'content_editor',
+    name: 'Content Editor',
+    permissions: [PERMISSIONS.CONTENT_MANAGE]
+  },
+  support: {
+    id: 'support',
+    name: 'Support Agent',
+    permissions: [PERMISSIONS.USERS_VIEW, PERMISSIONS.USERS_MANAGE]
+  },
+  finance: {
+    id: 'finance',
+    name: 'Finance',
+    permissions: [PERMISSIONS.USERS_VIEW, PERMISSIONS.PAYMENTS_VIEW]
+  },
+  instructor: {
+    id: 'instructor',
+    name: 'Instructor',
+    permissions: [PERMISSIONS.COURSES_OWN]
+  }
+};
+
+/**
+ * Look up a role by id
+ * @param {string} roleId
+ * @returns {Object|null}
+ */
+const getAdminRole = (roleId) => ADMIN_ROLES[roleId] || null;
+
+/**
+ * Permissions granted to a role (none for unknown roles)
+ * @param {string} roleId
+ * @returns {string[]}
+ */
+const getPermissions = (roleId) => getAdminRole(roleId)?.permissions || [];
+
+module.exports = { PERMISSIONS, ADMIN_ROLES, getAdminRole, getPermissions };
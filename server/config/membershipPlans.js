@@ -0,0 +1,30 @@
+/**
+ * Membership plans that unlock every course while the subscription is active.
+ * Prices are in USD. Set STRIPE_PRICE_MONTHLY / STRIPE_PRICE_YEARLY to bill against
+ * prices created in the Stripe dashboard; otherwise the price is sent inline at checkout.
+ */
+const MEMBERSHIP_PLANS = {
+  monthly: {
+    id: 'monthly',
+    name: { en: 'Monthly Membership', tg: 'ወርሓዊ ኣባልነት' },
+    interval: 'month',
+    price: Number(process.env.MEMBERSHIP_MONTHLY_PRICE) || 19,
+    stripePriceId: process.env.STRIPE_PRICE_MONTHLY || null
+  },
+  yearly: {
+    id: 'yearly',
+    name: { en: 'Yearly Membership', tg: 'ዓመታዊ ኣባልነት' },
+    interval: 'year',
+    price: Number(process.env.MEMBERSHIP_YEARLY_PRICE) || 190,
+    stripePriceId: process.env.STRIPE_PRICE_YEARLY || null
+  }
+};
+
+/**
+ * Look up a plan by id ('monthly' | 'yearly')
+ * @param {string} planId
+ * @returns {Object|null}
+ */
+const getPlan = (planId) => MEMBERSHIP_PLANS[planId] || null;
+
+module.exports = { MEMBERSHIP_PLANS, getPlan };
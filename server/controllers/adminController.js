@@ -1,12 +1,16 @@
 const bcrypt = require('bcryptjs');
 const jwt = require('jsonwebtoken');
+const User = require('../models/User');
+const twoFactorService = require('../services/twoFactorService');
+const { getPermissions } = require('../config/adminRoles');
 
-// Generate admin JWT token
-const generateAdminToken = () => {
+// Generate admin JWT token (staff tokens also identify the user so their role can be re-checked)
+const generateAdminToken = (staff = null) => {
   return jwt.sign(
     { 
       role: 'admin',
-      type: 'admin'
+      type: 'admin',
+      ...(staff && { userId: staff._id.toString(), tokenVersion: staff.tokenVersion })
     }, 
     process.env.JWT_SECRET, 
     { expiresIn: '24h' }
@@ -32,6 +36,15 @@ const validateAdminCredentials = async (email, password) => {
   return isPasswordValid;
 };
 
+// Validate a staff member (user with an admin role) signing in with their own password
+const validateStaffCredentials = async (email, password) => {
+  const staff = await User.findOne({ email, adminRole: { $ne: null }, authProvider: 'local' });
+  if (!staff || !(await staff.comparePassword(password))) {
+    return null;
+  }
+  return staff;
+};
+
 exports.adminLogin = async (req, res) => {
   try {
     const { email, password } = req.body;
@@ -58,27 +71,41 @@ exports.adminLogin = async (req, res) => {
       });
     }
 
-    // Validate admin credentials
-    const isValid = await validateAdminCredentials(email, password);
-    
-    if (!isValid) {
-      return res.status(401).json({ 
-        message: 'Invalid admin credentials' 
-      });
+    // The environment admin signs in with the configured credentials, staff with their user account
+    let account;
+    let challengeSubject;
+    if (email === process.env.ADMIN_EMAIL) {
+      const isValid = await validateAdminCredentials(email, password);
+      if (!isValid) {
+        return res.status(401).json({ 
+          message: 'Invalid admin credentials' 
+        });
+      }
+      account = await twoFactorService.loadAdminAccount();
+      challengeSubject = { admin: true };
+    } else {
+      const staff = await validateStaffCredentials(email, password);
+      if (!staff) {
+        return res.status(401).json({ 
+          message: 'Invalid admin credentials' 
+        });
+      }
+      if (staff.status !== 'active') {
+        return res.status(403).json({ 
+          message: 'Account is not active' 
+        });
+      }
+      account = staff;
+      challengeSubject = { admin: true, userId: staff._id.toString() };
     }
 
-    // Generate admin token
-    const adminToken = generateAdminToken();
-
+    // Two-factor is mandatory for the admin panel: the token is only issued after the second step
     res.json({
       success: true,
-      message: 'Admin login successful',
-      token: adminToken,
-      user: {
-        email: email,
-        role: 'admin',
-        type: 'admin'
-      }
+      message: 'Password accepted, verification code required',
+      twoFactorRequired: true,
+      setupRequired: !account.twoFactor?.enabled,
+      twoFactorToken: twoFactorService.issueChallengeToken(challengeSubject)
     });
 
   } catch (error) {
@@ -88,4 +115,116 @@ exports.adminLogin = async (req, res) => {
       error: process.env.NODE_ENV === 'development' ? error.message : undefined
     });
   }
-}; 
\ No newline at end of file
+}; 
+
+// Admin session returned once the second step passes
+const buildAdminLoginResponse = (account) => {
+  const staff = account.adminRole ? account : null;
+  const adminRole = staff ? staff.adminRole : 'super_admin';
+
+  return {
+    success: true,
+    message: 'Admin login successful',
+    token: generateAdminToken(staff),
+    user: {
+      email: staff ? staff.email : process.env.ADMIN_EMAIL,
+      role: 'admin',
+      type: 'admin',
+      adminRole,
+      permissions: getPermissions(adminRole),
+      userId: staff ? staff._id : null
+    }
+  };
+};
+
+// Resolve the security record behind a login challenge token: a staff user or the environment admin
+const getChallengedAdminAccount = async (twoFactorToken) => {
+  const { userId } = await twoFactorService.verifyChallengeToken(twoFactorToken, true);
+  return userId ? twoFactorService.loadStaffAccount(userId) : twoFactorService.loadAdminAccount();
+};
+
+const sendTwoFactorError = (res, error, fallbackMessage) => {
+  if (error.name === 'TwoFactorError') {
+    return res.status(error.status).json({ message: error.message });
+  }
+  res.status(500).json({
+    message: fallbackMessage,
+    error: process.env.NODE_ENV === 'development' ? error.message : undefined
+  });
+};
+
+// Second admin login step with an authenticator or recovery code
+exports.verifyTwoFactorLogin = async (req, res) => {
+  try {
+    const { twoFactorToken, code } = req.body;
+    if (!twoFactorToken || !code) {
+      return res.status(400).json({ message: 'Verification code is required' });
+    }
+
+    const account = await getChallengedAdminAccount(twoFactorToken);
+    const method = await twoFactorService.verifyCode(account, code);
+    await twoFactorService.consumeChallengeToken(twoFactorToken);
+
+    console.log(`✅ Admin ${account.email} logged in with two-factor (${method})`);
+    res.json({
+      ...buildAdminLoginResponse(account),
+      recoveryCodesRemaining: account.twoFactor.recoveryCodes.length
+    });
+  } catch (error) {
+    console.error('Admin two-factor login error:', error);
+    sendTwoFactorError(res, error, 'Internal server error during admin login');
+  }
+};
+
+// First admin login: generate the authenticator QR code
+exports.beginTwoFactorSetup = async (req, res) => {
+  try {
+    const { twoFactorToken } = req.body;
+    if (!twoFactorToken) {
+      return res.status(400).json({ message: 'Sign-in session is required' });
+    }
+
+    const account = await getChallengedAdminAccount(twoFactorToken);
+    const setup = await twoFactorService.beginSetup(account);
+
+    res.json({ success: true, ...setup });
+  } catch (error) {
+    console.error('Admin two-factor setup error:', error);
+    sendTwoFactorError(res, error, 'Failed to start two-factor setup');
+  }
+};
+
+// First admin login: confirm the authenticator and sign in
+exports.confirmTwoFactorSetup = async (req, res) => {
+  try {
+    const { twoFactorToken, code } = req.body;
+    if (!twoFactorToken || !code) {
+      return res.status(400).json({ message: 'Verification code is required' });
+    }
+
+    const account = await getChallengedAdminAccount(twoFactorToken);
+    const recoveryCodes = await twoFactorService.confirmSetup(account, code);
+    await twoFactorService.consumeChallengeToken(twoFactorToken);
+
+    console.log(`✅ Admin two-factor enabled for ${account.email}`);
+    res.json({ ...buildAdminLoginResponse(account), recoveryCodes });
+  } catch (error) {
+    console.error('Admin two-factor enable error:', error);
+    sendTwoFactorError(res, error, 'Failed to enable two-factor authentication');
+  }
+};
+
+// Replace the admin recovery codes (requires a current code)
+exports.regenerateRecoveryCodes = async (req, res) => {
+  try {
+    const account = req.admin.userId
+      ? await twoFactorService.loadStaffAccount(req.admin.userId)
+      : await twoFactorService.loadAdminAccount();
+    const recoveryCodes = await twoFactorService.regenerateRecoveryCodes(account, req.body.code);
+
+    res.json({ success: true, recoveryCodes });
+  } catch (error) {
+    console.error('Admin recovery codes error:', error);
+    sendTwoFactorError(res, error, 'Failed to generate recovery codes');
+  }
+};
@@ -0,0 +1,491 @@
+const mongoose = require('mongoose');
+const Payment = require('../models/Payment');
+const Course = require('../models/Course');
+const Bundle = require('../models/Bundle');
+const CourseView = require('../models/CourseView');
+const Progress = require('../models/Progress');
+const Video = require('../models/Video');
+const User = require('../models/User');
+const { getEnglishText } = require('../utils/bilingualHelper');
+const { DEFAULT_CURRENCY, normalizeCurrency } = require('../utils/currency');
+
+// Payments that were actually charged; refunds and disputes still count as orders
+const SALE_STATUSES = ['completed', 'partially_refunded', 'refunded', 'disputed'];
+const INTERVALS = ['day', 'week', 'month'];
+const DEFAULT_RANGE_DAYS = 30;
+const MAX_BUCKETS = 400;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const BARE_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Start of the day/week (Monday)/month containing `date`, in UTC
+ */
+const startOfPeriod = (date, interval) => {
+  const start = new Date(date);
+  start.setUTCHours(0, 0, 0, 0);
+  if (interval === 'week') {
+    start.setUTCDate(start.getUTCDate() - ((start.getUTCDay() + 6) % 7));
+  } else if (interval === 'month') {
+    start.setUTCDate(1);
+  }
+  return start;
+};
+
+const nextPeriod = (date, interval) => {
+  const next = new Date(date);
+  if (interval === 'month') {
+    next.setUTCMonth(next.getUTCMonth() + 1);
+  } else {
+    next.setUTCDate(next.getUTCDate() + (interval === 'week' ? 7 : 1));
+  }
+  return next;
+};
+
+/**
+ * Parse ?from=&to=&interval= (dates as YYYY-MM-DD, inclusive). Defaults to the last 30 days by day.
+ * @returns {{ from: Date, to: Date, interval: string }|{ error: string }}
+ */
+const parseRange = ({ from, to, interval = 'day' }) => {
+  if (!INTERVALS.includes(interval)) {
+    return { error: `Interval must be one of: ${INTERVALS.join(', ')}` };
+  }
+
+  const toDate = to ? new Date(to) : new Date();
+  if (isNaN(toDate)) return { error: 'Invalid end date' };
+  if (!to || BARE_DATE.test(to)) toDate.setUTCHours(23, 59, 59, 999);
+
+  const fromDate = from ? new Date(from) : new Date(toDate.getTime() - (DEFAULT_RANGE_DAYS - 1) * DAY_MS);
+  if (isNaN(fromDate)) return { error: 'Invalid start date' };
+  if (!from || BARE_DATE.test(from)) fromDate.setUTCHours(0, 0, 0, 0);
+
+  if (fromDate > toDate) return { error: 'Start date must be before end date' };
+
+  return { from: fromDate, to: toDate, interval };
+};
+
+/**
+ * Every period between `from` and `to`, so days without sales still show up on the chart
+ */
+const listPeriods = (from, to, interval) => {
+  const periods = [];
+  for (let period = startOfPeriod(from, interval); period <= to; period = nextPeriod(period, interval)) {
+    periods.push(period);
+    if (periods.length > MAX_BUCKETS) return null;
+  }
+  return periods;
+};
+
+const round2 = (value) => Math.round((value || 0) * 100) / 100;
+const ratio = (part, whole) => (whole > 0 ? part / whole : 0);
+
+// $group accumulators for the money figures of orders in the selected currency
+const revenueFields = (currency) => {
+  const inCurrency = (value) => ({ $cond: [{ $eq: ['$currency', currency] }, value, 0] });
+  return {
+    grossRevenue: { $sum: inCurrency('$amount') },
+    refundedAmount: { $sum: inCurrency({ $ifNull: ['$refundedAmount', 0] }) },
+    orders: { $sum: inCurrency(1) }
+  };
+};
+
+const toRevenue = (row = {}) => ({
+  grossRevenue: round2(row.grossRevenue),
+  refundedAmount: round2(row.refundedAmount),
+  netRevenue: round2((row.grossRevenue || 0) - (row.refundedAmount || 0)),
+  orders: row.orders || 0
+});
+
+/**
+ * Revenue and sales analytics
+ * GET /api/admin/analytics/revenue?from=YYYY-MM-DD&to=YYYY-MM-DD&interval=day|week|month&currency=usd
+ *
+ * Money figures are for one currency at a time (there are no exchange rates to combine them).
+ * Refunds are attributed to the period of the original order. Conversion compares course page
+ * views with purchases of that course in any currency.
+ */
+const getRevenueAnalytics = async (req, res) => {
+  try {
+    const range = parseRange(req.query);
+    if (range.error) {
+      return res.status(400).json({ success: false, message: range.error });
+    }
+    const { from, to, interval } = range;
+
+    const periods = listPeriods(from, to, interval);
+    if (!periods) {
+      return res.status(400).json({
+        success: false,
+        message: `Date range too long for a ${interval === 'day' ? 'daily' : `${interval}ly`} breakdown; choose a wider interval`
+      });
+    }
+
+    const currency = req.query.currency ? normalizeCurrency(req.query.currency) : DEFAULT_CURRENCY;
+    if (!currency) {
+      return res.status(400).json({ success: false, message: 'Unsupported currency' });
+    }
+
+    const [result] = await Payment.aggregate([
+      { $match: { status: { $in: SALE_STATUSES }, createdAt: { $gte: from, $lte: to } } },
+      {
+        $facet: {
+          currencies: [
+            { $group: { _id: '$currency', orders: { $sum: 1 } } },
+            { $sort: { orders: -1 } }
+          ],
+          summary: [
+            {
+              $group: {
+                _id: null,
+                ...revenueFields(currency),
+                refundedOrders: {
+                  $sum: { $cond: [{ $and: [{ $eq: ['$currency', currency] }, { $gt: ['$refundedAmount', 0] }] }, 1, 0] }
+                }
+              }
+            }
+          ],
+          timeline: [
+            {
+              $group: {
+                _id: { $dateTrunc: { date: '$createdAt', unit: interval, startOfWeek: 'monday', timezone: 'UTC' } },
+                ...revenueFields(currency)
+              }
+            }
+          ],
+          courses: [
+            { $match: { courseId: { $ne: null }, bundleId: null } },
+            { $group: { _id: '$courseId', purchases: { $sum: 1 }, ...revenueFields(currency) } }
+          ],
+          bundles: [
+            { $match: { bundleId: { $ne: null } } },
+            { $group: { _id: '$bundleId', purchases: { $sum: 1 }, ...revenueFields(currency) } }
+          ]
+        }
+      }
+    ]);
+
+    const viewRows = await CourseView.aggregate([
+      { $match: { date: { $gte: startOfPeriod(from, 'day'), $lte: to } } },
+      { $group: { _id: '$courseId', views: { $sum: '$views' } } }
+    ]);
+    const viewsByCourse = new Map(viewRows.map(row => [row._id.toString(), row.views]));
+
+    // Titles for every course that was viewed or sold, and every bundle sold
+    const courseIds = [...new Set([...viewsByCourse.keys(), ...result.courses.map(row => row._id.toString())])];
+    const [courses, bundles] = await Promise.all([
+      Course.find({ _id: { $in: courseIds } }).select('title').lean(),
+      Bundle.find({ _id: { $in: result.bundles.map(row => row._id) } }).select('title').lean()
+    ]);
+    const courseTitles = new Map(courses.map(course => [course._id.toString(), getEnglishText(course.title)]));
+    const bundleTitles = new Map(bundles.map(bundle => [bundle._id.toString(), getEnglishText(bundle.title)]));
+
+    const salesByCourse = new Map(result.courses.map(row => [row._id.toString(), row]));
+    const courseStats = courseIds
+      .map(courseId => {
+        const sales = salesByCourse.get(courseId) || {};
+        const views = viewsByCourse.get(courseId) || 0;
+        const purchases = sales.purchases || 0;
+        return {
+          courseId,
+          title: courseTitles.get(courseId) || 'Deleted course',
+          ...toRevenue(sales),
+          purchases,
+          views,
+          conversionRate: ratio(purchases, views)
+        };
+      })
+      .sort((a, b) => b.netRevenue - a.netRevenue || b.purchases - a.purchases || b.views - a.views);
+
+    const bundleStats = result.bundles
+      .map(row => ({
+        bundleId: row._id.toString(),
+        title: bundleTitles.get(row._id.toString()) || 'Deleted bundle',
+        ...toRevenue(row),
+        purchases: row.purchases
+      }))
+      .sort((a, b) => b.netRevenue - a.netRevenue || b.purchases - a.purchases);
+
+    const timelineByPeriod = new Map(result.timeline.map(row => [row._id.getTime(), row]));
+    const timeline = periods.map(period => ({
+      period: period.toISOString().slice(0, 10),
+      ...toRevenue(timelineByPeriod.get(period.getTime()))
+    }));
+
+    const summaryRow = result.summary[0] || {};
+    const summary = toRevenue(summaryRow);
+    const totalViews = viewRows.reduce((sum, row) => sum + row.views, 0);
+    const coursePurchases = result.courses.reduce((sum, row) => sum + row.purchases, 0);
+
+    res.json({
+      success: true,
+      data: {
+        range: { from, to, interval, currency },
+        currencies: result.currencies.map(row => ({ currency: row._id, orders: row.orders })),
+        summary: {
+          ...summary,
+          averageOrderValue: round2(ratio(summary.grossRevenue, summary.orders)),
+          refundedOrders: summaryRow.refundedOrders || 0,
+          refundRate: ratio(summaryRow.refundedOrders || 0, summary.orders),
+          courseViews: totalViews,
+          coursePurchases,
+          conversionRate: ratio(coursePurchases, totalViews)
+        },
+        timeline,
+        courses: courseStats,
+        bundles: bundleStats
+      }
+    });
+  } catch (error) {
+    console.error('❌ Revenue analytics error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to load revenue analytics',
+      error: error.message
+    });
+  }
+};
+
+const DEFAULT_INACTIVE_DAYS = 14;
+const MAX_INACTIVE_LISTED = 100;
+const DROP_OFF_STEP = 5; // Percent of the video between drop-off points
+const REWATCH_SEGMENTS = 20;
+const MIN_SEGMENT_SECONDS = 5;
+const REWIND_TOLERANCE_SECONDS = 2; // Ignore small seeks back from buffering or resume
+
+const average = (values) => (values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null);
+
+/**
+ * Lesson funnel, time to complete and inactive students for one course
+ * GET /api/admin/analytics/courses/:courseId/engagement?inactiveDays=14
+ *
+ * The funnel follows the lessons of the course's current version. A student has completed the
+ * course once every one of those lessons is completed; time to complete runs from their first
+ * lesson view to their last lesson completion.
+ */
+const getCourseEngagement = async (req, res) => {
+  try {
+    const { courseId } = req.params;
+    if (!mongoose.isValidObjectId(courseId)) {
+      return res.status(400).json({ success: false, message: 'Invalid course ID' });
+    }
+
+    const inactiveDays = Math.min(Math.max(parseInt(req.query.inactiveDays) || DEFAULT_INACTIVE_DAYS, 1), 365);
+
+    const course = await Course.findById(courseId).select('title currentVersion enrolledStudents').lean();
+    if (!course) {
+      return res.status(404).json({ success: false, message: 'Course not found' });
+    }
+
+    const courseObjectId = new mongoose.Types.ObjectId(courseId);
+    const [videos, lessonRows, studentRows] = await Promise.all([
+      Video.find({ courseId, courseVersion: course.currentVersion || 1, status: { $ne: 'deleted' } })
+        .select('title order duration')
+        .sort({ order: 1 })
+        .lean(),
+      Progress.aggregate([
+        { $match: { courseId: courseObjectId } },
+        {
+          $group: {
+            _id: '$videoId',
+            started: { $sum: 1 },
+            completed: { $sum: { $cond: ['$isCompleted', 1, 0] } },
+            completionMs: {
+              $avg: {
+                $cond: [
+                  { $and: ['$isCompleted', '$completedAt', '$firstWatchedAt'] },
+                  { $subtract: ['$completedAt', '$firstWatchedAt'] },
+                  null
+                ]
+              }
+            }
+          }
+        }
+      ]),
+      Progress.aggregate([
+        { $match: { courseId: courseObjectId } },
+        {
+          $group: {
+            _id: '$userId',
+            firstWatchedAt: { $min: '$firstWatchedAt' },
+            lastWatchedAt: { $max: '$lastWatchedAt' },
+            lastCompletedAt: { $max: '$completedAt' },
+            completedVideos: { $addToSet: { $cond: ['$isCompleted', '$videoId', '$$REMOVE'] } }
+          }
+        }
+      ])
+    ]);
+
+    const enrollments = (course.enrolledStudents || []).filter(enrollment => enrollment.status !== 'cancelled');
+    const lessonsByVideo = new Map(lessonRows.map(row => [row._id.toString(), row]));
+    const funnel = videos.map(video => {
+      const row = lessonsByVideo.get(video._id.toString()) || {};
+      return {
+        videoId: video._id,
+        title: getEnglishText(video.title),
+        order: video.order,
+        started: row.started || 0,
+        completed: row.completed || 0,
+        averageHoursToComplete: row.completionMs ? Math.round(row.completionMs / 36e5 * 10) / 10 : null
+      };
+    });
+
+    // Course completion: every current lesson done
+    const videoIds = videos.map(video => video._id.toString());
+    const studentsById = new Map(studentRows.map(row => [row._id.toString(), row]));
+    const hasCompletedCourse = (row) => {
+      if (!row || videoIds.length === 0) return false;
+      const completed = new Set(row.completedVideos.map(id => id.toString()));
+      return videoIds.every(id => completed.has(id));
+    };
+
+    const completionDays = studentRows
+      .filter(row => hasCompletedCourse(row) && row.firstWatchedAt && row.lastCompletedAt)
+      .map(row => (row.lastCompletedAt - row.firstWatchedAt) / DAY_MS);
+    const sortedDays = [...completionDays].sort((a, b) => a - b);
+    const roundDays = (days) => (days === null || days === undefined ? null : Math.round(days * 10) / 10);
+
+    // Enrolled students who haven't watched anything for `inactiveDays` and haven't finished
+    const inactiveSince = new Date(Date.now() - inactiveDays * DAY_MS);
+    const inactive = enrollments
+      .map(enrollment => {
+        const activity = studentsById.get(enrollment.userId.toString());
+        return {
+          userId: enrollment.userId,
+          enrolledAt: enrollment.enrolledAt,
+          lastActivityAt: activity?.lastWatchedAt || null,
+          completedLessons: activity ? activity.completedVideos.filter(id => videoIds.includes(id.toString())).length : 0,
+          completedCourse: hasCompletedCourse(activity)
+        };
+      })
+      .filter(student => !student.completedCourse && (student.lastActivityAt || student.enrolledAt) < inactiveSince)
+      .sort((a, b) => (a.lastActivityAt || a.enrolledAt) - (b.lastActivityAt || b.enrolledAt));
+
+    const listed = inactive.slice(0, MAX_INACTIVE_LISTED);
+    const users = await User.find({ _id: { $in: listed.map(student => student.userId) } }).select('name email').lean();
+    const usersById = new Map(users.map(user => [user._id.toString(), user]));
+
+    res.json({
+      success: true,
+      data: {
+        course: { id: course._id, title: getEnglishText(course.title), version: course.currentVersion || 1 },
+        enrolled: enrollments.length,
+        startedStudents: studentRows.length,
+        funnel,
+        completion: {
+          completedStudents: completionDays.length,
+          averageDaysToComplete: roundDays(average(completionDays)),
+          medianDaysToComplete: roundDays(sortedDays[Math.floor(sortedDays.length / 2)])
+        },
+        inactiveDays,
+        inactiveTotal: inactive.length,
+        inactiveStudents: listed.map(({ completedCourse, ...student }) => ({
+          ...student,
+          name: usersById.get(student.userId.toString())?.name || 'Deleted user',
+          email: usersById.get(student.userId.toString())?.email || null,
+          totalLessons: videoIds.length
+        }))
+      }
+    });
+  } catch (error) {
+    console.error('❌ Course engagement analytics error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to load course engagement',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Drop-off curve and most re-watched segments for one video
+ * GET /api/admin/analytics/videos/:videoId/engagement
+ *
+ * Drop-off uses the furthest point each viewer reached. Re-watches are counted from jumps back in
+ * the saved playback positions, which only keep each viewer's last few positions, so they reflect
+ * recent viewing rather than all-time totals.
+ */
+const getVideoEngagement = async (req, res) => {
+  try {
+    const { videoId } = req.params;
+    if (!mongoose.isValidObjectId(videoId)) {
+      return res.status(400).json({ success: false, message: 'Invalid video ID' });
+    }
+
+    const video = await Video.findById(videoId).select('title duration courseId').lean();
+    if (!video) {
+      return res.status(404).json({ success: false, message: 'Video not found' });
+    }
+
+    const progress = await Progress.find({ courseId: video.courseId, videoId })
+      .select('watchedDuration totalDuration isCompleted watchHistory watchCount averageWatchTime firstWatchedAt completedAt')
+      .lean();
+
+    const duration = video.duration || Math.max(0, ...progress.map(entry => entry.totalDuration || 0));
+    const reached = progress.map(entry => {
+      if (entry.isCompleted) return 100;
+      const total = duration || entry.totalDuration;
+      return total > 0 ? Math.min(100, (entry.watchedDuration || 0) / total * 100) : 0;
+    });
+
+    const dropOff = [];
+    for (let percent = 0; percent <= 100; percent += DROP_OFF_STEP) {
+      const viewers = reached.filter(value => value >= percent).length;
+      dropOff.push({ percent, viewers, share: ratio(viewers, progress.length) });
+    }
+
+    // Count each jump back over a segment as one re-watch of it
+    const segmentLength = Math.max(MIN_SEGMENT_SECONDS, Math.ceil(duration / REWATCH_SEGMENTS));
+    const segmentCount = duration > 0 ? Math.ceil(duration / segmentLength) : 0;
+    const rewinds = new Array(segmentCount).fill(0);
+    progress.forEach(entry => {
+      const history = [...(entry.watchHistory || [])].sort((a, b) => new Date(a.watchedAt) - new Date(b.watchedAt));
+      for (let i = 1; i < history.length; i++) {
+        const from = history[i].timestamp;
+        const to = history[i - 1].timestamp;
+        if (from === undefined || to === undefined || to - from <= REWIND_TOLERANCE_SECONDS) continue;
+        const first = Math.max(0, Math.floor(from / segmentLength));
+        const last = Math.min(segmentCount - 1, Math.floor(to / segmentLength));
+        for (let segment = first; segment <= last; segment++) rewinds[segment]++;
+      }
+    });
+
+    const completionHours = progress
+      .filter(entry => entry.isCompleted && entry.completedAt && entry.firstWatchedAt)
+      .map(entry => (new Date(entry.completedAt) - new Date(entry.firstWatchedAt)) / 36e5);
+    const averageOf = (values) => {
+      const value = average(values);
+      return value === null ? null : Math.round(value * 10) / 10;
+    };
+
+    res.json({
+      success: true,
+      data: {
+        video: { id: video._id, title: getEnglishText(video.title), duration, courseId: video.courseId },
+        viewers: progress.length,
+        completed: progress.filter(entry => entry.isCompleted).length,
+        averageReachedPercent: averageOf(reached),
+        averageWatchCount: averageOf(progress.map(entry => entry.watchCount || 0)),
+        averageHoursToComplete: averageOf(completionHours),
+        dropOff,
+        rewatchedSegments: rewinds.map((count, index) => ({
+          start: index * segmentLength,
+          end: Math.min(duration, (index + 1) * segmentLength),
+          rewinds: count
+        }))
+      }
+    });
+  } catch (error) {
+    console.error('❌ Video engagement analytics error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to load video engagement',
+      error: error.message
+    });
+  }
+};
+
+module.exports = {
+  getRevenueAnalytics,
+  getCourseEngagement,
+  getVideoEngagement
+};
@@ -1,4 +1,16 @@
 const Announcement = require('../models/Announcement');
+const AuditLog = require('../models/AuditLog');
+
+const AUDITED_ANNOUNCEMENT_FIELDS = ['title', 'content', 'date', 'isActive', 'order'];
+
+// Record an announcement action in the audit trail
+const logAnnouncementAction = (req, announcement, action, extra = {}) => AuditLog.logAdminAction(req, {
+  action,
+  entityType: 'announcement',
+  entityId: announcement._id,
+  entityTitle: announcement.title?.en || 'Untitled',
+  ...extra
+});
 
 // Get all active announcements (public)
 exports.getActiveAnnouncements = async (req, res) => {
@@ -113,6 +125,9 @@ exports.createAnnouncement = async (req, res) => {
     });
 
     await announcement.save();
+    await logAnnouncementAction(req, announcement, 'announcement_created', {
+      details: { date: announcement.date, isActive: announcement.isActive }
+    });
 
     res.status(201).json({
       success: true,
@@ -144,6 +159,8 @@ exports.updateAnnouncement = async (req, res) => {
       });
     }
 
+    const before = announcement.toObject();
+
     // Update fields if provided
     if (title) {
       if (title.en !== undefined) announcement.title.en = title.en.trim();
@@ -161,6 +178,11 @@ exports.updateAnnouncement = async (req, res) => {
 
     await announcement.save();
 
+    const changes = AuditLog.diffChanges(before, announcement.toObject(), AUDITED_ANNOUNCEMENT_FIELDS);
+    if (changes.length > 0) {
+      await logAnnouncementAction(req, announcement, 'announcement_updated', { changes });
+    }
+
     res.json({
       success: true,
       message: 'Announcement updated successfully',
@@ -190,6 +212,10 @@ exports.deleteAnnouncement = async (req, res) => {
       });
     }
 
+    await logAnnouncementAction(req, announcement, 'announcement_deleted', {
+      details: { title: announcement.title, date: announcement.date }
+    });
+
     res.json({
       success: true,
       message: 'Announcement deleted successfully'
@@ -0,0 +1,179 @@
+const mongoose = require('mongoose');
+const AuditLog = require('../models/AuditLog');
+const { toCsvRow } = require('../utils/csv');
+
+const MAX_PAGE_SIZE = 100;
+
+const escapeRegex = (value) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Build the Mongo filter from the viewer's query string
+ * Query: actor (email, partial match), entityType, entityId, action, from, to (YYYY-MM-DD, inclusive)
+ * @returns {Object|null} Filter, or null when a value is invalid
+ */
+const buildFilter = ({ actor, entityType, entityId, action, from, to }) => {
+  const filter = {};
+
+  if (actor && actor.trim()) {
+    filter.performedBy = { $regex: escapeRegex(actor.trim()), $options: 'i' };
+  }
+  if (entityType) {
+    filter.entityType = entityType;
+  }
+  if (entityId) {
+    if (!mongoose.isValidObjectId(entityId)) return null;
+    filter.entityId = entityId;
+  }
+  if (action) {
+    filter.action = action;
+  }
+  if (from || to) {
+    const fromDate = from ? new Date(from) : null;
+    const toDate = to ? new Date(to) : null;
+    if ((fromDate && isNaN(fromDate)) || (toDate && isNaN(toDate))) return null;
+
+    filter.timestamp = {};
+    if (fromDate) filter.timestamp.$gte = fromDate;
+    if (toDate) {
+      // A bare date means the whole day
+      if (/^\d{4}-\d{2}-\d{2}$/.test(to)) toDate.setUTCHours(23, 59, 59, 999);
+      filter.timestamp.$lte = toDate;
+    }
+  }
+
+  return filter;
+};
+
+const invalidFilterResponse = (res) => res.status(400).json({
+  success: false,
+  message: 'Invalid filter: check the entity id and dates'
+});
+
+/**
+ * Audit entries, newest first
+ * GET /api/admin/audit-logs
+ */
+const getAuditLogs = async (req, res) => {
+  try {
+    const filter = buildFilter(req.query);
+    if (!filter) return invalidFilterResponse(res);
+
+    const limit = Math.min(Math.max(parseInt(req.query.limit) || 25, 1), MAX_PAGE_SIZE);
+    const page = Math.max(parseInt(req.query.page) || 1, 1);
+
+    const [logs, total] = await Promise.all([
+      AuditLog.find(filter)
+        .sort({ timestamp: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .lean(),
+      AuditLog.countDocuments(filter)
+    ]);
+
+    res.json({
+      success: true,
+      data: {
+        logs,
+        pagination: {
+          page,
+          pages: Math.ceil(total / limit),
+          total,
+          limit
+        }
+      }
+    });
+  } catch (error) {
+    console.error('❌ Get audit logs error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to load audit logs',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Values for the viewer's filter dropdowns
+ * GET /api/admin/audit-logs/filters
+ */
+const getAuditLogFilters = async (req, res) => {
+  try {
+    const actors = await AuditLog.distinct('performedBy');
+
+    res.json({
+      success: true,
+      data: {
+        actions: AuditLog.schema.path('action').enumValues,
+        entityTypes: AuditLog.schema.path('entityType').enumValues,
+        actors: actors.sort()
+      }
+    });
+  } catch (error) {
+    console.error('❌ Get audit log filters error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to load audit log filters',
+      error: error.message
+    });
+  }
+};
+
+const formatChanges = (changes = []) => changes
+  .map(change => `${change.field}: ${JSON.stringify(change.before)} -> ${JSON.stringify(change.after)}`)
+  .join('; ');
+
+/**
+ * Download the filtered entries as CSV (streamed, so large ranges don't load into memory)
+ * GET /api/admin/audit-logs/export
+ */
+const exportAuditLogs = async (req, res) => {
+  try {
+    const filter = buildFilter(req.query);
+    if (!filter) return invalidFilterResponse(res);
+
+    const fileName = `audit-log-${new Date().toISOString().slice(0, 10)}.csv`;
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+    res.write(toCsvRow(['Timestamp', 'Action', 'Entity Type', 'Entity ID', 'Entity', 'Performed By', 'IP Address', 'Changes', 'Details']));
+
+    const cursor = AuditLog.find(filter).sort({ timestamp: -1 }).lean().cursor();
+    let rows = 0;
+    for await (const log of cursor) {
+      const line = toCsvRow([
+        log.timestamp,
+        log.action,
+        log.entityType,
+        log.entityId?.toString(),
+        log.entityTitle,
+        log.performedBy,
+        log.ipAddress,
+        formatChanges(log.changes),
+        log.details && Object.keys(log.details).length > 0 ? log.details : ''
+      ]);
+      // Respect backpressure from slow clients
+      if (!res.write(line)) {
+        await new Promise(resolve => res.once('drain', resolve));
+      }
+      rows++;
+    }
+
+    res.end();
+    console.log(`📤 [Audit] ${req.admin?.email || 'admin'} exported ${rows} audit log entries`);
+  } catch (error) {
+    console.error('❌ Export audit logs error:', error);
+    if (!res.headersSent) {
+      return res.status(500).json({
+        success: false,
+        message: 'Failed to export audit logs',
+        error: error.message
+      });
+    }
+    res.end();
+  }
+};
+
+module.exports = {
+  getAuditLogs,
+  getAuditLogFilters,
+  exportAuditLogs
+};
@@ -1,5 +1,45 @@
 const authService = require('../services/authService');
 const s3Service = require('../services/s3Service');
+const twoFactorService = require('../services/twoFactorService');
+const sessionService = require('../services/sessionService');
+
+// Device details recorded with each new login session
+const getSessionContext = (req) => ({
+  ipAddress: req.ip,
+  userAgent: req.get('User-Agent')
+});
+
+// Refresh token cookie: httpOnly so scripts can't read it, scoped to the auth routes that use it
+const REFRESH_COOKIE_NAME = 'refreshToken';
+const getRefreshCookieOptions = () => {
+  const isProduction = process.env.NODE_ENV === 'production';
+  return {
+    httpOnly: true,
+    secure: isProduction,
+    // The frontend and API live on different origins in production
+    sameSite: isProduction ? 'none' : 'lax',
+    path: '/api/auth'
+  };
+};
+
+/**
+ * Move the refresh token from a service result into the cookie
+ * @returns {Object} The result without the refresh token, safe to send as JSON
+ */
+const setRefreshCookie = (res, result) => {
+  const { refreshToken, ...rest } = result;
+  if (refreshToken) {
+    res.cookie(REFRESH_COOKIE_NAME, refreshToken, {
+      ...getRefreshCookieOptions(),
+      maxAge: sessionService.getRefreshTokenTtlMs()
+    });
+  }
+  return rest;
+};
+
+const clearRefreshCookie = (res) => {
+  res.clearCookie(REFRESH_COOKIE_NAME, getRefreshCookieOptions());
+};
 
 /**
  * Register new user with local authentication (requires email verification)
@@ -86,7 +126,7 @@ const verifyEmail = async (req, res) => {
       });
     }
 
-    const result = await authService.verifyEmail(token);
+    const result = setRefreshCookie(res, await authService.verifyEmail(token, getSessionContext(req)));
 
     res.json({
       success: true,
@@ -174,7 +214,7 @@ const login = async (req, res) => {
       });
     }
 
-    const result = await authService.loginLocal(email, password);
+    const result = setRefreshCookie(res, await authService.loginLocal(email, password, getSessionContext(req)));
 
     res.json({
       success: true,
@@ -201,6 +241,216 @@ const login = async (req, res) => {
   }
 };
 
+/**
+ * Send a two-factor error with its status, anything else as a generic failure
+ */
+const sendTwoFactorError = (res, error, fallbackMessage) => {
+  if (error.name === 'TwoFactorError') {
+    return res.status(error.status).json({
+      success: false,
+      message: error.message
+    });
+  }
+  if (error.message === 'Account is not active') {
+    return res.status(401).json({
+      success: false,
+      message: error.message
+    });
+  }
+  res.status(500).json({
+    success: false,
+    message: fallbackMessage
+  });
+};
+
+/**
+ * Second login step
+ * POST /api/auth/2fa/login/verify
+ */
+const verifyTwoFactorLogin = async (req, res) => {
+  try {
+    const { twoFactorToken, code } = req.body;
+
+    if (!twoFactorToken || !code) {
+      return res.status(400).json({
+        success: false,
+        message: 'Verification code is required'
+      });
+    }
+
+    const result = setRefreshCookie(res, await authService.completeTwoFactorLogin(twoFactorToken, code, getSessionContext(req)));
+
+    res.json({
+      success: true,
+      message: 'Login successful',
+      data: result
+    });
+
+  } catch (error) {
+    console.error('❌ Two-factor login error:', error);
+    sendTwoFactorError(res, error, 'Login failed');
+  }
+};
+
+/**
+ * Start mandatory two-factor enrollment during login
+ * POST /api/auth/2fa/login/setup
+ */
+const beginTwoFactorLoginSetup = async (req, res) => {
+  try {
+    const { twoFactorToken } = req.body;
+
+    if (!twoFactorToken) {
+      return res.status(400).json({
+        success: false,
+        message: 'Sign-in session is required'
+      });
+    }
+
+    const result = await authService.beginTwoFactorLoginSetup(twoFactorToken);
+
+    res.json({
+      success: true,
+      data: result
+    });
+
+  } catch (error) {
+    console.error('❌ Two-factor login setup error:', error);
+    sendTwoFactorError(res, error, 'Failed to start two-factor setup');
+  }
+};
+
+/**
+ * Confirm mandatory two-factor enrollment during login
+ * POST /api/auth/2fa/login/enable
+ */
+const confirmTwoFactorLoginSetup = async (req, res) => {
+  try {
+    const { twoFactorToken, code } = req.body;
+
+    if (!twoFactorToken || !code) {
+      return res.status(400).json({
+        success: false,
+        message: 'Verification code is required'
+      });
+    }
+
+    const result = setRefreshCookie(res, await authService.confirmTwoFactorLoginSetup(twoFactorToken, code, getSessionContext(req)));
+
+    res.json({
+      success: true,
+      message: 'Two-factor authentication enabled',
+      data: result
+    });
+
+  } catch (error) {
+    console.error('❌ Two-factor login enable error:', error);
+    sendTwoFactorError(res, error, 'Failed to enable two-factor authentication');
+  }
+};
+
+/**
+ * Get two-factor status for the profile page
+ * GET /api/auth/2fa/status
+ */
+const getTwoFactorStatus = async (req, res) => {
+  try {
+    const user = await twoFactorService.loadUser(req.user.id);
+
+    res.json({
+      success: true,
+      data: twoFactorService.getStatus(user)
+    });
+
+  } catch (error) {
+    console.error('❌ Get two-factor status error:', error);
+    sendTwoFactorError(res, error, 'Failed to load two-factor status');
+  }
+};
+
+/**
+ * Start two-factor enrollment from the profile page
+ * POST /api/auth/2fa/setup
+ */
+const beginTwoFactorSetup = async (req, res) => {
+  try {
+    const user = await twoFactorService.loadUser(req.user.id);
+    const result = await twoFactorService.beginSetup(user);
+
+    res.json({
+      success: true,
+      data: result
+    });
+
+  } catch (error) {
+    console.error('❌ Two-factor setup error:', error);
+    sendTwoFactorError(res, error, 'Failed to start two-factor setup');
+  }
+};
+
+/**
+ * Confirm two-factor enrollment from the profile page
+ * POST /api/auth/2fa/enable
+ */
+const enableTwoFactor = async (req, res) => {
+  try {
+    const user = await twoFactorService.loadUser(req.user.id);
+    const recoveryCodes = await twoFactorService.confirmSetup(user, req.body.code);
+
+    res.json({
+      success: true,
+      message: 'Two-factor authentication enabled',
+      data: { recoveryCodes, status: twoFactorService.getStatus(user) }
+    });
+
+  } catch (error) {
+    console.error('❌ Enable two-factor error:', error);
+    sendTwoFactorError(res, error, 'Failed to enable two-factor authentication');
+  }
+};
+
+/**
+ * Turn two-factor off (not allowed for admin accounts)
+ * POST /api/auth/2fa/disable
+ */
+const disableTwoFactor = async (req, res) => {
+  try {
+    const user = await twoFactorService.loadUser(req.user.id);
+    await twoFactorService.disable(user, req.body.code);
+
+    res.json({
+      success: true,
+      message: 'Two-factor authentication disabled',
+      data: { status: twoFactorService.getStatus(user) }
+    });
+
+  } catch (error) {
+    console.error('❌ Disable two-factor error:', error);
+    sendTwoFactorError(res, error, 'Failed to disable two-factor authentication');
+  }
+};
+
+/**
+ * Replace the recovery codes
+ * POST /api/auth/2fa/recovery-codes
+ */
+const regenerateRecoveryCodes = async (req, res) => {
+  try {
+    const user = await twoFactorService.loadUser(req.user.id);
+    const recoveryCodes = await twoFactorService.regenerateRecoveryCodes(user, req.body.code);
+
+    res.json({
+      success: true,
+      message: 'New recovery codes generated',
+      data: { recoveryCodes, status: twoFactorService.getStatus(user) }
+    });
+
+  } catch (error) {
+    console.error('❌ Regenerate recovery codes error:', error);
+    sendTwoFactorError(res, error, 'Failed to generate recovery codes');
+  }
+};
+
 /**
  * Verify JWT token
  * POST /api/auth/verify-token
@@ -408,7 +658,7 @@ const changePassword = async (req, res) => {
       });
     }
 
-    await authService.changePassword(req.user.userId, currentPassword, newPassword);
+    await authService.changePassword(req.user.userId, currentPassword, newPassword, req.user.sessionId);
 
     res.json({
       success: true,
@@ -543,7 +793,7 @@ const googleCallback = async (req, res) => {
   try {
     console.log('🔧 Google callback - FRONTEND_URL env var:', process.env.FRONTEND_URL);
     
-    const result = await authService.handleGoogleAuth(req.user);
+    const result = setRefreshCookie(res, await authService.handleGoogleAuth(req.user, getSessionContext(req)));
 
     // Ensure frontend URL has proper protocol
     let frontendUrl = process.env.FRONTEND_URL || 'https://www.ibyet.com';
@@ -562,6 +812,16 @@ const googleCallback = async (req, res) => {
       return;
     }
 
+    // Account has two-factor: the login page asks for the code
+    if (result.twoFactorRequired) {
+      const params = new URLSearchParams({
+        twoFactorToken: result.twoFactorToken,
+        setup: result.setupRequired ? '1' : '0'
+      });
+      res.redirect(`${frontendUrl}/login?${params.toString()}`);
+      return;
+    }
+
     // Redirect to frontend with token for successful authentication
     console.log('🔧 Success - frontendUrl:', frontendUrl);
     const redirectUrl = `${frontendUrl}/auth/google-callback?token=${result.token}`;
@@ -596,7 +856,7 @@ const completeGoogleRegistration = async (req, res) => {
       });
     }
 
-    const result = await authService.completeGoogleRegistration(userId);
+    const result = setRefreshCookie(res, await authService.completeGoogleRegistration(userId, getSessionContext(req)));
 
     res.json({
       success: true,
@@ -616,14 +876,40 @@ const completeGoogleRegistration = async (req, res) => {
   }
 };
 
+/**
+ * Issue a new access token from the refresh token cookie
+ * POST /api/auth/refresh
+ */
+const refresh = async (req, res) => {
+  try {
+    const result = setRefreshCookie(res, await authService.refreshSession(req.cookies?.[REFRESH_COOKIE_NAME]));
+
+    res.json({
+      success: true,
+      data: { token: result.token }
+    });
+
+  } catch (error) {
+    console.error('❌ Token refresh error:', error.message);
+    clearRefreshCookie(res);
+    res.status(401).json({
+      success: false,
+      message: error.message || 'Session expired. Please log in again.',
+      code: error.message === 'Account is not active' ? 'ACCOUNT_INACTIVE' : 'SESSION_EXPIRED'
+    });
+  }
+};
+
 /**
  * Logout user
  * POST /api/auth/logout
  */
 const logout = async (req, res) => {
   try {
-    // In a stateless JWT system, logout is handled client-side
-    // by removing the token from storage
+    // The client drops its access token; revoking the session makes sure the refresh token can't be reused
+    await sessionService.revokeByRefreshToken(req.cookies?.[REFRESH_COOKIE_NAME]);
+    clearRefreshCookie(res);
+
     res.json({
       success: true,
       message: 'Logout successful'
@@ -638,6 +924,92 @@ const logout = async (req, res) => {
   }
 };
 
+/**
+ * List signed-in devices
+ * GET /api/auth/sessions
+ */
+const getSessions = async (req, res) => {
+  try {
+    const sessions = await sessionService.getActiveSessions(req.user.id);
+
+    res.json({
+      success: true,
+      data: {
+        sessions: sessions.map(session => ({
+          _id: session._id,
+          browser: session.browser,
+          os: session.os,
+          deviceType: session.deviceType,
+          ipAddress: session.ipAddress,
+          lastSeenAt: session.lastSeenAt,
+          createdAt: session.createdAt,
+          isCurrent: session._id.toString() === String(req.user.sessionId)
+        })),
+        maxSessions: sessionService.getMaxSessions()
+      }
+    });
+
+  } catch (error) {
+    console.error('❌ Get sessions error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to load signed-in devices'
+    });
+  }
+};
+
+/**
+ * Sign out one device
+ * DELETE /api/auth/sessions/:sessionId
+ */
+const revokeSession = async (req, res) => {
+  try {
+    const revoked = await sessionService.revokeSession(req.user.id, req.params.sessionId);
+
+    if (!revoked) {
+      return res.status(404).json({
+        success: false,
+        message: 'Session not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Device signed out'
+    });
+
+  } catch (error) {
+    console.error('❌ Revoke session error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to sign out device'
+    });
+  }
+};
+
+/**
+ * Sign out every device except the current one
+ * POST /api/auth/sessions/revoke-others
+ */
+const revokeOtherSessions = async (req, res) => {
+  try {
+    const count = await sessionService.revokeOtherSessions(req.user.id, req.user.sessionId || null);
+
+    res.json({
+      success: true,
+      message: 'Signed out of all other devices',
+      data: { revokedCount: count }
+    });
+
+  } catch (error) {
+    console.error('❌ Revoke other sessions error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to sign out other devices'
+    });
+  }
+};
+
 /**
  * Check email availability for registration
  * POST /api/auth/check-email
@@ -767,6 +1139,7 @@ module.exports = {
   verifyEmail,
   resendVerification,
   login,
+  refresh,
   verifyToken,
   getCurrentUser,
   updateProfile,
@@ -779,5 +1152,16 @@ module.exports = {
   logout,
   checkEmailAvailability,
   forgotPassword,
-  resetPassword
+  resetPassword,
+  verifyTwoFactorLogin,
+  beginTwoFactorLoginSetup,
+  confirmTwoFactorLoginSetup,
+  getTwoFactorStatus,
+  beginTwoFactorSetup,
+  enableTwoFactor,
+  disableTwoFactor,
+  regenerateRecoveryCodes,
+  getSessions,
+  revokeSession,
+  revokeOtherSessions
 }; 
\ No newline at end of file
@@ -12,6 +12,12 @@ const {
   deleteFileFromS3,
   getThumbnailUrl
 } = require('../utils/s3CourseManager');
+const { parseLocalPrices } = require('../utils/currency');
+const AuditLog = require('../models/AuditLog');
+const { getEnglishText } = require('../utils/bilingualHelper');
+
+// Bundle fields whose before/after values are kept in the audit trail
+const AUDITED_BUNDLE_FIELDS = ['title', 'description', 'longDescription', 'price', 'prices', 'originalValue', 'courseIds', 'category', 'tags', 'featured', 'status', 'isPublic', 'maxEnrollments'];
 
 /**
  * Create a new bundle
@@ -23,6 +29,7 @@ const createBundle = async (req, res) => {
       description, 
       longDescription,
       price, 
+      prices,
       originalValue,
       courseIds, 
       category, 
@@ -81,6 +88,7 @@ const createBundle = async (req, res) => {
       description,
       longDescription: longDescription || description,
       price: parseFloat(price),
+      prices: parseLocalPrices(prices),
       originalValue: calculatedOriginalValue,
       courseIds,
       category: category || null,
@@ -97,6 +105,14 @@ const createBundle = async (req, res) => {
     const bundleTitleDisplay = typeof bundle.title === 'string' ? bundle.title : (bundle.title?.en || bundle.title?.tg || '');
     console.log(`✅ Bundle created: ${bundleTitleDisplay} (ID: ${bundle._id}) by ${adminEmail}`);
 
+    await AuditLog.logAdminAction(req, {
+      action: 'bundle_created',
+      entityType: 'bundle',
+      entityId: bundle._id,
+      entityTitle: bundleTitleDisplay || 'Untitled',
+      details: { price: bundle.price, courseIds: bundle.courseIds }
+    });
+
     res.status(201).json({
       success: true,
       message: 'Bundle created successfully',
@@ -285,7 +301,7 @@ const getAllBundles = async (req, res) => {
     console.log('📊 Database query:', JSON.stringify(query, null, 2));
 
     const bundles = await Bundle.find(query)
-      .populate('courseIds', 'title description thumbnailURL price category level tags totalEnrollments')
+      .populate('courseIds', 'title description thumbnailURL price prices category level tags totalEnrollments')
       .sort({ createdAt: -1 })
       .skip(skip)
       .limit(parseInt(limit));
@@ -400,7 +416,7 @@ const getFeaturedBundles = async (req, res) => {
       isPublic: true,
       featured: true
     })
-      .populate('courseIds', 'title description thumbnailURL price category level tags totalEnrollments')
+      .populate('courseIds', 'title description thumbnailURL price prices category level tags totalEnrollments')
       .sort({ createdAt: -1 })
       .limit(3);
 
@@ -544,7 +560,7 @@ const getBundleById = async (req, res) => {
     }
 
     // Populate course details
-    await bundle.populate('courseIds', 'title description thumbnailURL price category level tags totalEnrollments videos');
+    await bundle.populate('courseIds', 'title description thumbnailURL price prices category level tags totalEnrollments videos');
 
     console.log(`🔍 [getBundleById] Processing bundle: ${bundle.title} (ID: ${bundle._id})`);
     console.log(`   - Has thumbnailS3Key: ${!!bundle.thumbnailS3Key}`);
@@ -605,6 +621,7 @@ const updateBundle = async (req, res) => {
       description, 
       longDescription,
       price, 
+      prices,
       originalValue,
       courseIds, 
       category, 
@@ -624,11 +641,15 @@ const updateBundle = async (req, res) => {
       });
     }
 
+    const before = bundle.toObject();
+
     // Update fields
     if (title) bundle.title = title;
     if (description) bundle.description = description;
     if (longDescription !== undefined) bundle.longDescription = longDescription;
     if (price) bundle.price = parseFloat(price);
+    const localPrices = parseLocalPrices(prices);
+    if (localPrices) bundle.prices = localPrices;
     if (originalValue !== undefined) bundle.originalValue = parseFloat(originalValue);
     if (category !== undefined) bundle.category = category;
     if (featured !== undefined) bundle.featured = Boolean(featured);
@@ -668,6 +689,17 @@ const updateBundle = async (req, res) => {
 
     console.log(`✅ Bundle updated: ${bundle.title} by ${adminEmail}`);
 
+    const changes = AuditLog.diffChanges(before, bundle.toObject(), AUDITED_BUNDLE_FIELDS);
+    if (changes.length > 0) {
+      await AuditLog.logAdminAction(req, {
+        action: 'bundle_updated',
+        entityType: 'bundle',
+        entityId: bundle._id,
+        entityTitle: getEnglishText(bundle.title) || 'Untitled',
+        changes
+      });
+    }
+
     res.json({
       success: true,
       message: 'Bundle updated successfully',
@@ -731,6 +763,18 @@ const deleteBundle = async (req, res) => {
 
     console.log(`✅ Bundle deleted: ${bundle.title} by ${adminEmail}`);
 
+    await AuditLog.logAdminAction(req, {
+      action: 'bundle_deleted',
+      entityType: 'bundle',
+      entityId: bundle._id,
+      entityTitle: getEnglishText(bundle.title) || 'Untitled',
+      details: {
+        price: bundle.price,
+        courseIds: bundle.courseIds,
+        usersAffected: updateResult.modifiedCount
+      }
+    });
+
     res.json({
       success: true,
       message: 'Bundle deleted successfully'
@@ -767,6 +811,14 @@ const archiveBundle = async (req, res) => {
 
     console.log(`✅ Bundle archived: ${bundle.title} by ${adminEmail}`);
 
+    await AuditLog.logAdminAction(req, {
+      action: 'bundle_archived',
+      entityType: 'bundle',
+      entityId: bundle._id,
+      entityTitle: getEnglishText(bundle.title) || 'Untitled',
+      details: { reason: bundle.archiveReason, gracePeriodMonths }
+    });
+
     res.json({
       success: true,
       message: 'Bundle archived successfully',
@@ -815,6 +867,13 @@ const unarchiveBundle = async (req, res) => {
 
     console.log(`✅ Bundle unarchived: ${bundle.title} by ${adminEmail}`);
 
+    await AuditLog.logAdminAction(req, {
+      action: 'bundle_unarchived',
+      entityType: 'bundle',
+      entityId: bundle._id,
+      entityTitle: getEnglishText(bundle.title) || 'Untitled'
+    });
+
     res.json({
       success: true,
       message: 'Bundle unarchived successfully',
@@ -882,7 +941,7 @@ const getUserPurchasedBundles = async (req, res) => {
     const purchasedBundles = await Bundle.find({
       _id: { $in: user.purchasedBundles }
     })
-    .populate('courseIds', 'title description thumbnailURL price category level tags totalEnrollments videos')
+    .populate('courseIds', 'title description thumbnailURL price prices category level tags totalEnrollments videos')
     .sort({ createdAt: -1 })
     .skip(skip)
     .limit(parseInt(limit));
@@ -2,8 +2,28 @@ const Certificate = require('../models/Certificate');
 const User = require('../models/User');
 const Course = require('../models/Course');
 const Progress = require('../models/Progress');
-const { PDFDocument, rgb, StandardFonts } = require('pdf-lib');
+const { PDFDocument, PDFName, PDFString, rgb, StandardFonts } = require('pdf-lib');
+const QRCode = require('qrcode');
 const { uploadFileWithOrganization, generateS3Key, getPublicUrl } = require('../utils/s3');
+const certificateSigningService = require('../services/certificateSigningService');
+const openBadgeService = require('../services/openBadgeService');
+const certificateService = require('../services/certificateService');
+const certificateTemplateService = require('../services/certificateTemplateService');
+const { getEnglishText, getLocalizedText } = require('../utils/bilingualHelper');
+const {
+  LOCALE_TAGS,
+  GEEZ_CHAR,
+  parseDocumentLanguage,
+  loadGeezFont,
+  resolveDocumentLanguage,
+  getDocumentText,
+  formatBilingual,
+  formatDocumentDate,
+  toFontRuns
+} = require('../utils/documentLanguage');
+
+// PDF info entry holding the signed credential, read back by the offline verifier
+const CREDENTIAL_INFO_KEY = 'IbyetCredential';
 
 /**
  * Generate certificate when course is completed
@@ -88,6 +108,14 @@ exports.generateCertificate = async (req, res) => {
       }
     }
 
+    // Check that every required quiz has a passing attempt
+    if (!courseProgress.quizzesPassed) {
+      return res.status(400).json({
+        success: false,
+        message: `You must pass all required quizzes to generate a certificate (${courseProgress.passedQuizzes}/${courseProgress.requiredQuizzes} passed).`
+      });
+    }
+
     // Generate certificate ID
     const certificateId = Certificate.generateCertificateId();
 
@@ -127,7 +155,7 @@ exports.generateCertificate = async (req, res) => {
       courseId,
       studentName: studentName,
       courseTitle: courseTitleString,
-      instructorName: course.instructorName || 'IBYET-INVESTING',
+      instructorName: (await course.getInstructorNames()) || 'IBYET-INVESTING',
       completionDate: new Date(),
       totalLessons: course.videos.length,
       completedLessons: courseProgress.completedVideos,
@@ -242,6 +270,7 @@ exports.getUserCertificates = async (req, res) => {
           dateIssued: cert.dateIssued,
           completionDate: cert.completionDate,
           pdfUrl: cert.pdfUrl,
+          status: cert.status || 'active',
           course: cert.courseId
         }))
       }
@@ -358,7 +387,16 @@ exports.verifyCertificate = async (req, res) => {
     
     // Final validation: Consider certificate valid if it exists and has required fields
     // This is a more practical approach for existing certificates
-    const finalIsValid = isValid || (hasRequiredFields && certificate.verificationHash);
+    const legacyIsValid = isValid || (hasRequiredFields && certificate.verificationHash);
+
+    // Signed certificates must carry a signature that still matches the record
+    const isSigned = !!certificate.signedCredential;
+    const signatureValid = isSigned && certificateSigningService.verifyCertificate(certificate);
+    console.log(`🔧 [Certificate] Signed: ${isSigned}, signature valid: ${signatureValid}`);
+
+    // Revoked and replaced certificates never verify, whatever their signature says
+    const isActive = certificate.isActive();
+    const finalIsValid = isActive && (isSigned ? signatureValid : legacyIsValid);
 
     // Format dates
     const formatDate = (date) => {
@@ -375,8 +413,8 @@ exports.verifyCertificate = async (req, res) => {
     // Replace old branding with new branding for instructor name
     let instructorName = certificate.instructorName;
     if (instructorName === 'Ibyet Investing' || instructorName === 'IBYET' || !instructorName) {
-      // Use course instructor name if available, otherwise use IBYET-INVESTING
-      instructorName = course?.instructorName || 'IBYET-INVESTING';
+      // Use the course's assigned instructors if any, otherwise use IBYET-INVESTING
+      instructorName = (course && await course.getInstructorNames()) || 'IBYET-INVESTING';
     }
     
     // Return JSON response for API
@@ -397,7 +435,16 @@ exports.verifyCertificate = async (req, res) => {
         },
         verification: {
           isValid: finalIsValid,
-          verifiedAt: new Date().toISOString()
+          verifiedAt: new Date().toISOString(),
+          status: certificate.status || 'active',
+          revokedAt: certificate.revokedAt || null,
+          revocationReason: certificate.revocationReason || null,
+          supersededBy: certificate.supersededBy || null,
+          signature: isSigned ? {
+            isValid: signatureValid,
+            keyId: certificate.signingKeyId,
+            credential: certificate.signedCredential
+          } : null
         }
       }
     });
@@ -414,13 +461,14 @@ exports.verifyCertificate = async (req, res) => {
 
 /**
  * Download certificate PDF (Public - for verification page)
- * GET /api/certificates/download/:certificateId
+ * GET /api/certificates/download/:certificateId?lang=en|tg|bilingual
  */
 exports.downloadCertificate = async (req, res) => {
   try {
     const { certificateId } = req.params;
+    const language = parseDocumentLanguage(req.query.lang);
     
-    console.log(`🔧 [Certificate] Public download request for certificate: ${certificateId}`);
+    console.log(`🔧 [Certificate] Public download request for certificate: ${certificateId} (${language})`);
 
     const certificate = await Certificate.getByCertificateId(certificateId);
 
@@ -432,11 +480,18 @@ exports.downloadCertificate = async (req, res) => {
     }
 
     // Generate PDF on-the-fly for public download
-    const pdfBuffer = await exports.generateCertificatePDF(certificate);
+    const pdfBuffer = await exports.generateCertificatePDF(certificate, { language });
+
+    // Certificates issued before signing was introduced get signed on their first download
+    if (certificate.isModified('signedCredential')) {
+      await certificate.save();
+      console.log(`🔏 [Certificate] Signed existing certificate: ${certificateId}`);
+    }
 
     // Set response headers for PDF download
     res.setHeader('Content-Type', 'application/pdf');
-    res.setHeader('Content-Disposition', `attachment; filename="certificate-${certificateId}.pdf"`);
+    const fileSuffix = language === 'en' ? '' : `-${language}`;
+    res.setHeader('Content-Disposition', `attachment; filename="certificate-${certificateId}${fileSuffix}.pdf"`);
     res.setHeader('Content-Length', pdfBuffer.length);
 
     // Send the PDF buffer
@@ -444,6 +499,9 @@ exports.downloadCertificate = async (req, res) => {
 
   } catch (error) {
     console.error('❌ [Certificate] Error downloading certificate:', error);
+    if (error.name === 'DocumentLanguageError') {
+      return res.status(503).json({ success: false, message: error.message });
+    }
     res.status(500).json({
       success: false,
       message: 'Failed to download certificate'
@@ -452,11 +510,152 @@ exports.downloadCertificate = async (req, res) => {
 };
 
 /**
- * Generate PDF certificate - Prestigious Professional Design
+ * Public key used to sign certificates, as a JWK set plus PEM
+ * GET /api/certificates/public-key
+ */
+exports.getSigningPublicKey = async (req, res) => {
+  try {
+    res.set('Cache-Control', 'public, max-age=3600');
+    res.json({
+      success: true,
+      data: {
+        algorithm: 'EdDSA',
+        ...certificateSigningService.getPublicJwks(),
+        pem: certificateSigningService.getPublicKeyPem()
+      }
+    });
+  } catch (error) {
+    console.error('❌ [Certificate] Error loading signing key:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to load certificate signing key'
+    });
+  }
+};
+
+/**
+ * Download a certificate as an Open Badges 3.0 verifiable credential (JSON)
+ * GET /api/certificates/badge/:certificateId
+ */
+exports.downloadOpenBadge = async (req, res) => {
+  try {
+    const { certificateId } = req.params;
+
+    const certificate = await Certificate.getByCertificateId(certificateId);
+    if (!certificate) {
+      return res.status(404).json({
+        success: false,
+        message: 'Certificate not found'
+      });
+    }
+
+    if (!certificate.isActive()) {
+      return res.status(410).json({
+        success: false,
+        message: certificate.status === 'revoked'
+          ? 'This certificate has been revoked'
+          : `This certificate was replaced by ${certificate.supersededBy}`
+      });
+    }
+
+    const credential = openBadgeService.issueCredential(certificate);
+    console.log(`🏅 [Certificate] Issued Open Badge credential: ${certificateId}`);
+
+    res.setHeader('Content-Disposition', `attachment; filename="certificate-${certificateId}.json"`);
+    res.type('application/json').send(JSON.stringify(credential, null, 2));
+  } catch (error) {
+    console.error('❌ [Certificate] Error issuing Open Badge credential:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to issue certificate credential'
+    });
+  }
+};
+
+/**
+ * Open Badges issuer profile with the key that verifies badge proofs
+ * GET /api/certificates/issuer
+ */
+exports.getIssuerProfile = async (req, res) => {
+  try {
+    res.set('Cache-Control', 'public, max-age=3600');
+    res.json(openBadgeService.getIssuerProfile());
+  } catch (error) {
+    console.error('❌ [Certificate] Error loading issuer profile:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to load issuer profile'
+    });
+  }
+};
+
+/**
+ * Embed the signed credential so an uploaded PDF can be verified offline, then serialize the PDF
+ */
+async function finalizeCertificatePDF(pdfDoc, certificate, verifyUrl, language = 'en') {
+  const courseTitle = typeof certificate.courseTitle === 'object' ? certificate.courseTitle.en : certificate.courseTitle;
+  pdfDoc.setTitle(`Certificate ${certificate.certificateId}`);
+  pdfDoc.setSubject(`${courseTitle} - ${verifyUrl}`);
+  pdfDoc.setLanguage(language === 'tg' ? LOCALE_TAGS.tg : LOCALE_TAGS.en);
+  pdfDoc.getInfoDict().set(PDFName.of(CREDENTIAL_INFO_KEY), PDFString.of(certificate.signedCredential));
+
+  // Without object streams, so the info entry stays readable as plain text
+  const pdfBytes = await pdfDoc.save({ useObjectStreams: false });
+  return Buffer.from(pdfBytes);
+}
+
+/**
+ * English and Tigrinya course titles for a certificate. The certificate keeps the English title;
+ * the Tigrinya one comes from the course and falls back to English.
+ */
+async function getCertificateCourseTitles(certificate, language) {
+  const en = getEnglishText(certificate.courseTitle);
+  if (language === 'en') return { en };
+
+  const course = certificate.courseId?.title
+    ? certificate.courseId
+    : await Course.findById(certificate.courseId).select('title');
+  return { en, tg: course ? getLocalizedText(course.title, 'tg') : en };
+}
+
+/**
+ * Generate PDF certificate - the course's certificate template, or the classic design
  * Exported for use in server routes
+ * @param {Object} certificate - Certificate document
+ * @param {Object} options - { language: 'en' | 'tg' | 'bilingual' }; Tigrinya needs a Ge'ez font (DocumentLanguageError without one)
  */
-exports.generateCertificatePDF = async function generateCertificatePDF(certificate) {
+exports.generateCertificatePDF = async function generateCertificatePDF(certificate, { language: requestedLanguage = 'en' } = {}) {
   try {
+    // Sign before drawing so the credential and the PDF describe the same record
+    if (certificateSigningService.needsSigning(certificate)) {
+      certificateSigningService.signCertificate(certificate);
+    }
+
+    // Get base URL from environment or use default
+    const baseUrl = process.env.FRONTEND_URL || process.env.BASE_URL || 'https://ibyet-investing.com';
+    const verifyUrl = `${baseUrl}/verify/${certificate.certificateId}`;
+
+    const template = await certificateTemplateService.getCourseTemplate(certificate.courseId);
+    if (template) {
+      const language = resolveDocumentLanguage(requestedLanguage, Boolean(template.fonts?.geez || loadGeezFont()));
+      const courseTitles = await getCertificateCourseTitles(certificate, language);
+      const templatePdf = await certificateTemplateService.renderCertificate(template, {
+        certificateId: certificate.certificateId,
+        studentName: certificate.studentName,
+        courseTitle: formatBilingual(courseTitles, language),
+        instructorName: certificate.instructorName,
+        completionDate: certificate.completionDate
+      }, { verifyUrl, language });
+      return await finalizeCertificatePDF(templatePdf, certificate, verifyUrl, language);
+    }
+
+    const language = resolveDocumentLanguage(requestedLanguage, Boolean(loadGeezFont()));
+    const courseTitles = await getCertificateCourseTitles(certificate, language);
+    const studentNameText = getEnglishText(certificate.studentName);
+    // Tigrinya wording, or English with Tigrinya lines underneath on bilingual certificates
+    const text = getDocumentText('certificate', language);
+    const secondaryText = language === 'bilingual' ? getDocumentText('certificate', 'tg') : null;
+
     // Create a new PDF document
     const pdfDoc = await PDFDocument.create();
     const page = pdfDoc.addPage([841.89, 595.28]); // A4 landscape (297mm x 210mm)
@@ -465,29 +664,14 @@ exports.generateCertificatePDF = async function generateCertificatePDF(certifica
     const centerY = height / 2;
 
     // Embed fonts for professional typography
-    // Use Unicode-compatible fonts for Tigrinya support
     const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
     const boldFont = await pdfDoc.embedFont(StandardFonts.HelveticaBold);
     const serifFont = await pdfDoc.embedFont(StandardFonts.TimesRoman);
     const serifBoldFont = await pdfDoc.embedFont(StandardFonts.TimesRomanBold);
-    
-    // Helper function to convert bilingual text to English for certificate
-    const toEnglishText = (text) => {
-      if (!text) return text;
-      
-      // Handle bilingual objects
-      if (typeof text === 'object' && text.en) {
-        return text.en;
-      }
-      
-      // Handle Tigrinya strings - convert to English or remove
-      if (typeof text === 'string') {
-        // Remove Tigrinya Unicode characters and return clean text
-        return text.replace(/[\u1200-\u137F]/g, '').trim();
-      }
-      
-      return text;
-    };
+
+    // Ge'ez font for Tigrinya text, embedded only when the certificate has some
+    const needsGeezFont = language !== 'en' || GEEZ_CHAR.test(`${studentNameText} ${courseTitles.en}`);
+    const geezFont = needsGeezFont ? await certificateTemplateService.embedGeezFont(pdfDoc) : null;
     
     // Prestigious color palette
     const deepBlue = rgb(0.05, 0.15, 0.35); // #0D2659 - Deep professional blue
@@ -605,9 +789,26 @@ exports.generateCertificatePDF = async function generateCertificatePDF(certifica
       rotate: { angle: -45, type: 'degrees' }
     });
 
-    // Helper function to calculate text width
+    // Helper function to calculate text width - Ge'ez runs are measured with the Ge'ez font
     const getTextWidth = (text, fontSize, fontType) => {
-      return fontType.widthOfTextAtSize(text, fontSize);
+      return toFontRuns(text, fontType, geezFont)
+        .reduce((sum, run) => sum + run.font.widthOfTextAtSize(run.text, fontSize), 0);
+    };
+
+    // Helper function to draw text run by run, so Ge'ez characters use the Ge'ez font
+    const drawText = (text, options) => {
+      let x = options.x;
+      for (const run of toFontRuns(text, options.font, geezFont)) {
+        page.drawText(run.text, { ...options, x, font: run.font });
+        x += run.font.widthOfTextAtSize(run.text, options.size);
+      }
+    };
+
+    // Helper function for the centered Tigrinya line under an English line on bilingual certificates
+    const drawSecondaryLine = (line, y, size, fontType, color) => {
+      if (!secondaryText || !line) return;
+      const lineWidth = getTextWidth(line, size, fontType);
+      drawText(line, { x: centerX - (lineWidth / 2), y, size, font: fontType, color });
     };
 
     // Helper function to truncate text if too long
@@ -635,16 +836,17 @@ exports.generateCertificatePDF = async function generateCertificatePDF(certifica
     });
     
     // Subtitle
-    const subtitle = 'Financial Education Platform';
+    const subtitle = text.subtitle;
     const subtitleSize = 11;
     const subtitleWidth = getTextWidth(subtitle, subtitleSize, serifFont);
-    page.drawText(subtitle, {
+    drawText(subtitle, {
       x: centerX - (subtitleWidth / 2),
       y: headerY - 22,
       size: subtitleSize,
       font: serifFont,
       color: mediumGray
     });
+    drawSecondaryLine(secondaryText?.subtitle, headerY - 36, 9, serifFont, mediumGray);
     
     // Certificate ID - top right (ensure it fits with proper margin)
     const certIdText = `ID: ${certificate.certificateId}`;
@@ -660,10 +862,10 @@ exports.generateCertificatePDF = async function generateCertificatePDF(certifica
 
     // Main title - more prominent
     const titleY = height - 150;
-    const mainTitle = 'CERTIFICATE OF COMPLETION';
+    const mainTitle = text.title;
     const mainTitleSize = 32;
     const mainTitleWidth = getTextWidth(mainTitle, mainTitleSize, serifBoldFont);
-    page.drawText(mainTitle, {
+    drawText(mainTitle, {
       x: centerX - (mainTitleWidth / 2),
       y: titleY,
       size: mainTitleSize,
@@ -686,32 +888,35 @@ exports.generateCertificatePDF = async function generateCertificatePDF(certifica
       thickness: 1,
       color: accentGold
     });
+    drawSecondaryLine(secondaryText?.title, lineY - 22, 16, serifBoldFont, deepBlue);
 
     // Main content - more spacious
     let currentY = height - 250;
 
     // Certificate text - elegant
-    const certifyText = 'This is to certify that';
+    const certifyText = text.intro;
     const certifyTextSize = 16;
     const certifyTextWidth = getTextWidth(certifyText, certifyTextSize, serifFont);
-    page.drawText(certifyText, {
+    drawText(certifyText, {
       x: centerX - (certifyTextWidth / 2),
       y: currentY,
       size: certifyTextSize,
       font: serifFont,
       color: mediumGray
     });
+    drawSecondaryLine(secondaryText?.intro, currentY - 17, 12, serifFont, mediumGray);
 
     // Student name - most prominent and elegant (with truncation if needed)
     currentY -= 65;
     const studentNameSize = 32;
     const maxNameWidth = width - 120; // Leave margins
-    let studentName = toEnglishText(certificate.studentName);
+    // Without a Ge'ez font, Ge'ez characters in the name are left out
+    let studentName = (geezFont ? studentNameText : studentNameText.replace(new RegExp(GEEZ_CHAR.source, 'g'), '')).trim();
     if (getTextWidth(studentName, studentNameSize, serifBoldFont) > maxNameWidth) {
       studentName = truncateText(studentName, maxNameWidth, studentNameSize, serifBoldFont);
     }
     const studentNameWidth = getTextWidth(studentName, studentNameSize, serifBoldFont);
-    page.drawText(studentName, {
+    drawText(studentName, {
       x: centerX - (studentNameWidth / 2),
       y: currentY,
       size: studentNameSize,
@@ -737,54 +942,59 @@ exports.generateCertificatePDF = async function generateCertificatePDF(certifica
 
     // Completion text
     currentY -= 55;
-    const completionText = 'has successfully completed the course';
+    const completionText = text.completionText;
     const completionTextSize = 16;
     const completionTextWidth = getTextWidth(completionText, completionTextSize, serifFont);
-    page.drawText(completionText, {
+    drawText(completionText, {
       x: centerX - (completionTextWidth / 2),
       y: currentY,
       size: completionTextSize,
       font: serifFont,
       color: mediumGray
     });
+    drawSecondaryLine(secondaryText?.completionText, currentY - 17, 12, serifFont, mediumGray);
 
     // Course title - prominent (with truncation if needed)
     currentY -= 55;
     const courseTitleSize = 20;
     const maxCourseTitleWidth = width - 100; // Leave margins
-    let courseTitle = toEnglishText(certificate.courseTitle);
+    let courseTitle = language === 'tg' ? courseTitles.tg : courseTitles.en;
     if (getTextWidth(courseTitle, courseTitleSize, serifBoldFont) > maxCourseTitleWidth) {
       courseTitle = truncateText(courseTitle, maxCourseTitleWidth, courseTitleSize, serifBoldFont);
     }
     const courseTitleWidth = getTextWidth(courseTitle, courseTitleSize, serifBoldFont);
-    page.drawText(courseTitle, {
+    drawText(courseTitle, {
       x: centerX - (courseTitleWidth / 2),
       y: currentY,
       size: courseTitleSize,
       font: serifBoldFont,
       color: darkGray
     });
+    if (secondaryText && courseTitles.tg !== courseTitles.en) {
+      const secondaryCourseTitle = truncateText(courseTitles.tg, maxCourseTitleWidth, 15, serifBoldFont);
+      drawSecondaryLine(secondaryCourseTitle, currentY - 22, 15, serifBoldFont, darkGray);
+    }
 
     // Course details section
     currentY -= 75;
     const detailsY = currentY;
     
     // Completion date - elegant formatting
-    const completionDate = new Date(certificate.completionDate).toLocaleDateString('en-US', {
-      year: 'numeric',
-      month: 'long',
-      day: 'numeric'
-    });
-    const dateText = `Completed on ${completionDate}`;
+    const completionDate = formatDocumentDate(certificate.completionDate, language);
+    const dateText = `${text.completedOn} ${completionDate}`;
     const dateTextSize = 12;
     const dateTextWidth = getTextWidth(dateText, dateTextSize, boldFont);
-    page.drawText(dateText, {
+    drawText(dateText, {
       x: centerX - (dateTextWidth / 2),
       y: detailsY,
       size: dateTextSize,
       font: boldFont,
       color: deepBlue
     });
+    if (secondaryText) {
+      const secondaryDate = `${secondaryText.completedOn} ${formatDocumentDate(certificate.completionDate, 'tg')}`;
+      drawSecondaryLine(secondaryDate, detailsY - 15, 10, boldFont, deepBlue);
+    }
 
     // Prestigious seal/emblem - larger and more ornate
     const sealRadius = 45;
@@ -812,10 +1022,10 @@ exports.generateCertificatePDF = async function generateCertificatePDF(certifica
     });
     
     // Seal text - properly centered and sized to fit in circle
-    const sealText1 = 'CERTIFIED';
+    const sealText1 = text.sealTop;
     const sealText1Size = 10;
     const sealText1Width = getTextWidth(sealText1, sealText1Size, boldFont);
-    page.drawText(sealText1, {
+    drawText(sealText1, {
       x: sealX - (sealText1Width / 2),
       y: sealY + 6,
       size: sealText1Size,
@@ -823,10 +1033,10 @@ exports.generateCertificatePDF = async function generateCertificatePDF(certifica
       color: deepBlue
     });
     
-    const sealText2 = 'COMPLETE';
+    const sealText2 = text.sealBottom;
     const sealText2Size = 10;
     const sealText2Width = getTextWidth(sealText2, sealText2Size, boldFont);
-    page.drawText(sealText2, {
+    drawText(sealText2, {
       x: sealX - (sealText2Width / 2),
       y: sealY - 10,
       size: sealText2Size,
@@ -836,10 +1046,10 @@ exports.generateCertificatePDF = async function generateCertificatePDF(certifica
 
     // Verification section - more prominent
     const verificationY = sealY - 60;
-    const verifyLabel = 'Verify this certificate at:';
+    const verifyLabel = text.verifyLabel;
     const verifyLabelSize = 9;
     const verifyLabelWidth = getTextWidth(verifyLabel, verifyLabelSize, font);
-    page.drawText(verifyLabel, {
+    drawText(verifyLabel, {
       x: centerX - (verifyLabelWidth / 2),
       y: verificationY,
       size: verifyLabelSize,
@@ -847,9 +1057,6 @@ exports.generateCertificatePDF = async function generateCertificatePDF(certifica
       color: lightGray
     });
 
-    // Get base URL from environment or use default
-    const baseUrl = process.env.FRONTEND_URL || process.env.BASE_URL || 'https://ibyet-investing.com';
-    const verifyUrl = `${baseUrl}/verify/${certificate.certificateId}`;
     const verifyUrlSize = 9;
     const maxVerifyUrlWidth = width - 80;
     let displayVerifyUrl = verifyUrl;
@@ -866,14 +1073,31 @@ exports.generateCertificatePDF = async function generateCertificatePDF(certifica
       color: deepBlue
     });
 
+    // QR code linking to the verification page - bottom right, inside the border
+    const qrSize = 72;
+    const qrX = width - cornerOffset - qrSize - 20;
+    const qrY = cornerOffset + 15;
+    const qrImage = await pdfDoc.embedPng(await QRCode.toBuffer(verifyUrl, { type: 'png', margin: 1, width: 288 }));
+    page.drawImage(qrImage, { x: qrX, y: qrY, width: qrSize, height: qrSize });
+
+    const scanText = text.scanToVerify;
+    const scanTextSize = 7;
+    const scanTextWidth = getTextWidth(scanText, scanTextSize, font);
+    drawText(scanText, {
+      x: qrX + (qrSize - scanTextWidth) / 2,
+      y: qrY - 10,
+      size: scanTextSize,
+      font: font,
+      color: mediumGray
+    });
+
     // Footer removed as requested
 
-    // Generate PDF bytes
-    const pdfBytes = await pdfDoc.save();
-    return Buffer.from(pdfBytes);
+    return await finalizeCertificatePDF(pdfDoc, certificate, verifyUrl, language);
 
   } catch (error) {
     console.error('❌ [Certificate] Error generating PDF:', error);
+    if (error.name === 'DocumentLanguageError') throw error;
     throw new Error('Failed to generate certificate PDF');
   }
 }
@@ -959,6 +1183,12 @@ exports.autoGenerateCertificate = async (userId, courseId) => {
       }
     }
 
+    // Check that every required quiz has a passing attempt
+    if (!courseProgress.quizzesPassed) {
+      console.log(`ℹ️ [Certificate] Required quizzes not passed (${courseProgress.passedQuizzes}/${courseProgress.requiredQuizzes})`);
+      return null;
+    }
+
     // Generate certificate
     const certificateId = Certificate.generateCertificateId();
     
@@ -968,7 +1198,7 @@ exports.autoGenerateCertificate = async (userId, courseId) => {
       courseId,
       studentName: user.name,
       courseTitle: course.title,
-      instructorName: course.instructorName || 'IBYET-INVESTING',
+      instructorName: (await course.getInstructorNames()) || 'IBYET-INVESTING',
       completionDate: new Date(),
       totalLessons: course.videos.length,
       completedLessons: courseProgress.completedVideos,
@@ -991,3 +1221,151 @@ exports.autoGenerateCertificate = async (userId, courseId) => {
     return null;
   }
 };
+
+// ========================================
+// ADMIN: revocation and reissue
+// ========================================
+
+const MAX_ADMIN_PAGE_SIZE = 100;
+
+const escapeRegex = (value) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Admin actor and request metadata for the certificate service
+const getAdminActor = (req) => ({
+  performedBy: req.admin?.email || req.user?.email || 'admin',
+  performedById: req.admin?.userId || null,
+  ipAddress: req.ip,
+  userAgent: req.get('user-agent')
+});
+
+const handleAdminCertificateError = (res, error, message) => {
+  if (error.name === 'CertificateError') {
+    return res.status(400).json({
+      success: false,
+      message: error.message
+    });
+  }
+  console.error(`❌ [Certificate] ${message}:`, error);
+  res.status(500).json({
+    success: false,
+    message,
+    error: error.message
+  });
+};
+
+/**
+ * List certificates for the admin panel, newest first
+ * GET /api/certificates/admin?search=&status=&page=&limit=
+ */
+exports.getAdminCertificates = async (req, res) => {
+  try {
+    const { search = '', status = '' } = req.query;
+    const limit = Math.min(Math.max(parseInt(req.query.limit) || 25, 1), MAX_ADMIN_PAGE_SIZE);
+    const page = Math.max(parseInt(req.query.page) || 1, 1);
+
+    const filter = {};
+    if (search.trim()) {
+      const pattern = { $regex: escapeRegex(search.trim()), $options: 'i' };
+      filter.$or = [{ certificateId: pattern }, { studentName: pattern }, { courseTitle: pattern }];
+    }
+    if (status === 'active') {
+      // Certificates issued before statuses existed have none
+      filter.status = { $nin: ['revoked', 'superseded'] };
+    } else if (status) {
+      filter.status = status;
+    }
+
+    const [certificates, total] = await Promise.all([
+      Certificate.find(filter)
+        .select('-signedCredential -verificationHash')
+        .populate('studentId', 'name email')
+        .sort({ dateIssued: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .lean(),
+      Certificate.countDocuments(filter)
+    ]);
+
+    res.json({
+      success: true,
+      data: {
+        certificates: certificates.map(certificate => ({ ...certificate, status: certificate.status || 'active' })),
+        pagination: {
+          page,
+          pages: Math.ceil(total / limit),
+          total,
+          limit
+        }
+      }
+    });
+  } catch (error) {
+    handleAdminCertificateError(res, error, 'Failed to load certificates');
+  }
+};
+
+/**
+ * Revoke a certificate
+ * POST /api/certificates/admin/:certificateId/revoke
+ * Body: { reason }
+ */
+exports.revokeCertificate = async (req, res) => {
+  try {
+    const certificate = await Certificate.findOne({ certificateId: req.params.certificateId });
+    if (!certificate) {
+      return res.status(404).json({
+        success: false,
+        message: 'Certificate not found'
+      });
+    }
+
+    await certificateService.revoke(certificate, { reason: req.body.reason, ...getAdminActor(req) });
+
+    res.json({
+      success: true,
+      message: 'Certificate revoked',
+      data: { certificate }
+    });
+  } catch (error) {
+    handleAdminCertificateError(res, error, 'Failed to revoke certificate');
+  }
+};
+
+/**
+ * Reissue a certificate with a corrected student name or course title. The original is kept
+ * as superseded and points at the new certificate.
+ * POST /api/certificates/admin/:certificateId/reissue
+ * Body: { studentName?, courseTitle?, reason? }
+ */
+exports.reissueCertificate = async (req, res) => {
+  try {
+    const certificate = await Certificate.findOne({ certificateId: req.params.certificateId });
+    if (!certificate) {
+      return res.status(404).json({
+        success: false,
+        message: 'Certificate not found'
+      });
+    }
+
+    const { studentName, courseTitle, reason } = req.body;
+    const actor = getAdminActor(req);
+    const { replacement, changes } = certificateService.buildReplacement(certificate, {
+      studentName,
+      courseTitle,
+      reason,
+      performedBy: actor.performedBy
+    });
+
+    const pdfBuffer = await exports.generateCertificatePDF(replacement);
+    replacement.pdfUrl = await saveCertificatePDF(pdfBuffer, replacement.certificateId, replacement.courseTitle);
+
+    await certificateService.completeReissue(certificate, replacement, { changes, reason, ...actor });
+
+    res.json({
+      success: true,
+      message: `Certificate reissued as ${replacement.certificateId}`,
+      data: { certificate: replacement, previous: certificate }
+    });
+  } catch (error) {
+    handleAdminCertificateError(res, error, 'Failed to reissue certificate');
+  }
+};
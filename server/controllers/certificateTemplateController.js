@@ -0,0 +1,279 @@
+const path = require('path');
+const CertificateTemplate = require('../models/CertificateTemplate');
+const Course = require('../models/Course');
+const certificateTemplateService = require('../services/certificateTemplateService');
+const { uploadFileWithOrganization } = require('../utils/s3');
+
+const TEMPLATE_FIELDS = [
+  'name', 'description', 'background', 'showBorder', 'logo', 'logoPlacement',
+  'signatures', 'colors', 'fonts', 'texts', 'fields', 'qrCode'
+];
+
+// Accepted uploads per asset kind
+const ASSET_TYPES = {
+  image: { extensions: ['.png', '.jpg', '.jpeg'], label: 'PNG or JPEG images' },
+  font: { extensions: ['.ttf', '.otf'], label: 'TTF or OTF fonts' }
+};
+
+/**
+ * Pick the admin-editable template fields from a request body
+ */
+const buildTemplateFields = (body) => {
+  const fields = {};
+  TEMPLATE_FIELDS.forEach(key => {
+    if (body[key] !== undefined) fields[key] = body[key];
+  });
+  return fields;
+};
+
+const getAdminEmail = (req) => req.admin?.email || req.user?.email || 'admin';
+
+/**
+ * List certificate templates with the number of courses using each
+ * GET /api/admin/certificate-templates
+ */
+exports.getTemplates = async (req, res) => {
+  try {
+    const templates = await CertificateTemplate.find().sort({ name: 1 }).lean();
+    const usage = await Course.aggregate([
+      { $match: { certificateTemplate: { $in: templates.map(template => template._id) } } },
+      { $group: { _id: '$certificateTemplate', count: { $sum: 1 } } }
+    ]);
+    const usageById = new Map(usage.map(entry => [entry._id.toString(), entry.count]));
+
+    res.json({
+      success: true,
+      data: {
+        templates: templates.map(template => ({
+          ...template,
+          courseCount: usageById.get(template._id.toString()) || 0
+        }))
+      }
+    });
+  } catch (error) {
+    console.error('❌ Error fetching certificate templates:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch certificate templates',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Default settings for a new template, so the editor starts from the same layout the server would use
+ * GET /api/admin/certificate-templates/defaults
+ */
+exports.getTemplateDefaults = async (req, res) => {
+  try {
+    const { _id, ...template } = new CertificateTemplate({ name: '' }).toObject();
+
+    res.json({
+      success: true,
+      data: { template }
+    });
+  } catch (error) {
+    console.error('❌ Error building certificate template defaults:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to load template defaults',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Create a certificate template
+ * POST /api/admin/certificate-templates
+ */
+exports.createTemplate = async (req, res) => {
+  try {
+    const adminEmail = getAdminEmail(req);
+    const template = await CertificateTemplate.create({
+      ...buildTemplateFields(req.body),
+      createdBy: adminEmail,
+      lastModifiedBy: adminEmail
+    });
+
+    console.log(`✅ [CertificateTemplate] Created template "${template.name}" by ${adminEmail}`);
+
+    res.status(201).json({
+      success: true,
+      message: 'Certificate template created successfully',
+      data: { template }
+    });
+  } catch (error) {
+    console.error('❌ Error creating certificate template:', error);
+    res.status(400).json({
+      success: false,
+      message: error.message || 'Failed to create certificate template'
+    });
+  }
+};
+
+/**
+ * Update a certificate template. Certificates already issued keep their PDF;
+ * new downloads and reissues use the new design.
+ * PUT /api/admin/certificate-templates/:id
+ */
+exports.updateTemplate = async (req, res) => {
+  try {
+    const template = await CertificateTemplate.findById(req.params.id);
+    if (!template) {
+      return res.status(404).json({
+        success: false,
+        message: 'Certificate template not found'
+      });
+    }
+
+    template.set(buildTemplateFields(req.body));
+    template.lastModifiedBy = getAdminEmail(req);
+    await template.save();
+
+    console.log(`✅ [CertificateTemplate] Updated template "${template.name}"`);
+
+    res.json({
+      success: true,
+      message: 'Certificate template updated successfully',
+      data: { template }
+    });
+  } catch (error) {
+    console.error('❌ Error updating certificate template:', error);
+    res.status(400).json({
+      success: false,
+      message: error.message || 'Failed to update certificate template'
+    });
+  }
+};
+
+/**
+ * Delete a certificate template that no course uses
+ * DELETE /api/admin/certificate-templates/:id
+ */
+exports.deleteTemplate = async (req, res) => {
+  try {
+    const template = await CertificateTemplate.findById(req.params.id);
+    if (!template) {
+      return res.status(404).json({
+        success: false,
+        message: 'Certificate template not found'
+      });
+    }
+
+    const courseCount = await Course.countDocuments({ certificateTemplate: template._id });
+    if (courseCount > 0) {
+      return res.status(400).json({
+        success: false,
+        message: `This template is used by ${courseCount} course(s). Choose another template for them first.`
+      });
+    }
+
+    await template.deleteOne();
+    console.log(`🗑️ [CertificateTemplate] Deleted template "${template.name}"`);
+
+    res.json({
+      success: true,
+      message: 'Certificate template deleted successfully'
+    });
+  } catch (error) {
+    console.error('❌ Error deleting certificate template:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to delete certificate template',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Render a template (saved or still being edited) with sample data
+ * POST /api/admin/certificate-templates/preview
+ * Body: { template, courseId?, sample?: { studentName, courseTitle } }
+ */
+exports.previewTemplate = async (req, res) => {
+  try {
+    const { template: templateData = {}, courseId, sample = {} } = req.body;
+
+    // An unsaved document gives the draft the same defaults and validation as a saved template
+    const template = new CertificateTemplate({ name: 'Preview', ...buildTemplateFields(templateData) });
+    const validationError = template.validateSync();
+    if (validationError) {
+      return res.status(400).json({
+        success: false,
+        message: validationError.message
+      });
+    }
+
+    const course = courseId ? await Course.findById(courseId) : null;
+    const courseTitle = course?.title && typeof course.title === 'object' ? course.title.en : course?.title;
+    const certificateId = 'CERT-PREVIEW';
+    const baseUrl = process.env.FRONTEND_URL || process.env.BASE_URL || 'https://ibyet-investing.com';
+
+    const pdfDoc = await certificateTemplateService.renderCertificate(template, {
+      certificateId,
+      studentName: sample.studentName || 'Student Name',
+      courseTitle: sample.courseTitle || courseTitle || 'Course Title',
+      instructorName: (course && await course.getInstructorNames()) || 'IBYET-INVESTING',
+      completionDate: new Date()
+    }, { verifyUrl: `${baseUrl}/verify/${certificateId}`, preview: true });
+    const pdfBytes = await pdfDoc.save();
+
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', 'inline; filename="certificate-preview.pdf"');
+    res.setHeader('Cache-Control', 'no-store');
+    res.send(Buffer.from(pdfBytes));
+  } catch (error) {
+    console.error('❌ Error rendering certificate preview:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to render certificate preview',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Upload template artwork, a signature or a font
+ * POST /api/admin/certificate-templates/assets
+ * Multipart: file, kind ('image' | 'font')
+ */
+exports.uploadAsset = async (req, res) => {
+  try {
+    const assetType = ASSET_TYPES[req.body.kind];
+    if (!req.file || !assetType) {
+      return res.status(400).json({
+        success: false,
+        message: 'A file and a kind (image or font) are required'
+      });
+    }
+
+    const extension = path.extname(req.file.originalname).toLowerCase();
+    if (!assetType.extensions.includes(extension)) {
+      return res.status(400).json({
+        success: false,
+        message: `Only ${assetType.label} are allowed`
+      });
+    }
+
+    const result = await uploadFileWithOrganization(req.file, 'certificate-template');
+    console.log(`📤 [CertificateTemplate] Uploaded ${req.body.kind} ${req.file.originalname}`);
+
+    res.status(201).json({
+      success: true,
+      data: {
+        asset: {
+          s3Key: result.s3Key,
+          url: result.url,
+          name: req.file.originalname
+        }
+      }
+    });
+  } catch (error) {
+    console.error('❌ Error uploading certificate template asset:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to upload file',
+      error: error.message
+    });
+  }
+};
@@ -0,0 +1,242 @@
+const Coupon = require('../models/Coupon');
+const Course = require('../models/Course');
+const Bundle = require('../models/Bundle');
+const Payment = require('../models/Payment');
+const couponService = require('../services/couponService');
+const { getItemPrice } = require('../utils/currency');
+
+/**
+ * Pick the admin-editable coupon fields from a request body
+ */
+const buildCouponFields = (body) => {
+  const fields = {};
+  ['code', 'description', 'discountType', 'scope', 'isActive'].forEach(key => {
+    if (body[key] !== undefined) fields[key] = body[key];
+  });
+  ['discountValue', 'maxRedemptions', 'perUserLimit'].forEach(key => {
+    if (body[key] !== undefined && body[key] !== '') fields[key] = Number(body[key]);
+  });
+  ['startsAt', 'expiresAt'].forEach(key => {
+    if (body[key] !== undefined) fields[key] = body[key] ? new Date(body[key]) : null;
+  });
+  if (fields.scope !== undefined) {
+    // Only keep the targets that match the scope
+    fields.courseIds = fields.scope === 'course' ? (body.courseIds || []) : [];
+    fields.bundleIds = fields.scope === 'bundle' ? (body.bundleIds || []) : [];
+  }
+  return fields;
+};
+
+// ========================================
+// STUDENT ENDPOINTS
+// ========================================
+
+/**
+ * Preview a promo code against a course or bundle before checkout
+ * POST /api/coupons/validate
+ * Body: { code, courseId } OR { code, bundleId }, optional { currency }
+ */
+exports.validateCoupon = async (req, res) => {
+  try {
+    const { code, courseId, bundleId, currency } = req.body;
+    if (!code || (!courseId && !bundleId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'A code and a courseId or bundleId are required'
+      });
+    }
+
+    const itemType = bundleId ? 'bundle' : 'course';
+    const item = bundleId
+      ? await Bundle.findById(bundleId).select('price prices')
+      : await Course.findById(courseId).select('price prices');
+    if (!item) {
+      return res.status(404).json({
+        success: false,
+        message: `${itemType === 'bundle' ? 'Bundle' : 'Course'} not found`
+      });
+    }
+
+    const pricing = await couponService.applyCoupon({
+      code,
+      userId: req.user.id,
+      itemType,
+      item,
+      price: getItemPrice(item, currency)
+    });
+
+    res.json({
+      success: true,
+      data: {
+        code: pricing.coupon.code,
+        discountType: pricing.coupon.discountType,
+        discountValue: pricing.coupon.discountValue,
+        originalAmount: pricing.originalAmount,
+        discountAmount: pricing.discountAmount,
+        finalAmount: pricing.finalAmount,
+        currency: pricing.currency
+      }
+    });
+  } catch (error) {
+    if (error.name === 'CouponError') {
+      return res.status(400).json({
+        success: false,
+        message: error.message
+      });
+    }
+    console.error('❌ Error validating coupon:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to validate promo code',
+      error: error.message
+    });
+  }
+};
+
+// ========================================
+// ADMIN ENDPOINTS
+// ========================================
+
+/**
+ * List all coupons with their targets
+ * GET /api/coupons/admin
+ */
+exports.getAdminCoupons = async (req, res) => {
+  try {
+    const coupons = await Coupon.find()
+      .select('-userRedemptions')
+      .populate('courseIds', 'title')
+      .populate('bundleIds', 'title')
+      .sort({ createdAt: -1 });
+
+    res.json({
+      success: true,
+      data: { coupons }
+    });
+  } catch (error) {
+    console.error('❌ Error fetching coupons:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch coupons',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Create a coupon
+ * POST /api/coupons/admin
+ * Body: { code, description, discountType, discountValue, scope, courseIds, bundleIds, startsAt, expiresAt, maxRedemptions, perUserLimit, isActive }
+ */
+exports.createCoupon = async (req, res) => {
+  try {
+    const fields = buildCouponFields(req.body);
+    if (await Coupon.findByCode(fields.code)) {
+      return res.status(400).json({
+        success: false,
+        message: 'A coupon with this code already exists'
+      });
+    }
+
+    const coupon = await Coupon.create({
+      ...fields,
+      createdBy: req.admin?.email || req.user?.email || 'admin'
+    });
+
+    console.log(`✅ [Coupon] Created coupon ${coupon.code} (${coupon.discountType} ${coupon.discountValue}, ${coupon.scope})`);
+
+    res.status(201).json({
+      success: true,
+      message: 'Coupon created successfully',
+      data: { coupon }
+    });
+  } catch (error) {
+    console.error('❌ Error creating coupon:', error);
+    res.status(400).json({
+      success: false,
+      message: error.message || 'Failed to create coupon'
+    });
+  }
+};
+
+/**
+ * Update a coupon. Past redemptions keep the discount they were charged with.
+ * PUT /api/coupons/admin/:id
+ */
+exports.updateCoupon = async (req, res) => {
+  try {
+    const coupon = await Coupon.findById(req.params.id);
+    if (!coupon) {
+      return res.status(404).json({
+        success: false,
+        message: 'Coupon not found'
+      });
+    }
+
+    const fields = buildCouponFields(req.body);
+    if (fields.code && fields.code.toUpperCase() !== coupon.code) {
+      const existing = await Coupon.findByCode(fields.code);
+      if (existing) {
+        return res.status(400).json({
+          success: false,
+          message: 'A coupon with this code already exists'
+        });
+      }
+    }
+
+    coupon.set(fields);
+    await coupon.save();
+
+    console.log(`✅ [Coupon] Updated coupon ${coupon.code}`);
+
+    res.json({
+      success: true,
+      message: 'Coupon updated successfully',
+      data: { coupon }
+    });
+  } catch (error) {
+    console.error('❌ Error updating coupon:', error);
+    res.status(400).json({
+      success: false,
+      message: error.message || 'Failed to update coupon'
+    });
+  }
+};
+
+/**
+ * Delete a coupon. Coupons that were redeemed are deactivated so receipts keep their reference.
+ * DELETE /api/coupons/admin/:id
+ */
+exports.deleteCoupon = async (req, res) => {
+  try {
+    const coupon = await Coupon.findById(req.params.id);
+    if (!coupon) {
+      return res.status(404).json({
+        success: false,
+        message: 'Coupon not found'
+      });
+    }
+
+    const redemptions = await Payment.countDocuments({ 'coupon.couponId': coupon._id });
+    if (redemptions > 0) {
+      coupon.isActive = false;
+      await coupon.save();
+      console.log(`📦 [Coupon] Deactivated coupon ${coupon.code} (${redemptions} redemptions kept)`);
+    } else {
+      await coupon.deleteOne();
+      console.log(`🗑️ [Coupon] Deleted coupon ${coupon.code}`);
+    }
+
+    res.json({
+      success: true,
+      message: redemptions > 0 ? 'Coupon deactivated (redemptions kept)' : 'Coupon deleted successfully'
+    });
+  } catch (error) {
+    console.error('❌ Error deleting coupon:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to delete coupon',
+      error: error.message
+    });
+  }
+};
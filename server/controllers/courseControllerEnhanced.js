@@ -1,3 +1,4 @@
+const mongoose = require('mongoose');
 const Course = require('../models/Course');
 const CourseVersion = require('../models/CourseVersion');
 const Video = require('../models/Video');
@@ -14,15 +15,66 @@ const {
   deleteFileFromS3,
   getThumbnailUrl
 } = require('../utils/s3CourseManager');
+const { parseLocalPrices } = require('../utils/currency');
+const User = require('../models/User');
+const AuditLog = require('../models/AuditLog');
+const CertificateTemplate = require('../models/CertificateTemplate');
+const CourseView = require('../models/CourseView');
+const { PERMISSIONS } = require('../config/adminRoles');
+const { getEnglishText } = require('../utils/bilingualHelper');
+
+// Course fields whose before/after values are kept in the audit trail
+const AUDITED_COURSE_FIELDS = ['title', 'description', 'price', 'prices', 'category', 'tags', 'level', 'status', 'isPublic', 'maxEnrollments', 'hasWhatsappGroup', 'whatsappGroupLink', 'featured', 'instructors', 'certificateTemplate'];
+
+/**
+ * Record a course lifecycle action in the audit trail
+ */
+const logCourseAction = (req, course, action, extra = {}) => AuditLog.logAdminAction(req, {
+  action,
+  entityType: 'course',
+  entityId: course._id,
+  entityTitle: getEnglishText(course.title) || 'Untitled',
+  ...extra
+});
+
+const canManageAllCourses = (req) => Boolean(req.admin?.permissions?.includes(PERMISSIONS.CONTENT_MANAGE));
+
+/**
+ * Validate the instructor ids sent with a course (array, JSON string or comma-separated list)
+ * @returns {Promise<Array|null>} Ids of instructor accounts, or null when any id is not an instructor
+ */
+const resolveInstructorIds = async (value) => {
+  let ids = value;
+  if (typeof ids === 'string') {
+    ids = ids.trim().startsWith('[') ? JSON.parse(ids) : ids.split(',');
+  }
+  ids = [...new Set((Array.isArray(ids) ? ids : []).map(id => String(id).trim()).filter(Boolean))];
+  if (ids.length === 0) return [];
+  if (!ids.every(id => mongoose.isValidObjectId(id))) return null;
+
+  const instructors = await User.find({ _id: { $in: ids }, adminRole: 'instructor' }).select('_id');
+  return instructors.length === ids.length ? ids : null;
+};
 
 /**
  * Create a new course with versioning
  */
 const createCourse = async (req, res) => {
   try {
-    const { title, description, price, category, tags, level, isPublic = true, maxEnrollments, hasWhatsappGroup, whatsappGroupLink } = req.body;
+    const { title, description, price, prices, category, tags, level, isPublic = true, maxEnrollments, hasWhatsappGroup, whatsappGroupLink } = req.body;
     const adminEmail = req.admin?.email || req.user?.email || 'admin';
 
+    // Instructors always teach the courses they create; content managers assign whoever they like
+    const instructors = canManageAllCourses(req)
+      ? await resolveInstructorIds(req.body.instructors)
+      : [req.admin.userId];
+    if (!instructors) {
+      return res.status(400).json({
+        success: false,
+        message: 'Instructors must be accounts with the Instructor role'
+      });
+    }
+
     // Validate required fields
     if (!title || !description || !price || !category || !level) {
       return res.status(400).json({ 
@@ -54,6 +106,7 @@ const createCourse = async (req, res) => {
       title,
       description,
       price: parseFloat(price),
+      prices: parseLocalPrices(prices),
       category,
       level,
       tags: tags ? (Array.isArray(tags) ? tags : tags.split(',').map(tag => tag.trim()).filter(tag => tag)) : [],
@@ -61,6 +114,7 @@ const createCourse = async (req, res) => {
       maxEnrollments: maxEnrollments ? parseInt(maxEnrollments) : null,
       hasWhatsappGroup: Boolean(hasWhatsappGroup),
       whatsappGroupLink: whatsappGroupLink || '',
+      instructors,
       createdBy: adminEmail,
       lastModifiedBy: adminEmail,
       version: 1,
@@ -89,6 +143,9 @@ const createCourse = async (req, res) => {
     // Extract title string for logging
     const titleString = typeof course.title === 'string' ? course.title : (course.title?.en || course.title?.tg || 'Untitled');
     console.log(`✅ Course created: ${titleString} (ID: ${course._id}) by ${adminEmail}`);
+    await logCourseAction(req, course, 'course_created', {
+      details: { price: course.price, category: course.category, level: course.level, instructors: course.instructors }
+    });
 
     res.status(201).json({
       success: true,
@@ -333,6 +390,14 @@ const uploadVideo = async (req, res) => {
     // Update version statistics
     await courseVersion.updateStatistics();
 
+    // Run metadata/poster/HLS processing in the background
+    const videoProcessingService = require('../services/videoProcessingService');
+    try {
+      await videoProcessingService.enqueue(video._id, adminEmail);
+    } catch (error) {
+      console.error(`❌ Failed to queue processing job for video ${video._id}:`, error);
+    }
+
     console.log(`✅ Video uploaded for course: ${course.title} v${version} by ${adminEmail}`);
 
     res.json({
@@ -430,7 +495,7 @@ const createNewVersion = async (req, res) => {
 const updateCourse = async (req, res) => {
   try {
     const { id } = req.params;
-    let { title, description, price, category, tags, level, status, isPublic, maxEnrollments, hasWhatsappGroup, whatsappGroupLink, featured } = req.body;
+    let { title, description, price, prices, category, tags, level, status, isPublic, maxEnrollments, hasWhatsappGroup, whatsappGroupLink, featured } = req.body;
     const adminEmail = req.admin?.email || req.user?.email || 'admin';
 
     // Parse bilingual title and description if they come as JSON strings
@@ -454,10 +519,14 @@ const updateCourse = async (req, res) => {
       });
     }
 
+    const before = course.toObject();
+
     // Update main course
     if (title) course.title = title;
     if (description) course.description = description;
     if (price) course.price = parseFloat(price);
+    const localPrices = parseLocalPrices(prices);
+    if (localPrices) course.prices = localPrices;
     if (category) {
       const validCategories = ['crypto', 'investing', 'trading', 'stock-market', 'etf', 'option-trading', 'other'];
       if (!validCategories.includes(category)) {
@@ -502,6 +571,27 @@ const updateCourse = async (req, res) => {
     if (typeof featured === 'boolean') {
       course.featured = featured;
     }
+    // Only content managers can change who teaches a course
+    if (req.body.instructors !== undefined && canManageAllCourses(req)) {
+      const instructors = await resolveInstructorIds(req.body.instructors);
+      if (!instructors) {
+        return res.status(400).json({
+          success: false,
+          message: 'Instructors must be accounts with the Instructor role'
+        });
+      }
+      course.instructors = instructors;
+    }
+    if (req.body.certificateTemplate !== undefined) {
+      const templateId = req.body.certificateTemplate || null;
+      if (templateId && !(mongoose.Types.ObjectId.isValid(templateId) && await CertificateTemplate.exists({ _id: templateId }))) {
+        return res.status(400).json({
+          success: false,
+          message: 'Certificate template not found'
+        });
+      }
+      course.certificateTemplate = templateId;
+    }
 
     course.lastModifiedBy = adminEmail;
     await course.save();
@@ -523,6 +613,11 @@ const updateCourse = async (req, res) => {
 
     console.log(`✅ Course updated: ${course.title} by ${adminEmail}`);
 
+    const changes = AuditLog.diffChanges(before, course.toObject(), AUDITED_COURSE_FIELDS);
+    if (changes.length > 0) {
+      await logCourseAction(req, course, 'course_updated', { changes });
+    }
+
     res.json({
       success: true,
       message: 'Course updated successfully',
@@ -574,6 +669,7 @@ const deactivateCourse = async (req, res) => {
     await course.deactivate(reason || 'Admin request');
 
     console.log(`✅ Course deactivated: ${course.title} by ${adminEmail}`);
+    await logCourseAction(req, course, 'course_deactivated', { details: { reason: reason || 'Admin request' } });
 
     res.json({
       success: true,
@@ -626,6 +722,7 @@ const reactivateCourse = async (req, res) => {
     await course.reactivate();
 
     console.log(`✅ Course reactivated: ${course.title} by ${adminEmail}`);
+    await logCourseAction(req, course, 'course_reactivated');
 
     res.json({
       success: true,
@@ -684,6 +781,7 @@ const archiveCourse = async (req, res) => {
     }
 
     console.log(`✅ Course archived: ${course.title} by ${adminEmail}`);
+    await logCourseAction(req, course, 'course_archived', { details: { reason: reason || 'Admin request', gracePeriodMonths } });
 
     res.json({
       success: true,
@@ -739,6 +837,7 @@ const unarchiveCourse = async (req, res) => {
     }
 
     console.log(`✅ Course unarchived: ${course.title} by ${adminEmail}`);
+    await logCourseAction(req, course, 'course_unarchived');
 
     res.json({
       success: true,
@@ -1031,7 +1130,6 @@ const deleteCourse = async (req, res) => {
       console.log(`✅ Deleted course "${titleString}" from database`);
 
       // Create audit log entry
-      const AuditLog = require('../models/AuditLog');
       await AuditLog.logAction({
         action: 'course_deleted',
         entityType: 'course',
@@ -1105,7 +1203,7 @@ const getAllCourses = async (req, res) => {
   try {
     console.log('🔍 getAllCourses called with query:', req.query);
     
-    const { status, category, search, level, tag, priceRange, limit = 20, page = 1, sortBy = 'createdAt', sortOrder = 'desc' } = req.query;
+    const { status, category, search, level, tag, priceRange, instructorId, limit = 20, page = 1, sortBy = 'createdAt', sortOrder = 'desc' } = req.query;
     const skip = (parseInt(page) - 1) * parseInt(limit);
 
     let query = {};
@@ -1204,6 +1302,11 @@ const getAllCourses = async (req, res) => {
       additionalFilters.tags = { $in: [tag] };
     }
 
+    // Filter by instructor (also used by the admin panel to list an instructor's own courses)
+    if (instructorId && mongoose.isValidObjectId(instructorId)) {
+      additionalFilters.instructors = instructorId;
+    }
+
     // Filter by price range
     if (priceRange) {
       switch (priceRange) {
@@ -1657,7 +1760,8 @@ const getCourseById = async (req, res) => {
     const { id } = req.params;
     const { version } = req.query;
 
-    const course = await Course.findById(id);
+    const course = await Course.findById(id)
+      .populate('instructors', 'name instructorProfile.headline instructorProfile.bio instructorProfile.photoUrl instructorProfile.socialLinks');
     if (!course) {
       return res.status(404).json({
         success: false,
@@ -1925,6 +2029,41 @@ const updateStudentProgress = async (req, res) => {
   }
 };
 
+/**
+ * Count a course page view (for view-to-purchase conversion analytics)
+ */
+const recordCourseView = async (req, res) => {
+  try {
+    const { id } = req.params;
+    if (!mongoose.isValidObjectId(id)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid course ID'
+      });
+    }
+
+    const exists = await Course.exists({ _id: id, status: 'active' });
+    if (!exists) {
+      return res.status(404).json({
+        success: false,
+        message: 'Course not found'
+      });
+    }
+
+    await CourseView.recordView(id);
+
+    res.json({ success: true });
+
+  } catch (error) {
+    console.error('❌ Record course view error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to record course view',
+      error: error.message
+    });
+  }
+};
+
 module.exports = {
   createCourse,
   uploadThumbnail,
@@ -1942,5 +2081,6 @@ module.exports = {
   getUserPurchasedCourses,
   getCourseById,
   enrollStudent,
-  updateStudentProgress
+  updateStudentProgress,
+  recordCourseView
 }; 
\ No newline at end of file
@@ -2,6 +2,8 @@ const Video = require('../models/Video');
 const Course = require('../models/Course');
 const { checkVideoAccess } = require('../utils/purchaseUtils');
 const drmService = require('../services/drmService');
+const hlsService = require('../services/hlsService');
+const captionService = require('../services/captionService');
 const { getSignedUrlForFile } = require('../utils/s3CourseManager');
 
 /**
@@ -128,6 +130,8 @@ exports.getVideoByIdWithDRM = async (req, res) => {
           locked: false,
           hasAccess: true
         },
+        hls: hlsService.getPlaybackInfo(video, userId, req),
+        captions: captionService.getCaptionTracks(video, userId, req),
         drm: {
           enabled: !isAdmin,
           sessionId: drmSession?.sessionId || null,
@@ -313,6 +317,8 @@ exports.getCourseVideosWithDRM = async (req, res) => {
         // IMPORTANT: Do not include video URL or DRM data for locked videos
         url: null, // Explicitly set to null for locked videos
         videoUrl: null, // Explicitly set to null for locked videos
+        hls: null,
+        captions: [],
         drm: {
           enabled: false,
           sessionId: null,
@@ -374,6 +380,10 @@ exports.getCourseVideosWithDRM = async (req, res) => {
         }
       }
 
+      // Adaptive stream (signed playlists) when the video has been packaged
+      videoObj.hls = hlsService.getPlaybackInfo(video, userId, req);
+      videoObj.captions = captionService.getCaptionTracks(video, userId, req);
+
       // Provide fallback regular URL if no DRM URL is available (only if user has access and video is not locked)
       if (hasAccess && !isLocked && !videoObj.drm.encryptedUrl && video.s3Key) {
         try {
@@ -392,6 +402,8 @@ exports.getCourseVideosWithDRM = async (req, res) => {
       if (isLocked || !hasAccess) {
         videoObj.url = null;
         videoObj.videoUrl = null;
+        videoObj.hls = null;
+        videoObj.captions = [];
         videoObj.drm = {
           enabled: false,
           sessionId: null,
@@ -0,0 +1,85 @@
+const giftService = require('../services/giftService');
+
+/**
+ * Shape a Gift document for the buyer's gift history
+ */
+const serializeGift = (gift) => ({
+  _id: gift._id,
+  code: gift.status === 'revoked' ? null : gift.code,
+  itemType: gift.bundleId ? 'bundle' : 'course',
+  itemId: (gift.bundleId || gift.courseId)?._id,
+  itemTitle: (gift.bundleId || gift.courseId)?.title || null,
+  recipientEmail: gift.recipientEmail,
+  recipientName: gift.recipientName,
+  message: gift.message,
+  status: gift.status,
+  amount: gift.paymentId?.amount ?? null,
+  currency: gift.paymentId?.currency || 'usd',
+  emailSentAt: gift.emailSentAt,
+  redeemedAt: gift.redeemedAt,
+  redeemedByName: gift.redeemedBy?.name || null,
+  createdAt: gift.createdAt
+});
+
+const handleGiftError = (res, error, fallbackMessage) => {
+  if (error.name === 'GiftError') {
+    return res.status(400).json({
+      success: false,
+      message: error.message
+    });
+  }
+  console.error(`❌ ${fallbackMessage}:`, error);
+  res.status(500).json({
+    success: false,
+    message: fallbackMessage,
+    error: error.message
+  });
+};
+
+/**
+ * Gifts the current user has bought
+ * GET /api/gifts/mine
+ */
+exports.getMyGifts = async (req, res) => {
+  try {
+    const gifts = await giftService.getGiftsForPurchaser(req.user.id);
+    res.json({
+      success: true,
+      data: { gifts: gifts.map(serializeGift) }
+    });
+  } catch (error) {
+    handleGiftError(res, error, 'Failed to fetch gifts');
+  }
+};
+
+/**
+ * Redeem a gift code for the current user
+ * POST /api/gifts/redeem
+ * Body: { code }
+ */
+exports.redeemGift = async (req, res) => {
+  try {
+    const { code } = req.body;
+    if (!code || !String(code).trim()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Gift code is required'
+      });
+    }
+
+    const gift = await giftService.redeemGift(code, req.user.id);
+    const item = gift.bundleId || gift.courseId;
+    res.json({
+      success: true,
+      message: 'Gift redeemed successfully',
+      data: {
+        itemType: gift.bundleId ? 'bundle' : 'course',
+        itemId: item?._id,
+        itemTitle: item?.title || null,
+        thumbnailURL: item?.thumbnailURL || null
+      }
+    });
+  } catch (error) {
+    handleGiftError(res, error, 'Failed to redeem gift');
+  }
+};
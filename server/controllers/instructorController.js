@@ -0,0 +1,202 @@
+const User = require('../models/User');
+const { uploadFileWithOrganization, deleteFileFromS3, getPublicUrl } = require('../utils/s3');
+
+const SOCIAL_LINK_FIELDS = ['website', 'linkedin', 'twitter', 'youtube'];
+
+/**
+ * Shape an instructor account for the admin panel
+ */
+const serializeInstructor = (user) => ({
+  _id: user._id,
+  name: user.name,
+  email: user.email,
+  status: user.status,
+  instructorProfile: user.instructorProfile
+});
+
+/**
+ * Accept only http(s) URLs for social links; empty clears the link
+ */
+const normalizeLink = (value) => {
+  const link = String(value || '').trim();
+  if (!link) return '';
+  try {
+    const url = new URL(link);
+    return ['http:', 'https:'].includes(url.protocol) ? url.toString() : null;
+  } catch (e) {
+    return null;
+  }
+};
+
+const loadInstructor = (req) => User.findOne({ _id: req.admin.userId, adminRole: 'instructor' });
+
+/**
+ * List instructor accounts (for assigning instructors to courses)
+ * GET /api/instructors
+ */
+const listInstructors = async (req, res) => {
+  try {
+    const instructors = await User.find({ adminRole: 'instructor' })
+      .select('name email status instructorProfile')
+      .sort({ name: 1 });
+
+    res.json({
+      success: true,
+      data: { instructors: instructors.map(serializeInstructor) }
+    });
+  } catch (error) {
+    console.error('❌ List instructors error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to load instructors',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * The signed-in instructor's public profile
+ * GET /api/instructors/me
+ */
+const getMyProfile = async (req, res) => {
+  try {
+    const instructor = await loadInstructor(req);
+    if (!instructor) {
+      return res.status(404).json({
+        success: false,
+        message: 'Instructor account not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: { instructor: serializeInstructor(instructor) }
+    });
+  } catch (error) {
+    console.error('❌ Get instructor profile error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to load instructor profile',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Update the signed-in instructor's name, headline, bio and social links
+ * PUT /api/instructors/me
+ * Body: { name, headline, bio: { en, tg }, socialLinks: { website, linkedin, twitter, youtube } }
+ */
+const updateMyProfile = async (req, res) => {
+  try {
+    const { name, headline, bio, socialLinks } = req.body;
+    const instructor = await loadInstructor(req);
+    if (!instructor) {
+      return res.status(404).json({
+        success: false,
+        message: 'Instructor account not found'
+      });
+    }
+
+    if (typeof name === 'string' && name.trim()) instructor.name = name.trim();
+    if (typeof headline === 'string') instructor.instructorProfile.headline = headline;
+    if (bio && typeof bio === 'object') {
+      if (typeof bio.en === 'string') instructor.instructorProfile.bio.en = bio.en;
+      if (typeof bio.tg === 'string') instructor.instructorProfile.bio.tg = bio.tg;
+    }
+    if (socialLinks && typeof socialLinks === 'object') {
+      for (const field of SOCIAL_LINK_FIELDS) {
+        if (socialLinks[field] === undefined) continue;
+        const link = normalizeLink(socialLinks[field]);
+        if (link === null) {
+          return res.status(400).json({
+            success: false,
+            message: `The ${field} link must be a valid http(s) URL`
+          });
+        }
+        instructor.instructorProfile.socialLinks[field] = link;
+      }
+    }
+
+    await instructor.save();
+    console.log(`✅ Instructor profile updated: ${instructor.email}`);
+
+    res.json({
+      success: true,
+      message: 'Profile updated successfully',
+      data: { instructor: serializeInstructor(instructor) }
+    });
+  } catch (error) {
+    console.error('❌ Update instructor profile error:', error);
+    if (error.name === 'ValidationError') {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        error: Object.values(error.errors).map(err => err.message).join(', ')
+      });
+    }
+    res.status(500).json({
+      success: false,
+      message: 'Failed to update instructor profile',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Replace the signed-in instructor's photo
+ * POST /api/instructors/me/photo (multipart, field "photo")
+ */
+const uploadMyPhoto = async (req, res) => {
+  try {
+    if (!req.file) {
+      return res.status(400).json({
+        success: false,
+        message: 'No photo uploaded'
+      });
+    }
+
+    const instructor = await loadInstructor(req);
+    if (!instructor) {
+      return res.status(404).json({
+        success: false,
+        message: 'Instructor account not found'
+      });
+    }
+
+    const previousKey = instructor.instructorProfile.photoS3Key;
+    const uploadResult = await uploadFileWithOrganization(req.file, 'instructor-photo');
+    instructor.instructorProfile.photoS3Key = uploadResult.s3Key;
+    instructor.instructorProfile.photoUrl = uploadResult.publicUrl || getPublicUrl(uploadResult.s3Key);
+    await instructor.save();
+
+    if (previousKey) {
+      try {
+        await deleteFileFromS3(previousKey);
+      } catch (deleteError) {
+        console.warn(`⚠️ Could not delete previous instructor photo ${previousKey}:`, deleteError.message);
+      }
+    }
+
+    console.log(`✅ Instructor photo updated: ${instructor.email}`);
+    res.json({
+      success: true,
+      message: 'Photo uploaded successfully',
+      data: { instructor: serializeInstructor(instructor) }
+    });
+  } catch (error) {
+    console.error('❌ Upload instructor photo error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to upload photo',
+      error: error.message
+    });
+  }
+};
+
+module.exports = {
+  listInstructors,
+  getMyProfile,
+  updateMyProfile,
+  uploadMyPhoto
+};
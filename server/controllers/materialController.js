@@ -167,7 +167,9 @@ exports.uploadMaterial = async (req, res) => {
             originalName: v.originalName,
             uploadedBy: v.uploadedBy,
             isFreePreview: v.isFreePreview || false,
-            status: v.status || 'active'
+            status: v.status || 'active',
+            hls: v.hls,
+            captions: v.captions
           });
         });
         const copiedVideos = await Promise.all(videoCopyPromises);
@@ -605,7 +607,9 @@ exports.deleteMaterial = async (req, res) => {
               originalName: v.originalName,
               uploadedBy: v.uploadedBy,
               isFreePreview: v.isFreePreview || false,
-              status: v.status || 'active'
+              status: v.status || 'active',
+              hls: v.hls,
+              captions: v.captions
             });
           });
           const copiedVideos = await Promise.all(videoCopyPromises);
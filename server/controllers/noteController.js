@@ -0,0 +1,327 @@
+const mongoose = require('mongoose');
+const PDFDocument = require('pdfkit');
+const Note = require('../models/Note');
+const Video = require('../models/Video');
+const Course = require('../models/Course');
+const { checkVideoAccess } = require('../utils/purchaseUtils');
+const { getEnglishText } = require('../utils/bilingualHelper');
+
+const MAX_NOTE_LENGTH = 5000;
+
+/**
+ * Format seconds as M:SS or H:MM:SS
+ */
+const formatTimestamp = (seconds) => {
+  const total = Math.floor(seconds || 0);
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = String(total % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${secs}` : `${minutes}:${secs}`;
+};
+
+/**
+ * Strip Markdown emphasis markers for plain-text output (PDF)
+ */
+const stripMarkdown = (text) => text
+  .replace(/\*\*(.+?)\*\*/g, '$1')
+  .replace(/\*(.+?)\*/g, '$1')
+  .replace(/^\s*[-*]\s+/gm, '• ');
+
+/**
+ * Load a user's notes for a course, grouped by lesson in course order
+ */
+const getCourseNotesGrouped = async (userId, courseId) => {
+  const notes = await Note.find({ userId, courseId })
+    .populate('videoId', 'title order')
+    .sort({ timestamp: 1 });
+
+  const groups = new Map();
+  notes.forEach(note => {
+    const key = note.videoId?._id?.toString() || 'unknown';
+    if (!groups.has(key)) {
+      groups.set(key, {
+        title: note.videoId ? getEnglishText(note.videoId.title) : 'Lesson',
+        order: note.videoId?.order || 0,
+        notes: []
+      });
+    }
+    groups.get(key).notes.push(note);
+  });
+
+  return Array.from(groups.values()).sort((a, b) => a.order - b.order);
+};
+
+// Get notes for a lesson or a whole course
+// GET /api/notes?videoId= | ?courseId=
+exports.getNotes = async (req, res) => {
+  try {
+    const userId = req.user.id;
+    const { videoId, courseId } = req.query;
+
+    if (!videoId && !courseId) {
+      return res.status(400).json({
+        success: false,
+        message: 'videoId or courseId is required'
+      });
+    }
+
+    const filter = { userId };
+    if (videoId) filter.videoId = videoId;
+    if (courseId) filter.courseId = courseId;
+
+    const notes = await Note.find(filter).sort({ timestamp: 1, createdAt: 1 });
+
+    res.json({
+      success: true,
+      data: { notes }
+    });
+  } catch (error) {
+    console.error('❌ Error fetching notes:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch notes',
+      error: error.message
+    });
+  }
+};
+
+// Get note counts per course (dashboard export buttons)
+// GET /api/notes/summary
+exports.getNotesSummary = async (req, res) => {
+  try {
+    const counts = await Note.aggregate([
+      { $match: { userId: new mongoose.Types.ObjectId(req.user.id) } },
+      { $group: { _id: '$courseId', count: { $sum: 1 }, lastUpdated: { $max: '$updatedAt' } } }
+    ]);
+
+    res.json({
+      success: true,
+      data: {
+        courses: counts.map(row => ({
+          courseId: row._id,
+          count: row.count,
+          lastUpdated: row.lastUpdated
+        }))
+      }
+    });
+  } catch (error) {
+    console.error('❌ Error fetching notes summary:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch notes summary',
+      error: error.message
+    });
+  }
+};
+
+// Create a note at the current position of a lesson
+// POST /api/notes
+exports.createNote = async (req, res) => {
+  try {
+    const userId = req.user.id;
+    const { videoId, timestamp, content } = req.body;
+
+    if (!videoId || timestamp === undefined || !content || !content.trim()) {
+      return res.status(400).json({
+        success: false,
+        message: 'videoId, timestamp and content are required'
+      });
+    }
+    if (content.length > MAX_NOTE_LENGTH) {
+      return res.status(400).json({
+        success: false,
+        message: `Notes can be at most ${MAX_NOTE_LENGTH} characters`
+      });
+    }
+
+    const video = await Video.findById(videoId).select('courseId');
+    if (!video) {
+      return res.status(404).json({
+        success: false,
+        message: 'Video not found'
+      });
+    }
+
+    const accessInfo = await checkVideoAccess(videoId, userId, req.user.role === 'admin');
+    if (!accessInfo.hasAccess) {
+      return res.status(403).json({
+        success: false,
+        message: 'Access denied to this video'
+      });
+    }
+
+    const note = await Note.create({
+      userId,
+      courseId: video.courseId,
+      videoId,
+      timestamp: Math.max(0, Number(timestamp) || 0),
+      content: content.trim()
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Note saved',
+      data: { note }
+    });
+  } catch (error) {
+    console.error('❌ Error creating note:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to save note',
+      error: error.message
+    });
+  }
+};
+
+// Update a note's content or timestamp
+// PUT /api/notes/:id
+exports.updateNote = async (req, res) => {
+  try {
+    const { content, timestamp } = req.body;
+    const note = await Note.findOne({ _id: req.params.id, userId: req.user.id });
+
+    if (!note) {
+      return res.status(404).json({
+        success: false,
+        message: 'Note not found'
+      });
+    }
+
+    if (content !== undefined) {
+      if (!content.trim()) {
+        return res.status(400).json({
+          success: false,
+          message: 'Note content cannot be empty'
+        });
+      }
+      if (content.length > MAX_NOTE_LENGTH) {
+        return res.status(400).json({
+          success: false,
+          message: `Notes can be at most ${MAX_NOTE_LENGTH} characters`
+        });
+      }
+      note.content = content.trim();
+    }
+    if (timestamp !== undefined) {
+      note.timestamp = Math.max(0, Number(timestamp) || 0);
+    }
+
+    await note.save();
+
+    res.json({
+      success: true,
+      message: 'Note updated',
+      data: { note }
+    });
+  } catch (error) {
+    console.error('❌ Error updating note:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to update note',
+      error: error.message
+    });
+  }
+};
+
+// Delete a note
+// DELETE /api/notes/:id
+exports.deleteNote = async (req, res) => {
+  try {
+    const note = await Note.findOneAndDelete({ _id: req.params.id, userId: req.user.id });
+
+    if (!note) {
+      return res.status(404).json({
+        success: false,
+        message: 'Note not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Note deleted'
+    });
+  } catch (error) {
+    console.error('❌ Error deleting note:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to delete note',
+      error: error.message
+    });
+  }
+};
+
+// Export all notes for a course as Markdown or PDF
+// GET /api/notes/export/:courseId?format=md|pdf
+exports.exportCourseNotes = async (req, res) => {
+  try {
+    const { courseId } = req.params;
+    const format = req.query.format === 'pdf' ? 'pdf' : 'md';
+
+    const course = await Course.findById(courseId).select('title');
+    if (!course) {
+      return res.status(404).json({
+        success: false,
+        message: 'Course not found'
+      });
+    }
+
+    const lessons = await getCourseNotesGrouped(req.user.id, courseId);
+    const courseTitle = getEnglishText(course.title) || 'Course';
+    const exportDate = new Date().toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' });
+    const fileName = `notes-${courseTitle.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'course'}`;
+
+    if (format === 'md') {
+      const lines = [`# ${courseTitle} — Notes`, '', `_Exported ${exportDate}_`, ''];
+      lessons.forEach((lesson, index) => {
+        lines.push(`## ${index + 1}. ${lesson.title}`, '');
+        lesson.notes.forEach(note => {
+          // Indent continuation lines so multi-line notes stay inside their list item
+          lines.push(`- **[${formatTimestamp(note.timestamp)}]** ${note.content.replace(/\n/g, '\n  ')}`);
+        });
+        lines.push('');
+      });
+      if (lessons.length === 0) {
+        lines.push('_No notes yet._', '');
+      }
+
+      res.setHeader('Content-Type', 'text/markdown; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="${fileName}.md"`);
+      return res.send(lines.join('\n'));
+    }
+
+    const doc = new PDFDocument({ margin: 50, size: 'A4' });
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="${fileName}.pdf"`);
+    doc.pipe(res);
+
+    doc.fontSize(22).fillColor('#00BFFF').text('Ibyet Investing', { align: 'center' });
+    doc.moveDown(0.5);
+    doc.fontSize(16).fillColor('#000000').text(`${courseTitle} — Notes`, { align: 'center' });
+    doc.fontSize(10).fillColor('#666666').text(`Exported ${exportDate}`, { align: 'center' });
+    doc.moveDown(2);
+
+    if (lessons.length === 0) {
+      doc.fontSize(12).fillColor('#333333').text('No notes yet.');
+    }
+
+    lessons.forEach((lesson, index) => {
+      doc.fontSize(14).fillColor('#000000').text(`${index + 1}. ${lesson.title}`);
+      doc.moveDown(0.5);
+      lesson.notes.forEach(note => {
+        doc.fontSize(10).fillColor('#0891b2').text(`[${formatTimestamp(note.timestamp)}]`, { continued: true })
+          .fillColor('#333333').text(`  ${stripMarkdown(note.content)}`);
+        doc.moveDown(0.5);
+      });
+      doc.moveDown(1);
+    });
+
+    doc.end();
+  } catch (error) {
+    console.error('❌ Error exporting notes:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to export notes',
+      error: error.message
+    });
+  }
+};
@@ -3,16 +3,36 @@ const Course = require('../models/Course');
 const Bundle = require('../models/Bundle');
 const User = require('../models/User');
 const Payment = require('../models/Payment');
+const Coupon = require('../models/Coupon');
 const mongoose = require('mongoose');
 const PDFDocument = require('pdfkit');
-const { getEnglishText } = require('../utils/bilingualHelper');
+const { getEnglishText, getLocalizedText } = require('../utils/bilingualHelper');
+const {
+  parseDocumentLanguage,
+  loadGeezFont,
+  resolveDocumentLanguage,
+  getDocumentText,
+  formatBilingual,
+  formatDocumentDate,
+  splitScriptRuns
+} = require('../utils/documentLanguage');
+const couponService = require('../services/couponService');
+const refundService = require('../services/refundService');
+const subscriptionService = require('../services/subscriptionService');
+const giftService = require('../services/giftService');
+const { getItemPrice, formatAmount } = require('../utils/currency');
+const Subscription = require('../models/Subscription');
+const { grantItemAccess } = require('../utils/purchaseUtils');
 
 /**
  * Create a Stripe checkout session for course or bundle purchase
  * POST /api/payments/create-checkout-session
- * Body: { courseId } OR { bundleId }
+ * Body: { courseId } OR { bundleId }, optional { couponCode, currency }
+ * Gift purchase: also send { gift: { recipientEmail, recipientName?, message? } }
  */
 exports.createCheckoutSession = async (req, res) => {
+  // Promo code redemption held for this checkout, given back if it fails before a session exists
+  let reservedCoupon = null;
   try {
     console.log('🔧 Creating checkout session...');
     console.log(`   - User ID: ${req.user?.userId || req.user?._id || 'undefined'}`);
@@ -28,7 +48,7 @@ exports.createCheckoutSession = async (req, res) => {
       });
     }
 
-    const { courseId, bundleId } = req.body;
+    const { courseId, bundleId, couponCode, currency, gift: giftInput } = req.body;
     
     if (!courseId && !bundleId) {
       return res.status(400).json({ 
@@ -59,8 +79,30 @@ exports.createCheckoutSession = async (req, res) => {
     if (!user.purchasedCourses) user.purchasedCourses = [];
     if (!user.purchasedBundles) user.purchasedBundles = [];
 
+    // Buying for someone else: validate the recipient up front
+    let recipient = null;
+    if (giftInput) {
+      try {
+        recipient = giftService.normalizeRecipient(giftInput);
+      } catch (giftError) {
+        if (giftError.name === 'GiftError') {
+          return res.status(400).json({ success: false, message: giftError.message });
+        }
+        throw giftError;
+      }
+      console.log(`🎁 Gift purchase for ${recipient.recipientEmail}`);
+    }
+
     let course, bundle, itemId, itemType, successUrl, cancelUrl;
 
+    // Normalize frontend URL to ensure it has proper protocol
+    const normalizeUrl = (url) => {
+      if (!url.startsWith('http://') && !url.startsWith('https://')) {
+        return `https://${url}`;
+      }
+      return url;
+    };
+
     if (courseId) {
       // Handle course purchase
       course = await Course.findById(courseId);
@@ -72,7 +114,7 @@ exports.createCheckoutSession = async (req, res) => {
         });
       }
 
-      if (user.purchasedCourses.includes(courseId)) {
+      if (!recipient && user.purchasedCourses.includes(courseId)) {
         console.log(`⚠️  User already purchased this course`);
         return res.status(400).json({ 
           success: false, 
@@ -80,14 +122,6 @@ exports.createCheckoutSession = async (req, res) => {
         });
       }
 
-      // Normalize frontend URL to ensure it has proper protocol
-      const normalizeUrl = (url) => {
-        if (!url.startsWith('http://') && !url.startsWith('https://')) {
-          return `https://${url}`;
-        }
-        return url;
-      };
-
       itemId = courseId;
       itemType = 'course';
       successUrl = `${normalizeUrl(process.env.CLIENT_URL || 'www.ibyet.com')}/checkout/success?courseId=${courseId}`;
@@ -105,7 +139,7 @@ exports.createCheckoutSession = async (req, res) => {
         });
       }
 
-      if (user.purchasedBundles.includes(bundleId)) {
+      if (!recipient && user.purchasedBundles.includes(bundleId)) {
         console.log(`⚠️  User already purchased this bundle`);
         return res.status(400).json({ 
           success: false, 
@@ -120,83 +154,119 @@ exports.createCheckoutSession = async (req, res) => {
       console.log(`✅ Bundle found: ${bundle.title} ($${bundle.price})`);
     }
 
-    // If Stripe is not configured, mark as purchased immediately (development mode)
-    if (!stripe) {
-      console.log('⚠️  Stripe not configured - marking as purchased in development mode');
+    // Charge in the requested currency when the item has a price set for it, otherwise in USD
+    const price = getItemPrice(course || bundle, currency);
+    console.log(`   - Charging in: ${formatAmount(price.amount, price.currency)}`);
+
+    // Price the promo code, if one was entered
+    let pricing = null;
+    if (couponCode) {
+      try {
+        pricing = await couponService.applyCoupon({
+          code: couponCode,
+          userId,
+          itemType,
+          item: course || bundle,
+          price
+        });
+        await couponService.reserveRedemption(pricing.coupon, userId);
+        reservedCoupon = { couponId: pricing.coupon._id, userId };
+        console.log(`✅ Coupon ${pricing.coupon.code} applied: ${formatAmount(pricing.originalAmount, price.currency)} → ${formatAmount(pricing.finalAmount, price.currency)}`);
+      } catch (couponError) {
+        if (couponError.name === 'CouponError') {
+          return res.status(400).json({ success: false, message: couponError.message });
+        }
+        throw couponError;
+      }
+    }
+
+    const isFreeWithCoupon = !!pricing && pricing.finalAmount === 0;
+
+    // Gifts land on the buyer's gift history instead of the course/bundle success page
+    let gift = null;
+    if (recipient) {
+      gift = await giftService.createGift({ purchaserId: userId, itemType, item: course || bundle, recipient });
+      successUrl = `${normalizeUrl(process.env.CLIENT_URL || 'www.ibyet.com')}/profile?gift=success`;
+    }
+
+    // If Stripe is not configured (development mode) or a coupon covers the full price, mark as purchased immediately
+    if (!stripe || isFreeWithCoupon) {
+      console.log(isFreeWithCoupon
+        ? '✅ Coupon covers the full price - granting access without Stripe'
+        : '⚠️  Stripe not configured - marking as purchased in development mode');
+      const sessionPrefix = isFreeWithCoupon ? 'coupon' : 'dev_session';
+      const paymentMethod = isFreeWithCoupon ? 'coupon' : 'card';
+      const couponData = pricing ? couponService.buildPaymentCoupon(pricing) : undefined;
+      let payment;
       
-      if (course) {
-        // Add course to user's purchased courses
-        await User.findByIdAndUpdate(userId, { $addToSet: { purchasedCourses: courseId } });
-        // Enroll the student in the course
-        await course.enrollStudent(userId);
-        console.log(`✅ Student enrolled in course: ${course.title}`);
-        
-        const devPaymentData = {
+      if (gift) {
+        // Record the buyer's payment; the recipient gets access when they redeem the code
+        payment = await Payment.create({
           userId: userId,
-          courseId: courseId,
-          courseVersion: course.currentVersion || course.version || 1, // Store the version at time of purchase
-          stripeSessionId: `dev_session_${Date.now()}`,
-          amount: course.price,
-          currency: 'usd',
+          ...(course
+            ? { courseId: courseId, courseVersion: course.currentVersion || course.version || 1 }
+            : { bundleId: bundleId }),
+          stripeSessionId: `${sessionPrefix}_gift_${Date.now()}`,
+          amount: pricing ? pricing.finalAmount : price.amount,
+          currency: price.currency,
           status: 'completed',
-          paymentMethod: 'card',
+          paymentMethod,
+          coupon: couponData,
+          giftId: gift._id,
           metadata: {
             userEmail: req.user.email,
-            courseTitle: getEnglishText(course.title),
+            ...(course ? { courseTitle: getEnglishText(course.title) } : { bundleTitle: getEnglishText(bundle.title) }),
             paymentDate: new Date()
           }
-        };
-        await Payment.findOneAndUpdate(
-          { userId: userId, courseId: courseId, status: 'completed' },
-          devPaymentData,
-          { upsert: true, new: true }
-        );
-      } else if (bundle) {
-        // Add bundle to user's purchased bundles
-        await User.findByIdAndUpdate(userId, { $addToSet: { purchasedBundles: bundleId } });
-        // Enroll the student in the bundle
-        await bundle.enrollStudent(userId);
-        // Add all bundle courses to user's purchased courses
-        await User.findByIdAndUpdate(userId, { $addToSet: { purchasedCourses: { $each: bundle.courseIds } } });
-        // Enroll in all courses in the bundle
-        for (const courseIdInBundle of bundle.courseIds) {
-          const courseInBundle = await Course.findById(courseIdInBundle);
-          if (courseInBundle) {
-            try {
-              await courseInBundle.enrollStudent(userId);
-            } catch (err) {
-              // Already enrolled, skip
-              console.log(`⚠️  User already enrolled in course: ${courseInBundle.title}`);
-            }
-          }
-        }
-        console.log(`✅ Student enrolled in bundle: ${bundle.title}`);
-        
+        });
+        await giftService.fulfillGift(gift._id, payment);
+      } else {
+        // Same access steps as the webhook and gift redemption
+        await grantItemAccess(userId, course ? { courseId } : { bundleId });
+
         const devPaymentData = {
           userId: userId,
-          bundleId: bundleId,
-          stripeSessionId: `dev_session_${Date.now()}`,
-          amount: bundle.price,
-          currency: 'usd',
+          ...(course
+            ? { courseId: courseId, courseVersion: course.currentVersion || course.version || 1 } // Store the version at time of purchase
+            : { bundleId: bundleId }),
+          stripeSessionId: `${sessionPrefix}_${Date.now()}`,
+          amount: pricing ? pricing.finalAmount : price.amount,
+          currency: price.currency,
           status: 'completed',
-          paymentMethod: 'card',
+          paymentMethod,
+          coupon: couponData,
           metadata: {
             userEmail: req.user.email,
-            bundleTitle: getEnglishText(bundle.title),
+            ...(course ? { courseTitle: getEnglishText(course.title) } : { bundleTitle: getEnglishText(bundle.title) }),
             paymentDate: new Date()
           }
         };
-        await Payment.findOneAndUpdate(
-          { userId: userId, bundleId: bundleId, status: 'completed' },
+        payment = await Payment.findOneAndUpdate(
+          { userId: userId, ...(course ? { courseId: courseId } : { bundleId: bundleId }), giftId: null, status: 'completed' },
           devPaymentData,
           { upsert: true, new: true }
         );
       }
+
+      // The redemption is now used, not just held
+      reservedCoupon = null;
+
+      await refundService.logPaymentAction(payment, 'payment_completed', {
+        performedBy: req.user.email || 'system',
+        ipAddress: req.ip,
+        userAgent: req.get('user-agent'),
+        details: {
+          amount: payment.amount,
+          currency: payment.currency,
+          couponCode: pricing ? pricing.coupon.code : null,
+          giftId: gift ? gift._id : null
+        }
+      });
       
       return res.json({ 
         success: true,
         url: successUrl,
-        message: `${itemType === 'course' ? 'Course' : 'Bundle'} purchased successfully (development mode)`
+        message: `${gift ? 'Gift' : itemType === 'course' ? 'Course' : 'Bundle'} purchased successfully ${isFreeWithCoupon ? '(promo code)' : '(development mode)'}`
       });
     }
 
@@ -207,9 +277,19 @@ exports.createCheckoutSession = async (req, res) => {
       bundle,
       successUrl,
       cancelUrl,
+      pricing,
+      price,
+      gift,
     });
 
     console.log(`✅ Stripe session created: ${session.id}`);
+    // The webhook completes the redemption; an expired session releases it
+    reservedCoupon = null;
+
+    if (gift) {
+      gift.stripeSessionId = session.id;
+      await gift.save();
+    }
 
     res.json({ 
       success: true,
@@ -219,6 +299,10 @@ exports.createCheckoutSession = async (req, res) => {
 
   } catch (error) {
     console.error('❌ Error creating checkout session:', error);
+    if (reservedCoupon) {
+      await couponService.releaseRedemption(reservedCoupon.couponId, reservedCoupon.userId)
+        .catch(releaseError => console.error('❌ Failed to release coupon redemption:', releaseError));
+    }
     res.status(500).json({ 
       success: false, 
       message: 'Failed to create checkout session',
@@ -275,9 +359,17 @@ exports.webhook = async (req, res) => {
   try {
     switch (event.type) {
       case 'checkout.session.completed':
-        await handleCheckoutSessionCompleted(event.data.object);
+        if (event.data.object.mode === 'subscription') {
+          await subscriptionService.handleCheckoutCompleted(event.data.object);
+        } else {
+          await handleCheckoutSessionCompleted(event.data.object);
+        }
         break;
       
+      case 'checkout.session.expired':
+        await handleCheckoutSessionExpired(event.data.object);
+        break;
+
       case 'payment_intent.succeeded':
         console.log('✅ Payment succeeded:', event.data.object.id);
         break;
@@ -289,6 +381,32 @@ exports.webhook = async (req, res) => {
       case 'payment_intent.payment_failed':
         console.log('❌ Payment failed:', event.data.object.id);
         break;
+
+      case 'charge.refunded':
+        await refundService.handleChargeRefunded(event.data.object);
+        break;
+
+      case 'charge.dispute.created':
+        await refundService.handleDisputeCreated(event.data.object);
+        break;
+
+      case 'charge.dispute.closed':
+        await refundService.handleDisputeClosed(event.data.object);
+        break;
+
+      case 'customer.subscription.created':
+      case 'customer.subscription.updated':
+      case 'customer.subscription.deleted':
+        await subscriptionService.handleSubscriptionChanged(event.data.object);
+        break;
+
+      case 'invoice.payment_succeeded':
+        await subscriptionService.handleInvoicePaid(event.data.object);
+        break;
+
+      case 'invoice.payment_failed':
+        await subscriptionService.handleInvoicePaymentFailed(event.data.object);
+        break;
       
       default:
         console.log(`⚠️  Unhandled event type: ${event.type}`);
@@ -315,141 +433,102 @@ async function handleCheckoutSessionCompleted(session) {
   console.log(`   - Metadata:`, session.metadata);
 
   try {
-    const { userId, courseId, bundleId, userEmail, type } = session.metadata;
+    const { userId, courseId, bundleId, userEmail, type, couponId, couponCode, giftId } = session.metadata;
 
     if (!userId || (!courseId && !bundleId)) {
       throw new Error('Missing userId or item ID (courseId/bundleId) in session metadata');
     }
 
     const itemType = type || (bundleId ? 'bundle' : 'course');
-    const itemId = bundleId || courseId;
-
-    // Update user's purchased items
-    const updateQuery = itemType === 'bundle' 
-      ? { $addToSet: { purchasedBundles: bundleId } }
-      : { $addToSet: { purchasedCourses: courseId } };
 
-    const updatedUser = await User.findByIdAndUpdate(
-      userId,
-      updateQuery,
-      { new: true }
-    );
-
-    if (!updatedUser) {
-      throw new Error(`User not found: ${userId}`);
-    }
-
-    console.log(`✅ User updated successfully:`, {
-      userId,
-      userEmail: updatedUser.email,
-      updateQuery,
-      updatedPurchasedCourses: updatedUser.purchasedCourses || [],
-      updatedPurchasedBundles: updatedUser.purchasedBundles || [],
-      totalPurchasedCourses: updatedUser.purchasedCourses?.length || 0,
-      totalPurchasedBundles: updatedUser.purchasedBundles?.length || 0
-    });
-
-    let paymentData;
-
-    if (itemType === 'bundle') {
-      // Handle bundle purchase
-      const bundle = await Bundle.findById(bundleId);
-      if (!bundle) {
-        throw new Error(`Bundle not found: ${bundleId}`);
+    let course = null;
+    let bundle = null;
+    if (giftId) {
+      // Gift purchases give access to whoever redeems the code, not the buyer
+      if (itemType === 'bundle') {
+        bundle = await Bundle.findById(bundleId);
+      } else {
+        course = await Course.findById(courseId);
       }
-
-      // Enroll the student in the bundle
-      await bundle.enrollStudent(userId);
-      console.log(`✅ Student enrolled in bundle: ${bundle.title}`);
-
-      // Add all bundle courses to user's purchased courses
-      await User.findByIdAndUpdate(
-        userId,
-        { $addToSet: { purchasedCourses: { $each: bundle.courseIds } } }
-      );
-
-      // Enroll in all courses in the bundle
-      for (const courseIdInBundle of bundle.courseIds) {
-        const courseInBundle = await Course.findById(courseIdInBundle);
-        if (courseInBundle) {
-          try {
-            await courseInBundle.enrollStudent(userId);
-          } catch (err) {
-            // Already enrolled, skip
-            console.log(`⚠️  User already enrolled in course: ${courseInBundle.title}`);
-          }
-        }
+      if (!course && !bundle) {
+        throw new Error(`Gifted ${itemType} not found: ${bundleId || courseId}`);
       }
-
-      paymentData = {
-        userId: userId,
-        bundleId: bundleId,
-        stripeSessionId: session.id,
-        amount: session.amount_total / 100,
-        currency: session.currency,
-        status: 'completed',
-        paymentMethod: 'card',
-        metadata: {
-          userEmail: userEmail,
-          bundleTitle: getEnglishText(bundle.title),
-          paymentDate: new Date()
-        }
-      };
-
-      console.log(`✅ Bundle access granted successfully`);
-      console.log(`   - User: ${updatedUser.email}`);
-      console.log(`   - Bundle: ${bundle.title}`);
-      console.log(`   - Total purchased bundles: ${updatedUser.purchasedBundles?.length || 0}`);
-      console.log(`   - Payment recorded: $${paymentData.amount}`);
-
+      console.log(`🎁 Gift ${giftId} paid - access is granted when the code is redeemed`);
     } else {
-      // Handle course purchase
-      const course = await Course.findById(courseId);
-      if (!course) {
-        throw new Error(`Course not found: ${courseId}`);
-      }
-
-      // Enroll the student in the course (increments totalEnrollments)
-      await course.enrollStudent(userId);
-      console.log(`✅ Student enrolled in course: ${course.title}`);
-      console.log(`   - New enrollment count: ${course.totalEnrollments}`);
+      ({ course, bundle } = await grantItemAccess(userId, itemType === 'bundle' ? { bundleId } : { courseId }));
+    }
 
-      paymentData = {
-        userId: userId,
-        courseId: courseId,
-        courseVersion: course.currentVersion || course.version || 1, // Store the version at time of purchase
-        stripeSessionId: session.id,
-        amount: session.amount_total / 100,
-        currency: session.currency,
-        status: 'completed',
-        paymentMethod: 'card',
-        metadata: {
-          userEmail: userEmail,
-          courseTitle: getEnglishText(course.title),
-          paymentDate: new Date()
-        }
+    const paymentData = {
+      userId: userId,
+      ...(bundle
+        ? { bundleId: bundleId }
+        : { courseId: courseId, courseVersion: course.currentVersion || course.version || 1 }), // Store the version at time of purchase
+      stripeSessionId: session.id,
+      stripePaymentIntentId: session.payment_intent,
+      amount: session.amount_total / 100,
+      currency: session.currency,
+      status: 'completed',
+      paymentMethod: 'card',
+      giftId: giftId || undefined,
+      metadata: {
+        userEmail: userEmail,
+        ...(bundle ? { bundleTitle: getEnglishText(bundle.title) } : { courseTitle: getEnglishText(course.title) }),
+        paymentDate: new Date()
+      }
+    };
+    console.log(`   - Payment recorded: ${formatAmount(paymentData.amount, paymentData.currency)}`);
+
+    // Promo code redeemed at checkout (metadata set in utils/stripe)
+    let coupon = null;
+    if (couponId) {
+      coupon = await Coupon.findById(couponId);
+      paymentData.coupon = {
+        couponId,
+        code: couponCode,
+        discountType: coupon?.discountType,
+        discountValue: coupon?.discountValue,
+        originalAmount: Number(session.metadata.originalAmount),
+        discountAmount: Number(session.metadata.discountAmount)
       };
-
-      console.log(`✅ Course access granted successfully`);
-      console.log(`   - User: ${updatedUser.email}`);
-      console.log(`   - Course: ${course.title}`);
-      console.log(`   - Total purchased courses: ${updatedUser.purchasedCourses.length}`);
-      console.log(`   - Payment recorded: $${paymentData.amount}`);
     }
 
     // Create or update payment record
-    await Payment.findOneAndUpdate(
+    const existingPayment = await Payment.findOne({ stripeSessionId: session.id });
+    const payment = await Payment.findOneAndUpdate(
       { stripeSessionId: session.id },
       paymentData,
       { upsert: true, new: true }
     );
 
+    if (!existingPayment) {
+      await refundService.logPaymentAction(payment, 'payment_completed', {
+        performedBy: 'stripe',
+        details: { amount: payment.amount, currency: payment.currency, couponCode: couponCode || null, giftId: giftId || null }
+      });
+    }
+
+    // Make the code redeemable and email it to the recipient (no-op on webhook retries)
+    if (giftId) {
+      await giftService.fulfillGift(giftId, payment);
+    }
+
   } catch (error) {
     console.error('❌ Error processing checkout completion:', error);
     throw error;
   }
 }
 
+/**
+ * Give back the promo code redemption reserved for a checkout that was never paid
+ */
+async function handleCheckoutSessionExpired(session) {
+  const { userId, couponId } = session.metadata || {};
+  if (!couponId || !userId) return;
+
+  await couponService.releaseRedemption(couponId, userId);
+  console.log(`↩️  Released coupon ${session.metadata.couponCode} reserved by expired session ${session.id}`);
+}
+
 /**
  * Success page handler
  * GET /api/payments/success
@@ -519,9 +598,12 @@ exports.checkPurchase = async (req, res) => {
       await user.save();
     }
 
-    const hasPurchased = user.purchasedCourses.some(purchasedId => 
+    const ownsCourse = user.purchasedCourses.some(purchasedId => 
       purchasedId.toString() === courseId || purchasedId === courseId
     );
+    // An active membership unlocks every course
+    const hasMembership = !ownsCourse && await Subscription.hasActiveMembership(userId);
+    const hasPurchased = ownsCourse || hasMembership;
     
     console.log(`✅ Purchase check completed: ${hasPurchased}`);
 
@@ -529,6 +611,7 @@ exports.checkPurchase = async (req, res) => {
       success: true,
       data: {
         hasPurchased,
+        hasMembership,
         courseId
       }
     });
@@ -589,7 +672,7 @@ exports.getReceipt = async (req, res) => {
     let payment = await Payment.findOne({
       userId: userId,
       courseId: courseId,
-      status: 'completed'
+      status: { $in: ['completed', 'partially_refunded'] }
     }).populate('courseId', 'title description');
 
     // If no payment record exists, check if user has purchased the course
@@ -656,7 +739,8 @@ exports.getReceipt = async (req, res) => {
       paymentDate: payment.createdAt,
       paymentMethod: payment.paymentMethod,
       userEmail: payment.metadata.userEmail,
-      status: payment.status
+      status: payment.status,
+      coupon: payment.coupon?.code ? payment.coupon : null
     };
 
     console.log(`✅ Receipt generated for payment ${payment._id}`);
@@ -713,7 +797,7 @@ exports.getBundleReceipt = async (req, res) => {
     let payment = await Payment.findOne({
       userId: userId,
       bundleId: bundleId,
-      status: 'completed'
+      status: { $in: ['completed', 'partially_refunded'] }
     }).populate('bundleId', 'title description');
 
     // If no payment record exists, check if user has purchased bundle
@@ -772,7 +856,8 @@ exports.getBundleReceipt = async (req, res) => {
         paymentMethod: payment.paymentMethod,
         stripeSessionId: payment.stripeSessionId,
         createdAt: payment.createdAt,
-        userEmail: user.email
+        userEmail: user.email,
+        coupon: payment.coupon?.code ? payment.coupon : null
       }
     });
 
@@ -787,12 +872,13 @@ exports.getBundleReceipt = async (req, res) => {
 };
 
 /**
- * Download bundle receipt as HTML
- * GET /api/payment/download-bundle-receipt/:bundleId
+ * Download bundle receipt as PDF
+ * GET /api/payment/download-bundle-receipt/:bundleId?lang=en|tg|bilingual
  */
 exports.downloadBundleReceipt = async (req, res) => {
   try {
     const { bundleId } = req.params;
+    const language = resolveDocumentLanguage(parseDocumentLanguage(req.query.lang), Boolean(loadGeezFont()));
     
     // Validate user authentication
     if (!req.user || (!req.user.userId && !req.user._id)) {
@@ -823,7 +909,7 @@ exports.downloadBundleReceipt = async (req, res) => {
     let payment = await Payment.findOne({
       userId: userId,
       bundleId: bundleId,
-      status: 'completed'
+      status: { $in: ['completed', 'partially_refunded'] }
     }).populate('bundleId', 'title description');
 
     // If no payment record exists, check if user has purchased bundle
@@ -869,18 +955,24 @@ exports.downloadBundleReceipt = async (req, res) => {
       await payment.save();
     }
 
-    // Generate PDF receipt
-    const receiptHtml = generateBundleReceiptPdf(payment, user);
+    // Generate receipt PDF
+    const doc = new PDFDocument({ margin: 50, size: 'A4' });
+
+    // Set response headers for PDF download
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="bundle-receipt-${payment._id.toString().slice(-8)}.pdf"`);
+
+    doc.pipe(res);
+    await generateReceiptPDF(doc, payment, user, language);
+    doc.end();
 
-    // Set headers for HTML download (PDF-optimized format)
-    res.setHeader('Content-Type', 'text/html; charset=utf-8');
-    res.setHeader('Content-Disposition', `attachment; filename="bundle-receipt-${payment.stripeSessionId}.html"`);
-    
     console.log(`✅ Bundle receipt generated for user ${userId}, bundle ${bundleId}`);
-    res.send(receiptHtml);
 
   } catch (error) {
     console.error('❌ Error downloading bundle receipt:', error);
+    if (error.name === 'DocumentLanguageError') {
+      return res.status(503).json({ success: false, message: error.message });
+    }
     res.status(500).json({ 
       success: false, 
       message: 'Failed to download bundle receipt' 
@@ -889,116 +981,13 @@ exports.downloadBundleReceipt = async (req, res) => {
 };
 
 /**
- * Generate PDF receipt for bundle
- */
-function generateBundleReceiptPdf(payment, user) {
-  const bundle = payment.bundleId;
-  const bundleTitle = getEnglishText(bundle.title);
-  const bundleDescription = getEnglishText(bundle.description || 'Course Bundle');
-  const paymentDate = new Date(payment.createdAt).toLocaleDateString();
-  
-  return `
-    <!DOCTYPE html>
-    <html>
-    <head>
-      <meta charset="UTF-8">
-      <title>Bundle Receipt - ${bundleTitle}</title>
-      <style>
-        body { 
-          font-family: Arial, sans-serif; 
-          max-width: 800px; 
-          margin: 0 auto; 
-          padding: 20px; 
-          line-height: 1.4;
-        }
-        .header { 
-          text-align: center; 
-          border-bottom: 2px solid #333; 
-          padding-bottom: 20px; 
-          margin-bottom: 30px; 
-        }
-        .receipt-details { 
-          margin-bottom: 30px; 
-        }
-        .item { 
-          margin-bottom: 15px; 
-          padding: 10px;
-          background: #f9f9f9;
-          border-radius: 4px;
-        }
-        .total { 
-          font-size: 18px; 
-          font-weight: bold; 
-          margin-top: 20px; 
-          background: #e8f5e8;
-          padding: 15px;
-          border-radius: 4px;
-        }
-        .footer { 
-          text-align: center; 
-          margin-top: 40px; 
-          color: #666; 
-          font-size: 14px;
-        }
-        @media print {
-          body { padding: 0; }
-          .no-print { display: none; }
-        }
-      </style>
-    </head>
-    <body>
-      <div class="header">
-        <h1>🧾 Bundle Receipt</h1>
-        <h2>${bundleTitle}</h2>
-        <p><strong>Receipt ID:</strong> ${payment.stripeSessionId}</p>
-        <p><strong>Date:</strong> ${paymentDate}</p>
-      </div>
-      
-      <div class="receipt-details">
-        <div class="item">
-          <strong>Bundle:</strong> ${bundleTitle}
-        </div>
-        <div class="item">
-          <strong>Description:</strong> ${bundleDescription}
-        </div>
-        <div class="item">
-          <strong>Student:</strong> ${user.firstName} ${user.lastName}
-        </div>
-        <div class="item">
-          <strong>Email:</strong> ${user.email}
-        </div>
-        <div class="item">
-          <strong>Payment Method:</strong> ${payment.paymentMethod || 'Credit Card'}
-        </div>
-        <div class="item">
-          <strong>Amount Paid:</strong> $${(payment.amount / 100).toFixed(2)} USD
-        </div>
-        <div class="item">
-          <strong>Status:</strong> <span style="color: #28a745;">Completed</span>
-        </div>
-      </div>
-      
-      <div class="total">
-        <strong>Total Amount:</strong> $${(payment.amount / 100).toFixed(2)} USD
-      </div>
-      
-      <div class="footer">
-        <p>Thank you for your purchase! 🎓</p>
-        <p>This is an official receipt for your records.</p>
-        <p class="no-print">Generated on: ${new Date().toLocaleString()}</p>
-      </div>
-    </body>
-    </html>
-  `;
-}
-
-/**
- * Download receipt as HTML (production-friendly alternative to PDF)
- * GET /api/payment/download-receipt/:courseId
+ * Download receipt as PDF
+ * GET /api/payment/download-receipt/:courseId?lang=en|tg|bilingual
  */
 exports.downloadReceipt = async (req, res) => {
   try {
     const { courseId } = req.params;
+    const language = resolveDocumentLanguage(parseDocumentLanguage(req.query.lang), Boolean(loadGeezFont()));
     
     // Validate user authentication
     if (!req.user || (!req.user.userId && !req.user._id)) {
@@ -1029,7 +1018,7 @@ exports.downloadReceipt = async (req, res) => {
     let payment = await Payment.findOne({
       userId: userId,
       courseId: courseId,
-      status: 'completed'
+      status: { $in: ['completed', 'partially_refunded'] }
     }).populate('courseId', 'title description');
 
     // If no payment record exists, check if user has purchased the course
@@ -1088,7 +1077,7 @@ exports.downloadReceipt = async (req, res) => {
     doc.pipe(res);
 
     // Generate PDF content
-    await generateReceiptPDF(doc, payment, user);
+    await generateReceiptPDF(doc, payment, user, language);
 
     // Finalize PDF
     doc.end();
@@ -1097,6 +1086,9 @@ exports.downloadReceipt = async (req, res) => {
 
   } catch (error) {
     console.error('❌ Error downloading receipt:', error);
+    if (error.name === 'DocumentLanguageError') {
+      return res.status(503).json({ success: false, message: error.message });
+    }
     res.status(500).json({ 
       success: false, 
       message: 'Failed to download receipt',
@@ -1107,123 +1099,262 @@ exports.downloadReceipt = async (req, res) => {
 
 
 
+const RECEIPT_FONT = 'Helvetica';
+const RECEIPT_GEEZ_FONT = 'Geez';
+
 /**
- * Generate receipt PDF
+ * Generate receipt PDF in English, Tigrinya, or both side by side.
+ * Tigrinya needs a Ge'ez font (bundled, or GEEZ_FONT_PATH); callers check it before streaming the PDF.
  */
-async function generateReceiptPDF(doc, payment, user) {
+async function generateReceiptPDF(doc, payment, user, requestedLanguage = 'en') {
+  const geezFontBytes = loadGeezFont();
+  const language = resolveDocumentLanguage(requestedLanguage, Boolean(geezFontBytes));
+  if (language !== 'en') {
+    doc.registerFont(RECEIPT_GEEZ_FONT, geezFontBytes);
+  }
+
+  const englishText = getDocumentText('receipt', 'en');
+  const tigrinyaText = getDocumentText('receipt', 'tg');
+  const label = (key) => formatBilingual({ en: englishText[key], tg: tigrinyaText[key] }, language);
+
   const orderId = payment._id.toString().slice(-8).toUpperCase();
-  const paymentDate = payment.createdAt.toLocaleDateString('en-US', {
+  const dateOptions = {
     year: 'numeric',
     month: 'long',
     day: 'numeric',
     hour: '2-digit',
     minute: '2-digit'
-  });
-
-  // Extract English text from course/bundle title
-  let courseTitle = 'Course';
+  };
+  const paymentDate = formatBilingual({
+    en: formatDocumentDate(payment.createdAt, 'en', dateOptions),
+    tg: formatDocumentDate(payment.createdAt, 'tg', dateOptions)
+  }, language, '\n');
+
+  // Course/bundle title as stored ({ en, tg } or a legacy string)
+  let itemTitle = null;
   if (payment.courseId?.title) {
-    courseTitle = getEnglishText(payment.courseId.title);
+    itemTitle = payment.courseId.title;
   } else if (payment.bundleId) {
-    // For bundles, we need to fetch the bundle to get the title
-    const Bundle = require('../models/Bundle');
-    const bundle = await Bundle.findById(payment.bundleId);
-    if (bundle) {
-      courseTitle = getEnglishText(bundle.title);
-    } else if (payment.metadata?.bundleTitle) {
-      courseTitle = getEnglishText(payment.metadata.bundleTitle);
-    }
-  } else if (payment.metadata?.courseTitle) {
-    courseTitle = getEnglishText(payment.metadata.courseTitle);
-  } else if (payment.metadata?.bundleTitle) {
-    courseTitle = getEnglishText(payment.metadata.bundleTitle);
+    const bundle = payment.bundleId.title ? payment.bundleId : await Bundle.findById(payment.bundleId);
+    itemTitle = bundle?.title || payment.metadata?.bundleTitle;
+  } else {
+    itemTitle = payment.metadata?.courseTitle || payment.metadata?.bundleTitle;
   }
+  const courseTitle = itemTitle
+    ? formatBilingual({ en: getEnglishText(itemTitle), tg: getLocalizedText(itemTitle, 'tg') }, language, '\n')
+    : label('course');
   const amount = payment.amount || 0;
-  const currency = (payment.currency || 'USD').toUpperCase();
+  const currency = payment.currency || 'usd';
   const userEmail = user?.email || payment.metadata?.userEmail || 'N/A';
   const paymentMethod = payment.paymentMethod || 'Credit Card';
 
+  // Write text run by run so Ge'ez characters use the Ge'ez font (pdfkit shapes each run with fontkit)
+  const write = (value, x, y, options = {}) => {
+    const runs = language === 'en' ? [{ text: String(value), geez: false }] : splitScriptRuns(String(value));
+    runs.forEach((run, index) => {
+      const runOptions = { ...options, continued: index < runs.length - 1 };
+      doc.font(run.geez ? RECEIPT_GEEZ_FONT : RECEIPT_FONT);
+      if (index === 0) {
+        doc.text(run.text, x, y, runOptions);
+      } else {
+        doc.text(run.text, runOptions);
+      }
+    });
+    doc.font(RECEIPT_FONT);
+  };
+
+  // pdfkit can't center text that switches fonts, so centered lines are measured run by run
+  const writeCentered = (value) => {
+    const runs = language === 'en' ? [{ text: value, geez: false }] : splitScriptRuns(value);
+    const widths = runs.map(run => doc.font(run.geez ? RECEIPT_GEEZ_FONT : RECEIPT_FONT).widthOfString(run.text));
+    const y = doc.y;
+    let x = (doc.page.width - widths.reduce((sum, width) => sum + width, 0)) / 2;
+    runs.forEach((run, index) => {
+      doc.font(run.geez ? RECEIPT_GEEZ_FONT : RECEIPT_FONT).text(run.text, x, y, { lineBreak: false });
+      x += widths[index];
+    });
+    doc.font(RECEIPT_FONT);
+    doc.x = doc.page.margins.left;
+    doc.y = y + doc.currentLineHeight(true);
+  };
+
+  // Label and value side by side; Tigrinya labels need a wider column
+  const valueX = language === 'en' ? 150 : 230;
+  const writeRow = (key, value, { labelSize = 12, valueSize = labelSize, valueColor = '#000000' } = {}) => {
+    const y = doc.y;
+    doc.fontSize(labelSize).fillColor('#333333');
+    write(`${label(key)}:`, 50, y, { width: valueX - 60 });
+    const labelBottom = doc.y;
+
+    doc.fontSize(valueSize).fillColor(valueColor);
+    write(value, valueX, y, { width: doc.page.width - doc.page.margins.right - valueX });
+    doc.x = doc.page.margins.left;
+    doc.y = Math.max(labelBottom, doc.y);
+    doc.moveDown(1);
+  };
+
   // Header
   doc.fontSize(24)
      .fillColor('#00BFFF')
      .text('Ibyet Investing', 50, 50, { align: 'center' });
   
-  doc.fontSize(12)
-     .fillColor('#666666')
-     .text('Payment Receipt', 50, 80, { align: 'center' });
+  doc.y = 80;
+  doc.fontSize(12).fillColor('#666666');
+  writeCentered(label('title'));
 
   // Receipt Details
   doc.fontSize(10)
      .fillColor('#000000')
      .moveDown(2);
 
-  // Order ID
-  doc.fontSize(12)
-     .fillColor('#333333')
-     .text('Order ID:', 50, doc.y)
-     .fillColor('#000000')
-     .text(orderId, 150, doc.y);
-  
-  doc.moveDown(1);
+  writeRow('orderId', orderId);
+  writeRow('paymentDate', paymentDate);
+  writeRow(payment.bundleId ? 'bundle' : 'course', courseTitle);
 
-  // Payment Date
-  doc.fillColor('#333333')
-     .text('Payment Date:', 50, doc.y)
-     .fillColor('#000000')
-     .text(paymentDate, 150, doc.y);
-  
-  doc.moveDown(1);
+  // Promo code discount
+  if (payment.coupon?.code) {
+    const codeWord = getDocumentText('receipt', language).code;
+    writeRow('originalPrice', formatAmount(payment.coupon.originalAmount, currency));
+    writeRow('discount', `-${formatAmount(payment.coupon.discountAmount, currency)} (${codeWord} ${payment.coupon.code})`);
+  }
 
-  // Course/Bundle Title
-  const itemLabel = payment.bundleId ? 'Bundle:' : 'Course:';
-  doc.fillColor('#333333')
-     .text(itemLabel, 50, doc.y)
-     .fillColor('#000000')
-     .text(courseTitle, 150, doc.y, { width: 400 });
-  
-  doc.moveDown(1);
+  writeRow('amountPaid', formatAmount(amount, currency), { labelSize: 14, valueSize: 16, valueColor: '#10b981' });
 
-  // Amount
-  doc.fontSize(14)
-     .fillColor('#333333')
-     .text('Amount Paid:', 50, doc.y)
-     .fillColor('#10b981')
-     .fontSize(16)
-     .text(`$${amount.toFixed(2)} ${currency}`, 150, doc.y);
-  
-  doc.moveDown(1);
+  // Refunds
+  if (payment.refundedAmount > 0) {
+    writeRow('refunded', `-${formatAmount(payment.refundedAmount, currency)}`, { labelSize: 10 });
+  }
 
-  // Payment Method
-  doc.fontSize(10)
-     .fillColor('#333333')
-     .text('Payment Method:', 50, doc.y)
-     .fillColor('#000000')
-     .text(paymentMethod, 150, doc.y);
-  
-  doc.moveDown(1);
+  writeRow('paymentMethod', paymentMethod, { labelSize: 10 });
+  writeRow('customerEmail', userEmail, { labelSize: 10 });
 
-  // Customer Email
-  doc.fillColor('#333333')
-     .text('Customer Email:', 50, doc.y)
-     .fillColor('#000000')
-     .text(userEmail, 150, doc.y);
-  
-  doc.moveDown(2);
+  doc.moveDown(1);
 
   // Status
-  doc.fontSize(12)
-     .fillColor('#10b981')
-     .text('✓ Payment Completed', 50, doc.y);
+  doc.fontSize(12).fillColor('#10b981');
+  write(`✓ ${label('completed')}`, 50, doc.y);
 
   doc.moveDown(3);
 
   // Footer
-  doc.fontSize(8)
-     .fillColor('#999999')
-     .text('Thank you for your purchase!', 50, doc.y, { align: 'center' })
-     .moveDown(0.5)
-     .text('This is an official receipt for your records.', 50, doc.y, { align: 'center' })
-     .moveDown(0.5)
-     .text(`Receipt ID: ${orderId}`, 50, doc.y, { align: 'center' });
+  doc.fontSize(8).fillColor('#999999');
+  writeCentered(label('thankYou'));
+  doc.moveDown(0.5);
+  writeCentered(label('officialReceipt'));
+  doc.moveDown(0.5);
+  writeCentered(`${label('receiptId')}: ${orderId}`);
 }
 
+// ========================================
+// ADMIN ENDPOINTS
+// ========================================
+
+/**
+ * List a user's payments with refund and dispute details
+ * GET /api/payment/admin/users/:userId/payments
+ */
+exports.getUserPayments = async (req, res) => {
+  try {
+    const { userId } = req.params;
+    if (!mongoose.Types.ObjectId.isValid(userId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid user ID format'
+      });
+    }
+
+    const payments = await Payment.find({ userId })
+      .populate('courseId', 'title')
+      .populate('bundleId', 'title')
+      .sort({ createdAt: -1 });
+
+    res.json({
+      success: true,
+      data: {
+        payments: payments.map(payment => ({
+          _id: payment._id,
+          itemType: payment.bundleId ? 'bundle' : 'course',
+          itemTitle: getEnglishText(payment.bundleId?.title || payment.courseId?.title || payment.metadata?.bundleTitle || payment.metadata?.courseTitle) || 'Unknown item',
+          amount: payment.amount,
+          currency: payment.currency,
+          status: payment.status,
+          paymentMethod: payment.paymentMethod,
+          refundedAmount: payment.refundedAmount || 0,
+          refunds: payment.refunds,
+          dispute: payment.dispute?.stripeDisputeId ? payment.dispute : null,
+          coupon: payment.coupon?.code ? payment.coupon : null,
+          isGift: !!payment.giftId,
+          accessRevokedAt: payment.accessRevokedAt,
+          createdAt: payment.createdAt
+        }))
+      }
+    });
+  } catch (error) {
+    console.error('❌ Error fetching user payments:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch payments',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Refund a payment through Stripe. A full refund also removes the student's access.
+ * POST /api/payment/admin/:paymentId/refund
+ * Body: { amount? (in the payment's currency, defaults to the remaining amount), reason?, revokeCertificates? }
+ */
+exports.refundPayment = async (req, res) => {
+  try {
+    const { paymentId } = req.params;
+    if (!mongoose.Types.ObjectId.isValid(paymentId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid payment ID format'
+      });
+    }
+
+    const payment = await Payment.findById(paymentId);
+    if (!payment) {
+      return res.status(404).json({
+        success: false,
+        message: 'Payment not found'
+      });
+    }
+
+    const { amount, reason, revokeCertificates } = req.body;
+    const updatedPayment = await refundService.refundPayment(payment, {
+      amount,
+      reason,
+      revokeCertificates: revokeCertificates === true,
+      performedBy: req.admin?.email || req.user?.email || 'admin',
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent')
+    });
+
+    res.json({
+      success: true,
+      message: updatedPayment.status === 'refunded'
+        ? 'Payment refunded and access removed'
+        : `Refunded ${formatAmount(updatedPayment.refundedAmount, updatedPayment.currency)} of ${formatAmount(updatedPayment.amount, updatedPayment.currency)}`,
+      data: {
+        status: updatedPayment.status,
+        refundedAmount: updatedPayment.refundedAmount,
+        accessRevokedAt: updatedPayment.accessRevokedAt
+      }
+    });
+  } catch (error) {
+    if (error.name === 'RefundError') {
+      return res.status(400).json({
+        success: false,
+        message: error.message
+      });
+    }
+    console.error('❌ Error refunding payment:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to refund payment',
+      error: error.message
+    });
+  }
+};
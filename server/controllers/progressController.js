@@ -1,6 +1,7 @@
 const Progress = require('../models/Progress');
 const Course = require('../models/Course');
 const User = require('../models/User');
+const Certificate = require('../models/Certificate');
 const { getThumbnailUrl, getPublicUrl } = require('../utils/s3CourseManager');
 
 // Udemy-style progress tracking: Request deduplication and batching
@@ -197,12 +198,14 @@ exports.updateProgress = async (req, res) => {
       console.log(`   - Completed Videos: ${courseProgress.completedVideos}/${courseProgress.totalVideos}`);
       console.log(`   - Total Watched Duration: ${courseProgress.totalWatchedDuration}s`);
       console.log(`   - Course Total Duration: ${courseProgress.courseTotalDuration}s`);
-      console.log(`   - Should Generate Certificate: ${courseProgress.courseProgressPercentage >= 100 && courseProgress.completedVideos >= courseProgress.totalVideos && courseProgress.totalWatchedDuration >= courseProgress.courseTotalDuration}`);
+      console.log(`   - Required Quizzes Passed: ${courseProgress.passedQuizzes}/${courseProgress.requiredQuizzes}`);
+      console.log(`   - Should Generate Certificate: ${courseProgress.courseProgressPercentage >= 100 && courseProgress.completedVideos >= courseProgress.totalVideos && courseProgress.totalWatchedDuration >= courseProgress.courseTotalDuration && courseProgress.quizzesPassed}`);
 
       // Check if course is 100% completed and auto-generate certificate
       if (courseProgress.courseProgressPercentage >= 100 && 
           courseProgress.completedVideos >= courseProgress.totalVideos &&
-          courseProgress.totalWatchedDuration >= courseProgress.courseTotalDuration) {
+          courseProgress.totalWatchedDuration >= courseProgress.courseTotalDuration &&
+          courseProgress.quizzesPassed) {
         try {
           console.log(`🎓 [Certificate] Auto-generating certificate for completed course...`);
           const certificateController = require('./certificateController');
@@ -224,6 +227,8 @@ exports.updateProgress = async (req, res) => {
           const remainingTime = Math.max(0, courseProgress.courseTotalDuration - courseProgress.totalWatchedDuration);
           const remainingMinutes = Math.ceil(remainingTime / 60);
           console.log(`   - Reason: User needs to watch ${remainingMinutes} more minutes`);
+        } else if (!courseProgress.quizzesPassed) {
+          console.log(`   - Reason: Only ${courseProgress.passedQuizzes}/${courseProgress.requiredQuizzes} required quizzes passed`);
         }
       }
 
@@ -1015,8 +1020,16 @@ exports.checkCertificateStatus = async (req, res) => {
     
     console.log(`🔍 [Certificate Status] Checking certificate status for user ${userId}, course ${courseId}`);
     
+    const course = await Course.findById(courseId);
+    if (!course) {
+      return res.status(404).json({
+        success: false,
+        message: 'Course not found'
+      });
+    }
+
     // Get user's course progress
-    const courseProgress = await Progress.getOverallCourseProgress(userId, courseId);
+    const courseProgress = await Progress.getOverallCourseProgress(userId, courseId, course.videos.length);
     
     // Check if certificate exists
     const certificate = await Certificate.getCourseCertificate(userId, courseId);
@@ -1031,7 +1044,9 @@ exports.checkCertificateStatus = async (req, res) => {
           completedVideos: courseProgress.completedVideos,
           totalVideos: courseProgress.totalVideos,
           totalWatchedDuration: courseProgress.totalWatchedDuration,
-          courseTotalDuration: courseProgress.courseTotalDuration
+          courseTotalDuration: courseProgress.courseTotalDuration,
+          requiredQuizzes: courseProgress.requiredQuizzes,
+          passedQuizzes: courseProgress.passedQuizzes
         },
         certificate: certificate ? {
           certificateId: certificate.certificateId,
@@ -1041,7 +1056,8 @@ exports.checkCertificateStatus = async (req, res) => {
         shouldGenerateCertificate: !certificate && 
           courseProgress.courseProgressPercentage >= 100 && 
           courseProgress.completedVideos >= courseProgress.totalVideos &&
-          courseProgress.totalWatchedDuration >= courseProgress.courseTotalDuration
+          courseProgress.totalWatchedDuration >= courseProgress.courseTotalDuration &&
+          courseProgress.quizzesPassed
       }
     });
   } catch (error) {
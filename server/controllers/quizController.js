@@ -0,0 +1,473 @@
+const mongoose = require('mongoose');
+const Quiz = require('../models/Quiz');
+const QuizAttempt = require('../models/QuizAttempt');
+const Course = require('../models/Course');
+const Video = require('../models/Video');
+const quizService = require('../services/quizService');
+const { userHasPurchased } = require('../utils/purchaseUtils');
+
+/**
+ * Load the course and its current lessons (s3Key is how quizzes follow lessons across versions)
+ */
+const getCourseWithVideos = async (courseId) => {
+  const course = await Course.findById(courseId).select('title videos');
+  if (!course) {
+    return { course: null, videos: [] };
+  }
+  const videos = await Video.find({ _id: { $in: course.videos } }).select('title s3Key order isFreePreview');
+  return { course, videos };
+};
+
+/**
+ * Resolve a quiz together with the student's copy of its lesson
+ */
+const getQuizWithVideo = async (quizId) => {
+  const quiz = await Quiz.findOne({ _id: quizId, status: 'active' });
+  if (!quiz) {
+    return { quiz: null, video: null };
+  }
+  const { videos } = await getCourseWithVideos(quiz.courseId);
+  const match = (await Quiz.getForCourseVideos(quiz.courseId, videos))
+    .find(entry => entry.quiz._id.toString() === quiz._id.toString());
+  // A lesson quiz whose lesson left the course is no longer takeable
+  return match ? { quiz, video: match.video } : { quiz: null, video: null };
+};
+
+/**
+ * Buyers can take every quiz; everyone else only those on free preview lessons
+ */
+const canTakeQuiz = async (quiz, video, req) => {
+  if (req.user.role === 'admin') return true;
+  if (await userHasPurchased(req.user.id, quiz.courseId)) return true;
+  return !!(video && video.isFreePreview);
+};
+
+// ========================================
+// STUDENT ENDPOINTS
+// ========================================
+
+/**
+ * Get the quizzes of a course with the student's results
+ * GET /api/quizzes/course/:courseId
+ */
+exports.getCourseQuizzes = async (req, res) => {
+  try {
+    const { courseId } = req.params;
+    const { course, videos } = await getCourseWithVideos(courseId);
+    if (!course) {
+      return res.status(404).json({
+        success: false,
+        message: 'Course not found'
+      });
+    }
+
+    const isAdmin = req.user.role === 'admin';
+    const hasPurchased = isAdmin || await userHasPurchased(req.user.id, courseId);
+    const entries = (await Quiz.getForCourseVideos(courseId, videos))
+      .filter(({ video }) => hasPurchased || (video && video.isFreePreview));
+
+    const status = mongoose.Types.ObjectId.isValid(req.user.id)
+      ? await QuizAttempt.getCourseQuizStatus(req.user.id, courseId)
+      : { requiredQuizzes: 0, passedQuizzes: 0, quizzesPassed: true, quizzes: [] };
+    const resultByQuiz = new Map(status.quizzes.map(s => [s.quizId.toString(), s]));
+
+    const quizzes = entries.map(({ quiz, video }) => {
+      const result = resultByQuiz.get(quiz._id.toString());
+      const studentQuiz = quiz.toStudentJSON(video ? video._id : null);
+      return {
+        _id: studentQuiz._id,
+        videoId: studentQuiz.videoId,
+        title: studentQuiz.title,
+        description: studentQuiz.description,
+        passingScore: studentQuiz.passingScore,
+        requiredForCertificate: studentQuiz.requiredForCertificate,
+        maxAttempts: studentQuiz.maxAttempts,
+        questionCount: studentQuiz.questions.length,
+        attempts: result ? result.attempts : 0,
+        bestPercentage: result ? result.bestPercentage : 0,
+        passed: result ? result.passed : false
+      };
+    });
+
+    res.json({
+      success: true,
+      data: {
+        quizzes,
+        requiredQuizzes: status.requiredQuizzes,
+        passedQuizzes: status.passedQuizzes,
+        quizzesPassed: status.quizzesPassed
+      }
+    });
+  } catch (error) {
+    console.error('❌ Error fetching course quizzes:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch quizzes',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Get a quiz to take (answers are never included)
+ * GET /api/quizzes/:quizId
+ */
+exports.getQuiz = async (req, res) => {
+  try {
+    const { quiz, video } = await getQuizWithVideo(req.params.quizId);
+    if (!quiz) {
+      return res.status(404).json({
+        success: false,
+        message: 'Quiz not found'
+      });
+    }
+
+    if (!(await canTakeQuiz(quiz, video, req))) {
+      return res.status(403).json({
+        success: false,
+        message: 'You must purchase this course to take this quiz'
+      });
+    }
+
+    const attemptsUsed = mongoose.Types.ObjectId.isValid(req.user.id)
+      ? await QuizAttempt.countDocuments({ userId: req.user.id, quizId: quiz._id })
+      : 0;
+
+    res.json({
+      success: true,
+      data: {
+        quiz: quiz.toStudentJSON(video ? video._id : null),
+        attemptsUsed
+      }
+    });
+  } catch (error) {
+    console.error('❌ Error fetching quiz:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch quiz',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Submit answers for grading
+ * POST /api/quizzes/:quizId/attempts
+ * Body: { answers: [{ questionId, answer }] }
+ */
+exports.submitAttempt = async (req, res) => {
+  try {
+    const { quiz, video } = await getQuizWithVideo(req.params.quizId);
+    if (!quiz) {
+      return res.status(404).json({
+        success: false,
+        message: 'Quiz not found'
+      });
+    }
+
+    if (!(await canTakeQuiz(quiz, video, req))) {
+      return res.status(403).json({
+        success: false,
+        message: 'You must purchase this course to take this quiz'
+      });
+    }
+
+    const answers = Array.isArray(req.body.answers) ? req.body.answers : [];
+    const graded = quizService.gradeAttempt(quiz, answers);
+
+    // Admin tokens have no user record - grade as a preview without storing it
+    if (!mongoose.Types.ObjectId.isValid(req.user.id)) {
+      return res.json({
+        success: true,
+        data: {
+          attempt: { ...graded, attemptNumber: 0, passingScore: quiz.passingScore, preview: true },
+          review: quizService.buildReview(quiz, graded, { revealAnswers: true })
+        }
+      });
+    }
+
+    const attemptsUsed = await QuizAttempt.countDocuments({ userId: req.user.id, quizId: quiz._id });
+    if (quiz.maxAttempts > 0 && attemptsUsed >= quiz.maxAttempts) {
+      return res.status(400).json({
+        success: false,
+        message: `You have used all ${quiz.maxAttempts} attempts for this quiz`
+      });
+    }
+
+    const attempt = await QuizAttempt.create({
+      userId: req.user.id,
+      quizId: quiz._id,
+      courseId: quiz.courseId,
+      attemptNumber: attemptsUsed + 1,
+      answers: graded.answers,
+      score: graded.score,
+      maxScore: graded.maxScore,
+      percentage: graded.percentage,
+      passingScore: quiz.passingScore,
+      passed: graded.passed
+    });
+
+    console.log(`📝 [Quiz] User ${req.user.id} scored ${graded.percentage}% on quiz ${quiz._id} (attempt ${attempt.attemptNumber}, ${graded.passed ? 'passed' : 'failed'})`);
+
+    // Passing the last required quiz may be what completes the course
+    let certificateIssued = false;
+    if (graded.passed && quiz.requiredForCertificate) {
+      try {
+        const certificateController = require('./certificateController');
+        certificateIssued = !!(await certificateController.autoGenerateCertificate(req.user.id, quiz.courseId));
+      } catch (certError) {
+        // Don't fail the submission if certificate generation fails
+        console.error('❌ [Certificate] Error in auto-generation after quiz pass:', certError);
+      }
+    }
+
+    res.status(201).json({
+      success: true,
+      data: {
+        attempt,
+        review: quizService.buildReview(quiz, attempt, { revealAnswers: quizService.canRevealAnswers(quiz, attempt) }),
+        attemptsRemaining: quiz.maxAttempts > 0 ? quiz.maxAttempts - attempt.attemptNumber : null,
+        certificateIssued
+      }
+    });
+  } catch (error) {
+    console.error('❌ Error submitting quiz attempt:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to submit quiz',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Get the student's past attempts for a quiz
+ * GET /api/quizzes/:quizId/attempts
+ */
+exports.getMyAttempts = async (req, res) => {
+  try {
+    const attempts = mongoose.Types.ObjectId.isValid(req.user.id)
+      ? await QuizAttempt.find({ userId: req.user.id, quizId: req.params.quizId })
+        .select('attemptNumber score maxScore percentage passingScore passed submittedAt')
+        .sort({ attemptNumber: -1 })
+      : [];
+
+    res.json({
+      success: true,
+      data: { attempts }
+    });
+  } catch (error) {
+    console.error('❌ Error fetching quiz attempts:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch quiz attempts',
+      error: error.message
+    });
+  }
+};
+
+// ========================================
+// ADMIN ENDPOINTS
+// ========================================
+
+/**
+ * Build quiz fields from an admin request body
+ */
+const buildQuizFields = async (body, courseId) => {
+  const fields = {
+    title: quizService.normalizeText(body.title),
+    description: quizService.normalizeText(body.description),
+    questions: (body.questions || []).map(question => quizService.normalizeQuestion(question)),
+    passingScore: body.passingScore !== undefined ? Number(body.passingScore) : 70,
+    requiredForCertificate: body.requiredForCertificate !== false,
+    maxAttempts: Math.max(0, Number(body.maxAttempts) || 0),
+    order: Number(body.order) || 0
+  };
+
+  if (body.videoId) {
+    const video = await Video.findOne({ _id: body.videoId, courseId }).select('s3Key');
+    if (!video) {
+      throw new Error('Lesson not found in this course');
+    }
+    fields.videoId = video._id;
+    fields.videoS3Key = video.s3Key;
+  } else {
+    fields.videoId = null;
+    fields.videoS3Key = null;
+  }
+
+  return fields;
+};
+
+/**
+ * Get every quiz of a course with answers and attempt statistics
+ * GET /api/quizzes/admin/course/:courseId
+ */
+exports.getAdminCourseQuizzes = async (req, res) => {
+  try {
+    const { courseId } = req.params;
+    const { course, videos } = await getCourseWithVideos(courseId);
+    if (!course) {
+      return res.status(404).json({
+        success: false,
+        message: 'Course not found'
+      });
+    }
+
+    const quizzes = await Quiz.find({ courseId, status: 'active' }).sort({ order: 1, createdAt: 1 });
+    const stats = await QuizAttempt.aggregate([
+      { $match: { quizId: { $in: quizzes.map(q => q._id) } } },
+      {
+        $group: {
+          _id: '$quizId',
+          attempts: { $sum: 1 },
+          students: { $addToSet: '$userId' },
+          passedAttempts: { $sum: { $cond: ['$passed', 1, 0] } },
+          averagePercentage: { $avg: '$percentage' }
+        }
+      }
+    ]);
+    const statsByQuiz = new Map(stats.map(s => [s._id.toString(), s]));
+    const videoByS3Key = new Map(videos.map(video => [video.s3Key, video]));
+
+    res.json({
+      success: true,
+      data: {
+        quizzes: quizzes.map(quiz => {
+          const stat = statsByQuiz.get(quiz._id.toString());
+          const video = quiz.videoS3Key ? videoByS3Key.get(quiz.videoS3Key) : null;
+          return {
+            ...quiz.toObject(),
+            // Lesson in the current version (null when the lesson was removed)
+            currentVideoId: video ? video._id : null,
+            orphaned: !!quiz.videoS3Key && !video,
+            stats: {
+              attempts: stat ? stat.attempts : 0,
+              students: stat ? stat.students.length : 0,
+              passRate: stat ? Math.round((stat.passedAttempts / stat.attempts) * 100) : 0,
+              averagePercentage: stat ? Math.round(stat.averagePercentage) : 0
+            }
+          };
+        })
+      }
+    });
+  } catch (error) {
+    console.error('❌ Error fetching admin quizzes:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch quizzes',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Create a quiz
+ * POST /api/quizzes/admin
+ * Body: { courseId, videoId?, title, description, questions, passingScore, requiredForCertificate, maxAttempts }
+ */
+exports.createQuiz = async (req, res) => {
+  try {
+    const { courseId } = req.body;
+    const course = await Course.findById(courseId).select('_id');
+    if (!course) {
+      return res.status(404).json({
+        success: false,
+        message: 'Course not found'
+      });
+    }
+
+    const fields = await buildQuizFields(req.body, courseId);
+    const quiz = await Quiz.create({
+      ...fields,
+      courseId,
+      createdBy: req.admin?.email || req.user?.email || 'admin'
+    });
+
+    console.log(`✅ [Quiz] Created quiz ${quiz._id} for course ${courseId} (${quiz.questions.length} questions)`);
+
+    res.status(201).json({
+      success: true,
+      message: 'Quiz created successfully',
+      data: { quiz }
+    });
+  } catch (error) {
+    console.error('❌ Error creating quiz:', error);
+    res.status(400).json({
+      success: false,
+      message: error.message || 'Failed to create quiz'
+    });
+  }
+};
+
+/**
+ * Update a quiz. Past attempts keep the score and passing mark they were graded with.
+ * PUT /api/quizzes/admin/:quizId
+ */
+exports.updateQuiz = async (req, res) => {
+  try {
+    const quiz = await Quiz.findOne({ _id: req.params.quizId, status: 'active' });
+    if (!quiz) {
+      return res.status(404).json({
+        success: false,
+        message: 'Quiz not found'
+      });
+    }
+
+    const fields = await buildQuizFields(req.body, quiz.courseId);
+    quiz.set(fields);
+    await quiz.save();
+
+    console.log(`✅ [Quiz] Updated quiz ${quiz._id}`);
+
+    res.json({
+      success: true,
+      message: 'Quiz updated successfully',
+      data: { quiz }
+    });
+  } catch (error) {
+    console.error('❌ Error updating quiz:', error);
+    res.status(400).json({
+      success: false,
+      message: error.message || 'Failed to update quiz'
+    });
+  }
+};
+
+/**
+ * Delete a quiz. Quizzes with attempts are archived so results stay on record.
+ * DELETE /api/quizzes/admin/:quizId
+ */
+exports.deleteQuiz = async (req, res) => {
+  try {
+    const quiz = await Quiz.findById(req.params.quizId);
+    if (!quiz) {
+      return res.status(404).json({
+        success: false,
+        message: 'Quiz not found'
+      });
+    }
+
+    const attemptCount = await QuizAttempt.countDocuments({ quizId: quiz._id });
+    if (attemptCount > 0) {
+      quiz.status = 'archived';
+      await quiz.save();
+      console.log(`📦 [Quiz] Archived quiz ${quiz._id} (${attemptCount} attempts kept)`);
+    } else {
+      await quiz.deleteOne();
+      console.log(`🗑️ [Quiz] Deleted quiz ${quiz._id}`);
+    }
+
+    res.json({
+      success: true,
+      message: attemptCount > 0 ? 'Quiz archived (attempts kept)' : 'Quiz deleted successfully'
+    });
+  } catch (error) {
+    console.error('❌ Error deleting quiz:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to delete quiz',
+      error: error.message
+    });
+  }
+};
@@ -0,0 +1,317 @@
+const mongoose = require('mongoose');
+const User = require('../models/User');
+const Course = require('../models/Course');
+const Video = require('../models/Video');
+const Progress = require('../models/Progress');
+const Certificate = require('../models/Certificate');
+const Payment = require('../models/Payment');
+const { PERMISSIONS } = require('../config/adminRoles');
+const { getEnglishText } = require('../utils/bilingualHelper');
+const { buildUserListQuery } = require('../utils/userListQuery');
+const { parseReportFormat, createReportWriter } = require('../utils/spreadsheet');
+
+const BARE_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Parse ?from=&to= (YYYY-MM-DD, inclusive) into a Mongo date condition
+ * @returns {Object|null|undefined} Condition, undefined when no range was given, null when a date is invalid
+ */
+const parseDateRange = ({ from, to }) => {
+  if (!from && !to) return undefined;
+
+  const condition = {};
+  if (from) {
+    const fromDate = new Date(from);
+    if (isNaN(fromDate)) return null;
+    condition.$gte = fromDate;
+  }
+  if (to) {
+    const toDate = new Date(to);
+    if (isNaN(toDate)) return null;
+    // A bare date means the whole day
+    if (BARE_DATE.test(to)) toDate.setUTCHours(23, 59, 59, 999);
+    condition.$lte = toDate;
+  }
+  return condition;
+};
+
+// Same order ID printed on the receipts (last 8 characters of the payment ID)
+const toReceiptNumber = (paymentId) => paymentId.toString().slice(-8).toUpperCase();
+
+const badRequest = (res, message) => res.status(400).json({ success: false, message });
+
+/**
+ * Stream a report built by `writeRows(writer)`, answering with JSON errors until the download has started
+ */
+const streamReport = async (req, res, options, writeRows) => {
+  const format = parseReportFormat(req.query.format);
+  if (!format) {
+    return badRequest(res, 'Format must be csv or xlsx');
+  }
+
+  try {
+    const writer = createReportWriter(res, { format, ...options });
+    await writeRows(writer);
+    const rows = await writer.end();
+    console.log(`📤 [Reports] ${req.admin?.email || 'admin'} exported ${rows} ${options.sheetName.toLowerCase()} as ${format}`);
+  } catch (error) {
+    // Leaving the cursor loop on a closed download has already closed the cursor
+    if (error.name === 'ReportAbortedError') {
+      console.log(`⚠️  [Reports] ${req.admin?.email || 'admin'} closed the ${options.sheetName.toLowerCase()} download before it finished`);
+      return;
+    }
+    console.error(`❌ Export ${options.sheetName.toLowerCase()} error:`, error);
+    if (!res.headersSent) {
+      return res.status(500).json({
+        success: false,
+        message: `Failed to export ${options.sheetName.toLowerCase()}`,
+        error: error.message
+      });
+    }
+    res.end();
+  }
+};
+
+/**
+ * Users, filtered and sorted like the admin user list
+ * GET /api/admin/reports/users?format=csv|xlsx&search=&status=&role=&sortBy=&sortOrder=
+ */
+const exportUsers = (req, res) => {
+  const { filter, sort } = buildUserListQuery(req.query);
+
+  return streamReport(req, res, {
+    fileName: 'users',
+    sheetName: 'Users',
+    columns: [
+      { header: 'User ID', key: 'id', width: 26 },
+      { header: 'Name', key: 'name', width: 24 },
+      { header: 'Email', key: 'email', width: 32 },
+      { header: 'Status', key: 'status', width: 10 },
+      { header: 'Role', key: 'role', width: 10 },
+      { header: 'Admin Role', key: 'adminRole', width: 16 },
+      { header: 'Sign-in', key: 'authProvider', width: 10 },
+      { header: 'Verified', key: 'isVerified', width: 10 },
+      { header: 'Phone', key: 'phoneNumber', width: 18 },
+      { header: 'Country', key: 'country', width: 14 },
+      { header: 'City', key: 'city', width: 14 },
+      { header: 'Courses Purchased', key: 'courses', width: 10 },
+      { header: 'Bundles Purchased', key: 'bundles', width: 10 },
+      { header: 'Joined', key: 'createdAt', width: 22 }
+    ]
+  }, async (writer) => {
+    const cursor = User.find(filter)
+      .select('name email status role adminRole authProvider isVerified phoneNumber country city purchasedCourses purchasedBundles createdAt')
+      .sort(sort)
+      .lean()
+      .cursor();
+
+    for await (const user of cursor) {
+      await writer.addRow({
+        ...user,
+        id: user._id.toString(),
+        isVerified: user.isVerified ? 'yes' : 'no',
+        courses: user.purchasedCourses?.length || 0,
+        bundles: user.purchasedBundles?.length || 0
+      });
+    }
+  });
+};
+
+/**
+ * Course enrollments with each student's progress. Admins without user access only get the courses they teach.
+ * GET /api/admin/reports/enrollments?format=csv|xlsx&courseId=
+ */
+const exportEnrollments = (req, res) => {
+  const courseFilter = {};
+  if (req.query.courseId) {
+    if (!mongoose.isValidObjectId(req.query.courseId)) {
+      return badRequest(res, 'Invalid course ID');
+    }
+    courseFilter._id = req.query.courseId;
+  }
+  if (!req.admin?.permissions?.includes(PERMISSIONS.USERS_VIEW)) {
+    if (!req.admin?.userId) {
+      return res.status(403).json({ success: false, message: 'You can only export courses you teach' });
+    }
+    courseFilter.instructors = req.admin.userId;
+  }
+
+  return streamReport(req, res, {
+    fileName: 'enrollments',
+    sheetName: 'Enrollments',
+    columns: [
+      { header: 'Course', key: 'course', width: 32 },
+      { header: 'Course ID', key: 'courseId', width: 26 },
+      { header: 'Student', key: 'name', width: 24 },
+      { header: 'Email', key: 'email', width: 32 },
+      { header: 'Enrolled', key: 'enrolledAt', width: 22 },
+      { header: 'Access', key: 'accessGrantedBy', width: 10 },
+      { header: 'Status', key: 'status', width: 10 },
+      { header: 'Version', key: 'versionEnrolled', width: 8 },
+      { header: 'Lessons Completed', key: 'completedLessons', width: 10 },
+      { header: 'Total Lessons', key: 'totalLessons', width: 10 },
+      { header: 'Progress %', key: 'progress', width: 10 },
+      { header: 'Last Activity', key: 'lastActivityAt', width: 22 }
+    ]
+  }, async (writer) => {
+    // One course at a time keeps memory bounded by the largest course
+    const cursor = Course.find(courseFilter).select('title currentVersion enrolledStudents').sort({ createdAt: 1 }).lean().cursor();
+
+    for await (const course of cursor) {
+      const enrollments = course.enrolledStudents || [];
+      if (enrollments.length === 0) continue;
+
+      const [totalLessons, progressRows, users] = await Promise.all([
+        Video.countDocuments({ courseId: course._id, courseVersion: course.currentVersion || 1, status: { $ne: 'deleted' } }),
+        Progress.aggregate([
+          { $match: { courseId: course._id } },
+          {
+            $group: {
+              _id: '$userId',
+              completionSum: { $sum: { $min: [100, { $ifNull: ['$completionPercentage', 0] }] } },
+              completedLessons: { $sum: { $cond: ['$isCompleted', 1, 0] } },
+              lastActivityAt: { $max: '$lastWatchedAt' }
+            }
+          }
+        ]),
+        User.find({ _id: { $in: enrollments.map(enrollment => enrollment.userId) } }).select('name email').lean()
+      ]);
+      const progressByUser = new Map(progressRows.map(row => [row._id.toString(), row]));
+      const usersById = new Map(users.map(user => [user._id.toString(), user]));
+      const title = getEnglishText(course.title);
+
+      for (const enrollment of enrollments) {
+        const userId = enrollment.userId.toString();
+        const progress = progressByUser.get(userId);
+        const user = usersById.get(userId);
+        await writer.addRow({
+          course: title,
+          courseId: course._id.toString(),
+          name: user?.name || 'Deleted user',
+          email: user?.email || '',
+          enrolledAt: enrollment.enrolledAt,
+          accessGrantedBy: enrollment.accessGrantedBy,
+          status: enrollment.status,
+          versionEnrolled: enrollment.versionEnrolled,
+          completedLessons: progress?.completedLessons || 0,
+          totalLessons,
+          // Same formula as the student's course progress: average lesson completion across all lessons
+          progress: totalLessons > 0 ? Math.min(100, Math.round((progress?.completionSum || 0) / totalLessons)) : 0,
+          lastActivityAt: progress?.lastActivityAt || null
+        });
+      }
+    }
+  });
+};
+
+/**
+ * Certificates issued, newest first
+ * GET /api/admin/reports/certificates?format=csv|xlsx&from=&to=&courseId=
+ */
+const exportCertificates = (req, res) => {
+  const filter = {};
+  const issued = parseDateRange(req.query);
+  if (issued === null) return badRequest(res, 'Invalid date');
+  if (issued) filter.dateIssued = issued;
+  if (req.query.courseId) {
+    if (!mongoose.isValidObjectId(req.query.courseId)) return badRequest(res, 'Invalid course ID');
+    filter.courseId = req.query.courseId;
+  }
+
+  return streamReport(req, res, {
+    fileName: 'certificates',
+    sheetName: 'Certificates',
+    columns: [
+      { header: 'Certificate ID', key: 'certificateId', width: 22 },
+      { header: 'Student', key: 'studentName', width: 24 },
+      { header: 'Email', key: 'email', width: 32 },
+      { header: 'Course', key: 'courseTitle', width: 32 },
+      { header: 'Instructor', key: 'instructorName', width: 24 },
+      { header: 'Completed', key: 'completionDate', width: 22 },
+      { header: 'Issued', key: 'dateIssued', width: 22 },
+      { header: 'Lessons', key: 'lessons', width: 10 },
+      { header: 'Completion %', key: 'completionPercentage', width: 10 }
+    ]
+  }, async (writer) => {
+    const cursor = Certificate.find(filter)
+      .select('certificateId studentId studentName courseTitle instructorName completionDate dateIssued completedLessons totalLessons completionPercentage')
+      .populate('studentId', 'email')
+      .sort({ dateIssued: -1 })
+      .lean()
+      .cursor();
+
+    for await (const certificate of cursor) {
+      await writer.addRow({
+        ...certificate,
+        email: certificate.studentId?.email || '',
+        lessons: `${certificate.completedLessons}/${certificate.totalLessons}`
+      });
+    }
+  });
+};
+
+/**
+ * Payments with receipt numbers, newest first
+ * GET /api/admin/reports/payments?format=csv|xlsx&from=&to=&status=&currency=
+ */
+const exportPayments = (req, res) => {
+  const filter = {};
+  const created = parseDateRange(req.query);
+  if (created === null) return badRequest(res, 'Invalid date');
+  if (created) filter.createdAt = created;
+  if (req.query.status) filter.status = req.query.status;
+  if (req.query.currency) filter.currency = String(req.query.currency).toLowerCase();
+
+  return streamReport(req, res, {
+    fileName: 'payments',
+    sheetName: 'Payments',
+    columns: [
+      { header: 'Receipt #', key: 'receiptNumber', width: 12 },
+      { header: 'Date', key: 'createdAt', width: 22 },
+      { header: 'Status', key: 'status', width: 16 },
+      { header: 'Customer', key: 'customer', width: 24 },
+      { header: 'Email', key: 'email', width: 32 },
+      { header: 'Type', key: 'type', width: 8 },
+      { header: 'Item', key: 'item', width: 32 },
+      { header: 'Currency', key: 'currency', width: 8 },
+      { header: 'Amount', key: 'amount', width: 12 },
+      { header: 'Refunded', key: 'refundedAmount', width: 12 },
+      { header: 'Net', key: 'net', width: 12 },
+      { header: 'Coupon', key: 'coupon', width: 14 },
+      { header: 'Discount', key: 'discount', width: 12 },
+      { header: 'Gift', key: 'gift', width: 8 },
+      { header: 'Stripe Session', key: 'stripeSessionId', width: 30 },
+      { header: 'Payment Intent', key: 'stripePaymentIntentId', width: 30 }
+    ]
+  }, async (writer) => {
+    const cursor = Payment.find(filter)
+      .populate('userId', 'name email')
+      .sort({ createdAt: -1 })
+      .lean()
+      .cursor();
+
+    for await (const payment of cursor) {
+      await writer.addRow({
+        ...payment,
+        receiptNumber: toReceiptNumber(payment._id),
+        customer: payment.userId?.name || '',
+        email: payment.userId?.email || payment.metadata?.userEmail || '',
+        type: payment.bundleId ? 'bundle' : 'course',
+        item: payment.bundleId ? payment.metadata?.bundleTitle : payment.metadata?.courseTitle,
+        currency: (payment.currency || 'usd').toUpperCase(),
+        refundedAmount: payment.refundedAmount || 0,
+        net: Math.round((payment.amount - (payment.refundedAmount || 0)) * 100) / 100,
+        coupon: payment.coupon?.code || '',
+        discount: payment.coupon?.discountAmount || null,
+        gift: payment.giftId ? 'yes' : 'no'
+      });
+    }
+  });
+};
+
+module.exports = {
+  exportUsers,
+  exportEnrollments,
+  exportCertificates,
+  exportPayments
+};
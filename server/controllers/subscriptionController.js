@@ -0,0 +1,107 @@
+const { MEMBERSHIP_PLANS } = require('../config/membershipPlans');
+const subscriptionService = require('../services/subscriptionService');
+
+/**
+ * Build an absolute frontend URL (CLIENT_URL may be configured without a protocol)
+ */
+const buildClientUrl = (path) => {
+  const base = process.env.CLIENT_URL || 'www.ibyet.com';
+  const normalized = base.startsWith('http://') || base.startsWith('https://') ? base : `https://${base}`;
+  return `${normalized.replace(/\/$/, '')}${path}`;
+};
+
+/**
+ * Shape a Subscription document for the profile page
+ */
+const serializeMembership = (subscription) => subscription && ({
+  _id: subscription._id,
+  plan: subscription.plan,
+  status: subscription.status,
+  isActive: subscription.grantsAccess(),
+  currentPeriodEnd: subscription.currentPeriodEnd,
+  cancelAtPeriodEnd: subscription.cancelAtPeriodEnd,
+  canceledAt: subscription.canceledAt,
+  lastPaymentFailedAt: subscription.lastPaymentFailedAt,
+  managedByStripe: !!subscription.stripeSubscriptionId
+});
+
+const handleSubscriptionError = (res, error, fallbackMessage) => {
+  if (error.name === 'SubscriptionError') {
+    return res.status(400).json({
+      success: false,
+      message: error.message
+    });
+  }
+  console.error(`❌ ${fallbackMessage}:`, error);
+  res.status(500).json({
+    success: false,
+    message: fallbackMessage,
+    error: error.message
+  });
+};
+
+/**
+ * List the membership plans
+ * GET /api/subscriptions/plans
+ */
+exports.getPlans = (req, res) => {
+  const plans = Object.values(MEMBERSHIP_PLANS).map(({ id, name, interval, price }) => ({ id, name, interval, price }));
+  res.json({
+    success: true,
+    data: { plans }
+  });
+};
+
+/**
+ * Get the current user's membership
+ * GET /api/subscriptions/me
+ */
+exports.getMyMembership = async (req, res) => {
+  try {
+    const subscription = await subscriptionService.getMembership(req.user.id);
+    res.json({
+      success: true,
+      data: { membership: serializeMembership(subscription) }
+    });
+  } catch (error) {
+    handleSubscriptionError(res, error, 'Failed to fetch membership');
+  }
+};
+
+/**
+ * Start a membership checkout
+ * POST /api/subscriptions/checkout
+ * Body: { plan: 'monthly' | 'yearly' }
+ */
+exports.createCheckoutSession = async (req, res) => {
+  try {
+    const session = await subscriptionService.createCheckoutSession({
+      userId: req.user.id,
+      planId: req.body.plan,
+      successUrl: buildClientUrl('/profile?membership=success'),
+      cancelUrl: buildClientUrl('/profile?membership=cancelled')
+    });
+    res.json({
+      success: true,
+      data: { sessionId: session.id, url: session.url }
+    });
+  } catch (error) {
+    handleSubscriptionError(res, error, 'Failed to start membership checkout');
+  }
+};
+
+/**
+ * Open the Stripe billing portal (update card, switch plan, cancel)
+ * POST /api/subscriptions/portal
+ */
+exports.createPortalSession = async (req, res) => {
+  try {
+    const url = await subscriptionService.createPortalSession(req.user.id, buildClientUrl('/profile'));
+    res.json({
+      success: true,
+      data: { url }
+    });
+  } catch (error) {
+    handleSubscriptionError(res, error, 'Failed to open billing portal');
+  }
+};
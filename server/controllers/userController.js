@@ -1,7 +1,11 @@
 const User = require('../models/User');
 const Course = require('../models/Course');
 const AuditLog = require('../models/AuditLog');
+const sessionService = require('../services/sessionService');
+const certificateService = require('../services/certificateService');
+const { getAdminRole } = require('../config/adminRoles');
 const { uploadFileWithOrganization, deleteFileFromS3, getPublicUrl } = require('../utils/s3');
+const { buildUserListQuery } = require('../utils/userListQuery');
 
 exports.getUserProfile = async (req, res) => {
   try {
@@ -104,49 +108,8 @@ exports.getUserDashboard = async (req, res) => {
 // Admin user management functions
 exports.getAllUsers = async (req, res) => {
   try {
-    const { page = 1, limit = 10, search = '', status = '', role = '', sortBy = 'createdAt', sortOrder = 'desc' } = req.query;
-    
-    const query = {};
-    
-    // Search by name or email
-    if (search) {
-      query.$or = [
-        { name: { $regex: search, $options: 'i' } },
-        { email: { $regex: search, $options: 'i' } }
-      ];
-    }
-    
-    // Filter by status
-    if (status) {
-      query.status = status;
-    }
-    
-    // Filter by role
-    if (role) {
-      query.role = role;
-    }
-    
-    // Build sort object
-    const sortObj = {};
-    const order = sortOrder === 'asc' ? 1 : -1;
-    
-    // Handle different sort fields
-    switch (sortBy) {
-      case 'name':
-        sortObj.name = order;
-        break;
-      case 'email':
-        sortObj.email = order;
-        break;
-      case 'status':
-        // For status sorting, we'll use a custom sort order: active, inactive
-        sortObj.status = order;
-        break;
-      case 'createdAt':
-      default:
-        sortObj.createdAt = order;
-        break;
-    }
+    const { page = 1, limit = 10 } = req.query;
+    const { filter: query, sort: sortObj } = buildUserListQuery(req.query);
     
     const skip = (page - 1) * limit;
     
@@ -195,17 +158,34 @@ exports.getUserById = async (req, res) => {
 
 exports.updateUserByAdmin = async (req, res) => {
   try {
-    const { name, email, role } = req.body;
+    // Roles are only changed through updateUserRole, which needs the roles permission
+    const { name, email } = req.body;
     
+    const previous = await User.findById(req.params.id).select('name email');
+    if (!previous) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+
     const user = await User.findByIdAndUpdate(
       req.params.id,
-      { name, email, role },
+      { name, email },
       { new: true, runValidators: true }
     ).select('-password');
     
     if (!user) {
       return res.status(404).json({ message: 'User not found' });
     }
+
+    const changes = AuditLog.diffChanges(previous, user, ['name', 'email']);
+    if (changes.length > 0) {
+      await AuditLog.logAdminAction(req, {
+        action: 'user_updated',
+        entityType: 'user',
+        entityId: user._id,
+        entityTitle: user.email,
+        changes
+      });
+    }
     
     res.json({
       success: true,
@@ -236,6 +216,19 @@ exports.deleteUserByAdmin = async (req, res) => {
     }
     
     await User.findByIdAndDelete(req.params.id);
+
+    await AuditLog.logAdminAction(req, {
+      action: 'user_deleted',
+      entityType: 'user',
+      entityId: user._id,
+      entityTitle: user.email,
+      details: {
+        name: user.name,
+        status: user.status,
+        purchasedCourses: user.purchasedCourses?.length || 0,
+        purchasedBundles: user.purchasedBundles?.length || 0
+      }
+    });
     
     res.json({
       success: true,
@@ -257,11 +250,21 @@ exports.updateUserStatus = async (req, res) => {
     }
     
     // Update user status and increment token version to invalidate existing tokens
+    const previousStatus = user.status;
     user.status = status;
     user.tokenVersion = (user.tokenVersion || 1) + 1; // Increment token version
     await user.save();
+    await sessionService.revokeOtherSessions(user._id, null, 'security');
     
     console.log(`🔒 User ${user.email} status changed to ${status}, token version incremented to ${user.tokenVersion}`);
+
+    await AuditLog.logAdminAction(req, {
+      action: 'user_status_changed',
+      entityType: 'user',
+      entityId: user._id,
+      entityTitle: user.email,
+      changes: AuditLog.diffChanges({ status: previousStatus }, { status }, ['status'])
+    });
     
     res.json({
       success: true,
@@ -273,6 +276,54 @@ exports.updateUserStatus = async (req, res) => {
   }
 };
 
+/**
+ * Assign or remove a user's admin panel role
+ * PUT /api/user/admin/:id/role
+ */
+exports.updateUserRole = async (req, res) => {
+  try {
+    const { adminRole } = req.body;
+
+    if (adminRole !== null && !getAdminRole(adminRole)) {
+      return res.status(400).json({ message: 'Invalid admin role' });
+    }
+
+    // Nobody can change their own role, so the last super admin can't lock themselves out
+    if (req.admin.userId && req.admin.userId === req.params.id) {
+      return res.status(400).json({ message: 'You cannot change your own role' });
+    }
+
+    const user = await User.findById(req.params.id);
+    if (!user) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+
+    const previousRole = user.adminRole;
+    user.adminRole = adminRole;
+    user.role = adminRole ? 'admin' : 'user';
+    await user.save();
+
+    console.log(`🛡️ ${req.admin.email} set admin role of ${user.email} to ${adminRole || 'none'}`);
+
+    await AuditLog.logAdminAction(req, {
+      action: 'user_role_changed',
+      entityType: 'user',
+      entityId: user._id,
+      entityTitle: user.email,
+      details: { previousRole, newRole: adminRole },
+      changes: AuditLog.diffChanges({ adminRole: previousRole }, { adminRole }, ['adminRole'])
+    });
+
+    res.json({
+      success: true,
+      message: adminRole ? `Role set to ${getAdminRole(adminRole).name}` : 'Admin access removed',
+      data: { user: { ...user.toObject(), password: undefined } }
+    });
+  } catch (err) {
+    res.status(500).json({ message: 'Failed to update user role', error: err.message });
+  }
+};
+
 /**
  * Get user's course enrollments with access details
  * GET /api/user/admin/:userId/courses
@@ -381,7 +432,7 @@ exports.grantCourseAccess = async (req, res) => {
         entityId: course._id,
         entityTitle: courseTitle,
         performedBy: adminEmail,
-        performedById: null,
+        performedById: req.admin?.userId || null,
         details: {
           userId: user._id,
           userEmail: user.email,
@@ -421,7 +472,8 @@ exports.grantCourseAccess = async (req, res) => {
 
 /**
  * Revoke course access from a user (admin only)
- * DELETE /api/user/admin/:userId/courses/:courseId/revoke
+ * DELETE /api/user/admin/:userId/courses/:courseId/revoke?revokeCertificate=true
+ * revokeCertificate also revokes the user's certificate for the course
  */
 exports.revokeCourseAccess = async (req, res) => {
   try {
@@ -472,6 +524,16 @@ exports.revokeCourseAccess = async (req, res) => {
     }
     
     const courseTitle = typeof course.title === 'string' ? course.title : (course.title?.en || course.title?.tg || 'Untitled');
+
+    const revokedCertificateIds = req.query.revokeCertificate === 'true'
+      ? await certificateService.revokeForCourses(user._id, [course._id], {
+        reason: 'Course access revoked',
+        performedBy: adminEmail,
+        performedById: req.admin?.userId || null,
+        ipAddress: req.ip,
+        userAgent: req.get('user-agent')
+      })
+      : [];
     
     // Log audit action
     try {
@@ -481,13 +543,14 @@ exports.revokeCourseAccess = async (req, res) => {
         entityId: course._id,
         entityTitle: courseTitle,
         performedBy: adminEmail,
-        performedById: null,
+        performedById: req.admin?.userId || null,
         details: {
           userId: user._id,
           userEmail: user.email,
           userName: user.name,
           previousAccessGrantedBy: enrollment.accessGrantedBy,
-          courseId: course._id
+          courseId: course._id,
+          revokedCertificateIds
         },
         ipAddress: req.ip,
         userAgent: req.get('user-agent')
@@ -505,7 +568,8 @@ exports.revokeCourseAccess = async (req, res) => {
       data: {
         userId: user._id,
         courseId: course._id,
-        courseTitle: courseTitle
+        courseTitle: courseTitle,
+        revokedCertificateIds
       }
     });
   } catch (err) {
@@ -18,6 +18,24 @@ const {
   formatDuration, 
   isValidVideoFormat 
 } = require('../utils/videoDurationDetector');
+const hlsService = require('../services/hlsService');
+const videoProcessingService = require('../services/videoProcessingService');
+const captionService = require('../services/captionService');
+const transcriptService = require('../services/transcriptService');
+const AuditLog = require('../models/AuditLog');
+const { getEnglishText } = require('../utils/bilingualHelper');
+
+/**
+ * Record a video action in the audit trail
+ */
+const logVideoAction = (req, video, action, extra = {}) => AuditLog.logAdminAction(req, {
+  action,
+  entityType: 'video',
+  entityId: video._id,
+  entityTitle: getEnglishText(video.title) || video.originalName || 'Untitled',
+  ...extra,
+  details: { courseId: video.courseId, courseVersion: video.courseVersion, ...extra.details }
+});
 
 /**
  * Parse duration string to seconds
@@ -238,7 +256,9 @@ exports.uploadVideo = async (req, res) => {
               originalName: video.originalName,
               uploadedBy: video.uploadedBy,
               isFreePreview: video.isFreePreview || false,
-              status: video.status || 'active'
+              status: video.status || 'active',
+              hls: video.hls,
+              captions: video.captions
             });
           });
           const copiedVideos = await Promise.all(videoCopyPromises);
@@ -478,6 +498,17 @@ exports.uploadVideo = async (req, res) => {
       }
     }
     
+    // Run metadata/poster/HLS processing in the background
+    try {
+      await videoProcessingService.enqueue(video._id, adminEmail);
+    } catch (error) {
+      console.error(`❌ [uploadVideo] Failed to queue processing job:`, error);
+    }
+    
+    await logVideoAction(req, video, 'video_uploaded', {
+      details: { fileSize: video.fileSize, isFreePreview: Boolean(isFreePreview) }
+    });
+
     res.status(201).json({
       success: true,
       message: `Video uploaded successfully${isFreePreview ? ' as free preview' : ''}`,
@@ -532,6 +563,8 @@ exports.updateVideo = async (req, res) => {
     const video = await Video.findById(req.params.videoId);
     if (!video) return res.status(404).json({ message: 'Video not found' });
     
+    const before = video.toObject();
+
     // Store old video info for potential future use
     const oldVideoInfo = {
       s3Key: video.s3Key,
@@ -622,6 +655,11 @@ exports.updateVideo = async (req, res) => {
     }
     
     await video.save();
+
+    const changes = AuditLog.diffChanges(before, video.toObject(), ['title', 'description', 'order', 'duration', 's3Key']);
+    if (changes.length > 0) {
+      await logVideoAction(req, video, 'video_updated', { changes, details: { fileReplaced: Boolean(req.file) } });
+    }
     
     res.json({
       success: true,
@@ -690,6 +728,7 @@ exports.deleteVideo = async (req, res) => {
       // Mark video as deleted
       video.status = 'deleted';
       await video.save();
+      await logVideoAction(req, video, 'video_deleted');
       
       return res.json({
         success: true,
@@ -750,6 +789,7 @@ exports.deleteVideo = async (req, res) => {
           
           // DO NOT delete from database or S3 - preserve for potential restoration
           console.log(`🔒 [deleteVideo] Video database record and S3 file preserved for potential restoration`);
+          await logVideoAction(req, video, 'video_deleted', { details: { removedFromVersion: 1 } });
           return res.json({
             success: true,
             message: 'Video removed from version 1 during initial upload. File preserved.',
@@ -818,7 +858,9 @@ exports.deleteVideo = async (req, res) => {
                 originalName: v.originalName,
                 uploadedBy: v.uploadedBy,
                 isFreePreview: v.isFreePreview || false,
-                status: v.status || 'active'
+                status: v.status || 'active',
+                hls: v.hls,
+                captions: v.captions
               });
             });
             const copiedVideos = await Promise.all(videoCopyPromises);
@@ -894,6 +936,7 @@ exports.deleteVideo = async (req, res) => {
           // can still access it. We've created a new version without it, but the old version
           // still has the reference, so students with access to that version can still access the file.
           console.log(`🔒 [deleteVideo] Video database record and S3 file preserved for students with earlier versions`);
+          await logVideoAction(req, video, 'video_deleted', { details: { removedFromVersion: newVersionNumber } });
           return res.json({
             success: true,
             message: 'Video removed from current version. File preserved for students with earlier versions.',
@@ -1264,13 +1307,355 @@ exports.streamVideo = async (req, res) => {
     }
     
     const url = await getSignedUrlForFile(video.s3Key, 3600, video.mimeType);
-    res.json({ url });
+    const hls = hlsService.getPlaybackInfo(video, userId, req);
+    const posterUrl = video.posterS3Key ? await getSignedUrlForFile(video.posterS3Key, 3600, 'image/jpeg') : null;
+    const captions = captionService.getCaptionTracks(video, userId, req);
+    res.json({ url, hls, posterUrl, captions });
   } catch (err) {
     console.error('[streamVideo] error:', err?.message || err);
     res.status(500).json({ message: 'Stream failed', error: err.message });
   }
 };
 
+/**
+ * Fresh HLS playback info (new playback token) for a player whose token is about to expire or was rejected
+ * GET /api/videos/:videoId/hls/playback
+ */
+exports.getHlsPlaybackInfo = async (req, res) => {
+  try {
+    const { videoId } = req.params;
+    const userId = req.user?.userId || req.user?.id || req.user?._id;
+    const isAdmin = req.user?.role === 'admin';
+
+    const video = await Video.findById(videoId);
+    if (!video) return res.status(404).json({ success: false, message: 'Video not found' });
+
+    const accessInfo = await checkVideoAccess(videoId, userId, isAdmin);
+    if (!accessInfo.hasAccess) {
+      return res.status(403).json({ success: false, message: 'Access denied to this video' });
+    }
+
+    const hls = hlsService.getPlaybackInfo(video, userId, req);
+    if (!hls) {
+      return res.status(404).json({ success: false, message: 'Adaptive stream not available' });
+    }
+
+    res.set('Cache-Control', 'private, no-store');
+    res.json({ success: true, data: { hls } });
+  } catch (err) {
+    console.error('[getHlsPlaybackInfo] error:', err?.message || err);
+    res.status(500).json({ success: false, message: 'Failed to refresh playback', error: err.message });
+  }
+};
+
+/**
+ * Serve the HLS master playlist for a video
+ * Authorized by the short-lived playback token issued with the stream info
+ */
+exports.getHlsMasterPlaylist = async (req, res) => {
+  try {
+    const { videoId } = req.params;
+    const { token } = req.query;
+
+    if (!token || !hlsService.verifyPlaybackToken(token, videoId)) {
+      return res.status(401).json({ success: false, message: 'Invalid or expired playback token' });
+    }
+
+    const video = await Video.findById(videoId);
+    if (!video || !video.hasHls) {
+      return res.status(404).json({ success: false, message: 'Adaptive stream not available' });
+    }
+
+    res.set('Content-Type', 'application/vnd.apple.mpegurl');
+    res.set('Cache-Control', 'private, no-store');
+    res.send(hlsService.renderMasterPlaylist(video, token, req));
+  } catch (err) {
+    console.error('[getHlsMasterPlaylist] error:', err?.message || err);
+    res.status(500).json({ success: false, message: 'Failed to load playlist', error: err.message });
+  }
+};
+
+/**
+ * Serve a rendition playlist with presigned segment URLs
+ */
+exports.getHlsMediaPlaylist = async (req, res) => {
+  try {
+    const { videoId, rendition } = req.params;
+    const { token } = req.query;
+
+    if (!token || !hlsService.verifyPlaybackToken(token, videoId)) {
+      return res.status(401).json({ success: false, message: 'Invalid or expired playback token' });
+    }
+
+    const video = await Video.findById(videoId);
+    if (!video || !video.hasHls) {
+      return res.status(404).json({ success: false, message: 'Adaptive stream not available' });
+    }
+
+    const playlist = await hlsService.renderMediaPlaylist(video, rendition);
+    if (!playlist) {
+      return res.status(404).json({ success: false, message: 'Rendition not found' });
+    }
+
+    res.set('Content-Type', 'application/vnd.apple.mpegurl');
+    res.set('Cache-Control', 'private, no-store');
+    res.send(playlist);
+  } catch (err) {
+    console.error('[getHlsMediaPlaylist] error:', err?.message || err);
+    res.status(500).json({ success: false, message: 'Failed to load playlist', error: err.message });
+  }
+};
+
+/**
+ * Serve a caption track as WebVTT
+ * Authorized by the playback token issued with the stream info
+ */
+exports.getCaptionTrack = async (req, res) => {
+  try {
+    const { videoId, language } = req.params;
+    const { token } = req.query;
+
+    if (!token || !hlsService.verifyPlaybackToken(token, videoId)) {
+      return res.status(401).json({ success: false, message: 'Invalid or expired playback token' });
+    }
+
+    const video = await Video.findById(videoId);
+    if (!video) {
+      return res.status(404).json({ success: false, message: 'Video not found' });
+    }
+
+    const vtt = await captionService.getCaptionContent(video, language);
+    if (vtt === null) {
+      return res.status(404).json({ success: false, message: 'Caption track not found' });
+    }
+
+    res.set('Content-Type', 'text/vtt; charset=utf-8');
+    res.set('Cache-Control', 'private, max-age=300');
+    res.send(vtt);
+  } catch (err) {
+    console.error('[getCaptionTrack] error:', err?.message || err);
+    res.status(500).json({ success: false, message: 'Failed to load captions', error: err.message });
+  }
+};
+
+/**
+ * Upload (or replace) a WebVTT/SRT caption file for a video (admin only)
+ * Body: { language: 'en' | 'tg' }, file field: caption
+ */
+exports.uploadCaption = async (req, res) => {
+  try {
+    const { videoId } = req.params;
+    const { language } = req.body;
+
+    if (!req.file) {
+      return res.status(400).json({ success: false, message: 'Caption file is required' });
+    }
+    if (!captionService.isSupportedLanguage(language)) {
+      return res.status(400).json({ success: false, message: 'Language must be "en" or "tg"' });
+    }
+
+    const adminEmail = req.admin?.email || req.user?.email || 'admin';
+    const captions = await captionService.uploadCaption(videoId, language, req.file, adminEmail);
+
+    res.json({
+      success: true,
+      message: 'Captions uploaded successfully',
+      data: { captions }
+    });
+  } catch (err) {
+    console.error('[uploadCaption] error:', err?.message || err);
+    const status = err.message === 'Video not found' ? 404 : 400;
+    res.status(status).json({ success: false, message: err.message });
+  }
+};
+
+/**
+ * Remove a caption track from a video (admin only)
+ */
+exports.deleteCaption = async (req, res) => {
+  try {
+    const { videoId, language } = req.params;
+    const captions = await captionService.deleteCaption(videoId, language);
+
+    res.json({
+      success: true,
+      message: 'Captions removed successfully',
+      data: { captions }
+    });
+  } catch (err) {
+    console.error('[deleteCaption] error:', err?.message || err);
+    const status = err.message === 'Video not found' || err.message === 'Caption track not found' ? 404 : 500;
+    res.status(status).json({ success: false, message: err.message });
+  }
+};
+
+/**
+ * Get the time-coded transcript for a video
+ * Query: { language } preferred language; falls back to any available transcript
+ */
+exports.getVideoTranscript = async (req, res) => {
+  try {
+    const { videoId } = req.params;
+    const userId = req.user?.userId || req.user?.id || req.user?._id;
+    const isAdmin = req.user?.role === 'admin';
+
+    const video = await Video.findById(videoId);
+    if (!video) {
+      return res.status(404).json({ success: false, message: 'Video not found' });
+    }
+
+    const accessInfo = await checkVideoAccess(videoId, userId, isAdmin);
+    if (!accessInfo.hasAccess) {
+      return res.status(403).json({ success: false, message: 'Access denied to this video' });
+    }
+
+    const transcript = await transcriptService.getTranscript(video, req.query.language);
+    res.json({ success: true, data: transcript });
+  } catch (err) {
+    console.error('[getVideoTranscript] error:', err?.message || err);
+    res.status(500).json({ success: false, message: 'Failed to load transcript', error: err.message });
+  }
+};
+
+/**
+ * Upload a standalone transcript (WebVTT/SRT) for a video (admin only)
+ * Takes precedence over the transcript derived from the caption track
+ * Body: { language: 'en' | 'tg' }, file field: transcript
+ */
+exports.uploadTranscript = async (req, res) => {
+  try {
+    const { videoId } = req.params;
+    const { language } = req.body;
+
+    if (!req.file) {
+      return res.status(400).json({ success: false, message: 'Transcript file is required' });
+    }
+    if (!captionService.isSupportedLanguage(language)) {
+      return res.status(400).json({ success: false, message: 'Language must be "en" or "tg"' });
+    }
+
+    const video = await Video.findById(videoId);
+    if (!video) {
+      return res.status(404).json({ success: false, message: 'Video not found' });
+    }
+
+    const adminEmail = req.admin?.email || req.user?.email || 'admin';
+    const vtt = captionService.normalizeCaptionFile(req.file.buffer, req.file.originalname);
+    const transcript = await transcriptService.saveTranscript(video, language, vtt, 'upload', adminEmail);
+
+    res.json({
+      success: true,
+      message: 'Transcript uploaded successfully',
+      data: {
+        language: transcript.language,
+        source: transcript.source,
+        cueCount: transcript.cues.length
+      }
+    });
+  } catch (err) {
+    console.error('[uploadTranscript] error:', err?.message || err);
+    res.status(400).json({ success: false, message: err.message });
+  }
+};
+
+/**
+ * Remove an uploaded transcript (admin only)
+ * Falls back to the transcript derived from the caption track, if there is one
+ */
+exports.deleteTranscript = async (req, res) => {
+  try {
+    const { videoId, language } = req.params;
+
+    const video = await Video.findById(videoId);
+    if (!video) {
+      return res.status(404).json({ success: false, message: 'Video not found' });
+    }
+
+    const result = await transcriptService.deleteTranscript(video, language, 'upload');
+    if (result.deletedCount === 0) {
+      return res.status(404).json({ success: false, message: 'Uploaded transcript not found' });
+    }
+
+    const captionVtt = await captionService.getCaptionContent(video, language);
+    if (captionVtt) {
+      const adminEmail = req.admin?.email || req.user?.email || 'admin';
+      await transcriptService.saveFromCaptions(video, language, captionVtt, adminEmail);
+    }
+
+    res.json({ success: true, message: 'Transcript removed successfully' });
+  } catch (err) {
+    console.error('[deleteTranscript] error:', err?.message || err);
+    res.status(500).json({ success: false, message: 'Failed to remove transcript', error: err.message });
+  }
+};
+
+/**
+ * Search the transcripts of every lesson in a course
+ * Query: { q, language? } - students only see lessons they can watch
+ */
+exports.searchCourseTranscripts = async (req, res) => {
+  try {
+    const { courseId } = req.params;
+    const { q, language } = req.query;
+    const userId = req.user?.userId || req.user?.id || req.user?._id;
+    const isAdmin = req.user?.role === 'admin';
+
+    if (!q || q.trim().length < 2) {
+      return res.status(400).json({ success: false, message: 'Search query must be at least 2 characters' });
+    }
+
+    let videoIds;
+    if (!isAdmin && !(await require('../utils/purchaseUtils').userHasPurchased(userId, courseId))) {
+      const previews = await Video.find({ courseId, isFreePreview: true }).select('_id');
+      videoIds = previews.map(video => video._id);
+    }
+
+    const results = await transcriptService.searchCourse(courseId, q.slice(0, 100), { language, videoIds });
+
+    res.json({
+      success: true,
+      data: {
+        query: q,
+        results,
+        totalMatches: results.reduce((sum, result) => sum + result.totalMatches, 0)
+      }
+    });
+  } catch (err) {
+    console.error('[searchCourseTranscripts] error:', err?.message || err);
+    const status = err.message === 'Course not found' ? 404 : 500;
+    res.status(status).json({ success: false, message: err.message });
+  }
+};
+
+/**
+ * Queue a video for (re)processing: metadata, poster and HLS renditions (admin only)
+ */
+exports.packageVideoForHls = async (req, res) => {
+  try {
+    const { videoId } = req.params;
+
+    const video = await Video.findById(videoId);
+    if (!video) {
+      return res.status(404).json({ success: false, message: 'Video not found' });
+    }
+
+    const adminEmail = req.admin?.email || req.user?.email || 'admin';
+    const job = await videoProcessingService.enqueue(video._id, adminEmail);
+
+    res.json({
+      success: true,
+      message: 'Video queued for processing',
+      data: {
+        videoId: video._id,
+        job
+      }
+    });
+  } catch (err) {
+    console.error('[packageVideoForHls] error:', err?.message || err);
+    res.status(500).json({ success: false, message: 'Failed to queue video', error: err.message });
+  }
+};
+
 /**
  * Toggle free preview status for a video (admin only)
  */
@@ -1363,6 +1748,8 @@ exports.restoreVideo = async (req, res) => {
       course.videos.push(video._id);
       await course.save();
     }
+
+    await logVideoAction(req, video, 'video_restored');
     
     res.json({
       success: true,
@@ -1,4 +1,6 @@
 const jwt = require('jsonwebtoken');
+const User = require('../models/User');
+const { getPermissions } = require('../config/adminRoles');
 
 const adminAuthMiddleware = async (req, res, next) => {
   try {
@@ -28,18 +30,36 @@ const adminAuthMiddleware = async (req, res, next) => {
       });
     }
 
+    // Staff tokens carry the user id; the role is re-read so demotions and suspensions apply immediately
+    let email = process.env.ADMIN_EMAIL;
+    let adminRole = 'super_admin';
+    if (decoded.userId) {
+      const staff = await User.findById(decoded.userId).select('email status adminRole tokenVersion');
+      if (!staff || staff.status !== 'active' || !staff.adminRole || decoded.tokenVersion !== staff.tokenVersion) {
+        return res.status(401).json({ 
+          message: 'Admin access has been revoked' 
+        });
+      }
+      email = staff.email;
+      adminRole = staff.adminRole;
+    }
+
     // Add admin info to request
     req.admin = {
-      email: process.env.ADMIN_EMAIL,
+      email,
       role: 'admin',
-      type: 'admin'
+      type: 'admin',
+      adminRole,
+      permissions: getPermissions(adminRole),
+      userId: decoded.userId || null
     };
 
     // Add user ID for admin operations (using admin email as unique identifier)
     req.user = {
       id: 'admin',
       role: 'admin',
-      email: process.env.ADMIN_EMAIL
+      email,
+      adminRole
     };
 
     next();
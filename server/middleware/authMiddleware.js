@@ -1,4 +1,5 @@
 const authService = require('../services/authService');
+const sessionService = require('../services/sessionService');
 
 const auth = async (req, res, next) => {
   try {
@@ -12,7 +13,8 @@ const auth = async (req, res, next) => {
     if (!token) {
       return res.status(401).json({
         success: false,
-        message: 'Access denied. No token provided.'
+        message: 'Access denied. No token provided.',
+        code: 'NO_TOKEN'
       });
     }
 
@@ -40,7 +42,8 @@ const auth = async (req, res, next) => {
     if (!user) {
       return res.status(401).json({
         success: false,
-        message: 'User not found'
+        message: 'User not found',
+        code: 'USER_NOT_FOUND'
       });
     }
     
@@ -48,7 +51,8 @@ const auth = async (req, res, next) => {
     if (decoded.tokenVersion !== user.tokenVersion) {
       return res.status(401).json({
         success: false,
-        message: 'Token has been invalidated. Please log in again.'
+        message: 'Token has been invalidated. Please log in again.',
+        code: 'TOKEN_INVALIDATED'
       });
     }
     
@@ -56,9 +60,22 @@ const auth = async (req, res, next) => {
     if (user.status !== 'active') {
       return res.status(401).json({
         success: false,
-        message: 'Account is not active'
+        message: 'Account is not active',
+        code: 'ACCOUNT_INACTIVE'
       });
     }
+
+    // Check the device session is still signed in (tokens issued before sessions existed have none)
+    if (decoded.sessionId) {
+      const session = await sessionService.validateSession(decoded.sessionId, user._id);
+      if (!session) {
+        return res.status(401).json({
+          success: false,
+          message: 'Session has been signed out. Please log in again.',
+          code: 'SESSION_REVOKED'
+        });
+      }
+    }
     
     req.user = {
       id: user._id,
@@ -78,7 +95,8 @@ const auth = async (req, res, next) => {
     console.error('❌ Auth middleware error:', error);
     res.status(401).json({
       success: false,
-      message: 'Invalid token'
+      message: 'Invalid token',
+      code: 'INVALID_TOKEN'
     });
   }
 };
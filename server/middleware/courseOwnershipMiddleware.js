@@ -0,0 +1,48 @@
+const mongoose = require('mongoose');
+const Course = require('../models/Course');
+const Video = require('../models/Video');
+const Material = require('../models/Material');
+const Quiz = require('../models/Quiz');
+const { PERMISSIONS } = require('../config/adminRoles');
+
+// Resolve the course a request acts on from a route param, the body, or the lesson/material/quiz it targets
+const courseIdFrom = {
+  param: (name) => async (req) => req.params[name],
+  body: (name = 'courseId') => async (req) => req.body?.[name],
+  video: async (req) => (await Video.findById(req.params.videoId).select('courseId'))?.courseId,
+  material: async (req) => (await Material.findById(req.params.materialId).select('courseId'))?.courseId,
+  quiz: async (req) => (await Quiz.findById(req.params.quizId).select('courseId'))?.courseId
+};
+
+/**
+ * Limit instructors to the courses they are assigned to. Admins with content:manage pass straight through.
+ * Runs after requirePermission(CONTENT_MANAGE, COURSES_OWN) and, for uploads, after multer so the body is parsed.
+ * @param {Function} resolveCourseId - One of courseIdFrom
+ * @returns {Function} Express middleware
+ */
+const requireCourseOwnership = (resolveCourseId) => async (req, res, next) => {
+  if (req.admin?.permissions?.includes(PERMISSIONS.CONTENT_MANAGE)) {
+    return next();
+  }
+
+  try {
+    const courseId = await resolveCourseId(req);
+    const ownsCourse = req.admin?.userId && mongoose.isValidObjectId(courseId) &&
+      await Course.exists({ _id: courseId, instructors: req.admin.userId });
+
+    if (!ownsCourse) {
+      console.log(`🚫 [Permission] Instructor ${req.admin?.email || 'unknown'} denied ${req.method} ${req.originalUrl} (not their course)`);
+      return res.status(403).json({
+        message: 'You can only manage courses you teach',
+        code: 'FORBIDDEN'
+      });
+    }
+
+    next();
+  } catch (error) {
+    console.error('❌ [Permission] Course ownership check failed:', error);
+    res.status(500).json({ message: 'Failed to verify course access' });
+  }
+};
+
+module.exports = { requireCourseOwnership, courseIdFrom };
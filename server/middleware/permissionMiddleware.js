@@ -0,0 +1,21 @@
+/**
+ * Restrict an admin route to roles holding a permission (see config/adminRoles).
+ * Runs after adminAuthMiddleware, which puts the role's permissions on req.admin.
+ * @param {...string} permissions - Any one of these grants access
+ * @returns {Function} Express middleware
+ */
+const requirePermission = (...permissions) => (req, res, next) => {
+  const granted = req.admin?.permissions || [];
+
+  if (!permissions.some(permission => granted.includes(permission))) {
+    console.log(`🚫 [Permission] ${req.admin?.email || 'unknown'} (${req.admin?.adminRole || 'no role'}) denied ${req.method} ${req.originalUrl}`);
+    return res.status(403).json({
+      message: 'You do not have permission to perform this action',
+      code: 'FORBIDDEN'
+    });
+  }
+
+  next();
+};
+
+module.exports = requirePermission;
@@ -0,0 +1,19 @@
+const mongoose = require('mongoose');
+const twoFactorSchema = require('./TwoFactor');
+
+/**
+ * Security settings for the environment-configured admin (ADMIN_EMAIL / ADMIN_PASSWORD_HASH).
+ * The credentials themselves stay in the environment; this only persists what has to change at runtime.
+ */
+const adminAccountSchema = new mongoose.Schema({
+  email: {
+    type: String,
+    required: true,
+    unique: true,
+    lowercase: true,
+    trim: true
+  },
+  twoFactor: { type: twoFactorSchema, default: () => ({}) }
+}, { timestamps: true });
+
+module.exports = mongoose.model('AdminAccount', adminAccountSchema);
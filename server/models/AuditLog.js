@@ -1,18 +1,47 @@
 const mongoose = require('mongoose');
 
+const AUDIT_ACTIONS = [
+  // Courses
+  'course_deleted', 'course_created', 'course_updated', 'course_deactivated', 'course_reactivated', 'course_archived', 'course_unarchived',
+  'course_access_granted', 'course_access_revoked',
+  // Bundles
+  'bundle_created', 'bundle_updated', 'bundle_deleted', 'bundle_archived', 'bundle_unarchived',
+  // Videos
+  'video_uploaded', 'video_updated', 'video_deleted', 'video_restored',
+  // Reviews
+  'review_approved', 'review_rejected', 'review_featured', 'review_pinned', 'review_replied', 'review_deleted',
+  // Announcements
+  'announcement_created', 'announcement_updated', 'announcement_deleted',
+  // Users
+  'user_updated', 'user_deleted', 'user_status_changed', 'user_role_changed',
+  // Payments
+  'payment_completed', 'payment_refunded', 'payment_disputed', 'payment_dispute_closed',
+  // Certificates
+  'certificate_revoked', 'certificate_reissued'
+];
+
+const AUDIT_ENTITY_TYPES = ['course', 'bundle', 'video', 'review', 'announcement', 'user', 'payment', 'certificate'];
+
+// One changed field: value before and after the action
+const changeSchema = new mongoose.Schema({
+  field: { type: String, required: true },
+  before: { type: mongoose.Schema.Types.Mixed, default: null },
+  after: { type: mongoose.Schema.Types.Mixed, default: null }
+}, { _id: false });
+
 const auditLogSchema = new mongoose.Schema({
   // Action type
   action: {
     type: String,
     required: true,
-    enum: ['course_deleted', 'course_created', 'course_updated', 'course_deactivated', 'course_reactivated', 'course_archived', 'course_access_granted', 'course_access_revoked']
+    enum: AUDIT_ACTIONS
   },
   
   // Entity information
   entityType: {
     type: String,
     required: true,
-    enum: ['course', 'bundle', 'user', 'payment']
+    enum: AUDIT_ENTITY_TYPES
   },
   entityId: {
     type: mongoose.Schema.Types.ObjectId,
@@ -39,6 +68,12 @@ const auditLogSchema = new mongoose.Schema({
     default: {}
   },
   
+  // Before/after values of the fields the action changed
+  changes: {
+    type: [changeSchema],
+    default: []
+  },
+  
   // Deletion summary (for course deletions)
   deletionSummary: {
     videosDeleted: { type: Number, default: 0 },
@@ -75,6 +110,7 @@ const auditLogSchema = new mongoose.Schema({
 auditLogSchema.index({ action: 1, timestamp: -1 });
 auditLogSchema.index({ entityType: 1, entityId: 1 });
 auditLogSchema.index({ performedBy: 1, timestamp: -1 });
+auditLogSchema.index({ entityType: 1, timestamp: -1 });
 auditLogSchema.index({ timestamp: -1 });
 
 // Static method to log an action
@@ -87,6 +123,7 @@ auditLogSchema.statics.logAction = async function(actionData) {
     performedBy,
     performedById,
     details = {},
+    changes = [],
     deletionSummary = {},
     ipAddress,
     userAgent
@@ -100,6 +137,7 @@ auditLogSchema.statics.logAction = async function(actionData) {
     performedBy,
     performedById,
     details,
+    changes,
     deletionSummary,
     ipAddress,
     userAgent,
@@ -109,5 +147,40 @@ auditLogSchema.statics.logAction = async function(actionData) {
   return await logEntry.save();
 };
 
+// Static method to log an action taken through an admin request (actor, IP and user agent come from the request).
+// Audit failures are logged and never fail the admin action itself.
+auditLogSchema.statics.logAdminAction = async function(req, actionData) {
+  try {
+    return await this.logAction({
+      performedBy: req.admin?.email || req.user?.email || 'admin',
+      performedById: req.admin?.userId || null,
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent'),
+      ...actionData
+    });
+  } catch (auditError) {
+    console.error('Failed to log audit action:', auditError);
+    return null;
+  }
+};
+
+// Static method to compare two snapshots of the same document and list the fields that changed
+auditLogSchema.statics.diffChanges = function(before, after, fields) {
+  const normalize = (value) => {
+    if (value === undefined) return null;
+    // Round-trip through JSON so ObjectIds, dates and subdocuments compare and store as plain values
+    return value === null ? null : JSON.parse(JSON.stringify(value));
+  };
+
+  return fields.reduce((changes, field) => {
+    const beforeValue = normalize(before?.[field]);
+    const afterValue = normalize(after?.[field]);
+    if (JSON.stringify(beforeValue) !== JSON.stringify(afterValue)) {
+      changes.push({ field, before: beforeValue, after: afterValue });
+    }
+    return changes;
+  }, []);
+};
+
 module.exports = mongoose.model('AuditLog', auditLogSchema);
 
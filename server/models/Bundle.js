@@ -38,7 +38,12 @@ const bundleSchema = new mongoose.Schema({
       message: 'Long description must be a string or object with en and tg properties'
     }
   }, // Detailed description for detail page
-  price: { type: Number, required: true },
+  price: { type: Number, required: true }, // USD base price
+  prices: {
+    cad: { type: Number, min: 0, default: null },
+    eur: { type: Number, min: 0, default: null },
+    etb: { type: Number, min: 0, default: null }
+  }, // Optional local-currency prices; checkout falls back to USD when unset
   originalValue: { type: Number }, // Total value if courses were purchased individually
   
   // Course references
@@ -168,7 +173,7 @@ bundleSchema.statics.getAvailableBundles = function() {
   return this.find({ 
     status: 'active',
     isPublic: true
-  }).populate('courseIds', 'title description thumbnailURL price category level tags totalEnrollments');
+  }).populate('courseIds', 'title description thumbnailURL price prices category level tags totalEnrollments');
 };
 
 // Static method to get featured bundles
@@ -177,13 +182,13 @@ bundleSchema.statics.getFeaturedBundles = function() {
     status: 'active',
     isPublic: true,
     featured: true
-  }).populate('courseIds', 'title description thumbnailURL price category level tags totalEnrollments');
+  }).populate('courseIds', 'title description thumbnailURL price prices category level tags totalEnrollments');
 };
 
 // Static method to get bundle by slug
 bundleSchema.statics.findBySlug = function(slug) {
   return this.findOne({ slug, status: 'active' })
-    .populate('courseIds', 'title description thumbnailURL price category level tags totalEnrollments videos');
+    .populate('courseIds', 'title description thumbnailURL price prices category level tags totalEnrollments videos');
 };
 
 // Instance method to enroll a student (purchase bundle)
@@ -223,6 +228,25 @@ bundleSchema.methods.enrollStudent = function(userId) {
   return this.save();
 };
 
+// Instance method to remove a student's enrollment (refunds and disputes)
+bundleSchema.methods.revokeStudentAccess = function(userId) {
+  const enrollmentIndex = this.enrolledStudents.findIndex(
+    enrollment => enrollment.userId && enrollment.userId.toString() === userId.toString()
+  );
+
+  if (enrollmentIndex === -1) {
+    throw new Error('Student is not enrolled in this bundle');
+  }
+
+  this.enrolledStudents.splice(enrollmentIndex, 1);
+
+  if (this.totalEnrollments > 0) {
+    this.totalEnrollments -= 1;
+  }
+
+  return this.save();
+};
+
 // Instance method to archive bundle
 bundleSchema.methods.archive = function(reason = 'Admin request', gracePeriodMonths = 6) {
   this.status = 'archived';
@@ -1,5 +1,28 @@
 const mongoose = require('mongoose');
 
+// Revoked and superseded (replaced by a reissue) certificates no longer verify
+const CERTIFICATE_STATUSES = ['active', 'revoked', 'superseded'];
+
+// One step in a certificate's life; a reissued certificate carries the history of the one it replaced
+const historyEntrySchema = new mongoose.Schema({
+  action: {
+    type: String,
+    enum: ['issued', 'revoked', 'reissued', 'superseded'],
+    required: true
+  },
+  at: { type: Date, default: Date.now },
+  by: { type: String }, // Admin email, or 'system' for automatic actions
+  reason: { type: String },
+  certificateId: { type: String }, // Certificate the entry was recorded on
+  relatedCertificateId: { type: String }, // The replacement (superseded) or the original (reissued)
+  changes: [{
+    _id: false,
+    field: { type: String, required: true },
+    before: { type: String },
+    after: { type: String }
+  }]
+}, { _id: false });
+
 const certificateSchema = new mongoose.Schema({
   // Certificate identification
   certificateId: { 
@@ -61,6 +84,39 @@ const certificateSchema = new mongoose.Schema({
   verificationHash: { 
     type: String 
   },
+  // Ed25519-signed credential (compact JWS) embedded in the PDF and QR verification
+  signedCredential: {
+    type: String
+  },
+  signingKeyId: {
+    type: String
+  },
+
+  // Lifecycle
+  status: {
+    type: String,
+    enum: CERTIFICATE_STATUSES,
+    default: 'active'
+  },
+  revokedAt: {
+    type: Date
+  },
+  revokedBy: {
+    type: String
+  },
+  revocationReason: {
+    type: String
+  },
+  supersedes: {
+    type: String // certificateId of the certificate this one replaced
+  },
+  supersededBy: {
+    type: String // certificateId of the replacement
+  },
+  history: {
+    type: [historyEntrySchema],
+    default: []
+  },
   
   // Metadata
   platformName: { 
@@ -86,6 +142,10 @@ const certificateSchema = new mongoose.Schema({
 // Indexes for efficient queries
 certificateSchema.index({ studentId: 1, courseId: 1 });
 certificateSchema.index({ dateIssued: -1 });
+certificateSchema.index({ status: 1, dateIssued: -1 });
+
+// Certificates issued before statuses existed have no status and count as active
+const CURRENT = { status: { $ne: 'superseded' } };
 
 // Generate unique certificate ID
 certificateSchema.statics.generateCertificateId = function() {
@@ -95,8 +155,9 @@ certificateSchema.statics.generateCertificateId = function() {
 };
 
 // Static method to check if certificate exists for user-course combination
+// A revoked certificate still counts, so it isn't silently re-earned; an admin reissues it instead
 certificateSchema.statics.existsForUserAndCourse = function(studentId, courseId) {
-  return this.findOne({ studentId, courseId });
+  return this.findOne({ studentId, courseId, ...CURRENT });
 };
 
 // Static method to get certificate by ID
@@ -108,14 +169,14 @@ certificateSchema.statics.getByCertificateId = function(certificateId) {
 
 // Static method to get all certificates for a user
 certificateSchema.statics.getUserCertificates = function(studentId) {
-  return this.find({ studentId })
+  return this.find({ studentId, ...CURRENT })
     .populate('courseId', 'title description thumbnailURL')
     .sort({ dateIssued: -1 });
 };
 
 // Static method to get certificate for specific course
 certificateSchema.statics.getCourseCertificate = function(studentId, courseId) {
-  return this.findOne({ studentId, courseId })
+  return this.findOne({ studentId, courseId, ...CURRENT })
     .populate('studentId', 'name email')
     .populate('courseId', 'title description instructorName');
 };
@@ -127,11 +188,19 @@ certificateSchema.methods.generateVerificationHash = function() {
   return crypto.createHash('sha256').update(data).digest('hex');
 };
 
+// Whether the certificate still stands (not revoked or replaced)
+certificateSchema.methods.isActive = function() {
+  return !this.status || this.status === 'active';
+};
+
 // Pre-save middleware to generate verification hash
 certificateSchema.pre('save', function(next) {
   if (!this.verificationHash) {
     this.verificationHash = this.generateVerificationHash();
   }
+  if (this.isNew && this.history.length === 0) {
+    this.history.push({ action: 'issued', at: this.dateIssued, by: 'system', certificateId: this.certificateId });
+  }
   next();
 });
 
@@ -0,0 +1,106 @@
+const mongoose = require('mongoose');
+
+// Standard PDF faces a template can use; Ge'ez text always uses the template's Ge'ez font
+const FONT_FACES = ['serif', 'serif-bold', 'sans', 'sans-bold'];
+
+const TEMPLATE_COLORS = ['primary', 'accent', 'text', 'muted'];
+
+const HEX_COLOR = [/^#[0-9a-fA-F]{6}$/, 'Colors must be hex values like #0D2659'];
+
+// Uploaded file (artwork, signature or font) kept in S3
+const assetSchema = new mongoose.Schema({
+  s3Key: { type: String, required: true },
+  url: { type: String },
+  name: { type: String } // Original file name, shown in the editor
+}, { _id: false });
+
+// Where a text placeholder goes. x/y are percentages of the page (y from the top, at the text baseline).
+const textPlacementSchema = new mongoose.Schema({
+  x: { type: Number, min: 0, max: 100, default: 50 },
+  y: { type: Number, min: 0, max: 100, default: 50 },
+  size: { type: Number, min: 4, max: 96, default: 14 },
+  align: { type: String, enum: ['left', 'center', 'right'], default: 'center' },
+  font: { type: String, enum: ['heading', 'body'], default: 'body' },
+  color: { type: String, enum: TEMPLATE_COLORS, default: 'text' },
+  visible: { type: Boolean, default: true }
+}, { _id: false });
+
+// Where an image goes. x/y are the percentage position of its centre, width is in points.
+const imagePlacementSchema = new mongoose.Schema({
+  x: { type: Number, min: 0, max: 100, default: 50 },
+  y: { type: Number, min: 0, max: 100, default: 50 },
+  width: { type: Number, min: 10, max: 600, default: 100 },
+  visible: { type: Boolean, default: true }
+}, { _id: false });
+
+const signatureSchema = new mongoose.Schema({
+  image: { type: assetSchema },
+  name: { type: String, trim: true, default: '' }, // Printed under the signature line
+  title: { type: String, trim: true, default: '' }, // e.g. "Lead Instructor"
+  placement: { type: imagePlacementSchema, default: () => ({ y: 82, width: 120 }) }
+}, { _id: false });
+
+/**
+ * Admin-designed certificate layout. Courses pick one with course.certificateTemplate;
+ * courses without a template keep the built-in classic design.
+ * The page is always A4 landscape.
+ */
+const certificateTemplateSchema = new mongoose.Schema({
+  name: { type: String, required: true, trim: true, maxlength: 80 },
+  description: { type: String, trim: true, default: '' },
+
+  // Artwork
+  background: { type: assetSchema }, // Stretched over the whole page
+  showBorder: { type: Boolean, default: true }, // Double border, for templates without framed artwork
+  logo: { type: assetSchema },
+  logoPlacement: { type: imagePlacementSchema, default: () => ({ y: 12, width: 90 }) },
+  signatures: {
+    type: [signatureSchema],
+    validate: [list => list.length <= 3, 'A template can have at most 3 signatures']
+  },
+
+  colors: {
+    primary: { type: String, match: HEX_COLOR, default: '#0D2659' },
+    accent: { type: String, match: HEX_COLOR, default: '#D9A621' },
+    text: { type: String, match: HEX_COLOR, default: '#262626' },
+    muted: { type: String, match: HEX_COLOR, default: '#666666' },
+    background: { type: String, match: HEX_COLOR, default: '#FAF7F2' }
+  },
+
+  fonts: {
+    heading: { type: String, enum: FONT_FACES, default: 'serif-bold' },
+    body: { type: String, enum: FONT_FACES, default: 'serif' },
+    geez: { type: assetSchema } // TTF/OTF with Ethiopic glyphs (e.g. Noto Sans Ethiopic)
+  },
+
+  // Fixed wording around the placeholders
+  texts: {
+    heading: { type: String, default: 'IBYET-INVESTING' },
+    title: { type: String, default: 'CERTIFICATE OF COMPLETION' },
+    intro: { type: String, default: 'This is to certify that' },
+    completionText: { type: String, default: 'has successfully completed the course' },
+    datePrefix: { type: String, default: 'Completed on' },
+    instructorPrefix: { type: String, default: 'Instructor:' }
+  },
+
+  fields: {
+    heading: { type: textPlacementSchema, default: () => ({ y: 13, size: 26, font: 'heading', color: 'primary' }) },
+    title: { type: textPlacementSchema, default: () => ({ y: 25, size: 32, font: 'heading', color: 'primary' }) },
+    intro: { type: textPlacementSchema, default: () => ({ y: 42, size: 16, color: 'muted' }) },
+    studentName: { type: textPlacementSchema, default: () => ({ y: 53, size: 32, font: 'heading', color: 'primary' }) },
+    completionText: { type: textPlacementSchema, default: () => ({ y: 62, size: 16, color: 'muted' }) },
+    courseTitle: { type: textPlacementSchema, default: () => ({ y: 71, size: 20, font: 'heading', color: 'text' }) },
+    completionDate: { type: textPlacementSchema, default: () => ({ y: 79, size: 12, color: 'primary' }) },
+    instructorName: { type: textPlacementSchema, default: () => ({ y: 84, size: 11, color: 'muted' }) },
+    certificateId: { type: textPlacementSchema, default: () => ({ x: 90, y: 13, size: 8, align: 'right', font: 'body', color: 'muted' }) },
+    verifyUrl: { type: textPlacementSchema, default: () => ({ y: 94, size: 9, color: 'muted' }) }
+  },
+  qrCode: { type: imagePlacementSchema, default: () => ({ x: 88, y: 80, width: 72 }) },
+
+  createdBy: { type: String, default: 'admin' },
+  lastModifiedBy: { type: String, default: 'admin' }
+}, { timestamps: true });
+
+certificateTemplateSchema.index({ name: 1 });
+
+module.exports = mongoose.model('CertificateTemplate', certificateTemplateSchema);
@@ -0,0 +1,84 @@
+const mongoose = require('mongoose');
+
+/**
+ * Admin-managed promo code applied at checkout.
+ * Redemptions are recorded on the Payment document (payment.coupon);
+ * redemptionCount and userRedemptions are reserved here when checkout starts so
+ * the maxRedemptions and perUserLimit checks hold under concurrent checkouts.
+ * Unpaid checkouts and fully refunded purchases give their reservation back.
+ */
+const couponSchema = new mongoose.Schema({
+  code: {
+    type: String,
+    required: true,
+    unique: true,
+    uppercase: true,
+    trim: true,
+    match: [/^[A-Z0-9_-]{3,32}$/, 'Code must be 3-32 letters, numbers, dashes or underscores']
+  },
+  description: { type: String, trim: true, default: '' }, // Internal note for admins
+  discountType: {
+    type: String,
+    enum: ['percentage', 'fixed'],
+    required: true
+  },
+  discountValue: {
+    type: Number,
+    required: true,
+    min: 0
+  }, // Percent (0-100) or USD amount
+  scope: {
+    type: String,
+    enum: ['site', 'course', 'bundle'],
+    default: 'site'
+  },
+  courseIds: [{ type: mongoose.Schema.Types.ObjectId, ref: 'Course' }], // scope 'course'
+  bundleIds: [{ type: mongoose.Schema.Types.ObjectId, ref: 'Bundle' }], // scope 'bundle'
+  startsAt: { type: Date },
+  expiresAt: { type: Date },
+  maxRedemptions: { type: Number, default: 0, min: 0 }, // 0 = unlimited
+  perUserLimit: { type: Number, default: 1, min: 0 }, // 0 = unlimited
+  redemptionCount: { type: Number, default: 0 },
+  userRedemptions: { type: Map, of: Number, default: {} }, // Reserved redemptions by user ID
+  isActive: { type: Boolean, default: true },
+  createdBy: { type: String, required: true }
+}, { timestamps: true });
+
+couponSchema.pre('validate', function(next) {
+  if (this.discountType === 'percentage' && this.discountValue > 100) {
+    return next(new Error('Percentage discount cannot exceed 100'));
+  }
+  if (this.scope === 'course' && (!this.courseIds || this.courseIds.length === 0)) {
+    return next(new Error('Select at least one course for a course coupon'));
+  }
+  if (this.scope === 'bundle' && (!this.bundleIds || this.bundleIds.length === 0)) {
+    return next(new Error('Select at least one bundle for a bundle coupon'));
+  }
+  next();
+});
+
+couponSchema.index({ isActive: 1, expiresAt: 1 });
+
+// Static method to look up a code regardless of case
+couponSchema.statics.findByCode = function(code) {
+  return this.findOne({ code: String(code || '').trim().toUpperCase() });
+};
+
+// Instance method to check whether the coupon covers a course or bundle
+couponSchema.methods.appliesTo = function(itemType, itemId) {
+  if (this.scope === 'site') return true;
+  if (this.scope !== itemType) return false;
+  const ids = itemType === 'course' ? this.courseIds : this.bundleIds;
+  return ids.some(id => id.toString() === itemId.toString());
+};
+
+// Instance method to get the discount for a price, never more than the price.
+// fixedAmount is a fixed discount already converted to the price's currency (defaults to the USD value)
+couponSchema.methods.calculateDiscount = function(price, fixedAmount = this.discountValue) {
+  const discount = this.discountType === 'percentage'
+    ? price * (this.discountValue / 100)
+    : fixedAmount;
+  return Math.round(Math.min(price, Math.max(0, discount)) * 100) / 100;
+};
+
+module.exports = mongoose.model('Coupon', couponSchema);
@@ -28,7 +28,12 @@ const courseSchema = new mongoose.Schema({
       message: 'Description must be a string or object with en and tg properties'
     }
   },
-  price: { type: Number, required: true },
+  price: { type: Number, required: true }, // USD base price
+  prices: {
+    cad: { type: Number, min: 0, default: null },
+    eur: { type: Number, min: 0, default: null },
+    etb: { type: Number, min: 0, default: null }
+  }, // Optional local-currency prices; checkout falls back to USD when unset
   
   // Versioning
   version: { type: Number, default: 1, required: true },
@@ -96,6 +101,9 @@ const courseSchema = new mongoose.Schema({
     required: true 
   },
   
+  // Teaching staff shown on the course page and printed on certificates
+  instructors: [{ type: mongoose.Schema.Types.ObjectId, ref: 'User' }],
+  
   // Admin tracking
   createdBy: { type: String, default: 'admin' }, // admin email
   lastModifiedBy: { type: String, default: 'admin' },
@@ -110,6 +118,9 @@ const courseSchema = new mongoose.Schema({
   whatsappGroupLink: { type: String }, // WhatsApp group invite link
   hasWhatsappGroup: { type: Boolean, default: false }, // Whether this course has a WhatsApp group
   
+  // Certificate design; null keeps the built-in classic layout
+  certificateTemplate: { type: mongoose.Schema.Types.ObjectId, ref: 'CertificateTemplate', default: null },
+  
 }, { 
   timestamps: true,
   toJSON: { virtuals: true },
@@ -124,6 +135,7 @@ courseSchema.index({ deactivatedAt: 1 });
 courseSchema.index({ category: 1 });
 courseSchema.index({ tags: 1 });
 courseSchema.index({ createdBy: 1 });
+courseSchema.index({ instructors: 1 });
 courseSchema.index({ featured: 1 }); // Index for featured courses query
 
 // Virtual for checking if course is available for new enrollments
@@ -346,6 +358,15 @@ courseSchema.methods.getStudentEnrollment = function(userId) {
   }
 };
 
+// Instance method to get the instructor names printed on certificates ("A, B"), or null when none are assigned
+courseSchema.methods.getInstructorNames = async function() {
+  if (!this.instructors || this.instructors.length === 0) return null;
+
+  await this.populate('instructors', 'name');
+  const names = this.instructors.map(instructor => instructor?.name).filter(Boolean);
+  return names.length > 0 ? names.join(', ') : null;
+};
+
 // Instance method to revoke student access (remove enrollment)
 courseSchema.methods.revokeStudentAccess = function(userId) {
   if (!userId) {
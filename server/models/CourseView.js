@@ -0,0 +1,36 @@
+const mongoose = require('mongoose');
+
+// Daily course page view counter, used for view-to-purchase conversion in the admin analytics
+const courseViewSchema = new mongoose.Schema({
+  courseId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Course',
+    required: true
+  },
+  // Start of the day (UTC) the views were counted on
+  date: {
+    type: Date,
+    required: true
+  },
+  views: {
+    type: Number,
+    default: 0
+  }
+});
+
+courseViewSchema.index({ courseId: 1, date: 1 }, { unique: true });
+courseViewSchema.index({ date: 1 });
+
+// Static method to count one view of a course for today
+courseViewSchema.statics.recordView = function(courseId) {
+  const today = new Date();
+  today.setUTCHours(0, 0, 0, 0);
+
+  return this.updateOne(
+    { courseId, date: today },
+    { $inc: { views: 1 } },
+    { upsert: true }
+  );
+};
+
+module.exports = mongoose.model('CourseView', courseViewSchema);
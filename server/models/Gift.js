@@ -0,0 +1,68 @@
+const mongoose = require('mongoose');
+const crypto = require('crypto');
+
+// Unambiguous characters (no 0/O, 1/I) so codes can be typed from an email or a printout
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+/**
+ * Course or bundle bought for someone else.
+ * The buyer pays; whoever redeems the one-time code gets access.
+ */
+const giftSchema = new mongoose.Schema({
+  code: {
+    type: String,
+    required: true,
+    unique: true,
+    uppercase: true,
+    trim: true
+  },
+  purchaserId: { type: mongoose.Schema.Types.ObjectId, ref: 'User', required: true },
+  courseId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Course',
+    required: function() { return !this.bundleId; }
+  },
+  bundleId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Bundle',
+    required: function() { return !this.courseId; }
+  },
+  recipientEmail: {
+    type: String,
+    required: true,
+    lowercase: true,
+    trim: true
+  },
+  recipientName: { type: String, trim: true, maxlength: 100 },
+  message: { type: String, trim: true, maxlength: 500 },
+  // pending: awaiting payment, available: paid and not yet redeemed, revoked: payment refunded or disputed
+  status: {
+    type: String,
+    enum: ['pending', 'available', 'redeemed', 'revoked'],
+    default: 'pending'
+  },
+  stripeSessionId: { type: String, index: true, sparse: true },
+  paymentId: { type: mongoose.Schema.Types.ObjectId, ref: 'Payment', default: null },
+  emailSentAt: { type: Date, default: null },
+  redeemedBy: { type: mongoose.Schema.Types.ObjectId, ref: 'User', default: null },
+  redeemedAt: { type: Date, default: null },
+  courseVersion: { type: Number, default: null }, // Course version current when the gift was redeemed
+  revokedAt: { type: Date, default: null }
+}, { timestamps: true });
+
+giftSchema.index({ purchaserId: 1, createdAt: -1 });
+giftSchema.index({ redeemedBy: 1, status: 1 });
+
+// Static method to generate a code like GIFT-7K3M-Q9TX-P2LA
+giftSchema.statics.generateCode = function() {
+  const bytes = crypto.randomBytes(12);
+  const chars = Array.from(bytes, byte => CODE_ALPHABET[byte % CODE_ALPHABET.length]).join('');
+  return `GIFT-${chars.slice(0, 4)}-${chars.slice(4, 8)}-${chars.slice(8, 12)}`;
+};
+
+// Static method to look up a code regardless of case or surrounding spaces
+giftSchema.statics.findByCode = function(code) {
+  return this.findOne({ code: String(code || '').trim().toUpperCase() });
+};
+
+module.exports = mongoose.model('Gift', giftSchema);
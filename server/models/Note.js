@@ -0,0 +1,40 @@
+const mongoose = require('mongoose');
+
+/**
+ * Personal, timestamped note a student takes while watching a lesson.
+ * Content is Markdown (bold, italics, lists) so it exports cleanly.
+ */
+const noteSchema = new mongoose.Schema({
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  courseId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Course',
+    required: true
+  },
+  videoId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Video',
+    required: true
+  },
+  timestamp: {
+    type: Number,
+    required: true,
+    min: 0
+  }, // Position in the video, in seconds
+  content: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 5000
+  }
+}, { timestamps: true });
+
+// Indexes for the player sidebar and course export
+noteSchema.index({ userId: 1, videoId: 1, timestamp: 1 });
+noteSchema.index({ userId: 1, courseId: 1 });
+
+module.exports = mongoose.model('Note', noteSchema);
@@ -36,7 +36,7 @@ const paymentSchema = new mongoose.Schema({
   },
   status: {
     type: String,
-    enum: ['pending', 'completed', 'failed', 'cancelled'],
+    enum: ['pending', 'completed', 'failed', 'cancelled', 'refunded', 'partially_refunded', 'disputed'],
     default: 'pending'
   },
   paymentMethod: {
@@ -46,6 +46,51 @@ const paymentSchema = new mongoose.Schema({
   receiptUrl: {
     type: String
   },
+  // Needed to issue refunds and to match charge/dispute webhooks back to this payment
+  stripePaymentIntentId: {
+    type: String,
+    index: true,
+    sparse: true
+  },
+  // Total refunded so far (USD, same unit as amount)
+  refundedAmount: {
+    type: Number,
+    default: 0
+  },
+  refunds: [{
+    stripeRefundId: String, // Empty for refunds recorded without Stripe (development mode, free coupon orders)
+    amount: Number,
+    reason: String,
+    refundedBy: String, // Admin email, or 'stripe' for refunds made in the Stripe dashboard
+    createdAt: { type: Date, default: Date.now }
+  }],
+  dispute: {
+    stripeDisputeId: String,
+    reason: String,
+    amount: Number,
+    status: String, // Stripe dispute status (needs_response, won, lost, ...)
+    openedAt: Date,
+    closedAt: Date
+  },
+  // Set when a full refund or dispute removed the student's access
+  accessRevokedAt: {
+    type: Date
+  },
+  // Set when the course/bundle was bought as a gift; access goes to whoever redeems the gift code
+  giftId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Gift',
+    default: null
+  },
+  // Promo code redeemed for this purchase (amount above is what was actually charged)
+  coupon: {
+    couponId: { type: mongoose.Schema.Types.ObjectId, ref: 'Coupon' },
+    code: String,
+    discountType: { type: String, enum: ['percentage', 'fixed'] },
+    discountValue: Number,
+    originalAmount: Number,
+    discountAmount: Number
+  },
   metadata: {
     userEmail: String,
     courseTitle: String,
@@ -73,5 +118,6 @@ paymentSchema.index({ userId: 1, courseId: 1 });
 paymentSchema.index({ userId: 1, bundleId: 1 });
 paymentSchema.index({ status: 1 });
 paymentSchema.index({ createdAt: -1 });
+paymentSchema.index({ 'coupon.couponId': 1, userId: 1 });
 
 module.exports = mongoose.model('Payment', paymentSchema); 
\ No newline at end of file
@@ -1,4 +1,5 @@
 const mongoose = require('mongoose');
+const QuizAttempt = require('./QuizAttempt');
 
 const progressSchema = new mongoose.Schema({
   userId: { 
@@ -45,6 +46,7 @@ const progressSchema = new mongoose.Schema({
 progressSchema.index({ userId: 1, courseId: 1, videoId: 1 }, { unique: true });
 progressSchema.index({ userId: 1, courseId: 1 });
 progressSchema.index({ userId: 1, isCompleted: 1 });
+progressSchema.index({ courseId: 1, videoId: 1 }); // Engagement analytics
 
 // Virtual for video progress percentage
 progressSchema.virtual('videoProgressPercentage').get(function() {
@@ -133,7 +135,10 @@ progressSchema.statics.getOverallCourseProgress = async function(userId, courseI
       lastWatchedPosition: 0,
       courseProgressPercentage: 0,
       totalWatchedDuration: 0,
-      courseTotalDuration: 0
+      courseTotalDuration: 0,
+      requiredQuizzes: 0,
+      passedQuizzes: 0,
+      quizzesPassed: true
     };
   }
   
@@ -174,7 +179,10 @@ progressSchema.statics.getOverallCourseProgress = async function(userId, courseI
       lastWatchedPosition: 0,
       courseProgressPercentage: 0,
       totalWatchedDuration: 0,
-      courseTotalDuration: 0
+      courseTotalDuration: 0,
+      requiredQuizzes: 0,
+      passedQuizzes: 0,
+      quizzesPassed: true
     };
   }
   
@@ -215,6 +223,10 @@ progressSchema.statics.getOverallCourseProgress = async function(userId, courseI
     console.log(`   - No progress entries found (all videos at 0%)`);
   }
   
+  // Quizzes flagged requiredForCertificate must be passed before a certificate is issued
+  const quizStatus = await QuizAttempt.getCourseQuizStatus(userId, courseId);
+  console.log(`   - Required Quizzes Passed: ${quizStatus.passedQuizzes}/${quizStatus.requiredQuizzes}`);
+  
   return {
     totalVideos: totalVideos,
     completedVideos,
@@ -223,7 +235,10 @@ progressSchema.statics.getOverallCourseProgress = async function(userId, courseI
     lastWatchedPosition: lastWatched ? lastWatched.getLastPosition() : 0,
     courseProgressPercentage,
     totalWatchedDuration,
-    courseTotalDuration
+    courseTotalDuration,
+    requiredQuizzes: quizStatus.requiredQuizzes,
+    passedQuizzes: quizStatus.passedQuizzes,
+    quizzesPassed: quizStatus.quizzesPassed
   };
 };
 
@@ -0,0 +1,147 @@
+const mongoose = require('mongoose');
+
+// Bilingual text - string (legacy) or object {en, tg}, same rule as Material
+const bilingualValidator = {
+  validator: function(v) {
+    if (typeof v === 'string') return v.trim() !== '';
+    if (typeof v === 'object' && v !== null && v.en && v.tg) return true;
+    return false;
+  },
+  message: 'Text must be a string or object with en and tg properties'
+};
+
+const optionSchema = new mongoose.Schema({
+  text: {
+    type: mongoose.Schema.Types.Mixed,
+    required: true,
+    validate: bilingualValidator
+  }
+});
+
+const questionSchema = new mongoose.Schema({
+  type: {
+    type: String,
+    enum: ['multiple_choice', 'true_false', 'numeric'],
+    required: true
+  },
+  prompt: {
+    type: mongoose.Schema.Types.Mixed,
+    required: true,
+    validate: bilingualValidator
+  },
+  options: [optionSchema], // multiple_choice only
+  correctOption: { type: Number, min: 0 }, // multiple_choice: index into options
+  correctBoolean: { type: Boolean }, // true_false
+  correctNumber: { type: Number }, // numeric
+  tolerance: { type: Number, default: 0, min: 0 }, // numeric: accepted +/- range
+  points: { type: Number, default: 1, min: 0 },
+  explanation: {
+    type: mongoose.Schema.Types.Mixed,
+    default: ''
+  } // Shown after an attempt is submitted
+});
+
+questionSchema.pre('validate', function(next) {
+  if (this.type === 'multiple_choice') {
+    if (!this.options || this.options.length < 2) {
+      return next(new Error('Multiple choice questions need at least two options'));
+    }
+    if (this.correctOption === undefined || this.correctOption >= this.options.length) {
+      return next(new Error('Multiple choice questions need a valid correct option'));
+    }
+  }
+  if (this.type === 'true_false' && typeof this.correctBoolean !== 'boolean') {
+    return next(new Error('True/false questions need a correct answer'));
+  }
+  if (this.type === 'numeric' && (this.correctNumber === undefined || this.correctNumber === null)) {
+    return next(new Error('Numeric questions need a correct value'));
+  }
+  next();
+});
+
+/**
+ * Graded assessment attached to a lesson (videoId) or to the end of a course (videoId null).
+ * Lesson quizzes are matched to videos by s3Key so they follow the lesson into new course versions.
+ */
+const quizSchema = new mongoose.Schema({
+  courseId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Course',
+    required: true
+  },
+  videoId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Video',
+    default: null
+  },
+  videoS3Key: { type: String, default: null }, // Shared by the lesson's copies in every course version
+  title: {
+    type: mongoose.Schema.Types.Mixed,
+    required: true,
+    validate: bilingualValidator
+  },
+  description: {
+    type: mongoose.Schema.Types.Mixed,
+    default: ''
+  },
+  questions: {
+    type: [questionSchema],
+    validate: {
+      validator: v => Array.isArray(v) && v.length > 0,
+      message: 'A quiz needs at least one question'
+    }
+  },
+  passingScore: { type: Number, default: 70, min: 0, max: 100 }, // percentage
+  requiredForCertificate: { type: Boolean, default: true },
+  maxAttempts: { type: Number, default: 0, min: 0 }, // 0 = unlimited
+  order: { type: Number, default: 0 },
+  status: {
+    type: String,
+    enum: ['active', 'archived'],
+    default: 'active'
+  },
+  createdBy: { type: String, required: true }
+}, { timestamps: true });
+
+quizSchema.index({ courseId: 1, status: 1 });
+quizSchema.index({ courseId: 1, videoS3Key: 1 });
+
+// Static method to get the active quizzes that apply to a course's current lessons.
+// Lesson quizzes whose video is no longer part of the course are left out.
+quizSchema.statics.getForCourseVideos = async function(courseId, videos) {
+  const videoByS3Key = new Map(videos.map(video => [video.s3Key, video]));
+  const quizzes = await this.find({ courseId, status: 'active' }).sort({ order: 1, createdAt: 1 });
+
+  return quizzes
+    .filter(quiz => !quiz.videoS3Key || videoByS3Key.has(quiz.videoS3Key))
+    .map(quiz => ({
+      quiz,
+      // The copy of the lesson in the current version, or null for course-end quizzes
+      video: quiz.videoS3Key ? videoByS3Key.get(quiz.videoS3Key) : null
+    }));
+};
+
+// Instance method to strip answers before sending a quiz to a student
+// videoId overrides the authored video with the student's copy of the lesson
+quizSchema.methods.toStudentJSON = function(videoId) {
+  return {
+    _id: this._id,
+    courseId: this.courseId,
+    videoId: videoId === undefined ? this.videoId : videoId,
+    title: this.title,
+    description: this.description,
+    passingScore: this.passingScore,
+    requiredForCertificate: this.requiredForCertificate,
+    maxAttempts: this.maxAttempts,
+    totalPoints: this.questions.reduce((sum, q) => sum + (q.points || 0), 0),
+    questions: this.questions.map(q => ({
+      _id: q._id,
+      type: q.type,
+      prompt: q.prompt,
+      options: q.type === 'multiple_choice' ? q.options.map(o => ({ _id: o._id, text: o.text })) : [],
+      points: q.points
+    }))
+  };
+};
+
+module.exports = mongoose.model('Quiz', quizSchema);
@@ -0,0 +1,91 @@
+const mongoose = require('mongoose');
+const Quiz = require('./Quiz');
+const Course = require('./Course');
+const Video = require('./Video');
+
+const answerSchema = new mongoose.Schema({
+  questionId: { type: mongoose.Schema.Types.ObjectId, required: true },
+  answer: { type: mongoose.Schema.Types.Mixed }, // option index, boolean or number
+  isCorrect: { type: Boolean, default: false },
+  pointsAwarded: { type: Number, default: 0 }
+}, { _id: false });
+
+/**
+ * A student's scored submission of a quiz
+ */
+const quizAttemptSchema = new mongoose.Schema({
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  quizId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Quiz',
+    required: true
+  },
+  courseId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Course',
+    required: true
+  },
+  attemptNumber: { type: Number, required: true, min: 1 },
+  answers: [answerSchema],
+  score: { type: Number, default: 0 }, // points
+  maxScore: { type: Number, default: 0 },
+  percentage: { type: Number, default: 0, min: 0, max: 100 },
+  passingScore: { type: Number, required: true }, // snapshot, so later edits don't rewrite history
+  passed: { type: Boolean, default: false },
+  submittedAt: { type: Date, default: Date.now }
+}, { timestamps: true });
+
+quizAttemptSchema.index({ userId: 1, quizId: 1, attemptNumber: 1 }, { unique: true });
+quizAttemptSchema.index({ userId: 1, courseId: 1 });
+quizAttemptSchema.index({ quizId: 1 });
+
+/**
+ * Static method to get quiz pass status for a course.
+ * Only active quizzes flagged requiredForCertificate count towards the certificate.
+ * @returns {Promise<Object>} { requiredQuizzes, passedQuizzes, quizzesPassed, quizzes }
+ */
+quizAttemptSchema.statics.getCourseQuizStatus = async function(userId, courseId) {
+  const course = await Course.findById(courseId).select('videos');
+  const videos = course ? await Video.find({ _id: { $in: course.videos } }).select('s3Key') : [];
+  const quizzes = (await Quiz.getForCourseVideos(courseId, videos)).map(({ quiz, video }) => ({
+    _id: quiz._id,
+    title: quiz.title,
+    videoId: video ? video._id : null,
+    passingScore: quiz.passingScore,
+    requiredForCertificate: quiz.requiredForCertificate
+  }));
+
+  const attempts = quizzes.length > 0
+    ? await this.find({ userId, quizId: { $in: quizzes.map(q => q._id) } }).select('quizId percentage passed')
+    : [];
+
+  const summaries = quizzes.map(quiz => {
+    const quizAttempts = attempts.filter(a => a.quizId.toString() === quiz._id.toString());
+    return {
+      quizId: quiz._id,
+      title: quiz.title,
+      videoId: quiz.videoId,
+      passingScore: quiz.passingScore,
+      requiredForCertificate: quiz.requiredForCertificate,
+      attempts: quizAttempts.length,
+      bestPercentage: quizAttempts.reduce((best, a) => Math.max(best, a.percentage), 0),
+      passed: quizAttempts.some(a => a.passed)
+    };
+  });
+
+  const required = summaries.filter(s => s.requiredForCertificate);
+  const passedQuizzes = required.filter(s => s.passed).length;
+
+  return {
+    requiredQuizzes: required.length,
+    passedQuizzes,
+    quizzesPassed: passedQuizzes >= required.length,
+    quizzes: summaries
+  };
+};
+
+module.exports = mongoose.model('QuizAttempt', quizAttemptSchema);
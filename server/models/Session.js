@@ -0,0 +1,44 @@
+const mongoose = require('mongoose');
+
+/**
+ * One signed-in device. The session id is embedded in the user's access tokens,
+ * so revoking the record signs that device out on its next request.
+ * The device renews its access token with a rotating refresh token (httpOnly cookie) stored here as a hash.
+ */
+const sessionSchema = new mongoose.Schema({
+  userId: { type: mongoose.Schema.Types.ObjectId, ref: 'User', required: true },
+  userAgent: { type: String, default: '' },
+  browser: { type: String, default: 'Unknown browser' },
+  os: { type: String, default: 'Unknown OS' },
+  deviceType: {
+    type: String,
+    enum: ['desktop', 'mobile', 'tablet', 'unknown'],
+    default: 'unknown'
+  },
+  ipAddress: { type: String, default: null },
+  refreshTokenHash: { type: String, index: true, select: false },
+  // Hash of the token this one replaced; seeing it again after the grace period means the token was copied
+  previousRefreshTokenHash: { type: String, index: true, sparse: true, select: false },
+  refreshedAt: { type: Date, default: null },
+  lastSeenAt: { type: Date, default: Date.now },
+  expiresAt: { type: Date, required: true }, // Refresh token expiry, extended each time it rotates
+  revokedAt: { type: Date, default: null },
+  // logout: signed out on this device, user: signed out from another device,
+  // device_limit: pushed out by a newer login, security: password or account change
+  revokedReason: {
+    type: String,
+    enum: ['logout', 'user', 'device_limit', 'security', null],
+    default: null
+  }
+}, { timestamps: true });
+
+sessionSchema.index({ userId: 1, revokedAt: 1, lastSeenAt: -1 });
+// Expired sessions are removed automatically
+sessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+// Instance method to check whether requests with this session are still accepted
+sessionSchema.methods.isActive = function() {
+  return !this.revokedAt && this.expiresAt > new Date();
+};
+
+module.exports = mongoose.model('Session', sessionSchema);
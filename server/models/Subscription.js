@@ -0,0 +1,57 @@
+const mongoose = require('mongoose');
+
+// Stripe statuses that still grant access; past_due keeps access while Stripe retries the card
+const ACCESS_STATUSES = ['active', 'trialing', 'past_due'];
+
+/**
+ * Recurring membership that unlocks every course.
+ * Mirrors a Stripe subscription and is kept in sync by the customer.subscription.* and invoice.* webhooks.
+ */
+const subscriptionSchema = new mongoose.Schema({
+  userId: { type: mongoose.Schema.Types.ObjectId, ref: 'User', required: true },
+  plan: {
+    type: String,
+    enum: ['monthly', 'yearly'],
+    required: true
+  },
+  stripeCustomerId: { type: String, default: null },
+  stripeSubscriptionId: { type: String, unique: true, sparse: true }, // Not set for development-mode memberships
+  status: {
+    type: String,
+    enum: ['incomplete', 'incomplete_expired', 'trialing', 'active', 'past_due', 'canceled', 'unpaid', 'paused'],
+    default: 'incomplete'
+  },
+  currentPeriodStart: { type: Date },
+  currentPeriodEnd: { type: Date },
+  cancelAtPeriodEnd: { type: Boolean, default: false },
+  canceledAt: { type: Date, default: null },
+  endedAt: { type: Date, default: null },
+  lastPaymentFailedAt: { type: Date, default: null },
+  latestInvoiceId: { type: String, default: null }
+}, { timestamps: true });
+
+subscriptionSchema.index({ userId: 1, status: 1 });
+
+// Instance method to check whether this subscription currently grants access
+subscriptionSchema.methods.grantsAccess = function() {
+  return ACCESS_STATUSES.includes(this.status) &&
+    !!this.currentPeriodEnd && this.currentPeriodEnd > new Date();
+};
+
+// Static method to get the user's most recent subscription that still grants access
+subscriptionSchema.statics.findActiveForUser = function(userId) {
+  return this.findOne({
+    userId,
+    status: { $in: ACCESS_STATUSES },
+    currentPeriodEnd: { $gt: new Date() }
+  }).sort({ currentPeriodEnd: -1 });
+};
+
+// Static method to check whether the user has a membership that unlocks all courses
+subscriptionSchema.statics.hasActiveMembership = async function(userId) {
+  if (!userId) return false;
+  const subscription = await this.findActiveForUser(userId);
+  return !!subscription;
+};
+
+module.exports = mongoose.model('Subscription', subscriptionSchema);
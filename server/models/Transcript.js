@@ -0,0 +1,46 @@
+const mongoose = require('mongoose');
+
+/**
+ * Time-coded transcript for a video in one language.
+ * Keyed by the video's s3Key so copies of a video in other course versions share it.
+ */
+const transcriptSchema = new mongoose.Schema({
+  s3Key: { type: String, required: true },
+  courseId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Course'
+  },
+  language: {
+    type: String,
+    enum: ['en', 'tg'],
+    required: true
+  },
+
+  // Where the cues came from: parsed from the caption track or uploaded on its own.
+  // Uploaded transcripts take precedence and are not overwritten by caption uploads.
+  source: {
+    type: String,
+    enum: ['captions', 'upload'],
+    default: 'captions'
+  },
+
+  cues: [{
+    _id: false,
+    start: { type: Number, required: true }, // seconds
+    end: { type: Number, required: true }, // seconds
+    text: { type: String, required: true }
+  }],
+
+  updatedBy: { type: String, default: 'admin' }
+}, { timestamps: true });
+
+// Indexes for lookup and course-wide search
+transcriptSchema.index({ s3Key: 1, language: 1 }, { unique: true });
+transcriptSchema.index({ courseId: 1, language: 1 });
+
+// Static method to get the transcripts available for a video
+transcriptSchema.statics.findForVideo = function(video) {
+  return this.find({ s3Key: video.s3Key }).select('language source cues');
+};
+
+module.exports = mongoose.model('Transcript', transcriptSchema);
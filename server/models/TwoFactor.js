@@ -0,0 +1,18 @@
+const mongoose = require('mongoose');
+
+/**
+ * TOTP two-factor settings, embedded in User and AdminAccount.
+ * Secrets are stored encrypted and recovery codes hashed; none of them are selected by default.
+ */
+const twoFactorSchema = new mongoose.Schema({
+  enabled: { type: Boolean, default: false },
+  secret: { type: String, default: null, select: false },
+  pendingSecret: { type: String, default: null, select: false }, // Generated at setup, moved to secret once a code is confirmed
+  recoveryCodes: { type: [String], default: [], select: false }, // SHA-256 hashes of the unused codes
+  enabledAt: { type: Date, default: null },
+  lastUsedStep: { type: Number, default: null }, // Rejects replaying a code inside its 30-second window
+  failedAttempts: { type: Number, default: 0 },
+  lockedUntil: { type: Date, default: null }
+}, { _id: false });
+
+module.exports = twoFactorSchema;
@@ -0,0 +1,23 @@
+const mongoose = require('mongoose');
+
+/**
+ * Login challenge tokens (twoFactorService.issueChallengeToken) that have already been
+ * exchanged for a session, so each token can only complete one sign-in.
+ * Entries are dropped once the token would have expired anyway.
+ */
+const twoFactorChallengeSchema = new mongoose.Schema({
+  jti: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  expiresAt: {
+    type: Date,
+    required: true,
+    index: { expireAfterSeconds: 0 } // MongoDB TTL index
+  }
+}, {
+  timestamps: true
+});
+
+module.exports = mongoose.model('TwoFactorChallenge', twoFactorChallengeSchema);
@@ -1,5 +1,6 @@
 const mongoose = require('mongoose');
 const bcrypt = require('bcryptjs');
+const twoFactorSchema = require('./TwoFactor');
 
 const userSchema = new mongoose.Schema({
   name: { type: String, required: true },
@@ -9,10 +10,29 @@ const userSchema = new mongoose.Schema({
   profilePhotoKey: { type: String, default: null },
   isVerified: { type: Boolean, default: false },
   role: { type: String, enum: ['user', 'admin'], default: 'user' },
+  adminRole: { type: String, enum: ['super_admin', 'content_editor', 'support', 'finance', 'instructor', null], default: null }, // Admin panel access, see config/adminRoles
+  // Public profile shown on the courses this user teaches
+  instructorProfile: {
+    headline: { type: String, trim: true, maxlength: 120, default: '' },
+    bio: {
+      en: { type: String, trim: true, maxlength: 2000, default: '' },
+      tg: { type: String, trim: true, maxlength: 2000, default: '' }
+    },
+    photoUrl: { type: String, default: null },
+    photoS3Key: { type: String, default: null },
+    socialLinks: {
+      website: { type: String, trim: true, default: '' },
+      linkedin: { type: String, trim: true, default: '' },
+      twitter: { type: String, trim: true, default: '' },
+      youtube: { type: String, trim: true, default: '' }
+    }
+  },
   status: { type: String, enum: ['active', 'inactive'], default: 'active' },
   tokenVersion: { type: Number, default: 1 }, // For token invalidation
   purchasedCourses: [{ type: mongoose.Schema.Types.ObjectId, ref: 'Course' }],
   purchasedBundles: [{ type: mongoose.Schema.Types.ObjectId, ref: 'Bundle' }],
+  stripeCustomerId: { type: String, default: null }, // Reused for membership checkout and the billing portal
+  twoFactor: { type: twoFactorSchema, default: () => ({}) }, // Mandatory for role 'admin'
   // Extended profile fields
   firstName: { type: String, default: null },
   lastName: { type: String, default: null },
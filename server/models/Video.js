@@ -68,7 +68,40 @@ const videoSchema = new mongoose.Schema({
     default: 'pending'
   },
   processingError: { type: String },
-  
+  posterS3Key: { type: String }, // Poster frame generated by the processing pipeline
+
+  // HLS adaptive streaming output (multi-bitrate renditions + master playlist in S3)
+  hls: {
+    status: {
+      type: String,
+      enum: ['none', 'pending', 'processing', 'ready', 'failed'],
+      default: 'none'
+    },
+    basePath: { type: String },
+    masterPlaylistKey: { type: String },
+    renditions: [{
+      _id: false,
+      name: { type: String },
+      width: { type: Number },
+      height: { type: Number },
+      bandwidth: { type: Number },
+      playlistKey: { type: String }
+    }],
+    packagedAt: { type: Date },
+    error: { type: String }
+  },
+
+  // Caption/subtitle tracks (WebVTT in S3, one per language)
+  captions: [{
+    _id: false,
+    language: { type: String, enum: ['en', 'tg'], required: true },
+    label: { type: String },
+    s3Key: { type: String, required: true },
+    originalName: { type: String },
+    uploadedBy: { type: String },
+    uploadedAt: { type: Date, default: Date.now }
+  }],
+
   // Archive tracking
   archivedAt: { type: Date },
   archiveS3Key: { type: String },
@@ -93,6 +126,11 @@ videoSchema.virtual('isAccessible').get(function() {
   return this.status === 'active' && this.processingStatus === 'completed';
 });
 
+// Virtual for checking if adaptive streaming is available
+videoSchema.virtual('hasHls').get(function() {
+  return this.hls?.status === 'ready' && !!this.hls.masterPlaylistKey;
+});
+
 // Virtual for formatted duration display
 videoSchema.virtual('formattedDuration').get(function() {
   if (!this.duration || this.duration === 0) return '0:00';
@@ -0,0 +1,126 @@
+const mongoose = require('mongoose');
+
+/**
+ * Persistent job for the video processing pipeline
+ * (metadata extraction -> poster frame -> HLS transcode).
+ * Jobs live in Mongo so queued/running work survives server restarts.
+ */
+const videoProcessingJobSchema = new mongoose.Schema({
+  videoId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Video',
+    required: true
+  },
+  courseId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Course'
+  },
+
+  // Job lifecycle
+  status: {
+    type: String,
+    enum: ['queued', 'running', 'completed', 'failed', 'cancelled'],
+    default: 'queued'
+  },
+  currentStep: {
+    type: String,
+    enum: ['metadata', 'poster', 'transcode', null],
+    default: null
+  },
+  completedSteps: [{ type: String }],
+  progress: { type: Number, default: 0, min: 0, max: 100 },
+
+  // Retry handling
+  attempts: { type: Number, default: 0 },
+  maxAttempts: { type: Number, default: 3 },
+  runAfter: { type: Date, default: Date.now },
+  lastError: { type: String },
+
+  // Video processingStatus when the job was queued, restored if the job is cancelled
+  previousVideoStatus: { type: String },
+
+  // Worker lock (stale locks are requeued by the worker's poll loop)
+  lockedBy: { type: String },
+  lockedAt: { type: Date },
+  heartbeatAt: { type: Date },
+
+  // Timing
+  startedAt: { type: Date },
+  finishedAt: { type: Date },
+
+  // Admin tracking
+  requestedBy: { type: String, default: 'system' },
+  cancelRequested: { type: Boolean, default: false }
+}, { timestamps: true });
+
+// Indexes for the worker poll and admin views
+videoProcessingJobSchema.index({ status: 1, runAfter: 1, createdAt: 1 });
+videoProcessingJobSchema.index({ videoId: 1, createdAt: -1 });
+videoProcessingJobSchema.index({ status: 1, heartbeatAt: 1 });
+
+// Virtual for checking if the job can still change state
+videoProcessingJobSchema.virtual('isActive').get(function() {
+  return this.status === 'queued' || this.status === 'running';
+});
+
+videoProcessingJobSchema.set('toJSON', { virtuals: true });
+videoProcessingJobSchema.set('toObject', { virtuals: true });
+
+// Static method to find the active (queued or running) job for a video
+videoProcessingJobSchema.statics.findActiveForVideo = function(videoId) {
+  return this.findOne({
+    videoId,
+    status: { $in: ['queued', 'running'] }
+  });
+};
+
+// Static method to atomically claim the next runnable job
+videoProcessingJobSchema.statics.claimNext = function(workerId) {
+  const now = new Date();
+  return this.findOneAndUpdate(
+    {
+      status: 'queued',
+      runAfter: { $lte: now }
+    },
+    {
+      $set: {
+        status: 'running',
+        lockedBy: workerId,
+        lockedAt: now,
+        heartbeatAt: now,
+        startedAt: now,
+        cancelRequested: false
+      },
+      $inc: { attempts: 1 }
+    },
+    { sort: { runAfter: 1, createdAt: 1 }, new: true }
+  );
+};
+
+// Static method to requeue running jobs whose worker stopped heart-beating
+videoProcessingJobSchema.statics.releaseStaleJobs = function(staleBefore) {
+  return this.updateMany(
+    {
+      status: 'running',
+      heartbeatAt: { $lt: staleBefore }
+    },
+    {
+      $set: { status: 'queued', runAfter: new Date() },
+      $unset: { lockedBy: '', lockedAt: '' }
+    }
+  );
+};
+
+// Static method to get counts per status
+videoProcessingJobSchema.statics.getStatusCounts = async function() {
+  const rows = await this.aggregate([
+    { $group: { _id: '$status', count: { $sum: 1 } } }
+  ]);
+  const counts = { queued: 0, running: 0, completed: 0, failed: 0, cancelled: 0 };
+  rows.forEach(row => {
+    counts[row._id] = row.count;
+  });
+  return counts;
+};
+
+module.exports = mongoose.model('VideoProcessingJob', videoProcessingJobSchema);
@@ -4,9 +4,23 @@ const Review = require('../models/Review');
 const Course = require('../models/Course');
 const User = require('../models/User');
 const adminAuthMiddleware = require('../middleware/adminAuthMiddleware');
+const requirePermission = require('../middleware/permissionMiddleware');
+const { PERMISSIONS } = require('../config/adminRoles');
+const AuditLog = require('../models/AuditLog');
+const { getEnglishText } = require('../utils/bilingualHelper');
+
+// Record a moderation action; the review is populated with its author and course
+const logReviewAction = (req, review, action, extra = {}) => AuditLog.logAdminAction(req, {
+  action,
+  entityType: 'review',
+  entityId: review._id,
+  entityTitle: `Review by ${review.userId?.name || 'unknown user'} on ${getEnglishText(review.courseId?.title) || 'unknown course'}`,
+  ...extra,
+  details: { rating: review.rating, courseId: review.courseId?._id, userId: review.userId?._id, ...extra.details }
+});
 
 // GET /api/admin/reviews - Get all reviews with filtering
-router.get('/', adminAuthMiddleware, async (req, res) => {
+router.get('/', adminAuthMiddleware, requirePermission(PERMISSIONS.CONTENT_MANAGE), async (req, res) => {
   try {
     const { 
       page = 1, 
@@ -71,10 +85,11 @@ router.get('/', adminAuthMiddleware, async (req, res) => {
 });
 
 // PATCH /api/admin/reviews/:id/approve - Approve a review
-router.patch('/:id/approve', adminAuthMiddleware, async (req, res) => {
+router.patch('/:id/approve', adminAuthMiddleware, requirePermission(PERMISSIONS.CONTENT_MANAGE), async (req, res) => {
   try {
     const { id } = req.params;
 
+    const previous = await Review.findById(id).select('status');
     const review = await Review.findByIdAndUpdate(
       id,
       { 
@@ -92,6 +107,10 @@ router.patch('/:id/approve', adminAuthMiddleware, async (req, res) => {
       });
     }
 
+    await logReviewAction(req, review, 'review_approved', {
+      changes: AuditLog.diffChanges(previous, review, ['status'])
+    });
+
     res.json({
       success: true,
       message: 'Review approved successfully',
@@ -109,10 +128,11 @@ router.patch('/:id/approve', adminAuthMiddleware, async (req, res) => {
 });
 
 // PATCH /api/admin/reviews/:id/reject - Reject a review
-router.patch('/:id/reject', adminAuthMiddleware, async (req, res) => {
+router.patch('/:id/reject', adminAuthMiddleware, requirePermission(PERMISSIONS.CONTENT_MANAGE), async (req, res) => {
   try {
     const { id } = req.params;
 
+    const previous = await Review.findById(id).select('status');
     const review = await Review.findByIdAndUpdate(
       id,
       { 
@@ -130,6 +150,10 @@ router.patch('/:id/reject', adminAuthMiddleware, async (req, res) => {
       });
     }
 
+    await logReviewAction(req, review, 'review_rejected', {
+      changes: AuditLog.diffChanges(previous, review, ['status'])
+    });
+
     res.json({
       success: true,
       message: 'Review rejected successfully',
@@ -147,11 +171,12 @@ router.patch('/:id/reject', adminAuthMiddleware, async (req, res) => {
 });
 
 // PATCH /api/admin/reviews/:id/feature - Toggle featured status
-router.patch('/:id/feature', adminAuthMiddleware, async (req, res) => {
+router.patch('/:id/feature', adminAuthMiddleware, requirePermission(PERMISSIONS.CONTENT_MANAGE), async (req, res) => {
   try {
     const { id } = req.params;
     const { featured } = req.body;
 
+    const previous = await Review.findById(id).select('featured');
     const review = await Review.findByIdAndUpdate(
       id,
       { 
@@ -169,6 +194,10 @@ router.patch('/:id/feature', adminAuthMiddleware, async (req, res) => {
       });
     }
 
+    await logReviewAction(req, review, 'review_featured', {
+      changes: AuditLog.diffChanges(previous, review, ['featured'])
+    });
+
     res.json({
       success: true,
       message: featured ? 'Review featured successfully' : 'Review unfeatured successfully',
@@ -186,11 +215,12 @@ router.patch('/:id/feature', adminAuthMiddleware, async (req, res) => {
 });
 
 // PATCH /api/admin/reviews/:id/pin - Toggle pinned status (per course)
-router.patch('/:id/pin', adminAuthMiddleware, async (req, res) => {
+router.patch('/:id/pin', adminAuthMiddleware, requirePermission(PERMISSIONS.CONTENT_MANAGE), async (req, res) => {
   try {
     const { id } = req.params;
     const { pinned } = req.body;
 
+    const previous = await Review.findById(id).select('pinned');
     const review = await Review.findByIdAndUpdate(
       id,
       { 
@@ -208,6 +238,10 @@ router.patch('/:id/pin', adminAuthMiddleware, async (req, res) => {
       });
     }
 
+    await logReviewAction(req, review, 'review_pinned', {
+      changes: AuditLog.diffChanges(previous, review, ['pinned'])
+    });
+
     res.json({
       success: true,
       message: pinned ? 'Review pinned successfully' : 'Review unpinned successfully',
@@ -225,11 +259,13 @@ router.patch('/:id/pin', adminAuthMiddleware, async (req, res) => {
 });
 
 // DELETE /api/admin/reviews/:id - Delete any review
-router.delete('/:id', adminAuthMiddleware, async (req, res) => {
+router.delete('/:id', adminAuthMiddleware, requirePermission(PERMISSIONS.CONTENT_MANAGE), async (req, res) => {
   try {
     const { id } = req.params;
 
-    const review = await Review.findByIdAndDelete(id);
+    const review = await Review.findByIdAndDelete(id)
+      .populate('userId', 'name email')
+      .populate('courseId', 'title');
     if (!review) {
       return res.status(404).json({
         success: false,
@@ -237,6 +273,10 @@ router.delete('/:id', adminAuthMiddleware, async (req, res) => {
       });
     }
 
+    await logReviewAction(req, review, 'review_deleted', {
+      details: { comment: review.comment, status: review.status }
+    });
+
     res.json({
       success: true,
       message: 'Review deleted successfully'
@@ -253,7 +293,7 @@ router.delete('/:id', adminAuthMiddleware, async (req, res) => {
 });
 
 // GET /api/admin/reviews/stats - Get review statistics
-router.get('/stats', adminAuthMiddleware, async (req, res) => {
+router.get('/stats', adminAuthMiddleware, requirePermission(PERMISSIONS.CONTENT_MANAGE), async (req, res) => {
   try {
     const stats = await Review.aggregate([
       {
@@ -297,7 +337,7 @@ router.get('/stats', adminAuthMiddleware, async (req, res) => {
 });
 
 // PATCH /api/admin/reviews/:id/reply - Admin/Instructor reply to a review (one reply per review, max 150 characters)
-router.patch('/:id/reply', adminAuthMiddleware, async (req, res) => {
+router.patch('/:id/reply', adminAuthMiddleware, requirePermission(PERMISSIONS.CONTENT_MANAGE), async (req, res) => {
   try {
     const { reply } = req.body;
     const reviewId = req.params.id;
@@ -362,6 +402,9 @@ router.patch('/:id/reply', adminAuthMiddleware, async (req, res) => {
     }
     
     console.log('✅ Admin reply added to review:', reviewId);
+    await logReviewAction(req, updatedReview, 'review_replied', {
+      changes: [{ field: 'adminReply', before: null, after: trimmedReply }]
+    });
     
     res.json({
       success: true,
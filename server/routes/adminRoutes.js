@@ -6,6 +6,14 @@ const adminAuthMiddleware = require('../middleware/adminAuthMiddleware');
 // Admin login route (public)
 router.post('/login', adminController.adminLogin);
 
+// Second login step: authenticator code, or first-time enrollment (public, needs the login challenge token)
+router.post('/login/2fa/verify', adminController.verifyTwoFactorLogin);
+router.post('/login/2fa/setup', adminController.beginTwoFactorSetup);
+router.post('/login/2fa/enable', adminController.confirmTwoFactorSetup);
+
+// Replace recovery codes (protected)
+router.post('/2fa/recovery-codes', adminAuthMiddleware, adminController.regenerateRecoveryCodes);
+
 // Token validation route (protected)
 router.get('/validate', adminAuthMiddleware, (req, res) => {
   res.json({
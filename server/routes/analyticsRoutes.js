@@ -0,0 +1,31 @@
+const express = require('express');
+const router = express.Router();
+const analyticsController = require('../controllers/analyticsController');
+const adminAuthMiddleware = require('../middleware/adminAuthMiddleware');
+const requirePermission = require('../middleware/permissionMiddleware');
+const { requireCourseOwnership, courseIdFrom } = require('../middleware/courseOwnershipMiddleware');
+const { PERMISSIONS } = require('../config/adminRoles');
+
+// ========================================
+// ADMIN ROUTES (Require admin authentication)
+// ========================================
+
+/**
+ * Revenue by period, course and bundle, with conversion, average order value and refund rate
+ * GET /api/admin/analytics/revenue?from=&to=&interval=day|week|month&currency=usd
+ */
+router.get('/revenue', adminAuthMiddleware, requirePermission(PERMISSIONS.PAYMENTS_VIEW), analyticsController.getRevenueAnalytics);
+
+/**
+ * Lesson completion funnel, time to complete and inactive enrolled students
+ * GET /api/admin/analytics/courses/:courseId/engagement?inactiveDays=14
+ */
+router.get('/courses/:courseId/engagement', adminAuthMiddleware, requirePermission(PERMISSIONS.CONTENT_MANAGE, PERMISSIONS.COURSES_OWN), requireCourseOwnership(courseIdFrom.param('courseId')), analyticsController.getCourseEngagement);
+
+/**
+ * Drop-off curve and most re-watched segments of a video
+ * GET /api/admin/analytics/videos/:videoId/engagement
+ */
+router.get('/videos/:videoId/engagement', adminAuthMiddleware, requirePermission(PERMISSIONS.CONTENT_MANAGE, PERMISSIONS.COURSES_OWN), requireCourseOwnership(courseIdFrom.video), analyticsController.getVideoEngagement);
+
+module.exports = router;
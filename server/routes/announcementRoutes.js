@@ -1,6 +1,8 @@
 const express = require('express');
 const router = express.Router();
 const adminAuthMiddleware = require('../middleware/adminAuthMiddleware');
+const requirePermission = require('../middleware/permissionMiddleware');
+const { PERMISSIONS } = require('../config/adminRoles');
 const {
   getActiveAnnouncements,
   getAllAnnouncements,
@@ -14,11 +16,11 @@ const {
 router.get('/active', getActiveAnnouncements);
 
 // Admin routes - require authentication
-router.get('/', adminAuthMiddleware, getAllAnnouncements);
-router.get('/:id', adminAuthMiddleware, getAnnouncementById);
-router.post('/', adminAuthMiddleware, createAnnouncement);
-router.put('/:id', adminAuthMiddleware, updateAnnouncement);
-router.delete('/:id', adminAuthMiddleware, deleteAnnouncement);
+router.get('/', adminAuthMiddleware, requirePermission(PERMISSIONS.CONTENT_MANAGE), getAllAnnouncements);
+router.get('/:id', adminAuthMiddleware, requirePermission(PERMISSIONS.CONTENT_MANAGE), getAnnouncementById);
+router.post('/', adminAuthMiddleware, requirePermission(PERMISSIONS.CONTENT_MANAGE), createAnnouncement);
+router.put('/:id', adminAuthMiddleware, requirePermission(PERMISSIONS.CONTENT_MANAGE), updateAnnouncement);
+router.delete('/:id', adminAuthMiddleware, requirePermission(PERMISSIONS.CONTENT_MANAGE), deleteAnnouncement);
 
 module.exports = router;
 
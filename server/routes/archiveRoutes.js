@@ -1,4 +1,6 @@
 const adminAuthMiddleware = require('../middleware/adminAuthMiddleware');
+const requirePermission = require('../middleware/permissionMiddleware');
+const { PERMISSIONS } = require('../config/adminRoles');
 const express = require('express');
 const router = express.Router();
 
@@ -6,7 +8,7 @@ const router = express.Router();
 const archiveService = require('../services/archiveService');
 
 // Apply admin authentication to all archive routes
-router.use(adminAuthMiddleware);
+router.use(adminAuthMiddleware, requirePermission(PERMISSIONS.CONTENT_MANAGE));
 
 /**
  * Get archive statistics
@@ -0,0 +1,32 @@
+const express = require('express');
+const router = express.Router();
+const auditLogController = require('../controllers/auditLogController');
+const adminAuthMiddleware = require('../middleware/adminAuthMiddleware');
+const requirePermission = require('../middleware/permissionMiddleware');
+const { PERMISSIONS } = require('../config/adminRoles');
+
+// ========================================
+// ADMIN ROUTES (Require admin authentication)
+// ========================================
+
+router.use(adminAuthMiddleware, requirePermission(PERMISSIONS.AUDIT_VIEW));
+
+/**
+ * Filter options (actions, entity types, actors)
+ * GET /api/admin/audit-logs/filters
+ */
+router.get('/filters', auditLogController.getAuditLogFilters);
+
+/**
+ * Download filtered entries as CSV
+ * GET /api/admin/audit-logs/export
+ */
+router.get('/export', auditLogController.exportAuditLogs);
+
+/**
+ * List entries
+ * GET /api/admin/audit-logs?actor=&entityType=&entityId=&action=&from=&to=&page=&limit=
+ */
+router.get('/', auditLogController.getAuditLogs);
+
+module.exports = router;
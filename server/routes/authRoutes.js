@@ -96,6 +96,13 @@ router.post('/reset-password', authController.resetPassword);
  */
 router.post('/login', authController.login);
 
+/**
+ * Exchange the refresh token cookie for a new access token (rotates the cookie)
+ * POST /api/auth/refresh
+ * Cookies: refreshToken
+ */
+router.post('/refresh', authController.refresh);
+
 /**
  * Verify JWT token
  * POST /api/auth/verify-token
@@ -127,11 +134,99 @@ router.put('/profile', auth, upload.single('profilePhoto'), authController.updat
 router.put('/change-password', auth, authController.changePassword);
 
 /**
- * Logout user
+ * Logout user (signs out the session behind the refresh token cookie)
  * POST /api/auth/logout
+ * Cookies: refreshToken
+ */
+router.post('/logout', authController.logout);
+
+// ========================================
+// SESSION (DEVICE) ROUTES
+// ========================================
+
+/**
+ * List signed-in devices
+ * GET /api/auth/sessions
+ * Headers: Authorization: Bearer <token>
+ */
+router.get('/sessions', auth, authController.getSessions);
+
+/**
+ * Sign out every other device
+ * POST /api/auth/sessions/revoke-others
+ * Headers: Authorization: Bearer <token>
+ */
+router.post('/sessions/revoke-others', auth, authController.revokeOtherSessions);
+
+/**
+ * Sign out one device
+ * DELETE /api/auth/sessions/:sessionId
+ * Headers: Authorization: Bearer <token>
+ */
+router.delete('/sessions/:sessionId', auth, authController.revokeSession);
+
+// ========================================
+// TWO-FACTOR AUTHENTICATION ROUTES
+// ========================================
+
+/**
+ * Second login step with an authenticator or recovery code
+ * POST /api/auth/2fa/login/verify
+ * Body: { twoFactorToken, code }
+ */
+router.post('/2fa/login/verify', authController.verifyTwoFactorLogin);
+
+/**
+ * Start mandatory enrollment during login (admin accounts without 2FA)
+ * POST /api/auth/2fa/login/setup
+ * Body: { twoFactorToken }
+ */
+router.post('/2fa/login/setup', authController.beginTwoFactorLoginSetup);
+
+/**
+ * Confirm mandatory enrollment during login and sign in
+ * POST /api/auth/2fa/login/enable
+ * Body: { twoFactorToken, code }
+ */
+router.post('/2fa/login/enable', authController.confirmTwoFactorLoginSetup);
+
+/**
+ * Get two-factor status
+ * GET /api/auth/2fa/status
+ * Headers: Authorization: Bearer <token>
+ */
+router.get('/2fa/status', auth, authController.getTwoFactorStatus);
+
+/**
+ * Start enrollment (returns QR code)
+ * POST /api/auth/2fa/setup
+ * Headers: Authorization: Bearer <token>
+ */
+router.post('/2fa/setup', auth, authController.beginTwoFactorSetup);
+
+/**
+ * Confirm enrollment (returns recovery codes)
+ * POST /api/auth/2fa/enable
+ * Headers: Authorization: Bearer <token>
+ * Body: { code }
+ */
+router.post('/2fa/enable', auth, authController.enableTwoFactor);
+
+/**
+ * Disable two-factor
+ * POST /api/auth/2fa/disable
+ * Headers: Authorization: Bearer <token>
+ * Body: { code }
+ */
+router.post('/2fa/disable', auth, authController.disableTwoFactor);
+
+/**
+ * Regenerate recovery codes
+ * POST /api/auth/2fa/recovery-codes
  * Headers: Authorization: Bearer <token>
+ * Body: { code }
  */
-router.post('/logout', auth, authController.logout);
+router.post('/2fa/recovery-codes', auth, authController.regenerateRecoveryCodes);
 
 // ========================================
 // GOOGLE OAUTH ROUTES
@@ -212,6 +307,7 @@ router.get('/health', (req, res) => {
     googleOAuth: !!(process.env.GOOGLE_CLIENT_ID && process.env.GOOGLE_CLIENT_SECRET),
     profilePhotos: !!(process.env.AWS_ACCESS_KEY_ID && process.env.AWS_SECRET_ACCESS_KEY),
     jwtAuth: !!(process.env.JWT_SECRET),
+    twoFactorAuth: true,
     emailVerification: !!(process.env.SMTP_HOST && process.env.SMTP_USER && process.env.SMTP_PASSWORD)
   };
 
@@ -11,6 +11,8 @@ if (!fs.existsSync(uploadDir)) {
 }
 
 const adminAuthMiddleware = require('../middleware/adminAuthMiddleware');
+const requirePermission = require('../middleware/permissionMiddleware');
+const { PERMISSIONS } = require('../config/adminRoles');
 const authMiddleware = require('../middleware/authMiddleware');
 const {
   createBundle,
@@ -107,39 +109,39 @@ router.get('/:id', getBundleById);
  * POST /api/bundles
  * Body: { title, description, longDescription, price, originalValue, courseIds, category, tags, featured, isPublic, maxEnrollments }
  */
-router.post('/', adminAuthMiddleware, createBundle);
+router.post('/', adminAuthMiddleware, requirePermission(PERMISSIONS.CONTENT_MANAGE), createBundle);
 
 /**
  * Upload thumbnail for a bundle
  * PUT /api/bundles/thumbnail/:bundleId
  * Body: { file }
  */
-router.put('/thumbnail/:bundleId', adminAuthMiddleware, upload.single('file'), uploadThumbnail);
+router.put('/thumbnail/:bundleId', adminAuthMiddleware, requirePermission(PERMISSIONS.CONTENT_MANAGE), upload.single('file'), uploadThumbnail);
 
 /**
  * Update bundle metadata
  * PUT /api/bundles/:id
  * Body: { title, description, longDescription, price, originalValue, courseIds, category, tags, featured, status, isPublic, maxEnrollments }
  */
-router.put('/:id', adminAuthMiddleware, updateBundle);
+router.put('/:id', adminAuthMiddleware, requirePermission(PERMISSIONS.CONTENT_MANAGE), updateBundle);
 
 /**
  * Delete a bundle
  * DELETE /api/bundles/:id
  */
-router.delete('/:id', adminAuthMiddleware, deleteBundle);
+router.delete('/:id', adminAuthMiddleware, requirePermission(PERMISSIONS.CONTENT_MANAGE), deleteBundle);
 
 /**
  * Archive a bundle
  * POST /api/bundles/:bundleId/archive
  * Body: { reason, gracePeriodMonths }
  */
-router.post('/:bundleId/archive', adminAuthMiddleware, archiveBundle);
+router.post('/:bundleId/archive', adminAuthMiddleware, requirePermission(PERMISSIONS.CONTENT_MANAGE), archiveBundle);
 
 /**
  * Unarchive a bundle
  * POST /api/bundles/:bundleId/unarchive
  */
-router.post('/:bundleId/unarchive', adminAuthMiddleware, unarchiveBundle);
+router.post('/:bundleId/unarchive', adminAuthMiddleware, requirePermission(PERMISSIONS.CONTENT_MANAGE), unarchiveBundle);
 
 module.exports = router;
@@ -2,10 +2,25 @@ const express = require('express');
 const router = express.Router();
 const certificateController = require('../controllers/certificateController');
 const authMiddleware = require('../middleware/authMiddleware');
+const adminAuthMiddleware = require('../middleware/adminAuthMiddleware');
+const requirePermission = require('../middleware/permissionMiddleware');
+const { PERMISSIONS } = require('../config/adminRoles');
 
 // Public verification endpoint (no auth required) - must be before auth middleware
 router.get('/verify/:certificateId', certificateController.verifyCertificate);
 
+// Public key for checking certificate signatures offline
+router.get('/public-key', certificateController.getSigningPublicKey);
+
+// Open Badges 3.0 credential and issuer profile (public so verifiers can resolve them)
+router.get('/issuer', certificateController.getIssuerProfile);
+router.get('/badge/:certificateId', certificateController.downloadOpenBadge);
+
+// Admin: list, revoke and reissue certificates
+router.get('/admin', adminAuthMiddleware, requirePermission(PERMISSIONS.USERS_VIEW), certificateController.getAdminCertificates);
+router.post('/admin/:certificateId/revoke', adminAuthMiddleware, requirePermission(PERMISSIONS.USERS_MANAGE), certificateController.revokeCertificate);
+router.post('/admin/:certificateId/reissue', adminAuthMiddleware, requirePermission(PERMISSIONS.USERS_MANAGE), certificateController.reissueCertificate);
+
 // Apply authentication middleware to all other routes
 router.use(authMiddleware);
 
@@ -0,0 +1,80 @@
+const express = require('express');
+const router = express.Router();
+const multer = require('multer');
+const certificateTemplateController = require('../controllers/certificateTemplateController');
+const adminAuthMiddleware = require('../middleware/adminAuthMiddleware');
+const requirePermission = require('../middleware/permissionMiddleware');
+const { PERMISSIONS } = require('../config/adminRoles');
+
+// Artwork, signatures and fonts are kept in memory until they are sent to S3
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 5 * 1024 * 1024, // 5MB limit
+  }
+});
+
+// Error handling middleware for multer
+const handleMulterError = (error, req, res, next) => {
+  if (error instanceof multer.MulterError && error.code === 'LIMIT_FILE_SIZE') {
+    return res.status(400).json({
+      success: false,
+      message: 'File too large. Maximum size is 5MB.'
+    });
+  }
+  next(error);
+};
+
+// ========================================
+// ADMIN ROUTES (Require admin authentication)
+// ========================================
+
+router.use(adminAuthMiddleware);
+
+// Instructors choose a template for their own courses; only content managers design templates
+const canChooseTemplates = requirePermission(PERMISSIONS.CONTENT_MANAGE, PERMISSIONS.COURSES_OWN);
+const canManageTemplates = requirePermission(PERMISSIONS.CONTENT_MANAGE);
+
+/**
+ * List templates
+ * GET /api/admin/certificate-templates
+ */
+router.get('/', canChooseTemplates, certificateTemplateController.getTemplates);
+
+/**
+ * Defaults for a new template
+ * GET /api/admin/certificate-templates/defaults
+ */
+router.get('/defaults', canManageTemplates, certificateTemplateController.getTemplateDefaults);
+
+/**
+ * Render a saved or draft template as a PDF with sample data
+ * POST /api/admin/certificate-templates/preview
+ */
+router.post('/preview', canChooseTemplates, certificateTemplateController.previewTemplate);
+
+/**
+ * Upload artwork, a signature image or a font
+ * POST /api/admin/certificate-templates/assets
+ */
+router.post('/assets', canManageTemplates, upload.single('file'), handleMulterError, certificateTemplateController.uploadAsset);
+
+/**
+ * Create a template
+ * POST /api/admin/certificate-templates
+ */
+router.post('/', canManageTemplates, certificateTemplateController.createTemplate);
+
+/**
+ * Update a template
+ * PUT /api/admin/certificate-templates/:id
+ */
+router.put('/:id', canManageTemplates, certificateTemplateController.updateTemplate);
+
+/**
+ * Delete a template no course uses
+ * DELETE /api/admin/certificate-templates/:id
+ */
+router.delete('/:id', canManageTemplates, certificateTemplateController.deleteTemplate);
+
+module.exports = router;
@@ -0,0 +1,48 @@
+const express = require('express');
+const router = express.Router();
+const couponController = require('../controllers/couponController');
+const auth = require('../middleware/authMiddleware');
+const adminAuthMiddleware = require('../middleware/adminAuthMiddleware');
+const requirePermission = require('../middleware/permissionMiddleware');
+const { PERMISSIONS } = require('../config/adminRoles');
+
+// ========================================
+// ADMIN ROUTES (Require admin authentication)
+// ========================================
+
+/**
+ * List all coupons
+ * GET /api/coupons/admin
+ */
+router.get('/admin', auth, adminAuthMiddleware, requirePermission(PERMISSIONS.COUPONS_MANAGE), couponController.getAdminCoupons);
+
+/**
+ * Create a coupon
+ * POST /api/coupons/admin
+ */
+router.post('/admin', auth, adminAuthMiddleware, requirePermission(PERMISSIONS.COUPONS_MANAGE), couponController.createCoupon);
+
+/**
+ * Update a coupon
+ * PUT /api/coupons/admin/:id
+ */
+router.put('/admin/:id', auth, adminAuthMiddleware, requirePermission(PERMISSIONS.COUPONS_MANAGE), couponController.updateCoupon);
+
+/**
+ * Delete (or deactivate, if it was redeemed) a coupon
+ * DELETE /api/coupons/admin/:id
+ */
+router.delete('/admin/:id', auth, adminAuthMiddleware, requirePermission(PERMISSIONS.COUPONS_MANAGE), couponController.deleteCoupon);
+
+// ========================================
+// USER ROUTES (Require authentication)
+// ========================================
+
+/**
+ * Preview the discounted price of a course or bundle
+ * POST /api/coupons/validate
+ * Body: { code, courseId } OR { code, bundleId }
+ */
+router.post('/validate', auth, couponController.validateCoupon);
+
+module.exports = router;
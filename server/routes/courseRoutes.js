@@ -3,20 +3,22 @@ const router = express.Router();
 const courseController = require('../controllers/courseController');
 const auth = require('../middleware/authMiddleware');
 const adminAuthMiddleware = require('../middleware/adminAuthMiddleware');
+const requirePermission = require('../middleware/permissionMiddleware');
+const { PERMISSIONS } = require('../config/adminRoles');
 const multer = require('multer');
 const upload = multer();
 
 // Thumbnail routes (specific routes first)
-router.post('/thumbnail', auth, adminAuthMiddleware, upload.single('file'), courseController.uploadThumbnail);
-router.delete('/thumbnail/:courseId', auth, adminAuthMiddleware, courseController.deleteThumbnail);
-router.put('/thumbnail/:courseId', auth, adminAuthMiddleware, upload.single('file'), courseController.updateThumbnail);
+router.post('/thumbnail', auth, adminAuthMiddleware, requirePermission(PERMISSIONS.CONTENT_MANAGE), upload.single('file'), courseController.uploadThumbnail);
+router.delete('/thumbnail/:courseId', auth, adminAuthMiddleware, requirePermission(PERMISSIONS.CONTENT_MANAGE), courseController.deleteThumbnail);
+router.put('/thumbnail/:courseId', auth, adminAuthMiddleware, requirePermission(PERMISSIONS.CONTENT_MANAGE), upload.single('file'), courseController.updateThumbnail);
 
 // Course routes (parameterized routes after specific routes)
 router.get('/', require('../middleware/optionalAuthMiddleware'), courseController.getCourses);
 router.get('/:id', courseController.getCourse);
-router.post('/', auth, adminAuthMiddleware, courseController.createCourse);
-router.put('/:id', auth, adminAuthMiddleware, courseController.updateCourse);
-router.delete('/:id', auth, adminAuthMiddleware, courseController.deleteCourse);
+router.post('/', auth, adminAuthMiddleware, requirePermission(PERMISSIONS.CONTENT_MANAGE), courseController.createCourse);
+router.put('/:id', auth, adminAuthMiddleware, requirePermission(PERMISSIONS.CONTENT_MANAGE), courseController.updateCourse);
+router.delete('/:id', auth, adminAuthMiddleware, requirePermission(PERMISSIONS.CONTENT_MANAGE), courseController.deleteCourse);
 
 // WhatsApp group access routes
 router.get('/:courseId/group-token', auth, courseController.generateGroupToken);
@@ -10,6 +10,9 @@ if (!fs.existsSync(uploadDir)) {
   fs.mkdirSync(uploadDir, { recursive: true });
 }
 const adminAuthMiddleware = require('../middleware/adminAuthMiddleware');
+const requirePermission = require('../middleware/permissionMiddleware');
+const { requireCourseOwnership, courseIdFrom } = require('../middleware/courseOwnershipMiddleware');
+const { PERMISSIONS } = require('../config/adminRoles');
 const authMiddleware = require('../middleware/authMiddleware');
 const {
   createCourse,
@@ -28,7 +31,8 @@ const {
   getUserPurchasedCourses,
   getCourseById,
   enrollStudent,
-  updateStudentProgress
+  updateStudentProgress,
+  recordCourseView
 } = require('../controllers/courseControllerEnhanced');
 
 // Configure multer for file uploads
@@ -91,73 +95,73 @@ router.use(handleMulterError);
  * POST /api/courses
  * Body: { title, description, price, category, tags, isPublic, maxEnrollments }
  */
-router.post('/', adminAuthMiddleware, createCourse);
+router.post('/', adminAuthMiddleware, requirePermission(PERMISSIONS.CONTENT_MANAGE, PERMISSIONS.COURSES_OWN), createCourse);
 
 /**
  * Upload thumbnail for a course version
  * PUT /api/courses/thumbnail/:courseId
  * Body: { version, file }
  */
-router.put('/thumbnail/:courseId', adminAuthMiddleware, upload.single('file'), uploadThumbnail);
+router.put('/thumbnail/:courseId', adminAuthMiddleware, requirePermission(PERMISSIONS.CONTENT_MANAGE, PERMISSIONS.COURSES_OWN), requireCourseOwnership(courseIdFrom.param('courseId')), upload.single('file'), uploadThumbnail);
 
 /**
  * Upload video for a course version
  * POST /api/courses/video
  * Body: { courseId, version, title, order, file }
  */
-router.post('/video', adminAuthMiddleware, upload.single('file'), uploadVideo);
+router.post('/video', adminAuthMiddleware, requirePermission(PERMISSIONS.CONTENT_MANAGE, PERMISSIONS.COURSES_OWN), upload.single('file'), requireCourseOwnership(courseIdFrom.body()), uploadVideo);
 
 /**
  * Create a new version of an existing course
  * POST /api/courses/:courseId/versions
  * Body: { changeLog }
  */
-router.post('/:courseId/versions', adminAuthMiddleware, createNewVersion);
+router.post('/:courseId/versions', adminAuthMiddleware, requirePermission(PERMISSIONS.CONTENT_MANAGE, PERMISSIONS.COURSES_OWN), requireCourseOwnership(courseIdFrom.param('courseId')), createNewVersion);
 
 /**
  * Update course metadata
  * PUT /api/courses/:id
  * Body: { title, description, price, category, tags, status, isPublic, maxEnrollments }
  */
-router.put('/:id', adminAuthMiddleware, updateCourse);
+router.put('/:id', adminAuthMiddleware, requirePermission(PERMISSIONS.CONTENT_MANAGE, PERMISSIONS.COURSES_OWN), requireCourseOwnership(courseIdFrom.param('id')), updateCourse);
 
 /**
  * Archive a course (soft delete)
  * POST /api/courses/:courseId/archive
  * Body: { reason, gracePeriodMonths }
  */
-router.post('/:courseId/archive', adminAuthMiddleware, archiveCourse);
+router.post('/:courseId/archive', adminAuthMiddleware, requirePermission(PERMISSIONS.CONTENT_MANAGE), archiveCourse);
 
 /**
  * Unarchive a course
  * POST /api/courses/:courseId/unarchive
  */
-router.post('/:courseId/unarchive', adminAuthMiddleware, unarchiveCourse);
+router.post('/:courseId/unarchive', adminAuthMiddleware, requirePermission(PERMISSIONS.CONTENT_MANAGE), unarchiveCourse);
 
 /**
  * Deactivate a course (removes from public listings, enrolled students keep access)
  * POST /api/courses/:courseId/deactivate
  * Body: { reason }
  */
-router.post('/:courseId/deactivate', adminAuthMiddleware, deactivateCourse);
+router.post('/:courseId/deactivate', adminAuthMiddleware, requirePermission(PERMISSIONS.CONTENT_MANAGE), deactivateCourse);
 
 /**
  * Reactivate a course (makes it visible in public listings again)
  * POST /api/courses/:courseId/reactivate
  */
-router.post('/:courseId/reactivate', adminAuthMiddleware, reactivateCourse);
+router.post('/:courseId/reactivate', adminAuthMiddleware, requirePermission(PERMISSIONS.CONTENT_MANAGE), reactivateCourse);
 
 /**
  * Get deletion summary for a course (before deletion)
  * GET /api/courses/:id/deletion-summary
  */
-router.get('/:id/deletion-summary', adminAuthMiddleware, getDeletionSummary);
+router.get('/:id/deletion-summary', adminAuthMiddleware, requirePermission(PERMISSIONS.CONTENT_MANAGE), getDeletionSummary);
 
 /**
  * Delete a course
  * DELETE /api/courses/:id
  */
-router.delete('/:id', adminAuthMiddleware, deleteCourse);
+router.delete('/:id', adminAuthMiddleware, requirePermission(PERMISSIONS.CONTENT_MANAGE), deleteCourse);
 
 // ========================================
 // PUBLIC ROUTES (May require user authentication)
@@ -181,6 +185,12 @@ router.get('/featured', getFeaturedCourses);
  */
 router.get('/:id', getCourseById);
 
+/**
+ * Count a view of the course page
+ * POST /api/courses/:id/view
+ */
+router.post('/:id/view', recordCourseView);
+
 // ========================================
 // USER ROUTES (Require user authentication)
 // ========================================
@@ -206,7 +216,7 @@ router.put('/:courseId/progress', authMiddleware, updateStudentProgress);
  * Get courses by status (admin only)
  * GET /api/courses/admin/status/:status
  */
-router.get('/admin/status/:status', adminAuthMiddleware, async (req, res) => {
+router.get('/admin/status/:status', adminAuthMiddleware, requirePermission(PERMISSIONS.CONTENT_MANAGE), async (req, res) => {
   try {
     const { status } = req.params;
     const { limit = 20, page = 1 } = req.query;
@@ -246,7 +256,7 @@ router.get('/admin/status/:status', adminAuthMiddleware, async (req, res) => {
  * Get archived courses past grace period (admin only)
  * GET /api/courses/admin/archived-past-grace
  */
-router.get('/admin/archived-past-grace', adminAuthMiddleware, async (req, res) => {
+router.get('/admin/archived-past-grace', adminAuthMiddleware, requirePermission(PERMISSIONS.CONTENT_MANAGE), async (req, res) => {
   try {
     const Course = require('../models/Course');
     const courses = await Course.getArchivedPastGracePeriod();
@@ -273,7 +283,7 @@ router.get('/admin/archived-past-grace', adminAuthMiddleware, async (req, res) =
  * POST /api/courses/admin/bulk-archive
  * Body: { courseIds: [], reason, gracePeriodMonths }
  */
-router.post('/admin/bulk-archive', adminAuthMiddleware, async (req, res) => {
+router.post('/admin/bulk-archive', adminAuthMiddleware, requirePermission(PERMISSIONS.CONTENT_MANAGE), async (req, res) => {
   try {
     const { courseIds, reason, gracePeriodMonths = 6 } = req.body;
     const adminEmail = req.admin?.email || 'admin';
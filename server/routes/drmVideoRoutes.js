@@ -3,6 +3,8 @@ const router = express.Router();
 const authMiddleware = require('../middleware/authMiddleware');
 const optionalAuth = require('../middleware/optionalAuthMiddleware');
 const adminAuthMiddleware = require('../middleware/adminAuthMiddleware');
+const requirePermission = require('../middleware/permissionMiddleware');
+const { PERMISSIONS } = require('../config/adminRoles');
 const securityMiddleware = require('../middleware/securityMiddleware');
 const drmVideoController = require('../controllers/drmVideoController');
 
@@ -53,6 +55,6 @@ router.delete('/sessions/:sessionId', drmVideoController.revokeDRMSession);
  * @desc Get DRM session statistics
  * @access Private (Admin only)
  */
-router.get('/stats', adminAuthMiddleware, drmVideoController.getDRMStats);
+router.get('/stats', adminAuthMiddleware, requirePermission(PERMISSIONS.CONTENT_MANAGE), drmVideoController.getDRMStats);
 
 module.exports = router;
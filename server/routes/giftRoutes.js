@@ -0,0 +1,24 @@
+const express = require('express');
+const router = express.Router();
+const giftController = require('../controllers/giftController');
+const auth = require('../middleware/authMiddleware');
+
+// ========================================
+// USER ROUTES (Require authentication)
+// Gifts are bought through POST /api/payment/create-checkout-session with a `gift` body field
+// ========================================
+
+/**
+ * Gifts the current user has bought
+ * GET /api/gifts/mine
+ */
+router.get('/mine', auth, giftController.getMyGifts);
+
+/**
+ * Redeem a gift code
+ * POST /api/gifts/redeem
+ * Body: { code }
+ */
+router.post('/redeem', auth, giftController.redeemGift);
+
+module.exports = router;
@@ -0,0 +1,70 @@
+const express = require('express');
+const router = express.Router();
+const multer = require('multer');
+const instructorController = require('../controllers/instructorController');
+const auth = require('../middleware/authMiddleware');
+const adminAuthMiddleware = require('../middleware/adminAuthMiddleware');
+const requirePermission = require('../middleware/permissionMiddleware');
+const { PERMISSIONS } = require('../config/adminRoles');
+
+// Instructor photos are small images kept in memory until they reach S3
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 5 * 1024 * 1024, // 5MB limit for photos
+  },
+  fileFilter: (req, file, cb) => {
+    if (file.mimetype.startsWith('image/')) {
+      cb(null, true);
+    } else {
+      cb(new Error('Invalid file type. Only image files are allowed.'), false);
+    }
+  }
+});
+
+// ========================================
+// ADMIN ROUTES (Require admin authentication)
+// ========================================
+
+/**
+ * List instructor accounts
+ * GET /api/instructors
+ */
+router.get('/', auth, adminAuthMiddleware, requirePermission(PERMISSIONS.CONTENT_MANAGE), instructorController.listInstructors);
+
+/**
+ * The signed-in instructor's profile
+ * GET /api/instructors/me
+ */
+router.get('/me', auth, adminAuthMiddleware, requirePermission(PERMISSIONS.COURSES_OWN), instructorController.getMyProfile);
+
+/**
+ * Update the signed-in instructor's profile
+ * PUT /api/instructors/me
+ */
+router.put('/me', auth, adminAuthMiddleware, requirePermission(PERMISSIONS.COURSES_OWN), instructorController.updateMyProfile);
+
+/**
+ * Upload the signed-in instructor's photo
+ * POST /api/instructors/me/photo
+ */
+router.post('/me/photo', auth, adminAuthMiddleware, requirePermission(PERMISSIONS.COURSES_OWN), upload.single('photo'), instructorController.uploadMyPhoto);
+
+// Error handling middleware for multer
+router.use((error, req, res, next) => {
+  if (error instanceof multer.MulterError && error.code === 'LIMIT_FILE_SIZE') {
+    return res.status(400).json({
+      success: false,
+      message: 'File too large. Maximum size is 5MB.'
+    });
+  }
+  if (error.message?.includes('Invalid file type')) {
+    return res.status(400).json({
+      success: false,
+      message: error.message
+    });
+  }
+  next(error);
+});
+
+module.exports = router;
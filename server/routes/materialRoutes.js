@@ -4,6 +4,9 @@ const materialController = require('../controllers/materialController');
 const auth = require('../middleware/authMiddleware');
 const optionalAuth = require('../middleware/optionalAuthMiddleware');
 const adminAuthMiddleware = require('../middleware/adminAuthMiddleware');
+const requirePermission = require('../middleware/permissionMiddleware');
+const { requireCourseOwnership, courseIdFrom } = require('../middleware/courseOwnershipMiddleware');
+const { PERMISSIONS } = require('../config/adminRoles');
 const multer = require('multer');
 const path = require('path');
 const fs = require('fs');
@@ -91,20 +94,20 @@ router.use(handleMulterError);
  * POST /api/materials/upload
  * Body: { courseId, version, title, description, order, file }
  */
-router.post('/upload', auth, adminAuthMiddleware, upload.single('file'), materialController.uploadMaterial);
+router.post('/upload', auth, adminAuthMiddleware, requirePermission(PERMISSIONS.CONTENT_MANAGE, PERMISSIONS.COURSES_OWN), upload.single('file'), requireCourseOwnership(courseIdFrom.body()), materialController.uploadMaterial);
 
 /**
  * Update material metadata
  * PUT /api/materials/:materialId
  * Body: { title, description, order }
  */
-router.put('/:materialId', auth, adminAuthMiddleware, materialController.updateMaterial);
+router.put('/:materialId', auth, adminAuthMiddleware, requirePermission(PERMISSIONS.CONTENT_MANAGE, PERMISSIONS.COURSES_OWN), requireCourseOwnership(courseIdFrom.material), materialController.updateMaterial);
 
 /**
  * Delete material
  * DELETE /api/materials/:materialId
  */
-router.delete('/:materialId', auth, adminAuthMiddleware, materialController.deleteMaterial);
+router.delete('/:materialId', auth, adminAuthMiddleware, requirePermission(PERMISSIONS.CONTENT_MANAGE, PERMISSIONS.COURSES_OWN), requireCourseOwnership(courseIdFrom.material), materialController.deleteMaterial);
 
 // ========================================
 // USER ROUTES (Require authentication and purchase)
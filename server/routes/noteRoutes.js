@@ -0,0 +1,21 @@
+const express = require('express');
+const router = express.Router();
+const authMiddleware = require('../middleware/authMiddleware');
+const {
+  getNotes,
+  getNotesSummary,
+  createNote,
+  updateNote,
+  deleteNote,
+  exportCourseNotes
+} = require('../controllers/noteController');
+
+// All note routes are personal - require user authentication
+router.get('/', authMiddleware, getNotes);
+router.get('/summary', authMiddleware, getNotesSummary);
+router.get('/export/:courseId', authMiddleware, exportCourseNotes);
+router.post('/', authMiddleware, createNote);
+router.put('/:id', authMiddleware, updateNote);
+router.delete('/:id', authMiddleware, deleteNote);
+
+module.exports = router;
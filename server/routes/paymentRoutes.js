@@ -2,6 +2,9 @@ const express = require('express');
 const router = express.Router();
 const paymentController = require('../controllers/paymentController');
 const auth = require('../middleware/authMiddleware');
+const adminAuthMiddleware = require('../middleware/adminAuthMiddleware');
+const requirePermission = require('../middleware/permissionMiddleware');
+const { PERMISSIONS } = require('../config/adminRoles');
 
 // Create checkout session (requires authentication)
 router.post('/create-checkout-session', auth, paymentController.createCheckoutSession);
@@ -29,4 +32,8 @@ router.get('/download-receipt/:courseId', auth, paymentController.downloadReceip
 router.get('/receipt/bundle/:bundleId', auth, paymentController.getBundleReceipt);
 router.get('/download-bundle-receipt/:bundleId', auth, paymentController.downloadBundleReceipt);
 
+// Admin refund endpoints
+router.get('/admin/users/:userId/payments', auth, adminAuthMiddleware, requirePermission(PERMISSIONS.PAYMENTS_VIEW), paymentController.getUserPayments);
+router.post('/admin/:paymentId/refund', auth, adminAuthMiddleware, requirePermission(PERMISSIONS.PAYMENTS_REFUND), paymentController.refundPayment);
+
 module.exports = router;
\ No newline at end of file
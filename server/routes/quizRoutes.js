@@ -0,0 +1,68 @@
+const express = require('express');
+const router = express.Router();
+const quizController = require('../controllers/quizController');
+const auth = require('../middleware/authMiddleware');
+const adminAuthMiddleware = require('../middleware/adminAuthMiddleware');
+const requirePermission = require('../middleware/permissionMiddleware');
+const { requireCourseOwnership, courseIdFrom } = require('../middleware/courseOwnershipMiddleware');
+const { PERMISSIONS } = require('../config/adminRoles');
+
+// ========================================
+// ADMIN ROUTES (Require admin authentication)
+// ========================================
+
+/**
+ * Get all quizzes of a course with answers and attempt statistics
+ * GET /api/quizzes/admin/course/:courseId
+ */
+router.get('/admin/course/:courseId', auth, adminAuthMiddleware, requirePermission(PERMISSIONS.CONTENT_MANAGE, PERMISSIONS.COURSES_OWN), requireCourseOwnership(courseIdFrom.param('courseId')), quizController.getAdminCourseQuizzes);
+
+/**
+ * Create a quiz
+ * POST /api/quizzes/admin
+ * Body: { courseId, videoId?, title, description, questions, passingScore, requiredForCertificate, maxAttempts }
+ */
+router.post('/admin', auth, adminAuthMiddleware, requirePermission(PERMISSIONS.CONTENT_MANAGE, PERMISSIONS.COURSES_OWN), requireCourseOwnership(courseIdFrom.body()), quizController.createQuiz);
+
+/**
+ * Update a quiz
+ * PUT /api/quizzes/admin/:quizId
+ */
+router.put('/admin/:quizId', auth, adminAuthMiddleware, requirePermission(PERMISSIONS.CONTENT_MANAGE, PERMISSIONS.COURSES_OWN), requireCourseOwnership(courseIdFrom.quiz), quizController.updateQuiz);
+
+/**
+ * Delete (or archive, if it has attempts) a quiz
+ * DELETE /api/quizzes/admin/:quizId
+ */
+router.delete('/admin/:quizId', auth, adminAuthMiddleware, requirePermission(PERMISSIONS.CONTENT_MANAGE, PERMISSIONS.COURSES_OWN), requireCourseOwnership(courseIdFrom.quiz), quizController.deleteQuiz);
+
+// ========================================
+// USER ROUTES (Require authentication and purchase)
+// ========================================
+
+/**
+ * Get the quizzes of a course with the user's results
+ * GET /api/quizzes/course/:courseId
+ */
+router.get('/course/:courseId', auth, quizController.getCourseQuizzes);
+
+/**
+ * Get a quiz to take
+ * GET /api/quizzes/:quizId
+ */
+router.get('/:quizId', auth, quizController.getQuiz);
+
+/**
+ * Submit answers for grading
+ * POST /api/quizzes/:quizId/attempts
+ * Body: { answers: [{ questionId, answer }] }
+ */
+router.post('/:quizId/attempts', auth, quizController.submitAttempt);
+
+/**
+ * Get the user's past attempts
+ * GET /api/quizzes/:quizId/attempts
+ */
+router.get('/:quizId/attempts', auth, quizController.getMyAttempts);
+
+module.exports = router;
@@ -0,0 +1,37 @@
+const express = require('express');
+const router = express.Router();
+const reportController = require('../controllers/reportController');
+const adminAuthMiddleware = require('../middleware/adminAuthMiddleware');
+const requirePermission = require('../middleware/permissionMiddleware');
+const { PERMISSIONS } = require('../config/adminRoles');
+
+// ========================================
+// ADMIN ROUTES (Require admin authentication)
+// All reports stream as ?format=csv (default) or ?format=xlsx
+// ========================================
+
+/**
+ * Users, with the admin user list's filters
+ * GET /api/admin/reports/users?search=&status=&role=&sortBy=&sortOrder=
+ */
+router.get('/users', adminAuthMiddleware, requirePermission(PERMISSIONS.USERS_VIEW), reportController.exportUsers);
+
+/**
+ * Course enrollments with progress (instructors get their own courses)
+ * GET /api/admin/reports/enrollments?courseId=
+ */
+router.get('/enrollments', adminAuthMiddleware, requirePermission(PERMISSIONS.USERS_VIEW, PERMISSIONS.COURSES_OWN), reportController.exportEnrollments);
+
+/**
+ * Certificates issued
+ * GET /api/admin/reports/certificates?from=&to=&courseId=
+ */
+router.get('/certificates', adminAuthMiddleware, requirePermission(PERMISSIONS.USERS_VIEW), reportController.exportCertificates);
+
+/**
+ * Payments with receipt numbers
+ * GET /api/admin/reports/payments?from=&to=&status=&currency=
+ */
+router.get('/payments', adminAuthMiddleware, requirePermission(PERMISSIONS.PAYMENTS_VIEW), reportController.exportPayments);
+
+module.exports = router;
@@ -0,0 +1,39 @@
+const express = require('express');
+const router = express.Router();
+const subscriptionController = require('../controllers/subscriptionController');
+const auth = require('../middleware/authMiddleware');
+
+// ========================================
+// PUBLIC ROUTES
+// ========================================
+
+/**
+ * List the membership plans
+ * GET /api/subscriptions/plans
+ */
+router.get('/plans', subscriptionController.getPlans);
+
+// ========================================
+// USER ROUTES (Require authentication)
+// ========================================
+
+/**
+ * Get the current user's membership
+ * GET /api/subscriptions/me
+ */
+router.get('/me', auth, subscriptionController.getMyMembership);
+
+/**
+ * Start a membership checkout
+ * POST /api/subscriptions/checkout
+ * Body: { plan: 'monthly' | 'yearly' }
+ */
+router.post('/checkout', auth, subscriptionController.createCheckoutSession);
+
+/**
+ * Open the Stripe billing portal
+ * POST /api/subscriptions/portal
+ */
+router.post('/portal', auth, subscriptionController.createPortalSession);
+
+module.exports = router;
@@ -3,6 +3,8 @@ const router = express.Router();
 const userController = require('../controllers/userController');
 const auth = require('../middleware/authMiddleware');
 const adminAuth = require('../middleware/adminAuthMiddleware');
+const requirePermission = require('../middleware/permissionMiddleware');
+const { PERMISSIONS } = require('../config/adminRoles');
 const multer = require('multer');
 const upload = multer();
 
@@ -16,15 +18,16 @@ router.delete('/profile/picture', auth, userController.deleteProfilePicture);
 router.get('/dashboard', auth, userController.getUserDashboard);
 
 // Admin user management routes
-router.get('/admin/all', auth, adminAuth, userController.getAllUsers);
-router.get('/admin/:id', auth, adminAuth, userController.getUserById);
-router.put('/admin/:id', auth, adminAuth, userController.updateUserByAdmin);
-router.delete('/admin/:id', auth, adminAuth, userController.deleteUserByAdmin);
-router.put('/admin/:id/status', auth, adminAuth, userController.updateUserStatus);
+router.get('/admin/all', auth, adminAuth, requirePermission(PERMISSIONS.USERS_VIEW), userController.getAllUsers);
+router.get('/admin/:id', auth, adminAuth, requirePermission(PERMISSIONS.USERS_VIEW), userController.getUserById);
+router.put('/admin/:id', auth, adminAuth, requirePermission(PERMISSIONS.USERS_MANAGE), userController.updateUserByAdmin);
+router.delete('/admin/:id', auth, adminAuth, requirePermission(PERMISSIONS.USERS_DELETE), userController.deleteUserByAdmin);
+router.put('/admin/:id/status', auth, adminAuth, requirePermission(PERMISSIONS.USERS_MANAGE), userController.updateUserStatus);
+router.put('/admin/:id/role', auth, adminAuth, requirePermission(PERMISSIONS.ROLES_MANAGE), userController.updateUserRole);
 
 // Admin course access management routes
-router.get('/admin/:userId/courses', auth, adminAuth, userController.getUserCourseEnrollments);
-router.post('/admin/:userId/courses/:courseId/grant', auth, adminAuth, userController.grantCourseAccess);
-router.delete('/admin/:userId/courses/:courseId/revoke', auth, adminAuth, userController.revokeCourseAccess);
+router.get('/admin/:userId/courses', auth, adminAuth, requirePermission(PERMISSIONS.USERS_VIEW), userController.getUserCourseEnrollments);
+router.post('/admin/:userId/courses/:courseId/grant', auth, adminAuth, requirePermission(PERMISSIONS.USERS_MANAGE), userController.grantCourseAccess);
+router.delete('/admin/:userId/courses/:courseId/revoke', auth, adminAuth, requirePermission(PERMISSIONS.USERS_MANAGE), userController.revokeCourseAccess);
 
 module.exports = router; 
\ No newline at end of file
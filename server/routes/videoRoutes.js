@@ -4,6 +4,9 @@ const videoController = require('../controllers/videoController');
 const auth = require('../middleware/authMiddleware');
 const optionalAuth = require('../middleware/optionalAuthMiddleware');
 const adminAuthMiddleware = require('../middleware/adminAuthMiddleware');
+const requirePermission = require('../middleware/permissionMiddleware');
+const { requireCourseOwnership, courseIdFrom } = require('../middleware/courseOwnershipMiddleware');
+const { PERMISSIONS } = require('../config/adminRoles');
 const multer = require('multer');
 const path = require('path');
 const fs = require('fs');
@@ -37,6 +40,21 @@ const upload = multer({
   }
 });
 
+// Caption files are small text files, kept in memory and converted to WebVTT before upload
+const captionUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 2 * 1024 * 1024, // 2MB
+  },
+  fileFilter: (req, file, cb) => {
+    if (/\.(vtt|srt)$/i.test(file.originalname)) {
+      cb(null, true);
+    } else {
+      cb(new Error('Only WebVTT (.vtt) or SRT (.srt) caption files are allowed'), false);
+    }
+  }
+});
+
 // Error handling middleware for multer
 const handleMulterError = (error, req, res, next) => {
   if (error instanceof multer.MulterError) {
@@ -47,7 +65,7 @@ const handleMulterError = (error, req, res, next) => {
       });
     }
   }
-  if (error.message.includes('Only video files')) {
+  if (error.message.includes('Only video files') || error.message.includes('caption files')) {
     return res.status(400).json({
       success: false,
       message: error.message
@@ -68,33 +86,33 @@ router.use(handleMulterError);
  * POST /api/videos/upload
  * Body: { courseId, version, title, order, file }
  */
-router.post('/upload', auth, adminAuthMiddleware, upload.single('file'), videoController.uploadVideo);
+router.post('/upload', auth, adminAuthMiddleware, requirePermission(PERMISSIONS.CONTENT_MANAGE, PERMISSIONS.COURSES_OWN), upload.single('file'), requireCourseOwnership(courseIdFrom.body()), videoController.uploadVideo);
 
 /**
  * Update video (preserve old video in S3)
  * PUT /api/videos/:videoId
  * Body: { title, duration, order, file? }
  */
-router.put('/:videoId', auth, adminAuthMiddleware, upload.single('file'), videoController.updateVideo);
+router.put('/:videoId', auth, adminAuthMiddleware, requirePermission(PERMISSIONS.CONTENT_MANAGE, PERMISSIONS.COURSES_OWN), requireCourseOwnership(courseIdFrom.video), upload.single('file'), videoController.updateVideo);
 
 /**
  * Archive video (soft delete)
  * DELETE /api/videos/:videoId
  */
-router.delete('/:videoId', auth, adminAuthMiddleware, videoController.deleteVideo);
+router.delete('/:videoId', auth, adminAuthMiddleware, requirePermission(PERMISSIONS.CONTENT_MANAGE, PERMISSIONS.COURSES_OWN), requireCourseOwnership(courseIdFrom.video), videoController.deleteVideo);
 
 /**
  * Restore archived video
  * POST /api/videos/:videoId/restore
  */
-router.post('/:videoId/restore', auth, adminAuthMiddleware, videoController.restoreVideo);
+router.post('/:videoId/restore', auth, adminAuthMiddleware, requirePermission(PERMISSIONS.CONTENT_MANAGE, PERMISSIONS.COURSES_OWN), requireCourseOwnership(courseIdFrom.video), videoController.restoreVideo);
 
 /**
  * Toggle free preview status for a video (admin only)
  * PUT /api/videos/:videoId/free-preview
  * Body: { isFreePreview: boolean }
  */
-router.put('/:videoId/free-preview', auth, adminAuthMiddleware, videoController.toggleFreePreview);
+router.put('/:videoId/free-preview', auth, adminAuthMiddleware, requirePermission(PERMISSIONS.CONTENT_MANAGE, PERMISSIONS.COURSES_OWN), requireCourseOwnership(courseIdFrom.video), videoController.toggleFreePreview);
 
 /**
  * Get video by ID with signed URL
@@ -113,7 +131,7 @@ router.get('/course/:courseId/version/:version', optionalAuth, videoController.g
  * Get video statistics for a course
  * GET /api/videos/statistics/:courseId
  */
-router.get('/statistics/:courseId', auth, adminAuthMiddleware, videoController.getVideoStatistics);
+router.get('/statistics/:courseId', auth, adminAuthMiddleware, requirePermission(PERMISSIONS.CONTENT_MANAGE, PERMISSIONS.COURSES_OWN), requireCourseOwnership(courseIdFrom.param('courseId')), videoController.getVideoStatistics);
 
 // ========================================
 // USER ROUTES (Require user authentication)
@@ -125,6 +143,74 @@ router.get('/statistics/:courseId', auth, adminAuthMiddleware, videoController.g
  */
 router.get('/:videoId/stream', auth, videoController.streamVideo);
 
+/**
+ * Fresh HLS playback info, for players whose playback token expired mid-lesson
+ * GET /api/videos/:videoId/hls/playback
+ */
+router.get('/:videoId/hls/playback', auth, videoController.getHlsPlaybackInfo);
+
+/**
+ * HLS master playlist (authorized by playback token, not bearer auth)
+ * GET /api/videos/:videoId/hls/master.m3u8?token=
+ */
+router.get('/:videoId/hls/master.m3u8', videoController.getHlsMasterPlaylist);
+
+/**
+ * HLS rendition playlist with presigned segment URLs
+ * GET /api/videos/:videoId/hls/:rendition.m3u8?token=
+ */
+router.get('/:videoId/hls/:rendition.m3u8', videoController.getHlsMediaPlaylist);
+
+/**
+ * Queue a video for HLS packaging (admin only)
+ * POST /api/videos/:videoId/hls/package
+ */
+router.post('/:videoId/hls/package', auth, adminAuthMiddleware, requirePermission(PERMISSIONS.CONTENT_MANAGE, PERMISSIONS.COURSES_OWN), requireCourseOwnership(courseIdFrom.video), videoController.packageVideoForHls);
+
+/**
+ * Caption track as WebVTT (authorized by playback token, not bearer auth)
+ * GET /api/videos/:videoId/captions/:language.vtt?token=
+ */
+router.get('/:videoId/captions/:language.vtt', videoController.getCaptionTrack);
+
+/**
+ * Upload or replace captions for a video (admin only)
+ * POST /api/videos/:videoId/captions
+ * Body: { language: 'en' | 'tg', caption: file }
+ */
+router.post('/:videoId/captions', auth, adminAuthMiddleware, requirePermission(PERMISSIONS.CONTENT_MANAGE, PERMISSIONS.COURSES_OWN), requireCourseOwnership(courseIdFrom.video), captionUpload.single('caption'), videoController.uploadCaption);
+
+/**
+ * Remove captions for a video (admin only)
+ * DELETE /api/videos/:videoId/captions/:language
+ */
+router.delete('/:videoId/captions/:language', auth, adminAuthMiddleware, requirePermission(PERMISSIONS.CONTENT_MANAGE, PERMISSIONS.COURSES_OWN), requireCourseOwnership(courseIdFrom.video), videoController.deleteCaption);
+
+/**
+ * Time-coded transcript for a video
+ * GET /api/videos/:videoId/transcript?language=
+ */
+router.get('/:videoId/transcript', auth, videoController.getVideoTranscript);
+
+/**
+ * Upload a standalone transcript for a video (admin only)
+ * POST /api/videos/:videoId/transcript
+ * Body: { language: 'en' | 'tg', transcript: file }
+ */
+router.post('/:videoId/transcript', auth, adminAuthMiddleware, requirePermission(PERMISSIONS.CONTENT_MANAGE, PERMISSIONS.COURSES_OWN), requireCourseOwnership(courseIdFrom.video), captionUpload.single('transcript'), videoController.uploadTranscript);
+
+/**
+ * Remove an uploaded transcript (admin only)
+ * DELETE /api/videos/:videoId/transcript/:language
+ */
+router.delete('/:videoId/transcript/:language', auth, adminAuthMiddleware, requirePermission(PERMISSIONS.CONTENT_MANAGE, PERMISSIONS.COURSES_OWN), requireCourseOwnership(courseIdFrom.video), videoController.deleteTranscript);
+
+/**
+ * Search transcripts across all lessons of a course
+ * GET /api/videos/course/:courseId/transcripts/search?q=&language=
+ */
+router.get('/course/:courseId/transcripts/search', auth, videoController.searchCourseTranscripts);
+
 // ========================================
 // ADMIN-ONLY VIDEO MANAGEMENT ROUTES
 // ========================================
@@ -133,7 +219,7 @@ router.get('/:videoId/stream', auth, videoController.streamVideo);
  * Get all videos by status (admin only)
  * GET /api/videos/admin/status/:status
  */
-router.get('/admin/status/:status', auth, adminAuthMiddleware, async (req, res) => {
+router.get('/admin/status/:status', auth, adminAuthMiddleware, requirePermission(PERMISSIONS.CONTENT_MANAGE), async (req, res) => {
   try {
     const { status } = req.params;
     const { limit = 20, page = 1 } = req.query;
@@ -171,39 +257,85 @@ router.get('/admin/status/:status', auth, adminAuthMiddleware, async (req, res)
 });
 
 /**
- * Get processing videos (admin only)
+ * Get processing queue state: job counts, worker and recent jobs (admin only)
  * GET /api/videos/admin/processing
  */
-router.get('/admin/processing', auth, adminAuthMiddleware, async (req, res) => {
+router.get('/admin/processing', auth, adminAuthMiddleware, requirePermission(PERMISSIONS.CONTENT_MANAGE), async (req, res) => {
   try {
-    const Video = require('../models/Video');
-    const videos = await Video.find({ 
-      processingStatus: { $in: ['pending', 'processing'] } 
-    }).populate('courseId', 'title');
+    const videoProcessingService = require('../services/videoProcessingService');
+    const { status, limit = 50 } = req.query;
+    const queue = await videoProcessingService.getQueueState({
+      status,
+      limit: Math.min(parseInt(limit) || 50, 200)
+    });
 
     res.json({
       success: true,
-      data: {
-        videos,
-        count: videos.length
-      }
+      data: queue
     });
   } catch (error) {
-    console.error('❌ Get processing videos error:', error);
+    console.error('❌ Get processing queue error:', error);
     res.status(500).json({
       success: false,
-      message: 'Failed to fetch processing videos',
+      message: 'Failed to fetch processing queue',
       error: error.message
     });
   }
 });
 
+/**
+ * Retry a failed or cancelled processing job (admin only)
+ * POST /api/videos/admin/processing/:jobId/retry
+ */
+router.post('/admin/processing/:jobId/retry', auth, adminAuthMiddleware, requirePermission(PERMISSIONS.CONTENT_MANAGE), async (req, res) => {
+  try {
+    const videoProcessingService = require('../services/videoProcessingService');
+    const adminEmail = req.admin?.email || req.user?.email || 'admin';
+    const job = await videoProcessingService.retryJob(req.params.jobId, adminEmail);
+
+    res.json({
+      success: true,
+      message: 'Processing job requeued',
+      data: { job }
+    });
+  } catch (error) {
+    console.error('❌ Retry processing job error:', error);
+    res.status(error.message === 'Job not found' ? 404 : 400).json({
+      success: false,
+      message: error.message
+    });
+  }
+});
+
+/**
+ * Cancel a queued or running processing job (admin only)
+ * POST /api/videos/admin/processing/:jobId/cancel
+ */
+router.post('/admin/processing/:jobId/cancel', auth, adminAuthMiddleware, requirePermission(PERMISSIONS.CONTENT_MANAGE), async (req, res) => {
+  try {
+    const videoProcessingService = require('../services/videoProcessingService');
+    const job = await videoProcessingService.cancelJob(req.params.jobId);
+
+    res.json({
+      success: true,
+      message: job.status === 'cancelled' ? 'Processing job cancelled' : 'Cancellation requested',
+      data: { job }
+    });
+  } catch (error) {
+    console.error('❌ Cancel processing job error:', error);
+    res.status(error.message === 'Job not found' ? 404 : 400).json({
+      success: false,
+      message: error.message
+    });
+  }
+});
+
 /**
  * Bulk delete videos (admin only) - permanently deletes from database and S3
  * POST /api/videos/admin/bulk-delete
  * Body: { videoIds: [] }
  */
-router.post('/admin/bulk-delete', auth, adminAuthMiddleware, async (req, res) => {
+router.post('/admin/bulk-delete', auth, adminAuthMiddleware, requirePermission(PERMISSIONS.CONTENT_MANAGE), async (req, res) => {
   try {
     const { videoIds } = req.body;
     const adminEmail = req.admin?.email || 'admin';
@@ -370,7 +502,7 @@ router.post('/test-durations', async (req, res) => {
  * PUT /api/videos/:videoId/duration
  * Body: { duration: "MM:SS" or "HH:MM:SS" }
  */
-router.put('/:videoId/duration', auth, adminAuthMiddleware, async (req, res) => {
+router.put('/:videoId/duration', auth, adminAuthMiddleware, requirePermission(PERMISSIONS.CONTENT_MANAGE, PERMISSIONS.COURSES_OWN), requireCourseOwnership(courseIdFrom.video), async (req, res) => {
   try {
     const { videoId } = req.params;
     const { duration } = req.body;
@@ -1,6 +1,7 @@
 const express = require('express');
 const mongoose = require('mongoose');
 const cors = require('cors');
+const cookieParser = require('cookie-parser');
 const path = require('path');
 const session = require('express-session');
 const multer = require('multer');
@@ -30,6 +31,16 @@ const drmVideoRoutes = require('./routes/drmVideoRoutes');
 const contactRoutes = require('./routes/contactRoutes');
 const bundleRoutes = require('./routes/bundleRoutes');
 const announcementRoutes = require('./routes/announcementRoutes');
+const noteRoutes = require('./routes/noteRoutes');
+const quizRoutes = require('./routes/quizRoutes');
+const couponRoutes = require('./routes/couponRoutes');
+const subscriptionRoutes = require('./routes/subscriptionRoutes');
+const giftRoutes = require('./routes/giftRoutes');
+const instructorRoutes = require('./routes/instructorRoutes');
+const auditLogRoutes = require('./routes/auditLogRoutes');
+const certificateTemplateRoutes = require('./routes/certificateTemplateRoutes');
+const analyticsRoutes = require('./routes/analyticsRoutes');
+const reportRoutes = require('./routes/reportRoutes');
 
 // Import controllers for fallback routes
 const authController = require('./controllers/authController');
@@ -115,6 +126,7 @@ app.use(cors({
   credentials: true,
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'OPTIONS'],
   allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With', 'Accept', 'Origin', 'x-mobile-client'],
+  exposedHeaders: ['Content-Disposition'], // Lets the admin panel save exports under the server's file name
   preflightContinue: true,
   optionsSuccessStatus: 200
 }));
@@ -139,6 +151,9 @@ app.use((req, res, next) => {
   }
 });
 
+// Parse cookies (refresh token)
+app.use(cookieParser());
+
 // Serve static files from public directory
 app.use(express.static(path.join(__dirname, 'public')));
 
@@ -500,6 +515,12 @@ mongoose.connect(MONGODB_URI, {
     // Start auto-archive scheduler only after MongoDB is connected
     const { startAutoArchiveScheduler } = require('./utils/autoArchiveScheduler');
     startAutoArchiveScheduler();
+
+    // Start the video processing worker (metadata, posters, HLS transcoding)
+    const videoProcessingService = require('./services/videoProcessingService');
+    videoProcessingService.start().catch((error) => {
+      console.error('❌ Failed to start video processing worker:', error);
+    });
   })
   .catch((error) => {
     console.error('❌ MongoDB connection error:', error.message);
@@ -546,9 +567,15 @@ app.use('/api/auth', authRoutes);
 app.use('/api/admin', adminRoutes);
 app.use('/api/my-courses', myCoursesRoutes);
 app.use('/api/progress', progressRoutes);
+app.use('/api/notes', noteRoutes);
+app.use('/api/quizzes', quizRoutes);
 app.use('/api/certificates', certificateRoutes);
 app.use('/api/reviews', require('./routes/reviewRoutes.js')); 
 app.use('/api/admin/reviews', adminReviewRoutes);
+app.use('/api/admin/audit-logs', auditLogRoutes);
+app.use('/api/admin/certificate-templates', certificateTemplateRoutes);
+app.use('/api/admin/analytics', analyticsRoutes);
+app.use('/api/admin/reports', reportRoutes);
 
 // Fallback route for profile photo (backward compatibility)
 app.get('/api/users/me/photo', authMiddleware, (req, res) => {
@@ -594,6 +621,10 @@ app.get('/api/health', (req, res) => {
 // Payment routes
 app.use('/api/payment', paymentRoutes);
 app.use('/api/payments', paymentRoutes); // Also support plural for webhook compatibility
+app.use('/api/coupons', couponRoutes);
+app.use('/api/subscriptions', subscriptionRoutes);
+app.use('/api/gifts', giftRoutes);
+app.use('/api/instructors', instructorRoutes);
 
 // User routes
 app.use('/api/user', userRoutes);
@@ -693,7 +724,8 @@ const optionalEnvVars = [
   'FROM_EMAIL',
   'FRONTEND_URL',
   'BACKEND_URL',
-  'SESSION_SECRET'
+  'SESSION_SECRET',
+  'CERTIFICATE_SIGNING_PRIVATE_KEY'
 ];
 
 // Set fallback values for development
@@ -744,6 +776,9 @@ if (missingOptionalVars.length > 0 && process.env.NODE_ENV !== 'production') {
   if (!process.env.SMTP_HOST || !process.env.SMTP_USER || !process.env.SMTP_PASSWORD) {
     console.log('   - Email verification system');
   }
+  if (!process.env.CERTIFICATE_SIGNING_PRIVATE_KEY) {
+    console.log('   - Certificate signing (certificate PDFs cannot be issued)');
+  }
 }
 
 // Error handling middleware
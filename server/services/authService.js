@@ -2,27 +2,68 @@ const jwt = require('jsonwebtoken');
 const User = require('../models/User');
 const s3Service = require('./s3Service');
 const emailService = require('./emailService');
+const twoFactorService = require('./twoFactorService');
+const sessionService = require('./sessionService');
 
 class AuthService {
   /**
-   * Generate JWT token
+   * Generate a short-lived JWT access token; the refresh token cookie renews it
    * @param {Object} user - User object
+   * @param {string} [sessionId] - Session the token belongs to
    * @returns {string} - JWT token
    */
-  generateToken(user) {
+  generateToken(user, sessionId) {
     return jwt.sign(
       { 
         userId: user._id, 
         email: user.email, 
         role: user.role,
         authProvider: user.authProvider,
-        tokenVersion: user.tokenVersion || 1
+        tokenVersion: user.tokenVersion || 1,
+        sessionId
       },
       process.env.JWT_SECRET,
-      { expiresIn: '7d' }
+      { expiresIn: process.env.ACCESS_TOKEN_TTL || '15m' }
     );
   }
 
+  /**
+   * Record a signed-in device and issue its tokens
+   * @param {Object} user - User object
+   * @param {Object} [sessionContext] - { ipAddress, userAgent } of the login request
+   * @returns {Object} - { token, refreshToken }; the controller moves refreshToken into an httpOnly cookie
+   */
+  async createSessionTokens(user, sessionContext) {
+    const { session, refreshToken } = await sessionService.createSession(user, sessionContext);
+    return { token: this.generateToken(user, session._id), refreshToken };
+  }
+
+  /**
+   * Exchange a refresh token for a new access token, rotating the refresh token
+   * @param {string} refreshToken - Value of the refresh token cookie
+   * @returns {Object} - { token, refreshToken } (refreshToken is null when the cookie should be left as is)
+   */
+  async refreshSession(refreshToken) {
+    const rotated = await sessionService.rotateRefreshToken(refreshToken);
+    if (!rotated) {
+      throw new Error('Session has been signed out. Please log in again.');
+    }
+
+    const user = await User.findById(rotated.session.userId);
+    if (!user) {
+      throw new Error('User not found');
+    }
+    if (user.status !== 'active') {
+      await sessionService.revokeSession(user._id, rotated.session._id, 'security');
+      throw new Error('Account is not active');
+    }
+
+    return {
+      token: this.generateToken(user, rotated.session._id),
+      refreshToken: rotated.refreshToken
+    };
+  }
+
   /**
    * Generate verification token (1 hour expiry for security)
    * @param {string} userId - User ID
@@ -152,9 +193,10 @@ class AuthService {
   /**
    * Verify email with token
    * @param {string} verificationToken - JWT verification token
+   * @param {Object} [sessionContext] - { ipAddress, userAgent } of the request
    * @returns {Object} - User object and auth token
    */
-  async verifyEmail(verificationToken) {
+  async verifyEmail(verificationToken, sessionContext) {
     try {
       // Verify the token
       const decoded = this.verifyToken(verificationToken);
@@ -179,7 +221,7 @@ class AuthService {
       await user.save();
 
       // Generate auth token for automatic login
-      const authToken = this.generateToken(user);
+      const { token: authToken, refreshToken } = await this.createSessionTokens(user, sessionContext);
 
       // Send welcome email
       await emailService.sendWelcomeEmail(user.email, user.name);
@@ -198,6 +240,7 @@ class AuthService {
           createdAt: user.createdAt,
         },
         token: authToken,
+        refreshToken,
         message: 'Email verified successfully! You are now logged in.'
       };
     } catch (error) {
@@ -255,9 +298,10 @@ class AuthService {
    * Login user with local authentication
    * @param {string} email - User email
    * @param {string} password - User password
+   * @param {Object} [sessionContext] - { ipAddress, userAgent } of the request
    * @returns {Object} - User object and token
    */
-  async loginLocal(email, password) {
+  async loginLocal(email, password, sessionContext) {
     try {
       // Find user by email
       const user = await User.findOne({ email });
@@ -286,8 +330,14 @@ class AuthService {
         throw new Error('Account is not active');
       }
 
+      // Password is correct, but the session is only issued after the second step
+      if (twoFactorService.isRequired(user)) {
+        console.log(`🔐 Two-factor challenge issued for: ${user.email}`);
+        return this.createTwoFactorChallenge(user);
+      }
+
       // Generate token
-      const token = this.generateToken(user);
+      const { token, refreshToken } = await this.createSessionTokens(user, sessionContext);
 
       console.log(`✅ User logged in successfully: ${user.email}`);
 
@@ -303,6 +353,7 @@ class AuthService {
           createdAt: user.createdAt,
         },
         token,
+        refreshToken,
       };
     } catch (error) {
       console.error('❌ Login error:', error);
@@ -310,6 +361,104 @@ class AuthService {
     }
   }
 
+  /**
+   * Login response for accounts that still have to pass two-factor authentication
+   * @param {Object} user - User document
+   * @returns {Object} - Challenge token; setupRequired when an admin has not enrolled yet
+   */
+  createTwoFactorChallenge(user) {
+    return {
+      twoFactorRequired: true,
+      setupRequired: !user.twoFactor?.enabled,
+      twoFactorToken: twoFactorService.issueChallengeToken({ userId: user._id }),
+      user: { email: user.email }
+    };
+  }
+
+  /**
+   * Load the user behind a login challenge token
+   * @param {string} twoFactorToken - Token from createTwoFactorChallenge
+   * @returns {Object} - User document with its two-factor secrets
+   */
+  async getChallengedUser(twoFactorToken) {
+    const { userId } = await twoFactorService.verifyChallengeToken(twoFactorToken);
+    const user = await twoFactorService.loadUser(userId);
+    if (user.status !== 'active') {
+      throw new Error('Account is not active');
+    }
+    return user;
+  }
+
+  /**
+   * Second login step: exchange the challenge token and a code for a session
+   * @param {string} twoFactorToken - Token from createTwoFactorChallenge
+   * @param {string} code - Authenticator or recovery code
+   * @param {Object} [sessionContext] - { ipAddress, userAgent } of the request
+   * @returns {Object} - User object and token
+   */
+  async completeTwoFactorLogin(twoFactorToken, code, sessionContext) {
+    const user = await this.getChallengedUser(twoFactorToken);
+    const method = await twoFactorService.verifyCode(user, code);
+    await twoFactorService.consumeChallengeToken(twoFactorToken);
+
+    console.log(`✅ User logged in successfully with two-factor (${method}): ${user.email}`);
+
+    return {
+      user: this.formatLoginUser(user),
+      ...(await this.createSessionTokens(user, sessionContext)),
+      recoveryCodesRemaining: user.twoFactor.recoveryCodes.length
+    };
+  }
+
+  /**
+   * Enrollment during login for admin accounts that have not set up two-factor yet
+   * @param {string} twoFactorToken - Token from createTwoFactorChallenge
+   * @returns {Object} - QR code and secret to add to the authenticator app
+   */
+  async beginTwoFactorLoginSetup(twoFactorToken) {
+    const user = await this.getChallengedUser(twoFactorToken);
+    return twoFactorService.beginSetup(user);
+  }
+
+  /**
+   * Confirm enrollment during login and issue the session
+   * @param {string} twoFactorToken - Token from createTwoFactorChallenge
+   * @param {string} code - Code from the authenticator app
+   * @param {Object} [sessionContext] - { ipAddress, userAgent } of the request
+   * @returns {Object} - User object, token and the new recovery codes
+   */
+  async confirmTwoFactorLoginSetup(twoFactorToken, code, sessionContext) {
+    const user = await this.getChallengedUser(twoFactorToken);
+    const recoveryCodes = await twoFactorService.confirmSetup(user, code);
+    await twoFactorService.consumeChallengeToken(twoFactorToken);
+
+    console.log(`✅ User logged in successfully after enabling two-factor: ${user.email}`);
+
+    return {
+      user: this.formatLoginUser(user),
+      ...(await this.createSessionTokens(user, sessionContext)),
+      recoveryCodes
+    };
+  }
+
+  /**
+   * User fields returned by the login endpoints
+   * @param {Object} user - User document
+   * @returns {Object}
+   */
+  formatLoginUser(user) {
+    return {
+      _id: user._id,
+      name: user.name,
+      email: user.email,
+      role: user.role,
+      authProvider: user.authProvider,
+      profilePhotoKey: user.profilePhotoKey,
+      isVerified: user.isVerified,
+      createdAt: user.createdAt,
+    };
+  }
+
   /**
    * Check if email is available for registration
    * @param {string} email - Email to check
@@ -348,9 +497,10 @@ class AuthService {
   /**
    * Handle Google OAuth authentication (no email verification required)
    * @param {Object} profile - Google profile data
+   * @param {Object} [sessionContext] - { ipAddress, userAgent } of the request
    * @returns {Object} - User object and token
    */
-  async handleGoogleAuth(profile) {
+  async handleGoogleAuth(profile, sessionContext) {
     try {
       let user = await User.findOne({ googleId: profile.id });
 
@@ -475,8 +625,14 @@ class AuthService {
         }
       }
 
+      // Google only replaces the password step
+      if (twoFactorService.isRequired(user)) {
+        console.log(`🔐 Two-factor challenge issued for Google user: ${user.email}`);
+        return this.createTwoFactorChallenge(user);
+      }
+
       // Generate token for existing/updated users
-      const token = this.generateToken(user);
+      const { token, refreshToken } = await this.createSessionTokens(user, sessionContext);
 
       return {
         user: {
@@ -490,6 +646,7 @@ class AuthService {
           createdAt: user.createdAt,
         },
         token,
+        refreshToken,
       };
     } catch (error) {
       console.error('❌ Google auth error:', error);
@@ -644,9 +801,10 @@ class AuthService {
    * @param {string} userId - User ID
    * @param {string} currentPassword - Current password
    * @param {string} newPassword - New password
+   * @param {string} [currentSessionId] - Session that stays signed in
    * @returns {boolean} - Success status
    */
-  async changePassword(userId, currentPassword, newPassword) {
+  async changePassword(userId, currentPassword, newPassword, currentSessionId = null) {
     try {
       const user = await User.findById(userId);
       if (!user) {
@@ -667,6 +825,9 @@ class AuthService {
       user.password = newPassword;
       await user.save();
 
+      // Anyone else signed in with the old password is signed out
+      await sessionService.revokeOtherSessions(user._id, currentSessionId, 'security');
+
       // Send password change notification email
       try {
         await emailService.sendPasswordChangeNotification(user.email, user.name);
@@ -825,6 +986,8 @@ class AuthService {
       user.password = newPassword;
       await user.save();
 
+      await sessionService.revokeOtherSessions(user._id, null, 'security');
+
       console.log(`✅ Password reset successfully for user: ${user.email}`);
 
       return {
@@ -849,9 +1012,10 @@ class AuthService {
   /**
    * Complete Google OAuth registration
    * @param {string} userId - User ID
+   * @param {Object} [sessionContext] - { ipAddress, userAgent } of the request
    * @returns {Object} - User object and auth token
    */
-  async completeGoogleRegistration(userId) {
+  async completeGoogleRegistration(userId, sessionContext) {
     try {
       const user = await User.findById(userId);
       
@@ -863,8 +1027,13 @@ class AuthService {
         throw new Error('This endpoint is only for Google OAuth users');
       }
 
+      // Only first-time registrations come through here; never skip an enrolled second factor
+      if (twoFactorService.isRequired(user)) {
+        throw new Error('Two-factor authentication is required. Please sign in again.');
+      }
+
       // Generate auth token
-      const token = this.generateToken(user);
+      const { token, refreshToken } = await this.createSessionTokens(user, sessionContext);
 
       console.log(`✅ Google OAuth registration completed for user: ${user.email}`);
 
@@ -881,6 +1050,7 @@ class AuthService {
           createdAt: user.createdAt,
         },
         token,
+        refreshToken,
         message: 'Registration completed successfully!'
       };
     } catch (error) {
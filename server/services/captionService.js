@@ -0,0 +1,203 @@
+const path = require('path');
+const { PutObjectCommand, GetObjectCommand, DeleteObjectCommand } = require('@aws-sdk/client-s3');
+const { s3Client } = require('../utils/s3Enhanced');
+const Video = require('../models/Video');
+const hlsService = require('./hlsService');
+const transcriptService = require('./transcriptService');
+
+const CAPTION_LANGUAGES = {
+  en: 'English',
+  tg: 'ትግርኛ'
+};
+
+class CaptionService {
+  /**
+   * Whether a language code is supported for captions
+   */
+  isSupportedLanguage(language) {
+    return Object.prototype.hasOwnProperty.call(CAPTION_LANGUAGES, language);
+  }
+
+  /**
+   * Get the S3 key for a caption track.
+   * Stored next to the source file so it follows the course/version folder layout.
+   */
+  getCaptionKey(video, language) {
+    const sourceDir = path.posix.dirname(video.s3Key);
+    return `${sourceDir}/captions/${video._id}/${language}.vtt`;
+  }
+
+  /**
+   * Convert SRT cues to WebVTT (the only format <track> understands)
+   */
+  convertSrtToVtt(srt) {
+    const body = srt
+      .replace(/\r\n?/g, '\n')
+      .trim()
+      // 00:00:01,000 --> 00:00:04,000 becomes 00:00:01.000 --> 00:00:04.000
+      .replace(/(\d{2}:\d{2}:\d{2}),(\d{3})/g, '$1.$2');
+    return `WEBVTT\n\n${body}\n`;
+  }
+
+  /**
+   * Normalize an uploaded caption file to WebVTT text
+   * @param {Buffer} buffer - Uploaded file contents
+   * @param {string} originalName - Uploaded file name (used to detect SRT)
+   * @returns {string} WebVTT text
+   */
+  normalizeCaptionFile(buffer, originalName = '') {
+    // Strip a UTF-8 BOM; many subtitle editors add one
+    const text = buffer.toString('utf8').replace(/^\uFEFF/, '');
+    const extension = path.extname(originalName).toLowerCase();
+
+    let vtt;
+    if (extension === '.srt') {
+      vtt = this.convertSrtToVtt(text);
+    } else if (extension === '.vtt') {
+      vtt = text.replace(/\r\n?/g, '\n');
+    } else {
+      throw new Error('Only WebVTT (.vtt) or SRT (.srt) caption files are allowed');
+    }
+
+    if (!vtt.startsWith('WEBVTT')) {
+      throw new Error('Invalid WebVTT file: missing WEBVTT header');
+    }
+    if (!/\d{2}:\d{2}\.\d{3}\s+-->\s+/.test(vtt)) {
+      throw new Error('Caption file does not contain any cues');
+    }
+    return vtt;
+  }
+
+  /**
+   * Upload (or replace) the caption track for a video and language
+   * @returns {Promise<Array>} The video's caption list after the change
+   */
+  async uploadCaption(videoId, language, file, uploadedBy = 'admin') {
+    if (!s3Client) {
+      throw new Error('S3 client not configured');
+    }
+    if (!this.isSupportedLanguage(language)) {
+      throw new Error(`Unsupported caption language: ${language}`);
+    }
+
+    const video = await Video.findById(videoId);
+    if (!video) {
+      throw new Error('Video not found');
+    }
+
+    const vtt = this.normalizeCaptionFile(file.buffer, file.originalname);
+    const s3Key = this.getCaptionKey(video, language);
+
+    await s3Client.send(new PutObjectCommand({
+      Bucket: process.env.AWS_S3_BUCKET,
+      Key: s3Key,
+      Body: vtt,
+      ContentType: 'text/vtt; charset=utf-8'
+    }));
+
+    const captions = (video.captions || []).filter(caption => caption.language !== language);
+    captions.push({
+      language,
+      label: CAPTION_LANGUAGES[language],
+      s3Key,
+      originalName: file.originalname,
+      uploadedBy,
+      uploadedAt: new Date()
+    });
+    video.captions = captions;
+    await video.save();
+    await this.syncSharedCopies(video);
+
+    // Captions double as the searchable transcript unless one was uploaded separately
+    await transcriptService.saveFromCaptions(video, language, vtt, uploadedBy);
+
+    console.log(`✅ [CaptionService] ${language} captions uploaded for video ${video._id}`);
+    return video.captions;
+  }
+
+  /**
+   * Remove the caption track for a video and language
+   * @returns {Promise<Array>} The video's caption list after the change
+   */
+  async deleteCaption(videoId, language) {
+    const video = await Video.findById(videoId);
+    if (!video) {
+      throw new Error('Video not found');
+    }
+
+    const caption = (video.captions || []).find(c => c.language === language);
+    if (!caption) {
+      throw new Error('Caption track not found');
+    }
+
+    if (s3Client) {
+      try {
+        await s3Client.send(new DeleteObjectCommand({
+          Bucket: process.env.AWS_S3_BUCKET,
+          Key: caption.s3Key
+        }));
+      } catch (error) {
+        // The DB entry is what the player reads; an orphaned S3 object is harmless
+        console.warn(`⚠️ [CaptionService] Failed to delete caption object ${caption.s3Key}:`, error.message);
+      }
+    }
+
+    video.captions = video.captions.filter(c => c.language !== language);
+    await video.save();
+    await this.syncSharedCopies(video);
+    await transcriptService.deleteTranscript(video, language, 'captions');
+
+    console.log(`🗑️ [CaptionService] ${language} captions removed from video ${video._id}`);
+    return video.captions;
+  }
+
+  /**
+   * Copies of a video in other course versions share the source file,
+   * so they share its caption tracks too
+   */
+  async syncSharedCopies(video) {
+    await Video.updateMany(
+      { s3Key: video.s3Key, _id: { $ne: video._id } },
+      { $set: { captions: video.toObject().captions } }
+    );
+  }
+
+  /**
+   * Build the caption track list returned alongside a video.
+   * Track URLs carry the playback token because <track> cannot send Authorization headers.
+   * @returns {Array} [{ language, label, url }]
+   */
+  getCaptionTracks(video, userId, req) {
+    if (!video.captions || video.captions.length === 0) {
+      return [];
+    }
+
+    const token = hlsService.generatePlaybackToken(userId, video._id);
+    const baseUrl = hlsService.getApiBaseUrl(req);
+    return video.captions.map(caption => ({
+      language: caption.language,
+      label: caption.label || CAPTION_LANGUAGES[caption.language],
+      url: `${baseUrl}/api/videos/${video._id}/captions/${caption.language}.vtt?token=${encodeURIComponent(token)}`
+    }));
+  }
+
+  /**
+   * Read a caption track's WebVTT text from S3
+   * @returns {Promise<string|null>} WebVTT text or null if the track doesn't exist
+   */
+  async getCaptionContent(video, language) {
+    const caption = (video.captions || []).find(c => c.language === language);
+    if (!caption) {
+      return null;
+    }
+
+    const result = await s3Client.send(new GetObjectCommand({
+      Bucket: process.env.AWS_S3_BUCKET,
+      Key: caption.s3Key
+    }));
+    return result.Body.transformToString();
+  }
+}
+
+// Export singleton instance
+module.exports = new CaptionService();
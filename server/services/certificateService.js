@@ -0,0 +1,203 @@
+const Certificate = require('../models/Certificate');
+const AuditLog = require('../models/AuditLog');
+
+/**
+ * Raised when a certificate can't be revoked or reissued; the message is shown to the admin
+ */
+class CertificateError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'CertificateError';
+  }
+}
+
+// Fields an admin may correct when reissuing
+const REISSUE_FIELDS = ['studentName', 'courseTitle'];
+
+const toIdString = (ref) => (ref && ref._id ? ref._id : ref).toString();
+
+class CertificateService {
+  /**
+   * Revoke a certificate so it no longer verifies
+   * @param {Object} certificate - Certificate document
+   * @param {Object} params - { reason, performedBy, performedById?, ipAddress?, userAgent? }
+   * @returns {Promise<Object>} The revoked certificate
+   * @throws {CertificateError} when it's already revoked or replaced, or no reason is given
+   */
+  async revoke(certificate, { reason, performedBy, performedById, ipAddress, userAgent }) {
+    if (certificate.status === 'revoked') {
+      throw new CertificateError('Certificate is already revoked');
+    }
+    if (certificate.status === 'superseded') {
+      throw new CertificateError(`Certificate was replaced by ${certificate.supersededBy}; revoke that one instead`);
+    }
+    const trimmedReason = String(reason || '').trim();
+    if (!trimmedReason) {
+      throw new CertificateError('A reason is required to revoke a certificate');
+    }
+
+    certificate.status = 'revoked';
+    certificate.revokedAt = new Date();
+    certificate.revokedBy = performedBy;
+    certificate.revocationReason = trimmedReason;
+    certificate.history.push({ action: 'revoked', by: performedBy, reason: trimmedReason, certificateId: certificate.certificateId });
+    await certificate.save();
+
+    await this.logCertificateAction(certificate, 'certificate_revoked', {
+      performedBy,
+      performedById,
+      ipAddress,
+      userAgent,
+      details: { reason: trimmedReason },
+      changes: [{ field: 'status', before: 'active', after: 'revoked' }]
+    });
+
+    console.log(`🚫 [Certificate] Revoked ${certificate.certificateId}: ${trimmedReason}`);
+    return certificate;
+  }
+
+  /**
+   * Build the replacement for a certificate with corrected details. The caller renders and stores
+   * its PDF, then calls completeReissue() to save both.
+   * A revoked certificate can be reissued unchanged, which restores it (e.g. after a repurchase).
+   * @param {Object} certificate - Certificate document being replaced
+   * @param {Object} params - { studentName?, courseTitle?, reason?, performedBy }
+   * @returns {{ replacement: Object, changes: Object[] }} Unsaved replacement and the corrected fields
+   * @throws {CertificateError} when the certificate was already replaced or nothing changes
+   */
+  buildReplacement(certificate, { studentName, courseTitle, reason, performedBy }) {
+    if (certificate.status === 'superseded') {
+      throw new CertificateError(`Certificate was already replaced by ${certificate.supersededBy}`);
+    }
+
+    const corrected = { studentName, courseTitle };
+    const changes = [];
+    for (const field of REISSUE_FIELDS) {
+      const value = typeof corrected[field] === 'string' ? corrected[field].trim() : '';
+      if (value && value !== certificate[field]) {
+        changes.push({ field, before: certificate[field], after: value });
+      }
+    }
+    if (changes.length === 0 && certificate.isActive()) {
+      throw new CertificateError('Change the student name or course title to reissue this certificate');
+    }
+
+    const replacement = new Certificate({
+      certificateId: Certificate.generateCertificateId(),
+      studentId: toIdString(certificate.studentId),
+      courseId: toIdString(certificate.courseId),
+      studentName: certificate.studentName,
+      courseTitle: certificate.courseTitle,
+      instructorName: certificate.instructorName,
+      completionDate: certificate.completionDate,
+      totalLessons: certificate.totalLessons,
+      completedLessons: certificate.completedLessons,
+      completionPercentage: certificate.completionPercentage,
+      platformName: certificate.platformName,
+      supersedes: certificate.certificateId
+    });
+    changes.forEach(({ field, after }) => { replacement[field] = after; });
+
+    // The replacement carries the full history, so one document tells the whole story
+    replacement.history = [
+      ...certificate.history.map(entry => entry.toObject()),
+      {
+        action: 'reissued',
+        by: performedBy,
+        reason: String(reason || '').trim() || undefined,
+        certificateId: replacement.certificateId,
+        relatedCertificateId: certificate.certificateId,
+        changes
+      }
+    ];
+
+    return { replacement, changes };
+  }
+
+  /**
+   * Save a replacement built by buildReplacement() and mark the original as superseded
+   * @param {Object} certificate - Original certificate
+   * @param {Object} replacement - Replacement with its PDF stored
+   * @param {Object} params - { changes, reason?, performedBy, performedById?, ipAddress?, userAgent? }
+   * @returns {Promise<Object>} The saved replacement
+   */
+  async completeReissue(certificate, replacement, { changes, reason, performedBy, performedById, ipAddress, userAgent }) {
+    await replacement.save();
+
+    const previousStatus = certificate.status || 'active';
+    certificate.status = 'superseded';
+    certificate.supersededBy = replacement.certificateId;
+    certificate.history.push({
+      action: 'superseded',
+      by: performedBy,
+      reason: String(reason || '').trim() || undefined,
+      certificateId: certificate.certificateId,
+      relatedCertificateId: replacement.certificateId
+    });
+    await certificate.save();
+
+    await this.logCertificateAction(certificate, 'certificate_reissued', {
+      performedBy,
+      performedById,
+      ipAddress,
+      userAgent,
+      details: { reason, replacementCertificateId: replacement.certificateId, previousStatus },
+      changes
+    });
+
+    console.log(`🔁 [Certificate] Reissued ${certificate.certificateId} as ${replacement.certificateId}`);
+    return replacement;
+  }
+
+  /**
+   * Revoke a student's active certificates for the given courses (refunds, revoked access)
+   * @param {string} studentId
+   * @param {string[]} courseIds
+   * @param {Object} params - { reason, performedBy, performedById?, ipAddress?, userAgent? }
+   * @returns {Promise<string[]>} certificateIds that were revoked
+   */
+  async revokeForCourses(studentId, courseIds, params) {
+    if (!studentId || courseIds.length === 0) return [];
+
+    const certificates = await Certificate.find({
+      studentId,
+      courseId: { $in: courseIds },
+      status: { $nin: ['revoked', 'superseded'] }
+    });
+
+    const revokedIds = [];
+    for (const certificate of certificates) {
+      await this.revoke(certificate, params);
+      revokedIds.push(certificate.certificateId);
+    }
+    return revokedIds;
+  }
+
+  async logCertificateAction(certificate, action, { performedBy, performedById, ipAddress, userAgent, details = {}, changes = [] }) {
+    try {
+      await AuditLog.logAction({
+        action,
+        entityType: 'certificate',
+        entityId: certificate._id,
+        entityTitle: `${certificate.certificateId} - ${certificate.studentName}`,
+        performedBy: performedBy || 'system',
+        performedById: performedById || null,
+        details: {
+          certificateId: certificate.certificateId,
+          studentId: toIdString(certificate.studentId),
+          courseId: toIdString(certificate.courseId),
+          courseTitle: certificate.courseTitle,
+          ...details
+        },
+        changes,
+        ipAddress,
+        userAgent
+      });
+    } catch (auditError) {
+      console.error('Failed to log audit action:', auditError);
+    }
+  }
+}
+
+// Export singleton instance
+module.exports = new CertificateService();
@@ -0,0 +1,263 @@
+const crypto = require('crypto');
+
+const ALGORITHM = 'EdDSA';
+const ISSUER = 'IBYET-INVESTING';
+
+const base64url = (input) => Buffer.from(input).toString('base64url');
+const toIdString = (ref) => (ref && ref._id ? ref._id : ref).toString();
+const toIsoDate = (date) => (date ? new Date(date).toISOString() : null);
+
+// Multicodec prefix for an Ed25519 public key, used by Multikey documents
+const ED25519_PUB_PREFIX = Buffer.from([0xed, 0x01]);
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+
+const base58btc = (bytes) => {
+  let value = BigInt(`0x${Buffer.from(bytes).toString('hex') || '0'}`);
+  let encoded = '';
+  while (value > 0n) {
+    encoded = BASE58_ALPHABET[Number(value % 58n)] + encoded;
+    value /= 58n;
+  }
+  for (const byte of bytes) {
+    if (byte !== 0) break;
+    encoded = `1${encoded}`;
+  }
+  return encoded;
+};
+
+const PUBLIC_KEY_PEM_PATTERN = /-----BEGIN PUBLIC KEY-----[\s\S]+?-----END PUBLIC KEY-----/g;
+
+const readPemEnv = (name) => (process.env[name] || '').replace(/\\n/g, '\n');
+
+// First 16 hex chars of the SHA-256 of the public key (SPKI DER)
+const computeKeyId = (publicKey) =>
+  crypto.createHash('sha256').update(publicKey.export({ type: 'spki', format: 'der' })).digest('hex').slice(0, 16);
+
+const assertEd25519 = (key, name) => {
+  if (key.asymmetricKeyType !== 'ed25519') {
+    throw new Error(`${name} must hold Ed25519 keys`);
+  }
+};
+
+/**
+ * Signs certificates with the server's Ed25519 key so anyone holding the public key
+ * can check a certificate offline. Credentials are compact JWS tokens
+ * (header.payload.signature), which is also what gets embedded in the PDF.
+ *
+ * CERTIFICATE_SIGNING_PRIVATE_KEY is the current signing key; without it nothing is signed.
+ * After a rotation, put the old public keys in CERTIFICATE_SIGNING_RETIRED_PUBLIC_KEYS
+ * (PEM blocks, one after another) so certificates they signed keep verifying.
+ */
+class CertificateSigningService {
+  constructor() {
+    this.loaded = false;
+    this.privateKey = null;
+    this.keyId = null;
+    this.publicKeys = new Map(); // kid -> public KeyObject, current key first
+  }
+
+  // Read the keys on first use so a missing key doesn't stop the rest of the server from booting
+  loadKeys() {
+    if (this.loaded) return;
+
+    const pem = readPemEnv('CERTIFICATE_SIGNING_PRIVATE_KEY');
+    if (pem) {
+      const privateKey = crypto.createPrivateKey(pem);
+      assertEd25519(privateKey, 'CERTIFICATE_SIGNING_PRIVATE_KEY');
+      const publicKey = crypto.createPublicKey(privateKey);
+      this.privateKey = privateKey;
+      this.keyId = computeKeyId(publicKey);
+      this.publicKeys.set(this.keyId, publicKey);
+    } else {
+      console.error('❌ [CertificateSigning] CERTIFICATE_SIGNING_PRIVATE_KEY is not set - certificates cannot be signed');
+    }
+
+    for (const retiredPem of readPemEnv('CERTIFICATE_SIGNING_RETIRED_PUBLIC_KEYS').match(PUBLIC_KEY_PEM_PATTERN) || []) {
+      const publicKey = crypto.createPublicKey(retiredPem);
+      assertEd25519(publicKey, 'CERTIFICATE_SIGNING_RETIRED_PUBLIC_KEYS');
+      const kid = computeKeyId(publicKey);
+      if (!this.publicKeys.has(kid)) {
+        this.publicKeys.set(kid, publicKey);
+      }
+    }
+
+    this.loaded = true;
+  }
+
+  /**
+   * Whether certificates can be signed (the private key is configured)
+   * @returns {boolean}
+   */
+  isConfigured() {
+    this.loadKeys();
+    return !!this.privateKey;
+  }
+
+  // The current key; refuses rather than signing with anything that wouldn't verify later
+  requireSigningKey() {
+    if (!this.isConfigured()) {
+      throw new Error('Certificate signing is not configured: set CERTIFICATE_SIGNING_PRIVATE_KEY');
+    }
+    return this.privateKey;
+  }
+
+  /**
+   * Public verification key for a key id, current or retired
+   * @param {string} kid
+   * @returns {KeyObject|null}
+   */
+  getPublicKey(kid) {
+    this.loadKeys();
+    return this.publicKeys.get(kid) || null;
+  }
+
+  /**
+   * Current and retired public keys as a JWK set, for the public key endpoint and offline verification
+   * @returns {{ keys: Object[] }}
+   */
+  getPublicJwks() {
+    this.loadKeys();
+    return {
+      keys: Array.from(this.publicKeys, ([kid, publicKey]) => ({
+        ...publicKey.export({ format: 'jwk' }),
+        kid,
+        alg: ALGORITHM,
+        use: 'sig'
+      }))
+    };
+  }
+
+  /**
+   * Current public key in PEM form
+   * @returns {string|null} null when no signing key is configured
+   */
+  getPublicKeyPem() {
+    if (!this.isConfigured()) return null;
+    return this.publicKeys.get(this.keyId).export({ type: 'spki', format: 'pem' });
+  }
+
+  /**
+   * Public key as a multibase Multikey value, for Data Integrity proofs (Open Badges)
+   * @param {string} [kid] - Current or retired key id; defaults to the current key
+   * @returns {string}
+   */
+  getPublicKeyMultibase(kid = this.getKeyId()) {
+    const raw = Buffer.from(this.getPublicKey(kid).export({ format: 'jwk' }).x, 'base64url');
+    return `z${base58btc(Buffer.concat([ED25519_PUB_PREFIX, raw]))}`;
+  }
+
+  /**
+   * Ids of every published key, current first
+   * @returns {string[]}
+   */
+  getKeyIds() {
+    this.loadKeys();
+    return Array.from(this.publicKeys.keys());
+  }
+
+  /**
+   * Current key id (first 16 hex chars of the public key's SHA-256)
+   * @returns {string}
+   */
+  getKeyId() {
+    this.requireSigningKey();
+    return this.keyId;
+  }
+
+  /**
+   * Sign raw bytes with the certificate key and return a multibase (base58btc) signature
+   * @param {Buffer} data
+   * @returns {string}
+   */
+  signMultibase(data) {
+    return `z${base58btc(crypto.sign(null, data, this.requireSigningKey()))}`;
+  }
+
+  /**
+   * Fields covered by the signature; changing any of them invalidates the certificate
+   * @param {Object} certificate - Certificate document (studentId/courseId may be populated)
+   * @returns {Object}
+   */
+  buildPayload(certificate) {
+    return {
+      iss: ISSUER,
+      certificateId: certificate.certificateId,
+      studentId: toIdString(certificate.studentId),
+      courseId: toIdString(certificate.courseId),
+      studentName: certificate.studentName,
+      courseTitle: certificate.courseTitle,
+      instructorName: certificate.instructorName,
+      completionDate: toIsoDate(certificate.completionDate),
+      dateIssued: toIsoDate(certificate.dateIssued)
+    };
+  }
+
+  /**
+   * Sign a certificate and store the credential on it (the caller saves the document)
+   * @param {Object} certificate - Certificate document
+   * @returns {string} Compact JWS credential
+   */
+  signCertificate(certificate) {
+    const privateKey = this.requireSigningKey();
+
+    const header = base64url(JSON.stringify({ alg: ALGORITHM, typ: 'JWT', kid: this.keyId }));
+    const payload = base64url(JSON.stringify({ ...this.buildPayload(certificate), iat: Math.floor(Date.now() / 1000) }));
+    const signature = crypto.sign(null, Buffer.from(`${header}.${payload}`), privateKey).toString('base64url');
+
+    certificate.signedCredential = `${header}.${payload}.${signature}`;
+    certificate.signingKeyId = this.keyId;
+    return certificate.signedCredential;
+  }
+
+  /**
+   * Whether a certificate still has to be signed: it has no credential, or one from a key
+   * this server no longer knows (e.g. lost before retired keys were configured)
+   * @param {Object} certificate - Certificate document
+   * @returns {boolean}
+   */
+  needsSigning(certificate) {
+    return !certificate.signedCredential || !this.getPublicKey(certificate.signingKeyId);
+  }
+
+  /**
+   * Check a credential's signature against the key named by its kid (current or retired)
+   * @param {string} credential - Compact JWS credential
+   * @returns {{ valid: boolean, payload: Object|null, keyId: string|null }}
+   */
+  verifyCredential(credential) {
+    const parts = String(credential || '').trim().split('.');
+    if (parts.length !== 3) {
+      return { valid: false, payload: null, keyId: null };
+    }
+
+    try {
+      const [header, payload, signature] = parts;
+      const { alg, kid } = JSON.parse(Buffer.from(header, 'base64url').toString('utf8'));
+      const decoded = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+      const publicKey = this.getPublicKey(kid);
+      const valid = alg === ALGORITHM && !!publicKey &&
+        crypto.verify(null, Buffer.from(`${header}.${payload}`), publicKey, Buffer.from(signature, 'base64url'));
+      return { valid, payload: decoded, keyId: kid || null };
+    } catch (error) {
+      return { valid: false, payload: null, keyId: null };
+    }
+  }
+
+  /**
+   * Verify a stored certificate: the signature must hold and still match the record
+   * @param {Object} certificate - Certificate document
+   * @returns {boolean}
+   */
+  verifyCertificate(certificate) {
+    if (!certificate.signedCredential) return false;
+
+    const { valid, payload } = this.verifyCredential(certificate.signedCredential);
+    if (!valid) return false;
+
+    const expected = this.buildPayload(certificate);
+    return Object.keys(expected).every(key => payload[key] === expected[key]);
+  }
+}
+
+// Export singleton instance
+module.exports = new CertificateSigningService();
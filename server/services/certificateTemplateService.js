@@ -0,0 +1,240 @@
+const { PDFDocument, rgb, degrees, StandardFonts } = require('pdf-lib');
+const fontkit = require('@pdf-lib/fontkit');
+const QRCode = require('qrcode');
+const Course = require('../models/Course');
+const { downloadFromS3 } = require('../utils/s3');
+const { GEEZ_CHAR, loadGeezFont, formatBilingual, formatDocumentDate, toFontRuns } = require('../utils/documentLanguage');
+
+const PAGE_SIZE = [841.89, 595.28]; // A4 landscape (297mm x 210mm)
+const PAGE_MARGIN = 60;
+
+const STANDARD_FACES = {
+  serif: StandardFonts.TimesRoman,
+  'serif-bold': StandardFonts.TimesRomanBold,
+  sans: StandardFonts.Helvetica,
+  'sans-bold': StandardFonts.HelveticaBold
+};
+
+const MAX_CACHED_ASSETS = 50;
+
+const toIdString = (ref) => (ref && ref._id ? ref._id : ref).toString();
+const toDisplayText = (text) => (text && typeof text === 'object' ? text.en || text.tg || '' : String(text || ''));
+
+const hexToRgb = (hex) => {
+  const value = parseInt(String(hex).replace('#', ''), 16) || 0;
+  return rgb(((value >> 16) & 255) / 255, ((value >> 8) & 255) / 255, (value & 255) / 255);
+};
+
+/**
+ * Renders certificates from admin-designed templates (see models/CertificateTemplate.js).
+ * Artwork and fonts live in S3 and are cached in memory; their keys are timestamped, so a cached copy never goes stale.
+ */
+class CertificateTemplateService {
+  constructor() {
+    this.assetCache = new Map();
+    this.warnedMissingGeezFont = false;
+  }
+
+  /**
+   * Template selected for a course, or null when the course uses the classic design
+   * @param {Object|string} courseRef - Course id or populated course
+   * @returns {Promise<Object|null>}
+   */
+  async getCourseTemplate(courseRef) {
+    if (!courseRef) return null;
+    const course = await Course.findById(toIdString(courseRef))
+      .select('certificateTemplate')
+      .populate('certificateTemplate');
+    return course?.certificateTemplate || null;
+  }
+
+  async loadAsset(asset) {
+    if (!asset?.s3Key) return null;
+    if (this.assetCache.has(asset.s3Key)) {
+      return this.assetCache.get(asset.s3Key);
+    }
+
+    const buffer = await downloadFromS3(asset.s3Key);
+    if (this.assetCache.size >= MAX_CACHED_ASSETS) {
+      this.assetCache.delete(this.assetCache.keys().next().value);
+    }
+    this.assetCache.set(asset.s3Key, buffer);
+    return buffer;
+  }
+
+  async embedImage(pdfDoc, asset) {
+    const bytes = await this.loadAsset(asset);
+    if (!bytes) return null;
+    // PNG files start with 0x89 'P' 'N' 'G'; everything else is treated as JPEG
+    return bytes[0] === 0x89 && bytes[1] === 0x50
+      ? pdfDoc.embedPng(bytes)
+      : pdfDoc.embedJpg(bytes);
+  }
+
+  // The template's Ge'ez font, falling back to the server-wide one (bundled, or GEEZ_FONT_PATH; also used by the classic design)
+  async embedGeezFont(pdfDoc, template = null) {
+    const bytes = (template?.fonts?.geez && await this.loadAsset(template.fonts.geez)) || loadGeezFont();
+    if (!bytes) return null;
+
+    pdfDoc.registerFontkit(fontkit);
+    return pdfDoc.embedFont(bytes, { subset: true });
+  }
+
+  /**
+   * Draw a certificate with a template
+   * @param {Object} template - CertificateTemplate document (or the same shape, for previews)
+   * @param {Object} certificate - Certificate document or sample data
+   * @param {Object} options - { verifyUrl, preview?, language? }. The caller localizes the course title;
+   *   the template's own wording is drawn as the admin wrote it.
+   * @returns {Promise<PDFDocument>} Unsaved document; the caller adds metadata and saves it
+   */
+  async renderCertificate(template, certificate, { verifyUrl, preview = false, language = 'en' }) {
+    const pdfDoc = await PDFDocument.create();
+    const page = pdfDoc.addPage(PAGE_SIZE);
+    const { width, height } = page.getSize();
+
+    const fonts = {
+      heading: await pdfDoc.embedFont(STANDARD_FACES[template.fonts?.heading] || StandardFonts.TimesRomanBold),
+      body: await pdfDoc.embedFont(STANDARD_FACES[template.fonts?.body] || StandardFonts.TimesRoman),
+      geez: await this.embedGeezFont(pdfDoc, template)
+    };
+    const colors = {
+      primary: hexToRgb(template.colors.primary),
+      accent: hexToRgb(template.colors.accent),
+      text: hexToRgb(template.colors.text),
+      muted: hexToRgb(template.colors.muted)
+    };
+
+    // Percent positions (y from the top) to PDF points (y from the bottom)
+    const toX = (percent) => (width * percent) / 100;
+    const toY = (percent) => height - (height * percent) / 100;
+
+    // Background colour, then artwork, then the optional border
+    page.drawRectangle({ x: 0, y: 0, width, height, color: hexToRgb(template.colors.background) });
+
+    const background = await this.embedImage(pdfDoc, template.background);
+    if (background) {
+      page.drawImage(background, { x: 0, y: 0, width, height });
+    }
+
+    if (template.showBorder) {
+      page.drawRectangle({
+        x: 40, y: 40, width: width - 80, height: height - 80,
+        borderColor: colors.accent, borderWidth: 4
+      });
+      page.drawRectangle({
+        x: 50, y: 50, width: width - 100, height: height - 100,
+        borderColor: colors.primary, borderWidth: 2
+      });
+    }
+
+    if (preview) {
+      page.drawText('PREVIEW', {
+        x: width / 2 - 220,
+        y: height / 2 - 120,
+        size: 110,
+        font: fonts.heading,
+        color: rgb(0.85, 0.85, 0.85),
+        opacity: 0.5,
+        rotate: degrees(25)
+      });
+    }
+
+    const drawImageAt = (image, placement) => {
+      if (!image || placement?.visible === false) return;
+      const imageHeight = (image.height / image.width) * placement.width;
+      page.drawImage(image, {
+        x: toX(placement.x) - placement.width / 2,
+        y: toY(placement.y) - imageHeight / 2,
+        width: placement.width,
+        height: imageHeight
+      });
+    };
+
+    // Ge'ez runs use the Ge'ez font; without one they are dropped, as on the classic design
+    const toRuns = (text, font) => toFontRuns(text, font, fonts.geez);
+
+    const runsWidth = (runs, size) => runs.reduce((sum, run) => sum + run.font.widthOfTextAtSize(run.text, size), 0);
+
+    const drawField = (value, placement) => {
+      if (!value || !placement || placement.visible === false) return;
+
+      const font = fonts[placement.font] || fonts.body;
+      if (!fonts.geez && GEEZ_CHAR.test(value) && !this.warnedMissingGeezFont) {
+        console.warn('⚠️ [CertificateTemplate] Ge\'ez text found but no Ge\'ez font is set - upload one to the template or check GEEZ_FONT_PATH');
+        this.warnedMissingGeezFont = true;
+      }
+
+      // Shorten the text until it fits between the page margins
+      const maxWidth = width - PAGE_MARGIN * 2;
+      let text = value.trim();
+      let runs = toRuns(text, font);
+      while (runs.length > 0 && runsWidth(runs, placement.size) > maxWidth && text.length > 1) {
+        text = text.slice(0, -1);
+        runs = toRuns(`${text.trim()}...`, font);
+      }
+
+      const textWidth = runsWidth(runs, placement.size);
+      let x = toX(placement.x);
+      if (placement.align === 'center') x -= textWidth / 2;
+      if (placement.align === 'right') x -= textWidth;
+      x = Math.min(Math.max(x, PAGE_MARGIN), width - PAGE_MARGIN - textWidth);
+
+      const y = toY(placement.y);
+      const color = colors[placement.color] || colors.text;
+      for (const run of runs) {
+        page.drawText(run.text, { x, y, size: placement.size, font: run.font, color });
+        x += run.font.widthOfTextAtSize(run.text, placement.size);
+      }
+    };
+
+    drawImageAt(await this.embedImage(pdfDoc, template.logo), template.logoPlacement);
+
+    const completionDate = formatBilingual({
+      en: formatDocumentDate(certificate.completionDate, 'en'),
+      tg: formatDocumentDate(certificate.completionDate, 'tg')
+    }, language);
+    const { texts, fields } = template;
+    drawField(texts.heading, fields.heading);
+    drawField(texts.title, fields.title);
+    drawField(texts.intro, fields.intro);
+    drawField(toDisplayText(certificate.studentName), fields.studentName);
+    drawField(texts.completionText, fields.completionText);
+    drawField(toDisplayText(certificate.courseTitle), fields.courseTitle);
+    drawField(`${texts.datePrefix || ''} ${completionDate}`, fields.completionDate);
+    if (certificate.instructorName) {
+      drawField(`${texts.instructorPrefix || ''} ${toDisplayText(certificate.instructorName)}`, fields.instructorName);
+    }
+    drawField(`ID: ${certificate.certificateId}`, fields.certificateId);
+    drawField(verifyUrl, fields.verifyUrl);
+
+    // Signatures: image above a line, then the signer's name and title
+    for (const signature of template.signatures || []) {
+      const placement = signature.placement;
+      if (placement?.visible === false) continue;
+
+      drawImageAt(await this.embedImage(pdfDoc, signature.image), placement);
+      const lineY = toY(placement.y) - 28;
+      const centerX = toX(placement.x);
+      page.drawLine({
+        start: { x: centerX - placement.width / 2, y: lineY },
+        end: { x: centerX + placement.width / 2, y: lineY },
+        thickness: 1,
+        color: colors.muted
+      });
+      const nameY = placement.y + (28 + 12) / height * 100;
+      drawField(signature.name, { x: placement.x, y: nameY, size: 10, align: 'center', font: 'heading', color: 'text' });
+      drawField(signature.title, { x: placement.x, y: nameY + 12 / height * 100, size: 8, align: 'center', font: 'body', color: 'muted' });
+    }
+
+    if (template.qrCode?.visible !== false) {
+      const qrImage = await pdfDoc.embedPng(await QRCode.toBuffer(verifyUrl, { type: 'png', margin: 1, width: 288 }));
+      drawImageAt(qrImage, template.qrCode);
+    }
+
+    return pdfDoc;
+  }
+}
+
+// Export singleton instance
+module.exports = new CertificateTemplateService();
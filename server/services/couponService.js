@@ -0,0 +1,136 @@
+const Coupon = require('../models/Coupon');
+const Payment = require('../models/Payment');
+const { CURRENCIES, DEFAULT_CURRENCY, convertBaseAmount } = require('../utils/currency');
+
+/**
+ * Raised when a code can't be used for this purchase; the message is shown to the student
+ */
+class CouponError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'CouponError';
+  }
+}
+
+class CouponService {
+  /**
+   * Validate a code for a purchase and price it
+   * @param {Object} params - { code, userId, itemType: 'course'|'bundle', item, price? }
+   *   price is the { amount, currency } being charged (defaults to the USD base price)
+   * @returns {Promise<Object>} { coupon, originalAmount, discountAmount, finalAmount, currency }
+   * @throws {CouponError} when the code is unknown, expired, used up or doesn't cover the item
+   */
+  async applyCoupon({ code, userId, itemType, item, price = null }) {
+    const coupon = await Coupon.findByCode(code);
+    if (!coupon || !coupon.isActive) {
+      throw new CouponError('This promo code is not valid');
+    }
+
+    const now = new Date();
+    if (coupon.startsAt && coupon.startsAt > now) {
+      throw new CouponError('This promo code is not active yet');
+    }
+    if (coupon.expiresAt && coupon.expiresAt < now) {
+      throw new CouponError('This promo code has expired');
+    }
+    if (coupon.maxRedemptions > 0 && coupon.redemptionCount >= coupon.maxRedemptions) {
+      throw new CouponError('This promo code has reached its redemption limit');
+    }
+    if (!coupon.appliesTo(itemType, item._id)) {
+      throw new CouponError(`This promo code can't be used for this ${itemType}`);
+    }
+
+    if (coupon.perUserLimit > 0) {
+      const userRedemptions = await Payment.countDocuments({
+        userId,
+        'coupon.couponId': coupon._id,
+        status: { $in: ['completed', 'partially_refunded'] }
+      });
+      if (userRedemptions >= coupon.perUserLimit) {
+        throw new CouponError('You have already used this promo code');
+      }
+    }
+
+    const charged = price || { amount: item.price, currency: DEFAULT_CURRENCY };
+    const { amount: originalAmount, currency } = charged;
+    // Fixed discounts are set in USD; other currencies get the same share of the item's local price
+    const fixedDiscount = coupon.discountType === 'fixed'
+      ? convertBaseAmount(coupon.discountValue, item, charged)
+      : undefined;
+
+    let discountAmount = coupon.calculateDiscount(originalAmount, fixedDiscount);
+    let finalAmount = Math.round((originalAmount - discountAmount) * 100) / 100;
+
+    // A free purchase skips Stripe; anything in between is raised to Stripe's minimum charge
+    const minCharge = CURRENCIES[currency].minCharge;
+    if (finalAmount > 0 && finalAmount < minCharge) {
+      finalAmount = Math.min(originalAmount, minCharge);
+      discountAmount = Math.round((originalAmount - finalAmount) * 100) / 100;
+    }
+
+    return { coupon, originalAmount, discountAmount, finalAmount, currency };
+  }
+
+  /**
+   * Snapshot stored on the Payment document
+   */
+  buildPaymentCoupon(pricing) {
+    return {
+      couponId: pricing.coupon._id,
+      code: pricing.coupon.code,
+      discountType: pricing.coupon.discountType,
+      discountValue: pricing.coupon.discountValue,
+      originalAmount: pricing.originalAmount,
+      discountAmount: pricing.discountAmount
+    };
+  }
+
+  /**
+   * Reserve a redemption before checkout: the limits are checked and the counters
+   * incremented in one update, so concurrent checkouts can't exceed them
+   * @param {Object} coupon - Coupon returned by applyCoupon
+   * @param {string} userId
+   * @throws {CouponError} when the code is used up or the student has reached their limit
+   */
+  async reserveRedemption(coupon, userId) {
+    const userKey = `userRedemptions.${userId}`;
+    const filter = { _id: coupon._id, isActive: true };
+    if (coupon.maxRedemptions > 0) {
+      filter.redemptionCount = { $lt: coupon.maxRedemptions };
+    }
+    if (coupon.perUserLimit > 0) {
+      filter[userKey] = { $not: { $gte: coupon.perUserLimit } };
+    }
+
+    const reserved = await Coupon.findOneAndUpdate(
+      filter,
+      { $inc: { redemptionCount: 1, [userKey]: 1 } },
+      { new: true }
+    );
+    if (!reserved) {
+      const current = await Coupon.findById(coupon._id).select('redemptionCount maxRedemptions isActive');
+      if (!current || !current.isActive) {
+        throw new CouponError('This promo code is not valid');
+      }
+      if (current.maxRedemptions > 0 && current.redemptionCount >= current.maxRedemptions) {
+        throw new CouponError('This promo code has reached its redemption limit');
+      }
+      throw new CouponError('You have already used this promo code');
+    }
+    return reserved;
+  }
+
+  /**
+   * Give back a reservation when checkout fails or the Stripe session expires unpaid
+   */
+  async releaseRedemption(couponId, userId) {
+    const userKey = `userRedemptions.${userId}`;
+    await Coupon.findOneAndUpdate(
+      { _id: couponId, redemptionCount: { $gt: 0 }, [userKey]: { $gt: 0 } },
+      { $inc: { redemptionCount: -1, [userKey]: -1 } }
+    );
+  }
+}
+
+// Export singleton instance
+module.exports = new CouponService();
@@ -758,6 +758,130 @@ The Ibyet Investing Team`;
     }
   }
 
+  /**
+   * Send a gift notification with the redemption code to the recipient
+   * @param {Object} gift - { recipientEmail, recipientName, senderName, itemTitle, message, code }
+   */
+  async sendGiftEmail({ recipientEmail, recipientName, senderName, itemTitle, message, code }) {
+    try {
+      if (!this.isConfigured) {
+        console.log('⚠️  Email service not configured - skipping gift email');
+        return false;
+      }
+
+      const fromEmail = process.env.FROM_EMAIL || process.env.SMTP_USER || 'noreply@ibyet-investing.com';
+      const fromName = process.env.FROM_NAME || 'Ibyet Investing';
+      const formattedFrom = fromEmail.includes('<') ? fromEmail : `"${fromName}" <${fromEmail}>`;
+      const redeemUrl = `${process.env.FRONTEND_URL || 'http://localhost:5173'}/redeem?code=${encodeURIComponent(code)}`;
+
+      // The sender's name and message are user input
+      const escapeHtml = (text) => {
+        if (!text) return '';
+        return String(text)
+          .replace(/&/g, '&amp;')
+          .replace(/</g, '&lt;')
+          .replace(/>/g, '&gt;')
+          .replace(/"/g, '&quot;')
+          .replace(/'/g, '&#039;');
+      };
+
+      const greeting = recipientName ? `Hi ${escapeHtml(recipientName)},` : 'Hi,';
+      const safeSender = escapeHtml(senderName);
+      const safeTitle = escapeHtml(itemTitle);
+      const safeMessage = escapeHtml(message).replace(/\n/g, '<br>');
+
+      const htmlContent = `
+        <!DOCTYPE html>
+        <html>
+        <head>
+          <meta name="viewport" content="width=device-width, initial-scale=1.0">
+          <meta http-equiv="Content-Type" content="text/html; charset=UTF-8">
+          <title>You've received a gift - Ibyet Investing</title>
+        </head>
+        <body style="margin: 0; padding: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', 'Roboto', 'Oxygen', 'Ubuntu', 'Cantarell', 'Fira Sans', 'Droid Sans', 'Helvetica Neue', sans-serif; background: #f8fafc;">
+          <div style="max-width: 600px; margin: 0 auto; background: white;">
+            <div style="background: linear-gradient(135deg, #06b6d4 0%, #0ea5e9 50%, #0284c7 100%); color: white; padding: 30px 20px; text-align: center;">
+              <h1 style="margin: 0; font-size: 28px; font-weight: 700; line-height: 1.2;">Ibyet Investing</h1>
+              <p style="margin: 8px 0 0 0; font-size: 14px; opacity: 0.9;">You've Received a Gift</p>
+            </div>
+            
+            <div style="padding: 30px 20px; background: white; color: #1f2937;">
+              <h2 style="color: #1f2937; margin-bottom: 15px; font-size: 22px; font-weight: 600;">🎁 ${safeTitle}</h2>
+              
+              <p style="color: #6b7280; line-height: 1.6; margin-bottom: 25px; font-size: 15px;">
+                ${greeting} ${safeSender} has given you <strong>${safeTitle}</strong> on Ibyet Investing.
+              </p>
+              ${safeMessage ? `
+              <div style="background: #f8fafc; padding: 20px; border-radius: 8px; border-left: 4px solid #06b6d4; margin: 25px 0;">
+                <p style="color: #475569; line-height: 1.6; margin: 0; font-size: 14px; font-style: italic;">${safeMessage}</p>
+                <p style="color: #64748b; margin: 10px 0 0 0; font-size: 13px;">— ${safeSender}</p>
+              </div>` : ''}
+              
+              <div style="text-align: center; margin: 30px 0;">
+                <p style="color: #6b7280; margin: 0 0 8px 0; font-size: 13px;">Your gift code</p>
+                <p style="color: #0f172a; margin: 0 0 25px 0; font-size: 22px; font-weight: 700; letter-spacing: 2px; font-family: monospace;">${code}</p>
+                <a href="${redeemUrl}" 
+                   style="background: linear-gradient(135deg, #06b6d4 0%, #0ea5e9 50%, #0284c7 100%); 
+                          color: white; padding: 14px 28px; 
+                          text-decoration: none; border-radius: 8px; display: inline-block; 
+                          font-weight: 600; font-size: 15px;">
+                  Redeem Your Gift
+                </a>
+              </div>
+              
+              <p style="color: #94a3b8; line-height: 1.5; margin: 0; font-size: 12px; text-align: center;">
+                Sign in or create a free account, then enter the code to start learning. The code can be used once.
+              </p>
+            </div>
+            
+            <div style="background: #f8fafc; padding: 25px 20px; text-align: center; color: #64748b; font-size: 12px; border-top: 1px solid #e2e8f0;">
+              <p style="margin: 0; font-size: 11px; color: #94a3b8;">
+                © ${new Date().getFullYear()} Ibyet Investing. All rights reserved.
+              </p>
+            </div>
+          </div>
+        </body>
+        </html>
+      `;
+
+      const textContent = `You've received a gift - Ibyet Investing
+
+${recipientName ? `Hi ${recipientName},` : 'Hi,'}
+
+${senderName} has given you "${itemTitle}" on Ibyet Investing.
+${message ? `\n"${message}"\n— ${senderName}\n` : ''}
+Your gift code: ${code}
+
+Redeem it here: ${redeemUrl}
+
+Sign in or create a free account, then enter the code to start learning. The code can be used once.
+
+Best regards,
+The Ibyet Investing Team`;
+
+      const emailOptions = {
+        from: formattedFrom,
+        to: recipientEmail,
+        subject: `${senderName} sent you a gift on Ibyet Investing`,
+        html: htmlContent,
+        text: textContent,
+        replyTo: process.env.REPLY_TO_EMAIL || fromEmail
+      };
+
+      const success = await this.sendEmail(emailOptions);
+      
+      if (success) {
+        console.log(`✅ Gift email sent to: ${recipientEmail} (${this.useSendGrid ? 'SendGrid' : 'SMTP'})`);
+      }
+      
+      return success;
+
+    } catch (error) {
+      console.error('❌ Error sending gift email:', error);
+      return false;
+    }
+  }
+
   /**
    * Send a test email (for development/testing)
    */
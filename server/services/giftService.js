@@ -0,0 +1,222 @@
+const Gift = require('../models/Gift');
+const User = require('../models/User');
+const emailService = require('./emailService');
+const { grantItemAccess } = require('../utils/purchaseUtils');
+const { getEnglishText } = require('../utils/bilingualHelper');
+
+/**
+ * Raised when a gift can't be bought or redeemed; the message is shown to the student
+ */
+class GiftError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'GiftError';
+  }
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+class GiftService {
+  /**
+   * Validate the recipient details sent with a gift checkout
+   * @param {Object} input - { recipientEmail, recipientName, message }
+   * @returns {Object} Cleaned recipient details
+   * @throws {GiftError} when the email is missing or invalid
+   */
+  normalizeRecipient(input = {}) {
+    const recipientEmail = String(input.recipientEmail || '').trim().toLowerCase();
+    if (!EMAIL_PATTERN.test(recipientEmail)) {
+      throw new GiftError('Please enter a valid email address for the gift recipient');
+    }
+
+    const message = String(input.message || '').trim();
+    if (message.length > 500) {
+      throw new GiftError('Gift message must be 500 characters or less');
+    }
+
+    return {
+      recipientEmail,
+      recipientName: String(input.recipientName || '').trim().slice(0, 100),
+      message
+    };
+  }
+
+  /**
+   * Create an unpaid gift with a fresh code
+   * @param {Object} params - { purchaserId, itemType, item, recipient }
+   * @returns {Promise<Object>} Gift document (status 'pending')
+   */
+  async createGift({ purchaserId, itemType, item, recipient }) {
+    // Codes are random; retry on the (very unlikely) collision with an existing code
+    for (let attempt = 0; attempt < 5; attempt++) {
+      const code = Gift.generateCode();
+      if (await Gift.exists({ code })) continue;
+
+      const gift = await Gift.create({
+        code,
+        purchaserId,
+        [itemType === 'bundle' ? 'bundleId' : 'courseId']: item._id,
+        ...recipient
+      });
+      console.log(`🎁 [Gift] Created gift ${gift._id} (${itemType} ${item._id}) for ${recipient.recipientEmail}`);
+      return gift;
+    }
+    throw new Error('Could not generate a unique gift code');
+  }
+
+  /**
+   * Mark a paid gift as redeemable and email the code to the recipient.
+   * Safe to call again for the same gift (Stripe webhook retries).
+   * @param {string} giftId
+   * @param {Object} payment - The buyer's Payment document
+   * @returns {Promise<Object|null>} Gift document
+   */
+  async fulfillGift(giftId, payment) {
+    const gift = await Gift.findById(giftId)
+      .populate('purchaserId', 'name email')
+      .populate('courseId', 'title')
+      .populate('bundleId', 'title');
+    if (!gift) {
+      console.log(`⚠️  [Gift] Gift ${giftId} not found`);
+      return null;
+    }
+
+    if (gift.status === 'pending') {
+      gift.status = 'available';
+      gift.paymentId = payment._id;
+    }
+
+    if (!gift.emailSentAt && gift.status === 'available') {
+      const sent = await emailService.sendGiftEmail({
+        recipientEmail: gift.recipientEmail,
+        recipientName: gift.recipientName,
+        senderName: gift.purchaserId?.name || 'A friend',
+        itemTitle: getEnglishText(gift.bundleId?.title || gift.courseId?.title),
+        message: gift.message,
+        code: gift.code
+      });
+      if (sent) {
+        gift.emailSentAt = new Date();
+      }
+    }
+
+    await gift.save();
+    console.log(`✅ [Gift] Gift ${gift._id} is ${gift.status}${gift.emailSentAt ? ' (email sent)' : ''}`);
+    return gift;
+  }
+
+  /**
+   * Redeem a gift code for the signed-in user
+   * @param {string} code
+   * @param {string} userId
+   * @returns {Promise<Object>} Redeemed gift document with the course/bundle populated
+   * @throws {GiftError} when the code is unknown, not redeemable, or the user already owns the item
+   */
+  async redeemGift(code, userId) {
+    const gift = await Gift.findByCode(code);
+    if (!gift || gift.status === 'pending') {
+      throw new GiftError('Invalid gift code');
+    }
+    if (gift.status === 'redeemed') {
+      throw new GiftError('This gift code has already been redeemed');
+    }
+    if (gift.status === 'revoked') {
+      throw new GiftError('This gift code is no longer valid');
+    }
+
+    const user = await User.findById(userId).select('purchasedCourses purchasedBundles');
+    if (!user) {
+      throw new GiftError('User not found');
+    }
+
+    // Keep the code unused so it can still be passed on to someone else
+    const alreadyOwned = gift.bundleId
+      ? (user.purchasedBundles || []).some(id => id.toString() === gift.bundleId.toString())
+      : (user.purchasedCourses || []).some(id => id.toString() === gift.courseId.toString());
+    if (alreadyOwned) {
+      throw new GiftError(`You already own this ${gift.bundleId ? 'bundle' : 'course'}`);
+    }
+
+    // Claim the code atomically so two people can't redeem it at the same time
+    const claimed = await Gift.findOneAndUpdate(
+      { _id: gift._id, status: 'available' },
+      { $set: { status: 'redeemed', redeemedBy: userId, redeemedAt: new Date() } },
+      { new: true }
+    );
+    if (!claimed) {
+      throw new GiftError('This gift code has already been redeemed');
+    }
+
+    try {
+      const { course } = await grantItemAccess(userId, gift.bundleId ? { bundleId: gift.bundleId } : { courseId: gift.courseId });
+      if (course) {
+        claimed.courseVersion = course.currentVersion || course.version || 1;
+        await claimed.save();
+      }
+    } catch (error) {
+      await Gift.updateOne(
+        { _id: gift._id },
+        { $set: { status: 'available', redeemedBy: null, redeemedAt: null } }
+      );
+      throw error;
+    }
+
+    console.log(`✅ [Gift] Gift ${gift._id} redeemed by user ${userId}`);
+    return claimed.populate([
+      { path: 'courseId', select: 'title thumbnailURL' },
+      { path: 'bundleId', select: 'title thumbnailURL' }
+    ]);
+  }
+
+  /**
+   * Gifts bought by a user, newest first
+   * @param {string} userId
+   * @returns {Promise<Array>}
+   */
+  async getGiftsForPurchaser(userId) {
+    return Gift.find({ purchaserId: userId, status: { $ne: 'pending' } })
+      .populate('courseId', 'title')
+      .populate('bundleId', 'title')
+      .populate('redeemedBy', 'name')
+      .populate('paymentId', 'amount currency')
+      .sort({ createdAt: -1 });
+  }
+
+  /**
+   * The buyer's gift payment was fully refunded or disputed: invalidate the code
+   * @param {Object} payment - Payment document with giftId
+   * @returns {Promise<string|null>} Id of the user who redeemed the gift (whose access must be removed), if any
+   */
+  async revokeForPayment(payment) {
+    const gift = await Gift.findById(payment.giftId);
+    if (!gift) return null;
+
+    const recipientId = gift.status === 'redeemed' ? gift.redeemedBy : null;
+    gift.status = 'revoked';
+    gift.revokedAt = new Date();
+    await gift.save();
+
+    console.log(`🔒 [Gift] Gift ${gift._id} revoked${recipientId ? ` (redeemed by ${recipientId})` : ''}`);
+    return recipientId;
+  }
+
+  /**
+   * Undo revokeForPayment (dispute won)
+   * @param {Object} payment - Payment document with giftId
+   * @returns {Promise<string|null>} Id of the user who had redeemed the gift, if any
+   */
+  async restoreForPayment(payment) {
+    const gift = await Gift.findById(payment.giftId);
+    if (!gift || gift.status !== 'revoked') return null;
+
+    gift.status = gift.redeemedBy ? 'redeemed' : 'available';
+    gift.revokedAt = null;
+    await gift.save();
+
+    console.log(`🔓 [Gift] Gift ${gift._id} restored (${gift.status})`);
+    return gift.redeemedBy;
+  }
+}
+
+// Export singleton instance
+module.exports = new GiftService();
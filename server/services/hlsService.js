@@ -0,0 +1,342 @@
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const jwt = require('jsonwebtoken');
+const ffmpeg = require('fluent-ffmpeg');
+const ffmpegInstaller = require('@ffmpeg-installer/ffmpeg');
+const ffprobeInstaller = require('@ffprobe-installer/ffprobe');
+const { PutObjectCommand, GetObjectCommand } = require('@aws-sdk/client-s3');
+const { s3Client } = require('../utils/s3Enhanced');
+const { getSignedUrlForFile } = require('../utils/s3CourseManager');
+const Video = require('../models/Video');
+
+ffmpeg.setFfmpegPath(ffmpegInstaller.path);
+ffmpeg.setFfprobePath(ffprobeInstaller.path);
+
+/**
+ * Bitrate ladder used for adaptive streaming.
+ * Renditions taller than the source are skipped so we never upscale.
+ */
+const RENDITION_LADDER = [
+  { name: '240p', height: 240, videoBitrate: 400, audioBitrate: 64 },
+  { name: '360p', height: 360, videoBitrate: 800, audioBitrate: 96 },
+  { name: '480p', height: 480, videoBitrate: 1400, audioBitrate: 128 },
+  { name: '720p', height: 720, videoBitrate: 2800, audioBitrate: 128 },
+  { name: '1080p', height: 1080, videoBitrate: 5000, audioBitrate: 192 }
+];
+
+const SEGMENT_DURATION = 6; // seconds
+// Players renew expired tokens through GET /api/videos/:videoId/hls/playback
+const PLAYBACK_TOKEN_EXPIRY = '2h';
+const SEGMENT_URL_EXPIRY = 2 * 60 * 60; // 2 hours, matches playback token
+
+class HLSService {
+  /**
+   * Whether HLS packaging is enabled for new uploads
+   */
+  isEnabled() {
+    return process.env.ENABLE_HLS_PACKAGING !== 'false';
+  }
+
+  /**
+   * Get the S3 prefix that holds the HLS output for a video.
+   * Stored next to the source file so it follows the course/version folder layout.
+   */
+  getHlsBasePath(video) {
+    const sourceDir = path.posix.dirname(video.s3Key);
+    return `${sourceDir}/hls/${video._id}`;
+  }
+
+  /**
+   * Pick the renditions to produce for a source of the given height
+   */
+  selectRenditions(sourceHeight) {
+    if (!sourceHeight) {
+      return RENDITION_LADDER.filter(r => r.height <= 720);
+    }
+    const renditions = RENDITION_LADDER.filter(r => r.height <= sourceHeight);
+    // Always produce at least the lowest rendition, even for tiny sources
+    return renditions.length > 0 ? renditions : [RENDITION_LADDER[0]];
+  }
+
+  /**
+   * Probe a media source (local path or URL) with ffprobe
+   */
+  probe(input) {
+    return new Promise((resolve, reject) => {
+      ffmpeg.ffprobe(input, (err, metadata) => {
+        if (err) {
+          return reject(new Error(`Failed to probe video: ${err.message}`));
+        }
+        resolve(metadata);
+      });
+    });
+  }
+
+  /**
+   * Transcode the source into a single HLS rendition
+   */
+  transcodeRendition(input, outputDir, rendition) {
+    const renditionDir = path.join(outputDir, rendition.name);
+    fs.mkdirSync(renditionDir, { recursive: true });
+
+    return new Promise((resolve, reject) => {
+      ffmpeg(input)
+        .outputOptions([
+          '-c:v libx264',
+          '-preset veryfast',
+          '-profile:v main',
+          `-vf scale=-2:${rendition.height}`,
+          `-b:v ${rendition.videoBitrate}k`,
+          `-maxrate ${Math.round(rendition.videoBitrate * 1.07)}k`,
+          `-bufsize ${rendition.videoBitrate * 2}k`,
+          // Keyframe every segment so renditions can switch cleanly
+          '-sc_threshold 0',
+          `-force_key_frames expr:gte(t,n_forced*${SEGMENT_DURATION})`,
+          '-c:a aac',
+          `-b:a ${rendition.audioBitrate}k`,
+          '-ac 2',
+          '-f hls',
+          `-hls_time ${SEGMENT_DURATION}`,
+          '-hls_playlist_type vod',
+          `-hls_segment_filename ${path.join(renditionDir, 'segment_%04d.ts')}`
+        ])
+        .output(path.join(renditionDir, 'playlist.m3u8'))
+        .on('end', () => resolve(renditionDir))
+        .on('error', (err) => reject(new Error(`Failed to transcode ${rendition.name}: ${err.message}`)))
+        .run();
+    });
+  }
+
+  /**
+   * Build the master playlist text for the produced renditions
+   * @param {Array} renditions - Rendition descriptors with bandwidth/resolution
+   * @param {Function} uriFor - Maps a rendition to its playlist URI
+   */
+  buildMasterPlaylist(renditions, uriFor) {
+    const lines = ['#EXTM3U', '#EXT-X-VERSION:3'];
+    renditions.forEach((rendition) => {
+      const resolution = rendition.width && rendition.height ? `,RESOLUTION=${rendition.width}x${rendition.height}` : '';
+      lines.push(`#EXT-X-STREAM-INF:BANDWIDTH=${rendition.bandwidth}${resolution},NAME="${rendition.name}"`);
+      lines.push(uriFor(rendition));
+    });
+    return lines.join('\n') + '\n';
+  }
+
+  /**
+   * Upload every file in a local directory tree under an S3 prefix
+   */
+  async uploadDirectory(localDir, s3Prefix) {
+    const entries = fs.readdirSync(localDir, { withFileTypes: true });
+
+    for (const entry of entries) {
+      const localPath = path.join(localDir, entry.name);
+      const key = `${s3Prefix}/${entry.name}`;
+
+      if (entry.isDirectory()) {
+        await this.uploadDirectory(localPath, key);
+        continue;
+      }
+
+      const contentType = entry.name.endsWith('.m3u8')
+        ? 'application/vnd.apple.mpegurl'
+        : 'video/mp2t';
+
+      await s3Client.send(new PutObjectCommand({
+        Bucket: process.env.AWS_S3_BUCKET,
+        Key: key,
+        Body: fs.readFileSync(localPath),
+        ContentType: contentType
+      }));
+    }
+  }
+
+  /**
+   * Package a video into multi-bitrate HLS renditions and upload them to S3
+   * @param {string} videoId - Video ID
+   * @param {Object} options - { sourcePath } to reuse a local copy of the upload,
+   *   { shouldCancel } async callback checked between renditions
+   * @returns {Promise<Object>} The saved hls descriptor
+   */
+  async packageVideo(videoId, options = {}) {
+    if (!s3Client) {
+      throw new Error('S3 client not configured');
+    }
+
+    const video = await Video.findById(videoId);
+    if (!video) {
+      throw new Error('Video not found');
+    }
+
+    const workDir = fs.mkdtempSync(path.join(os.tmpdir(), `hls_${video._id}_`));
+
+    try {
+      console.log(`🎬 [HLSService] Packaging video ${video._id} into HLS renditions`);
+      video.set('hls.status', 'processing');
+      video.set('hls.error', undefined);
+      await video.save();
+
+      const input = options.sourcePath || await getSignedUrlForFile(video.s3Key, 3 * 60 * 60, video.mimeType);
+      if (!input) {
+        throw new Error('Unable to resolve video source');
+      }
+
+      const metadata = await this.probe(input);
+      const videoStream = metadata.streams?.find(stream => stream.codec_type === 'video');
+      const sourceWidth = videoStream?.width;
+      const sourceHeight = videoStream?.height;
+
+      const basePath = this.getHlsBasePath(video);
+      const renditions = [];
+
+      for (const rendition of this.selectRenditions(sourceHeight)) {
+        if (options.shouldCancel && await options.shouldCancel()) {
+          throw new Error('Packaging cancelled');
+        }
+        await this.transcodeRendition(input, workDir, rendition);
+        const width = sourceWidth && sourceHeight
+          ? Math.round((sourceWidth * rendition.height) / sourceHeight / 2) * 2
+          : undefined;
+        renditions.push({
+          name: rendition.name,
+          width,
+          height: rendition.height,
+          bandwidth: (rendition.videoBitrate + rendition.audioBitrate) * 1000,
+          playlistKey: `${basePath}/${rendition.name}/playlist.m3u8`
+        });
+        console.log(`✅ [HLSService] Rendition ${rendition.name} ready for video ${video._id}`);
+      }
+
+      // Master playlist stored in S3 uses relative URIs; playback rewrites them
+      fs.writeFileSync(
+        path.join(workDir, 'master.m3u8'),
+        this.buildMasterPlaylist(renditions, (rendition) => `${rendition.name}/playlist.m3u8`)
+      );
+
+      await this.uploadDirectory(workDir, basePath);
+
+      video.hls = {
+        status: 'ready',
+        basePath,
+        masterPlaylistKey: `${basePath}/master.m3u8`,
+        renditions,
+        packagedAt: new Date()
+      };
+      await video.save();
+
+      // Copies of this video in other course versions share the same source file
+      await Video.updateMany(
+        { s3Key: video.s3Key, _id: { $ne: video._id } },
+        { $set: { hls: video.toObject().hls } }
+      );
+
+      console.log(`✅ [HLSService] Video ${video._id} packaged with ${renditions.length} renditions`);
+      return video.hls;
+    } catch (error) {
+      console.error(`❌ [HLSService] Error packaging video ${video._id}:`, error);
+      video.set('hls.status', 'failed');
+      video.set('hls.error', error.message);
+      await video.save();
+      throw error;
+    } finally {
+      fs.rmSync(workDir, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * Generate a short-lived token that authorizes playlist requests for one video.
+   * Playlists are fetched by the media element, which cannot send Authorization headers.
+   */
+  generatePlaybackToken(userId, videoId) {
+    return jwt.sign(
+      { userId: userId ? userId.toString() : null, videoId: videoId.toString(), type: 'hls-playback' },
+      process.env.JWT_SECRET,
+      { expiresIn: PLAYBACK_TOKEN_EXPIRY }
+    );
+  }
+
+  /**
+   * Verify a playback token for the given video
+   * @returns {Object|null} Decoded payload or null if invalid
+   */
+  verifyPlaybackToken(token, videoId) {
+    try {
+      const decoded = jwt.verify(token, process.env.JWT_SECRET);
+      if (decoded.type !== 'hls-playback' || decoded.videoId !== videoId.toString()) {
+        return null;
+      }
+      return decoded;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  /**
+   * Base URL used for playlist URIs handed to the player
+   */
+  getApiBaseUrl(req) {
+    return process.env.BACKEND_URL || `${req.protocol}://${req.get('host')}`;
+  }
+
+  /**
+   * Build the playback descriptor returned alongside a video
+   * @returns {Object|null} { masterUrl, renditions } or null if HLS isn't ready
+   */
+  getPlaybackInfo(video, userId, req) {
+    if (video.hls?.status !== 'ready' || !video.hls.masterPlaylistKey) {
+      return null;
+    }
+
+    const token = this.generatePlaybackToken(userId, video._id);
+    return {
+      masterUrl: `${this.getApiBaseUrl(req)}/api/videos/${video._id}/hls/master.m3u8?token=${encodeURIComponent(token)}`,
+      renditions: (video.hls.renditions || []).map(rendition => ({
+        name: rendition.name,
+        width: rendition.width,
+        height: rendition.height,
+        bandwidth: rendition.bandwidth
+      }))
+    };
+  }
+
+  /**
+   * Render the master playlist with variant URIs pointing back at this API
+   */
+  renderMasterPlaylist(video, token, req) {
+    const baseUrl = this.getApiBaseUrl(req);
+    return this.buildMasterPlaylist(
+      video.hls.renditions || [],
+      (rendition) => `${baseUrl}/api/videos/${video._id}/hls/${rendition.name}.m3u8?token=${encodeURIComponent(token)}`
+    );
+  }
+
+  /**
+   * Render a rendition playlist with each segment replaced by a presigned S3 URL
+   */
+  async renderMediaPlaylist(video, renditionName) {
+    const rendition = (video.hls.renditions || []).find(r => r.name === renditionName);
+    if (!rendition) {
+      return null;
+    }
+
+    const result = await s3Client.send(new GetObjectCommand({
+      Bucket: process.env.AWS_S3_BUCKET,
+      Key: rendition.playlistKey
+    }));
+    const playlist = await result.Body.transformToString();
+    const renditionDir = path.posix.dirname(rendition.playlistKey);
+
+    const lines = await Promise.all(playlist.split('\n').map(async (line) => {
+      const trimmed = line.trim();
+      if (!trimmed || trimmed.startsWith('#')) {
+        return line;
+      }
+      return getSignedUrlForFile(`${renditionDir}/${trimmed}`, SEGMENT_URL_EXPIRY, 'video/mp2t');
+    }));
+
+    return lines.join('\n');
+  }
+}
+
+// Export singleton instance
+module.exports = new HLSService();
@@ -0,0 +1,177 @@
+const crypto = require('crypto');
+const certificateSigningService = require('./certificateSigningService');
+
+const ISSUER_NAME = 'IBYET-INVESTING';
+const CONTEXTS = [
+  'https://www.w3.org/ns/credentials/v2',
+  'https://purl.imsglobal.org/spec/ob/v3p0/context-3.0.3.json'
+];
+const CREDENTIAL_SCHEMA = {
+  id: 'https://purl.imsglobal.org/spec/ob/v3p0/schema/json/ob_v3p0_achievementcredential_schema.json',
+  type: '1EdTechJsonSchemaValidator2019'
+};
+
+const getBackendUrl = () => process.env.BACKEND_URL || 'http://localhost:5000';
+const getFrontendUrl = () => process.env.FRONTEND_URL || 'https://www.ibyet.com';
+const toIdString = (ref) => (ref && ref._id ? ref._id : ref).toString();
+const toEnglish = (text) => (text && typeof text === 'object' ? text.en || text.tg : text);
+const sha256 = (data) => crypto.createHash('sha256').update(data).digest();
+
+// JSON Canonicalization Scheme (RFC 8785): sorted keys, no whitespace
+const canonicalize = (value) => {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalize).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value).sort()
+      .filter(key => value[key] !== undefined)
+      .map(key => `${JSON.stringify(key)}:${canonicalize(value[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value);
+};
+
+/**
+ * Issues certificates as Open Badges 3.0 credentials (W3C Verifiable Credentials),
+ * secured with an eddsa-jcs-2022 Data Integrity proof from the certificate signing key
+ */
+class OpenBadgeService {
+  getIssuerId() {
+    return `${getBackendUrl()}/api/certificates/issuer`;
+  }
+
+  getVerificationMethodId(kid = certificateSigningService.getKeyId()) {
+    return `${this.getIssuerId()}#${kid}`;
+  }
+
+  /**
+   * Issuer profile, which also publishes the keys that verify badge proofs
+   * @returns {Object}
+   */
+  getIssuerProfile() {
+    const id = this.getIssuerId();
+    const kids = certificateSigningService.getKeyIds();
+    return {
+      '@context': [...CONTEXTS, 'https://w3id.org/security/multikey/v1'],
+      id,
+      type: ['Profile'],
+      name: ISSUER_NAME,
+      url: getFrontendUrl(),
+      // Retired keys stay listed so badges they signed keep verifying
+      verificationMethod: kids.map(kid => ({
+        id: this.getVerificationMethodId(kid),
+        type: 'Multikey',
+        controller: id,
+        publicKeyMultibase: certificateSigningService.getPublicKeyMultibase(kid)
+      })),
+      assertionMethod: kids.map(kid => this.getVerificationMethodId(kid))
+    };
+  }
+
+  /**
+   * Unsigned OpenBadgeCredential for a certificate
+   * @param {Object} certificate - Certificate document with studentId/courseId populated
+   * @returns {Object}
+   */
+  buildCredential(certificate) {
+    const courseId = toIdString(certificate.courseId);
+    const achievementId = `${getFrontendUrl()}/courses/${courseId}`;
+    const completionResultId = `${achievementId}#completion`;
+    const email = certificate.studentId?.email;
+
+    // Recipients are identified by a salted email hash (as Open Badges recommends) plus their name
+    const identifier = [];
+    if (email) {
+      const salt = crypto.randomBytes(8).toString('hex');
+      identifier.push({
+        type: 'IdentityObject',
+        hashed: true,
+        identityHash: `sha256$${sha256(`${email.toLowerCase()}${salt}`).toString('hex')}`,
+        identityType: 'emailAddress',
+        salt
+      });
+    }
+    identifier.push({
+      type: 'IdentityObject',
+      hashed: false,
+      identityHash: certificate.studentName,
+      identityType: 'name'
+    });
+
+    const description = toEnglish(certificate.courseId?.description);
+
+    return {
+      '@context': CONTEXTS,
+      id: `${getBackendUrl()}/api/certificates/badge/${certificate.certificateId}`,
+      type: ['VerifiableCredential', 'OpenBadgeCredential'],
+      name: `${certificate.courseTitle} - Certificate of Completion`,
+      issuer: {
+        id: this.getIssuerId(),
+        type: ['Profile'],
+        name: ISSUER_NAME,
+        url: getFrontendUrl()
+      },
+      validFrom: new Date(certificate.dateIssued).toISOString(),
+      credentialSubject: {
+        type: ['AchievementSubject'],
+        identifier,
+        activityEndDate: new Date(certificate.completionDate).toISOString(),
+        achievement: {
+          id: achievementId,
+          type: ['Achievement'],
+          achievementType: 'Certificate',
+          name: certificate.courseTitle,
+          description: description || `Completion of the course ${certificate.courseTitle}`,
+          criteria: {
+            narrative: `Completed all ${certificate.totalLessons} lessons and required quizzes of the course.`
+          },
+          resultDescription: [{
+            id: completionResultId,
+            type: ['ResultDescription'],
+            name: 'Course completion',
+            resultType: 'Percent'
+          }]
+        },
+        result: [{
+          type: ['Result'],
+          resultDescription: completionResultId,
+          value: String(certificate.completionPercentage)
+        }]
+      },
+      evidence: [{
+        id: `${getFrontendUrl()}/verify/${certificate.certificateId}`,
+        type: ['Evidence'],
+        name: `Certificate ${certificate.certificateId}`
+      }],
+      credentialSchema: [CREDENTIAL_SCHEMA]
+    };
+  }
+
+  /**
+   * OpenBadgeCredential with its Data Integrity proof
+   * @param {Object} certificate - Certificate document with studentId/courseId populated
+   * @returns {Object}
+   */
+  issueCredential(certificate) {
+    const credential = this.buildCredential(certificate);
+    const proofConfig = {
+      '@context': credential['@context'],
+      type: 'DataIntegrityProof',
+      cryptosuite: 'eddsa-jcs-2022',
+      created: new Date().toISOString().replace(/\.\d{3}Z$/, 'Z'),
+      verificationMethod: this.getVerificationMethodId(),
+      proofPurpose: 'assertionMethod'
+    };
+
+    // eddsa-jcs-2022: sign hash(canonical proof options) || hash(canonical credential)
+    const hashData = Buffer.concat([sha256(canonicalize(proofConfig)), sha256(canonicalize(credential))]);
+
+    return {
+      ...credential,
+      proof: { ...proofConfig, proofValue: certificateSigningService.signMultibase(hashData) }
+    };
+  }
+}
+
+// Export singleton instance
+module.exports = new OpenBadgeService();
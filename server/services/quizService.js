@@ -0,0 +1,148 @@
+const QUESTION_TYPES = ['multiple_choice', 'true_false', 'numeric'];
+
+class QuizService {
+  /**
+   * Normalize bilingual input: strings stay strings, objects keep only trimmed en/tg
+   */
+  normalizeText(value) {
+    if (typeof value === 'string') {
+      return value.trim();
+    }
+    if (value && typeof value === 'object') {
+      return { en: (value.en || '').trim(), tg: (value.tg || '').trim() };
+    }
+    return '';
+  }
+
+  /**
+   * Build a question document from admin input, keeping only the fields its type uses
+   * @throws {Error} when the question type is unknown
+   */
+  normalizeQuestion(input = {}) {
+    if (!QUESTION_TYPES.includes(input.type)) {
+      throw new Error(`Unsupported question type: ${input.type}`);
+    }
+
+    const question = {
+      type: input.type,
+      prompt: this.normalizeText(input.prompt),
+      points: input.points !== undefined ? Math.max(0, Number(input.points) || 0) : 1,
+      explanation: this.normalizeText(input.explanation)
+    };
+    if (input._id) {
+      question._id = input._id;
+    }
+
+    if (input.type === 'multiple_choice') {
+      question.options = (input.options || []).map(option => ({
+        text: this.normalizeText(option.text !== undefined ? option.text : option)
+      }));
+      question.correctOption = Number(input.correctOption);
+    } else if (input.type === 'true_false') {
+      question.correctBoolean = input.correctBoolean === true || input.correctBoolean === 'true';
+    } else {
+      question.correctNumber = Number(input.correctNumber);
+      question.tolerance = Math.max(0, Number(input.tolerance) || 0);
+    }
+
+    return question;
+  }
+
+  /**
+   * Grade a single answer
+   * @returns {Object} { isCorrect, pointsAwarded }
+   */
+  gradeQuestion(question, answer) {
+    let isCorrect = false;
+
+    if (answer !== undefined && answer !== null && answer !== '') {
+      if (question.type === 'multiple_choice') {
+        isCorrect = Number(answer) === question.correctOption;
+      } else if (question.type === 'true_false') {
+        isCorrect = (answer === true || answer === 'true') === question.correctBoolean;
+      } else if (question.type === 'numeric') {
+        const value = Number(answer);
+        isCorrect = !Number.isNaN(value) && Math.abs(value - question.correctNumber) <= (question.tolerance || 0);
+      }
+    }
+
+    return { isCorrect, pointsAwarded: isCorrect ? question.points : 0 };
+  }
+
+  /**
+   * Score a submission against a quiz
+   * @param {Object} quiz - Quiz document
+   * @param {Array} submitted - [{ questionId, answer }]
+   * @returns {Object} { answers, score, maxScore, percentage, passed }
+   */
+  gradeAttempt(quiz, submitted = []) {
+    const answerByQuestion = new Map(
+      submitted.filter(a => a && a.questionId).map(a => [a.questionId.toString(), a.answer])
+    );
+
+    let score = 0;
+    let maxScore = 0;
+    const answers = quiz.questions.map(question => {
+      const answer = answerByQuestion.get(question._id.toString());
+      const { isCorrect, pointsAwarded } = this.gradeQuestion(question, answer);
+      score += pointsAwarded;
+      maxScore += question.points;
+      return {
+        questionId: question._id,
+        answer: answer === undefined ? null : answer,
+        isCorrect,
+        pointsAwarded
+      };
+    });
+
+    // A quiz whose questions are all worth 0 points can't be failed
+    const percentage = maxScore > 0 ? Math.round((score / maxScore) * 100) : 100;
+
+    return {
+      answers,
+      score,
+      maxScore,
+      percentage,
+      passed: percentage >= quiz.passingScore
+    };
+  }
+
+  /**
+   * Whether an attempt's review may show the answer key: once the student passed or has no
+   * attempts left, so a failed attempt can't be used to read the answers for the next one
+   * @param {Object} quiz - Quiz document
+   * @param {Object} attempt - { passed, attemptNumber }
+   * @returns {boolean}
+   */
+  canRevealAnswers(quiz, attempt) {
+    return attempt.passed || (quiz.maxAttempts > 0 && attempt.attemptNumber >= quiz.maxAttempts);
+  }
+
+  /**
+   * Per-question feedback shown to the student after submitting.
+   * Correct answers and explanations are only included when revealAnswers is set.
+   */
+  buildReview(quiz, attempt, { revealAnswers = false } = {}) {
+    const answerByQuestion = new Map(attempt.answers.map(a => [a.questionId.toString(), a]));
+
+    return quiz.questions.map(question => {
+      const answer = answerByQuestion.get(question._id.toString());
+      const review = {
+        questionId: question._id,
+        answer: answer ? answer.answer : null,
+        isCorrect: answer ? answer.isCorrect : false,
+        pointsAwarded: answer ? answer.pointsAwarded : 0
+      };
+      if (!revealAnswers) return review;
+
+      review.explanation = question.explanation;
+      if (question.type === 'multiple_choice') review.correctAnswer = question.correctOption;
+      if (question.type === 'true_false') review.correctAnswer = question.correctBoolean;
+      if (question.type === 'numeric') review.correctAnswer = question.correctNumber;
+      return review;
+    });
+  }
+}
+
+// Export singleton instance
+module.exports = new QuizService();
@@ -0,0 +1,448 @@
+const { stripe } = require('../utils/stripe');
+const Payment = require('../models/Payment');
+const User = require('../models/User');
+const Course = require('../models/Course');
+const Bundle = require('../models/Bundle');
+const AuditLog = require('../models/AuditLog');
+const Gift = require('../models/Gift');
+const giftService = require('./giftService');
+const certificateService = require('./certificateService');
+const couponService = require('./couponService');
+const { getEnglishText } = require('../utils/bilingualHelper');
+const { formatAmount } = require('../utils/currency');
+
+// Payments that still entitle the student to the course/bundle
+const PAID_STATUSES = ['completed', 'partially_refunded'];
+
+/**
+ * Raised when a refund request can't be honoured; the message is shown to the admin
+ */
+class RefundError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'RefundError';
+  }
+}
+
+const roundAmount = (value) => Math.round(value * 100) / 100;
+
+class RefundService {
+  /**
+   * Refund a payment (fully, or partially when amount is given) on behalf of an admin
+   * @param {Object} payment - Payment document
+   * @param {Object} params - { amount?, reason?, revokeCertificates?, performedBy, ipAddress?, userAgent? }
+   *   revokeCertificates: on a full refund, also revoke certificates for the courses whose access is removed
+   * @returns {Promise<Object>} The updated payment
+   * @throws {RefundError} when the payment can't be refunded for that amount
+   */
+  async refundPayment(payment, { amount, reason, revokeCertificates = false, performedBy, ipAddress, userAgent }) {
+    if (!PAID_STATUSES.includes(payment.status)) {
+      throw new RefundError(`A ${payment.status} payment cannot be refunded`);
+    }
+
+    const remaining = roundAmount(payment.amount - (payment.refundedAmount || 0));
+    const refundAmount = amount !== undefined && amount !== null && amount !== ''
+      ? roundAmount(Number(amount))
+      : remaining;
+    if (!(refundAmount > 0) || refundAmount > remaining) {
+      throw new RefundError(`Refund amount must be between ${formatAmount(0.01, payment.currency)} and ${formatAmount(remaining, payment.currency)}`);
+    }
+
+    let stripeRefundId = null;
+    if (stripe && this.isStripePayment(payment)) {
+      const paymentIntentId = await this.getPaymentIntentId(payment);
+      if (!paymentIntentId) {
+        throw new RefundError('No Stripe payment found for this purchase');
+      }
+      const refund = await stripe.refunds.create({
+        payment_intent: paymentIntentId,
+        amount: Math.round(refundAmount * 100),
+        reason: 'requested_by_customer',
+        metadata: { paymentId: payment._id.toString(), refundedBy: performedBy }
+      });
+      stripeRefundId = refund.id;
+      console.log(`💸 [Refund] Stripe refund ${refund.id} created for payment ${payment._id} ($${refundAmount})`);
+
+      // The charge.refunded webhook may already have recorded this refund
+      payment = await Payment.findById(payment._id);
+    }
+
+    this.recordRefund(payment, { stripeRefundId, amount: refundAmount, reason, refundedBy: performedBy });
+    payment.refundedAmount = roundAmount(payment.refunds.reduce((sum, refund) => sum + refund.amount, 0));
+    return this.finalizeRefund(payment, { performedBy, reason, revokeCertificates, ipAddress, userAgent });
+  }
+
+  /**
+   * Sync a payment with a Stripe charge.refunded event (covers refunds made in the Stripe dashboard)
+   * @param {Object} charge - Stripe charge object
+   */
+  async handleChargeRefunded(charge) {
+    const payment = await this.findPaymentForCharge(charge);
+    if (!payment) {
+      console.log(`⚠️  [Refund] No payment found for refunded charge ${charge.id}`);
+      return null;
+    }
+
+    let changed = false;
+    for (const refund of charge.refunds?.data || []) {
+      changed = this.recordRefund(payment, {
+        stripeRefundId: refund.id,
+        amount: refund.amount / 100,
+        reason: refund.reason,
+        refundedBy: refund.metadata?.refundedBy || 'stripe'
+      }) || changed;
+    }
+
+    // Older API versions don't include the refund list; keep the total in step with Stripe
+    const totalRefunded = roundAmount(charge.amount_refunded / 100);
+    const recorded = roundAmount(payment.refunds.reduce((sum, refund) => sum + refund.amount, 0));
+    if (totalRefunded > recorded) {
+      payment.refunds.push({ amount: roundAmount(totalRefunded - recorded), refundedBy: 'stripe' });
+      changed = true;
+    }
+
+    // Refunds issued from the admin panel are already on record
+    if (!changed) {
+      console.log(`ℹ️  [Refund] Charge ${charge.id} refunds already recorded on payment ${payment._id}`);
+      return payment;
+    }
+    payment.refundedAmount = Math.max(totalRefunded, recorded);
+
+    return this.finalizeRefund(payment, { performedBy: 'stripe' });
+  }
+
+  /**
+   * A chargeback was opened: the money is held by the bank, so access is removed until it's resolved
+   * @param {Object} dispute - Stripe dispute object
+   */
+  async handleDisputeCreated(dispute) {
+    const payment = await this.findPaymentForCharge({ id: dispute.charge, payment_intent: dispute.payment_intent });
+    if (!payment) {
+      console.log(`⚠️  [Refund] No payment found for disputed charge ${dispute.charge}`);
+      return null;
+    }
+
+    payment.dispute = {
+      stripeDisputeId: dispute.id,
+      reason: dispute.reason,
+      amount: dispute.amount / 100,
+      status: dispute.status,
+      openedAt: new Date((dispute.created || Date.now() / 1000) * 1000)
+    };
+    payment.status = 'disputed';
+    const revoked = await this.revokeAccess(payment);
+    await payment.save();
+
+    await this.logPaymentAction(payment, 'payment_disputed', {
+      performedBy: 'stripe',
+      details: { disputeId: dispute.id, reason: dispute.reason, amount: payment.dispute.amount, ...revoked }
+    });
+
+    console.log(`⚠️  [Refund] Dispute ${dispute.id} opened on payment ${payment._id} - access revoked`);
+    return payment;
+  }
+
+  /**
+   * A chargeback was resolved: a lost dispute stays revoked, anything else restores access
+   * @param {Object} dispute - Stripe dispute object
+   */
+  async handleDisputeClosed(dispute) {
+    const payment = await this.findPaymentForCharge({ id: dispute.charge, payment_intent: dispute.payment_intent });
+    if (!payment) {
+      console.log(`⚠️  [Refund] No payment found for disputed charge ${dispute.charge}`);
+      return null;
+    }
+
+    payment.set('dispute.stripeDisputeId', dispute.id);
+    payment.set('dispute.status', dispute.status);
+    payment.set('dispute.closedAt', new Date());
+
+    let restored = null;
+    if (dispute.status === 'lost') {
+      payment.status = 'refunded';
+    } else {
+      payment.status = payment.refundedAmount > 0 ? 'partially_refunded' : 'completed';
+      restored = await this.restoreAccess(payment);
+    }
+    await payment.save();
+
+    await this.logPaymentAction(payment, 'payment_dispute_closed', {
+      performedBy: 'stripe',
+      details: { disputeId: dispute.id, outcome: dispute.status, ...(restored || {}) }
+    });
+
+    console.log(`✅ [Refund] Dispute ${dispute.id} closed (${dispute.status}) on payment ${payment._id}`);
+    return payment;
+  }
+
+  /**
+   * Add a refund entry unless this Stripe refund is already on record
+   */
+  recordRefund(payment, { stripeRefundId, amount, reason, refundedBy }) {
+    if (stripeRefundId && payment.refunds.some(refund => refund.stripeRefundId === stripeRefundId)) {
+      return false;
+    }
+    payment.refunds.push({ stripeRefundId, amount: roundAmount(amount), reason, refundedBy });
+    return true;
+  }
+
+  /**
+   * Set the refund status, revoke access once fully refunded and write the audit entry
+   */
+  async finalizeRefund(payment, { performedBy, reason, revokeCertificates = false, ipAddress, userAgent }) {
+    const fullyRefunded = payment.refundedAmount >= roundAmount(payment.amount);
+    const previousStatus = payment.status;
+    if (payment.status !== 'disputed') {
+      payment.status = fullyRefunded ? 'refunded' : 'partially_refunded';
+    }
+
+    const revoked = fullyRefunded && !payment.accessRevokedAt
+      ? await this.revokeAccess(payment, { revokeCertificates, performedBy, ipAddress, userAgent })
+      : null;
+    await payment.save();
+
+    // A refunded promo-code purchase no longer counts against the code's limits
+    if (fullyRefunded && previousStatus !== 'refunded' && payment.coupon?.couponId) {
+      await couponService.releaseRedemption(payment.coupon.couponId, payment.userId)
+        .catch(error => console.error(`❌ [Refund] Failed to release coupon for payment ${payment._id}:`, error));
+    }
+
+    await this.logPaymentAction(payment, 'payment_refunded', {
+      performedBy,
+      ipAddress,
+      userAgent,
+      details: {
+        refundedAmount: payment.refundedAmount,
+        amount: payment.amount,
+        status: payment.status,
+        reason,
+        ...(revoked || {})
+      },
+      changes: AuditLog.diffChanges({ status: previousStatus }, payment, ['status'])
+    });
+
+    console.log(`✅ [Refund] Payment ${payment._id} is now ${payment.status} ($${payment.refundedAmount} of $${payment.amount})`);
+    return payment;
+  }
+
+  /**
+   * Remove the purchased course/bundle from the student, keeping courses they still own another way
+   * @param {Object} payment - Payment document
+   * @param {Object} [options] - { revokeCertificates?, performedBy?, ipAddress?, userAgent? }
+   *   Certificates are only revoked on request: a dispute may still be won, and a refund
+   *   doesn't always mean the course wasn't completed.
+   * @returns {Promise<Object>} { revokedCourseIds, keptCourseIds, revokedCertificateIds? }
+   */
+  async revokeAccess(payment, { revokeCertificates = false, performedBy, ipAddress, userAgent } = {}) {
+    // A gift buyer never had access; take it from whoever redeemed the code (if anyone)
+    const userId = payment.giftId ? await giftService.revokeForPayment(payment) : payment.userId;
+    const user = userId ? await User.findById(userId) : null;
+    const result = { revokedCourseIds: [], keptCourseIds: [] };
+    if (!user) {
+      payment.accessRevokedAt = new Date();
+      return result;
+    }
+
+    let courseIds = [];
+    if (payment.bundleId) {
+      const bundleId = payment.bundleId._id || payment.bundleId;
+      const bundle = await Bundle.findById(bundleId);
+      user.purchasedBundles = (user.purchasedBundles || []).filter(id => id.toString() !== bundleId.toString());
+      if (bundle) {
+        courseIds = bundle.courseIds;
+        try {
+          await bundle.revokeStudentAccess(user._id);
+        } catch (err) {
+          console.log(`⚠️  [Refund] ${err.message}`);
+        }
+      }
+    } else if (payment.courseId) {
+      courseIds = [payment.courseId._id || payment.courseId];
+    }
+
+    for (const courseId of courseIds) {
+      const course = await Course.findById(courseId);
+      const enrollment = course?.getStudentEnrollment(user._id);
+      if ((enrollment && enrollment.accessGrantedBy === 'admin') || await this.ownsCourseElsewhere(user, courseId, payment)) {
+        result.keptCourseIds.push(courseId.toString());
+        continue;
+      }
+
+      user.purchasedCourses = (user.purchasedCourses || []).filter(id => id.toString() !== courseId.toString());
+      if (enrollment) {
+        await course.revokeStudentAccess(user._id);
+      }
+      result.revokedCourseIds.push(courseId.toString());
+    }
+
+    await user.save();
+    payment.accessRevokedAt = new Date();
+
+    if (revokeCertificates) {
+      result.revokedCertificateIds = await certificateService.revokeForCourses(user._id, result.revokedCourseIds, {
+        reason: 'Purchase refunded',
+        performedBy: performedBy || 'system',
+        ipAddress,
+        userAgent
+      });
+    }
+    console.log(`🔒 [Refund] Revoked ${result.revokedCourseIds.length} course(s) from ${user.email} (kept ${result.keptCourseIds.length})`);
+    return result;
+  }
+
+  /**
+   * Give back what revokeAccess removed (dispute won)
+   * @returns {Promise<Object>} { restoredCourseIds }
+   */
+  async restoreAccess(payment) {
+    const result = { restoredCourseIds: [] };
+    if (!payment.accessRevokedAt) return result;
+
+    const userId = payment.giftId ? await giftService.restoreForPayment(payment) : payment.userId;
+    if (!userId) {
+      payment.accessRevokedAt = null;
+      return result;
+    }
+
+    let courseIds = [];
+    if (payment.bundleId) {
+      const bundle = await Bundle.findById(payment.bundleId);
+      await User.findByIdAndUpdate(userId, { $addToSet: { purchasedBundles: payment.bundleId } });
+      if (bundle) {
+        courseIds = bundle.courseIds;
+        try {
+          await bundle.enrollStudent(userId);
+        } catch (err) {
+          console.log(`⚠️  [Refund] ${err.message}`);
+        }
+      }
+    } else if (payment.courseId) {
+      courseIds = [payment.courseId];
+    }
+
+    await User.findByIdAndUpdate(userId, { $addToSet: { purchasedCourses: { $each: courseIds } } });
+    for (const courseId of courseIds) {
+      const course = await Course.findById(courseId);
+      if (!course) continue;
+      try {
+        await course.enrollStudent(userId);
+        result.restoredCourseIds.push(courseId.toString());
+      } catch (err) {
+        console.log(`⚠️  [Refund] Could not re-enroll in ${getEnglishText(course.title)}: ${err.message}`);
+      }
+    }
+
+    payment.accessRevokedAt = null;
+    return result;
+  }
+
+  /**
+   * Whether the student still paid for this course through another purchase
+   */
+  async ownsCourseElsewhere(user, courseId, payment) {
+    const otherCoursePayment = await Payment.exists({
+      _id: { $ne: payment._id },
+      userId: user._id,
+      courseId,
+      giftId: null, // Gifts bought for someone else don't count
+      status: { $in: PAID_STATUSES }
+    });
+    if (otherCoursePayment) return true;
+
+    const otherCourseGift = await Gift.exists({
+      _id: { $ne: payment.giftId || null },
+      redeemedBy: user._id,
+      courseId,
+      status: 'redeemed'
+    });
+    if (otherCourseGift) return true;
+
+    const otherBundleIds = (user.purchasedBundles || []).filter(
+      id => !payment.bundleId || id.toString() !== payment.bundleId.toString()
+    );
+    if (otherBundleIds.length === 0) return false;
+    return !!(await Bundle.exists({ _id: { $in: otherBundleIds }, courseIds: courseId }));
+  }
+
+  /**
+   * Payments made through Stripe checkout (not development-mode or free coupon orders)
+   */
+  isStripePayment(payment) {
+    return !!payment.stripePaymentIntentId || /^cs_/.test(payment.stripeSessionId);
+  }
+
+  /**
+   * Resolve (and remember) the payment intent of a checkout payment
+   */
+  async getPaymentIntentId(payment) {
+    if (payment.stripePaymentIntentId) return payment.stripePaymentIntentId;
+    const session = await stripe.checkout.sessions.retrieve(payment.stripeSessionId);
+    if (session.payment_intent) {
+      payment.stripePaymentIntentId = session.payment_intent;
+      await payment.save();
+    }
+    return session.payment_intent;
+  }
+
+  /**
+   * Find the payment a Stripe charge belongs to
+   */
+  async findPaymentForCharge(charge) {
+    if (charge.payment_intent) {
+      const payment = await Payment.findOne({ stripePaymentIntentId: charge.payment_intent });
+      if (payment) return payment;
+
+      // Payments recorded before the payment intent was stored
+      if (stripe) {
+        const sessions = await stripe.checkout.sessions.list({ payment_intent: charge.payment_intent, limit: 1 });
+        const session = sessions.data[0];
+        if (session) {
+          const sessionPayment = await Payment.findOne({ stripeSessionId: session.id });
+          if (sessionPayment) {
+            sessionPayment.stripePaymentIntentId = charge.payment_intent;
+            return sessionPayment;
+          }
+        }
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Write an AuditLog entry for a payment (audit failures never fail the payment or refund)
+   */
+  async logPaymentAction(payment, action, { performedBy, ipAddress, userAgent, details = {}, changes = [] }) {
+    try {
+      let entityTitle = payment.metadata?.courseTitle || payment.metadata?.bundleTitle;
+      if (!entityTitle) {
+        const item = payment.bundleId
+          ? await Bundle.findById(payment.bundleId).select('title')
+          : await Course.findById(payment.courseId).select('title');
+        entityTitle = item ? getEnglishText(item.title) : 'Payment';
+      }
+
+      await AuditLog.logAction({
+        action,
+        entityType: 'payment',
+        entityId: payment._id,
+        entityTitle,
+        performedBy: performedBy || 'system',
+        details: {
+          userId: payment.userId,
+          userEmail: payment.metadata?.userEmail,
+          courseId: payment.courseId,
+          bundleId: payment.bundleId,
+          ...details
+        },
+        changes,
+        ipAddress,
+        userAgent
+      });
+    } catch (auditError) {
+      console.error('Failed to log audit action:', auditError);
+    }
+  }
+}
+
+// Export singleton instance
+module.exports = new RefundService();
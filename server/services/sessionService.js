@@ -0,0 +1,209 @@
+const crypto = require('crypto');
+const mongoose = require('mongoose');
+const Session = require('../models/Session');
+const { parseUserAgent } = require('../utils/userAgent');
+
+// Sessions stay signed in while the refresh token keeps being used within this window
+const SESSION_TTL_MS = (parseInt(process.env.REFRESH_TOKEN_TTL_DAYS, 10) || 30) * 24 * 60 * 60 * 1000;
+// Two tabs refreshing at the same moment both present the old token; only later reuse is treated as theft
+const REUSE_GRACE_MS = 30 * 1000;
+// lastSeenAt is only written once per interval so every API call doesn't hit the database
+const LAST_SEEN_INTERVAL_MS = 5 * 60 * 1000;
+
+const hashToken = (token) => crypto.createHash('sha256').update(String(token)).digest('hex');
+const generateRefreshToken = () => crypto.randomBytes(48).toString('base64url');
+
+class SessionService {
+  /**
+   * Refresh token cookie lifetime
+   * @returns {number} Milliseconds
+   */
+  getRefreshTokenTtlMs() {
+    return SESSION_TTL_MS;
+  }
+
+  /**
+   * Maximum concurrent signed-in devices per account (MAX_SESSIONS_PER_USER, 0 or unset = unlimited)
+   * @returns {number}
+   */
+  getMaxSessions() {
+    const limit = parseInt(process.env.MAX_SESSIONS_PER_USER, 10);
+    return Number.isFinite(limit) && limit > 0 ? limit : 0;
+  }
+
+  /**
+   * Record a new login. When the device limit is reached the least recently used sessions are signed out.
+   * @param {Object} user - User document
+   * @param {Object} [context] - { ipAddress, userAgent } of the login request
+   * @returns {Promise<Object>} { session, refreshToken } - the raw refresh token is only available here
+   */
+  async createSession(user, context = {}) {
+    const refreshToken = generateRefreshToken();
+    const session = await Session.create({
+      userId: user._id,
+      userAgent: String(context.userAgent || '').slice(0, 500),
+      ...parseUserAgent(context.userAgent),
+      ipAddress: context.ipAddress || null,
+      refreshTokenHash: hashToken(refreshToken),
+      expiresAt: new Date(Date.now() + SESSION_TTL_MS)
+    });
+
+    const maxSessions = this.getMaxSessions();
+    if (maxSessions) {
+      const active = await Session.find({
+        userId: user._id,
+        revokedAt: null,
+        expiresAt: { $gt: new Date() }
+      }).sort({ lastSeenAt: -1 }).select('_id');
+
+      const overflow = active.slice(maxSessions).map(s => s._id);
+      if (overflow.length) {
+        await Session.updateMany(
+          { _id: { $in: overflow } },
+          { $set: { revokedAt: new Date(), revokedReason: 'device_limit' } }
+        );
+        console.log(`📱 [Session] Device limit (${maxSessions}) reached for ${user.email}, signed out ${overflow.length} older session(s)`);
+      }
+    }
+
+    console.log(`📱 [Session] New session ${session._id} for ${user.email} (${session.browser} on ${session.os})`);
+    return { session, refreshToken };
+  }
+
+  /**
+   * Swap a refresh token for a new one and extend the session
+   * @param {string} refreshToken - Raw token from the cookie
+   * @returns {Promise<Object|null>} { session, refreshToken } - refreshToken is null for a concurrent refresh
+   *   inside the grace period (the browser already holds the newer cookie); null when the token is not valid
+   */
+  async rotateRefreshToken(refreshToken) {
+    if (!refreshToken) {
+      return null;
+    }
+
+    const hash = hashToken(refreshToken);
+    const now = new Date();
+    const newToken = generateRefreshToken();
+
+    // Atomic so two simultaneous refreshes can't both rotate the same token
+    const session = await Session.findOneAndUpdate(
+      { refreshTokenHash: hash, revokedAt: null, expiresAt: { $gt: now } },
+      {
+        $set: {
+          refreshTokenHash: hashToken(newToken),
+          previousRefreshTokenHash: hash,
+          refreshedAt: now,
+          lastSeenAt: now,
+          expiresAt: new Date(now.getTime() + SESSION_TTL_MS)
+        }
+      },
+      { new: true }
+    );
+    if (session) {
+      return { session, refreshToken: newToken };
+    }
+
+    const previous = await Session.findOne({ previousRefreshTokenHash: hash, revokedAt: null });
+    if (!previous) {
+      return null;
+    }
+
+    if (previous.refreshedAt && now - previous.refreshedAt < REUSE_GRACE_MS && previous.expiresAt > now) {
+      return { session: previous, refreshToken: null };
+    }
+
+    // An already-rotated token came back: someone else has a copy, so end the session for both
+    await this.revokeSession(previous.userId, previous._id, 'security');
+    console.log(`🚨 [Session] Refresh token reuse detected for session ${previous._id}, session revoked`);
+    return null;
+  }
+
+  /**
+   * Sign out the device holding a refresh token (logout without a valid access token)
+   * @param {string} refreshToken - Raw token from the cookie
+   * @returns {Promise<boolean>}
+   */
+  async revokeByRefreshToken(refreshToken) {
+    if (!refreshToken) {
+      return false;
+    }
+
+    const result = await Session.updateOne(
+      { refreshTokenHash: hashToken(refreshToken), revokedAt: null },
+      { $set: { revokedAt: new Date(), revokedReason: 'logout' } }
+    );
+    return result.modifiedCount > 0;
+  }
+
+  /**
+   * Check the session behind a request and refresh its last-seen time
+   * @param {string} sessionId
+   * @param {string} userId
+   * @returns {Promise<Object|null>} Active session, or null when revoked, expired or not the user's
+   */
+  async validateSession(sessionId, userId) {
+    const session = await Session.findById(sessionId);
+    if (!session || session.userId.toString() !== userId.toString() || !session.isActive()) {
+      return null;
+    }
+
+    if (Date.now() - session.lastSeenAt.getTime() > LAST_SEEN_INTERVAL_MS) {
+      await Session.updateOne({ _id: session._id }, { $set: { lastSeenAt: new Date() } });
+    }
+    return session;
+  }
+
+  /**
+   * Signed-in devices for a user, most recently used first
+   * @param {string} userId
+   * @returns {Promise<Array>}
+   */
+  async getActiveSessions(userId) {
+    return Session.find({ userId, revokedAt: null, expiresAt: { $gt: new Date() } })
+      .select('-userAgent')
+      .sort({ lastSeenAt: -1 });
+  }
+
+  /**
+   * Sign out one device
+   * @param {string} userId
+   * @param {string} sessionId
+   * @param {string} [reason='user']
+   * @returns {Promise<boolean>} Whether an active session was revoked
+   */
+  async revokeSession(userId, sessionId, reason = 'user') {
+    if (!mongoose.isValidObjectId(sessionId)) {
+      return false;
+    }
+
+    const result = await Session.updateOne(
+      { _id: sessionId, userId, revokedAt: null },
+      { $set: { revokedAt: new Date(), revokedReason: reason } }
+    );
+    if (result.modifiedCount) {
+      console.log(`🔒 [Session] Session ${sessionId} revoked (${reason})`);
+    }
+    return result.modifiedCount > 0;
+  }
+
+  /**
+   * Sign out every device except one
+   * @param {string} userId
+   * @param {string|null} keepSessionId - Session to keep signed in (null revokes all)
+   * @param {string} [reason='user']
+   * @returns {Promise<number>} Number of sessions revoked
+   */
+  async revokeOtherSessions(userId, keepSessionId, reason = 'user') {
+    const filter = { userId, revokedAt: null };
+    if (keepSessionId) {
+      filter._id = { $ne: keepSessionId };
+    }
+
+    const result = await Session.updateMany(filter, { $set: { revokedAt: new Date(), revokedReason: reason } });
+    console.log(`🔒 [Session] Revoked ${result.modifiedCount} session(s) for user ${userId} (${reason})`);
+    return result.modifiedCount;
+  }
+}
+
+// Export singleton instance
+module.exports = new SessionService();
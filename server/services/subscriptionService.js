@@ -0,0 +1,295 @@
+const { stripe } = require('../utils/stripe');
+const Subscription = require('../models/Subscription');
+const User = require('../models/User');
+const { getPlan } = require('../config/membershipPlans');
+
+/**
+ * Raised when a membership action can't be completed; the message is shown to the student
+ */
+class SubscriptionError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'SubscriptionError';
+  }
+}
+
+// Stripe timestamps are in seconds
+const fromUnix = (seconds) => (seconds ? new Date(seconds * 1000) : null);
+
+// Newer Stripe API versions report the billing period on the subscription item
+const getPeriod = (stripeSubscription) => {
+  const item = stripeSubscription.items?.data?.[0];
+  return {
+    start: fromUnix(stripeSubscription.current_period_start || item?.current_period_start),
+    end: fromUnix(stripeSubscription.current_period_end || item?.current_period_end)
+  };
+};
+
+// Newer Stripe API versions nest the subscription id under invoice.parent
+const getInvoiceSubscriptionId = (invoice) => {
+  const subscription = invoice.subscription || invoice.parent?.subscription_details?.subscription;
+  return typeof subscription === 'string' ? subscription : subscription?.id || null;
+};
+
+class SubscriptionService {
+  /**
+   * Start a membership checkout
+   * @param {Object} params - { userId, planId, successUrl, cancelUrl }
+   * @returns {Promise<Object>} { id, url } of the Stripe checkout session (or the dev-mode redirect)
+   * @throws {SubscriptionError} when the plan is unknown or the user is already a member
+   */
+  async createCheckoutSession({ userId, planId, successUrl, cancelUrl }) {
+    const plan = getPlan(planId);
+    if (!plan) {
+      throw new SubscriptionError('Unknown membership plan');
+    }
+
+    const user = await User.findById(userId);
+    if (!user) {
+      throw new SubscriptionError('User not found');
+    }
+
+    if (await Subscription.hasActiveMembership(user._id)) {
+      throw new SubscriptionError('You already have an active membership');
+    }
+
+    if (!stripe) {
+      return this.activateDevelopmentMembership(user, plan, successUrl);
+    }
+
+    const customerId = await this.getOrCreateCustomer(user);
+    const metadata = {
+      userId: user._id.toString(),
+      userEmail: user.email,
+      plan: plan.id,
+      type: 'subscription'
+    };
+
+    const lineItem = plan.stripePriceId
+      ? { price: plan.stripePriceId, quantity: 1 }
+      : {
+          price_data: {
+            currency: 'usd',
+            product_data: { name: plan.name.en },
+            unit_amount: Math.round(plan.price * 100),
+            recurring: { interval: plan.interval }
+          },
+          quantity: 1
+        };
+
+    const session = await stripe.checkout.sessions.create({
+      mode: 'subscription',
+      customer: customerId,
+      line_items: [lineItem],
+      success_url: successUrl,
+      cancel_url: cancelUrl,
+      metadata,
+      // Copied onto the subscription so customer.subscription.* events can be matched to the user
+      subscription_data: { metadata }
+    });
+
+    console.log(`✅ [Subscription] Checkout session ${session.id} created for ${user.email} (${plan.id})`);
+    return { id: session.id, url: session.url };
+  }
+
+  /**
+   * Open the Stripe billing portal so the member can update their card or cancel
+   * @param {string} userId
+   * @param {string} returnUrl - Where Stripe sends the user back to
+   * @returns {Promise<string>} Portal URL
+   * @throws {SubscriptionError} when the user has never subscribed through Stripe
+   */
+  async createPortalSession(userId, returnUrl) {
+    if (!stripe) {
+      throw new SubscriptionError('Billing management is not available in development mode');
+    }
+
+    const user = await User.findById(userId).select('stripeCustomerId');
+    if (!user || !user.stripeCustomerId) {
+      throw new SubscriptionError('No billing account found for this user');
+    }
+
+    const portal = await stripe.billingPortal.sessions.create({
+      customer: user.stripeCustomerId,
+      return_url: returnUrl
+    });
+    return portal.url;
+  }
+
+  /**
+   * Get the membership shown on the profile: the active one, otherwise the most recent
+   * @param {string} userId
+   * @returns {Promise<Object|null>}
+   */
+  async getMembership(userId) {
+    const active = await Subscription.findActiveForUser(userId);
+    if (active) return active;
+    return Subscription.findOne({ userId }).sort({ createdAt: -1 });
+  }
+
+  // ========================================
+  // WEBHOOK HANDLERS
+  // ========================================
+
+  /**
+   * checkout.session.completed for a subscription checkout
+   * @param {Object} session - Stripe checkout session (mode 'subscription')
+   */
+  async handleCheckoutCompleted(session) {
+    const { userId } = session.metadata || {};
+    if (userId && session.customer) {
+      await User.findByIdAndUpdate(userId, { stripeCustomerId: session.customer });
+    }
+
+    if (!session.subscription) {
+      console.log(`⚠️  [Subscription] Checkout session ${session.id} has no subscription`);
+      return null;
+    }
+
+    const stripeSubscription = await stripe.subscriptions.retrieve(session.subscription);
+    return this.syncSubscription(stripeSubscription);
+  }
+
+  /**
+   * customer.subscription.created / updated / deleted
+   * @param {Object} eventSubscription - Stripe subscription object from the event
+   */
+  async handleSubscriptionChanged(eventSubscription) {
+    // Sync from Stripe's copy, never from the event body (deleted subscriptions can still be retrieved)
+    const stripeSubscription = await stripe.subscriptions.retrieve(eventSubscription.id);
+    return this.syncSubscription(stripeSubscription);
+  }
+
+  /**
+   * invoice.payment_succeeded: a new or renewed billing period was paid
+   * @param {Object} invoice - Stripe invoice object
+   */
+  async handleInvoicePaid(invoice) {
+    const subscriptionId = getInvoiceSubscriptionId(invoice);
+    if (!subscriptionId) return null;
+
+    const stripeSubscription = await stripe.subscriptions.retrieve(subscriptionId);
+    const subscription = await this.syncSubscription(stripeSubscription);
+    if (!subscription) return null;
+
+    subscription.lastPaymentFailedAt = null;
+    subscription.latestInvoiceId = invoice.id;
+    await subscription.save();
+
+    if (invoice.billing_reason === 'subscription_cycle') {
+      console.log(`🔄 [Subscription] Renewed ${subscription.stripeSubscriptionId} until ${subscription.currentPeriodEnd.toISOString()}`);
+    }
+    return subscription;
+  }
+
+  /**
+   * invoice.payment_failed: Stripe will retry; access continues while the subscription is past_due
+   * @param {Object} invoice - Stripe invoice object
+   */
+  async handleInvoicePaymentFailed(invoice) {
+    const subscriptionId = getInvoiceSubscriptionId(invoice);
+    if (!subscriptionId) return null;
+
+    const stripeSubscription = await stripe.subscriptions.retrieve(subscriptionId);
+    const subscription = await this.syncSubscription(stripeSubscription);
+    if (!subscription) return null;
+
+    subscription.lastPaymentFailedAt = new Date();
+    subscription.latestInvoiceId = invoice.id;
+    await subscription.save();
+
+    console.log(`❌ [Subscription] Payment failed for ${subscription.stripeSubscriptionId} (status ${subscription.status}, attempt ${invoice.attempt_count || 1})`);
+    return subscription;
+  }
+
+  // ========================================
+  // HELPERS
+  // ========================================
+
+  /**
+   * Create or update the local copy of a Stripe subscription
+   * @param {Object} stripeSubscription - Stripe subscription object
+   * @returns {Promise<Object|null>} Subscription document, or null when the user can't be identified
+   */
+  async syncSubscription(stripeSubscription) {
+    let subscription = await Subscription.findOne({ stripeSubscriptionId: stripeSubscription.id });
+    const customerId = typeof stripeSubscription.customer === 'string'
+      ? stripeSubscription.customer
+      : stripeSubscription.customer?.id;
+
+    if (!subscription) {
+      let userId = stripeSubscription.metadata?.userId;
+      if (!userId && customerId) {
+        const user = await User.findOne({ stripeCustomerId: customerId }).select('_id');
+        userId = user?._id;
+      }
+      if (!userId) {
+        console.log(`⚠️  [Subscription] No user found for Stripe subscription ${stripeSubscription.id}`);
+        return null;
+      }
+      subscription = new Subscription({
+        userId,
+        plan: getPlan(stripeSubscription.metadata?.plan) ? stripeSubscription.metadata.plan : 'monthly',
+        stripeSubscriptionId: stripeSubscription.id
+      });
+    }
+
+    const period = getPeriod(stripeSubscription);
+    subscription.stripeCustomerId = customerId || subscription.stripeCustomerId;
+    subscription.status = stripeSubscription.status;
+    subscription.currentPeriodStart = period.start || subscription.currentPeriodStart;
+    subscription.currentPeriodEnd = period.end || subscription.currentPeriodEnd;
+    subscription.cancelAtPeriodEnd = !!stripeSubscription.cancel_at_period_end;
+    subscription.canceledAt = fromUnix(stripeSubscription.canceled_at);
+    subscription.endedAt = fromUnix(stripeSubscription.ended_at);
+    await subscription.save();
+
+    console.log(`✅ [Subscription] Synced ${stripeSubscription.id}: ${subscription.status}${subscription.cancelAtPeriodEnd ? ' (cancels at period end)' : ''}`);
+    return subscription;
+  }
+
+  /**
+   * Reuse the user's Stripe customer so the billing portal shows every membership invoice
+   * @param {Object} user - User document
+   * @returns {Promise<string>} Stripe customer id
+   */
+  async getOrCreateCustomer(user) {
+    if (user.stripeCustomerId) return user.stripeCustomerId;
+
+    const customer = await stripe.customers.create({
+      email: user.email,
+      name: user.name,
+      metadata: { userId: user._id.toString() }
+    });
+    user.stripeCustomerId = customer.id;
+    await user.save();
+    return customer.id;
+  }
+
+  /**
+   * Development mode (no Stripe key): activate the membership immediately
+   */
+  async activateDevelopmentMembership(user, plan, successUrl) {
+    const now = new Date();
+    const periodEnd = new Date(now);
+    if (plan.interval === 'year') {
+      periodEnd.setFullYear(periodEnd.getFullYear() + 1);
+    } else {
+      periodEnd.setMonth(periodEnd.getMonth() + 1);
+    }
+
+    await Subscription.create({
+      userId: user._id,
+      plan: plan.id,
+      status: 'active',
+      currentPeriodStart: now,
+      currentPeriodEnd: periodEnd
+    });
+
+    console.log(`🔧 [Subscription] Development membership (${plan.id}) activated for ${user.email}`);
+    return { id: `dev_subscription_${Date.now()}`, url: successUrl };
+  }
+}
+
+// Export singleton instance
+module.exports = new SubscriptionService();
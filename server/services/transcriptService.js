@@ -0,0 +1,181 @@
+const Transcript = require('../models/Transcript');
+const Video = require('../models/Video');
+const Course = require('../models/Course');
+
+const MAX_MATCHES_PER_VIDEO = 20;
+
+class TranscriptService {
+  /**
+   * Parse a WebVTT timestamp (hh:mm:ss.mmm or mm:ss.mmm) into seconds
+   */
+  parseTimestamp(timestamp) {
+    const parts = timestamp.trim().split(':');
+    const seconds = parseFloat(parts.pop());
+    const minutes = parseInt(parts.pop() || '0', 10);
+    const hours = parseInt(parts.pop() || '0', 10);
+    return hours * 3600 + minutes * 60 + seconds;
+  }
+
+  /**
+   * Parse WebVTT text into transcript cues
+   * @param {string} vtt - WebVTT text
+   * @returns {Array} [{ start, end, text }]
+   */
+  parseVtt(vtt) {
+    const cues = [];
+    const blocks = vtt.replace(/\r\n?/g, '\n').split(/\n{2,}/);
+
+    for (const block of blocks) {
+      const lines = block.split('\n').filter(line => line.trim() !== '');
+      const timingIndex = lines.findIndex(line => line.includes('-->'));
+      if (timingIndex === -1) {
+        // Header, NOTE, STYLE and REGION blocks have no timing line
+        continue;
+      }
+
+      const [startPart, endPart] = lines[timingIndex].split('-->');
+      // Cue settings (align:start, position:10%...) follow the end timestamp
+      const start = this.parseTimestamp(startPart);
+      const end = this.parseTimestamp(endPart.trim().split(/\s+/)[0]);
+      const text = lines
+        .slice(timingIndex + 1)
+        .join(' ')
+        .replace(/<[^>]+>/g, '')
+        .replace(/&amp;/g, '&')
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&nbsp;/g, ' ')
+        .replace(/\s+/g, ' ')
+        .trim();
+
+      if (!Number.isNaN(start) && !Number.isNaN(end) && text) {
+        cues.push({ start, end, text });
+      }
+    }
+
+    return cues;
+  }
+
+  /**
+   * Store the transcript derived from a caption track.
+   * Skipped when an admin uploaded a standalone transcript for that language.
+   */
+  async saveFromCaptions(video, language, vtt, updatedBy = 'admin') {
+    const existing = await Transcript.findOne({ s3Key: video.s3Key, language });
+    if (existing && existing.source === 'upload') {
+      return existing;
+    }
+    return this.saveTranscript(video, language, vtt, 'captions', updatedBy);
+  }
+
+  /**
+   * Create or replace the transcript for a video and language
+   */
+  async saveTranscript(video, language, vtt, source, updatedBy = 'admin') {
+    const cues = this.parseVtt(vtt);
+    if (cues.length === 0) {
+      throw new Error('Transcript does not contain any cues');
+    }
+
+    const transcript = await Transcript.findOneAndUpdate(
+      { s3Key: video.s3Key, language },
+      {
+        $set: {
+          courseId: video.courseId,
+          source,
+          cues,
+          updatedBy
+        }
+      },
+      { upsert: true, new: true }
+    );
+
+    console.log(`✅ [TranscriptService] ${language} transcript (${source}) saved for video ${video._id}: ${cues.length} cues`);
+    return transcript;
+  }
+
+  /**
+   * Remove the transcript for a video and language
+   * @param {string} source - Only delete if it came from this source (optional)
+   */
+  async deleteTranscript(video, language, source = null) {
+    const filter = { s3Key: video.s3Key, language };
+    if (source) {
+      filter.source = source;
+    }
+    return Transcript.deleteOne(filter);
+  }
+
+  /**
+   * Get a video's transcript, preferring the requested language
+   * @returns {Promise<Object>} { language, source, cues, availableLanguages }
+   */
+  async getTranscript(video, language) {
+    const transcripts = await Transcript.findForVideo(video);
+    if (transcripts.length === 0) {
+      return { language: null, source: null, cues: [], availableLanguages: [] };
+    }
+
+    const transcript = transcripts.find(t => t.language === language) || transcripts[0];
+    return {
+      language: transcript.language,
+      source: transcript.source,
+      cues: transcript.cues,
+      availableLanguages: transcripts.map(t => t.language)
+    };
+  }
+
+  /**
+   * Search the transcripts of every lesson in a course
+   * @param {string} courseId - Course ID
+   * @param {string} query - Text to look for (case-insensitive, matched as a phrase)
+   * @param {Object} options - { language, videoIds } videoIds limits results to accessible lessons
+   * @returns {Promise<Array>} Lessons with matching cues, in course order
+   */
+  async searchCourse(courseId, query, { language, videoIds } = {}) {
+    const course = await Course.findById(courseId).select('videos');
+    if (!course) {
+      throw new Error('Course not found');
+    }
+
+    const allowedIds = videoIds ? new Set(videoIds.map(id => id.toString())) : null;
+    const videos = (await Video.find({ _id: { $in: course.videos }, status: 'active' })
+      .select('title order s3Key isFreePreview duration'))
+      .filter(video => !allowedIds || allowedIds.has(video._id.toString()));
+
+    const escaped = query.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const pattern = new RegExp(escaped, 'i');
+
+    const filter = {
+      s3Key: { $in: videos.map(video => video.s3Key) },
+      'cues.text': { $regex: escaped, $options: 'i' }
+    };
+    if (language) {
+      filter.language = language;
+    }
+    const transcripts = await Transcript.find(filter);
+
+    const results = [];
+    for (const video of videos) {
+      for (const transcript of transcripts.filter(t => t.s3Key === video.s3Key)) {
+        const matches = transcript.cues.filter(cue => pattern.test(cue.text));
+        if (matches.length === 0) {
+          continue;
+        }
+        results.push({
+          videoId: video._id,
+          title: video.title,
+          order: video.order,
+          language: transcript.language,
+          totalMatches: matches.length,
+          matches: matches.slice(0, MAX_MATCHES_PER_VIDEO)
+        });
+      }
+    }
+
+    return results.sort((a, b) => (a.order || 0) - (b.order || 0));
+  }
+}
+
+// Export singleton instance
+module.exports = new TranscriptService();
@@ -0,0 +1,336 @@
+const crypto = require('crypto');
+const jwt = require('jsonwebtoken');
+const QRCode = require('qrcode');
+const User = require('../models/User');
+const AdminAccount = require('../models/AdminAccount');
+const TwoFactorChallenge = require('../models/TwoFactorChallenge');
+const totp = require('../utils/totp');
+
+/**
+ * Raised when a two-factor code or challenge is rejected; the message is shown to the user
+ */
+class TwoFactorError extends Error {
+  constructor(message, status = 400) {
+    super(message);
+    this.name = 'TwoFactorError';
+    this.status = status;
+  }
+}
+
+const ISSUER = process.env.TWO_FACTOR_ISSUER || 'IBYET';
+const RECOVERY_CODE_COUNT = 10;
+const MAX_FAILED_ATTEMPTS = 5;
+const LOCK_MINUTES = 15;
+const SECRET_FIELDS = '+twoFactor.secret +twoFactor.pendingSecret +twoFactor.recoveryCodes';
+
+// Secrets are encrypted at rest so a database dump alone can't generate codes
+const getEncryptionKey = () =>
+  crypto.createHash('sha256').update(process.env.TWO_FACTOR_ENCRYPTION_KEY || process.env.JWT_SECRET).digest();
+
+const encryptSecret = (secret) => {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', getEncryptionKey(), iv);
+  const encrypted = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+  return [iv, cipher.getAuthTag(), encrypted].map(part => part.toString('base64')).join(':');
+};
+
+const decryptSecret = (stored) => {
+  const [iv, tag, encrypted] = stored.split(':').map(part => Buffer.from(part, 'base64'));
+  const decipher = crypto.createDecipheriv('aes-256-gcm', getEncryptionKey(), iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8');
+};
+
+const hashRecoveryCode = (code) =>
+  crypto.createHash('sha256').update(String(code || '').toUpperCase().replace(/[^A-Z0-9]/g, '')).digest('hex');
+
+// Recovery codes look like 7K3M-Q9TX, using the same unambiguous alphabet as gift codes
+const RECOVERY_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const generateRecoveryCode = () => {
+  const chars = Array.from(crypto.randomBytes(8), byte => RECOVERY_ALPHABET[byte % RECOVERY_ALPHABET.length]).join('');
+  return `${chars.slice(0, 4)}-${chars.slice(4, 8)}`;
+};
+
+class TwoFactorService {
+  /**
+   * Whether an account has to pass a second step at login
+   * @param {Object} user - User document
+   * @returns {boolean}
+   */
+  isRequired(user) {
+    return user.role === 'admin' || !!user.twoFactor?.enabled;
+  }
+
+  /**
+   * Short-lived token proving the password step passed; exchanged for a session once a code is verified
+   * @param {Object} subject - { userId } for students, { admin: true } for the environment admin,
+   *   { admin: true, userId } for staff signing in to the admin panel
+   * @returns {string}
+   */
+  issueChallengeToken(subject) {
+    return jwt.sign(
+      { ...subject, type: '2fa-pending' },
+      process.env.JWT_SECRET,
+      { expiresIn: '10m', jwtid: crypto.randomUUID() }
+    );
+  }
+
+  /**
+   * @param {string} token - Token from issueChallengeToken
+   * @param {boolean} [forAdmin=false] - Expect an admin challenge rather than a student one
+   * @returns {Promise<Object>} Decoded subject
+   * @throws {TwoFactorError} when missing, expired, already used or not a challenge token of the expected kind
+   */
+  async verifyChallengeToken(token, forAdmin = false) {
+    let decoded;
+    try {
+      decoded = jwt.verify(token, process.env.JWT_SECRET);
+      if (decoded.type !== '2fa-pending' || !decoded.jti || !!decoded.admin !== forAdmin) {
+        throw new Error('Wrong token type');
+      }
+    } catch (error) {
+      throw new TwoFactorError('Your sign-in session has expired. Please log in again.', 401);
+    }
+
+    if (await TwoFactorChallenge.exists({ jti: decoded.jti })) {
+      throw new TwoFactorError('This sign-in session has already been used. Please log in again.', 401);
+    }
+    return decoded;
+  }
+
+  /**
+   * Mark a challenge token as used once it has been exchanged for a session
+   * @param {string} token - Token from issueChallengeToken, already checked with verifyChallengeToken
+   * @throws {TwoFactorError} when another request already used the token
+   */
+  async consumeChallengeToken(token) {
+    const { jti, exp } = jwt.decode(token);
+    try {
+      await TwoFactorChallenge.create({ jti, expiresAt: new Date(exp * 1000) });
+    } catch (error) {
+      if (error.code === 11000) {
+        throw new TwoFactorError('This sign-in session has already been used. Please log in again.', 401);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Load a user with the encrypted secret and recovery code hashes
+   * @param {string} userId
+   * @returns {Promise<Object>}
+   */
+  async loadUser(userId) {
+    const user = await User.findById(userId).select(SECRET_FIELDS);
+    if (!user) {
+      throw new TwoFactorError('User not found', 404);
+    }
+    return user;
+  }
+
+  /**
+   * Load (or create on first use) the environment admin's security record
+   * @returns {Promise<Object>}
+   */
+  async loadAdminAccount() {
+    const email = String(process.env.ADMIN_EMAIL || '').toLowerCase();
+    await AdminAccount.updateOne({ email }, { $setOnInsert: { email } }, { upsert: true });
+    return AdminAccount.findOne({ email }).select(SECRET_FIELDS);
+  }
+
+  /**
+   * Load a staff member signing in to the admin panel
+   * @param {string} userId
+   * @returns {Promise<Object>}
+   * @throws {TwoFactorError} when the account no longer has an admin role or is not active
+   */
+  async loadStaffAccount(userId) {
+    const user = await this.loadUser(userId);
+    if (!user.adminRole || user.status !== 'active') {
+      throw new TwoFactorError('Admin access has been revoked', 403);
+    }
+    return user;
+  }
+
+  /**
+   * Two-factor summary for the profile page
+   * @param {Object} account - User document loaded with loadUser
+   * @returns {Object}
+   */
+  getStatus(account) {
+    return {
+      enabled: !!account.twoFactor?.enabled,
+      required: account.role === 'admin',
+      enabledAt: account.twoFactor?.enabledAt || null,
+      recoveryCodesRemaining: account.twoFactor?.recoveryCodes?.length || 0
+    };
+  }
+
+  /**
+   * Start enrollment: generate a secret and the QR code to scan
+   * @param {Object} account - User or AdminAccount loaded with its secrets
+   * @returns {Promise<Object>} { secret, otpauthUrl, qrCode } - qrCode is a PNG data URL
+   */
+  async beginSetup(account) {
+    if (account.twoFactor?.enabled) {
+      throw new TwoFactorError('Two-factor authentication is already enabled');
+    }
+
+    const secret = totp.generateSecret();
+    account.twoFactor.pendingSecret = encryptSecret(secret);
+    await account.save();
+
+    const otpauthUrl = totp.buildOtpauthUrl({ secret, accountName: account.email, issuer: ISSUER });
+    const qrCode = await QRCode.toDataURL(otpauthUrl, { margin: 1, width: 240 });
+
+    console.log(`🔐 [2FA] Setup started for ${account.email}`);
+    return { secret, otpauthUrl, qrCode };
+  }
+
+  /**
+   * Finish enrollment once the user proves their app produces valid codes
+   * @param {Object} account - User or AdminAccount loaded with its secrets
+   * @param {string} code - Code from the authenticator app
+   * @returns {Promise<string[]>} Recovery codes, shown to the user once
+   */
+  async confirmSetup(account, code) {
+    if (account.twoFactor?.enabled) {
+      throw new TwoFactorError('Two-factor authentication is already enabled');
+    }
+    if (!account.twoFactor?.pendingSecret) {
+      throw new TwoFactorError('Start two-factor setup first');
+    }
+
+    const secret = decryptSecret(account.twoFactor.pendingSecret);
+    const step = totp.verifyTotp(secret, code);
+    if (step === null) {
+      throw new TwoFactorError('Invalid verification code. Check your authenticator app and try again.');
+    }
+
+    const recoveryCodes = Array.from({ length: RECOVERY_CODE_COUNT }, generateRecoveryCode);
+    account.twoFactor.enabled = true;
+    account.twoFactor.secret = account.twoFactor.pendingSecret;
+    account.twoFactor.pendingSecret = null;
+    account.twoFactor.recoveryCodes = recoveryCodes.map(hashRecoveryCode);
+    account.twoFactor.enabledAt = new Date();
+    account.twoFactor.lastUsedStep = step;
+    account.twoFactor.failedAttempts = 0;
+    account.twoFactor.lockedUntil = null;
+    await account.save();
+
+    console.log(`✅ [2FA] Enabled for ${account.email}`);
+    return recoveryCodes;
+  }
+
+  /**
+   * Check an authenticator or recovery code; recovery codes are consumed.
+   * The lock check and the counter updates run as single conditional updates, so
+   * parallel guesses can't slip past MAX_FAILED_ATTEMPTS or reuse a code.
+   * @param {Object} account - User or AdminAccount loaded with its secrets
+   * @param {string} code - 6-digit code or recovery code
+   * @returns {Promise<string>} 'totp' or 'recovery'
+   * @throws {TwoFactorError} when the code is wrong or the account is temporarily locked
+   */
+  async verifyCode(account, code) {
+    const twoFactor = account.twoFactor;
+    if (!twoFactor?.enabled || !twoFactor.secret) {
+      throw new TwoFactorError('Two-factor authentication is not enabled');
+    }
+
+    const Model = account.constructor;
+    const now = new Date();
+    const input = String(code || '').trim();
+    const filter = { _id: account._id, 'twoFactor.enabled': true, 'twoFactor.lockedUntil': { $not: { $gt: now } } };
+    const reset = { 'twoFactor.failedAttempts': 0, 'twoFactor.lockedUntil': null };
+    let method;
+    let update;
+
+    const step = totp.verifyTotp(decryptSecret(twoFactor.secret), input);
+    if (step !== null) {
+      // Each 30-second code works once
+      filter['twoFactor.lastUsedStep'] = { $not: { $gte: step } };
+      update = { $set: { ...reset, 'twoFactor.lastUsedStep': step } };
+      method = 'totp';
+    } else {
+      const hash = hashRecoveryCode(input);
+      filter['twoFactor.recoveryCodes'] = hash;
+      update = { $set: reset, $pull: { 'twoFactor.recoveryCodes': hash } };
+      method = 'recovery';
+    }
+
+    const verified = await Model.findOneAndUpdate(filter, update, { new: true }).select(SECRET_FIELDS);
+    if (!verified) {
+      await this.recordFailedAttempt(Model, account, now);
+    }
+
+    // Keep the caller's copy in step with what was written
+    account.twoFactor = verified.twoFactor;
+
+    if (method === 'recovery') {
+      console.log(`🔑 [2FA] Recovery code used by ${account.email} (${verified.twoFactor.recoveryCodes.length} left)`);
+    }
+    return method;
+  }
+
+  /**
+   * Count an invalid code and lock the account after MAX_FAILED_ATTEMPTS
+   * @throws {TwoFactorError} always: 429 while the account is locked, otherwise 401
+   */
+  async recordFailedAttempt(Model, account, now) {
+    const counted = await Model.findOneAndUpdate(
+      { _id: account._id, 'twoFactor.lockedUntil': { $not: { $gt: now } } },
+      { $inc: { 'twoFactor.failedAttempts': 1 } },
+      { new: true }
+    );
+    if (!counted) {
+      throw new TwoFactorError('Too many invalid codes. Please try again in a few minutes.', 429);
+    }
+
+    if (counted.twoFactor.failedAttempts >= MAX_FAILED_ATTEMPTS) {
+      const locked = await Model.findOneAndUpdate(
+        { _id: account._id, 'twoFactor.failedAttempts': { $gte: MAX_FAILED_ATTEMPTS } },
+        { $set: { 'twoFactor.failedAttempts': 0, 'twoFactor.lockedUntil': new Date(now.getTime() + LOCK_MINUTES * 60 * 1000) } }
+      );
+      if (locked) {
+        console.log(`🔒 [2FA] Locked ${account.email} for ${LOCK_MINUTES} minutes after repeated invalid codes`);
+      }
+    }
+    throw new TwoFactorError('Invalid verification code', 401);
+  }
+
+  /**
+   * Turn two-factor off after confirming a current code
+   * @param {Object} account - User document loaded with its secrets
+   * @param {string} code
+   */
+  async disable(account, code) {
+    if (account.role === 'admin') {
+      throw new TwoFactorError('Two-factor authentication is required for admin accounts', 403);
+    }
+    await this.verifyCode(account, code);
+
+    account.twoFactor = {};
+    await account.save();
+    console.log(`🔓 [2FA] Disabled for ${account.email}`);
+  }
+
+  /**
+   * Replace all recovery codes after confirming a current code
+   * @param {Object} account - User or AdminAccount loaded with its secrets
+   * @param {string} code
+   * @returns {Promise<string[]>} New recovery codes
+   */
+  async regenerateRecoveryCodes(account, code) {
+    await this.verifyCode(account, code);
+
+    const recoveryCodes = Array.from({ length: RECOVERY_CODE_COUNT }, generateRecoveryCode);
+    account.twoFactor.recoveryCodes = recoveryCodes.map(hashRecoveryCode);
+    await account.save();
+
+    console.log(`🔑 [2FA] Recovery codes regenerated for ${account.email}`);
+    return recoveryCodes;
+  }
+}
+
+// Export singleton instance
+module.exports = new TwoFactorService();
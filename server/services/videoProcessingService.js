@@ -0,0 +1,483 @@
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const mongoose = require('mongoose');
+const ffmpeg = require('fluent-ffmpeg');
+const { PutObjectCommand } = require('@aws-sdk/client-s3');
+const { s3Client } = require('../utils/s3Enhanced');
+const { getSignedUrlForFile } = require('../utils/s3CourseManager');
+const Video = require('../models/Video');
+const VideoProcessingJob = require('../models/VideoProcessingJob');
+const hlsService = require('./hlsService');
+
+const PIPELINE_STEPS = ['metadata', 'poster', 'transcode'];
+const POLL_INTERVAL = 5000; // 5 seconds
+const HEARTBEAT_INTERVAL = 30 * 1000; // 30 seconds
+const STALE_JOB_AFTER = 10 * 60 * 1000; // 10 minutes without heartbeat
+const STALE_CHECK_INTERVAL = 60 * 1000; // 1 minute
+const SOURCE_URL_EXPIRY = 6 * 60 * 60; // 6 hours, long enough for large transcodes
+
+class JobCancelledError extends Error {
+  constructor() {
+    super('Processing cancelled by admin');
+    this.name = 'JobCancelledError';
+  }
+}
+
+/**
+ * Mongo-backed queue that runs uploaded videos through the processing pipeline:
+ * metadata extraction -> poster frame -> HLS transcode.
+ * Only one job runs at a time per server process; transcoding is CPU-heavy.
+ */
+class VideoProcessingService {
+  constructor() {
+    this.workerId = `${os.hostname()}-${process.pid}`;
+    this.pollTimer = null;
+    this.currentJobId = null;
+    this.isPolling = false;
+    this.lastStaleCheckAt = 0;
+  }
+
+  /**
+   * Start the worker loop (call once MongoDB is connected)
+   */
+  async start() {
+    if (this.pollTimer) {
+      return;
+    }
+
+    console.log(`🚀 [VideoProcessing] Starting worker ${this.workerId}...`);
+
+    this.pollTimer = setInterval(() => this.poll(), POLL_INTERVAL);
+    this.poll();
+  }
+
+  /**
+   * Requeue jobs whose worker stopped heart-beating (crashed or restarted mid-job).
+   * Runs from the poll loop, so a job is picked up again even when the worker came back quickly.
+   */
+  async releaseStaleJobs() {
+    if (Date.now() - this.lastStaleCheckAt < STALE_CHECK_INTERVAL) {
+      return;
+    }
+    this.lastStaleCheckAt = Date.now();
+
+    const released = await VideoProcessingJob.releaseStaleJobs(new Date(Date.now() - STALE_JOB_AFTER));
+    if (released.modifiedCount > 0) {
+      console.log(`🔄 [VideoProcessing] Requeued ${released.modifiedCount} stale job(s)`);
+    }
+  }
+
+  /**
+   * Stop polling for new jobs
+   */
+  stop() {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+  }
+
+  /**
+   * Add a video to the processing queue
+   * @param {string} videoId - Video ID
+   * @param {string} requestedBy - Admin email or 'system'
+   * @returns {Promise<Object>} The queued (or already active) job
+   */
+  async enqueue(videoId, requestedBy = 'system') {
+    const existingJob = await VideoProcessingJob.findActiveForVideo(videoId);
+    if (existingJob) {
+      console.log(`⏭️ [VideoProcessing] Video ${videoId} already has an active job: ${existingJob._id}`);
+      return existingJob;
+    }
+
+    const video = await Video.findById(videoId);
+    if (!video) {
+      throw new Error('Video not found');
+    }
+
+    const job = await VideoProcessingJob.create({
+      videoId: video._id,
+      courseId: video.courseId,
+      requestedBy,
+      previousVideoStatus: video.processingStatus
+    });
+
+    video.processingError = undefined;
+    await video.updateProcessingStatus('pending');
+
+    console.log(`📋 [VideoProcessing] Queued video ${videoId} (job ${job._id})`);
+    setImmediate(() => this.poll());
+    return job;
+  }
+
+  /**
+   * Claim and run the next queued job, if the worker is idle
+   */
+  async poll() {
+    if (this.isPolling || this.currentJobId || mongoose.connection.readyState !== 1) {
+      return;
+    }
+
+    this.isPolling = true;
+    try {
+      await this.releaseStaleJobs();
+
+      const job = await VideoProcessingJob.claimNext(this.workerId);
+      if (job) {
+        await this.runJob(job);
+      }
+    } catch (error) {
+      console.error('❌ [VideoProcessing] Poll error:', error);
+    } finally {
+      this.isPolling = false;
+    }
+  }
+
+  /**
+   * Run every pending step of a job, resuming after the last completed step
+   */
+  async runJob(job) {
+    this.currentJobId = job._id.toString();
+    const heartbeat = setInterval(() => {
+      VideoProcessingJob.updateOne({ _id: job._id }, { $set: { heartbeatAt: new Date() } }).catch(() => {});
+    }, HEARTBEAT_INTERVAL);
+
+    console.log(`🎬 [VideoProcessing] Running job ${job._id} for video ${job.videoId} (attempt ${job.attempts}/${job.maxAttempts})`);
+
+    let video = null;
+    try {
+      video = await Video.findById(job.videoId);
+      if (!video) {
+        throw new Error('Video not found');
+      }
+      await video.updateProcessingStatus('processing');
+
+      const sourceUrl = await getSignedUrlForFile(video.s3Key, SOURCE_URL_EXPIRY, video.mimeType);
+      if (!sourceUrl) {
+        throw new Error('Unable to resolve video source from S3');
+      }
+
+      for (const step of PIPELINE_STEPS) {
+        if (job.completedSteps.includes(step)) {
+          continue;
+        }
+        await this.throwIfCancelled(job._id);
+
+        job.currentStep = step;
+        await job.save();
+
+        await this.runStep(step, video, sourceUrl, job);
+
+        job.completedSteps.push(step);
+        job.progress = Math.round((job.completedSteps.length / PIPELINE_STEPS.length) * 100);
+        await job.save();
+      }
+
+      job.status = 'completed';
+      job.currentStep = null;
+      job.finishedAt = new Date();
+      job.lastError = undefined;
+      await job.save();
+
+      video = await Video.findById(job.videoId);
+      video.processingError = undefined;
+      await video.updateProcessingStatus('completed');
+      await this.syncSharedCopies(video);
+
+      console.log(`✅ [VideoProcessing] Job ${job._id} completed for video ${job.videoId}`);
+    } catch (error) {
+      await this.handleJobError(job, video, error);
+    } finally {
+      clearInterval(heartbeat);
+      this.currentJobId = null;
+    }
+  }
+
+  /**
+   * Execute one pipeline step
+   */
+  async runStep(step, video, sourceUrl, job) {
+    switch (step) {
+      case 'metadata':
+        return this.extractMetadata(video, sourceUrl);
+      case 'poster':
+        return this.generatePoster(video, sourceUrl);
+      case 'transcode':
+        if (!hlsService.isEnabled()) {
+          console.log(`⏭️ [VideoProcessing] HLS packaging disabled, skipping transcode for ${video._id}`);
+          return null;
+        }
+        return hlsService.packageVideo(video._id, {
+          sourcePath: sourceUrl,
+          shouldCancel: () => this.isCancelRequested(job._id)
+        });
+      default:
+        throw new Error(`Unknown processing step: ${step}`);
+    }
+  }
+
+  /**
+   * Read width/height/fps/codecs/bitrate (and duration if missing) with ffprobe
+   */
+  async extractMetadata(video, sourceUrl) {
+    const metadata = await hlsService.probe(sourceUrl);
+    const videoStream = metadata.streams?.find(stream => stream.codec_type === 'video');
+    const audioStream = metadata.streams?.find(stream => stream.codec_type === 'audio');
+
+    if (videoStream) {
+      video.width = videoStream.width;
+      video.height = videoStream.height;
+      video.videoCodec = videoStream.codec_name;
+
+      // r_frame_rate is a fraction like "30000/1001"
+      const [num, den] = (videoStream.r_frame_rate || '').split('/').map(Number);
+      if (num && den) {
+        video.fps = Math.round((num / den) * 100) / 100;
+      }
+    }
+    if (audioStream) {
+      video.audioCodec = audioStream.codec_name;
+    }
+    if (metadata.format?.bit_rate) {
+      video.bitrate = String(metadata.format.bit_rate);
+    }
+
+    const probedDuration = Math.floor(parseFloat(metadata.format?.duration));
+    if ((!video.duration || video.duration === 0) && probedDuration > 0) {
+      video.duration = probedDuration;
+    }
+
+    await video.save();
+    console.log(`✅ [VideoProcessing] Metadata extracted for ${video._id}: ${video.width}x${video.height} @ ${video.fps}fps`);
+  }
+
+  /**
+   * Grab a frame at 10% of the runtime and upload it as the poster image
+   */
+  async generatePoster(video, sourceUrl) {
+    if (!s3Client) {
+      throw new Error('S3 client not configured');
+    }
+
+    const workDir = fs.mkdtempSync(path.join(os.tmpdir(), `poster_${video._id}_`));
+    const posterPath = path.join(workDir, 'poster.jpg');
+    const seekTo = video.duration > 0 ? Math.floor(video.duration * 0.1) : 1;
+
+    try {
+      await new Promise((resolve, reject) => {
+        ffmpeg(sourceUrl)
+          .seekInput(seekTo)
+          .outputOptions(['-frames:v 1', '-q:v 3', '-vf scale=-2:720'])
+          .output(posterPath)
+          .on('end', resolve)
+          .on('error', (err) => reject(new Error(`Failed to generate poster: ${err.message}`)))
+          .run();
+      });
+
+      const posterS3Key = `${path.posix.dirname(video.s3Key)}/posters/${video._id}.jpg`;
+      await s3Client.send(new PutObjectCommand({
+        Bucket: process.env.AWS_S3_BUCKET,
+        Key: posterS3Key,
+        Body: fs.readFileSync(posterPath),
+        ContentType: 'image/jpeg'
+      }));
+
+      video.posterS3Key = posterS3Key;
+      await video.save();
+      console.log(`✅ [VideoProcessing] Poster generated for ${video._id}`);
+    } finally {
+      fs.rmSync(workDir, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * Copies of a video in other course versions share the source file,
+   * so they share its processing output too
+   */
+  async syncSharedCopies(video) {
+    await Video.updateMany(
+      { s3Key: video.s3Key, _id: { $ne: video._id } },
+      {
+        $set: {
+          width: video.width,
+          height: video.height,
+          fps: video.fps,
+          videoCodec: video.videoCodec,
+          audioCodec: video.audioCodec,
+          bitrate: video.bitrate,
+          posterS3Key: video.posterS3Key,
+          processingStatus: video.processingStatus
+        }
+      }
+    );
+  }
+
+  /**
+   * Record a failure: retry with backoff until maxAttempts, then mark failed
+   */
+  async handleJobError(job, video, error) {
+    const cancelled = error instanceof JobCancelledError || await this.isCancelRequested(job._id);
+
+    job.currentStep = null;
+    job.lockedBy = undefined;
+    job.lockedAt = undefined;
+
+    if (cancelled) {
+      job.status = 'cancelled';
+      job.finishedAt = new Date();
+      job.lastError = 'Cancelled by admin';
+      console.log(`🚫 [VideoProcessing] Job ${job._id} cancelled`);
+    } else if (job.attempts < job.maxAttempts) {
+      // Exponential backoff: 1, 4, 9... minutes
+      job.status = 'queued';
+      job.runAfter = new Date(Date.now() + job.attempts * job.attempts * 60 * 1000);
+      job.lastError = error.message;
+      console.warn(`⚠️ [VideoProcessing] Job ${job._id} failed (attempt ${job.attempts}), retrying at ${job.runAfter.toISOString()}:`, error.message);
+    } else {
+      job.status = 'failed';
+      job.finishedAt = new Date();
+      job.lastError = error.message;
+      console.error(`❌ [VideoProcessing] Job ${job._id} failed permanently:`, error.message);
+    }
+
+    try {
+      await job.save();
+      if (video) {
+        if (job.status === 'queued') {
+          await video.updateProcessingStatus('pending', error.message);
+        } else if (job.status === 'cancelled') {
+          await this.restoreVideoStatus(video, job);
+        } else {
+          await video.updateProcessingStatus('failed', job.lastError);
+        }
+      }
+    } catch (saveError) {
+      console.error(`❌ [VideoProcessing] Error recording failure for job ${job._id}:`, saveError);
+    }
+  }
+
+  async isCancelRequested(jobId) {
+    const job = await VideoProcessingJob.findById(jobId).select('cancelRequested status');
+    return !job || job.cancelRequested || job.status === 'cancelled';
+  }
+
+  async throwIfCancelled(jobId) {
+    if (await this.isCancelRequested(jobId)) {
+      throw new JobCancelledError();
+    }
+  }
+
+  /**
+   * Put a failed or cancelled job back in the queue (admin action).
+   * Completed steps are kept so the pipeline resumes where it stopped.
+   */
+  async retryJob(jobId, requestedBy = 'admin') {
+    const job = await VideoProcessingJob.findById(jobId);
+    if (!job) {
+      throw new Error('Job not found');
+    }
+    if (job.status !== 'failed' && job.status !== 'cancelled') {
+      throw new Error(`Only failed or cancelled jobs can be retried (job is ${job.status})`);
+    }
+
+    const activeJob = await VideoProcessingJob.findActiveForVideo(job.videoId);
+    if (activeJob) {
+      throw new Error('This video already has an active processing job');
+    }
+
+    const video = await Video.findById(job.videoId);
+
+    job.status = 'queued';
+    job.attempts = 0;
+    job.runAfter = new Date();
+    job.cancelRequested = false;
+    job.lastError = undefined;
+    job.finishedAt = undefined;
+    job.requestedBy = requestedBy;
+    if (video) {
+      job.previousVideoStatus = video.processingStatus;
+    }
+    await job.save();
+
+    if (video) {
+      video.processingError = undefined;
+      await video.updateProcessingStatus('pending');
+    }
+
+    setImmediate(() => this.poll());
+    return job;
+  }
+
+  /**
+   * Put a video back the way it was before a cancelled job was queued.
+   * A re-processed video that was already playable stays playable for students who bought it.
+   */
+  async restoreVideoStatus(video, job) {
+    if (job.previousVideoStatus === 'completed') {
+      video.processingError = undefined;
+      await video.updateProcessingStatus('completed');
+    } else {
+      await video.updateProcessingStatus('failed', 'Cancelled by admin');
+    }
+  }
+
+  /**
+   * Cancel a job. Queued jobs stop immediately; running jobs stop at the next checkpoint.
+   */
+  async cancelJob(jobId) {
+    const job = await VideoProcessingJob.findById(jobId);
+    if (!job) {
+      throw new Error('Job not found');
+    }
+    if (!job.isActive) {
+      throw new Error(`Only queued or running jobs can be cancelled (job is ${job.status})`);
+    }
+
+    if (job.status === 'queued') {
+      job.status = 'cancelled';
+      job.finishedAt = new Date();
+      job.lastError = 'Cancelled by admin';
+      await job.save();
+
+      const video = await Video.findById(job.videoId);
+      if (video) {
+        await this.restoreVideoStatus(video, job);
+      }
+    } else {
+      job.cancelRequested = true;
+      await job.save();
+    }
+
+    return job;
+  }
+
+  /**
+   * Get queue state for the admin processing view
+   * @param {Object} options - { status, limit }
+   */
+  async getQueueState({ status, limit = 50 } = {}) {
+    const filter = status ? { status } : {};
+    const [counts, jobs] = await Promise.all([
+      VideoProcessingJob.getStatusCounts(),
+      VideoProcessingJob.find(filter)
+        .populate('videoId', 'title s3Key processingStatus processingError hls.status')
+        .populate('courseId', 'title')
+        .sort({ updatedAt: -1 })
+        .limit(limit)
+    ]);
+
+    return {
+      worker: {
+        workerId: this.workerId,
+        isRunning: !!this.pollTimer,
+        currentJobId: this.currentJobId
+      },
+      counts,
+      jobs
+    };
+  }
+}
+
+// Export singleton instance
+module.exports = new VideoProcessingService();
@@ -38,8 +38,35 @@ function getEnglishText(text) {
   return '';
 }
 
+/**
+ * Helper function to extract text in a given language from bilingual objects.
+ * Tigrinya falls back to English when a value has no Tigrinya translation.
+ * @param text - Same formats as getEnglishText
+ * @param language - 'en' or 'tg'
+ * @returns Text string in the requested language
+ */
+function getLocalizedText(text, language) {
+  if (language !== 'tg') return getEnglishText(text);
+
+  let value = text;
+  if (typeof value === 'string' && value.trim().startsWith('{')) {
+    try {
+      value = JSON.parse(value);
+    } catch (e) {
+      return text;
+    }
+  }
+
+  if (typeof value === 'object' && value !== null) {
+    return value.tg || value.en || '';
+  }
+
+  return getEnglishText(text);
+}
+
 module.exports = {
-  getEnglishText
+  getEnglishText,
+  getLocalizedText
 };
 
 
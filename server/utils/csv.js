@@ -0,0 +1,38 @@
+/**
+ * Minimal CSV writing for admin exports (RFC 4180 quoting).
+ */
+
+// Spreadsheet apps run cells starting with these as formulas; prefix them so exported text stays text
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/**
+ * Escape one cell value
+ * @param {*} value - Dates become ISO strings, objects become JSON, null/undefined become empty
+ * @returns {string}
+ */
+const toCsvCell = (value) => {
+  if (value === null || value === undefined) return '';
+
+  let text;
+  if (value instanceof Date) {
+    text = value.toISOString();
+  } else if (typeof value === 'object') {
+    text = JSON.stringify(value);
+  } else {
+    text = String(value);
+  }
+
+  if (typeof value === 'string' && FORMULA_PREFIX.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Format one CSV line, including the trailing CRLF
+ * @param {Array} values
+ * @returns {string}
+ */
+const toCsvRow = (values) => `${values.map(toCsvCell).join(',')}\r\n`;
+
+module.exports = { toCsvCell, toCsvRow };
@@ -0,0 +1,109 @@
+/**
+ * Currency helpers for per-currency course and bundle pricing.
+ * `price` on a Course/Bundle is the USD base price; `prices` holds optional
+ * admin-set prices in other currencies. Eritrean nakfa (ERN) is not offered
+ * because Stripe can't charge it.
+ */
+
+const DEFAULT_CURRENCY = 'usd';
+
+// minCharge mirrors Stripe's minimum charge amount per currency
+const CURRENCIES = {
+  usd: { code: 'usd', label: 'US Dollar', minCharge: 0.5 },
+  cad: { code: 'cad', label: 'Canadian Dollar', minCharge: 0.5 },
+  eur: { code: 'eur', label: 'Euro', minCharge: 0.5 },
+  etb: { code: 'etb', label: 'Ethiopian Birr', minCharge: 30 }
+};
+
+// Currencies that can carry their own price on a Course/Bundle
+const LOCAL_PRICE_CURRENCIES = Object.keys(CURRENCIES).filter(code => code !== DEFAULT_CURRENCY);
+
+/**
+ * Normalize a currency code; returns null for unsupported currencies
+ * @param {string} code
+ * @returns {string|null}
+ */
+function normalizeCurrency(code) {
+  const normalized = String(code || '').trim().toLowerCase();
+  return CURRENCIES[normalized] ? normalized : null;
+}
+
+/**
+ * Resolve what a course or bundle costs in the requested currency.
+ * Falls back to the USD base price when no local price is set.
+ * @param {Object} item - Course or Bundle (needs price and prices)
+ * @param {string} currency - Requested currency code
+ * @returns {{ amount: number, currency: string }}
+ */
+function getItemPrice(item, currency) {
+  const requested = normalizeCurrency(currency);
+  const localPrice = requested && requested !== DEFAULT_CURRENCY ? item.prices?.[requested] : null;
+  if (localPrice !== null && localPrice !== undefined) {
+    return { amount: localPrice, currency: requested };
+  }
+  return { amount: item.price, currency: DEFAULT_CURRENCY };
+}
+
+/**
+ * Convert a USD amount (e.g. a fixed coupon discount) into the currency an item is charged in,
+ * at the rate implied by the item's admin-set local price
+ * @param {number} amount - USD amount
+ * @param {Object} item - Course or Bundle (needs price and prices)
+ * @param {{ amount: number, currency: string }} price - What the item costs in the checkout currency
+ * @returns {number} Amount in price.currency, rounded to cents
+ */
+function convertBaseAmount(amount, item, price) {
+  if (price.currency === DEFAULT_CURRENCY || !(item.price > 0)) return amount;
+  return Math.round(amount * (price.amount / item.price) * 100) / 100;
+}
+
+/**
+ * Parse the admin-submitted local prices (object or JSON string from multipart forms).
+ * Empty values clear the price so checkout falls back to USD.
+ * @param {Object|string} input - e.g. { cad: '25', eur: '', etb: 1500 }
+ * @returns {Object|undefined} { cad, eur, etb } with numbers or null; undefined when not provided
+ */
+function parseLocalPrices(input) {
+  if (input === undefined || input === null || input === '') return undefined;
+
+  let prices = input;
+  if (typeof input === 'string') {
+    try {
+      prices = JSON.parse(input);
+    } catch (error) {
+      return undefined;
+    }
+  }
+
+  const parsed = {};
+  LOCAL_PRICE_CURRENCIES.forEach(code => {
+    const value = prices?.[code];
+    const amount = value === '' || value === null || value === undefined ? null : parseFloat(value);
+    parsed[code] = Number.isFinite(amount) && amount >= 0 ? amount : null;
+  });
+  return parsed;
+}
+
+/**
+ * Format an amount for receipts, e.g. "$49.00 USD", "€45.00 EUR", "ETB 2,500.00"
+ * @param {number} amount
+ * @param {string} currency
+ * @returns {string}
+ */
+function formatAmount(amount, currency = DEFAULT_CURRENCY) {
+  const code = (normalizeCurrency(currency) || DEFAULT_CURRENCY).toUpperCase();
+  const formatted = new Intl.NumberFormat('en-US', { style: 'currency', currency: code }).format(amount || 0);
+  // Currencies without a symbol already start with their code
+  return formatted.startsWith(code) ? formatted : `${formatted} ${code}`;
+}
+
+module.exports = {
+  DEFAULT_CURRENCY,
+  CURRENCIES,
+  LOCAL_PRICE_CURRENCIES,
+  normalizeCurrency,
+  getItemPrice,
+  convertBaseAmount,
+  parseLocalPrices,
+  formatAmount
+};
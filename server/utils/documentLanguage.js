@@ -0,0 +1,229 @@
+/**
+ * Language helpers for generated documents (certificate and receipt PDFs).
+ * Documents are produced in English, Tigrinya, or both side by side. Tigrinya
+ * needs a font with Ethiopic glyphs: Noto Sans Ethiopic is bundled in assets/fonts,
+ * and GEEZ_FONT_PATH can point at a different one.
+ */
+const fs = require('fs');
+const path = require('path');
+
+const DOCUMENT_LANGUAGES = ['en', 'tg', 'bilingual'];
+const DEFAULT_DOCUMENT_LANGUAGE = 'en';
+
+// The app uses 'tg' for Tigrinya; dates and PDF metadata need its standard tag, 'ti'
+const LOCALE_TAGS = { en: 'en-US', tg: 'ti' };
+
+// Ethiopic, Ethiopic Supplement, Ethiopic Extended and Extended-A
+const GEEZ_CHAR = /[ሀ-᎟ⶀ-⷟꬀-꬯]/;
+// Standard PDF fonts only encode WinAnsi; anything else would make pdf-lib throw
+const NON_WIN_ANSI = /[^\x20-\x7E\xA0-\xFF–—‘’“”•…€]/g;
+
+// Fixed wording of the classic certificate and the payment receipt
+const DOCUMENT_TEXT = {
+  certificate: {
+    en: {
+      subtitle: 'Financial Education Platform',
+      title: 'CERTIFICATE OF COMPLETION',
+      intro: 'This is to certify that',
+      completionText: 'has successfully completed the course',
+      completedOn: 'Completed on',
+      sealTop: 'CERTIFIED',
+      sealBottom: 'COMPLETE',
+      verifyLabel: 'Verify this certificate at:',
+      scanToVerify: 'Scan to verify'
+    },
+    tg: {
+      subtitle: 'መድረኽ ፋይናንሳዊ ትምህርቲ',
+      title: 'ሰርቲፊኬት ምፍጻም ስልጠና',
+      intro: 'እዚ ሰርቲፊኬት ዝምስክሮ',
+      completionText: 'ነዚ ዝስዕብ ስልጠና ብዓወት ከም ዝፈጸሙ እዩ',
+      completedOn: 'ዝተፈጸመሉ ዕለት፡',
+      sealTop: 'ዝተረጋገጸ',
+      sealBottom: 'ዝተፈጸመ',
+      verifyLabel: 'ነዚ ሰርቲፊኬት ኣብዚ ኣረጋግጹ፡',
+      scanToVerify: 'ንምርግጋጽ ስካን ግበሩ'
+    }
+  },
+  receipt: {
+    en: {
+      title: 'Payment Receipt',
+      orderId: 'Order ID',
+      paymentDate: 'Payment Date',
+      course: 'Course',
+      bundle: 'Bundle',
+      originalPrice: 'Original Price',
+      discount: 'Discount',
+      code: 'code',
+      amountPaid: 'Amount Paid',
+      refunded: 'Refunded',
+      paymentMethod: 'Payment Method',
+      customerEmail: 'Customer Email',
+      completed: 'Payment Completed',
+      thankYou: 'Thank you for your purchase!',
+      officialReceipt: 'This is an official receipt for your records.',
+      receiptId: 'Receipt ID'
+    },
+    tg: {
+      title: 'ናይ ክፍሊት ሪሲት',
+      orderId: 'ናይ ትእዛዝ ኣይዲ',
+      paymentDate: 'ናይ ክፍሊት ዕለት',
+      course: 'ስልጠና',
+      bundle: 'እኩብ ስልጠናታት',
+      originalPrice: 'መበገሲ ዋጋ',
+      discount: 'ቅናሽ',
+      code: 'ኮድ',
+      amountPaid: 'ዝተኸፈለ ዋጋ',
+      refunded: 'ዝተመለሰ',
+      paymentMethod: 'ናይ ክፍሊት መገዲ',
+      customerEmail: 'ኢመይል ዓሚል',
+      completed: 'ክፍሊት ተፈጺሙ',
+      thankYou: 'ስለ ዝገዛእኩም ነመስግነኩም!',
+      officialReceipt: 'እዚ ንመዛግብትኹም ዝኸውን ወግዓዊ ሪሲት እዩ።',
+      receiptId: 'ናይ ሪሲት ኣይዲ'
+    }
+  }
+};
+
+// Noto Sans Ethiopic (SIL Open Font License, see NotoSansEthiopic-OFL.txt next to it)
+const BUNDLED_GEEZ_FONT_PATH = path.join(__dirname, '..', 'assets', 'fonts', 'NotoSansEthiopic-Regular.ttf');
+
+let geezFontBytes; // undefined until first read; null when no font could be read
+
+/**
+ * Raised when a Tigrinya document is requested but no Ge'ez font can be loaded
+ */
+class DocumentLanguageError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'DocumentLanguageError';
+  }
+}
+
+/**
+ * Normalize a requested document language (e.g. a ?lang= query value)
+ * @param {string} value
+ * @returns {string} 'en', 'tg' or 'bilingual'
+ */
+function parseDocumentLanguage(value) {
+  const normalized = String(value || '').trim().toLowerCase();
+  if (normalized === 'ti') return 'tg';
+  return DOCUMENT_LANGUAGES.includes(normalized) ? normalized : DEFAULT_DOCUMENT_LANGUAGE;
+}
+
+/**
+ * Server-wide Ge'ez font, read once: GEEZ_FONT_PATH (or the older CERTIFICATE_GEEZ_FONT_PATH)
+ * when set, otherwise the bundled Noto Sans Ethiopic
+ * @returns {Buffer|null}
+ */
+function loadGeezFont() {
+  if (geezFontBytes === undefined) {
+    const configuredPath = process.env.GEEZ_FONT_PATH || process.env.CERTIFICATE_GEEZ_FONT_PATH;
+    geezFontBytes = null;
+    for (const fontPath of [configuredPath, BUNDLED_GEEZ_FONT_PATH].filter(Boolean)) {
+      try {
+        geezFontBytes = fs.readFileSync(fontPath);
+        break;
+      } catch (error) {
+        console.error(`❌ [Documents] Could not read Ge'ez font at ${fontPath}:`, error.message);
+      }
+    }
+  }
+  return geezFontBytes;
+}
+
+/**
+ * Check a document can be drawn in the requested language: Tigrinya needs a Ge'ez font
+ * @param {string} language - Parsed document language
+ * @param {boolean} hasGeezFont
+ * @returns {string} The language
+ * @throws {DocumentLanguageError} for Tigrinya or bilingual documents without a Ge'ez font
+ */
+function resolveDocumentLanguage(language, hasGeezFont) {
+  if (language === 'en' || hasGeezFont) return language;
+  throw new DocumentLanguageError('Tigrinya documents are unavailable right now because the Ge\'ez font could not be loaded');
+}
+
+/**
+ * Fixed document wording for one language
+ * @param {string} documentType - 'certificate' or 'receipt'
+ * @param {string} language - 'en' or 'tg'
+ * @returns {Object}
+ */
+function getDocumentText(documentType, language) {
+  return DOCUMENT_TEXT[documentType][language === 'tg' ? 'tg' : 'en'];
+}
+
+/**
+ * Pick a value for the document language; bilingual documents show both, English first
+ * @param {{ en: string, tg?: string }} values
+ * @param {string} language - 'en', 'tg' or 'bilingual'
+ * @param {string} separator - Between the English and Tigrinya text on bilingual documents
+ * @returns {string}
+ */
+function formatBilingual(values, language, separator = ' / ') {
+  if (language === 'bilingual') {
+    return values.tg && values.tg !== values.en ? `${values.en}${separator}${values.tg}` : values.en;
+  }
+  return (language === 'tg' && values.tg) || values.en;
+}
+
+/**
+ * Format a date for a document, with Ge'ez month names in Tigrinya
+ * @param {Date|string} date
+ * @param {string} language - 'en' or 'tg'
+ * @param {Object} options - Intl.DateTimeFormat options
+ * @returns {string}
+ */
+function formatDocumentDate(date, language, options = { year: 'numeric', month: 'long', day: 'numeric' }) {
+  return new Date(date).toLocaleDateString(LOCALE_TAGS[language] || LOCALE_TAGS.en, options);
+}
+
+/**
+ * Split text into runs of Ge'ez and non-Ge'ez characters so each run can use a font that has its glyphs.
+ * Spaces stay with the run they follow.
+ * @param {string} text
+ * @returns {Array<{ text: string, geez: boolean }>}
+ */
+function splitScriptRuns(text) {
+  const runs = [];
+  for (const char of text) {
+    const geez = GEEZ_CHAR.test(char) || (char === ' ' && runs.length > 0 && runs[runs.length - 1].geez);
+    const last = runs[runs.length - 1];
+    if (last && last.geez === geez) {
+      last.text += char;
+    } else {
+      runs.push({ text: char, geez });
+    }
+  }
+  return runs;
+}
+
+/**
+ * Runs ready for pdf-lib: Ge'ez text uses the Ge'ez font, everything else the given standard font.
+ * Without a Ge'ez font the Ge'ez runs are dropped.
+ * @param {string} text
+ * @param {PDFFont} font - Standard (WinAnsi) font
+ * @param {PDFFont|null} geezFont
+ * @returns {Array<{ text: string, font: PDFFont }>}
+ */
+function toFontRuns(text, font, geezFont) {
+  return splitScriptRuns(text)
+    .map(run => (run.geez
+      ? { text: run.text, font: geezFont }
+      : { text: run.text.replace(NON_WIN_ANSI, ''), font }))
+    .filter(run => run.text && run.font);
+}
+
+module.exports = {
+  DOCUMENT_LANGUAGES,
+  LOCALE_TAGS,
+  GEEZ_CHAR,
+  parseDocumentLanguage,
+  loadGeezFont,
+  resolveDocumentLanguage,
+  getDocumentText,
+  formatBilingual,
+  formatDocumentDate,
+  splitScriptRuns,
+  toFontRuns
+};
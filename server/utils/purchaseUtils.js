@@ -1,9 +1,11 @@
 const User = require('../models/User');
 const Course = require('../models/Course');
+const Bundle = require('../models/Bundle');
+const Subscription = require('../models/Subscription');
 
 /**
  * Check if a user has purchased a specific course
- * This checks both the purchasedCourses array and enrollment records
+ * This checks enrollment records, the purchasedCourses array and an active membership
  * @param {string} userId - User ID
  * @param {string} courseId - Course ID
  * @returns {Promise<boolean>} - True if user has purchased or has access to the course
@@ -70,7 +72,16 @@ async function userHasPurchased(userId, courseId) {
       purchasedCoursesLength: user.purchasedCourses?.length || 0
     });
     
-    return hasPurchased;
+    if (hasPurchased) {
+      return true;
+    }
+    
+    // Membership: an active subscription unlocks every course
+    const hasMembership = await Subscription.hasActiveMembership(userId);
+    if (hasMembership) {
+      console.log(`✅ [userHasPurchased] User has an active membership:`, { userId, courseId });
+    }
+    return hasMembership;
   } catch (error) {
     console.error('❌ [userHasPurchased] Error checking user purchase status:', error);
     return false;
@@ -262,7 +273,8 @@ async function getUserPurchasedVersion(userId, courseId) {
     const payment = await Payment.findOne({
       userId: userId,
       courseId: courseId,
-      status: 'completed'
+      giftId: null, // Gifts bought for someone else don't give the buyer access
+      status: { $in: ['completed', 'partially_refunded'] }
     }).sort({ createdAt: -1 });
     
     if (payment && payment.courseVersion) {
@@ -277,6 +289,23 @@ async function getUserPurchasedVersion(userId, courseId) {
       return 1;
     }
     
+    // Gift recipients get the version that was current when they redeemed the code
+    const Gift = require('../models/Gift');
+    const gift = await Gift.findOne({ redeemedBy: userId, courseId, status: 'redeemed' }).sort({ redeemedAt: -1 });
+    if (gift && gift.courseVersion) {
+      console.log(`🎁 [getUserPurchasedVersion] Found gifted version ${gift.courseVersion} for user ${userId}, course ${courseId}`);
+      return gift.courseVersion;
+    }
+    
+    // Members without a purchase follow the course's current version
+    if (await Subscription.hasActiveMembership(userId)) {
+      const course = await Course.findById(courseId).select('currentVersion');
+      if (course) {
+        console.log(`✅ [getUserPurchasedVersion] Membership access, using current version ${course.currentVersion} for user ${userId}, course ${courseId}`);
+        return course.currentVersion;
+      }
+    }
+    
     // If no payment record at all, check if user has purchased (might be dev mode)
     const hasPurchased = await userHasPurchased(userId, courseId);
     if (hasPurchased) {
@@ -291,10 +320,71 @@ async function getUserPurchasedVersion(userId, courseId) {
   }
 }
 
+/**
+ * Give a user a purchased course or bundle (and every course in the bundle).
+ * Used for completed checkouts and redeemed gift codes.
+ * @param {string} userId - User ID
+ * @param {Object} item - { courseId } or { bundleId }
+ * @returns {Promise<Object>} { user, course, bundle } - the updated user and the granted item
+ */
+async function grantItemAccess(userId, { courseId, bundleId }) {
+  const updateQuery = bundleId
+    ? { $addToSet: { purchasedBundles: bundleId } }
+    : { $addToSet: { purchasedCourses: courseId } };
+
+  const user = await User.findByIdAndUpdate(userId, updateQuery, { new: true });
+  if (!user) {
+    throw new Error(`User not found: ${userId}`);
+  }
+
+  if (bundleId) {
+    const bundle = await Bundle.findById(bundleId);
+    if (!bundle) {
+      throw new Error(`Bundle not found: ${bundleId}`);
+    }
+
+    // Enroll the student in the bundle
+    await bundle.enrollStudent(userId);
+    console.log(`✅ [grantItemAccess] Student enrolled in bundle: ${bundle.title}`);
+
+    // Add all bundle courses to user's purchased courses
+    await User.findByIdAndUpdate(userId, { $addToSet: { purchasedCourses: { $each: bundle.courseIds } } });
+
+    // Enroll in all courses in the bundle
+    for (const courseIdInBundle of bundle.courseIds) {
+      const courseInBundle = await Course.findById(courseIdInBundle);
+      if (courseInBundle) {
+        try {
+          await courseInBundle.enrollStudent(userId);
+        } catch (err) {
+          // Already enrolled, skip
+          console.log(`⚠️ [grantItemAccess] User already enrolled in course: ${courseInBundle.title}`);
+        }
+      }
+    }
+
+    console.log(`✅ [grantItemAccess] Bundle access granted to ${user.email} (${user.purchasedBundles?.length || 0} bundles)`);
+    return { user, course: null, bundle };
+  }
+
+  const course = await Course.findById(courseId);
+  if (!course) {
+    throw new Error(`Course not found: ${courseId}`);
+  }
+
+  // Enroll the student in the course (increments totalEnrollments)
+  await course.enrollStudent(userId);
+  console.log(`✅ [grantItemAccess] Student enrolled in course: ${course.title}`);
+  console.log(`   - New enrollment count: ${course.totalEnrollments}`);
+  console.log(`✅ [grantItemAccess] Course access granted to ${user.email} (${user.purchasedCourses.length} courses)`);
+  return { user, course, bundle: null };
+}
+
 module.exports = {
   userHasPurchased,
   filterVideosByAccess,
   getVideosWithAccess,
   checkVideoAccess,
-  getUserPurchasedVersion
+  getUserPurchasedVersion,
+  grantItemAccess
 };
@@ -103,6 +103,14 @@ const uploadToS3 = (file, key, acl = 'private') => {
   });
 };
 
+const downloadFromS3 = async (key) => {
+  const result = await s3.getObject({
+    Bucket: process.env.AWS_S3_BUCKET,
+    Key: key,
+  }).promise();
+  return result.Body;
+};
+
 const deleteFromS3 = (key) => {
   return s3.deleteObject({
     Bucket: process.env.AWS_S3_BUCKET,
@@ -129,6 +137,9 @@ const generateS3Key = (fileType, fileName, context = {}) => {
     case 'profile-pic':
       key = `profile-pics/${timestamp}_${sanitizedFileName}`;
       break;
+    case 'instructor-photo':
+      key = `instructors/photos/${timestamp}_${sanitizedFileName}`;
+      break;
     case 'thumbnail':
       let courseName = 'unknown';
       if (context.courseName) {
@@ -177,6 +188,10 @@ const generateS3Key = (fileType, fileName, context = {}) => {
       }
       key = `certificates/${certCourseName}/${timestamp}_${sanitizedFileName}`;
       break;
+    case 'certificate-template':
+      // Template artwork, signatures and fonts are read by the server when it renders certificates
+      key = `certificates/templates/${timestamp}_${sanitizedFileName}`;
+      break;
     case 'bundle-thumbnails':
       // Bundle thumbnails go in bundles/thumbnails/ folder
       // Context can be an object with bundleIdentifier, bundleId, or slug
@@ -204,8 +219,9 @@ const uploadFileWithOrganization = async (file, fileType, context = {}) => {
   const contextObj = typeof context === 'string' ? { bundleIdentifier: context } : context;
   const s3Key = generateS3Key(fileType, file.originalname, contextObj);
   
-  // Determine desired ACL - thumbnails, bundle-thumbnails, and certificates should be public-read
-  const desiredAcl = (fileType === 'thumbnail' || fileType === 'bundle-thumbnails' || fileType === 'certificate') ? 'public-read' : 'private';
+  // Determine desired ACL - thumbnails, bundle-thumbnails, certificates, and instructor photos should be public-read
+  const isPublicFile = ['thumbnail', 'bundle-thumbnails', 'certificate', 'instructor-photo'].includes(fileType);
+  const desiredAcl = isPublicFile ? 'public-read' : 'private';
 
   let usedAcl = desiredAcl;
   try {
@@ -217,9 +233,9 @@ const uploadFileWithOrganization = async (file, fileType, context = {}) => {
     };
   } catch (error) {
     // If bucket has Object Ownership (ACLs disabled) or blocks public ACLs,
-    // retry without ACL for thumbnails, bundle-thumbnails, and certificates.
+    // retry without ACL for the public file types.
     const looksLikeAclIssue = /ACL|AccessControlList|InvalidArgument|AccessDenied/i.test(error?.message || '');
-    if ((fileType === 'thumbnail' || fileType === 'bundle-thumbnails' || fileType === 'certificate') && looksLikeAclIssue) {
+    if (isPublicFile && looksLikeAclIssue) {
       try {
         usedAcl = undefined; // omit ACL
         const result = await uploadToS3(file, s3Key, undefined);
@@ -254,6 +270,7 @@ module.exports = {
   s3,
   getSignedUrl,
   uploadToS3,
+  downloadFromS3,
   deleteFromS3,
   generateS3Key,
   uploadFileWithOrganization,
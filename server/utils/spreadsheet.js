@@ -0,0 +1,123 @@
+/**
+ * Streaming CSV/XLSX writer for admin report exports. Rows go straight to the
+ * response as they're added, so large exports never sit in memory.
+ */
+const ExcelJS = require('exceljs');
+const { toCsvRow } = require('./csv');
+
+const REPORT_FORMATS = {
+  csv: { extension: 'csv', contentType: 'text/csv; charset=utf-8' },
+  xlsx: { extension: 'xlsx', contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' }
+};
+
+/**
+ * Normalize the ?format= query value
+ * @param {string} format
+ * @returns {string|null} 'csv' (default) or 'xlsx'; null when unsupported
+ */
+const parseReportFormat = (format) => {
+  const normalized = String(format || 'csv').toLowerCase();
+  return REPORT_FORMATS[normalized] ? normalized : null;
+};
+
+/**
+ * Raised when the admin cancels or loses the download, so the export stops reading rows
+ */
+class ReportAbortedError extends Error {
+  constructor() {
+    super('The download was closed before the export finished');
+    this.name = 'ReportAbortedError';
+  }
+}
+
+const assertOpen = (res) => {
+  if (res.destroyed) {
+    throw new ReportAbortedError();
+  }
+};
+
+// Wait for the client to catch up before writing more; a closed or failed response ends the wait too
+const waitForDrain = (res) => {
+  if (!res.writableNeedDrain) return Promise.resolve();
+
+  return new Promise((resolve, reject) => {
+    const settle = (callback) => (value) => {
+      res.off('drain', onDrain);
+      res.off('close', onClose);
+      res.off('error', onError);
+      callback(value);
+    };
+    const onDrain = settle(resolve);
+    const onClose = settle(() => reject(new ReportAbortedError()));
+    const onError = settle(reject);
+    res.on('drain', onDrain);
+    res.on('close', onClose);
+    res.on('error', onError);
+  });
+};
+
+// XLSX cells hold dates and numbers natively; anything else structured becomes JSON text
+const toXlsxValue = (value) => {
+  if (value === null || value === undefined) return null;
+  if (value instanceof Date || typeof value !== 'object') return value;
+  return JSON.stringify(value);
+};
+
+/**
+ * Start a report download and return a writer for its rows
+ * @param {Object} res - Express response
+ * @param {Object} options
+ * @param {string} options.format - 'csv' or 'xlsx'
+ * @param {string} options.fileName - Without extension; today's date is appended
+ * @param {string} options.sheetName - Worksheet name (XLSX only)
+ * @param {Array<{ header: string, key: string, width?: number }>} options.columns
+ * @returns {{ addRow: (row: Object) => Promise<void>, end: () => Promise<number> }} end() resolves to the row count;
+ *   addRow() rejects with a ReportAbortedError once the download is closed, which ends the caller's cursor loop
+ */
+const createReportWriter = (res, { format, fileName, sheetName, columns }) => {
+  const { extension, contentType } = REPORT_FORMATS[format];
+  res.setHeader('Content-Type', contentType);
+  res.setHeader('Content-Disposition', `attachment; filename="${fileName}-${new Date().toISOString().slice(0, 10)}.${extension}"`);
+
+  let rows = 0;
+
+  if (format === 'xlsx') {
+    const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: res, useStyles: true, useSharedStrings: false });
+    const sheet = workbook.addWorksheet(sheetName);
+    sheet.columns = columns.map(({ header, key, width = 18 }) => ({ header, key, width }));
+    sheet.getRow(1).font = { bold: true };
+    sheet.views = [{ state: 'frozen', ySplit: 1 }];
+
+    return {
+      addRow: async (row) => {
+        assertOpen(res);
+        const values = {};
+        columns.forEach(({ key }) => { values[key] = toXlsxValue(row[key]); });
+        sheet.addRow(values).commit();
+        rows++;
+        await waitForDrain(res);
+      },
+      end: async () => {
+        sheet.commit();
+        await workbook.commit();
+        return rows;
+      }
+    };
+  }
+
+  res.write(toCsvRow(columns.map(({ header }) => header)));
+  return {
+    addRow: async (row) => {
+      assertOpen(res);
+      res.write(toCsvRow(columns.map(({ key }) => row[key])));
+      rows++;
+      await waitForDrain(res);
+    },
+    end: async () => {
+      res.end();
+      return rows;
+    }
+  };
+};
+
+module.exports = { REPORT_FORMATS, parseReportFormat, createReportWriter };
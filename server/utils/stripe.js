@@ -1,6 +1,19 @@
 let stripe, createCheckoutSession, verifyWebhook;
 const { getEnglishText } = require('./bilingualHelper');
 
+// Unpaid promo-code sessions expire soon after Stripe's 30 minute minimum, releasing their reserved redemption
+const COUPON_SESSION_TTL_SECONDS = 35 * 60;
+
+/**
+ * Checkout session metadata for a redeemed promo code (Stripe metadata values are strings)
+ */
+const couponMetadata = (pricing) => ({
+  couponId: pricing.coupon._id.toString(),
+  couponCode: pricing.coupon.code,
+  originalAmount: pricing.originalAmount.toString(),
+  discountAmount: pricing.discountAmount.toString()
+});
+
 if (process.env.STRIPE_SECRET_KEY) {
   const Stripe = require('stripe');
   const secretKey = process.env.STRIPE_SECRET_KEY;
@@ -16,7 +29,7 @@ if (process.env.STRIPE_SECRET_KEY) {
   
   stripe = Stripe(secretKey);
 
-  createCheckoutSession = async ({ user, course, bundle, successUrl, cancelUrl }) => {
+  createCheckoutSession = async ({ user, course, bundle, successUrl, cancelUrl, pricing = null, price = null, gift = null }) => {
     try {
       console.log('🔧 Creating Stripe checkout session...');
       console.log(`   - User: ${user.email}`);
@@ -58,6 +71,29 @@ if (process.env.STRIPE_SECRET_KEY) {
         throw new Error('Either course or bundle is required');
       }
 
+      // Local-currency price set by the admin (price.amount is already in that currency)
+      const currency = price ? price.currency : 'usd';
+      if (price) {
+        unitAmount = Math.round(price.amount * 100);
+        metadata.currency = currency;
+        console.log(`   - Currency: ${currency.toUpperCase()} (${price.amount})`);
+      }
+
+      // Promo code: charge the discounted price and keep the redemption details for the webhook
+      if (pricing && pricing.coupon) {
+        console.log(`   - Coupon: ${pricing.coupon.code} (-${pricing.discountAmount}, charging ${pricing.finalAmount} ${currency.toUpperCase()})`);
+        unitAmount = Math.round(pricing.finalAmount * 100);
+        productDescription = `${productDescription} (promo code ${pricing.coupon.code} applied)`;
+        Object.assign(metadata, couponMetadata(pricing));
+      }
+
+      // Gift: the webhook issues the redemption code instead of granting the buyer access
+      if (gift) {
+        console.log(`   - Gift for: ${gift.recipientEmail}`);
+        productName = `Gift: ${productName}`;
+        metadata.giftId = gift._id.toString();
+      }
+
       console.log(`   - Success URL: ${successUrl}`);
       console.log(`   - Cancel URL: ${cancelUrl}`);
 
@@ -67,7 +103,7 @@ if (process.env.STRIPE_SECRET_KEY) {
         line_items: [
           {
             price_data: {
-              currency: 'usd',
+              currency,
               product_data: {
                 name: productName,
                 description: productDescription,
@@ -86,6 +122,9 @@ if (process.env.STRIPE_SECRET_KEY) {
         billing_address_collection: 'required',
         // Add customer creation for future reference
         customer_creation: 'always',
+        ...(pricing && pricing.coupon
+          ? { expires_at: Math.floor(Date.now() / 1000) + COUPON_SESSION_TTL_SECONDS }
+          : {}),
       });
 
       console.log('✅ Stripe session created successfully');
@@ -200,7 +239,8 @@ if (process.env.STRIPE_SECRET_KEY) {
             throw new Error('Invalid event structure');
           }
           
-          // Check if it's a known Stripe event type
+          // Check if it's a known Stripe event type. Refund, dispute and subscription events
+          // revoke or grant access, so they are only accepted with a valid signature.
           const validEventTypes = [
             'checkout.session.completed',
             'payment_intent.succeeded',
@@ -217,7 +257,8 @@ if (process.env.STRIPE_SECRET_KEY) {
           // Additional validation for checkout.session.completed
           if (eventData.type === 'checkout.session.completed') {
             const session = eventData.data.object;
-            if (!session.metadata || !session.metadata.userId || !session.metadata.courseId) {
+            const hasItem = session.metadata && (session.metadata.courseId || session.metadata.bundleId || session.mode === 'subscription');
+            if (!session.metadata || !session.metadata.userId || !hasItem) {
               throw new Error('Missing required metadata in checkout session');
             }
           }
@@ -243,7 +284,7 @@ if (process.env.STRIPE_SECRET_KEY) {
   console.log('⚠️  Stripe not configured - using development mode');
   stripe = null;
   
-  createCheckoutSession = async ({ user, course, bundle, successUrl, cancelUrl }) => {
+  createCheckoutSession = async ({ user, course, bundle, successUrl, cancelUrl, pricing = null, price = null, gift = null }) => {
     console.log('🔧 Creating development checkout session...');
     console.log(`   - User: ${user.email}`);
     
@@ -275,6 +316,16 @@ if (process.env.STRIPE_SECRET_KEY) {
     } else {
       throw new Error('Either course or bundle is required');
     }
+
+    if (price) {
+      metadata.currency = price.currency;
+    }
+    if (pricing && pricing.coupon) {
+      Object.assign(metadata, couponMetadata(pricing));
+    }
+    if (gift) {
+      metadata.giftId = gift._id.toString();
+    }
     
     // Simulate a Stripe session object
     const session = {
@@ -0,0 +1,51 @@
+/**
+ * Minimal User-Agent parsing for the "signed-in devices" list.
+ * Only needs to be good enough for a person to recognise their own device.
+ */
+
+// Order matters: Edge and Opera include "Chrome", Chrome includes "Safari"
+const BROWSERS = [
+  { name: 'Edge', pattern: /Edg(?:e|A|iOS)?\/([\d]+)/ },
+  { name: 'Opera', pattern: /(?:OPR|Opera)\/([\d]+)/ },
+  { name: 'Samsung Internet', pattern: /SamsungBrowser\/([\d]+)/ },
+  { name: 'Firefox', pattern: /(?:Firefox|FxiOS)\/([\d]+)/ },
+  { name: 'Chrome', pattern: /(?:Chrome|CriOS)\/([\d]+)/ },
+  { name: 'Safari', pattern: /Version\/([\d]+).*Safari/ }
+];
+
+const OPERATING_SYSTEMS = [
+  { name: 'iOS', pattern: /iPhone|iPad|iPod/ },
+  { name: 'Android', pattern: /Android/ },
+  { name: 'Windows', pattern: /Windows/ },
+  { name: 'macOS', pattern: /Mac OS X|Macintosh/ },
+  { name: 'ChromeOS', pattern: /CrOS/ },
+  { name: 'Linux', pattern: /Linux/ }
+];
+
+/**
+ * @param {string} userAgent - User-Agent header
+ * @returns {Object} { browser, os, deviceType }
+ */
+const parseUserAgent = (userAgent = '') => {
+  const ua = String(userAgent);
+
+  const browserMatch = BROWSERS.find(browser => browser.pattern.test(ua));
+  const browser = browserMatch
+    ? `${browserMatch.name} ${ua.match(browserMatch.pattern)[1]}`
+    : 'Unknown browser';
+
+  const os = OPERATING_SYSTEMS.find(system => system.pattern.test(ua))?.name || 'Unknown OS';
+
+  let deviceType = 'unknown';
+  if (/iPad|Tablet/.test(ua) || (/Android/.test(ua) && !/Mobile/.test(ua))) {
+    deviceType = 'tablet';
+  } else if (/Mobi|iPhone|iPod/.test(ua)) {
+    deviceType = 'mobile';
+  } else if (ua) {
+    deviceType = 'desktop';
+  }
+
+  return { browser, os, deviceType };
+};
+
+module.exports = { parseUserAgent };
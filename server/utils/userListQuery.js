@@ -0,0 +1,52 @@
+/**
+ * Filter and sort for the admin user list, shared by the paged list and the export
+ * @param {Object} query - { search, status, role, sortBy, sortOrder } from the query string
+ * @returns {{ filter: Object, sort: Object }}
+ */
+const buildUserListQuery = ({ search = '', status = '', role = '', sortBy = 'createdAt', sortOrder = 'desc' } = {}) => {
+  const filter = {};
+
+  // Search by name or email
+  if (search) {
+    filter.$or = [
+      { name: { $regex: search, $options: 'i' } },
+      { email: { $regex: search, $options: 'i' } }
+    ];
+  }
+
+  // Filter by status
+  if (status) {
+    filter.status = status;
+  }
+
+  // Filter by role
+  if (role) {
+    filter.role = role;
+  }
+
+  // Build sort object
+  const sort = {};
+  const order = sortOrder === 'asc' ? 1 : -1;
+
+  // Handle different sort fields
+  switch (sortBy) {
+    case 'name':
+      sort.name = order;
+      break;
+    case 'email':
+      sort.email = order;
+      break;
+    case 'status':
+      // For status sorting, we'll use a custom sort order: active, inactive
+      sort.status = order;
+      break;
+    case 'createdAt':
+    default:
+      sort.createdAt = order;
+      break;
+  }
+
+  return { filter, sort };
+};
+
+module.exports = { buildUserListQuery };